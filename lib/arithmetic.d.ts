@@ -0,0 +1,20 @@
+import { RoundingPolicy } from './rounding';
+/**
+ * Number backend the calculations run on. Implement it to plug in a third party decimal library.
+ */
+export interface Arithmetic<T> {
+    from(value: number | string): T;
+    add(a: T, b: T): T;
+    subtract(a: T, b: T): T;
+    multiply(a: T, b: T): T;
+    divide(a: T, b: T): T;
+    /** raises to an integer power */
+    pow(base: T, exponent: number): T;
+    compare(a: T, b: T): number;
+    round(value: T, policy?: RoundingPolicy): T;
+    toNumber(value: T): number;
+}
+/**
+ * IEEE double backend, the default
+ */
+export declare const floatArithmetic: Arithmetic<number>;
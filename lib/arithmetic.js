@@ -0,0 +1,18 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.floatArithmetic = void 0;
+var rounding_1 = require("./rounding");
+/**
+ * IEEE double backend, the default
+ */
+exports.floatArithmetic = {
+    from: function (value) { return Number(value); },
+    add: function (a, b) { return a + b; },
+    subtract: function (a, b) { return a - b; },
+    multiply: function (a, b) { return a * b; },
+    divide: function (a, b) { return a / b; },
+    pow: function (base, exponent) { return Math.pow(base, exponent); },
+    compare: function (a, b) { return a < b ? -1 : a > b ? 1 : 0; },
+    round: function (value, policy) { return (0, rounding_1.round)(value, policy); },
+    toNumber: function (value) { return value; },
+};
@@ -0,0 +1,113 @@
+import { DayCount } from './daycount';
+import { SolverOptions } from './solver';
+/** coupon payments per year */
+export type CouponFrequency = 1 | 2 | 4 | 12;
+export interface Bond {
+    settlement: Date;
+    maturity: Date;
+    /** annual coupon rate as a fraction, 0 for a zero-coupon bond */
+    couponRate: number;
+    /** face value prices are quoted on, defaults to 100 */
+    faceValue?: number;
+    /** amount repaid at maturity, defaults to the face value */
+    redemption?: number;
+    /** coupons per year, defaults to 2 */
+    frequency?: CouponFrequency;
+    /** day count used to accrue coupons, defaults to 30/360 US */
+    dayCount?: DayCount;
+}
+export interface CallSchedule {
+    date: Date;
+    /** price paid when the bond is called, quoted on the face value like prices */
+    price: number;
+}
+export interface BondAnalytics {
+    cleanPrice: number;
+    dirtyPrice: number;
+    accruedInterest: number;
+    /** weighted average time to the cash flows, in years */
+    macaulayDuration: number;
+    /** relative price change for a change in yield, in years */
+    modifiedDuration: number;
+    convexity: number;
+    /** price change for a one basis point drop in yield */
+    dv01: number;
+}
+/**
+ * Accrued interest - coupon interest earned since the last coupon date, which the buyer pays on top of the
+ * clean price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @returns {number} - accrued interest per face value
+ * @example accruedInterest({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 0.0575 }) // 1.4375
+ */
+export declare function accruedInterest(bond: Bond): number;
+/**
+ * Dirty price - present value of the remaining coupons and redemption at a yield, compounded at the coupon
+ * frequency, accrued interest included
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price per face value
+ */
+export declare function dirtyPrice(bond: Bond, yieldRate: number): number;
+/**
+ * Clean price - the quoted price, dirty price less accrued interest
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price per face value
+ * @example cleanPrice({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 0.0575 }, 0.065) // 94.63
+ */
+export declare function cleanPrice(bond: Bond, yieldRate: number): number;
+/**
+ * Yield to maturity (YTM) - the yield at which the bond's cash flows are worth its clean price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param price - clean price per face value
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual yield as a fraction
+ * @example yieldToMaturity({ settlement: new Date('2008-02-15'), maturity: new Date('2016-11-15'), couponRate: 0.0575 }, 95.04287) // 0.065
+ */
+export declare function yieldToMaturity(bond: Bond, price: number, options?: SolverOptions): number;
+/**
+ * Yield to call (YTC) - the yield to maturity of the bond redeemed at the call price on the call date
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param price - clean price per face value
+ * @param call - call date and call price
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual yield as a fraction
+ */
+export declare function yieldToCall(bond: Bond, price: number, call: CallSchedule, options?: SolverOptions): number;
+/**
+ * Macaulay duration - the present value weighted average time to the bond's cash flows
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - duration in years
+ */
+export declare function macaulayDuration(bond: Bond, yieldRate: number): number;
+/**
+ * Modified duration - Macaulay duration divided by one plus the yield per period, the relative price change for
+ * a unit change in yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - duration in years
+ */
+export declare function modifiedDuration(bond: Bond, yieldRate: number): number;
+/**
+ * Convexity - second derivative of the price with respect to the yield, relative to the price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - convexity in years squared
+ */
+export declare function convexity(bond: Bond, yieldRate: number): number;
+/**
+ * Dollar value of a basis point (DV01) - the dirty price change for a one basis point drop in the yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price change per face value
+ */
+export declare function dv01(bond: Bond, yieldRate: number): number;
+/**
+ * Bond analytics - prices, accrued interest and risk measures at a yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {BondAnalytics} - clean and dirty price, accrued interest, durations, convexity and DV01
+ */
+export declare function bondAnalytics(bond: Bond, yieldRate: number): BondAnalytics;
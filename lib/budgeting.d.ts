@@ -0,0 +1,232 @@
+import { Arithmetic } from './arithmetic';
+import { YieldCurve } from './curve';
+import { DayCount } from './daycount';
+import { RoundingPolicy } from './rounding';
+import { SolverOptions } from './solver';
+/**
+ * Capital budgeting - present values, rates of return, payback and break-even of a series of cash flows. Rates are
+ * fractions, the first cash flow is at time 0 and results are unrounded unless a rounding policy is given.
+ */
+export interface NpvOptions {
+    /** discount rate per period, or a yield curve discounting period i at time i years */
+    rate: number | YieldCurve;
+    cashFlows: number[];
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+    /** rounding of the result, defaults to none */
+    rounding?: RoundingPolicy;
+}
+export interface IrrOptions extends SolverOptions {
+    /** cash flows with at least one sign change */
+    cashFlows: number[];
+}
+export interface IRRScanOptions {
+    /** lowest and highest rate searched, as fractions unless a rate unit is set, defaults to -99% and 1000% */
+    range?: [number, number];
+    /** number of grid points scanned for sign changes, defaults to 1000 */
+    steps?: number;
+    tolerance?: number;
+}
+export interface AllIrrOptions extends IRRScanOptions {
+    cashFlows: number[];
+}
+export interface MultipleIRR {
+    /** every IRR found in the range */
+    rates: number[];
+    /** sign changes in the cash flows, the upper bound on the number of IRRs (Descartes' rule of signs) */
+    signChanges: number;
+    /** true when the cash flows are non-conventional and may have more than one IRR */
+    multipleRoots: boolean;
+}
+export interface MirrOptions {
+    /** cash flows with at least one sign change */
+    cashFlows: number[];
+    /** rate paid on the money used in the cash flows */
+    financeRate: number;
+    /** rate received on the cash flows as they are reinvested */
+    reinvestRate: number;
+}
+export interface XnpvOptions {
+    /** annual discount rate */
+    rate: number;
+    cashFlows: number[];
+    /** dates of the cash flows, discounted back to the first date */
+    dates: Date[];
+    /** day count convention for the year fractions, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+export interface XmirrOptions extends MirrOptions {
+    dates: Date[];
+    /** day count convention for the year fractions, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+export interface DiscountFactorOptions {
+    /** discount rate per period, or a yield curve discounting period i at time i years */
+    rate: number | YieldCurve;
+    /** number of factors, for periods 0 to periods - 1 */
+    periods: number;
+}
+export interface PaybackOptions {
+    /** investment at time 0, negative, then the cash flows recovering it */
+    cashFlows: number[];
+    /** true when cashFlows[1] is received every period, defaults to false */
+    even?: boolean;
+}
+export interface DiscountedPaybackOptions {
+    /** discount rate per period, or a yield curve discounting period i at time i years */
+    rate: number | YieldCurve;
+    /** investment at time 0, negative, then the cash flows recovering it */
+    cashFlows: number[];
+}
+export interface PaybackResult {
+    /** true when the cumulative cash flow reaches 0 */
+    recovered: boolean;
+    /** first period whose cumulative cash flow is at least 0, undefined when never recovered */
+    period?: number;
+    /** whole periods before the recovery period plus the part of its cash flow needed to recover, undefined when never recovered */
+    fractionalPeriod?: number;
+    /** cumulative cash flow at the end of each period from time 0, discounted for discounted payback */
+    cumulative: number[];
+}
+export interface BreakEvenOptions {
+    /** fixed costs of the period */
+    fixedCost: number;
+    /** variable cost per unit */
+    variableCost: number;
+    /** price per unit */
+    price: number;
+}
+export interface BreakEven {
+    /** units sold to cover the fixed costs */
+    units: number;
+    /** revenue from the break-even units */
+    revenue: number;
+    /** price less variable cost per unit */
+    contributionMargin: number;
+    /** contribution margin as a fraction of the price */
+    contributionMarginRatio: number;
+}
+export interface PresentValueOptions {
+    /** discount rate per period */
+    rate: number;
+    /** amount at the end of the last period */
+    amount: number;
+    /** number of periods, defaults to 1 */
+    periods?: number;
+}
+export interface FutureValueOptions {
+    /** growth rate per period */
+    rate: number;
+    /** amount today */
+    amount: number;
+    /** number of periods, defaults to 1 */
+    periods?: number;
+}
+/**
+ * Present value (PV) - the value today of an amount paid at the end of a number of periods
+ * @param options - discount rate, amount and number of periods
+ * @returns {number} - present value
+ * @example presentValue({ rate: 0.1, amount: 100 }) // 90.91
+ */
+export declare function presentValue(options: PresentValueOptions): number;
+/**
+ * Future value (FV) - the value at the end of a number of periods of an amount invested today
+ * @param options - growth rate, amount and number of periods
+ * @returns {number} - future value
+ * @example futureValue({ rate: 0.1, amount: 100 }) // 110
+ */
+export declare function futureValue(options: FutureValueOptions): number;
+/**
+ * Net present value (NPV) - the sum of the present values of cash flows at regular periods
+ * @param options - discount rate or yield curve, cash flows, number backend and rounding
+ * @returns {number} - net present value
+ * @example npv({ rate: 0.1, cashFlows: [-500000, 200000, 300000, 200000] }) // 80015.03
+ */
+export declare function npv(options: NpvOptions): number;
+/**
+ * Internal rate of return (IRR) - the discount rate at which the net present value of cash flows at regular
+ * periods is zero
+ * @param options - cash flows, and solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - rate per period
+ * @example irr({ cashFlows: [-1000, 300, 400, 500] }) // 0.0889
+ */
+export declare function irr(options: IrrOptions): number;
+/**
+ * All IRRs - every rate in a range at which the net present value is zero, for non-conventional cash flows
+ * whose sign changes more than once
+ * @param options - cash flows, range of rates, scan steps and solver tolerance
+ * @returns {MultipleIRR} - IRRs, the sign change count and a multiple roots warning
+ * @example allIrr({ cashFlows: [-100, 230, -132] }) // { rates: [0.1, 0.2], signChanges: 2, multipleRoots: true }
+ */
+export declare function allIrr(options: AllIrrOptions): MultipleIRR;
+/**
+ * Modified internal rate of return (MIRR) - the return when negative cash flows are financed at the finance
+ * rate and positive cash flows are reinvested at the reinvestment rate
+ * @param options - cash flows, one per period, finance rate and reinvestment rate
+ * @returns {number} - rate per period
+ * @example mirr({ cashFlows: [-120000, 39000, 30000, 21000, 37000, 46000], financeRate: 0.1, reinvestRate: 0.12 }) // 0.1261
+ */
+export declare function mirr(options: MirrOptions): number;
+/**
+ * XNPV - net present value of cash flows on irregular dates
+ * @param options - annual discount rate, cash flows, their dates and the day count convention
+ * @returns {number} - net present value at the first date
+ * @example xnpv({ rate: 0.09, cashFlows: [-10000, 2750, 4250, 3250, 2750], dates }) // 2086.65
+ */
+export declare function xnpv(options: XnpvOptions): number;
+/**
+ * XMIRR - modified internal rate of return of cash flows on irregular dates
+ * @param options - cash flows, their dates, finance rate, reinvestment rate and the day count convention
+ * @returns {number} - annual rate
+ */
+export declare function xmirr(options: XmirrOptions): number;
+/**
+ * Profitability index (PI) - the present value of the cash flows after the first over the initial investment
+ * @param options - discount rate or yield curve, cash flows, number backend and rounding
+ * @returns {number} - profitability index
+ * @example profitabilityIndex({ rate: 0.1, cashFlows: [-40000, 18000, 12000, 10000, 9000, 6000] }) // 1.09
+ */
+export declare function profitabilityIndex(options: NpvOptions): number;
+/**
+ * Discount factors (DF) - the present value of 1 paid in each period, from period 0
+ * @param options - discount rate or yield curve, and number of factors
+ * @returns {number[]} - one factor per period
+ * @example discountFactors({ rate: 0.1, periods: 3 }) // [1, 0.9091, 0.8264]
+ */
+export declare function discountFactors(options: DiscountFactorOptions): number[];
+/**
+ * Payback period (PP) - the number of periods the cash flows take to recover the initial investment
+ * @param options - investment and cash flows, and whether the cash flow after the investment repeats every period
+ * @returns {number | undefined} - payback period, undefined when the investment is never recovered; see payback for the details
+ * @example paybackPeriod({ cashFlows: [-105, 25], even: true }) // 4.2
+ */
+export declare function paybackPeriod(options: PaybackOptions): number | undefined;
+/**
+ * Payback - when the cumulative cash flows recover the initial investment, with the cumulative cash flow of every period.
+ * The recovery period is the first whose cumulative cash flow is at least 0, so a later net outflow is not taken into account.
+ * @param options - investment and cash flows, and whether the cash flow after the investment repeats every period
+ * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative cash flows
+ * @example payback({ cashFlows: [-50, 10, 13, 16, 19, 22] }).fractionalPeriod // 3.58
+ */
+export declare function payback(options: PaybackOptions): PaybackResult;
+/**
+ * Discounted payback - payback of the present values of the cash flows, so the time value of money delays recovery
+ * @param options - discount rate or yield curve, investment and cash flows
+ * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative present values
+ * @example discountedPayback({ rate: 0.1, cashFlows: [-100, 50, 50, 50] }).fractionalPeriod // 2.35
+ */
+export declare function discountedPayback(options: DiscountedPaybackOptions): PaybackResult;
+/**
+ * Break-even - the units and revenue at which the contribution margin covers the fixed costs
+ * @param options - fixed costs, variable cost per unit and price per unit
+ * @returns {BreakEven} - break-even units and revenue, and the contribution margin per unit and as a fraction of the price
+ * @example breakEven({ fixedCost: 10000, variableCost: 30, price: 50 }).units // 500
+ */
+export declare function breakEven(options: BreakEvenOptions): BreakEven;
+/**
+ * Sign changes of a series of cash flows, ignoring zeros
+ * @param cashFlows - cash flows
+ * @returns {number} - number of sign changes
+ * @example countSignChanges([-100, 230, 0, -132]) // 2
+ */
+export declare function countSignChanges(cashFlows: number[]): number;
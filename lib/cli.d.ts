@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * Command line interface - runs a Finance method per subcommand, e.g. `financejs NPV 10 -500000 200000 300000`.
+ * Cash flows come from the arguments or from CSV or JSON on stdin, and results are written as a table, CSV or JSON.
+ * Stdin is only read when a command has no input in its arguments, or when it is asked for with - or --input -.
+ */
+export type OutputFormat = 'table' | 'csv' | 'json';
+export interface CliResult {
+    /** 0 - success, 1 - the calculation failed, 2 - the command line is invalid */
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+/**
+ * Thrown for an unknown command, a missing argument or input that can't be parsed
+ */
+export declare class UsageError extends Error {
+    constructor(message: string);
+}
+/**
+ * Runs a command line, without touching the process, so it can be embedded and tested
+ * @param argv - arguments after the program name, e.g. ['NPV', '10', '-100', '60', '60']
+ * @param stdin - standard input, or a function reading it, called only when a command needs it
+ * @returns {CliResult} - exit code and the text for stdout and stderr
+ * @example run(['NPV', '10', '-100', '60', '60']).stdout // '4.13\n'
+ */
+export declare function run(argv: string[], stdin?: string | (() => string)): CliResult;
+/**
+ * Writes a result as an aligned table, CSV or JSON. Objects are flattened to dotted keys and lists of rows
+ * become tables with a column per field.
+ * @param value - result of a command
+ * @param format - table, csv or json
+ * @returns {string} - text ending with a newline
+ */
+export declare function render(value: unknown, format?: OutputFormat): string;
+/**
+ * Parses cash flows from CSV or JSON: a JSON array of numbers or of { date, amount }, a JSON object with
+ * cashFlows and optional dates, or CSV with an amount per line, or a date and an amount. A header line is skipped.
+ * @param text - CSV or JSON
+ * @returns {{ cashFlows: number[], dates?: Date[] }} - cash flows, and their dates when given
+ * @example parseCashFlows('date,amount\n2023-01-01,-100\n2024-01-01,110').cashFlows // [-100, 110]
+ */
+export declare function parseCashFlows(text: string): {
+    cashFlows: number[];
+    dates?: Date[];
+};
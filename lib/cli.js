@@ -0,0 +1,833 @@
+#!/usr/bin/env node
+"use strict";
+var __extends = (this && this.__extends) || (function () {
+    var extendStatics = function (d, b) {
+        extendStatics = Object.setPrototypeOf ||
+            ({ __proto__: [] } instanceof Array && function (d, b) { d.__proto__ = b; }) ||
+            function (d, b) { for (var p in b) if (Object.prototype.hasOwnProperty.call(b, p)) d[p] = b[p]; };
+        return extendStatics(d, b);
+    };
+    return function (d, b) {
+        if (typeof b !== "function" && b !== null)
+            throw new TypeError("Class extends value " + String(b) + " is not a constructor or null");
+        extendStatics(d, b);
+        function __() { this.constructor = d; }
+        d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+    };
+})();
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
+var __spreadArray = (this && this.__spreadArray) || function (to, from, pack) {
+    if (pack || arguments.length === 2) for (var i = 0, l = from.length, ar; i < l; i++) {
+        if (ar || !(i in from)) {
+            if (!ar) ar = Array.prototype.slice.call(from, 0, i);
+            ar[i] = from[i];
+        }
+    }
+    return to.concat(ar || Array.prototype.slice.call(from));
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.parseCashFlows = exports.render = exports.run = exports.UsageError = void 0;
+var fs = require("fs");
+var errors_1 = require("./errors");
+var finance_1 = require("./finance");
+/**
+ * Thrown for an unknown command, a missing argument or input that can't be parsed
+ */
+var UsageError = /** @class */ (function (_super) {
+    __extends(UsageError, _super);
+    function UsageError(message) {
+        var _newTarget = this.constructor;
+        var _this = _super.call(this, message) || this;
+        Object.setPrototypeOf(_this, _newTarget.prototype);
+        _this.name = 'UsageError';
+        return _this;
+    }
+    return UsageError;
+}(Error));
+exports.UsageError = UsageError;
+// flags read by run itself rather than by the commands
+var GLOBAL_FLAGS = ['format', 'rateUnit', 'decimals', 'help', 'input'];
+var RATE_UNITS = ['percent', 'decimal', 'bps'];
+var DAY_COUNTS = ['ACT/365F', 'ACT/360', 'ACT/ACT ISDA', '30/360 US', '30E/360'];
+var ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+var COMMANDS = {
+    PV: numeric('<rate> <cf1> [numOfPeriod]', 'present value of a cash flow', function (f, _a) {
+        var rate = _a[0], cf1 = _a[1], n = _a[2];
+        return f.PV(rate, cf1, n);
+    }),
+    FV: numeric('<rate> <cf0> [numOfPeriod]', 'future value of a cash flow', function (f, _a) {
+        var rate = _a[0], cf0 = _a[1], n = _a[2];
+        return f.FV(rate, cf0, n);
+    }),
+    NPV: {
+        usage: '<rate> [cashFlows...]',
+        description: 'net present value of cash flows at regular periods',
+        run: function (f, input) { return f.NPV.apply(f, __spreadArray([numberArg(input, 0, 'rate')], cashFlows(input, 1), false)); },
+    },
+    IRR: {
+        usage: '[cashFlows...] [--depth 100]',
+        description: 'internal rate of return',
+        run: function (f, input) { return f.IRR({ depth: numberFlag(input, 'depth', 100), cashFlow: cashFlows(input, 0) }); },
+    },
+    allIRR: {
+        usage: '[cashFlows...]',
+        description: 'every internal rate of return of non-conventional cash flows',
+        run: function (f, input) { return f.allIRR(cashFlows(input, 0)); },
+    },
+    MIRR: {
+        usage: '<financeRate> <reinvestRate> [cashFlows...]',
+        description: 'modified internal rate of return',
+        run: function (f, input) { return f.MIRR(cashFlows(input, 2), numberArg(input, 0, 'financeRate'), numberArg(input, 1, 'reinvestRate')); },
+    },
+    PP: {
+        usage: '<numOfPeriods> [cashFlows...]',
+        description: 'payback period, numOfPeriods 0 for even cash flows',
+        run: function (f, input) {
+            var period = f.PP.apply(f, __spreadArray([numberArg(input, 0, 'numOfPeriods')], cashFlows(input, 1), false));
+            if (period === undefined) {
+                throw new errors_1.CashFlowError('not recovered, the cash flows never pay back the initial investment');
+            }
+            return period;
+        },
+    },
+    payback: {
+        usage: '[cashFlows...] [--even]',
+        description: 'payback period with the cumulative cash flows, --even when cashFlows[1] repeats every period',
+        run: function (f, input) { return f.payback(cashFlows(input, 0), input.flags.even !== undefined && input.flags.even !== 'false'); },
+    },
+    discountedPayback: {
+        usage: '<rate> [cashFlows...]',
+        description: 'payback period of the present values of cash flows',
+        run: function (f, input) { return f.discountedPayback(numberArg(input, 0, 'rate'), cashFlows(input, 1)); },
+    },
+    breakEven: numeric('<fixedCost> <variableCost> <price>', 'break-even units and revenue', function (f, _a) {
+        var fixedCost = _a[0], variableCost = _a[1], price = _a[2];
+        return f.breakEven(fixedCost, variableCost, price);
+    }),
+    ROI: numeric('<cf0> <earnings>', 'return on investment', function (f, _a) {
+        var cf0 = _a[0], earnings = _a[1];
+        return f.ROI(cf0, earnings);
+    }),
+    AM: numeric('<principal> <rate> <period> [yearOrMonth] [payAtBeginning]', 'monthly payment of a loan', function (f, _a) {
+        var principal = _a[0], rate = _a[1], period = _a[2], yearOrMonth = _a[3], payAtBeginning = _a[4];
+        return f.AM(principal, rate, period, yearOrMonth, flag(payAtBeginning));
+    }),
+    amortizationSchedule: {
+        usage: '--principal <n> --rate <r> --num-of-payments <n> [--frequency monthly] [--start-date <date>] [--pay-at-beginning]',
+        description: 'every payment of a level payment loan',
+        run: function (f, input) { return f.amortizationSchedule(options(input)); },
+    },
+    modelLoan: {
+        usage: '--principal <n> --rate <r> --num-of-payments <n> [--input -], events as JSON on stdin',
+        description: 'loan schedule with prepayments, rate changes, holidays and balloons',
+        run: function (f, input) { return f.modelLoan(options(input)); },
+    },
+    PI: {
+        usage: '<rate> [cashFlows...]',
+        description: 'profitability index',
+        run: function (f, input) { return f.PI(numberArg(input, 0, 'rate'), cashFlows(input, 1)); },
+    },
+    DF: numeric('<rate> <numOfPeriods>', 'discount factors', function (f, _a) {
+        var rate = _a[0], n = _a[1];
+        return f.DF(rate, n);
+    }),
+    CI: numeric('<rate> <numOfCompoundings> <principal> <numOfPeriods>', 'principal with compound interest', function (f, _a) {
+        var rate = _a[0], compoundings = _a[1], principal = _a[2], n = _a[3];
+        return f.CI(rate, compoundings, principal, n);
+    }),
+    CAGR: numeric('<beginningValue> <endingValue> <numOfPeriods>', 'compound annual growth rate', function (f, _a) {
+        var b = _a[0], e = _a[1], n = _a[2];
+        return f.CAGR(b, e, n);
+    }),
+    LR: numeric('<totalLiabilities> <totalDebts> <totalIncome>', 'leverage ratio', function (f, _a) {
+        var l = _a[0], d = _a[1], i = _a[2];
+        return f.LR(l, d, i);
+    }),
+    R72: numeric('<rate>', 'rule of 72', function (f, _a) {
+        var rate = _a[0];
+        return f.R72(rate);
+    }),
+    WACC: numeric('<marketValueOfEquity> <marketValueOfDebt> <costOfEquity> <costOfDebt> <taxRate>', 'weighted average cost of capital', function (f, _a) {
+        var e = _a[0], d = _a[1], re = _a[2], rd = _a[3], t = _a[4];
+        return f.WACC(e, d, re, rd, t);
+    }),
+    PMT: numeric('<rate> <numOfPayments> <principal>', 'monthly loan payment', function (f, _a) {
+        var rate = _a[0], n = _a[1], principal = _a[2];
+        return f.PMT(rate, n, principal);
+    }),
+    IAR: numeric('<investmentReturn> <inflationRate>', 'inflation-adjusted return', function (f, _a) {
+        var r = _a[0], i = _a[1];
+        return f.IAR(r, i);
+    }),
+    APR: numeric('<principal> <rate> <numOfPayments> [fees]', 'annual percentage rate of a loan with fees', function (f, _a) {
+        var principal = _a[0], rate = _a[1], n = _a[2], fees = _a[3];
+        return f.APR(principal, rate, n, fees);
+    }),
+    APY: {
+        usage: '<rate> <compoundings|continuous>',
+        description: 'annual percentage yield of a nominal rate',
+        run: function (f, input) { return f.APY(numberArg(input, 0, 'rate'), compounding(input, 1, 'compoundings')); },
+    },
+    convertCompounding: {
+        usage: '<rate> <from> <to>, compoundings per year or continuous',
+        description: 'nominal rate at another compounding',
+        run: function (f, input) { return f.convertCompounding(numberArg(input, 0, 'rate'), compounding(input, 1, 'from'), compounding(input, 2, 'to')); },
+    },
+    compareLoans: {
+        usage: '--discount-rate <r>, offers as a JSON array on stdin',
+        description: 'total cost and present value of cost of loan offers',
+        run: function (f, input) {
+            var offers = input.stdin().trim() ? parseJson(input.stdin().trim()) : undefined;
+            if (!Array.isArray(offers)) {
+                throw new UsageError('loan offers must be a JSON array on stdin');
+            }
+            return f.compareLoans(offers, toNumber(requireOption(input.flags.discountRate, 'discountRate'), '--discount-rate'));
+        },
+    },
+    refinanceBreakEven: {
+        usage: '--balance <n> --current-rate <r> --remaining-payments <n> --new-rate <r> [--new-num-of-payments <n>] --closing-costs <n>',
+        description: 'month the savings of a refinance cover its closing costs',
+        run: function (f, input) { return f.refinanceBreakEven(options(input)); },
+    },
+    affordability: {
+        usage: '--monthly-income <n> --target-dti <r> [--other-debt-payments <n>] --rate <r> --num-of-payments <n>',
+        description: 'largest loan within a debt-to-income ratio',
+        run: function (f, input) { return f.affordability(options(input)); },
+    },
+    DTI: numeric('<monthlyDebtPayments> <monthlyIncome>', 'debt-to-income ratio', function (f, _a) {
+        var debts = _a[0], income = _a[1];
+        return f.DTI(debts, income);
+    }),
+    analyzeRatios: {
+        usage: '[--days-in-period 365] [--input -], { income, balance, cashFlow, openingBalance } as JSON on stdin',
+        description: 'liquidity, leverage, coverage, efficiency and profitability ratios with DuPont',
+        run: function (f, input) {
+            var _a = options(input), daysInPeriod = _a.daysInPeriod, statements = __rest(_a, ["daysInPeriod"]);
+            return f.analyzeRatios(statements, { daysInPeriod: daysInPeriod });
+        },
+    },
+    statementGrowth: {
+        usage: 'financial statements of consecutive periods as a JSON array on stdin',
+        description: 'period-over-period growth and CAGR of statement metrics',
+        run: function (f, input) {
+            var statements = input.stdin().trim() ? parseJson(input.stdin().trim()) : undefined;
+            if (!Array.isArray(statements)) {
+                throw new UsageError('financial statements must be a JSON array on stdin');
+            }
+            return f.statementGrowth(statements);
+        },
+    },
+    XNPV: {
+        usage: '<rate> [date:amount...] [--day-count ACT/365F]',
+        description: 'net present value of cash flows on irregular dates',
+        run: function (f, input) {
+            var _a = datedFlows(input, 1), values = _a.cashFlows, dates = _a.dates;
+            return f.XNPV(numberArg(input, 0, 'rate'), values, dates, dayCount(input));
+        },
+    },
+    XIRR: {
+        usage: '[date:amount...] [--guess 0] [--day-count ACT/365F]',
+        description: 'internal rate of return of cash flows on irregular dates',
+        run: function (f, input) {
+            var _a = datedFlows(input, 0), values = _a.cashFlows, dates = _a.dates;
+            return f.XIRR(values, dates, numberFlag(input, 'guess', 0), { dayCount: dayCount(input) });
+        },
+    },
+    XMIRR: {
+        usage: '<financeRate> <reinvestRate> [date:amount...] [--day-count ACT/365F]',
+        description: 'modified internal rate of return of cash flows on irregular dates',
+        run: function (f, input) {
+            var _a = datedFlows(input, 2), values = _a.cashFlows, dates = _a.dates;
+            return f.XMIRR(values, dates, numberArg(input, 0, 'financeRate'), numberArg(input, 1, 'reinvestRate'), dayCount(input));
+        },
+    },
+    TWR: {
+        usage: '{ valuations, flows } as JSON on stdin, or date,value CSV [--day-count ACT/365F]',
+        description: 'time-weighted return',
+        run: function (f, input) {
+            var _a = portfolio(input), valuations = _a.valuations, flows = _a.flows;
+            return f.TWR(valuations, flows, dayCount(input));
+        },
+    },
+    MWR: {
+        usage: '{ valuations, flows } as JSON on stdin, or date,value CSV [--day-count ACT/365F]',
+        description: 'money-weighted return',
+        run: function (f, input) {
+            var _a = portfolio(input), valuations = _a.valuations, flows = _a.flows;
+            return f.MWR(valuations, flows, { dayCount: dayCount(input) });
+        },
+    },
+    CAPM: numeric('<rf> <beta> <emr> <err>', 'expected return of an asset', function (f, _a) {
+        var rf = _a[0], beta = _a[1], emr = _a[2], err = _a[3];
+        return f.CAPM(rf, beta, emr, err);
+    }),
+    stockPV: numeric('<g> <ke> <D0>', 'value of a stock with constant dividend growth', function (f, _a) {
+        var g = _a[0], ke = _a[1], d0 = _a[2];
+        return f.stockPV(g, ke, d0);
+    }),
+    twoStageDDM: {
+        usage: '--dividend <d> --high-growth <g> --high-growth-years <n> --stable-growth <g> --cost-of-equity <r>',
+        description: 'two-stage dividend discount model',
+        run: function (f, input) { return f.twoStageDDM(options(input)); },
+    },
+    threeStageDDM: {
+        usage: '--dividend <d> --high-growth <g> --high-growth-years <n> --transition-years <n> --stable-growth <g> --cost-of-equity <r>',
+        description: 'three-stage dividend discount model',
+        run: function (f, input) { return f.threeStageDDM(options(input)); },
+    },
+    hModel: {
+        usage: '--dividend <d> --initial-growth <g> --stable-growth <g> --half-life <n> --cost-of-equity <r>',
+        description: 'H-model dividend discount',
+        run: function (f, input) { return f.hModel(options(input)); },
+    },
+    DCF: {
+        usage: 'DCF options as JSON on stdin',
+        description: 'discounted cash flow valuation',
+        run: function (f, input) { return f.DCF(options(input)); },
+    },
+    RATE: numeric('<numOfPeriods> <payment> <presentValue> [futureValue] [type] [guess]', 'rate per period of an annuity', function (f, _a) {
+        var n = _a[0], payment = _a[1], pv = _a[2], fv = _a[3], type = _a[4], guess = _a[5];
+        return f.RATE(n, payment, pv, fv, timing(type), guess);
+    }),
+    NPER: numeric('<ratePerPeriod> <payment> <presentValue> [futureValue] [type]', 'number of periods of an annuity', function (f, _a) {
+        var rate = _a[0], payment = _a[1], pv = _a[2], fv = _a[3], type = _a[4];
+        return f.NPER(rate, payment, pv, fv, timing(type));
+    }),
+    IPMT: numeric('<ratePerPeriod> <per> <numOfPeriods> <presentValue> [futureValue] [type]', 'interest part of a payment', function (f, _a) {
+        var rate = _a[0], per = _a[1], n = _a[2], pv = _a[3], fv = _a[4], type = _a[5];
+        return f.IPMT(rate, per, n, pv, fv, timing(type));
+    }),
+    PPMT: numeric('<ratePerPeriod> <per> <numOfPeriods> <presentValue> [futureValue] [type]', 'principal part of a payment', function (f, _a) {
+        var rate = _a[0], per = _a[1], n = _a[2], pv = _a[3], fv = _a[4], type = _a[5];
+        return f.PPMT(rate, per, n, pv, fv, timing(type));
+    }),
+    CUMIPMT: numeric('<ratePerPeriod> <numOfPeriods> <presentValue> <startPeriod> <endPeriod> <type>', 'interest paid between two periods', function (f, _a) {
+        var rate = _a[0], n = _a[1], pv = _a[2], start = _a[3], end = _a[4], type = _a[5];
+        return f.CUMIPMT(rate, n, pv, start, end, type);
+    }),
+    CUMPRINC: numeric('<ratePerPeriod> <numOfPeriods> <presentValue> <startPeriod> <endPeriod> <type>', 'principal repaid between two periods', function (f, _a) {
+        var rate = _a[0], n = _a[1], pv = _a[2], start = _a[3], end = _a[4], type = _a[5];
+        return f.CUMPRINC(rate, n, pv, start, end, type);
+    }),
+    EFFECT: numeric('<nominalRate> <npery>', 'effective annual rate', function (f, _a) {
+        var rate = _a[0], npery = _a[1];
+        return f.EFFECT(rate, npery);
+    }),
+    NOMINAL: numeric('<effectRate> <npery>', 'nominal annual rate', function (f, _a) {
+        var rate = _a[0], npery = _a[1];
+        return f.NOMINAL(rate, npery);
+    }),
+    SLN: numeric('<cost> <salvage> <life>', 'straight-line depreciation', function (f, _a) {
+        var cost = _a[0], salvage = _a[1], life = _a[2];
+        return f.SLN(cost, salvage, life);
+    }),
+    SYD: numeric('<cost> <salvage> <life> <period>', "sum-of-years' digits depreciation", function (f, _a) {
+        var cost = _a[0], salvage = _a[1], life = _a[2], period = _a[3];
+        return f.SYD(cost, salvage, life, period);
+    }),
+    DB: numeric('<cost> <salvage> <life> <period> [month]', 'fixed-declining balance depreciation', function (f, _a) {
+        var cost = _a[0], salvage = _a[1], life = _a[2], period = _a[3], month = _a[4];
+        return f.DB(cost, salvage, life, period, month);
+    }),
+    DDB: numeric('<cost> <salvage> <life> <period> [factor]', 'double-declining balance depreciation', function (f, _a) {
+        var cost = _a[0], salvage = _a[1], life = _a[2], period = _a[3], factor = _a[4];
+        return f.DDB(cost, salvage, life, period, factor);
+    }),
+    VDB: numeric('<cost> <salvage> <life> <startPeriod> <endPeriod> [factor] [noSwitch]', 'variable declining balance depreciation', function (f, _a) {
+        var cost = _a[0], salvage = _a[1], life = _a[2], start = _a[3], end = _a[4], factor = _a[5], noSwitch = _a[6];
+        return f.VDB(cost, salvage, life, start, end, factor, flag(noSwitch));
+    }),
+    MACRS: numeric('<cost> <recoveryPeriod> <year>', 'MACRS depreciation', function (f, _a) {
+        var cost = _a[0], recoveryPeriod = _a[1], year = _a[2];
+        return f.MACRS(cost, recoveryPeriod, year);
+    }),
+    depreciationSchedule: {
+        usage: '--method <method> --cost <n> --salvage <n> --life <n>',
+        description: 'depreciation of every period of an asset',
+        run: function (f, input) { return f.depreciationSchedule(options(input)); },
+    },
+    bondAnalytics: {
+        usage: '--settlement <date> --maturity <date> --coupon-rate <r> --yield-rate <y>',
+        description: 'bond prices, accrued interest, duration, convexity and DV01',
+        run: function (f, input) {
+            var _a = options(input), yieldRate = _a.yieldRate, bond = __rest(_a, ["yieldRate"]);
+            return f.bondAnalytics(bond, requireOption(yieldRate, 'yieldRate'));
+        },
+    },
+    YTM: {
+        usage: '--settlement <date> --maturity <date> --coupon-rate <r> --price <p>',
+        description: 'yield to maturity of a bond',
+        run: function (f, input) {
+            var _a = options(input), price = _a.price, bond = __rest(_a, ["price"]);
+            return f.YTM(bond, requireOption(price, 'price'));
+        },
+    },
+    YTC: {
+        usage: '--settlement <date> --maturity <date> --coupon-rate <r> --price <p> --call-date <date> --call-price <p>',
+        description: 'yield to call of a bond',
+        run: function (f, input) {
+            var _a = options(input), price = _a.price, callDate = _a.callDate, callPrice = _a.callPrice, bond = __rest(_a, ["price", "callDate", "callPrice"]);
+            return f.YTC(bond, requireOption(price, 'price'), { date: requireOption(callDate, 'callDate'), price: requireOption(callPrice, 'callPrice') });
+        },
+    },
+    blackScholes: {
+        usage: '--type call --spot <s> --strike <k> --expiry <years> --risk-free <r> --volatility <v> [--dividend-yield <q>]',
+        description: 'Black-Scholes-Merton price and Greeks',
+        run: function (f, input) { return f.blackScholes(options(input)); },
+    },
+    impliedVolatility: {
+        usage: '--type call --spot <s> --strike <k> --expiry <years> --risk-free <r> --price <p>',
+        description: 'implied volatility of an option price',
+        run: function (f, input) {
+            var _a = options(input), price = _a.price, contract = __rest(_a, ["price"]);
+            return f.impliedVolatility(contract, requireOption(price, 'price'));
+        },
+    },
+    binomialPrice: {
+        usage: '--type put --spot <s> --strike <k> --expiry <years> --risk-free <r> --volatility <v> [--steps 200] [--exercise american]',
+        description: 'binomial tree price of an American or European option',
+        run: function (f, input) {
+            var _a = options(input), steps = _a.steps, exercise = _a.exercise, contract = __rest(_a, ["steps", "exercise"]);
+            return f.binomialPrice(contract, { steps: steps, exercise: exercise });
+        },
+    },
+};
+/**
+ * Runs a command line, without touching the process, so it can be embedded and tested
+ * @param argv - arguments after the program name, e.g. ['NPV', '10', '-100', '60', '60']
+ * @param stdin - standard input, or a function reading it, called only when a command needs it
+ * @returns {CliResult} - exit code and the text for stdout and stderr
+ * @example run(['NPV', '10', '-100', '60', '60']).stdout // '4.13\n'
+ */
+function run(argv, stdin) {
+    if (stdin === void 0) { stdin = ''; }
+    try {
+        var name_1 = argv[0], rest = argv.slice(1);
+        var invocation = parse(rest, stdin);
+        if (name_1 === undefined || name_1 === '--help' || name_1 === 'help') {
+            return { code: name_1 === undefined ? 2 : 0, stdout: name_1 === undefined ? '' : help(), stderr: name_1 === undefined ? help() : '' };
+        }
+        var command = findCommand(name_1);
+        if (invocation.flags.help !== undefined) {
+            return { code: 0, stdout: "Usage: financejs ".concat(commandName(name_1), " ").concat(command.usage, "\n"), stderr: '' };
+        }
+        var format = outputFormat(invocation.flags.format);
+        var finance = new finance_1.default({
+            rateUnit: choice(invocation.flags.rateUnit, RATE_UNITS, 'rate-unit'),
+            rounding: invocation.flags.decimals === undefined ? undefined : { decimals: numberFlag(invocation, 'decimals', 2) },
+        });
+        return { code: 0, stdout: render(command.run(finance, invocation), format), stderr: '' };
+    }
+    catch (error) {
+        if (error instanceof UsageError) {
+            return { code: 2, stdout: '', stderr: "financejs: ".concat(error.message, "\nRun financejs --help for the commands.\n") };
+        }
+        if (error instanceof errors_1.FinanceError) {
+            return { code: 1, stdout: '', stderr: "financejs: ".concat(error.message, "\n") };
+        }
+        return { code: 1, stdout: '', stderr: "financejs: ".concat(error instanceof Error ? error.message : String(error), "\n") };
+    }
+}
+exports.run = run;
+/**
+ * Writes a result as an aligned table, CSV or JSON. Objects are flattened to dotted keys and lists of rows
+ * become tables with a column per field.
+ * @param value - result of a command
+ * @param format - table, csv or json
+ * @returns {string} - text ending with a newline
+ */
+function render(value, format) {
+    if (format === void 0) { format = 'table'; }
+    if (format === 'json') {
+        return "".concat(JSON.stringify(value === undefined ? null : value, null, 2), "\n");
+    }
+    var sections = [];
+    if (isRowList(value)) {
+        sections.push(rowsToCells(value));
+    }
+    else if (Array.isArray(value)) {
+        sections.push(value.map(function (item) { return [cell(item)]; }));
+    }
+    else if (isObject(value)) {
+        var pairs = [];
+        flatten(value, '', pairs, sections);
+        sections.unshift(pairs);
+    }
+    else {
+        sections.push([[cell(value)]]);
+    }
+    var write = format === 'csv' ? toCsv : toTable;
+    return sections.filter(function (section) { return section.length > 0; }).map(write).join('\n');
+}
+exports.render = render;
+/**
+ * Parses cash flows from CSV or JSON: a JSON array of numbers or of { date, amount }, a JSON object with
+ * cashFlows and optional dates, or CSV with an amount per line, or a date and an amount. A header line is skipped.
+ * @param text - CSV or JSON
+ * @returns {{ cashFlows: number[], dates?: Date[] }} - cash flows, and their dates when given
+ * @example parseCashFlows('date,amount\n2023-01-01,-100\n2024-01-01,110').cashFlows // [-100, 110]
+ */
+function parseCashFlows(text) {
+    var trimmed = text.trim();
+    if (trimmed.charAt(0) === '[' || trimmed.charAt(0) === '{') {
+        var json = parseJson(trimmed);
+        var items = Array.isArray(json) ? json : [];
+        if (!Array.isArray(json)) {
+            var _a = json, values = _a.cashFlows, dates = _a.dates;
+            if (!Array.isArray(values)) {
+                throw new UsageError('JSON input must be an array of cash flows or an object with a cashFlows array');
+            }
+            return {
+                cashFlows: values.map(function (v, i) { return toNumber(v, "cashFlows[".concat(i, "]")); }),
+                dates: Array.isArray(dates) ? dates.map(function (d, i) { return toDate(d, "dates[".concat(i, "]")); }) : undefined,
+            };
+        }
+        if (items.every(function (item) { return typeof item === 'number' || typeof item === 'string'; })) {
+            return { cashFlows: items.map(function (v, i) { return toNumber(v, "cashFlows[".concat(i, "]")); }) };
+        }
+        return {
+            cashFlows: items.map(function (item, i) { return toNumber(isObject(item) ? item.amount : undefined, "[".concat(i, "].amount")); }),
+            dates: items.map(function (item, i) { return toDate(isObject(item) ? item.date : undefined, "[".concat(i, "].date")); }),
+        };
+    }
+    var rows = parseCsv(trimmed);
+    if (rows.some(function (row) { return row.length !== rows[0].length; }) || rows[0].length > 2) {
+        throw new UsageError('CSV input must have one column of amounts, or two columns of dates and amounts');
+    }
+    var amounts = rows.map(function (row, i) { return toNumber(row[row.length - 1], "line ".concat(i + 1)); });
+    return rows[0].length === 2 ? { cashFlows: amounts, dates: rows.map(function (row, i) { return toDate(row[0], "line ".concat(i + 1)); }) } : { cashFlows: amounts };
+}
+exports.parseCashFlows = parseCashFlows;
+function numeric(usage, description, call) {
+    var names = usage.split(' ');
+    var minimum = names.filter(function (name) { return name.charAt(0) === '<'; }).length;
+    return {
+        usage: usage,
+        description: description,
+        run: function (finance, input) {
+            if (input.args.length < minimum || input.args.length > names.length) {
+                throw new UsageError("expected ".concat(usage, ", got ").concat(input.args.length, " argument").concat(input.args.length === 1 ? '' : 's'));
+            }
+            return call(finance, input.args.map(function (arg, i) { return toNumber(arg, names[i].replace(/[<>\[\]]/g, '')); }));
+        },
+    };
+}
+function parse(argv, stdin) {
+    var args = [];
+    var flags = {};
+    for (var i = 0; i < argv.length; i++) {
+        var arg = argv[i];
+        if (arg.slice(0, 2) !== '--') {
+            args.push(arg);
+            continue;
+        }
+        var equals = arg.indexOf('=');
+        var name_2 = camelCase(arg.slice(2, equals < 0 ? undefined : equals));
+        if (equals >= 0) {
+            flags[name_2] = arg.slice(equals + 1);
+        }
+        else if (i + 1 < argv.length && argv[i + 1].slice(0, 2) !== '--' && name_2 !== 'help') {
+            flags[name_2] = argv[++i];
+        }
+        else {
+            flags[name_2] = 'true';
+        }
+    }
+    var text;
+    var read = function () {
+        if (text === undefined) {
+            text = typeof stdin === 'string' ? stdin : stdin();
+        }
+        return text;
+    };
+    return { args: args, flags: flags, stdin: read };
+}
+function findCommand(name) {
+    var key = commandName(name);
+    if (!COMMANDS[key]) {
+        throw new UsageError("unknown command ".concat(name));
+    }
+    return COMMANDS[key];
+}
+// commands are matched case-insensitively, npv runs NPV
+function commandName(name) {
+    var names = Object.keys(COMMANDS);
+    return names.filter(function (key) { return key === name; })[0] || names.filter(function (key) { return key.toLowerCase() === name.toLowerCase(); })[0] || name;
+}
+function help() {
+    var names = Object.keys(COMMANDS);
+    var width = Math.max.apply(Math, names.map(function (name) { return name.length; }));
+    return __spreadArray(__spreadArray([
+        'Usage: financejs <command> [arguments] [--format table|csv|json] [--rate-unit percent|decimal|bps] [--decimals <n>]',
+        '',
+        'Cash flows are read from the arguments, or from CSV or JSON on stdin when there are none or - is given.',
+        'Run financejs <command> --help for its arguments.',
+        '',
+        'Commands:'
+    ], names.map(function (name) { return "  ".concat(pad(name, width), "  ").concat(COMMANDS[name].description); }), true), [
+        '',
+    ], false).join('\n');
+}
+function outputFormat(format) {
+    if (format === void 0) { format = 'table'; }
+    if (format !== 'table' && format !== 'csv' && format !== 'json') {
+        throw new UsageError("unknown format ".concat(format, ", expected table, csv or json"));
+    }
+    return format;
+}
+// value of a flag limited to a list, undefined when the flag isn't given
+function choice(value, allowed, name) {
+    if (value !== undefined && allowed.indexOf(value) < 0) {
+        throw new UsageError("unknown --".concat(name, " ").concat(value, ", expected ").concat(allowed.join(', ')));
+    }
+    return value;
+}
+function numberArg(input, index, name) {
+    if (index >= input.args.length) {
+        throw new UsageError("missing ".concat(name));
+    }
+    return toNumber(input.args[index], name);
+}
+function numberFlag(input, name, fallback) {
+    return input.flags[name] === undefined ? fallback : toNumber(input.flags[name], "--".concat(name));
+}
+function compounding(input, index, name) {
+    return input.args[index] === 'continuous' ? 'continuous' : numberArg(input, index, name);
+}
+function dayCount(input) {
+    return choice(input.flags.dayCount, DAY_COUNTS, 'day-count');
+}
+// true when the input after an index comes from stdin: there are no arguments there, or - or --input - asks for it
+function fromStdin(input, from) {
+    var rest = input.args.slice(from);
+    return rest.length === 0 || (rest.length === 1 && rest[0] === '-') || input.flags.input === '-';
+}
+// cash flows from the arguments from an index, or from stdin when there are none
+function cashFlows(input, from) {
+    if (!fromStdin(input, from)) {
+        return input.args.slice(from).map(function (arg, i) { return toNumber(arg, "cash flow ".concat(i + 1)); });
+    }
+    return stdinFlows(input).cashFlows;
+}
+// date:amount arguments from an index, or dated cash flows from stdin
+function datedFlows(input, from) {
+    if (!fromStdin(input, from)) {
+        var pairs = input.args.slice(from).map(function (arg) {
+            // the amount follows the last colon, the date before it may hold a time
+            var separator = arg.lastIndexOf(':');
+            if (separator < 0) {
+                throw new UsageError("expected date:amount, got ".concat(arg));
+            }
+            return { date: toDate(arg.slice(0, separator), arg), amount: toNumber(arg.slice(separator + 1), arg) };
+        });
+        return { cashFlows: pairs.map(function (pair) { return pair.amount; }), dates: pairs.map(function (pair) { return pair.date; }) };
+    }
+    var _a = stdinFlows(input), values = _a.cashFlows, dates = _a.dates;
+    if (!dates) {
+        throw new UsageError('dated cash flows need a date for every amount, e.g. date,amount CSV');
+    }
+    return { cashFlows: values, dates: dates };
+}
+function stdinFlows(input) {
+    if (!input.stdin().trim()) {
+        throw new UsageError('no cash flows, pass them as arguments or pipe CSV or JSON to stdin');
+    }
+    return parseCashFlows(input.stdin());
+}
+// valuations and flows of a portfolio, from JSON, or valuations alone from date,value CSV
+function portfolio(input) {
+    var text = input.stdin().trim();
+    if (text.charAt(0) === '{') {
+        var _a = revive(parseJson(text)), valuations = _a.valuations, _b = _a.flows, flows = _b === void 0 ? [] : _b;
+        if (!Array.isArray(valuations) || !Array.isArray(flows)) {
+            throw new UsageError('JSON input must have a valuations array and an optional flows array');
+        }
+        return { valuations: valuations, flows: flows };
+    }
+    var _c = stdinFlows(input), values = _c.cashFlows, dates = _c.dates;
+    if (!dates) {
+        throw new UsageError('valuations need a date for every value, e.g. date,value CSV');
+    }
+    return { valuations: values.map(function (value, i) { return ({ date: dates[i], value: value }); }), flows: [] };
+}
+// options object from JSON on stdin, overridden by flags; stdin is read when no option is given as a flag, or
+// with --input -. The Finance methods validate the fields.
+function options(input) {
+    var names = Object.keys(input.flags).filter(function (name) { return GLOBAL_FLAGS.indexOf(name) < 0; });
+    var text = names.length === 0 || input.args.indexOf('-') >= 0 || input.flags.input === '-' ? input.stdin().trim() : '';
+    var base = text ? revive(parseJson(text)) : {};
+    if (!isObject(base)) {
+        throw new UsageError('JSON input must be an object of options');
+    }
+    var result = __assign({}, base);
+    names.forEach(function (name) { return result[name] = parseValue(input.flags[name]); });
+    return result;
+}
+function requireOption(value, name) {
+    if (value === undefined) {
+        throw new UsageError("missing --".concat(kebabCase(name)));
+    }
+    return value;
+}
+function flag(value) {
+    return value === undefined ? undefined : value !== 0;
+}
+function timing(value) {
+    return value;
+}
+function parseValue(text) {
+    if (text === 'true' || text === 'false') {
+        return text === 'true';
+    }
+    if (text.trim() !== '' && !isNaN(Number(text))) {
+        return Number(text);
+    }
+    if (ISO_DATE.test(text)) {
+        return new Date(text);
+    }
+    if (text.charAt(0) === '[' || text.charAt(0) === '{') {
+        return revive(parseJson(text));
+    }
+    return text;
+}
+function parseJson(text) {
+    try {
+        return JSON.parse(text);
+    }
+    catch (error) {
+        throw new UsageError("invalid JSON input: ".concat(error.message));
+    }
+}
+// turns ISO date strings anywhere in parsed JSON into dates
+function revive(value) {
+    if (typeof value === 'string' && ISO_DATE.test(value)) {
+        return new Date(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(revive);
+    }
+    if (isObject(value)) {
+        var result_1 = {};
+        Object.keys(value).forEach(function (key) { return result_1[key] = revive(value[key]); });
+        return result_1;
+    }
+    return value;
+}
+function parseCsv(text) {
+    var rows = text.split(/\r?\n/).filter(function (line) { return line.trim() !== ''; }).map(function (line) { return line.split(',').map(function (field) { return field.trim(); }); });
+    // a header names the columns instead of holding an amount
+    if (rows.length > 0 && isNaN(Number(rows[0][rows[0].length - 1]))) {
+        rows.shift();
+    }
+    if (rows.length === 0) {
+        throw new UsageError('CSV input has no rows');
+    }
+    return rows;
+}
+function toNumber(value, name) {
+    var parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (!isFinite(parsed)) {
+        throw new UsageError("".concat(name, " must be a number, got ").concat(value === undefined ? 'nothing' : String(value)));
+    }
+    return parsed;
+}
+function toDate(value, name) {
+    var date = value instanceof Date ? value : typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+        throw new UsageError("".concat(name, " must be a date like 2023-01-31, got ").concat(value === undefined ? 'nothing' : String(value)));
+    }
+    return date;
+}
+function isObject(value) {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+function isRowList(value) {
+    return Array.isArray(value) && value.length > 0 && value.every(isObject);
+}
+// scalar fields become key/value pairs under dotted keys; lists of rows become sections of their own
+function flatten(value, prefix, pairs, sections) {
+    Object.keys(value).forEach(function (key) {
+        var field = value[key];
+        var name = prefix + key;
+        if (isRowList(field)) {
+            sections.push(rowsToCells(field));
+        }
+        else if (isObject(field)) {
+            flatten(field, "".concat(name, "."), pairs, sections);
+        }
+        else {
+            pairs.push([name, Array.isArray(field) ? field.map(cell).join(' ') : cell(field)]);
+        }
+    });
+}
+function rowsToCells(rows) {
+    var columns = [];
+    rows.forEach(function (row) { return Object.keys(row).forEach(function (key) {
+        if (columns.indexOf(key) < 0) {
+            columns.push(key);
+        }
+    }); });
+    return __spreadArray([columns], rows.map(function (row) { return columns.map(function (column) { return cell(row[column]); }); }), true);
+}
+function cell(value) {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return value.toISOString().slice(0, 10);
+    }
+    return isObject(value) || Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+function toCsv(rows) {
+    var quote = function (field) { return /[",\n]/.test(field) ? "\"".concat(field.replace(/"/g, '""'), "\"") : field; };
+    return rows.map(function (row) { return row.map(quote).join(','); }).join('\n') + '\n';
+}
+function toTable(rows) {
+    var widths = rows[0].map(function (_, column) { return Math.max.apply(Math, rows.map(function (row) { return (row[column] || '').length; })); });
+    var isNumber = function (field) { return field !== '' && !isNaN(Number(field)); };
+    return rows.map(function (row) { return row.map(function (field, column) { return isNumber(field) ? padStart(field, widths[column]) : pad(field, widths[column]); })
+        .join('  ').replace(/\s+$/, ''); }).join('\n') + '\n';
+}
+function pad(text, width) {
+    return text + new Array(Math.max(width - text.length, 0) + 1).join(' ');
+}
+function padStart(text, width) {
+    return new Array(Math.max(width - text.length, 0) + 1).join(' ') + text;
+}
+function camelCase(name) {
+    return name.replace(/-([a-z])/g, function (_, letter) { return letter.toUpperCase(); });
+}
+function kebabCase(name) {
+    return name.replace(/[A-Z]/g, function (letter) { return "-".concat(letter.toLowerCase()); });
+}
+// reads stdin to its end, only called when a command needs it so piped but unused input doesn't block
+function readStdin() {
+    return process.stdin.isTTY ? '' : fs.readFileSync(0, 'utf8');
+}
+if (typeof require !== 'undefined' && require.main === module) {
+    var result = run(process.argv.slice(2), readStdin);
+    process.stdout.write(result.stdout);
+    process.stderr.write(result.stderr);
+    process.exitCode = result.code;
+}
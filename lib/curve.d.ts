@@ -0,0 +1,79 @@
+/**
+ * linear - linear on zero rates, log-linear - linear on the log of discount factors (constant forward rates
+ * between pillars), cubic-spline - natural cubic spline on zero rates
+ */
+export type Interpolation = 'linear' | 'log-linear' | 'cubic-spline';
+export interface CurvePoint {
+    /** time from today in years */
+    time: number;
+    /** zero rate or par yield as a fraction, or discount factor, depending on how the curve is built */
+    value: number;
+}
+export interface CurveOptions {
+    /** defaults to linear */
+    interpolation?: Interpolation;
+    /** coupons per year of the par instruments, defaults to 1 */
+    frequency?: number;
+}
+/**
+ * Term structure of interest rates. Zero rates are annually compounded fractions, so the discount factor at time
+ * t is (1 + z(t))^-t. Beyond the last pillar the curve keeps the last zero rate, or for log-linear interpolation
+ * the last forward rate; before the first pillar it keeps the first zero rate.
+ */
+export declare class YieldCurve {
+    /**
+     * Builds a curve from zero rates
+     * @param points - times in years and annually compounded zero rates as fractions
+     * @param options - interpolation
+     * @returns {YieldCurve} - curve through the zero rates
+     * @example YieldCurve.fromZeroRates([{ time: 1, value: 0.02 }, { time: 5, value: 0.03 }]).spotRate(3) // 0.025
+     */
+    static fromZeroRates(points: CurvePoint[], options?: CurveOptions): YieldCurve;
+    /**
+     * Builds a curve from discount factors
+     * @param points - times in years and discount factors
+     * @param options - interpolation
+     * @returns {YieldCurve} - curve through the discount factors
+     * @example YieldCurve.fromDiscountFactors([{ time: 1, value: 0.98 }, { time: 2, value: 0.95 }]).discountFactor(2) // 0.95
+     */
+    static fromDiscountFactors(points: CurvePoint[], options?: CurveOptions): YieldCurve;
+    /**
+     * Bootstraps a curve from par yields, the coupon rates at which bonds maturing at each pillar price at par.
+     * Each pillar's zero rate is solved so that its bond reprices at par, with coupons between pillars discounted
+     * on the interpolated curve.
+     * @param points - maturities in years and par yields as fractions
+     * @param options - interpolation and coupons per year
+     * @returns {YieldCurve} - bootstrapped curve
+     * @example YieldCurve.fromParYields([{ time: 1, value: 0.02 }, { time: 2, value: 0.025 }]).spotRate(2) // 0.02506
+     */
+    static fromParYields(points: CurvePoint[], options?: CurveOptions): YieldCurve;
+    private static refineSpline;
+    readonly interpolation: Interpolation;
+    private readonly times;
+    private readonly zeros;
+    private readonly curvature;
+    private constructor();
+    /**
+     * Discount factor - present value of 1 paid at a time
+     * @param time - time in years
+     * @returns {number} - discount factor
+     */
+    discountFactor(time: number): number;
+    /**
+     * Spot rate - annually compounded zero rate to a time
+     * @param time - time in years
+     * @returns {number} - zero rate as a fraction
+     */
+    spotRate(time: number): number;
+    /**
+     * Forward rate - annually compounded rate agreed today for borrowing between two future times
+     * @param start - start time in years
+     * @param end - end time in years
+     * @returns {number} - forward rate as a fraction
+     * @example curve.forwardRate(1, 2) // rate from year 1 to year 2
+     */
+    forwardRate(start: number, end: number): number;
+    private parBondPrice;
+    private zeroRate;
+    private logDiscountFactor;
+}
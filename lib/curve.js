@@ -0,0 +1,239 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.YieldCurve = void 0;
+var errors_1 = require("./errors");
+var solver_1 = require("./solver");
+var validation_1 = require("./validation");
+// zero rates are bootstrapped within this range, like the rates of IRR
+var ZERO_BRACKET = [-0.99, 10];
+// sweeps of the spline bootstrap before giving up, and the largest zero rate change of a converged sweep
+var SPLINE_SWEEPS = 100;
+var SPLINE_TOLERANCE = 1e-12;
+/**
+ * Term structure of interest rates. Zero rates are annually compounded fractions, so the discount factor at time
+ * t is (1 + z(t))^-t. Beyond the last pillar the curve keeps the last zero rate, or for log-linear interpolation
+ * the last forward rate; before the first pillar it keeps the first zero rate.
+ */
+var YieldCurve = /** @class */ (function () {
+    function YieldCurve(times, zeros, interpolation) {
+        if (interpolation === void 0) { interpolation = 'linear'; }
+        if (['linear', 'log-linear', 'cubic-spline'].indexOf(interpolation) < 0) {
+            throw new errors_1.ValidationError("Unknown interpolation ".concat(interpolation), 'interpolation');
+        }
+        this.interpolation = interpolation;
+        this.times = times;
+        this.zeros = zeros;
+        this.curvature = interpolation === 'cubic-spline' ? naturalSpline(times, zeros) : [];
+    }
+    /**
+     * Builds a curve from zero rates
+     * @param points - times in years and annually compounded zero rates as fractions
+     * @param options - interpolation
+     * @returns {YieldCurve} - curve through the zero rates
+     * @example YieldCurve.fromZeroRates([{ time: 1, value: 0.02 }, { time: 5, value: 0.03 }]).spotRate(3) // 0.025
+     */
+    YieldCurve.fromZeroRates = function (points, options) {
+        if (options === void 0) { options = {}; }
+        validatePoints(points);
+        points.forEach(function (point, i) { return (0, validation_1.assertRate)("points[".concat(i, "].value"), point.value); });
+        return new YieldCurve(points.map(function (point) { return point.time; }), points.map(function (point) { return point.value; }), options.interpolation);
+    };
+    /**
+     * Builds a curve from discount factors
+     * @param points - times in years and discount factors
+     * @param options - interpolation
+     * @returns {YieldCurve} - curve through the discount factors
+     * @example YieldCurve.fromDiscountFactors([{ time: 1, value: 0.98 }, { time: 2, value: 0.95 }]).discountFactor(2) // 0.95
+     */
+    YieldCurve.fromDiscountFactors = function (points, options) {
+        if (options === void 0) { options = {}; }
+        validatePoints(points);
+        points.forEach(function (point, i) { return (0, validation_1.assertPositive)("points[".concat(i, "].value"), point.value); });
+        var zeros = points.map(function (point) { return Math.pow(point.value, -1 / point.time) - 1; });
+        return new YieldCurve(points.map(function (point) { return point.time; }), zeros, options.interpolation);
+    };
+    /**
+     * Bootstraps a curve from par yields, the coupon rates at which bonds maturing at each pillar price at par.
+     * Each pillar's zero rate is solved so that its bond reprices at par, with coupons between pillars discounted
+     * on the interpolated curve.
+     * @param points - maturities in years and par yields as fractions
+     * @param options - interpolation and coupons per year
+     * @returns {YieldCurve} - bootstrapped curve
+     * @example YieldCurve.fromParYields([{ time: 1, value: 0.02 }, { time: 2, value: 0.025 }]).spotRate(2) // 0.02506
+     */
+    YieldCurve.fromParYields = function (points, options) {
+        if (options === void 0) { options = {}; }
+        validatePoints(points);
+        var _a = options.frequency, frequency = _a === void 0 ? 1 : _a;
+        (0, validation_1.assertPositive)('frequency', frequency);
+        var times = [];
+        var zeros = [];
+        points.forEach(function (point, i) {
+            (0, validation_1.assertRate)("points[".concat(i, "].value"), point.value);
+            var parPrice = function (candidate) {
+                var curve = new YieldCurve(times.concat([point.time]), zeros.concat([candidate]), options.interpolation);
+                return curve.parBondPrice(point.time, point.value, frequency) - 1;
+            };
+            var zero = (0, solver_1.findRoot)(parPrice, { bracket: ZERO_BRACKET, guess: point.value });
+            times.push(point.time);
+            zeros.push(zero);
+        });
+        if (options.interpolation === 'cubic-spline') {
+            YieldCurve.refineSpline(points, times, zeros, frequency);
+        }
+        return new YieldCurve(times, zeros, options.interpolation);
+    };
+    // a spline pillar moves the curve on both sides of it, so the sequential bootstrap leaves the earlier bonds off par;
+    // each sweep re-solves every pillar on the whole spline until the zero rates settle
+    YieldCurve.refineSpline = function (points, times, zeros, frequency) {
+        var change = 0;
+        for (var sweep = 1; sweep <= SPLINE_SWEEPS; sweep++) {
+            change = 0;
+            points.forEach(function (point, i) {
+                var parPrice = function (candidate) {
+                    var trial = zeros.slice();
+                    trial[i] = candidate;
+                    return new YieldCurve(times, trial, 'cubic-spline').parBondPrice(point.time, point.value, frequency) - 1;
+                };
+                var zero = (0, solver_1.findRoot)(parPrice, { bracket: ZERO_BRACKET, guess: zeros[i] });
+                change = Math.max(change, Math.abs(zero - zeros[i]));
+                zeros[i] = zero;
+            });
+            if (change < SPLINE_TOLERANCE) {
+                return;
+            }
+        }
+        throw new errors_1.ConvergenceError('Cubic spline bootstrap did not converge', SPLINE_SWEEPS, change);
+    };
+    /**
+     * Discount factor - present value of 1 paid at a time
+     * @param time - time in years
+     * @returns {number} - discount factor
+     */
+    YieldCurve.prototype.discountFactor = function (time) {
+        (0, validation_1.assertNonNegative)('time', time);
+        if (time === 0) {
+            return 1;
+        }
+        if (this.interpolation === 'log-linear') {
+            return Math.exp(this.logDiscountFactor(time));
+        }
+        return Math.pow(1 + this.zeroRate(time), -time);
+    };
+    /**
+     * Spot rate - annually compounded zero rate to a time
+     * @param time - time in years
+     * @returns {number} - zero rate as a fraction
+     */
+    YieldCurve.prototype.spotRate = function (time) {
+        (0, validation_1.assertNonNegative)('time', time);
+        if (time === 0) {
+            return this.zeros[0];
+        }
+        return this.interpolation === 'log-linear' ? Math.pow(this.discountFactor(time), -1 / time) - 1 : this.zeroRate(time);
+    };
+    /**
+     * Forward rate - annually compounded rate agreed today for borrowing between two future times
+     * @param start - start time in years
+     * @param end - end time in years
+     * @returns {number} - forward rate as a fraction
+     * @example curve.forwardRate(1, 2) // rate from year 1 to year 2
+     */
+    YieldCurve.prototype.forwardRate = function (start, end) {
+        (0, validation_1.assertNonNegative)('start', start);
+        (0, validation_1.assertFinite)('end', end);
+        if (end <= start) {
+            throw new errors_1.ValidationError('end must be after start', 'end');
+        }
+        return Math.pow(this.discountFactor(start) / this.discountFactor(end), 1 / (end - start)) - 1;
+    };
+    // price of a bond paying coupon / frequency on its coupon dates, with a short first period if needed
+    YieldCurve.prototype.parBondPrice = function (maturity, coupon, frequency) {
+        var price = this.discountFactor(maturity);
+        for (var time = maturity; time > 1e-9; time -= 1 / frequency) {
+            var accrual = Math.min(1 / frequency, time);
+            price += coupon * accrual * this.discountFactor(time);
+        }
+        return price;
+    };
+    YieldCurve.prototype.zeroRate = function (time) {
+        var _a = this, times = _a.times, zeros = _a.zeros;
+        var last = times.length - 1;
+        if (time <= times[0]) {
+            return zeros[0];
+        }
+        if (time >= times[last]) {
+            return zeros[last];
+        }
+        var i = segment(times, time);
+        var h = times[i + 1] - times[i];
+        var a = (times[i + 1] - time) / h;
+        var b = (time - times[i]) / h;
+        var linear = a * zeros[i] + b * zeros[i + 1];
+        if (this.interpolation !== 'cubic-spline') {
+            return linear;
+        }
+        var m = this.curvature;
+        return linear + ((a * a * a - a) * m[i] + (b * b * b - b) * m[i + 1]) * h * h / 6;
+    };
+    YieldCurve.prototype.logDiscountFactor = function (time) {
+        var _this = this;
+        // pillars in log discount factor space, anchored at 1 today
+        var times = [0].concat(this.times);
+        var logs = [0].concat(this.times.map(function (t, k) { return -t * Math.log(1 + _this.zeros[k]); }));
+        var last = times.length - 1;
+        var i = time >= times[last] ? last - 1 : segment(times, time);
+        var slope = (logs[i + 1] - logs[i]) / (times[i + 1] - times[i]);
+        return logs[i] + slope * (time - times[i]);
+    };
+    return YieldCurve;
+}());
+exports.YieldCurve = YieldCurve;
+// index of the pillar interval containing the time
+function segment(times, time) {
+    var i = 0;
+    while (i < times.length - 2 && time > times[i + 1]) {
+        i++;
+    }
+    return i;
+}
+function naturalSpline(times, values) {
+    var n = times.length;
+    var curvature = new Array(n).fill(0);
+    if (n < 3) {
+        return curvature;
+    }
+    // tridiagonal system for the inner second derivatives, solved by forward elimination and back substitution
+    var diagonal = [];
+    var rhs = [];
+    for (var i = 1; i < n - 1; i++) {
+        var h0 = times[i] - times[i - 1];
+        var h1 = times[i + 1] - times[i];
+        var d = 2 * (h0 + h1);
+        var r = 6 * ((values[i + 1] - values[i]) / h1 - (values[i] - values[i - 1]) / h0);
+        if (i > 1) {
+            var factor = h0 / diagonal[i - 2];
+            d -= factor * h0;
+            r -= factor * rhs[i - 2];
+        }
+        diagonal.push(d);
+        rhs.push(r);
+    }
+    for (var i = n - 2; i >= 1; i--) {
+        var h1 = times[i + 1] - times[i];
+        curvature[i] = (rhs[i - 1] - h1 * curvature[i + 1]) / diagonal[i - 1];
+    }
+    return curvature;
+}
+function validatePoints(points) {
+    if (!Array.isArray(points) || points.length === 0) {
+        throw new errors_1.ValidationError('points must contain at least one point', 'points');
+    }
+    points.forEach(function (point, i) {
+        (0, validation_1.assertPositive)("points[".concat(i, "].time"), point.time);
+        (0, validation_1.assertFinite)("points[".concat(i, "].value"), point.value);
+        if (i > 0 && point.time <= points[i - 1].time) {
+            throw new errors_1.ValidationError('points must be in increasing order of time', 'points');
+        }
+    });
+}
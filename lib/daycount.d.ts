@@ -0,0 +1,19 @@
+export type DayCount = 'ACT/365F' | 'ACT/360' | 'ACT/ACT ISDA' | '30/360 US' | '30E/360';
+/**
+ * Calendar days between two dates. Dates are read as their UTC calendar day, so the result doesn't depend on
+ * the timezone of the server or on daylight saving shifts.
+ * @param start - start date
+ * @param end - end date
+ * @returns {number} - whole days, negative when end is before start
+ * @example daysBetween(new Date('2023-01-01'), new Date('2023-03-01')) // 59
+ */
+export declare function daysBetween(start: Date, end: Date): number;
+/**
+ * Year fraction between two dates under a day count convention
+ * @param start - start date
+ * @param end - end date
+ * @param convention - ACT/365F (default), ACT/360, ACT/ACT ISDA, 30/360 US or 30E/360
+ * @returns {number} - fraction of a year, negative when end is before start
+ * @example yearFraction(new Date('2023-01-01'), new Date('2023-07-01'), '30/360 US') // 0.5
+ */
+export declare function yearFraction(start: Date, end: Date, convention?: DayCount): number;
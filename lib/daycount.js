@@ -0,0 +1,89 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.yearFraction = exports.daysBetween = void 0;
+var errors_1 = require("./errors");
+var DAY = 24 * 60 * 60 * 1000;
+/**
+ * Calendar days between two dates. Dates are read as their UTC calendar day, so the result doesn't depend on
+ * the timezone of the server or on daylight saving shifts.
+ * @param start - start date
+ * @param end - end date
+ * @returns {number} - whole days, negative when end is before start
+ * @example daysBetween(new Date('2023-01-01'), new Date('2023-03-01')) // 59
+ */
+function daysBetween(start, end) {
+    return Math.round((utcDay(end) - utcDay(start)) / DAY);
+}
+exports.daysBetween = daysBetween;
+/**
+ * Year fraction between two dates under a day count convention
+ * @param start - start date
+ * @param end - end date
+ * @param convention - ACT/365F (default), ACT/360, ACT/ACT ISDA, 30/360 US or 30E/360
+ * @returns {number} - fraction of a year, negative when end is before start
+ * @example yearFraction(new Date('2023-01-01'), new Date('2023-07-01'), '30/360 US') // 0.5
+ */
+function yearFraction(start, end, convention) {
+    if (convention === void 0) { convention = 'ACT/365F'; }
+    if (end < start) {
+        return -yearFraction(end, start, convention);
+    }
+    switch (convention) {
+        case 'ACT/365F':
+            return daysBetween(start, end) / 365;
+        case 'ACT/360':
+            return daysBetween(start, end) / 360;
+        case 'ACT/ACT ISDA':
+            return actualActual(start, end);
+        case '30/360 US':
+            return thirty360(start, end, true);
+        case '30E/360':
+            return thirty360(start, end, false);
+        default:
+            throw new errors_1.ValidationError("Unknown day count convention ".concat(convention), 'dayCount');
+    }
+}
+exports.yearFraction = yearFraction;
+function utcDay(date) {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+function isLeapYear(year) {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+function actualActual(start, end) {
+    var startYear = start.getUTCFullYear();
+    var endYear = end.getUTCFullYear();
+    if (startYear === endYear) {
+        return daysBetween(start, end) / (isLeapYear(startYear) ? 366 : 365);
+    }
+    var startYearEnd = new Date(Date.UTC(startYear + 1, 0, 1));
+    var endYearStart = new Date(Date.UTC(endYear, 0, 1));
+    return daysBetween(start, startYearEnd) / (isLeapYear(startYear) ? 366 : 365)
+        + (endYear - startYear - 1)
+        + daysBetween(endYearStart, end) / (isLeapYear(endYear) ? 366 : 365);
+}
+function thirty360(start, end, us) {
+    var d1 = start.getUTCDate();
+    var d2 = end.getUTCDate();
+    if (us) {
+        var lastOfFebruary = function (date) { return date.getUTCMonth() === 1 && new Date(date.getTime() + DAY).getUTCDate() === 1; };
+        if (lastOfFebruary(start) && lastOfFebruary(end)) {
+            d2 = 30;
+        }
+        if (lastOfFebruary(start)) {
+            d1 = 30;
+        }
+        if (d2 === 31 && d1 >= 30) {
+            d2 = 30;
+        }
+        if (d1 === 31) {
+            d1 = 30;
+        }
+    }
+    else {
+        d1 = Math.min(d1, 30);
+        d2 = Math.min(d2, 30);
+    }
+    var days = 360 * (end.getUTCFullYear() - start.getUTCFullYear()) + 30 * (end.getUTCMonth() - start.getUTCMonth()) + d2 - d1;
+    return days / 360;
+}
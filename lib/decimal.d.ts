@@ -0,0 +1,57 @@
+import { Arithmetic } from './arithmetic';
+import { RoundingMode } from './rounding';
+/** decimal places kept by division, powers and products */
+export declare const DECIMAL_PLACES = 40;
+/**
+ * Arbitrary-precision decimal number. The integer part is unbounded; products and quotients keep
+ * DECIMAL_PLACES fractional digits, rounded half-even. Instances are immutable.
+ */
+export declare class Decimal {
+    /**
+     * Creates a decimal from a number, a numeric string such as '-12.345' or '1e-7', or another decimal
+     * @param value - value to convert
+     * @returns {Decimal} - decimal value
+     * @example Decimal.from('0.1').plus(Decimal.from('0.2')).toString() // '0.3'
+     */
+    static from(value: number | string | Decimal): Decimal;
+    private readonly negative;
+    private readonly magnitude;
+    private readonly scale;
+    private constructor();
+    plus(other: Decimal | number | string): Decimal;
+    minus(other: Decimal | number | string): Decimal;
+    times(other: Decimal | number | string): Decimal;
+    dividedBy(other: Decimal | number | string, places?: number): Decimal;
+    /**
+     * Raises the decimal to an integer power by repeated squaring
+     * @param exponent - integer exponent, may be negative
+     * @returns {Decimal} - power
+     */
+    pow(exponent: number): Decimal;
+    negated(): Decimal;
+    abs(): Decimal;
+    compare(other: Decimal | number | string): number;
+    equals(other: Decimal | number | string): boolean;
+    isZero(): boolean;
+    isNegative(): boolean;
+    /**
+     * Rounds to a number of decimal places
+     * @param places - decimal places kept
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Decimal} - rounded decimal
+     */
+    round(places?: number, mode?: RoundingMode): Decimal;
+    toNumber(): number;
+    toString(): string;
+    /**
+     * Formats with a fixed number of decimal places, rounding half-up
+     * @param places - decimal places
+     * @returns {string} - formatted value
+     * @example Decimal.from('2.5').toFixed(2) // '2.50'
+     */
+    toFixed(places?: number): string;
+}
+/**
+ * Arbitrary-precision decimal backend
+ */
+export declare const decimalArithmetic: Arithmetic<Decimal>;
@@ -0,0 +1,314 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.decimalArithmetic = exports.Decimal = exports.DECIMAL_PLACES = void 0;
+var errors_1 = require("./errors");
+var BASE = 1e7;
+var LOG_BASE = 7;
+/** decimal places kept by division, powers and products */
+exports.DECIMAL_PLACES = 40;
+/**
+ * Arbitrary-precision decimal number. The integer part is unbounded; products and quotients keep
+ * DECIMAL_PLACES fractional digits, rounded half-even. Instances are immutable.
+ */
+var Decimal = /** @class */ (function () {
+    function Decimal(negative, magnitude, scale) {
+        // strip trailing fractional zeros so every value has a single representation
+        while (scale > 0 && magnitude.length > 0 && magnitude[0] % 10 === 0) {
+            magnitude = divideSmall(magnitude, 10).quotient;
+            scale--;
+        }
+        this.negative = negative && magnitude.length > 0;
+        this.magnitude = magnitude;
+        this.scale = magnitude.length > 0 ? scale : 0;
+    }
+    /**
+     * Creates a decimal from a number, a numeric string such as '-12.345' or '1e-7', or another decimal
+     * @param value - value to convert
+     * @returns {Decimal} - decimal value
+     * @example Decimal.from('0.1').plus(Decimal.from('0.2')).toString() // '0.3'
+     */
+    Decimal.from = function (value) {
+        if (value instanceof Decimal) {
+            return value;
+        }
+        var match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+        if (!match || (!match[2] && !match[3])) {
+            throw new errors_1.ValidationError("Invalid decimal value ".concat(value), 'value');
+        }
+        var fraction = match[3] || '';
+        var exponent = match[4] ? parseInt(match[4], 10) : 0;
+        var digits = (match[2] || '') + fraction;
+        var scale = fraction.length - exponent;
+        if (scale < 0) {
+            digits += repeat('0', -scale);
+            scale = 0;
+        }
+        return new Decimal(match[1] === '-', fromDigits(digits), scale);
+    };
+    Decimal.prototype.plus = function (other) {
+        var b = Decimal.from(other);
+        var scale = Math.max(this.scale, b.scale);
+        var x = shift(this.magnitude, scale - this.scale);
+        var y = shift(b.magnitude, scale - b.scale);
+        if (this.negative === b.negative) {
+            return new Decimal(this.negative, add(x, y), scale);
+        }
+        return compare(x, y) >= 0
+            ? new Decimal(this.negative, subtract(x, y), scale)
+            : new Decimal(b.negative, subtract(y, x), scale);
+    };
+    Decimal.prototype.minus = function (other) {
+        return this.plus(Decimal.from(other).negated());
+    };
+    Decimal.prototype.times = function (other) {
+        var b = Decimal.from(other);
+        return new Decimal(this.negative !== b.negative, multiply(this.magnitude, b.magnitude), this.scale + b.scale)
+            .round(exports.DECIMAL_PLACES, 'half-even');
+    };
+    Decimal.prototype.dividedBy = function (other, places) {
+        if (places === void 0) { places = exports.DECIMAL_PLACES; }
+        var b = Decimal.from(other);
+        if (b.isZero()) {
+            throw new errors_1.ValidationError('Division by zero', 'divisor');
+        }
+        // (m1 / 10^s1) / (m2 / 10^s2) = m1 * 10^(s2 + places) / (m2 * 10^s1) / 10^places
+        var numerator = shift(this.magnitude, b.scale + places);
+        var denominator = shift(b.magnitude, this.scale);
+        var _a = divide(numerator, denominator), quotient = _a.quotient, remainder = _a.remainder;
+        // round half-even on the exact remainder
+        var half = compare(add(remainder, remainder), denominator);
+        var up = half > 0 || (half === 0 && (quotient[0] || 0) % 2 === 1);
+        return new Decimal(this.negative !== b.negative, up ? add(quotient, [1]) : quotient, places);
+    };
+    /**
+     * Raises the decimal to an integer power by repeated squaring
+     * @param exponent - integer exponent, may be negative
+     * @returns {Decimal} - power
+     */
+    Decimal.prototype.pow = function (exponent) {
+        if (exponent !== Math.floor(exponent)) {
+            throw new errors_1.ValidationError("Decimal exponent must be an integer, got ".concat(exponent), 'exponent');
+        }
+        var result = Decimal.from(1);
+        var base = this;
+        var n = Math.abs(exponent);
+        while (n > 0) {
+            if (n % 2 === 1) {
+                result = result.times(base);
+            }
+            n = Math.floor(n / 2);
+            if (n > 0) {
+                base = base.times(base);
+            }
+        }
+        return exponent < 0 ? Decimal.from(1).dividedBy(result) : result;
+    };
+    Decimal.prototype.negated = function () {
+        return new Decimal(!this.negative, this.magnitude, this.scale);
+    };
+    Decimal.prototype.abs = function () {
+        return new Decimal(false, this.magnitude, this.scale);
+    };
+    Decimal.prototype.compare = function (other) {
+        var difference = this.minus(other);
+        return difference.isZero() ? 0 : difference.negative ? -1 : 1;
+    };
+    Decimal.prototype.equals = function (other) {
+        return this.compare(other) === 0;
+    };
+    Decimal.prototype.isZero = function () {
+        return this.magnitude.length === 0;
+    };
+    Decimal.prototype.isNegative = function () {
+        return this.negative;
+    };
+    /**
+     * Rounds to a number of decimal places
+     * @param places - decimal places kept
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Decimal} - rounded decimal
+     */
+    Decimal.prototype.round = function (places, mode) {
+        if (places === void 0) { places = 0; }
+        if (mode === void 0) { mode = 'half-up'; }
+        if (mode === 'none' || this.scale <= places) {
+            return this;
+        }
+        var divisor = pow10(this.scale - places);
+        var _a = divide(this.magnitude, divisor), quotient = _a.quotient, remainder = _a.remainder;
+        var half = compare(add(remainder, remainder), divisor);
+        var up;
+        switch (mode) {
+            case 'floor':
+                up = this.negative && remainder.length > 0;
+                break;
+            case 'ceil':
+                up = !this.negative && remainder.length > 0;
+                break;
+            case 'half-even':
+                up = half > 0 || (half === 0 && (quotient[0] || 0) % 2 === 1);
+                break;
+            default:
+                up = half >= 0;
+        }
+        return new Decimal(this.negative, up ? add(quotient, [1]) : quotient, places);
+    };
+    Decimal.prototype.toNumber = function () {
+        return parseFloat(this.toString());
+    };
+    Decimal.prototype.toString = function () {
+        return this.toFixed(this.scale);
+    };
+    /**
+     * Formats with a fixed number of decimal places, rounding half-up
+     * @param places - decimal places
+     * @returns {string} - formatted value
+     * @example Decimal.from('2.5').toFixed(2) // '2.50'
+     */
+    Decimal.prototype.toFixed = function (places) {
+        if (places === void 0) { places = 0; }
+        var rounded = this.round(places);
+        var digits = toDigits(rounded.magnitude);
+        if (digits.length <= rounded.scale) {
+            digits = repeat('0', rounded.scale - digits.length + 1) + digits;
+        }
+        var integer = digits.slice(0, digits.length - rounded.scale);
+        var fraction = digits.slice(digits.length - rounded.scale) + repeat('0', places - rounded.scale);
+        return (rounded.negative ? '-' : '') + integer + (places > 0 ? '.' + fraction : '');
+    };
+    return Decimal;
+}());
+exports.Decimal = Decimal;
+/**
+ * Arbitrary-precision decimal backend
+ */
+exports.decimalArithmetic = {
+    from: function (value) { return Decimal.from(value); },
+    add: function (a, b) { return a.plus(b); },
+    subtract: function (a, b) { return a.minus(b); },
+    multiply: function (a, b) { return a.times(b); },
+    divide: function (a, b) { return a.dividedBy(b); },
+    pow: function (base, exponent) { return base.pow(exponent); },
+    compare: function (a, b) { return a.compare(b); },
+    round: function (value, policy) {
+        if (policy === void 0) { policy = {}; }
+        return value.round(policy.decimals === undefined ? 2 : policy.decimals, policy.mode);
+    },
+    toNumber: function (value) { return value.toNumber(); },
+};
+function repeat(text, count) {
+    return count > 0 ? new Array(count + 1).join(text) : '';
+}
+function trim(a) {
+    while (a.length > 0 && a[a.length - 1] === 0) {
+        a.pop();
+    }
+    return a;
+}
+function fromDigits(digits) {
+    var limbs = [];
+    for (var end = digits.length; end > 0; end -= LOG_BASE) {
+        limbs.push(parseInt(digits.slice(Math.max(0, end - LOG_BASE), end), 10));
+    }
+    return trim(limbs);
+}
+function toDigits(a) {
+    if (a.length === 0) {
+        return '0';
+    }
+    var digits = String(a[a.length - 1]);
+    for (var i = a.length - 2; i >= 0; i--) {
+        var limb = String(a[i]);
+        digits += repeat('0', LOG_BASE - limb.length) + limb;
+    }
+    return digits;
+}
+function pow10(n) {
+    return fromDigits('1' + repeat('0', n));
+}
+function shift(a, places) {
+    return places > 0 ? multiply(a, pow10(places)) : a;
+}
+function compare(a, b) {
+    if (a.length !== b.length) {
+        return a.length < b.length ? -1 : 1;
+    }
+    for (var i = a.length - 1; i >= 0; i--) {
+        if (a[i] !== b[i]) {
+            return a[i] < b[i] ? -1 : 1;
+        }
+    }
+    return 0;
+}
+function add(a, b) {
+    var result = [];
+    var carry = 0;
+    for (var i = 0; i < Math.max(a.length, b.length) || carry > 0; i++) {
+        var sum = (a[i] || 0) + (b[i] || 0) + carry;
+        result.push(sum % BASE);
+        carry = sum >= BASE ? 1 : 0;
+    }
+    return trim(result);
+}
+// a must not be smaller than b
+function subtract(a, b) {
+    var result = [];
+    var borrow = 0;
+    for (var i = 0; i < a.length; i++) {
+        var difference = a[i] - (b[i] || 0) - borrow;
+        borrow = difference < 0 ? 1 : 0;
+        if (borrow) {
+            difference += BASE;
+        }
+        result.push(difference);
+    }
+    return trim(result);
+}
+function multiply(a, b) {
+    if (a.length === 0 || b.length === 0) {
+        return [];
+    }
+    var result = [];
+    for (var k = 0; k < a.length + b.length; k++) {
+        result.push(0);
+    }
+    for (var i = 0; i < a.length; i++) {
+        var carry = 0;
+        for (var j = 0; j < b.length || carry > 0; j++) {
+            var product = result[i + j] + a[i] * (b[j] || 0) + carry;
+            result[i + j] = product % BASE;
+            carry = Math.floor(product / BASE);
+        }
+    }
+    return trim(result);
+}
+function divideSmall(a, divisor) {
+    var quotient = [];
+    var remainder = 0;
+    for (var i = a.length - 1; i >= 0; i--) {
+        var current = remainder * BASE + a[i];
+        quotient[i] = Math.floor(current / divisor);
+        remainder = current % divisor;
+    }
+    return { quotient: trim(quotient), remainder: remainder };
+}
+// schoolbook long division, one decimal digit of the quotient at a time
+function divide(a, b) {
+    if (b.length === 1) {
+        var small = divideSmall(a, b[0]);
+        return { quotient: small.quotient, remainder: trim([small.remainder]) };
+    }
+    var remainder = [];
+    var quotient = '';
+    var digits = toDigits(a);
+    for (var i = 0; i < digits.length; i++) {
+        remainder = add(multiply(remainder, [10]), trim([parseInt(digits.charAt(i), 10)]));
+        var digit = 0;
+        while (compare(remainder, b) >= 0) {
+            remainder = subtract(remainder, b);
+            digit++;
+        }
+        quotient += digit;
+    }
+    return { quotient: fromDigits(quotient), remainder: remainder };
+}
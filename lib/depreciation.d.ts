@@ -0,0 +1,105 @@
+import { RoundingPolicy } from './rounding';
+export type DepreciationMethod = 'straight-line' | 'declining-balance' | 'double-declining' | 'sum-of-years-digits' | 'macrs';
+/** MACRS general depreciation system property classes, in years */
+export type MacrsClass = 3 | 5 | 7 | 10 | 15 | 20;
+export interface DepreciationOptions {
+    cost: number;
+    /** value at the end of the useful life, ignored by MACRS */
+    salvage: number;
+    /** useful life in years, or the property class for MACRS */
+    life: number;
+    method: DepreciationMethod;
+    /** declining balance rate of double-declining, defaults to 2 */
+    factor?: number;
+    /** true - keep the declining balance of double-declining instead of switching to straight-line */
+    noSwitch?: boolean;
+    /**
+     * months the asset is in service in the first year, defaults to 12. The remaining part of the last asset year
+     * falls in an extra year. Not used by MACRS, whose tables already apply the half-year convention.
+     */
+    firstYearMonths?: number;
+    /** rounding of every amount, defaults to 2 decimal places half-up */
+    rounding?: RoundingPolicy;
+}
+export interface DepreciationRow {
+    period: number;
+    openingBookValue: number;
+    depreciation: number;
+    accumulatedDepreciation: number;
+    closingBookValue: number;
+}
+/**
+ * Straight-line depreciation (SLN) for one period, like the spreadsheet SLN function
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @returns {number} - depreciation per period
+ * @example sln(30000, 7500, 10) // 2250
+ */
+export declare function sln(cost: number, salvage: number, life: number): number;
+/**
+ * Sum-of-years' digits depreciation (SYD) for a period, like the spreadsheet SYD function
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @param period - period, from 1 to life
+ * @returns {number} - depreciation in the period
+ * @example syd(30000, 7500, 10, 1) // 4090.91
+ */
+export declare function syd(cost: number, salvage: number, life: number, period: number): number;
+/**
+ * Fixed-declining balance depreciation (DB) for a period, like the spreadsheet DB function. The rate is rounded
+ * to three decimal places and a partial first year moves the rest of the last year into period life + 1.
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in years
+ * @param period - period, from 1 to life, or life + 1 with a partial first year
+ * @param month - months in the first year, defaults to 12
+ * @returns {number} - depreciation in the period
+ * @example db(1000000, 100000, 6, 1, 7) // 186083.33
+ */
+export declare function db(cost: number, salvage: number, life: number, period: number, month?: number): number;
+/**
+ * Double-declining balance depreciation (DDB) for a period, like the spreadsheet DDB function. Depreciation stops
+ * at the salvage value and never switches to straight-line; use vdb for the switch.
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @param period - period, from 1 to life
+ * @param factor - declining balance rate, defaults to 2
+ * @returns {number} - depreciation in the period
+ * @example ddb(2400, 300, 10, 1) // 480
+ */
+export declare function ddb(cost: number, salvage: number, life: number, period: number, factor?: number): number;
+/**
+ * Variable declining balance depreciation (VDB) between two points in the life, like the spreadsheet VDB function.
+ * Switches to straight-line once that gives more depreciation, unless noSwitch is set.
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @param startPeriod - start of the interval, may be fractional
+ * @param endPeriod - end of the interval, may be fractional
+ * @param factor - declining balance rate, defaults to 2
+ * @param noSwitch - true - never switch to straight-line
+ * @returns {number} - depreciation over the interval
+ * @example vdb(2400, 300, 120, 6, 18) // 396.31
+ */
+export declare function vdb(cost: number, salvage: number, life: number, startPeriod: number, endPeriod: number, factor?: number, noSwitch?: boolean): number;
+/**
+ * US MACRS depreciation for a recovery year, from the general depreciation system tables with the half-year
+ * convention (IRS Publication 946, table A-1)
+ * @param cost - depreciable basis of the asset
+ * @param recoveryPeriod - property class in years
+ * @param year - recovery year, from 1 to recoveryPeriod + 1
+ * @returns {number} - depreciation in the year
+ * @example macrs(10000, 5, 2) // 3200
+ */
+export declare function macrs(cost: number, recoveryPeriod: MacrsClass, year: number): number;
+/**
+ * Depreciation schedule - depreciation, accumulated depreciation and book value for every year of the life. The
+ * last year is adjusted so the book value closes at exactly the salvage value.
+ * @param options - cost, salvage, life, method, declining balance factor, first year months and rounding
+ * @returns {DepreciationRow[]} - one row per year
+ * @example depreciationSchedule({ cost: 2400, salvage: 300, life: 10, method: 'double-declining' })[0].depreciation // 480
+ */
+export declare function depreciationSchedule(options: DepreciationOptions): DepreciationRow[];
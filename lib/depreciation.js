@@ -0,0 +1,314 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.depreciationSchedule = exports.macrs = exports.vdb = exports.ddb = exports.db = exports.syd = exports.sln = void 0;
+var errors_1 = require("./errors");
+var rounding_1 = require("./rounding");
+var validation_1 = require("./validation");
+// IRS Publication 946, table A-1: general depreciation system, 200% or 150% declining balance switching to
+// straight-line, half-year convention. Percentages of the cost per recovery year.
+var MACRS_HALF_YEAR = {
+    3: [33.33, 44.45, 14.81, 7.41],
+    5: [20.00, 32.00, 19.20, 11.52, 11.52, 5.76],
+    7: [14.29, 24.49, 17.49, 12.49, 8.93, 8.92, 8.93, 4.46],
+    10: [10.00, 18.00, 14.40, 11.52, 9.22, 7.37, 6.55, 6.55, 6.56, 6.55, 3.28],
+    15: [5.00, 9.50, 8.55, 7.70, 6.93, 6.23, 5.90, 5.90, 5.91, 5.90, 5.91, 5.90, 5.91, 5.90, 5.91, 2.95],
+    20: [
+        3.750, 7.219, 6.677, 6.177, 5.713, 5.285, 4.888, 4.522, 4.462, 4.461, 4.462,
+        4.461, 4.462, 4.461, 4.462, 4.461, 4.462, 4.461, 4.462, 4.461, 2.231,
+    ],
+};
+/**
+ * Straight-line depreciation (SLN) for one period, like the spreadsheet SLN function
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @returns {number} - depreciation per period
+ * @example sln(30000, 7500, 10) // 2250
+ */
+function sln(cost, salvage, life) {
+    validate(cost, salvage, life);
+    return (cost - salvage) / life;
+}
+exports.sln = sln;
+/**
+ * Sum-of-years' digits depreciation (SYD) for a period, like the spreadsheet SYD function
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @param period - period, from 1 to life
+ * @returns {number} - depreciation in the period
+ * @example syd(30000, 7500, 10, 1) // 4090.91
+ */
+function syd(cost, salvage, life, period) {
+    validate(cost, salvage, life);
+    assertPeriod(period, life);
+    return (cost - salvage) * (life - period + 1) * 2 / (life * (life + 1));
+}
+exports.syd = syd;
+/**
+ * Fixed-declining balance depreciation (DB) for a period, like the spreadsheet DB function. The rate is rounded
+ * to three decimal places and a partial first year moves the rest of the last year into period life + 1.
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in years
+ * @param period - period, from 1 to life, or life + 1 with a partial first year
+ * @param month - months in the first year, defaults to 12
+ * @returns {number} - depreciation in the period
+ * @example db(1000000, 100000, 6, 1, 7) // 186083.33
+ */
+function db(cost, salvage, life, period, month) {
+    if (month === void 0) { month = 12; }
+    validate(cost, salvage, life);
+    assertMonths(month);
+    assertPeriod(period, month < 12 ? life + 1 : life);
+    if (cost === 0) {
+        return 0;
+    }
+    var rate = Math.round((1 - Math.pow(salvage / cost, 1 / life)) * 1000) / 1000;
+    var total = cost * rate * month / 12;
+    if (period === 1) {
+        return total;
+    }
+    for (var p = 2; p < period; p++) {
+        total += (cost - total) * rate;
+    }
+    return period === life + 1 ? (cost - total) * rate * (12 - month) / 12 : (cost - total) * rate;
+}
+exports.db = db;
+/**
+ * Double-declining balance depreciation (DDB) for a period, like the spreadsheet DDB function. Depreciation stops
+ * at the salvage value and never switches to straight-line; use vdb for the switch.
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @param period - period, from 1 to life
+ * @param factor - declining balance rate, defaults to 2
+ * @returns {number} - depreciation in the period
+ * @example ddb(2400, 300, 10, 1) // 480
+ */
+function ddb(cost, salvage, life, period, factor) {
+    if (factor === void 0) { factor = 2; }
+    validate(cost, salvage, life);
+    assertPeriod(period, life);
+    (0, validation_1.assertPositive)('factor', factor);
+    return decliningBalance(cost, salvage, life, period, factor);
+}
+exports.ddb = ddb;
+/**
+ * Variable declining balance depreciation (VDB) between two points in the life, like the spreadsheet VDB function.
+ * Switches to straight-line once that gives more depreciation, unless noSwitch is set.
+ * @param cost - initial cost of the asset
+ * @param salvage - value at the end of the useful life
+ * @param life - useful life in periods
+ * @param startPeriod - start of the interval, may be fractional
+ * @param endPeriod - end of the interval, may be fractional
+ * @param factor - declining balance rate, defaults to 2
+ * @param noSwitch - true - never switch to straight-line
+ * @returns {number} - depreciation over the interval
+ * @example vdb(2400, 300, 120, 6, 18) // 396.31
+ */
+function vdb(cost, salvage, life, startPeriod, endPeriod, factor, noSwitch) {
+    if (factor === void 0) { factor = 2; }
+    if (noSwitch === void 0) { noSwitch = false; }
+    validate(cost, salvage, life);
+    (0, validation_1.assertNonNegative)('startPeriod', startPeriod);
+    (0, validation_1.assertFinite)('endPeriod', endPeriod);
+    (0, validation_1.assertPositive)('factor', factor);
+    if (startPeriod > endPeriod || endPeriod > life) {
+        throw new errors_1.ValidationError('startPeriod must not be after endPeriod, and endPeriod must not be after life', 'endPeriod');
+    }
+    if (noSwitch) {
+        var loopStart = Math.floor(startPeriod);
+        var loopEnd = Math.ceil(endPeriod);
+        var total = 0;
+        for (var period = loopStart + 1; period <= loopEnd; period++) {
+            var term = decliningBalance(cost, salvage, life, period, factor);
+            // only the covered part of the first and last periods counts
+            if (period === loopStart + 1) {
+                term *= Math.min(endPeriod, loopStart + 1) - startPeriod;
+            }
+            else if (period === loopEnd) {
+                term *= endPeriod + 1 - loopEnd;
+            }
+            total += term;
+        }
+        return total;
+    }
+    var start = startPeriod;
+    var end = endPeriod;
+    var remainingLife = life;
+    // a fractional start in the second half of the life shifts the interval, as spreadsheets do
+    if (start !== Math.floor(start) && factor > 1 && start >= life / 2) {
+        var part = start - life / 2;
+        start = life / 2;
+        end -= part;
+        remainingLife += 1;
+    }
+    var depreciated = switchingBalance(cost, salvage, remainingLife, remainingLife, start, factor);
+    return switchingBalance(cost - depreciated, salvage, remainingLife, remainingLife - start, end - start, factor);
+}
+exports.vdb = vdb;
+/**
+ * US MACRS depreciation for a recovery year, from the general depreciation system tables with the half-year
+ * convention (IRS Publication 946, table A-1)
+ * @param cost - depreciable basis of the asset
+ * @param recoveryPeriod - property class in years
+ * @param year - recovery year, from 1 to recoveryPeriod + 1
+ * @returns {number} - depreciation in the year
+ * @example macrs(10000, 5, 2) // 3200
+ */
+function macrs(cost, recoveryPeriod, year) {
+    (0, validation_1.assertNonNegative)('cost', cost);
+    var table = macrsTable(recoveryPeriod);
+    assertPeriod(year, table.length, 'year');
+    return cost * table[year - 1] / 100;
+}
+exports.macrs = macrs;
+/**
+ * Depreciation schedule - depreciation, accumulated depreciation and book value for every year of the life. The
+ * last year is adjusted so the book value closes at exactly the salvage value.
+ * @param options - cost, salvage, life, method, declining balance factor, first year months and rounding
+ * @returns {DepreciationRow[]} - one row per year
+ * @example depreciationSchedule({ cost: 2400, salvage: 300, life: 10, method: 'double-declining' })[0].depreciation // 480
+ */
+function depreciationSchedule(options) {
+    var cost = options.cost, life = options.life, method = options.method, _a = options.factor, factor = _a === void 0 ? 2 : _a, _b = options.noSwitch, noSwitch = _b === void 0 ? false : _b, _c = options.firstYearMonths, firstYearMonths = _c === void 0 ? 12 : _c, rounding = options.rounding;
+    var salvage = method === 'macrs' ? 0 : options.salvage;
+    validate(cost, salvage, life);
+    assertMonths(firstYearMonths);
+    var roundAmount = function (value) { return (0, rounding_1.round)(value, rounding); };
+    var amounts;
+    if (method === 'macrs') {
+        amounts = macrsTable(life).map(function (percent) { return cost * percent / 100; });
+    }
+    else if (method === 'declining-balance') {
+        var periods = firstYearMonths < 12 ? life + 1 : life;
+        amounts = range(periods).map(function (period) { return db(cost, salvage, life, period, firstYearMonths); });
+    }
+    else {
+        (0, validation_1.assertInteger)('life', life);
+        amounts = prorate(range(life).map(function (period) { return yearly(options, salvage, period, factor, noSwitch); }), firstYearMonths);
+    }
+    var rows = [];
+    var bookValue = roundAmount(cost);
+    var accumulated = 0;
+    amounts.forEach(function (amount, i) {
+        // the last year takes whatever is left above the salvage value
+        var depreciation = i === amounts.length - 1
+            ? roundAmount(bookValue - salvage)
+            : roundAmount(Math.min(amount, bookValue - salvage));
+        var closingBookValue = roundAmount(bookValue - depreciation);
+        accumulated = roundAmount(accumulated + depreciation);
+        rows.push({
+            period: i + 1,
+            openingBookValue: bookValue,
+            depreciation: depreciation,
+            accumulatedDepreciation: accumulated,
+            closingBookValue: closingBookValue,
+        });
+        bookValue = closingBookValue;
+    });
+    return rows;
+}
+exports.depreciationSchedule = depreciationSchedule;
+function yearly(options, salvage, period, factor, noSwitch) {
+    var cost = options.cost, life = options.life, method = options.method;
+    switch (method) {
+        case 'straight-line':
+            return sln(cost, salvage, life);
+        case 'sum-of-years-digits':
+            return syd(cost, salvage, life, period);
+        case 'double-declining':
+            return vdb(cost, salvage, life, period - 1, period, factor, noSwitch);
+        default:
+            throw new errors_1.ValidationError("Unknown depreciation method ".concat(method), 'method');
+    }
+}
+// spreads asset years over fiscal years when the asset is placed in service part way through the first year
+function prorate(assetYears, firstYearMonths) {
+    if (firstYearMonths === 12) {
+        return assetYears;
+    }
+    var first = firstYearMonths / 12;
+    return assetYears.concat([0]).map(function (amount, i) { return first * amount + (i > 0 ? (1 - first) * assetYears[i - 1] : 0); });
+}
+function decliningBalance(cost, salvage, life, period, factor) {
+    var rate = factor / life;
+    var oldValue;
+    if (rate >= 1) {
+        rate = 1;
+        oldValue = period === 1 ? cost : 0;
+    }
+    else {
+        oldValue = cost * Math.pow(1 - rate, period - 1);
+    }
+    var newValue = cost * Math.pow(1 - rate, period);
+    var depreciation = newValue < salvage ? oldValue - salvage : oldValue - newValue;
+    return Math.max(depreciation, 0);
+}
+// declining balance that switches to straight-line over the remaining life once that is larger
+function switchingBalance(cost, salvage, life, remainingLife, periods, factor) {
+    var loopEnd = Math.ceil(periods);
+    var remaining = cost - salvage;
+    var straightLine = 0;
+    var switched = false;
+    var total = 0;
+    for (var period = 1; period <= loopEnd; period++) {
+        var term = void 0;
+        if (switched) {
+            term = straightLine;
+        }
+        else {
+            var declining = decliningBalance(cost, salvage, life, period, factor);
+            straightLine = remaining / (remainingLife - (period - 1));
+            if (straightLine > declining) {
+                term = straightLine;
+                switched = true;
+            }
+            else {
+                term = declining;
+                remaining -= declining;
+            }
+        }
+        if (period === loopEnd) {
+            term *= periods + 1 - loopEnd;
+        }
+        total += term;
+    }
+    return total;
+}
+function macrsTable(recoveryPeriod) {
+    var table = MACRS_HALF_YEAR[recoveryPeriod];
+    if (!table) {
+        throw new errors_1.ValidationError("MACRS recovery period must be 3, 5, 7, 10, 15 or 20 years, got ".concat(recoveryPeriod), 'recoveryPeriod');
+    }
+    return table;
+}
+function range(count) {
+    var periods = [];
+    for (var period = 1; period <= count; period++) {
+        periods.push(period);
+    }
+    return periods;
+}
+function validate(cost, salvage, life) {
+    (0, validation_1.assertNonNegative)('cost', cost);
+    (0, validation_1.assertNonNegative)('salvage', salvage);
+    (0, validation_1.assertPositive)('life', life);
+    if (salvage > cost) {
+        throw new errors_1.ValidationError('salvage must not be more than cost', 'salvage');
+    }
+}
+function assertPeriod(period, last, name) {
+    if (name === void 0) { name = 'period'; }
+    (0, validation_1.assertFinite)(name, period);
+    if (period < 1 || period > last || period !== Math.floor(period)) {
+        throw new errors_1.ValidationError("".concat(name, " must be a whole number from 1 to ").concat(last, ", got ").concat(period), name);
+    }
+}
+function assertMonths(month) {
+    (0, validation_1.assertInteger)('month', month);
+    if (month > 12) {
+        throw new errors_1.ValidationError("month must be from 1 to 12, got ".concat(month), 'month');
+    }
+}
@@ -0,0 +1,39 @@
+export type FinanceErrorCode = 'INVALID_ARGUMENT' | 'INVALID_CASH_FLOWS' | 'NO_CONVERGENCE' | 'CURRENCY_MISMATCH';
+/**
+ * Base class of every error thrown by the library
+ */
+export declare class FinanceError extends Error {
+    /** machine readable error code */
+    code: FinanceErrorCode;
+    constructor(message: string, code: FinanceErrorCode);
+}
+/**
+ * Thrown when an argument is missing, not finite or out of range
+ */
+export declare class ValidationError extends FinanceError {
+    /** name of the offending argument */
+    argument: string;
+    constructor(message: string, argument: string, code?: FinanceErrorCode);
+}
+/**
+ * Thrown when cash flows can't have a rate of return, e.g. when they are all positive
+ */
+export declare class CashFlowError extends ValidationError {
+    constructor(message: string, argument?: string);
+}
+/**
+ * Thrown when a root finder runs out of iterations or cannot make progress
+ */
+export declare class ConvergenceError extends FinanceError {
+    /** number of iterations used */
+    iterations: number;
+    /** function value at the last point tried */
+    residual: number;
+    constructor(message: string, iterations: number, residual: number);
+}
+/**
+ * Thrown when amounts in different currencies are combined
+ */
+export declare class CurrencyMismatchError extends FinanceError {
+    constructor(expected: string, actual: string);
+}
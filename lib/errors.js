@@ -0,0 +1,92 @@
+"use strict";
+// tslint:disable:max-classes-per-file
+var __extends = (this && this.__extends) || (function () {
+    var extendStatics = function (d, b) {
+        extendStatics = Object.setPrototypeOf ||
+            ({ __proto__: [] } instanceof Array && function (d, b) { d.__proto__ = b; }) ||
+            function (d, b) { for (var p in b) if (Object.prototype.hasOwnProperty.call(b, p)) d[p] = b[p]; };
+        return extendStatics(d, b);
+    };
+    return function (d, b) {
+        if (typeof b !== "function" && b !== null)
+            throw new TypeError("Class extends value " + String(b) + " is not a constructor or null");
+        extendStatics(d, b);
+        function __() { this.constructor = d; }
+        d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+    };
+})();
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.CurrencyMismatchError = exports.ConvergenceError = exports.CashFlowError = exports.ValidationError = exports.FinanceError = void 0;
+/**
+ * Base class of every error thrown by the library
+ */
+var FinanceError = /** @class */ (function (_super) {
+    __extends(FinanceError, _super);
+    function FinanceError(message, code) {
+        var _newTarget = this.constructor;
+        var _this = _super.call(this, message) || this;
+        Object.setPrototypeOf(_this, _newTarget.prototype);
+        _this.name = 'FinanceError';
+        _this.code = code;
+        return _this;
+    }
+    return FinanceError;
+}(Error));
+exports.FinanceError = FinanceError;
+/**
+ * Thrown when an argument is missing, not finite or out of range
+ */
+var ValidationError = /** @class */ (function (_super) {
+    __extends(ValidationError, _super);
+    function ValidationError(message, argument, code) {
+        if (code === void 0) { code = 'INVALID_ARGUMENT'; }
+        var _this = _super.call(this, message, code) || this;
+        _this.name = 'ValidationError';
+        _this.argument = argument;
+        return _this;
+    }
+    return ValidationError;
+}(FinanceError));
+exports.ValidationError = ValidationError;
+/**
+ * Thrown when cash flows can't have a rate of return, e.g. when they are all positive
+ */
+var CashFlowError = /** @class */ (function (_super) {
+    __extends(CashFlowError, _super);
+    function CashFlowError(message, argument) {
+        if (argument === void 0) { argument = 'cashFlows'; }
+        var _this = _super.call(this, message, argument, 'INVALID_CASH_FLOWS') || this;
+        _this.name = 'CashFlowError';
+        return _this;
+    }
+    return CashFlowError;
+}(ValidationError));
+exports.CashFlowError = CashFlowError;
+/**
+ * Thrown when a root finder runs out of iterations or cannot make progress
+ */
+var ConvergenceError = /** @class */ (function (_super) {
+    __extends(ConvergenceError, _super);
+    function ConvergenceError(message, iterations, residual) {
+        var _this = _super.call(this, message, 'NO_CONVERGENCE') || this;
+        _this.name = 'ConvergenceError';
+        _this.iterations = iterations;
+        _this.residual = residual;
+        return _this;
+    }
+    return ConvergenceError;
+}(FinanceError));
+exports.ConvergenceError = ConvergenceError;
+/**
+ * Thrown when amounts in different currencies are combined
+ */
+var CurrencyMismatchError = /** @class */ (function (_super) {
+    __extends(CurrencyMismatchError, _super);
+    function CurrencyMismatchError(expected, actual) {
+        var _this = _super.call(this, "Currency mismatch: expected ".concat(expected, ", got ").concat(actual), 'CURRENCY_MISMATCH') || this;
+        _this.name = 'CurrencyMismatchError';
+        return _this;
+    }
+    return CurrencyMismatchError;
+}(FinanceError));
+exports.CurrencyMismatchError = CurrencyMismatchError;
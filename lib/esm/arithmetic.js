@@ -0,0 +1,15 @@
+import { round } from './rounding';
+/**
+ * IEEE double backend, the default
+ */
+export var floatArithmetic = {
+    from: function (value) { return Number(value); },
+    add: function (a, b) { return a + b; },
+    subtract: function (a, b) { return a - b; },
+    multiply: function (a, b) { return a * b; },
+    divide: function (a, b) { return a / b; },
+    pow: function (base, exponent) { return Math.pow(base, exponent); },
+    compare: function (a, b) { return a < b ? -1 : a > b ? 1 : 0; },
+    round: function (value, policy) { return round(value, policy); },
+    toNumber: function (value) { return value; },
+};
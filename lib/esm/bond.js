@@ -0,0 +1,201 @@
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+import { yearFraction } from './daycount';
+import { ValidationError } from './errors';
+import { addPeriods } from './schedule';
+import { findRoot } from './solver';
+import { assertDate, assertFinite, assertNonNegative, assertPositive } from './validation';
+var FREQUENCIES = [1, 2, 4, 12];
+// the yield per period must stay above -100%, the upper end covers distressed prices
+var YIELD_BRACKET = [-0.99, 100];
+/**
+ * Accrued interest - coupon interest earned since the last coupon date, which the buyer pays on top of the
+ * clean price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @returns {number} - accrued interest per face value
+ * @example accruedInterest({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 0.0575 }) // 1.4375
+ */
+export function accruedInterest(bond) {
+    return coupon(bond) * couponPeriod(bond).accrued;
+}
+/**
+ * Dirty price - present value of the remaining coupons and redemption at a yield, compounded at the coupon
+ * frequency, accrued interest included
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price per face value
+ */
+export function dirtyPrice(bond, yieldRate) {
+    return cashFlows(bond, yieldRate).reduce(function (sum, flow) { return sum + flow.presentValue; }, 0);
+}
+/**
+ * Clean price - the quoted price, dirty price less accrued interest
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price per face value
+ * @example cleanPrice({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 0.0575 }, 0.065) // 94.63
+ */
+export function cleanPrice(bond, yieldRate) {
+    return dirtyPrice(bond, yieldRate) - accruedInterest(bond);
+}
+/**
+ * Yield to maturity (YTM) - the yield at which the bond's cash flows are worth its clean price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param price - clean price per face value
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual yield as a fraction
+ * @example yieldToMaturity({ settlement: new Date('2008-02-15'), maturity: new Date('2016-11-15'), couponRate: 0.0575 }, 95.04287) // 0.065
+ */
+export function yieldToMaturity(bond, price, options) {
+    if (options === void 0) { options = {}; }
+    assertPositive('price', price);
+    var accrued = accruedInterest(bond);
+    return findRoot(function (rate) { return dirtyPrice(bond, rate) - accrued - price; }, __assign({ bracket: yieldBracket(bond) }, options));
+}
+/**
+ * Yield to call (YTC) - the yield to maturity of the bond redeemed at the call price on the call date
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param price - clean price per face value
+ * @param call - call date and call price
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual yield as a fraction
+ */
+export function yieldToCall(bond, price, call, options) {
+    if (options === void 0) { options = {}; }
+    assertDate('call.date', call.date);
+    assertPositive('call.price', call.price);
+    if (call.date > bond.maturity) {
+        throw new ValidationError('call.date must not be after maturity', 'call.date');
+    }
+    return yieldToMaturity(__assign(__assign({}, bond), { maturity: call.date, redemption: call.price }), price, options);
+}
+/**
+ * Macaulay duration - the present value weighted average time to the bond's cash flows
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - duration in years
+ */
+export function macaulayDuration(bond, yieldRate) {
+    var flows = cashFlows(bond, yieldRate);
+    var price = flows.reduce(function (sum, flow) { return sum + flow.presentValue; }, 0);
+    return flows.reduce(function (sum, flow) { return sum + flow.time * flow.presentValue; }, 0) / price;
+}
+/**
+ * Modified duration - Macaulay duration divided by one plus the yield per period, the relative price change for
+ * a unit change in yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - duration in years
+ */
+export function modifiedDuration(bond, yieldRate) {
+    return macaulayDuration(bond, yieldRate) / (1 + yieldRate / frequencyOf(bond));
+}
+/**
+ * Convexity - second derivative of the price with respect to the yield, relative to the price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - convexity in years squared
+ */
+export function convexity(bond, yieldRate) {
+    var frequency = frequencyOf(bond);
+    var flows = cashFlows(bond, yieldRate);
+    var price = flows.reduce(function (sum, flow) { return sum + flow.presentValue; }, 0);
+    var weighted = flows.reduce(function (sum, flow) { return sum + flow.presentValue * flow.time * (flow.time + 1 / frequency); }, 0);
+    return weighted / (price * Math.pow(1 + yieldRate / frequency, 2));
+}
+/**
+ * Dollar value of a basis point (DV01) - the dirty price change for a one basis point drop in the yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price change per face value
+ */
+export function dv01(bond, yieldRate) {
+    return modifiedDuration(bond, yieldRate) * dirtyPrice(bond, yieldRate) / 10000;
+}
+/**
+ * Bond analytics - prices, accrued interest and risk measures at a yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {BondAnalytics} - clean and dirty price, accrued interest, durations, convexity and DV01
+ */
+export function bondAnalytics(bond, yieldRate) {
+    var dirty = dirtyPrice(bond, yieldRate);
+    var accrued = accruedInterest(bond);
+    var modified = modifiedDuration(bond, yieldRate);
+    return {
+        cleanPrice: dirty - accrued,
+        dirtyPrice: dirty,
+        accruedInterest: accrued,
+        macaulayDuration: macaulayDuration(bond, yieldRate),
+        modifiedDuration: modified,
+        convexity: convexity(bond, yieldRate),
+        dv01: modified * dirty / 10000,
+    };
+}
+function cashFlows(bond, yieldRate) {
+    assertFinite('yieldRate', yieldRate);
+    var frequency = frequencyOf(bond);
+    if (yieldRate / frequency <= -1) {
+        throw new ValidationError("yieldRate must be above -".concat(frequency * 100, "% at ").concat(frequency, " coupons a year"), 'yieldRate');
+    }
+    var _a = couponPeriod(bond), remaining = _a.remaining, accrued = _a.accrued;
+    var payment = coupon(bond);
+    var redemption = bond.redemption === undefined ? faceValueOf(bond) : bond.redemption;
+    assertNonNegative('redemption', redemption);
+    var flows = [];
+    for (var k = 1; k <= remaining; k++) {
+        // periods from settlement, the first one partial when settlement falls between coupon dates
+        var periods = k - accrued;
+        var amount = k === remaining ? payment + redemption : payment;
+        flows.push({ time: periods / frequency, presentValue: amount / Math.pow(1 + yieldRate / frequency, periods) });
+    }
+    return flows;
+}
+// coupon dates are counted back from maturity so that they keep its day of month
+function couponPeriod(bond) {
+    var settlement = bond.settlement, maturity = bond.maturity, _a = bond.dayCount, dayCount = _a === void 0 ? '30/360 US' : _a;
+    assertDate('settlement', settlement);
+    assertDate('maturity', maturity);
+    if (settlement >= maturity) {
+        throw new ValidationError('settlement must be before maturity', 'settlement');
+    }
+    var months = 12 / frequencyOf(bond);
+    var remaining = 1;
+    var previous = addPeriods(maturity, 'monthly', -months);
+    while (previous > settlement) {
+        remaining++;
+        previous = addPeriods(maturity, 'monthly', -months * remaining);
+    }
+    var next = addPeriods(maturity, 'monthly', -months * (remaining - 1));
+    var accrued = yearFraction(previous, settlement, dayCount) / yearFraction(previous, next, dayCount);
+    return { previous: previous, next: next, remaining: remaining, accrued: accrued };
+}
+function coupon(bond) {
+    assertNonNegative('couponRate', bond.couponRate);
+    return faceValueOf(bond) * bond.couponRate / frequencyOf(bond);
+}
+function faceValueOf(bond) {
+    var faceValue = bond.faceValue === undefined ? 100 : bond.faceValue;
+    assertPositive('faceValue', faceValue);
+    return faceValue;
+}
+function frequencyOf(bond) {
+    var _a = bond.frequency, frequency = _a === void 0 ? 2 : _a;
+    if (FREQUENCIES.indexOf(frequency) < 0) {
+        throw new ValidationError("frequency must be 1, 2, 4 or 12, got ".concat(frequency), 'frequency');
+    }
+    return frequency;
+}
+function yieldBracket(bond) {
+    var frequency = frequencyOf(bond);
+    return [YIELD_BRACKET[0] * frequency, YIELD_BRACKET[1]];
+}
@@ -0,0 +1,347 @@
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
+var __spreadArray = (this && this.__spreadArray) || function (to, from, pack) {
+    if (pack || arguments.length === 2) for (var i = 0, l = from.length, ar; i < l; i++) {
+        if (ar || !(i in from)) {
+            if (!ar) ar = Array.prototype.slice.call(from, 0, i);
+            ar[i] = from[i];
+        }
+    }
+    return to.concat(ar || Array.prototype.slice.call(from));
+};
+import { floatArithmetic } from './arithmetic';
+import { YieldCurve } from './curve';
+import { yearFraction } from './daycount';
+import { ValidationError } from './errors';
+import { brent, findRoot, RATE_BRACKET } from './solver';
+import { assertCashFlows, assertDates, assertFinite, assertInteger, assertNonNegative, assertPositive, assertRate, assertSignChange } from './validation';
+/**
+ * Present value (PV) - the value today of an amount paid at the end of a number of periods
+ * @param options - discount rate, amount and number of periods
+ * @returns {number} - present value
+ * @example presentValue({ rate: 0.1, amount: 100 }) // 90.91
+ */
+export function presentValue(options) {
+    var rate = options.rate, amount = options.amount, _a = options.periods, periods = _a === void 0 ? 1 : _a;
+    validateSingleAmount(rate, amount, periods);
+    return amount / Math.pow(1 + rate, periods);
+}
+/**
+ * Future value (FV) - the value at the end of a number of periods of an amount invested today
+ * @param options - growth rate, amount and number of periods
+ * @returns {number} - future value
+ * @example futureValue({ rate: 0.1, amount: 100 }) // 110
+ */
+export function futureValue(options) {
+    var rate = options.rate, amount = options.amount, _a = options.periods, periods = _a === void 0 ? 1 : _a;
+    validateSingleAmount(rate, amount, periods);
+    return amount * Math.pow(1 + rate, periods);
+}
+/**
+ * Net present value (NPV) - the sum of the present values of cash flows at regular periods
+ * @param options - discount rate or yield curve, cash flows, number backend and rounding
+ * @returns {number} - net present value
+ * @example npv({ rate: 0.1, cashFlows: [-500000, 200000, 300000, 200000] }) // 80015.03
+ */
+export function npv(options) {
+    var cashFlows = options.cashFlows, _a = options.rounding, rounding = _a === void 0 ? { mode: 'none' } : _a;
+    var m = options.arithmetic || floatArithmetic;
+    var discount = discounter(m, options.rate);
+    assertCashFlows('cashFlows', cashFlows);
+    var value = m.from(cashFlows[0]);
+    for (var i = 1; i < cashFlows.length; i++) {
+        value = m.add(value, discount(m.from(cashFlows[i]), i));
+    }
+    return m.toNumber(m.round(value, rounding));
+}
+/**
+ * Internal rate of return (IRR) - the discount rate at which the net present value of cash flows at regular
+ * periods is zero
+ * @param options - cash flows, and solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - rate per period
+ * @example irr({ cashFlows: [-1000, 300, 400, 500] }) // 0.0889
+ */
+export function irr(options) {
+    var cashFlows = options.cashFlows, solverOptions = __rest(options, ["cashFlows"]);
+    assertCashFlows('cashFlows', cashFlows, 2);
+    assertSignChange('cashFlows', cashFlows, 'IRR');
+    var value = function (rate) { return cashFlows.reduce(function (sum, cf, i) { return sum + cf / Math.pow(1 + rate, i); }, 0); };
+    var derivative = function (rate) { return cashFlows.reduce(function (sum, cf, i) { return sum - i * cf * Math.pow(1 + rate, -1 - i); }, 0); };
+    return findRoot(value, __assign({ bracket: RATE_BRACKET, guess: 0.1 }, solverOptions), derivative);
+}
+/**
+ * All IRRs - every rate in a range at which the net present value is zero, for non-conventional cash flows
+ * whose sign changes more than once
+ * @param options - cash flows, range of rates, scan steps and solver tolerance
+ * @returns {MultipleIRR} - IRRs, the sign change count and a multiple roots warning
+ * @example allIrr({ cashFlows: [-100, 230, -132] }) // { rates: [0.1, 0.2], signChanges: 2, multipleRoots: true }
+ */
+export function allIrr(options) {
+    var cashFlows = options.cashFlows, _a = options.range, range = _a === void 0 ? [-0.99, 10] : _a, _b = options.steps, steps = _b === void 0 ? 1000 : _b, tolerance = options.tolerance;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    assertInteger('steps', steps);
+    assertRate('range', range[0]);
+    assertFinite('range', range[1]);
+    if (range[0] >= range[1]) {
+        throw new ValidationError('range must be an increasing pair of rates', 'range');
+    }
+    var value = function (rate) { return cashFlows.reduce(function (sum, cf, i) { return sum + cf / Math.pow(1 + rate, i); }, 0); };
+    // scan evenly in log(1 + rate) so the grid is finest around the usual rates
+    var lower = Math.log(1 + range[0]);
+    var step = (Math.log(1 + range[1]) - lower) / steps;
+    var rates = [];
+    var previous = range[0];
+    var previousValue = value(previous);
+    for (var i = 1; i <= steps; i++) {
+        var rate = Math.exp(lower + i * step) - 1;
+        var current = value(rate);
+        if (previousValue === 0) {
+            rates.push(previous);
+        }
+        else if ((previousValue > 0) !== (current > 0) && current !== 0) {
+            rates.push(brent(value, previous, rate, { tolerance: tolerance }));
+        }
+        previous = rate;
+        previousValue = current;
+    }
+    if (previousValue === 0) {
+        rates.push(previous);
+    }
+    var signChanges = countSignChanges(cashFlows);
+    return { rates: rates, signChanges: signChanges, multipleRoots: signChanges > 1 };
+}
+/**
+ * Modified internal rate of return (MIRR) - the return when negative cash flows are financed at the finance
+ * rate and positive cash flows are reinvested at the reinvestment rate
+ * @param options - cash flows, one per period, finance rate and reinvestment rate
+ * @returns {number} - rate per period
+ * @example mirr({ cashFlows: [-120000, 39000, 30000, 21000, 37000, 46000], financeRate: 0.1, reinvestRate: 0.12 }) // 0.1261
+ */
+export function mirr(options) {
+    var cashFlows = options.cashFlows;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    return modifiedReturn(options, cashFlows.map(function (cf, i) { return i; }), 'MIRR');
+}
+/**
+ * XNPV - net present value of cash flows on irregular dates
+ * @param options - annual discount rate, cash flows, their dates and the day count convention
+ * @returns {number} - net present value at the first date
+ * @example xnpv({ rate: 0.09, cashFlows: [-10000, 2750, 4250, 3250, 2750], dates }) // 2086.65
+ */
+export function xnpv(options) {
+    var rate = options.rate, cashFlows = options.cashFlows, dates = options.dates, dayCount = options.dayCount;
+    assertRate('rate', rate);
+    assertCashFlows('cashFlows', cashFlows);
+    assertDates('dates', dates, cashFlows.length);
+    return cashFlows.reduce(function (sum, cf, i) { return sum + cf / Math.pow(1 + rate, yearFraction(dates[0], dates[i], dayCount)); }, 0);
+}
+/**
+ * XMIRR - modified internal rate of return of cash flows on irregular dates
+ * @param options - cash flows, their dates, finance rate, reinvestment rate and the day count convention
+ * @returns {number} - annual rate
+ */
+export function xmirr(options) {
+    var cashFlows = options.cashFlows, dates = options.dates, dayCount = options.dayCount;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    assertDates('dates', dates, cashFlows.length);
+    return modifiedReturn(options, dates.map(function (date) { return yearFraction(dates[0], date, dayCount); }), 'XMIRR');
+}
+/**
+ * Profitability index (PI) - the present value of the cash flows after the first over the initial investment
+ * @param options - discount rate or yield curve, cash flows, number backend and rounding
+ * @returns {number} - profitability index
+ * @example profitabilityIndex({ rate: 0.1, cashFlows: [-40000, 18000, 12000, 10000, 9000, 6000] }) // 1.09
+ */
+export function profitabilityIndex(options) {
+    var cashFlows = options.cashFlows, _a = options.rounding, rounding = _a === void 0 ? { mode: 'none' } : _a;
+    var m = options.arithmetic || floatArithmetic;
+    var discount = discounter(m, options.rate);
+    assertCashFlows('cashFlows', cashFlows, 2);
+    if (cashFlows[0] === 0) {
+        throw new ValidationError('cashFlows[0], the initial investment, must not be 0', 'cashFlows[0]');
+    }
+    var presentValues = m.from(0);
+    for (var i = 1; i < cashFlows.length; i++) {
+        presentValues = m.add(presentValues, discount(m.from(cashFlows[i]), i));
+    }
+    return m.toNumber(m.round(m.divide(presentValues, m.from(Math.abs(cashFlows[0]))), rounding));
+}
+/**
+ * Discount factors (DF) - the present value of 1 paid in each period, from period 0
+ * @param options - discount rate or yield curve, and number of factors
+ * @returns {number[]} - one factor per period
+ * @example discountFactors({ rate: 0.1, periods: 3 }) // [1, 0.9091, 0.8264]
+ */
+export function discountFactors(options) {
+    var rate = options.rate, periods = options.periods;
+    if (!(rate instanceof YieldCurve)) {
+        assertRate('rate', rate);
+    }
+    assertInteger('periods', periods, 0);
+    var factors = [];
+    for (var i = 0; i < periods; i++) {
+        factors.push(rate instanceof YieldCurve ? rate.discountFactor(i) : 1 / Math.pow(1 + rate, i));
+    }
+    return factors;
+}
+/**
+ * Payback period (PP) - the number of periods the cash flows take to recover the initial investment
+ * @param options - investment and cash flows, and whether the cash flow after the investment repeats every period
+ * @returns {number | undefined} - payback period, undefined when the investment is never recovered; see payback for the details
+ * @example paybackPeriod({ cashFlows: [-105, 25], even: true }) // 4.2
+ */
+export function paybackPeriod(options) {
+    var cashFlows = options.cashFlows, _a = options.even, even = _a === void 0 ? false : _a;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    if (even) {
+        assertPositive('cashFlows[1]', cashFlows[1]);
+        return Math.abs(cashFlows[0]) / cashFlows[1];
+    }
+    return payback({ cashFlows: cashFlows }).fractionalPeriod;
+}
+/**
+ * Payback - when the cumulative cash flows recover the initial investment, with the cumulative cash flow of every period.
+ * The recovery period is the first whose cumulative cash flow is at least 0, so a later net outflow is not taken into account.
+ * @param options - investment and cash flows, and whether the cash flow after the investment repeats every period
+ * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative cash flows
+ * @example payback({ cashFlows: [-50, 10, 13, 16, 19, 22] }).fractionalPeriod // 3.58
+ */
+export function payback(options) {
+    var cashFlows = options.cashFlows, _a = options.even, even = _a === void 0 ? false : _a;
+    validateInvestment(cashFlows);
+    if (!even) {
+        return recovery(cashFlows);
+    }
+    assertPositive('cashFlows[1]', cashFlows[1]);
+    var periods = Math.ceil(-cashFlows[0] / cashFlows[1]);
+    var result = recovery(__spreadArray([cashFlows[0]], new Array(periods).fill(cashFlows[1]), true));
+    return __assign(__assign({}, result), { fractionalPeriod: -cashFlows[0] / cashFlows[1] });
+}
+/**
+ * Discounted payback - payback of the present values of the cash flows, so the time value of money delays recovery
+ * @param options - discount rate or yield curve, investment and cash flows
+ * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative present values
+ * @example discountedPayback({ rate: 0.1, cashFlows: [-100, 50, 50, 50] }).fractionalPeriod // 2.35
+ */
+export function discountedPayback(options) {
+    var rate = options.rate, cashFlows = options.cashFlows;
+    validateInvestment(cashFlows);
+    var factors = discountFactors({ rate: rate, periods: cashFlows.length });
+    return recovery(cashFlows.map(function (cf, i) { return cf * factors[i]; }));
+}
+/**
+ * Break-even - the units and revenue at which the contribution margin covers the fixed costs
+ * @param options - fixed costs, variable cost per unit and price per unit
+ * @returns {BreakEven} - break-even units and revenue, and the contribution margin per unit and as a fraction of the price
+ * @example breakEven({ fixedCost: 10000, variableCost: 30, price: 50 }).units // 500
+ */
+export function breakEven(options) {
+    var fixedCost = options.fixedCost, variableCost = options.variableCost, price = options.price;
+    assertNonNegative('fixedCost', fixedCost);
+    assertNonNegative('variableCost', variableCost);
+    assertPositive('price', price);
+    var contributionMargin = price - variableCost;
+    if (contributionMargin <= 0) {
+        throw new ValidationError("price must be above variableCost to break even, got ".concat(price, " and ").concat(variableCost), 'price');
+    }
+    var units = fixedCost / contributionMargin;
+    return { units: units, revenue: units * price, contributionMargin: contributionMargin, contributionMarginRatio: contributionMargin / price };
+}
+/**
+ * Sign changes of a series of cash flows, ignoring zeros
+ * @param cashFlows - cash flows
+ * @returns {number} - number of sign changes
+ * @example countSignChanges([-100, 230, 0, -132]) // 2
+ */
+export function countSignChanges(cashFlows) {
+    var changes = 0;
+    var sign = 0;
+    cashFlows.forEach(function (cf) {
+        if (cf !== 0) {
+            var current = cf > 0 ? 1 : -1;
+            if (sign !== 0 && current !== sign) {
+                changes++;
+            }
+            sign = current;
+        }
+    });
+    return changes;
+}
+// present value of an amount paid in a period, at a flat rate or on a yield curve
+function discounter(m, rate) {
+    if (rate instanceof YieldCurve) {
+        return function (amount, period) { return m.multiply(amount, m.from(rate.discountFactor(period))); };
+    }
+    assertRate('rate', rate);
+    var onePlusRate = m.add(m.from(1), m.from(rate));
+    return function (amount, period) { return m.divide(amount, m.pow(onePlusRate, period)); };
+}
+// MIRR over the times of the cash flows in periods or years
+function modifiedReturn(options, times, method) {
+    var cashFlows = options.cashFlows, financeRate = options.financeRate, reinvestRate = options.reinvestRate;
+    assertRate('financeRate', financeRate);
+    assertRate('reinvestRate', reinvestRate);
+    assertSignChange('cashFlows', cashFlows, method);
+    var horizon = Math.max.apply(Math, times);
+    if (horizon <= 0) {
+        throw new ValidationError('dates must span more than one day', 'dates');
+    }
+    var pvNegative = 0;
+    var fvPositive = 0;
+    cashFlows.forEach(function (cf, i) {
+        if (cf < 0) {
+            pvNegative += cf / Math.pow(1 + financeRate, times[i]);
+        }
+        else {
+            fvPositive += cf * Math.pow(1 + reinvestRate, horizon - times[i]);
+        }
+    });
+    return Math.pow(fvPositive / -pvNegative, 1 / horizon) - 1;
+}
+// cumulative cash flows and the period they first reach 0, interpolating within that period
+function recovery(cashFlows) {
+    var cumulative = [];
+    var period;
+    var fractionalPeriod;
+    cashFlows.forEach(function (cf, i) {
+        var previous = i === 0 ? 0 : cumulative[i - 1];
+        cumulative.push(previous + cf);
+        if (period === undefined && i > 0 && cumulative[i] >= 0) {
+            period = i;
+            fractionalPeriod = i - 1 - previous / cf;
+        }
+    });
+    return period === undefined ? { recovered: false, cumulative: cumulative } : { recovered: true, period: period, fractionalPeriod: fractionalPeriod, cumulative: cumulative };
+}
+function validateInvestment(cashFlows) {
+    assertCashFlows('cashFlows', cashFlows, 2);
+    cashFlows.forEach(function (cf, i) { return assertFinite("cashFlows[".concat(i, "]"), cf); });
+    if (cashFlows[0] >= 0) {
+        throw new ValidationError("cashFlows[0], the initial investment, must be negative, got ".concat(cashFlows[0]), 'cashFlows[0]');
+    }
+}
+function validateSingleAmount(rate, amount, periods) {
+    assertRate('rate', rate);
+    assertFinite('amount', amount);
+    assertNonNegative('periods', periods);
+}
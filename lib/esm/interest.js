@@ -0,0 +1,42 @@
+import { floatArithmetic } from './arithmetic';
+import { levelPayment, periodsPerYear } from './schedule';
+import { assertFinite, assertNonNegative, assertPositive, assertRate } from './validation';
+/**
+ * Compound interest (CI) - the principal with interest compounded on the principal and the accumulated interest
+ * @param options - nominal rate, principal, number of periods and compoundings per period
+ * @returns {number} - principal and interest at the end of the last period
+ * @example compoundInterest({ rate: 0.1, principal: 100, periods: 1, compoundings: 12 }) // 110.47
+ */
+export function compoundInterest(options) {
+    var rate = options.rate, principal = options.principal, periods = options.periods, _a = options.compoundings, compoundings = _a === void 0 ? 1 : _a;
+    assertRate('rate', rate);
+    assertFinite('principal', principal);
+    assertNonNegative('periods', periods);
+    assertPositive('compoundings', compoundings);
+    return principal * Math.pow(1 + rate / compoundings, compoundings * periods);
+}
+/**
+ * Rule of 72 - the approximate number of periods an investment takes to double at a rate
+ * @param rate - rate per period as a fraction
+ * @returns {number} - periods to double
+ * @example ruleOf72(0.08) // 9
+ */
+export function ruleOf72(rate) {
+    assertPositive('rate', rate);
+    return 72 / (rate * 100);
+}
+/**
+ * Loan payment - the level payment that repays a loan with interest over its payments
+ * @param options - principal, annual rate, number of payments, frequency, payment timing, number backend and rounding
+ * @returns {number} - payment each period
+ * @example loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60 }) // 400.76
+ */
+export function loanPayment(options) {
+    var principal = options.principal, rate = options.rate, numOfPayments = options.numOfPayments, _a = options.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = options.payAtBeginning, payAtBeginning = _b === void 0 ? false : _b, _c = options.rounding, rounding = _c === void 0 ? { mode: 'none' } : _c;
+    assertFinite('principal', principal);
+    assertRate('rate', rate);
+    assertPositive('numOfPayments', numOfPayments);
+    var m = options.arithmetic || floatArithmetic;
+    var ratePerPeriod = m.divide(m.from(rate), m.from(periodsPerYear(frequency)));
+    return m.toNumber(m.round(levelPayment(m, m.from(principal), ratePerPeriod, numOfPayments, payAtBeginning), rounding));
+}
@@ -0,0 +1,142 @@
+import { floatArithmetic } from './arithmetic';
+import { ValidationError } from './errors';
+import { round } from './rounding';
+import { assertInteger, assertNonNegative, assertPositive, assertRate } from './validation';
+import { addPeriods, amortizationSchedule, levelPayment, periodsPerYear } from './schedule';
+/**
+ * Loan model - the schedule of a loan with prepayments, rate resets, interest-only periods, payment holidays
+ * and balloon payments.
+ *
+ * Events take effect on the first payment date on or after their date, and a rate change on or before the start
+ * date sets the opening rate. The level payment is recalculated over the remaining term whenever the rate changes
+ * or an interest-only period or payment holiday ends, while prepayments keep the payment and shorten the loan.
+ * Interest during a payment holiday is capitalised. The final payment repays the whole balance, even during an
+ * interest-only period or payment holiday.
+ * @param options - principal, annual rate, number of payments, frequency, start date and events
+ * @returns {LoanResult} - schedule, total interest, interest saved and payoff date against the plain loan
+ * @example modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, events: [{ type: 'prepayment', date, amount: 1000 }] })
+ */
+export function modelLoan(options) {
+    var principal = options.principal, numOfPayments = options.numOfPayments, _a = options.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = options.events, events = _b === void 0 ? [] : _b, rounding = options.rounding;
+    assertPositive('principal', principal);
+    assertRate('rate', options.rate / 100);
+    assertInteger('numOfPayments', numOfPayments);
+    var roundAmount = function (value) { return round(value, rounding); };
+    var startDate = options.startDate || new Date();
+    validateEvents(events, principal);
+    var balloon = events.reduce(function (sum, event) { return event.type === 'balloon' ? sum + event.amount : sum; }, 0);
+    var schedule = [];
+    var openingRate = rateOn(events, undefined, startDate);
+    var rate = openingRate === undefined ? options.rate : openingRate;
+    var balance = principal;
+    var payment = 0;
+    var recalculate = true;
+    var cumulativeInterest = 0;
+    var previousDate = startDate;
+    for (var period = 1; period <= numOfPayments && balance > 0; period++) {
+        var date = addPeriods(startDate, frequency, period);
+        var changedRate = rateOn(events, previousDate, date);
+        if (changedRate !== undefined && changedRate !== rate) {
+            rate = changedRate;
+            recalculate = true;
+        }
+        var ratePerPeriod = rate / 100 / periodsPerYear(frequency);
+        var interest = roundAmount(balance * ratePerPeriod);
+        var holiday = isWithin(events, 'paymentHoliday', date);
+        var interestOnly = isWithin(events, 'interestOnly', date);
+        var amount = void 0;
+        if (period === numOfPayments) {
+            amount = roundAmount(balance + interest);
+        }
+        else if (holiday) {
+            amount = 0;
+            recalculate = true;
+        }
+        else if (interestOnly) {
+            amount = interest;
+            recalculate = true;
+        }
+        else {
+            if (recalculate) {
+                var remaining = numOfPayments - period + 1;
+                var residual = balloon / Math.pow(1 + ratePerPeriod, remaining);
+                payment = roundAmount(levelPayment(floatArithmetic, balance - residual, ratePerPeriod, remaining));
+                recalculate = false;
+            }
+            amount = balance + interest < payment ? roundAmount(balance + interest) : payment;
+        }
+        var principalPaid = roundAmount(amount - interest);
+        var prepayment = holiday ? 0 : Math.min(prepaymentOn(events, previousDate, date), roundAmount(balance - principalPaid));
+        var closingBalance = roundAmount(balance - principalPaid - prepayment);
+        cumulativeInterest = roundAmount(cumulativeInterest + interest);
+        schedule.push({
+            period: period,
+            date: date,
+            rate: rate,
+            openingBalance: balance,
+            payment: amount,
+            interest: interest,
+            principal: principalPaid,
+            prepayment: prepayment,
+            closingBalance: closingBalance,
+            cumulativeInterest: cumulativeInterest,
+        });
+        balance = closingBalance;
+        previousDate = date;
+    }
+    var baseline = amortizationSchedule({ principal: principal, rate: options.rate, numOfPayments: numOfPayments, frequency: frequency, startDate: startDate, rounding: rounding });
+    var baselineInterest = baseline[baseline.length - 1].cumulativeInterest;
+    return {
+        schedule: schedule,
+        totalInterest: cumulativeInterest,
+        baselineInterest: baselineInterest,
+        interestSaved: roundAmount(baselineInterest - cumulativeInterest),
+        payoffDate: schedule[schedule.length - 1].date,
+        baselinePayoffDate: baseline[baseline.length - 1].date,
+    };
+}
+// rate of the latest change after from, or at any time before when from is undefined, up to and including to
+function rateOn(events, from, to) {
+    var rate;
+    var latest = -Infinity;
+    events.forEach(function (event) {
+        if (event.type === 'rateChange' && (from === undefined || event.date > from) && event.date <= to && event.date.getTime() >= latest) {
+            rate = event.rate;
+            latest = event.date.getTime();
+        }
+    });
+    return rate;
+}
+function validateEvents(events, principal) {
+    var balloon = 0;
+    events.forEach(function (event, i) {
+        if (event.type === 'rateChange') {
+            assertRate("events[".concat(i, "].rate"), event.rate / 100);
+        }
+        else if (event.type === 'prepayment' || event.type === 'recurringPrepayment' || event.type === 'balloon') {
+            assertNonNegative("events[".concat(i, "].amount"), event.amount);
+        }
+        if (event.type === 'balloon') {
+            balloon += event.amount;
+        }
+    });
+    if (balloon > principal) {
+        throw new ValidationError("balloon payments must not exceed the principal, got ".concat(balloon), 'events');
+    }
+}
+function prepaymentOn(events, from, to) {
+    var amount = 0;
+    events.forEach(function (event) {
+        if (event.type === 'prepayment' && event.date > from && event.date <= to) {
+            amount += event.amount;
+        }
+        if (event.type === 'recurringPrepayment' && event.startDate <= to && (!event.endDate || event.endDate >= to)) {
+            amount += event.amount;
+        }
+    });
+    return amount;
+}
+function isWithin(events, type, date) {
+    return events.some(function (event) { return (event.type === 'interestOnly' || event.type === 'paymentHoliday') && event.type === type
+        && event.startDate <= date && event.endDate >= date; });
+}
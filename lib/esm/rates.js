@@ -0,0 +1,43 @@
+import { ValidationError } from './errors';
+var PER_UNIT = {
+    percent: 100,
+    decimal: 1,
+    bps: 10000,
+};
+/**
+ * Converts a rate to a decimal fraction
+ * @param rate - rate in the given unit
+ * @param unit - unit of the rate
+ * @returns {number} - rate as a fraction
+ * @example toDecimal(250, 'bps') // 0.025
+ */
+export function toDecimal(rate, unit) {
+    return rate / perUnit(unit);
+}
+/**
+ * Converts a decimal fraction to a rate in the given unit
+ * @param rate - rate as a fraction
+ * @param unit - unit of the result
+ * @returns {number} - rate in the given unit
+ * @example fromDecimal(0.025, 'percent') // 2.5
+ */
+export function fromDecimal(rate, unit) {
+    return rate * perUnit(unit);
+}
+/**
+ * Converts a rate between units
+ * @param rate - rate in the source unit
+ * @param from - source unit
+ * @param to - target unit
+ * @returns {number} - rate in the target unit
+ * @example convertRate(5, 'percent', 'bps') // 500
+ */
+export function convertRate(rate, from, to) {
+    return from === to ? rate : fromDecimal(toDecimal(rate, from), to);
+}
+function perUnit(unit) {
+    if (!PER_UNIT[unit]) {
+        throw new ValidationError("Unknown rate unit ".concat(unit), 'rateUnit');
+    }
+    return PER_UNIT[unit];
+}
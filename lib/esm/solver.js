@@ -0,0 +1,152 @@
+import { ConvergenceError } from './errors';
+var DEFAULT_TOLERANCE = 1e-10;
+var DEFAULT_MAX_ITERATIONS = 100;
+/** rates from -99% to 1,000,000% as fractions, searched by IRR and XIRR unless a bracket is given */
+export var RATE_BRACKET = [-0.99, 10000];
+/**
+ * Finds a root of a function, with Brent's method when the bracket contains a sign change and Newton's method
+ * otherwise
+ * @param fn - function to find the zero of
+ * @param options - tolerance, iteration cap, bracket and guess
+ * @param derivative - derivative of fn, approximated numerically when omitted
+ * @returns {number} - root of fn
+ * @example findRoot((x) => x * x - 2, { bracket: [0, 2] }) // 1.4142135623...
+ */
+export function findRoot(fn, options, derivative) {
+    if (options === void 0) { options = {}; }
+    var bracket = options.bracket;
+    if (bracket) {
+        var lower = fn(bracket[0]);
+        var upper = fn(bracket[1]);
+        if ((lower <= 0 && upper >= 0) || (lower >= 0 && upper <= 0)) {
+            return brent(fn, bracket[0], bracket[1], options);
+        }
+    }
+    var guess = options.guess !== undefined ? options.guess : bracket ? (bracket[0] + bracket[1]) / 2 : 0;
+    return newton(fn, guess, options, derivative);
+}
+/**
+ * Brent's method - bracketing root finder combining bisection, secant and inverse quadratic interpolation
+ * @param fn - function to find the zero of
+ * @param lower - lower end of the bracket
+ * @param upper - upper end of the bracket
+ * @param options - tolerance and iteration cap
+ * @returns {number} - root of fn within the bracket
+ * @example brent(Math.cos, 0, 3) // 1.5707963267...
+ */
+export function brent(fn, lower, upper, options) {
+    if (options === void 0) { options = {}; }
+    var tolerance = options.tolerance !== undefined ? options.tolerance : DEFAULT_TOLERANCE;
+    var maxIterations = options.maxIterations !== undefined ? options.maxIterations : DEFAULT_MAX_ITERATIONS;
+    var a = lower;
+    var b = upper;
+    var fa = fn(a);
+    var fb = fn(b);
+    if (fa === 0) {
+        return a;
+    }
+    if (fb === 0) {
+        return b;
+    }
+    if ((fa > 0) === (fb > 0)) {
+        throw new ConvergenceError('Root is not bracketed', 0, Math.min(Math.abs(fa), Math.abs(fb)));
+    }
+    var c = b;
+    var fc = fb;
+    var d = b - a;
+    var e = d;
+    for (var iteration = 1; iteration <= maxIterations; iteration++) {
+        if ((fb > 0) === (fc > 0)) {
+            c = a;
+            fc = fa;
+            d = b - a;
+            e = d;
+        }
+        if (Math.abs(fc) < Math.abs(fb)) {
+            a = b;
+            b = c;
+            c = a;
+            fa = fb;
+            fb = fc;
+            fc = fa;
+        }
+        var tol = 2 * Number.EPSILON * Math.abs(b) + 0.5 * tolerance;
+        var middle = 0.5 * (c - b);
+        if (Math.abs(middle) <= tol || fb === 0) {
+            return b;
+        }
+        // interpolate only while the function values are finite, bisect otherwise
+        if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb) && isFinite(fa) && isFinite(fc)) {
+            var s = fb / fa;
+            var p = void 0;
+            var q = void 0;
+            if (a === c) {
+                p = 2 * middle * s;
+                q = 1 - s;
+            }
+            else {
+                var r = fb / fc;
+                q = fa / fc;
+                p = s * (2 * middle * q * (q - r) - (b - a) * (r - 1));
+                q = (q - 1) * (r - 1) * (s - 1);
+            }
+            if (p > 0) {
+                q = -q;
+            }
+            p = Math.abs(p);
+            if (2 * p < Math.min(3 * middle * q - Math.abs(tol * q), Math.abs(e * q))) {
+                e = d;
+                d = p / q;
+            }
+            else {
+                d = middle;
+                e = d;
+            }
+        }
+        else {
+            d = middle;
+            e = d;
+        }
+        a = b;
+        fa = fb;
+        b += Math.abs(d) > tol ? d : middle > 0 ? tol : -tol;
+        fb = fn(b);
+    }
+    throw new ConvergenceError("Brent's method did not converge in ".concat(maxIterations, " iterations"), maxIterations, fb);
+}
+/**
+ * Newton's method - open root finder following the tangent from a starting guess
+ * @param fn - function to find the zero of
+ * @param guess - starting point
+ * @param options - tolerance and iteration cap
+ * @param derivative - derivative of fn, approximated with central differences when omitted
+ * @returns {number} - root of fn
+ * @example newton((x) => x * x - 2, 1) // 1.4142135623...
+ */
+export function newton(fn, guess, options, derivative) {
+    if (options === void 0) { options = {}; }
+    var tolerance = options.tolerance !== undefined ? options.tolerance : DEFAULT_TOLERANCE;
+    var maxIterations = options.maxIterations !== undefined ? options.maxIterations : DEFAULT_MAX_ITERATIONS;
+    var slope = derivative || (function (point) {
+        var h = 1e-6 * Math.max(1, Math.abs(point));
+        return (fn(point + h) - fn(point - h)) / (2 * h);
+    });
+    var x = guess;
+    var fx = fn(x);
+    for (var iteration = 1; iteration <= maxIterations; iteration++) {
+        if (fx === 0) {
+            return x;
+        }
+        var next = x - fx / slope(x);
+        if (!isFinite(next)) {
+            throw new ConvergenceError("Newton's method stalled after ".concat(iteration, " iterations"), iteration, fx);
+        }
+        var step = Math.abs(next - x);
+        x = next;
+        fx = fn(x);
+        if (step <= tolerance) {
+            return x;
+        }
+    }
+    throw new ConvergenceError("Newton's method did not converge in ".concat(maxIterations, " iterations"), maxIterations, fx);
+}
@@ -0,0 +1,105 @@
+import { CashFlowError, ValidationError } from './errors';
+/**
+ * Checks that a value is a finite number
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export function assertFinite(name, value) {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        throw new ValidationError("".concat(name, " must be a finite number, got ").concat(value), name);
+    }
+}
+/**
+ * Checks that a value is a finite number greater than zero
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export function assertPositive(name, value) {
+    assertFinite(name, value);
+    if (value <= 0) {
+        throw new ValidationError("".concat(name, " must be greater than 0, got ").concat(value), name);
+    }
+}
+/**
+ * Checks that a value is a finite number not below zero
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export function assertNonNegative(name, value) {
+    assertFinite(name, value);
+    if (value < 0) {
+        throw new ValidationError("".concat(name, " must not be negative, got ").concat(value), name);
+    }
+}
+/**
+ * Checks that a value is a whole number of at least the given minimum
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ * @param min - smallest allowed value, defaults to 1
+ */
+export function assertInteger(name, value, min) {
+    if (min === void 0) { min = 1; }
+    assertFinite(name, value);
+    if (value !== Math.floor(value) || value < min) {
+        throw new ValidationError("".concat(name, " must be a whole number of at least ").concat(min, ", got ").concat(value), name);
+    }
+}
+/**
+ * Checks that a rate as a fraction is finite and above -100%
+ * @param name - argument name reported in the error
+ * @param rate - rate as a fraction
+ */
+export function assertRate(name, rate) {
+    assertFinite(name, rate);
+    if (rate <= -1) {
+        throw new ValidationError("".concat(name, " must be above -100%, got ").concat(rate * 100, "%"), name);
+    }
+}
+/**
+ * Checks that cash flows are a non-empty list of finite numbers
+ * @param name - argument name reported in the error
+ * @param cashFlows - cash flows to check
+ * @param minLength - smallest allowed number of cash flows, defaults to 1
+ */
+export function assertCashFlows(name, cashFlows, minLength) {
+    if (minLength === void 0) { minLength = 1; }
+    if (!Array.isArray(cashFlows) || cashFlows.length < minLength) {
+        throw new ValidationError("".concat(name, " must contain at least ").concat(minLength, " cash flow").concat(minLength === 1 ? '' : 's'), name);
+    }
+    cashFlows.forEach(function (cf, i) { return assertFinite("".concat(name, "[").concat(i, "]"), cf); });
+}
+/**
+ * Checks that cash flows contain at least one positive and one negative value, as rates of return require
+ * @param name - argument name reported in the error
+ * @param cashFlows - cash flows to check
+ * @param method - method name used in the message
+ */
+export function assertSignChange(name, cashFlows, method) {
+    var positive = cashFlows.some(function (cf) { return cf > 0; });
+    var negative = cashFlows.some(function (cf) { return cf < 0; });
+    if (!positive || !negative) {
+        throw new CashFlowError("".concat(method, " requires at least one positive value and one negative value"), name);
+    }
+}
+/**
+ * Checks that dates are valid and match the cash flows one to one
+ * @param name - argument name reported in the error
+ * @param dates - dates to check
+ * @param count - expected number of dates
+ */
+export function assertDates(name, dates, count) {
+    if (!Array.isArray(dates) || dates.length !== count) {
+        throw new ValidationError('Number of cash flows and dates should match', name);
+    }
+    dates.forEach(function (date, i) { return assertDate("".concat(name, "[").concat(i, "]"), date); });
+}
+/**
+ * Checks that a value is a valid date
+ * @param name - argument name reported in the error
+ * @param date - value to check
+ */
+export function assertDate(name, date) {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+        throw new ValidationError("".concat(name, " must be a valid date"), name);
+    }
+}
@@ -1,13 +1,62 @@
+import { Arithmetic } from './arithmetic';
+import { Bond, BondAnalytics, CallSchedule } from './bond';
+import { BreakEven, IRRScanOptions, MultipleIRR, PaybackResult } from './budgeting';
+import { YieldCurve } from './curve';
+import { DayCount } from './daycount';
+import { DepreciationOptions, DepreciationRow, MacrsClass } from './depreciation';
+import { Affordability, AffordabilityOptions, Compounding, LoanComparison, LoanOffer, RefinanceOptions, RefinanceResult } from './lending';
+import { LoanOptions, LoanResult } from './loan';
+import { RateUnit } from './rates';
+import { BinomialOptions, OptionContract, OptionValuation } from './options';
+import { ExternalFlow, Valuation } from './performance';
+import { FinancialStatements, Growth, GrowthMetric, RatioAnalysis, RatioOptions } from './ratios';
+import { RoundingPolicy } from './rounding';
+import { ScheduleOptions, ScheduleRow } from './schedule';
+import { DataTable, DataTableOptions, SimulationOptions, SimulationResult, TornadoOptions, TornadoResult } from './simulation';
+import { SolverOptions } from './solver';
+import { PaymentTiming, XIRROptions } from './tvm';
+import { DcfOptions, DcfResult, DividendDiscountOptions, HModelOptions, ThreeStageOptions } from './valuation';
+export { Arithmetic, floatArithmetic } from './arithmetic';
+export { AllIrrOptions, allIrr, BreakEven, breakEven, BreakEvenOptions, countSignChanges, discountedPayback, DiscountedPaybackOptions, discountFactors, DiscountFactorOptions, futureValue, FutureValueOptions, IrrOptions, IRRScanOptions, irr, mirr, MirrOptions, MultipleIRR, npv, NpvOptions, payback, PaybackOptions, paybackPeriod, PaybackResult, presentValue, PresentValueOptions, profitabilityIndex, XmirrOptions, xmirr, xnpv, XnpvOptions, } from './budgeting';
+export { accruedInterest, Bond, BondAnalytics, bondAnalytics, CallSchedule, cleanPrice, convexity, CouponFrequency, dirtyPrice, dv01, macaulayDuration, modifiedDuration, yieldToCall, yieldToMaturity, } from './bond';
+export { CurveOptions, CurvePoint, Interpolation, YieldCurve } from './curve';
+export { DayCount } from './daycount';
+export { db, ddb, DepreciationMethod, DepreciationOptions, DepreciationRow, depreciationSchedule, MacrsClass, macrs, sln, syd, vdb } from './depreciation';
+export { Decimal, decimalArithmetic, DECIMAL_PLACES } from './decimal';
+export { CashFlowError, ConvergenceError, CurrencyMismatchError, FinanceError, FinanceErrorCode, ValidationError, } from './errors';
+export { compoundInterest, CompoundInterestOptions, loanPayment, LoanPaymentOptions, ruleOf72 } from './interest';
+export { Affordability, affordability, AffordabilityOptions, apr, AprOptions, AprResult, apy, ApyOptions, compareLoans, Compounding, CompoundingOptions, convertCompounding, LoanComparison, LoanComparisonOptions, LoanCost, LoanOffer, LoanTerms, refinanceBreakEven, RefinanceOptions, RefinanceResult, } from './lending';
+export { Money, moneyNPV } from './money';
+export { BinomialOptions, binomialPrice, blackScholes, ExerciseStyle, Greeks, impliedVolatility, OptionContract, OptionType, OptionValuation, } from './options';
+export { alpha, annualizeReturn, beta, cagr, CagrOptions, Drawdown, ExternalFlow, maxDrawdown, measurePerformance, modifiedDietz, moneyWeightedReturn, PerformanceResult, periodReturns, RealReturnOptions, realReturn, roi, RoiOptions, sharpeRatio, sortinoRatio, timeWeightedReturn, Valuation, volatility, } from './performance';
+export { analyzeRatios, BalanceSheet, CashFlowStatement, CoverageRatios, DebtToIncomeInputs, debtToIncome, DuPont, EfficiencyRatios, FinancialStatements, Growth, GrowthMetric, IncomeStatement, LeverageInputs, leverageRatio, LeverageRatios, LiquidityRatios, ProfitabilityRatios, Ratio, RatioAnalysis, RatioFlag, RatioOptions, statementGrowth, } from './ratios';
+export { convertRate, fromDecimal, RateUnit, toDecimal } from './rates';
+export { RoundingMode, RoundingPolicy } from './rounding';
+export { Frequency, ScheduleOptions, ScheduleRow } from './schedule';
+export { CashFlowModel, Correlation, DataTable, dataTable, DataTableOptions, Distribution, LognormalDistribution, Metric, MetricSummary, ModelInputs, NormalDistribution, seededRandom, SensitivityRange, simulate, SimulationOptions, SimulationResult, TableAxis, tornado, TornadoBar, TornadoOptions, TornadoResult, TriangularDistribution, UniformDistribution, } from './simulation';
+export { SolverOptions } from './solver';
+export { normalCdf, normalPdf, percentile } from './statistics';
+export { cumipmt, cumprinc, effect, fv, ipmt, nominal, nper, PaymentTiming, pmt, ppmt, pv, rate, xirr, XIRROptions } from './tvm';
+export { CapmInputs, capm, CashFlowBasis, DcfOptions, DcfResult, discountedCashFlow, DiscountRate, discountRate, DividendDiscountOptions, ExitMultiple, gordonGrowth, hModel, HModelOptions, PerpetualGrowth, TerminalValueMethod, threeStageDDM, ThreeStageOptions, twoStageDDM, ValueBridge, wacc, WaccInputs, } from './valuation';
+export { Balloon, InterestOnly, LoanEvent, LoanOptions, LoanResult, LoanRow, PaymentHoliday, Prepayment, RateChange, RecurringPrepayment, } from './loan';
 export interface IFinance {
+    withRounding(rounding: RoundingPolicy): IFinance;
     PV(rate: number, cf1: number, numOfPeriod: number): number;
     FV(rate: number, cf0: number, numOfPeriod: number): number;
-    NPV(rate: number, ...cf: number[]): number;
-    IRR(cfs: CashFlow): number;
+    NPV(rate: number | YieldCurve, ...cf: number[]): number;
+    IRR(cfs: CashFlow, options?: SolverOptions): number;
+    allIRR(cashFlow: number[], options?: IRRScanOptions): MultipleIRR;
+    MIRR(cashFlow: number[], financeRate: number, reinvestRate: number): number;
     PP(numOfPeriods: number, ...cfs: number[]): number | undefined;
+    payback(cashFlows: number[], even?: boolean): PaybackResult;
+    discountedPayback(rate: number | YieldCurve, cashFlows: number[]): PaybackResult;
+    breakEven(fixedCost: number, variableCost: number, price: number): BreakEven;
     ROI(cf0: number, earnings: number): number;
     AM(principal: number, rate: number, period: number, yearOrMonth?: number, payAtBeginning?: boolean): number;
-    PI(rate: number, cfs: number[]): number;
-    DF(rate: number, numOfPeriods: number): number[];
+    amortizationSchedule(options: ScheduleOptions): ScheduleRow[];
+    modelLoan(options: LoanOptions): LoanResult;
+    PI(rate: number | YieldCurve, cfs: number[]): number;
+    DF(rate: number | YieldCurve, numOfPeriods: number): number[];
     CI(rate: number, numOfCompoundings: number, principal: number, numOfPeriods: number): number;
     CAGR(beginningValue: number, endingValue: number, numOfPeriods: number): number;
     LR(totalLiabilities: number, totalDebts: number, totalIncome: number): number;
@@ -15,15 +64,83 @@ export interface IFinance {
     WACC(marketValueOfEquity: number, marketValueOfDebt: number, costOfEquity: number, costOfDebt: number, taxRate: number): number;
     PMT(rate: number, numOfPayments: number, principal: number): number;
     IAR(investmentReturn: number, inflationRate: number): number;
-    XIRR(cfs: number[], dts: Date[], guess: number): number;
+    APR(principal: number, rate: number, numOfPayments: number, fees?: number): number;
+    APY(rate: number, compoundings: Compounding): number;
+    convertCompounding(rate: number, from: Compounding, to: Compounding): number;
+    compareLoans(offers: LoanOffer[], discountRate: number): LoanComparison;
+    refinanceBreakEven(options: RefinanceOptions): RefinanceResult;
+    affordability(options: AffordabilityOptions): Affordability;
+    DTI(monthlyDebtPayments: number, monthlyIncome: number): number;
+    analyzeRatios(statements: FinancialStatements, options?: RatioOptions): RatioAnalysis;
+    statementGrowth(statements: FinancialStatements[]): Record<GrowthMetric, Growth>;
+    XNPV(rate: number, cfs: number[], dts: Date[], dayCount?: DayCount): number;
+    XIRR(cfs: number[], dts: Date[], guess?: number, options?: XIRROptions): number;
+    XMIRR(cfs: number[], dts: Date[], financeRate: number, reinvestRate: number, dayCount?: DayCount): number;
+    TWR(valuations: Valuation[], flows?: ExternalFlow[], dayCount?: DayCount): number;
+    MWR(valuations: Valuation[], flows?: ExternalFlow[], options?: XIRROptions): number;
     CAPM(rf: number, beta: number, emr: number, err: number): number;
     stockPV(g: number, ke: number, D0: number): number;
+    twoStageDDM(options: DividendDiscountOptions): number;
+    threeStageDDM(options: ThreeStageOptions): number;
+    hModel(options: HModelOptions): number;
+    DCF(options: DcfOptions): DcfResult;
+    RATE(numOfPeriods: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming, guess?: number): number;
+    NPER(ratePerPeriod: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+    IPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+    PPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+    CUMIPMT(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number;
+    CUMPRINC(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number;
+    EFFECT(nominalRate: number, npery: number): number;
+    NOMINAL(effectRate: number, npery: number): number;
+    SLN(cost: number, salvage: number, life: number): number;
+    SYD(cost: number, salvage: number, life: number, period: number): number;
+    DB(cost: number, salvage: number, life: number, period: number, month?: number): number;
+    DDB(cost: number, salvage: number, life: number, period: number, factor?: number): number;
+    VDB(cost: number, salvage: number, life: number, startPeriod: number, endPeriod: number, factor?: number, noSwitch?: boolean): number;
+    MACRS(cost: number, recoveryPeriod: MacrsClass, year: number): number;
+    depreciationSchedule(options: DepreciationOptions): DepreciationRow[];
+    bondAnalytics(bond: Bond, yieldRate: number): BondAnalytics;
+    YTM(bond: Bond, price: number, options?: SolverOptions): number;
+    YTC(bond: Bond, price: number, call: CallSchedule, options?: SolverOptions): number;
+    blackScholes(contract: OptionContract): OptionValuation;
+    impliedVolatility(contract: Omit<OptionContract, 'volatility'>, price: number, options?: SolverOptions): number;
+    binomialPrice(contract: OptionContract, options?: BinomialOptions): number;
+    simulate(options: SimulationOptions): SimulationResult;
+    tornado(options: TornadoOptions): TornadoResult;
+    dataTable(options: DataTableOptions): DataTable;
+}
+export interface FinanceOptions {
+    /**
+     * rounding applied to the result of every method. Without a policy each method keeps its historical
+     * rounding, mostly 2 decimal places.
+     */
+    rounding?: RoundingPolicy;
+    /**
+     * number backend NPV, PI, AM, PMT and amortization schedules run on, e.g. decimalArithmetic for exact decimal
+     * arithmetic. Defaults to IEEE doubles.
+     */
+    arithmetic?: Arithmetic<unknown>;
+    /**
+     * unit of every rate and return taken or returned, including solver guesses and brackets. Without a unit each
+     * method keeps its historical units: percent for most rates, decimals for IAR's inputs, XIRR's guess and solver
+     * options, the spreadsheet functions (RATE to NOMINAL) and a decimal result from CAPM.
+     */
+    rateUnit?: RateUnit;
 }
 export interface CashFlow {
     depth: number;
     cashFlow: number[];
 }
 export default class Finance implements IFinance {
+    private readonly options;
+    constructor(options?: FinanceOptions);
+    /**
+     * Returns a copy of the calculator that rounds with the given policy, to override the rounding for a call
+     * @param rounding - decimal places and rounding mode
+     * @returns {Finance} - calculator using the policy
+     * @example withRounding({ mode: 'none' }).PV(10, 100) // 90.9090909090909
+     */
+    withRounding(rounding: RoundingPolicy): Finance;
     /**
      * Present Value (PV) - the value of a cash flow at the beginning of the period ( Calculates the present value of a cash flow)
      * @param rate - interest rate
@@ -44,27 +161,73 @@ export default class Finance implements IFinance {
     FV(rate: number, cf0: number, numOfPeriod?: number): number;
     /**
      *  Net Present Value (NPV) - the sum of the present values of a series of cash flows
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param cf - cash flows
      * @returns {number} - net present value
      * @example NPV(10, 100, 100, 100) // 259.37
      */
-    NPV(rate: number, ...cf: number[]): number;
+    NPV(rate: number | YieldCurve, ...cf: number[]): number;
     /**
      * Internal Rate of Return (IRR) - the discount rate that makes the net present value of a series of cash flows equal to zero
      * Calculates the internal rate of return of a cash flow
-     * @param cfs - cash flows
+     * @param cfs - cash flows, depth caps the number of solver iterations
+     * @param options - solver tolerance, iteration cap, bracket and guess (rates as fractions unless a rate unit is set)
      * @returns {number} - internal rate of return
      * @example IRR(100, -100, 100) // 50
      */
-    IRR(cfs: CashFlow): number;
+    IRR(cfs: CashFlow, options?: SolverOptions): number;
+    /**
+     * All IRRs - every rate in a range that makes the net present value zero, for non-conventional cash flows
+     * whose sign changes more than once
+     * @param cashFlow - cash flows
+     * @param options - range of rates (fractions), scan steps and solver tolerance
+     * @returns {MultipleIRR} - IRRs (percent unless a rate unit is set), the sign change count and a multiple roots warning
+     * @example allIRR([-100, 230, -132]) // { rates: [10, 20], signChanges: 2, multipleRoots: true }
+     */
+    allIRR(cashFlow: number[], options?: IRRScanOptions): MultipleIRR;
+    /**
+     * Modified Internal Rate of Return (MIRR) - the return when negative cash flows are financed at the finance rate
+     * and positive cash flows are reinvested at the reinvestment rate
+     * @param cashFlow - cash flows, one per period
+     * @param financeRate - interest rate paid on the money used in the cash flows
+     * @param reinvestRate - interest rate received on the cash flows as they are reinvested
+     * @returns {number} - modified internal rate of return
+     * @example MIRR([-120000, 39000, 30000, 21000, 37000, 46000], 10, 12) // 12.61
+     */
+    MIRR(cashFlow: number[], financeRate: number, reinvestRate: number): number;
     /**
      * Payback Period (PP) - the number of years required to recover the initial investment
-     * @param numOfPeriods - number of periods
+     * @param numOfPeriods - number of periods, 0 when cfs[1] is received every period
      * @param cfs - cash flows
-     * @returns {number} - payback period
+     * @returns {number | undefined} - payback period, undefined when the investment is never recovered; see payback for the details
+     * @example PP(5, -50, 10, 13, 16, 19, 22) // 3.58
      */
     PP(numOfPeriods: number, ...cfs: number[]): number | undefined;
+    /**
+     * Payback - when the cumulative cash flows recover the initial investment, with the cumulative cash flow of every period
+     * @param cashFlows - initial investment, negative, then the cash flows recovering it
+     * @param even - true when cashFlows[1] is received every period, defaults to false
+     * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative cash flows
+     * @example payback([-50, 10, 13, 16, 19, 22]).fractionalPeriod // 3.58
+     */
+    payback(cashFlows: number[], even?: boolean): PaybackResult;
+    /**
+     * Discounted payback - when the cumulative present values of the cash flows recover the initial investment
+     * @param rate - discount rate, or a yield curve discounting period i at time i years
+     * @param cashFlows - initial investment, negative, then the cash flows recovering it
+     * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative present values
+     * @example discountedPayback(10, [-100, 50, 50, 50]).fractionalPeriod // 2.35
+     */
+    discountedPayback(rate: number | YieldCurve, cashFlows: number[]): PaybackResult;
+    /**
+     * Break-even - the units and revenue at which the contribution margin covers the fixed costs
+     * @param fixedCost - fixed costs of the period
+     * @param variableCost - variable cost per unit
+     * @param price - price per unit
+     * @returns {BreakEven} - break-even units and revenue, and the contribution margin per unit and as a percentage of the price
+     * @example breakEven(10000, 30, 50) // { units: 500, revenue: 25000, contributionMargin: 20, contributionMarginRatio: 40 }
+     */
+    breakEven(fixedCost: number, variableCost: number, price: number): BreakEven;
     /**
      * Return on Investment (ROI) - the percentage return on an investment
      * @param cf0 - cash flow at the beginning of the period
@@ -76,29 +239,45 @@ export default class Finance implements IFinance {
     /**
      * Amortization - the process of paying off a debt (loan) over a period of time through regular payments
      * @param principal - principal amount
-     * @param rate - interest rate
-     * @param period - number of periods
-     * @param yearOrMonth - 1 - year, 0 - month
+     * @param rate - annual interest rate, compounded monthly
+     * @param period - loan term
+     * @param yearOrMonth - 0 - term in years, 1 - term in months. Payments are monthly either way
      * @param payAtBeginning - true - pay at the beginning of the period, false - pay at the end of the period
-     * @returns {number} - amortization
+     * @returns {number} - monthly payment
      * @example AM(100, 10, 1, 1, true) // 8.33 (yearly, pay at the beginning of the period)
      */
     AM(principal: number, rate: number, period: number, yearOrMonth?: number, payAtBeginning?: boolean): number;
+    /**
+     * Amortization Schedule - every payment of a loan split into interest and principal, with the final payment
+     * adjusted so the schedule ends at exactly zero
+     * @param options - principal, annual rate, number of payments, frequency, start date, payAtBeginning
+     * @returns {ScheduleRow[]} - date, opening balance, payment, interest, principal, closing balance and cumulative interest of each period
+     * @example amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60 })[0].payment // 400.76
+     */
+    amortizationSchedule(options: ScheduleOptions): ScheduleRow[];
+    /**
+     * Loan Model - the schedule of a loan with one-off and recurring prepayments, rate changes, interest-only periods,
+     * payment holidays and balloon payments
+     * @param options - principal, annual rate, number of payments, frequency, start date and events
+     * @returns {LoanResult} - updated schedule, total interest, interest saved and the new payoff date
+     * @example modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, events: [{ type: 'recurringPrepayment', startDate, amount: 100 }] })
+     */
+    modelLoan(options: LoanOptions): LoanResult;
     /**
      * Profitability Index (PI) - the ratio of the present value of cash inflows to the present value of cash outflows
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param cfs - cash flows
      * @returns {number} - profitability index
      * @example PI(10, 100, -100, 100) // 1.5 (yearly)
      */
-    PI(rate: number, cfs: number[]): number;
+    PI(rate: number | YieldCurve, cfs: number[]): number;
     /**
      * Discount Factor (DF) - the present value of a future cash flow
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param numOfPeriods - number of periods
      * @returns {number[]} - discount factors
      */
-    DF(rate: number, numOfPeriods: number): number[];
+    DF(rate: number | YieldCurve, numOfPeriods: number): number[];
     /**
      * Compound Interest (CI) - the interest that is calculated on the principal and accumulated interest
      * @param rate - interest rate
@@ -119,7 +298,8 @@ export default class Finance implements IFinance {
      */
     CAGR(beginningValue: number, endingValue: number, numOfPeriods: number): number;
     /**
-     * Leverage Ratio (LR) - the ratio of total liabilities and total debts to total income
+     * Leverage Ratio (LR) - the ratio of total liabilities and total debts to total income. Not a standard leverage
+     * ratio; analyzeRatios has debt-to-equity, debt-to-assets and the equity multiplier.
      * @param totalLiabilities - total liabilities
      * @param totalDebts - total debts
      * @param totalIncome - total income
@@ -146,7 +326,7 @@ export default class Finance implements IFinance {
     WACC(marketValueOfEquity: number, marketValueOfDebt: number, costOfEquity: number, costOfDebt: number, taxRate: number): number;
     /**
      * Loan Payment calculation - calculates the monthly payment for a loan
-     * @param rate - interest rate
+     * @param rate - annual interest rate, compounded monthly
      * @param numOfPayments - number of payments
      * @param principal - principal amount
      * @returns {number} - loan payment
@@ -155,28 +335,146 @@ export default class Finance implements IFinance {
     PMT(rate: number, numOfPayments: number, principal: number): number;
     /**
      * IAR calculates the Inflation-adjusted return - the return on an investment after adjusting for inflation
-     * @param investmentReturn - investment return
-     * @param inflationRate - inflation rate
-     * @returns {number} - inflation-adjusted return
-     * @example IAR(10, 10) // 0
+     * @param investmentReturn - investment return, as a decimal unless a rate unit is set
+     * @param inflationRate - inflation rate, as a decimal unless a rate unit is set
+     * @returns {number} - inflation-adjusted return in percent
+     * @example IAR(0.1, 0.1) // 0
      */
     IAR(investmentReturn: number, inflationRate: number): number;
+    /**
+     * Annual Percentage Rate (APR) - the yearly cost of a loan with monthly payments, including its upfront fees
+     * @param principal - principal amount
+     * @param rate - annual interest rate, compounded monthly
+     * @param numOfPayments - number of monthly payments
+     * @param fees - finance charges paid upfront, e.g. origination fees and points
+     * @returns {number} - annual percentage rate
+     * @example APR(200000, 6, 360, 4000) // 6.19
+     */
+    APR(principal: number, rate: number, numOfPayments: number, fees?: number): number;
+    /**
+     * Annual Percentage Yield (APY) - the effective annual rate of a nominal rate with its compounding
+     * @param rate - annual nominal rate
+     * @param compoundings - compoundings per year, or 'continuous'
+     * @returns {number} - annual percentage yield
+     * @example APY(5, 12) // 5.12
+     */
+    APY(rate: number, compoundings: Compounding): number;
+    /**
+     * Converts a nominal rate between compoundings, keeping the growth over a year the same
+     * @param rate - annual nominal rate
+     * @param from - compoundings per year of the rate, or 'continuous'
+     * @param to - compoundings per year of the result, or 'continuous'
+     * @returns {number} - annual nominal rate at the target compounding
+     * @example convertCompounding(5, 12, 'continuous') // 4.98961...
+     */
+    convertCompounding(rate: number, from: Compounding, to: Compounding): number;
+    /**
+     * Loan comparison - the total cost and the present value of cost of loan offers, and which is cheapest by each
+     * @param offers - principal, annual rate, number of payments, frequency and fees of each offer
+     * @param discountRate - annual rate the payments are discounted at
+     * @returns {LoanComparison} - cost of each offer and the indexes of the cheapest
+     * @example compareLoans([{ principal: 10000, rate: 6, numOfPayments: 36 }, { principal: 10000, rate: 5, numOfPayments: 36, fees: 300 }], 4).lowestNpv // 0
+     */
+    compareLoans(offers: LoanOffer[], discountRate: number): LoanComparison;
+    /**
+     * Refinance break-even - the month the payments saved by refinancing a loan first cover the closing costs
+     * @param options - balance, annual rate and remaining monthly payments of the current loan, annual rate and payments of the
+     * new loan, and closing costs
+     * @returns {RefinanceResult} - both payments, the monthly savings, the break-even month and the net savings
+     * @example refinanceBreakEven({ balance: 200000, currentRate: 7, remainingPayments: 300, newRate: 5.5, closingCosts: 4000 }).breakEvenMonth // 22
+     */
+    refinanceBreakEven(options: RefinanceOptions): RefinanceResult;
+    /**
+     * Affordability - the largest loan whose monthly payment keeps debt payments within a target share of income
+     * @param options - gross monthly income, target debt-to-income ratio, other monthly debt payments, and the annual rate and
+     * monthly payments of the loan
+     * @returns {Affordability} - highest monthly payment and the principal it repays
+     * @example affordability({ monthlyIncome: 8000, targetDti: 36, otherDebtPayments: 500, rate: 6, numOfPayments: 360 }).maxPrincipal // 396964.04
+     */
+    affordability(options: AffordabilityOptions): Affordability;
+    /**
+     * Debt-to-Income ratio (DTI) - monthly debt payments as a percentage of gross monthly income
+     * @param monthlyDebtPayments - monthly payments on all debts
+     * @param monthlyIncome - gross monthly income
+     * @returns {number} - debt-to-income ratio
+     * @example DTI(2000, 8000) // 25
+     */
+    DTI(monthlyDebtPayments: number, monthlyIncome: number): number;
+    /**
+     * Ratio analysis - liquidity, leverage, coverage, efficiency and profitability ratios of a period's financial
+     * statements, with the DuPont decomposition of return on equity
+     * @param statements - income statement, closing balance sheet, cash flow statement and opening balance sheet
+     * @param options - days in the period
+     * @returns {RatioAnalysis} - margins and returns in percent, other ratios as multiples or days, flagged when a
+     * statement field is missing or a denominator is 0
+     * @example analyzeRatios({ income: { revenue: 1000, netIncome: 100 }, balance: { shareholdersEquity: 500 } }).profitability.returnOnEquity // { value: 20 }
+     */
+    analyzeRatios(statements: FinancialStatements, options?: RatioOptions): RatioAnalysis;
+    /**
+     * Statement growth - growth of revenue, income, assets, equity and operating cash flow from each period to the
+     * next, and compounded from the first period to the last
+     * @param statements - financial statements of consecutive periods, oldest first
+     * @returns {Record<GrowthMetric, Growth>} - period-over-period growth and CAGR of each metric in percent
+     * @example statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]).revenue.cagr // { value: 21 }
+     */
+    statementGrowth(statements: FinancialStatements[]): Record<GrowthMetric, Growth>;
+    /**
+     * XNPV - NPV for irregular intervals
+     * @param rate - interest rate
+     * @param cfs - cash flows
+     * @param dts - dates, discounted back to the first date
+     * @param dayCount - day count convention for the year fractions, defaults to ACT/365F
+     * @returns {number} - net present value of cash flows that occur at irregular intervals
+     * @example XNPV(9, [-10000, 2750, 4250, 3250, 2750], dates) // 2086.65
+     */
+    XNPV(rate: number, cfs: number[], dts: Date[], dayCount?: DayCount): number;
     /**
      * XIRR - IRR for irregular intervals
      * @param cfs - cash flows
      * @param dts - dates
-     * @param guess - guess for XIRR
+     * @param guess - guess for XIRR, used as the starting point when the rate can't be bracketed
+     * @param options - solver tolerance, iteration cap and bracket, and day count convention. The guess and bracket
+     * are fractions unless a rate unit is set
      * @returns {number} - The internal rate of return (IRR) for a series of cash flows that occur at irregular intervals.
      */
-    XIRR(cfs: number[], dts: Date[], guess?: number): number;
+    XIRR(cfs: number[], dts: Date[], guess?: number, options?: XIRROptions): number;
+    /**
+     * XMIRR - MIRR for irregular intervals
+     * @param cfs - cash flows
+     * @param dts - dates
+     * @param financeRate - interest rate paid on the money used in the cash flows
+     * @param reinvestRate - interest rate received on the cash flows as they are reinvested
+     * @param dayCount - day count convention for the year fractions, defaults to ACT/365F
+     * @returns {number} - The modified internal rate of return for cash flows that occur at irregular intervals.
+     */
+    XMIRR(cfs: number[], dts: Date[], financeRate: number, reinvestRate: number, dayCount?: DayCount): number;
+    /**
+     * Time-weighted return (TWR) - returns between valuations linked geometrically, unaffected by the timing of
+     * external flows. Valuing the portfolio on each flow date gives the true daily-linked return.
+     * @param valuations - dates and values at the end of the day, in date order
+     * @param flows - money added to or withdrawn from the portfolio after the first valuation
+     * @param dayCount - day count convention weighting flows between valuations, defaults to ACT/365F
+     * @returns {number} - return over the whole period
+     * @example TWR([{ date: jan1, value: 1000 }, { date: jun30, value: 1100 }, { date: dec31, value: 1320 }]) // 32
+     */
+    TWR(valuations: Valuation[], flows?: ExternalFlow[], dayCount?: DayCount): number;
+    /**
+     * Money-weighted return (MWR) - XIRR of the first valuation and the flows against the last valuation
+     * @param valuations - dates and values at the end of the day, in date order
+     * @param flows - money added to or withdrawn from the portfolio after the first valuation
+     * @param options - solver tolerance, iteration cap, bracket and guess, and day count convention. The guess and
+     * bracket are fractions unless a rate unit is set
+     * @returns {number} - annual return
+     */
+    MWR(valuations: Valuation[], flows?: ExternalFlow[], options?: XIRROptions): number;
     /**
      * CAPM calculates expected return of an asset.
      * @param rf Risk-free rate of return
      * @param beta Beta of the asset
      * @param emr Expected market return
      * @param err Equity risk premium
-     * @returns Expected return of an asset using the Capital Asset Pricing Model (CAPM).
-     * @example CAPM(10, 10, 10, 10) // 10
+     * @returns Expected return of an asset using the Capital Asset Pricing Model (CAPM), as a decimal unless a rate unit is set.
+     * @example CAPM(10, 10, 10, 10) // 0.2
      */
     CAPM(rf: number, beta: number, emr: number, err: number): number;
     /**
@@ -185,15 +483,335 @@ export default class Finance implements IFinance {
      * @param ke - cost of equity
      * @param D0 - dividend
      * @returns {number} - value of stock
-     * @example stockPV(10, 10, 10) // 10
+     * @example stockPV(5, 10, 2) // 42
      */
     stockPV(g: number, ke: number, D0: number): number;
-    private durYear;
-    private sumEq;
     /**
-     * Seek zero of a function
-     * @param fn - function to find zero
-     * @returns {number} - zero
+     * Two-stage dividend discount model - value of a stock whose dividend grows at a high rate for some years, then
+     * at a stable rate in perpetuity
+     * @param options - dividend just paid, high growth rate and years, stable growth rate, and cost of equity or
+     * its CAPM inputs
+     * @returns {number} - value of stock
+     * @example twoStageDDM({ dividend: 1, highGrowth: 20, highGrowthYears: 3, stableGrowth: 5, costOfEquity: 10 }) // 30.84
+     */
+    twoStageDDM(options: DividendDiscountOptions): number;
+    /**
+     * Three-stage dividend discount model - value of a stock whose dividend grows at a high rate for some years,
+     * then at a rate declining linearly over a transition, then at a stable rate in perpetuity
+     * @param options - dividend just paid, high growth rate and years, transition years, stable growth rate, and
+     * cost of equity or its CAPM inputs
+     * @returns {number} - value of stock
+     */
+    threeStageDDM(options: ThreeStageOptions): number;
+    /**
+     * H-model - value of a stock whose dividend growth declines linearly from an initial to a stable rate
+     * @param options - dividend just paid, initial and stable growth rates, half-life of the decline, and cost of
+     * equity or its CAPM inputs
+     * @returns {number} - value of stock
+     * @example hModel({ dividend: 1, initialGrowth: 20, stableGrowth: 5, halfLife: 5, costOfEquity: 10 }) // 36
+     */
+    hModel(options: HModelOptions): number;
+    /**
+     * Discounted cash flow (DCF) - value of forecast free cash flows to the firm (FCFF) or to equity (FCFE) plus a
+     * terminal value from perpetual growth or an exit multiple, bridged from enterprise to equity value
+     * @param options - cash flow basis, forecast cash flows, discount rate or its WACC or CAPM inputs, terminal
+     * value method, debt, cash, minority interest, preferred equity and shares outstanding
+     * @returns {DcfResult} - present values, terminal value, enterprise to equity value bridge and value per share
+     * @example DCF({ basis: 'fcff', cashFlows: [100, 110], discountRate: 10, terminalValue: { method: 'exit-multiple', multiple: 8, metric: 150 } })
+     */
+    DCF(options: DcfOptions): DcfResult;
+    /**
+     * Rate per period (RATE) - the spreadsheet RATE function, solved iteratively from the guess
+     * @param numOfPeriods - number of periods
+     * @param payment - payment made each period, negative when paid out
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @param guess - starting rate, defaults to 0.1
+     * @returns {number} - rate per period, as a decimal unless a rate unit is set
+     * @example RATE(48, -200, 8000) // 0.0077
+     */
+    RATE(numOfPeriods: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming, guess?: number): number;
+    /**
+     * Number of periods (NPER) - the spreadsheet NPER function
+     * @param ratePerPeriod - interest rate per period
+     * @param payment - payment made each period, negative when paid out
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - number of periods
+     * @example NPER(0.01, -100, -1000, 10000, 1) // 59.67
+     */
+    NPER(ratePerPeriod: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+    /**
+     * Interest payment (IPMT) - the spreadsheet IPMT function, the interest part of one payment
+     * @param ratePerPeriod - interest rate per period
+     * @param per - period, from 1 to numOfPeriods
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - interest paid in the period
+     * @example IPMT(0.1 / 12, 1, 36, 8000) // -66.67
+     */
+    IPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+    /**
+     * Principal payment (PPMT) - the spreadsheet PPMT function, the principal part of one payment
+     * @param ratePerPeriod - interest rate per period
+     * @param per - period, from 1 to numOfPeriods
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - principal repaid in the period
+     * @example PPMT(0.1 / 12, 1, 24, 2000) // -75.62
+     */
+    PPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+    /**
+     * Cumulative interest (CUMIPMT) - the spreadsheet CUMIPMT function, interest paid between two periods
+     * @param ratePerPeriod - interest rate per period
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param startPeriod - first period, from 1
+     * @param endPeriod - last period, up to numOfPeriods
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - interest paid
+     * @example CUMIPMT(0.09 / 12, 360, 125000, 13, 24, 0) // -11135.23
+     */
+    CUMIPMT(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number;
+    /**
+     * Cumulative principal (CUMPRINC) - the spreadsheet CUMPRINC function, principal repaid between two periods
+     * @param ratePerPeriod - interest rate per period
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param startPeriod - first period, from 1
+     * @param endPeriod - last period, up to numOfPeriods
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - principal repaid
+     * @example CUMPRINC(0.09 / 12, 360, 125000, 13, 24, 0) // -934.11
+     */
+    CUMPRINC(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number;
+    /**
+     * Effective annual rate (EFFECT) - the spreadsheet EFFECT function
+     * @param nominalRate - nominal annual rate
+     * @param npery - compounding periods per year
+     * @returns {number} - effective annual rate, as a decimal unless a rate unit is set
+     * @example EFFECT(0.0525, 4) // 0.053542667
+     */
+    EFFECT(nominalRate: number, npery: number): number;
+    /**
+     * Nominal annual rate (NOMINAL) - the spreadsheet NOMINAL function
+     * @param effectRate - effective annual rate
+     * @param npery - compounding periods per year
+     * @returns {number} - nominal annual rate, as a decimal unless a rate unit is set
+     * @example NOMINAL(0.053543, 4) // 0.05250032
+     */
+    NOMINAL(effectRate: number, npery: number): number;
+    /**
+     * Straight-line depreciation (SLN) - the spreadsheet SLN function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @returns {number} - depreciation per period
+     * @example SLN(30000, 7500, 10) // 2250
+     */
+    SLN(cost: number, salvage: number, life: number): number;
+    /**
+     * Sum-of-years' digits depreciation (SYD) - the spreadsheet SYD function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param period - period, from 1 to life
+     * @returns {number} - depreciation in the period
+     * @example SYD(30000, 7500, 10, 10) // 409.09
+     */
+    SYD(cost: number, salvage: number, life: number, period: number): number;
+    /**
+     * Fixed-declining balance depreciation (DB) - the spreadsheet DB function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in years
+     * @param period - period, from 1 to life, or life + 1 with a partial first year
+     * @param month - months in the first year, defaults to 12
+     * @returns {number} - depreciation in the period
+     * @example DB(1000000, 100000, 6, 2, 7) // 259639.42
+     */
+    DB(cost: number, salvage: number, life: number, period: number, month?: number): number;
+    /**
+     * Double-declining balance depreciation (DDB) - the spreadsheet DDB function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param period - period, from 1 to life
+     * @param factor - declining balance rate, defaults to 2
+     * @returns {number} - depreciation in the period
+     * @example DDB(2400, 300, 10, 10) // 22.12
+     */
+    DDB(cost: number, salvage: number, life: number, period: number, factor?: number): number;
+    /**
+     * Variable declining balance depreciation (VDB) - the spreadsheet VDB function, declining balance switching
+     * to straight-line
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param startPeriod - start of the interval
+     * @param endPeriod - end of the interval
+     * @param factor - declining balance rate, defaults to 2
+     * @param noSwitch - true - never switch to straight-line
+     * @returns {number} - depreciation over the interval
+     * @example VDB(2400, 300, 120, 6, 18) // 396.31
+     */
+    VDB(cost: number, salvage: number, life: number, startPeriod: number, endPeriod: number, factor?: number, noSwitch?: boolean): number;
+    /**
+     * MACRS depreciation - US modified accelerated cost recovery system, half-year convention
+     * @param cost - depreciable basis of the asset
+     * @param recoveryPeriod - property class, 3, 5, 7, 10, 15 or 20 years
+     * @param year - recovery year, from 1 to recoveryPeriod + 1
+     * @returns {number} - depreciation in the year
+     * @example MACRS(10000, 5, 2) // 3200
+     */
+    MACRS(cost: number, recoveryPeriod: MacrsClass, year: number): number;
+    /**
+     * Depreciation schedule - depreciation and book value for every year of an asset's life
+     * @param options - cost, salvage, life, method, declining balance factor, first year months and rounding
+     * @returns {DepreciationRow[]} - one row per year
+     * @example depreciationSchedule({ cost: 10000, salvage: 1000, life: 5, method: 'straight-line' })[0].depreciation // 1800
+     */
+    depreciationSchedule(options: DepreciationOptions): DepreciationRow[];
+    /**
+     * Bond analytics - clean and dirty price, accrued interest, Macaulay and modified duration, convexity and DV01
+     * at a yield
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param yieldRate - annual yield
+     * @returns {BondAnalytics} - prices and risk measures per face value
+     * @example bondAnalytics({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 5.75 }, 6.5).cleanPrice // 94.63
+     */
+    bondAnalytics(bond: Bond, yieldRate: number): BondAnalytics;
+    /**
+     * Yield to maturity (YTM) - the yield at which a bond's cash flows are worth its clean price
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param price - clean price per face value
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual yield
+     * @example YTM({ settlement: new Date('2008-02-15'), maturity: new Date('2016-11-15'), couponRate: 5.75 }, 95.04287) // 6.5
+     */
+    YTM(bond: Bond, price: number, options?: SolverOptions): number;
+    /**
+     * Yield to call (YTC) - the yield of a bond redeemed at the call price on the call date
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param price - clean price per face value
+     * @param call - call date and call price
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual yield
+     */
+    YTC(bond: Bond, price: number, call: CallSchedule, options?: SolverOptions): number;
+    /**
+     * Black-Scholes-Merton - price and Greeks of a European option on an underlying paying a continuous dividend
+     * yield. Sensitivities to rates and volatility are per unit of the configured rate unit, e.g. vega per
+     * volatility point in percent.
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+     * @returns {OptionValuation} - price and first and second order Greeks
+     * @example blackScholes({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 5, volatility: 20 }).price // 10.45
+     */
+    blackScholes(contract: OptionContract): OptionValuation;
+    /**
+     * Implied volatility - the volatility at which Black-Scholes-Merton prices a European option at a given price
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate and dividend yield
+     * @param price - option price
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual volatility
+     * @example impliedVolatility({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 5 }, 10.45) // 20
+     */
+    impliedVolatility(contract: Omit<OptionContract, 'volatility'>, price: number, options?: SolverOptions): number;
+    /**
+     * Cox-Ross-Rubinstein binomial tree - price of an American or European option
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+     * @param options - number of steps, defaults to 200, and exercise style, defaults to american
+     * @returns {number} - option price
+     * @example binomialPrice({ type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 5, volatility: 20 }) // 6.09
+     */
+    binomialPrice(contract: OptionContract, options?: BinomialOptions): number;
+    /**
+     * Monte Carlo simulation - NPV, IRR and PI of a cash flow model over trials of randomly drawn inputs
+     * @param options - input distributions, cash flow model, discount rate, trials, seed, correlations and percentiles
+     * @returns {SimulationResult} - summary of each metric and the probability of a negative NPV, the IRR in the configured unit
+     * @example simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } },
+     *     model: ({ sales }) => [-1000, sales, sales, sales], rate: 10 }).probabilityNegativeNpv // 0.16
+     */
+    simulate(options: SimulationOptions): SimulationResult;
+    /**
+     * Tornado sensitivity - the metric with one input at a time moved to its low and high value
+     * @param options - base value and range of each input, cash flow model, discount rate and metric
+     * @returns {TornadoResult} - base metric and one bar per input, widest swing first, an IRR in the configured unit
+     */
+    tornado(options: TornadoOptions): TornadoResult;
+    /**
+     * Two-way data table - the metric for every combination of two inputs, the others held at their base
+     * @param options - base inputs, cash flow model, discount rate, row and column inputs with their values, and metric
+     * @returns {DataTable} - one row per row value and one column per column value, an IRR in the configured unit
+     */
+    dataTable(options: DataTableOptions): DataTable;
+    /**
+     * Expresses a simulated metric, an IRR in the configured unit
+     */
+    private metric;
+    /**
+     * Reads the rates and volatility of an option contract in the configured unit
+     */
+    private optionContract;
+    /**
+     * Reads the growth rates and cost of equity of a dividend discount model in the configured unit
+     */
+    private dividendDiscount;
+    /**
+     * Reads a discount rate, or the rates among its CAPM or WACC inputs, in the configured unit
+     */
+    private discountRate;
+    /**
+     * Reads a bond's coupon rate in the configured unit
+     */
+    private bond;
+    /**
+     * Rounds the cumulative cash flows of a payback result, leaving the periods unrounded like PP
+     */
+    private paybackResult;
+    /**
+     * Rounds the value of a ratio, a margin or return in percent like the other rates, otherwise to 2 decimals
+     */
+    private ratio;
+    private ratios;
+    /**
+     * Rounds a result with the configured policy, or with the method's historical rounding when none is set
+     */
+    private round;
+    /**
+     * Number backend and rounding for the calculations that run on the backend, rounding to cents by default
+     */
+    private get backend();
+    /**
+     * Reads a rate argument in the configured unit, or in the method's historical unit, as a validated fraction
+     */
+    private toFraction;
+    /**
+     * Rounds a rate or return in the configured unit. A configured policy applies as is; the historical rounding
+     * counts decimal places in the historical unit, so 12.34% rounds to 0.1234 as a decimal and 1234 in basis points.
+     */
+    private roundRate;
+    /**
+     * Expresses a fraction in the configured unit, or in the method's historical unit
+     */
+    private fromFraction;
+    /**
+     * Reads a rate argument like toFraction, dropping the binary noise of the unit conversion (7.3% is 0.073, not
+     * 0.07299999999999999) so that the decimal backend reads the rate exactly
+     */
+    private exactFraction;
+    /**
+     * Reads a rate argument as a validated percentage, the unit of R72 and of the schedule and loan modules
+     */
+    private toPercent;
+    /**
+     * Reads the guess and bracket of solver options in the configured unit
      */
-    private seekZero;
+    private solverOptions;
 }
@@ -1,9 +1,189 @@
 "use strict";
 // convert https://raw.githubusercontent.com/ebradyjobory/finance.js/master/finance.js to typescript
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
 Object.defineProperty(exports, "__esModule", { value: true });
+exports.convertCompounding = exports.compareLoans = exports.apy = exports.apr = exports.affordability = exports.ruleOf72 = exports.loanPayment = exports.compoundInterest = exports.ValidationError = exports.FinanceError = exports.CurrencyMismatchError = exports.ConvergenceError = exports.CashFlowError = exports.DECIMAL_PLACES = exports.decimalArithmetic = exports.Decimal = exports.vdb = exports.syd = exports.sln = exports.macrs = exports.depreciationSchedule = exports.ddb = exports.db = exports.YieldCurve = exports.yieldToMaturity = exports.yieldToCall = exports.modifiedDuration = exports.macaulayDuration = exports.dv01 = exports.dirtyPrice = exports.convexity = exports.cleanPrice = exports.bondAnalytics = exports.accruedInterest = exports.xnpv = exports.xmirr = exports.profitabilityIndex = exports.presentValue = exports.paybackPeriod = exports.payback = exports.npv = exports.mirr = exports.irr = exports.futureValue = exports.discountFactors = exports.discountedPayback = exports.countSignChanges = exports.breakEven = exports.allIrr = exports.floatArithmetic = void 0;
+exports.discountRate = exports.discountedCashFlow = exports.capm = exports.xirr = exports.rate = exports.pv = exports.ppmt = exports.pmt = exports.nper = exports.nominal = exports.ipmt = exports.fv = exports.effect = exports.cumprinc = exports.cumipmt = exports.percentile = exports.normalPdf = exports.normalCdf = exports.tornado = exports.simulate = exports.seededRandom = exports.dataTable = exports.toDecimal = exports.fromDecimal = exports.convertRate = exports.statementGrowth = exports.leverageRatio = exports.debtToIncome = exports.analyzeRatios = exports.volatility = exports.timeWeightedReturn = exports.sortinoRatio = exports.sharpeRatio = exports.roi = exports.realReturn = exports.periodReturns = exports.moneyWeightedReturn = exports.modifiedDietz = exports.measurePerformance = exports.maxDrawdown = exports.cagr = exports.beta = exports.annualizeReturn = exports.alpha = exports.impliedVolatility = exports.blackScholes = exports.binomialPrice = exports.moneyNPV = exports.Money = exports.refinanceBreakEven = void 0;
+exports.wacc = exports.twoStageDDM = exports.threeStageDDM = exports.hModel = exports.gordonGrowth = void 0;
+var bond_1 = require("./bond");
+var budgeting = require("./budgeting");
+var curve_1 = require("./curve");
+var daycount_1 = require("./daycount");
+var depreciation_1 = require("./depreciation");
+var errors_1 = require("./errors");
+var interest_1 = require("./interest");
+var lending_1 = require("./lending");
+var loan_1 = require("./loan");
+var rates_1 = require("./rates");
+var options_1 = require("./options");
+var performance_1 = require("./performance");
+var ratios_1 = require("./ratios");
+var rounding_1 = require("./rounding");
+var schedule_1 = require("./schedule");
+var simulation_1 = require("./simulation");
+var solver_1 = require("./solver");
+var tvm = require("./tvm");
+var valuation_1 = require("./valuation");
+var validation_1 = require("./validation");
+var arithmetic_1 = require("./arithmetic");
+Object.defineProperty(exports, "floatArithmetic", { enumerable: true, get: function () { return arithmetic_1.floatArithmetic; } });
+var budgeting_1 = require("./budgeting");
+Object.defineProperty(exports, "allIrr", { enumerable: true, get: function () { return budgeting_1.allIrr; } });
+Object.defineProperty(exports, "breakEven", { enumerable: true, get: function () { return budgeting_1.breakEven; } });
+Object.defineProperty(exports, "countSignChanges", { enumerable: true, get: function () { return budgeting_1.countSignChanges; } });
+Object.defineProperty(exports, "discountedPayback", { enumerable: true, get: function () { return budgeting_1.discountedPayback; } });
+Object.defineProperty(exports, "discountFactors", { enumerable: true, get: function () { return budgeting_1.discountFactors; } });
+Object.defineProperty(exports, "futureValue", { enumerable: true, get: function () { return budgeting_1.futureValue; } });
+Object.defineProperty(exports, "irr", { enumerable: true, get: function () { return budgeting_1.irr; } });
+Object.defineProperty(exports, "mirr", { enumerable: true, get: function () { return budgeting_1.mirr; } });
+Object.defineProperty(exports, "npv", { enumerable: true, get: function () { return budgeting_1.npv; } });
+Object.defineProperty(exports, "payback", { enumerable: true, get: function () { return budgeting_1.payback; } });
+Object.defineProperty(exports, "paybackPeriod", { enumerable: true, get: function () { return budgeting_1.paybackPeriod; } });
+Object.defineProperty(exports, "presentValue", { enumerable: true, get: function () { return budgeting_1.presentValue; } });
+Object.defineProperty(exports, "profitabilityIndex", { enumerable: true, get: function () { return budgeting_1.profitabilityIndex; } });
+Object.defineProperty(exports, "xmirr", { enumerable: true, get: function () { return budgeting_1.xmirr; } });
+Object.defineProperty(exports, "xnpv", { enumerable: true, get: function () { return budgeting_1.xnpv; } });
+var bond_2 = require("./bond");
+Object.defineProperty(exports, "accruedInterest", { enumerable: true, get: function () { return bond_2.accruedInterest; } });
+Object.defineProperty(exports, "bondAnalytics", { enumerable: true, get: function () { return bond_2.bondAnalytics; } });
+Object.defineProperty(exports, "cleanPrice", { enumerable: true, get: function () { return bond_2.cleanPrice; } });
+Object.defineProperty(exports, "convexity", { enumerable: true, get: function () { return bond_2.convexity; } });
+Object.defineProperty(exports, "dirtyPrice", { enumerable: true, get: function () { return bond_2.dirtyPrice; } });
+Object.defineProperty(exports, "dv01", { enumerable: true, get: function () { return bond_2.dv01; } });
+Object.defineProperty(exports, "macaulayDuration", { enumerable: true, get: function () { return bond_2.macaulayDuration; } });
+Object.defineProperty(exports, "modifiedDuration", { enumerable: true, get: function () { return bond_2.modifiedDuration; } });
+Object.defineProperty(exports, "yieldToCall", { enumerable: true, get: function () { return bond_2.yieldToCall; } });
+Object.defineProperty(exports, "yieldToMaturity", { enumerable: true, get: function () { return bond_2.yieldToMaturity; } });
+var curve_2 = require("./curve");
+Object.defineProperty(exports, "YieldCurve", { enumerable: true, get: function () { return curve_2.YieldCurve; } });
+var depreciation_2 = require("./depreciation");
+Object.defineProperty(exports, "db", { enumerable: true, get: function () { return depreciation_2.db; } });
+Object.defineProperty(exports, "ddb", { enumerable: true, get: function () { return depreciation_2.ddb; } });
+Object.defineProperty(exports, "depreciationSchedule", { enumerable: true, get: function () { return depreciation_2.depreciationSchedule; } });
+Object.defineProperty(exports, "macrs", { enumerable: true, get: function () { return depreciation_2.macrs; } });
+Object.defineProperty(exports, "sln", { enumerable: true, get: function () { return depreciation_2.sln; } });
+Object.defineProperty(exports, "syd", { enumerable: true, get: function () { return depreciation_2.syd; } });
+Object.defineProperty(exports, "vdb", { enumerable: true, get: function () { return depreciation_2.vdb; } });
+var decimal_1 = require("./decimal");
+Object.defineProperty(exports, "Decimal", { enumerable: true, get: function () { return decimal_1.Decimal; } });
+Object.defineProperty(exports, "decimalArithmetic", { enumerable: true, get: function () { return decimal_1.decimalArithmetic; } });
+Object.defineProperty(exports, "DECIMAL_PLACES", { enumerable: true, get: function () { return decimal_1.DECIMAL_PLACES; } });
+var errors_2 = require("./errors");
+Object.defineProperty(exports, "CashFlowError", { enumerable: true, get: function () { return errors_2.CashFlowError; } });
+Object.defineProperty(exports, "ConvergenceError", { enumerable: true, get: function () { return errors_2.ConvergenceError; } });
+Object.defineProperty(exports, "CurrencyMismatchError", { enumerable: true, get: function () { return errors_2.CurrencyMismatchError; } });
+Object.defineProperty(exports, "FinanceError", { enumerable: true, get: function () { return errors_2.FinanceError; } });
+Object.defineProperty(exports, "ValidationError", { enumerable: true, get: function () { return errors_2.ValidationError; } });
+var interest_2 = require("./interest");
+Object.defineProperty(exports, "compoundInterest", { enumerable: true, get: function () { return interest_2.compoundInterest; } });
+Object.defineProperty(exports, "loanPayment", { enumerable: true, get: function () { return interest_2.loanPayment; } });
+Object.defineProperty(exports, "ruleOf72", { enumerable: true, get: function () { return interest_2.ruleOf72; } });
+var lending_2 = require("./lending");
+Object.defineProperty(exports, "affordability", { enumerable: true, get: function () { return lending_2.affordability; } });
+Object.defineProperty(exports, "apr", { enumerable: true, get: function () { return lending_2.apr; } });
+Object.defineProperty(exports, "apy", { enumerable: true, get: function () { return lending_2.apy; } });
+Object.defineProperty(exports, "compareLoans", { enumerable: true, get: function () { return lending_2.compareLoans; } });
+Object.defineProperty(exports, "convertCompounding", { enumerable: true, get: function () { return lending_2.convertCompounding; } });
+Object.defineProperty(exports, "refinanceBreakEven", { enumerable: true, get: function () { return lending_2.refinanceBreakEven; } });
+var money_1 = require("./money");
+Object.defineProperty(exports, "Money", { enumerable: true, get: function () { return money_1.Money; } });
+Object.defineProperty(exports, "moneyNPV", { enumerable: true, get: function () { return money_1.moneyNPV; } });
+var options_2 = require("./options");
+Object.defineProperty(exports, "binomialPrice", { enumerable: true, get: function () { return options_2.binomialPrice; } });
+Object.defineProperty(exports, "blackScholes", { enumerable: true, get: function () { return options_2.blackScholes; } });
+Object.defineProperty(exports, "impliedVolatility", { enumerable: true, get: function () { return options_2.impliedVolatility; } });
+var performance_2 = require("./performance");
+Object.defineProperty(exports, "alpha", { enumerable: true, get: function () { return performance_2.alpha; } });
+Object.defineProperty(exports, "annualizeReturn", { enumerable: true, get: function () { return performance_2.annualizeReturn; } });
+Object.defineProperty(exports, "beta", { enumerable: true, get: function () { return performance_2.beta; } });
+Object.defineProperty(exports, "cagr", { enumerable: true, get: function () { return performance_2.cagr; } });
+Object.defineProperty(exports, "maxDrawdown", { enumerable: true, get: function () { return performance_2.maxDrawdown; } });
+Object.defineProperty(exports, "measurePerformance", { enumerable: true, get: function () { return performance_2.measurePerformance; } });
+Object.defineProperty(exports, "modifiedDietz", { enumerable: true, get: function () { return performance_2.modifiedDietz; } });
+Object.defineProperty(exports, "moneyWeightedReturn", { enumerable: true, get: function () { return performance_2.moneyWeightedReturn; } });
+Object.defineProperty(exports, "periodReturns", { enumerable: true, get: function () { return performance_2.periodReturns; } });
+Object.defineProperty(exports, "realReturn", { enumerable: true, get: function () { return performance_2.realReturn; } });
+Object.defineProperty(exports, "roi", { enumerable: true, get: function () { return performance_2.roi; } });
+Object.defineProperty(exports, "sharpeRatio", { enumerable: true, get: function () { return performance_2.sharpeRatio; } });
+Object.defineProperty(exports, "sortinoRatio", { enumerable: true, get: function () { return performance_2.sortinoRatio; } });
+Object.defineProperty(exports, "timeWeightedReturn", { enumerable: true, get: function () { return performance_2.timeWeightedReturn; } });
+Object.defineProperty(exports, "volatility", { enumerable: true, get: function () { return performance_2.volatility; } });
+var ratios_2 = require("./ratios");
+Object.defineProperty(exports, "analyzeRatios", { enumerable: true, get: function () { return ratios_2.analyzeRatios; } });
+Object.defineProperty(exports, "debtToIncome", { enumerable: true, get: function () { return ratios_2.debtToIncome; } });
+Object.defineProperty(exports, "leverageRatio", { enumerable: true, get: function () { return ratios_2.leverageRatio; } });
+Object.defineProperty(exports, "statementGrowth", { enumerable: true, get: function () { return ratios_2.statementGrowth; } });
+var rates_2 = require("./rates");
+Object.defineProperty(exports, "convertRate", { enumerable: true, get: function () { return rates_2.convertRate; } });
+Object.defineProperty(exports, "fromDecimal", { enumerable: true, get: function () { return rates_2.fromDecimal; } });
+Object.defineProperty(exports, "toDecimal", { enumerable: true, get: function () { return rates_2.toDecimal; } });
+var simulation_2 = require("./simulation");
+Object.defineProperty(exports, "dataTable", { enumerable: true, get: function () { return simulation_2.dataTable; } });
+Object.defineProperty(exports, "seededRandom", { enumerable: true, get: function () { return simulation_2.seededRandom; } });
+Object.defineProperty(exports, "simulate", { enumerable: true, get: function () { return simulation_2.simulate; } });
+Object.defineProperty(exports, "tornado", { enumerable: true, get: function () { return simulation_2.tornado; } });
+var statistics_1 = require("./statistics");
+Object.defineProperty(exports, "normalCdf", { enumerable: true, get: function () { return statistics_1.normalCdf; } });
+Object.defineProperty(exports, "normalPdf", { enumerable: true, get: function () { return statistics_1.normalPdf; } });
+Object.defineProperty(exports, "percentile", { enumerable: true, get: function () { return statistics_1.percentile; } });
+var tvm_1 = require("./tvm");
+Object.defineProperty(exports, "cumipmt", { enumerable: true, get: function () { return tvm_1.cumipmt; } });
+Object.defineProperty(exports, "cumprinc", { enumerable: true, get: function () { return tvm_1.cumprinc; } });
+Object.defineProperty(exports, "effect", { enumerable: true, get: function () { return tvm_1.effect; } });
+Object.defineProperty(exports, "fv", { enumerable: true, get: function () { return tvm_1.fv; } });
+Object.defineProperty(exports, "ipmt", { enumerable: true, get: function () { return tvm_1.ipmt; } });
+Object.defineProperty(exports, "nominal", { enumerable: true, get: function () { return tvm_1.nominal; } });
+Object.defineProperty(exports, "nper", { enumerable: true, get: function () { return tvm_1.nper; } });
+Object.defineProperty(exports, "pmt", { enumerable: true, get: function () { return tvm_1.pmt; } });
+Object.defineProperty(exports, "ppmt", { enumerable: true, get: function () { return tvm_1.ppmt; } });
+Object.defineProperty(exports, "pv", { enumerable: true, get: function () { return tvm_1.pv; } });
+Object.defineProperty(exports, "rate", { enumerable: true, get: function () { return tvm_1.rate; } });
+Object.defineProperty(exports, "xirr", { enumerable: true, get: function () { return tvm_1.xirr; } });
+var valuation_2 = require("./valuation");
+Object.defineProperty(exports, "capm", { enumerable: true, get: function () { return valuation_2.capm; } });
+Object.defineProperty(exports, "discountedCashFlow", { enumerable: true, get: function () { return valuation_2.discountedCashFlow; } });
+Object.defineProperty(exports, "discountRate", { enumerable: true, get: function () { return valuation_2.discountRate; } });
+Object.defineProperty(exports, "gordonGrowth", { enumerable: true, get: function () { return valuation_2.gordonGrowth; } });
+Object.defineProperty(exports, "hModel", { enumerable: true, get: function () { return valuation_2.hModel; } });
+Object.defineProperty(exports, "threeStageDDM", { enumerable: true, get: function () { return valuation_2.threeStageDDM; } });
+Object.defineProperty(exports, "twoStageDDM", { enumerable: true, get: function () { return valuation_2.twoStageDDM; } });
+Object.defineProperty(exports, "wacc", { enumerable: true, get: function () { return valuation_2.wacc; } });
+var UNROUNDED = { mode: 'none' };
 var Finance = /** @class */ (function () {
-    function Finance() {
+    function Finance(options) {
+        if (options === void 0) { options = {}; }
+        this.options = options;
     }
+    /**
+     * Returns a copy of the calculator that rounds with the given policy, to override the rounding for a call
+     * @param rounding - decimal places and rounding mode
+     * @returns {Finance} - calculator using the policy
+     * @example withRounding({ mode: 'none' }).PV(10, 100) // 90.9090909090909
+     */
+    Finance.prototype.withRounding = function (rounding) {
+        return new Finance(__assign(__assign({}, this.options), { rounding: rounding }));
+    };
     /**
      * Present Value (PV) - the value of a cash flow at the beginning of the period ( Calculates the present value of a cash flow)
      * @param rate - interest rate
@@ -14,8 +194,10 @@ var Finance = /** @class */ (function () {
      */
     Finance.prototype.PV = function (rate, cf1, numOfPeriod) {
         if (numOfPeriod === void 0) { numOfPeriod = 1; }
-        var pv = cf1 / Math.pow((1 + rate / 100), numOfPeriod);
-        return Math.round(pv * 100) / 100;
+        var r = this.toFraction('rate', rate, 'percent');
+        (0, validation_1.assertFinite)('cf1', cf1);
+        (0, validation_1.assertNonNegative)('numOfPeriod', numOfPeriod);
+        return this.round(budgeting.presentValue({ rate: r, amount: cf1, periods: numOfPeriod }));
     };
     /**
      * Future Value (FV) - the value of a cash flow at the end of the period ( Calculates the future value of a cash flow)
@@ -27,12 +209,14 @@ var Finance = /** @class */ (function () {
      */
     Finance.prototype.FV = function (rate, cf0, numOfPeriod) {
         if (numOfPeriod === void 0) { numOfPeriod = 1; }
-        var fv = cf0 * Math.pow((1 + rate / 100), numOfPeriod);
-        return Math.round(fv * 100) / 100;
+        var r = this.toFraction('rate', rate, 'percent');
+        (0, validation_1.assertFinite)('cf0', cf0);
+        (0, validation_1.assertNonNegative)('numOfPeriod', numOfPeriod);
+        return this.round(budgeting.futureValue({ rate: r, amount: cf0, periods: numOfPeriod }));
     };
     /**
      *  Net Present Value (NPV) - the sum of the present values of a series of cash flows
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param cf - cash flows
      * @returns {number} - net present value
      * @example NPV(10, 100, 100, 100) // 259.37
@@ -42,77 +226,120 @@ var Finance = /** @class */ (function () {
         for (var _i = 1; _i < arguments.length; _i++) {
             cf[_i - 1] = arguments[_i];
         }
-        var npv = cf[0];
-        rate /= 100;
-        for (var i = 1; i < cf.length; i++) {
-            npv += cf[i] / Math.pow((1 + rate), i);
-        }
-        return Math.round(npv * 100) / 100;
+        var r = rate instanceof curve_1.YieldCurve ? rate : this.exactFraction('rate', rate, 'percent');
+        (0, validation_1.assertCashFlows)('cf', cf);
+        return budgeting.npv(__assign({ rate: r, cashFlows: cf }, this.backend));
     };
     /**
      * Internal Rate of Return (IRR) - the discount rate that makes the net present value of a series of cash flows equal to zero
      * Calculates the internal rate of return of a cash flow
-     * @param cfs - cash flows
+     * @param cfs - cash flows, depth caps the number of solver iterations
+     * @param options - solver tolerance, iteration cap, bracket and guess (rates as fractions unless a rate unit is set)
      * @returns {number} - internal rate of return
      * @example IRR(100, -100, 100) // 50
      */
-    Finance.prototype.IRR = function (cfs) {
+    Finance.prototype.IRR = function (cfs, options) {
+        if (options === void 0) { options = {}; }
         var depth = cfs.depth, cashFlow = cfs.cashFlow;
-        var numberOfTries = 1;
-        // Cash flow values must contain at least one positive value and one negative value
-        var positive = false;
-        var negative = false;
-        cashFlow.forEach(function (value) {
-            if (value > 0)
-                positive = true;
-            if (value < 0)
-                negative = true;
-        });
-        if (!positive || !negative) {
-            throw new Error('IRR requires at least one positive value and one negative value');
-        }
-        function npv(rate) {
-            numberOfTries++;
-            if (numberOfTries > depth) {
-                throw new Error("IRR can't find a result");
-            }
-            var rrate = 1 + rate / 100;
-            var npv = cashFlow[0];
-            for (var i = 1; i < cashFlow.length; i++) {
-                npv += cashFlow[i] / Math.pow(rrate, i);
-            }
-            return npv;
-        }
-        return Math.round(this.seekZero(npv) * 100) / 100;
+        (0, validation_1.assertInteger)('depth', depth);
+        (0, validation_1.assertCashFlows)('cashFlow', cashFlow, 2);
+        return this.roundRate(budgeting.irr(__assign({ cashFlows: cashFlow, maxIterations: depth }, this.solverOptions(options))), 'percent');
+    };
+    /**
+     * All IRRs - every rate in a range that makes the net present value zero, for non-conventional cash flows
+     * whose sign changes more than once
+     * @param cashFlow - cash flows
+     * @param options - range of rates (fractions), scan steps and solver tolerance
+     * @returns {MultipleIRR} - IRRs (percent unless a rate unit is set), the sign change count and a multiple roots warning
+     * @example allIRR([-100, 230, -132]) // { rates: [10, 20], signChanges: 2, multipleRoots: true }
+     */
+    Finance.prototype.allIRR = function (cashFlow, options) {
+        var _this = this;
+        if (options === void 0) { options = {}; }
+        var range = options.range
+            && [this.toFraction('range', options.range[0], 'decimal'), this.toFraction('range', options.range[1], 'decimal')];
+        (0, validation_1.assertCashFlows)('cashFlow', cashFlow, 2);
+        var result = budgeting.allIrr(__assign(__assign({}, options), { cashFlows: cashFlow, range: range }));
+        return __assign(__assign({}, result), { rates: result.rates.map(function (rate) { return _this.roundRate(rate, 'percent'); }) });
+    };
+    /**
+     * Modified Internal Rate of Return (MIRR) - the return when negative cash flows are financed at the finance rate
+     * and positive cash flows are reinvested at the reinvestment rate
+     * @param cashFlow - cash flows, one per period
+     * @param financeRate - interest rate paid on the money used in the cash flows
+     * @param reinvestRate - interest rate received on the cash flows as they are reinvested
+     * @returns {number} - modified internal rate of return
+     * @example MIRR([-120000, 39000, 30000, 21000, 37000, 46000], 10, 12) // 12.61
+     */
+    Finance.prototype.MIRR = function (cashFlow, financeRate, reinvestRate) {
+        var finance = this.toFraction('financeRate', financeRate, 'percent');
+        var reinvest = this.toFraction('reinvestRate', reinvestRate, 'percent');
+        (0, validation_1.assertCashFlows)('cashFlow', cashFlow, 2);
+        (0, validation_1.assertSignChange)('cashFlow', cashFlow, 'MIRR');
+        return this.roundRate(budgeting.mirr({ cashFlows: cashFlow, financeRate: finance, reinvestRate: reinvest }), 'percent');
     };
     /**
      * Payback Period (PP) - the number of years required to recover the initial investment
-     * @param numOfPeriods - number of periods
+     * @param numOfPeriods - number of periods, 0 when cfs[1] is received every period
      * @param cfs - cash flows
-     * @returns {number} - payback period
+     * @returns {number | undefined} - payback period, undefined when the investment is never recovered; see payback for the details
+     * @example PP(5, -50, 10, 13, 16, 19, 22) // 3.58
      */
     Finance.prototype.PP = function (numOfPeriods) {
         var cfs = [];
         for (var _i = 1; _i < arguments.length; _i++) {
             cfs[_i - 1] = arguments[_i];
         }
-        // for even cash flows
+        (0, validation_1.assertInteger)('numOfPeriods', numOfPeriods, 0);
+        (0, validation_1.assertCashFlows)('cfs', cfs, 2);
+        // numOfPeriods 0 marks even cash flows
         if (numOfPeriods === 0) {
-            return Math.abs(cfs[0]) / cfs[1];
+            (0, validation_1.assertPositive)('cfs[1]', cfs[1]);
         }
-        // for uneven cash flows
-        var cumulativeCashFlow = cfs[0];
-        var yearsCounter = 1;
-        for (var i = 1; i < cfs.length; i++) {
-            cumulativeCashFlow += cfs[i];
-            if (cumulativeCashFlow > 0) {
-                yearsCounter += (cumulativeCashFlow - cfs[i]) / cfs[i];
-                return yearsCounter;
-            }
-            else {
-                yearsCounter++;
-            }
+        else if (cfs[0] >= 0) {
+            throw new errors_1.ValidationError("cfs[0], the initial investment, must be negative, got ".concat(cfs[0]), 'cfs[0]');
         }
+        var payback = budgeting.paybackPeriod({ cashFlows: cfs, even: numOfPeriods === 0 });
+        return payback === undefined ? undefined : this.round(payback, UNROUNDED);
+    };
+    /**
+     * Payback - when the cumulative cash flows recover the initial investment, with the cumulative cash flow of every period
+     * @param cashFlows - initial investment, negative, then the cash flows recovering it
+     * @param even - true when cashFlows[1] is received every period, defaults to false
+     * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative cash flows
+     * @example payback([-50, 10, 13, 16, 19, 22]).fractionalPeriod // 3.58
+     */
+    Finance.prototype.payback = function (cashFlows, even) {
+        if (even === void 0) { even = false; }
+        return this.paybackResult(budgeting.payback({ cashFlows: cashFlows, even: even }));
+    };
+    /**
+     * Discounted payback - when the cumulative present values of the cash flows recover the initial investment
+     * @param rate - discount rate, or a yield curve discounting period i at time i years
+     * @param cashFlows - initial investment, negative, then the cash flows recovering it
+     * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative present values
+     * @example discountedPayback(10, [-100, 50, 50, 50]).fractionalPeriod // 2.35
+     */
+    Finance.prototype.discountedPayback = function (rate, cashFlows) {
+        var r = rate instanceof curve_1.YieldCurve ? rate : this.toFraction('rate', rate, 'percent');
+        return this.paybackResult(budgeting.discountedPayback({ rate: r, cashFlows: cashFlows }));
+    };
+    /**
+     * Break-even - the units and revenue at which the contribution margin covers the fixed costs
+     * @param fixedCost - fixed costs of the period
+     * @param variableCost - variable cost per unit
+     * @param price - price per unit
+     * @returns {BreakEven} - break-even units and revenue, and the contribution margin per unit and as a percentage of the price
+     * @example breakEven(10000, 30, 50) // { units: 500, revenue: 25000, contributionMargin: 20, contributionMarginRatio: 40 }
+     */
+    Finance.prototype.breakEven = function (fixedCost, variableCost, price) {
+        var result = budgeting.breakEven({ fixedCost: fixedCost, variableCost: variableCost, price: price });
+        return {
+            units: this.round(result.units),
+            revenue: this.round(result.revenue),
+            contributionMargin: this.round(result.contributionMargin),
+            contributionMarginRatio: this.roundRate(result.contributionMarginRatio, 'percent'),
+        };
     };
     /**
      * Return on Investment (ROI) - the percentage return on an investment
@@ -122,76 +349,84 @@ var Finance = /** @class */ (function () {
      * @example ROI(100, 100) // 0
      */
     Finance.prototype.ROI = function (cf0, earnings) {
-        var roi = (earnings - Math.abs(cf0)) / Math.abs(cf0) * 100;
-        return Math.round(roi * 100) / 100;
+        (0, validation_1.assertFinite)('cf0', cf0);
+        if (cf0 === 0) {
+            throw new errors_1.ValidationError('cf0 must not be 0', 'cf0');
+        }
+        return this.roundRate((0, performance_1.roi)({ investment: cf0, earnings: earnings }), 'percent');
     };
     /**
      * Amortization - the process of paying off a debt (loan) over a period of time through regular payments
      * @param principal - principal amount
-     * @param rate - interest rate
-     * @param period - number of periods
-     * @param yearOrMonth - 1 - year, 0 - month
+     * @param rate - annual interest rate, compounded monthly
+     * @param period - loan term
+     * @param yearOrMonth - 0 - term in years, 1 - term in months. Payments are monthly either way
      * @param payAtBeginning - true - pay at the beginning of the period, false - pay at the end of the period
-     * @returns {number} - amortization
+     * @returns {number} - monthly payment
      * @example AM(100, 10, 1, 1, true) // 8.33 (yearly, pay at the beginning of the period)
      */
     Finance.prototype.AM = function (principal, rate, period, yearOrMonth, payAtBeginning) {
-        var ratePerPeriod = rate / 12 / 100;
-        var numerator, denominator;
-        if (!yearOrMonth) {
-            numerator = buildNumerator(period * 12);
-            denominator = Math.pow(1 + ratePerPeriod, period * 12) - 1;
-        }
-        else if (yearOrMonth === 1) {
-            numerator = buildNumerator(period);
-            denominator = Math.pow(1 + ratePerPeriod, period) - 1;
-        }
-        else {
-            console.log("not defined");
-            return 0;
-        }
-        var am = principal * (numerator / denominator);
-        return Math.round(am * 100) / 100;
-        function buildNumerator(numInterestAccruals) {
-            if (payAtBeginning) {
-                numInterestAccruals -= 1;
-            }
-            return ratePerPeriod * Math.pow(1 + ratePerPeriod, numInterestAccruals);
+        var r = this.exactFraction('rate', rate, 'percent');
+        (0, validation_1.assertPositive)('period', period);
+        if (yearOrMonth !== undefined && yearOrMonth !== 0 && yearOrMonth !== 1) {
+            throw new errors_1.ValidationError("yearOrMonth must be 0 (years) or 1 (months), got ".concat(yearOrMonth), 'yearOrMonth');
         }
+        var numOfPayments = yearOrMonth === 1 ? period : period * 12;
+        (0, validation_1.assertInteger)('numOfPayments', numOfPayments);
+        return (0, interest_1.loanPayment)(__assign({ principal: principal, rate: r, numOfPayments: numOfPayments, payAtBeginning: payAtBeginning }, this.backend));
     };
     ;
+    /**
+     * Amortization Schedule - every payment of a loan split into interest and principal, with the final payment
+     * adjusted so the schedule ends at exactly zero
+     * @param options - principal, annual rate, number of payments, frequency, start date, payAtBeginning
+     * @returns {ScheduleRow[]} - date, opening balance, payment, interest, principal, closing balance and cumulative interest of each period
+     * @example amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60 })[0].payment // 400.76
+     */
+    Finance.prototype.amortizationSchedule = function (options) {
+        return (0, schedule_1.amortizationSchedule)(__assign(__assign({ rounding: this.options.rounding, arithmetic: this.options.arithmetic }, options), { rate: this.toPercent('rate', options.rate) }));
+    };
+    /**
+     * Loan Model - the schedule of a loan with one-off and recurring prepayments, rate changes, interest-only periods,
+     * payment holidays and balloon payments
+     * @param options - principal, annual rate, number of payments, frequency, start date and events
+     * @returns {LoanResult} - updated schedule, total interest, interest saved and the new payoff date
+     * @example modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, events: [{ type: 'recurringPrepayment', startDate, amount: 100 }] })
+     */
+    Finance.prototype.modelLoan = function (options) {
+        var _this = this;
+        var events = (options.events || []).map(function (event) {
+            return event.type === 'rateChange' ? __assign(__assign({}, event), { rate: _this.toPercent('events.rate', event.rate) }) : event;
+        });
+        return (0, loan_1.modelLoan)(__assign(__assign({ rounding: this.options.rounding }, options), { rate: this.toPercent('rate', options.rate), events: events }));
+    };
     /**
      * Profitability Index (PI) - the ratio of the present value of cash inflows to the present value of cash outflows
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param cfs - cash flows
      * @returns {number} - profitability index
      * @example PI(10, 100, -100, 100) // 1.5 (yearly)
      */
     Finance.prototype.PI = function (rate, cfs) {
-        var totalOfPVs = 0;
-        for (var i = 1; i < cfs.length; i++) {
-            var discountFactor = 1 / Math.pow(1 + rate / 100, i);
-            totalOfPVs += cfs[i] * discountFactor;
+        var r = rate instanceof curve_1.YieldCurve ? rate : this.exactFraction('rate', rate, 'percent');
+        (0, validation_1.assertCashFlows)('cfs', cfs, 2);
+        if (cfs[0] === 0) {
+            throw new errors_1.ValidationError('cfs[0], the initial investment, must not be 0', 'cfs[0]');
         }
-        var PI = totalOfPVs / Math.abs(cfs[0]);
-        return Math.round(PI * 100) / 100;
+        return budgeting.profitabilityIndex(__assign({ rate: r, cashFlows: cfs }, this.backend));
     };
     ;
     /**
      * Discount Factor (DF) - the present value of a future cash flow
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param numOfPeriods - number of periods
      * @returns {number[]} - discount factors
      */
     Finance.prototype.DF = function (rate, numOfPeriods) {
-        var dfs = new Array(numOfPeriods - 1);
-        var onePlusRate = 1 + rate / 100;
-        for (var i = 1; i < numOfPeriods; i++) {
-            var discountFactor = 1 / Math.pow(onePlusRate, i - 1);
-            var roundedDiscountFactor = Math.ceil(discountFactor * 1000) / 1000;
-            dfs[i - 1] = roundedDiscountFactor;
-        }
-        return dfs;
+        var _this = this;
+        var r = rate instanceof curve_1.YieldCurve ? rate : this.toFraction('rate', rate, 'percent');
+        (0, validation_1.assertInteger)('numOfPeriods', numOfPeriods);
+        return budgeting.discountFactors({ rate: r, periods: numOfPeriods - 1 }).map(function (factor) { return _this.round(factor, { decimals: 3, mode: 'ceil' }); });
     };
     ;
     /**
@@ -204,11 +439,11 @@ var Finance = /** @class */ (function () {
      * @example CI(10, 1, 100, 1) // 110 (yearly)
      */
     Finance.prototype.CI = function (rate, numOfCompoundings, principal, numOfPeriods) {
-        var ratePerCompounding = (rate / 100) / numOfCompoundings;
-        var onePlusRatePerCompounding = 1 + ratePerCompounding;
-        var compoundings = numOfCompoundings * numOfPeriods;
-        var CI = principal * Math.pow(onePlusRatePerCompounding, compoundings);
-        return ((CI * 100) | 0) / 100;
+        var r = this.toFraction('rate', rate, 'percent');
+        (0, validation_1.assertPositive)('numOfCompoundings', numOfCompoundings);
+        (0, validation_1.assertNonNegative)('numOfPeriods', numOfPeriods);
+        var CI = (0, interest_1.compoundInterest)({ rate: r, principal: principal, periods: numOfPeriods, compoundings: numOfCompoundings });
+        return this.round(CI, { decimals: 2, mode: 'floor' });
     };
     ;
     /**
@@ -220,13 +455,13 @@ var Finance = /** @class */ (function () {
      * @example CAGR(100, 200, 1) // 100 (yearly)
      */
     Finance.prototype.CAGR = function (beginningValue, endingValue, numOfPeriods) {
-        var power = 1 / numOfPeriods;
-        var CAGR = Math.pow(endingValue / beginningValue, power) - 1;
-        return Math.round(CAGR * 10000) / 100;
+        (0, validation_1.assertPositive)('numOfPeriods', numOfPeriods);
+        return this.roundRate((0, performance_1.cagr)({ beginningValue: beginningValue, endingValue: endingValue, periods: numOfPeriods }), 'percent');
     };
     ;
     /**
-     * Leverage Ratio (LR) - the ratio of total liabilities and total debts to total income
+     * Leverage Ratio (LR) - the ratio of total liabilities and total debts to total income. Not a standard leverage
+     * ratio; analyzeRatios has debt-to-equity, debt-to-assets and the equity multiplier.
      * @param totalLiabilities - total liabilities
      * @param totalDebts - total debts
      * @param totalIncome - total income
@@ -234,7 +469,7 @@ var Finance = /** @class */ (function () {
      * @example LR(100, 100, 100) // 2
      */
     Finance.prototype.LR = function (totalLiabilities, totalDebts, totalIncome) {
-        return (totalLiabilities + totalDebts) / totalIncome;
+        return this.round((0, ratios_1.leverageRatio)({ totalLiabilities: totalLiabilities, totalDebts: totalDebts, totalIncome: totalIncome }), UNROUNDED);
     };
     ;
     /**
@@ -243,7 +478,8 @@ var Finance = /** @class */ (function () {
      * @returns {number} - rule of 72
      */
     Finance.prototype.R72 = function (rate) {
-        return 72 / rate;
+        var r = this.toFraction('rate', rate, 'percent');
+        return this.round((0, interest_1.ruleOf72)(r), UNROUNDED);
     };
     /**
      * Weighted Average Cost of Capital (WACC) - the weighted average of the cost of all the capital sources of a firm
@@ -256,82 +492,241 @@ var Finance = /** @class */ (function () {
      * @example WACC(100, 100, 10, 10, 10) // 10
      */
     Finance.prototype.WACC = function (marketValueOfEquity, marketValueOfDebt, costOfEquity, costOfDebt, taxRate) {
-        var E = marketValueOfEquity;
-        var D = marketValueOfDebt;
-        var V = marketValueOfEquity + marketValueOfDebt;
-        var Re = costOfEquity;
-        var Rd = costOfDebt;
-        var T = taxRate;
-        var WACC = (E / V) * (Re / 100) + (D / V) * (Rd / 100) * (1 - T / 100);
-        return Math.round(WACC * 1000) / 10;
+        var Re = this.toFraction('costOfEquity', costOfEquity, 'percent');
+        var Rd = this.toFraction('costOfDebt', costOfDebt, 'percent');
+        var T = this.toFraction('taxRate', taxRate, 'percent');
+        return this.roundRate((0, valuation_1.wacc)(marketValueOfEquity, marketValueOfDebt, Re, Rd, T), 'percent', { decimals: 1 });
     };
     /**
      * Loan Payment calculation - calculates the monthly payment for a loan
-     * @param rate - interest rate
+     * @param rate - annual interest rate, compounded monthly
      * @param numOfPayments - number of payments
      * @param principal - principal amount
      * @returns {number} - loan payment
      * @example PMT(10, 12, 100) // 10
      */
     Finance.prototype.PMT = function (rate, numOfPayments, principal) {
-        var monthlyRate = rate / 1200;
-        var pmt = -(principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -numOfPayments));
-        return Math.round(pmt * 100) / 100;
+        var r = this.exactFraction('rate', rate, 'percent');
+        (0, validation_1.assertPositive)('numOfPayments', numOfPayments);
+        (0, validation_1.assertFinite)('principal', principal);
+        return (0, interest_1.loanPayment)(__assign({ principal: -principal, rate: r, numOfPayments: numOfPayments }, this.backend));
     };
     ;
     /**
      * IAR calculates the Inflation-adjusted return - the return on an investment after adjusting for inflation
-     * @param investmentReturn - investment return
-     * @param inflationRate - inflation rate
-     * @returns {number} - inflation-adjusted return
-     * @example IAR(10, 10) // 0
+     * @param investmentReturn - investment return, as a decimal unless a rate unit is set
+     * @param inflationRate - inflation rate, as a decimal unless a rate unit is set
+     * @returns {number} - inflation-adjusted return in percent
+     * @example IAR(0.1, 0.1) // 0
      */
     Finance.prototype.IAR = function (investmentReturn, inflationRate) {
-        return 100 * (((1 + investmentReturn) / (1 + inflationRate)) - 1);
+        var nominal = this.toFraction('investmentReturn', investmentReturn, 'decimal');
+        var inflation = this.toFraction('inflationRate', inflationRate, 'decimal');
+        return this.roundRate((0, performance_1.realReturn)({ nominalReturn: nominal, inflation: inflation }), 'percent', UNROUNDED);
     };
     ;
+    /**
+     * Annual Percentage Rate (APR) - the yearly cost of a loan with monthly payments, including its upfront fees
+     * @param principal - principal amount
+     * @param rate - annual interest rate, compounded monthly
+     * @param numOfPayments - number of monthly payments
+     * @param fees - finance charges paid upfront, e.g. origination fees and points
+     * @returns {number} - annual percentage rate
+     * @example APR(200000, 6, 360, 4000) // 6.19
+     */
+    Finance.prototype.APR = function (principal, rate, numOfPayments, fees) {
+        if (fees === void 0) { fees = 0; }
+        var r = this.toFraction('rate', rate, 'percent');
+        return this.roundRate((0, lending_1.apr)({ principal: principal, rate: r, numOfPayments: numOfPayments, fees: fees }).apr, 'percent');
+    };
+    /**
+     * Annual Percentage Yield (APY) - the effective annual rate of a nominal rate with its compounding
+     * @param rate - annual nominal rate
+     * @param compoundings - compoundings per year, or 'continuous'
+     * @returns {number} - annual percentage yield
+     * @example APY(5, 12) // 5.12
+     */
+    Finance.prototype.APY = function (rate, compoundings) {
+        var r = this.toFraction('rate', rate, 'percent');
+        return this.roundRate((0, lending_1.apy)({ rate: r, compoundings: compoundings }), 'percent');
+    };
+    /**
+     * Converts a nominal rate between compoundings, keeping the growth over a year the same
+     * @param rate - annual nominal rate
+     * @param from - compoundings per year of the rate, or 'continuous'
+     * @param to - compoundings per year of the result, or 'continuous'
+     * @returns {number} - annual nominal rate at the target compounding
+     * @example convertCompounding(5, 12, 'continuous') // 4.98961...
+     */
+    Finance.prototype.convertCompounding = function (rate, from, to) {
+        var r = this.toFraction('rate', rate, 'percent');
+        return this.roundRate((0, lending_1.convertCompounding)({ rate: r, from: from, to: to }), 'percent', UNROUNDED);
+    };
+    /**
+     * Loan comparison - the total cost and the present value of cost of loan offers, and which is cheapest by each
+     * @param offers - principal, annual rate, number of payments, frequency and fees of each offer
+     * @param discountRate - annual rate the payments are discounted at
+     * @returns {LoanComparison} - cost of each offer and the indexes of the cheapest
+     * @example compareLoans([{ principal: 10000, rate: 6, numOfPayments: 36 }, { principal: 10000, rate: 5, numOfPayments: 36, fees: 300 }], 4).lowestNpv // 0
+     */
+    Finance.prototype.compareLoans = function (offers, discountRate) {
+        var _this = this;
+        var result = (0, lending_1.compareLoans)({
+            offers: (offers || []).map(function (offer, i) { return (__assign(__assign({}, offer), { rate: _this.toFraction("offers[".concat(i, "].rate"), offer.rate, 'percent') })); }),
+            discountRate: this.toFraction('discountRate', discountRate, 'percent'),
+        });
+        return __assign(__assign({}, result), { offers: result.offers.map(function (offer) { return (__assign(__assign({}, offer), { payment: _this.round(offer.payment), totalOfPayments: _this.round(offer.totalOfPayments), totalInterest: _this.round(offer.totalInterest), totalCost: _this.round(offer.totalCost), npv: _this.round(offer.npv), apr: _this.roundRate(offer.apr, 'percent') })); }) });
+    };
+    /**
+     * Refinance break-even - the month the payments saved by refinancing a loan first cover the closing costs
+     * @param options - balance, annual rate and remaining monthly payments of the current loan, annual rate and payments of the
+     * new loan, and closing costs
+     * @returns {RefinanceResult} - both payments, the monthly savings, the break-even month and the net savings
+     * @example refinanceBreakEven({ balance: 200000, currentRate: 7, remainingPayments: 300, newRate: 5.5, closingCosts: 4000 }).breakEvenMonth // 22
+     */
+    Finance.prototype.refinanceBreakEven = function (options) {
+        var result = (0, lending_1.refinanceBreakEven)(__assign(__assign({}, options), { currentRate: this.toFraction('currentRate', options.currentRate, 'percent'), newRate: this.toFraction('newRate', options.newRate, 'percent') }));
+        return __assign(__assign({}, result), { currentPayment: this.round(result.currentPayment), newPayment: this.round(result.newPayment), monthlySavings: this.round(result.monthlySavings), netSavings: this.round(result.netSavings) });
+    };
+    /**
+     * Affordability - the largest loan whose monthly payment keeps debt payments within a target share of income
+     * @param options - gross monthly income, target debt-to-income ratio, other monthly debt payments, and the annual rate and
+     * monthly payments of the loan
+     * @returns {Affordability} - highest monthly payment and the principal it repays
+     * @example affordability({ monthlyIncome: 8000, targetDti: 36, otherDebtPayments: 500, rate: 6, numOfPayments: 360 }).maxPrincipal // 396964.04
+     */
+    Finance.prototype.affordability = function (options) {
+        var result = (0, lending_1.affordability)(__assign(__assign({}, options), { targetDti: this.toFraction('targetDti', options.targetDti, 'percent'), rate: this.toFraction('rate', options.rate, 'percent') }));
+        return { maxPayment: this.round(result.maxPayment), maxPrincipal: this.round(result.maxPrincipal) };
+    };
+    /**
+     * Debt-to-Income ratio (DTI) - monthly debt payments as a percentage of gross monthly income
+     * @param monthlyDebtPayments - monthly payments on all debts
+     * @param monthlyIncome - gross monthly income
+     * @returns {number} - debt-to-income ratio
+     * @example DTI(2000, 8000) // 25
+     */
+    Finance.prototype.DTI = function (monthlyDebtPayments, monthlyIncome) {
+        return this.roundRate((0, ratios_1.debtToIncome)({ monthlyDebtPayments: monthlyDebtPayments, monthlyIncome: monthlyIncome }), 'percent');
+    };
+    /**
+     * Ratio analysis - liquidity, leverage, coverage, efficiency and profitability ratios of a period's financial
+     * statements, with the DuPont decomposition of return on equity
+     * @param statements - income statement, closing balance sheet, cash flow statement and opening balance sheet
+     * @param options - days in the period
+     * @returns {RatioAnalysis} - margins and returns in percent, other ratios as multiples or days, flagged when a
+     * statement field is missing or a denominator is 0
+     * @example analyzeRatios({ income: { revenue: 1000, netIncome: 100 }, balance: { shareholdersEquity: 500 } }).profitability.returnOnEquity // { value: 20 }
+     */
+    Finance.prototype.analyzeRatios = function (statements, options) {
+        var analysis = (0, ratios_1.analyzeRatios)(statements, options);
+        var dupont = analysis.dupont;
+        return {
+            liquidity: this.ratios(analysis.liquidity),
+            leverage: this.ratios(analysis.leverage),
+            coverage: this.ratios(analysis.coverage),
+            efficiency: this.ratios(analysis.efficiency),
+            profitability: this.ratios(analysis.profitability, true),
+            dupont: __assign(__assign({}, this.ratios(dupont)), { operatingMargin: this.ratio(dupont.operatingMargin, true), netMargin: this.ratio(dupont.netMargin, true), returnOnEquity: this.ratio(dupont.returnOnEquity, true) }),
+        };
+    };
+    /**
+     * Statement growth - growth of revenue, income, assets, equity and operating cash flow from each period to the
+     * next, and compounded from the first period to the last
+     * @param statements - financial statements of consecutive periods, oldest first
+     * @returns {Record<GrowthMetric, Growth>} - period-over-period growth and CAGR of each metric in percent
+     * @example statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]).revenue.cagr // { value: 21 }
+     */
+    Finance.prototype.statementGrowth = function (statements) {
+        var _this = this;
+        var growth = (0, ratios_1.statementGrowth)(statements);
+        Object.keys(growth).forEach(function (metric) {
+            var _a = growth[metric], periodOverPeriod = _a.periodOverPeriod, compound = _a.cagr;
+            growth[metric] = {
+                periodOverPeriod: periodOverPeriod.map(function (ratio) { return _this.ratio(ratio, true); }),
+                cagr: _this.ratio(compound, true),
+            };
+        });
+        return growth;
+    };
+    /**
+     * XNPV - NPV for irregular intervals
+     * @param rate - interest rate
+     * @param cfs - cash flows
+     * @param dts - dates, discounted back to the first date
+     * @param dayCount - day count convention for the year fractions, defaults to ACT/365F
+     * @returns {number} - net present value of cash flows that occur at irregular intervals
+     * @example XNPV(9, [-10000, 2750, 4250, 3250, 2750], dates) // 2086.65
+     */
+    Finance.prototype.XNPV = function (rate, cfs, dts, dayCount) {
+        var r = this.toFraction('rate', rate, 'percent');
+        (0, validation_1.assertCashFlows)('cfs', cfs);
+        (0, validation_1.assertDates)('dts', dts, cfs.length);
+        return this.round(budgeting.xnpv({ rate: r, cashFlows: cfs, dates: dts, dayCount: dayCount }));
+    };
     /**
      * XIRR - IRR for irregular intervals
      * @param cfs - cash flows
      * @param dts - dates
-     * @param guess - guess for XIRR
+     * @param guess - guess for XIRR, used as the starting point when the rate can't be bracketed
+     * @param options - solver tolerance, iteration cap and bracket, and day count convention. The guess and bracket
+     * are fractions unless a rate unit is set
      * @returns {number} - The internal rate of return (IRR) for a series of cash flows that occur at irregular intervals.
      */
-    Finance.prototype.XIRR = function (cfs, dts, guess) {
+    Finance.prototype.XIRR = function (cfs, dts, guess, options) {
         if (guess === void 0) { guess = 0; }
-        if (cfs.length !== dts.length) {
-            throw new Error('Number of cash flows and dates should match');
-        }
-        var positive = false, negative = false;
-        for (var _i = 0, cfs_1 = cfs; _i < cfs_1.length; _i++) {
-            var value = cfs_1[_i];
-            if (value > 0) {
-                positive = true;
-            }
-            if (value < 0) {
-                negative = true;
-            }
-        }
-        if (!positive || !negative) {
-            throw new Error('XIRR requires at least one positive value and one negative value');
-        }
-        var limit = 100; // loop limit
-        var guessLast;
-        var durs = [0];
-        // Create Array of durations from First date
-        for (var i = 1; i < dts.length; i++) {
-            durs.push(this.durYear(dts[0], dts[i]));
-        }
-        do {
-            guessLast = guess;
-            guess = guessLast - this.sumEq(cfs, durs, guessLast);
-            limit--;
-        } while (guessLast.toFixed(5) !== guess.toFixed(5) && limit > 0);
-        var xirr = guessLast.toFixed(5) !== guess.toFixed(5) ? null : guess * 100;
-        if (xirr === null) {
-            throw new Error('XIRR did not converge');
+        if (options === void 0) { options = {}; }
+        (0, validation_1.assertCashFlows)('cfs', cfs, 2);
+        (0, validation_1.assertDates)('dts', dts, cfs.length);
+        (0, validation_1.assertSignChange)('cfs', cfs, 'XIRR');
+        var solverOptions = this.solverOptions(__assign({ bracket: solver_1.RATE_BRACKET, guess: guess }, options));
+        return this.roundRate(tvm.xirr(cfs, dts, solverOptions.guess, solverOptions), 'percent');
+    };
+    /**
+     * XMIRR - MIRR for irregular intervals
+     * @param cfs - cash flows
+     * @param dts - dates
+     * @param financeRate - interest rate paid on the money used in the cash flows
+     * @param reinvestRate - interest rate received on the cash flows as they are reinvested
+     * @param dayCount - day count convention for the year fractions, defaults to ACT/365F
+     * @returns {number} - The modified internal rate of return for cash flows that occur at irregular intervals.
+     */
+    Finance.prototype.XMIRR = function (cfs, dts, financeRate, reinvestRate, dayCount) {
+        var finance = this.toFraction('financeRate', financeRate, 'percent');
+        var reinvest = this.toFraction('reinvestRate', reinvestRate, 'percent');
+        (0, validation_1.assertCashFlows)('cfs', cfs, 2);
+        (0, validation_1.assertDates)('dts', dts, cfs.length);
+        (0, validation_1.assertSignChange)('cfs', cfs, 'XMIRR');
+        if (Math.max.apply(Math, dts.map(function (date) { return (0, daycount_1.yearFraction)(dts[0], date, dayCount); })) <= 0) {
+            throw new errors_1.ValidationError('dts must span more than one day', 'dts');
         }
-        return Math.round(xirr * 100) / 100;
+        return this.roundRate(budgeting.xmirr({ cashFlows: cfs, dates: dts, financeRate: finance, reinvestRate: reinvest, dayCount: dayCount }), 'percent');
+    };
+    /**
+     * Time-weighted return (TWR) - returns between valuations linked geometrically, unaffected by the timing of
+     * external flows. Valuing the portfolio on each flow date gives the true daily-linked return.
+     * @param valuations - dates and values at the end of the day, in date order
+     * @param flows - money added to or withdrawn from the portfolio after the first valuation
+     * @param dayCount - day count convention weighting flows between valuations, defaults to ACT/365F
+     * @returns {number} - return over the whole period
+     * @example TWR([{ date: jan1, value: 1000 }, { date: jun30, value: 1100 }, { date: dec31, value: 1320 }]) // 32
+     */
+    Finance.prototype.TWR = function (valuations, flows, dayCount) {
+        if (flows === void 0) { flows = []; }
+        return this.roundRate((0, performance_1.timeWeightedReturn)(valuations, flows, dayCount), 'percent');
+    };
+    /**
+     * Money-weighted return (MWR) - XIRR of the first valuation and the flows against the last valuation
+     * @param valuations - dates and values at the end of the day, in date order
+     * @param flows - money added to or withdrawn from the portfolio after the first valuation
+     * @param options - solver tolerance, iteration cap, bracket and guess, and day count convention. The guess and
+     * bracket are fractions unless a rate unit is set
+     * @returns {number} - annual return
+     */
+    Finance.prototype.MWR = function (valuations, flows, options) {
+        if (flows === void 0) { flows = []; }
+        if (options === void 0) { options = {}; }
+        return this.roundRate((0, performance_1.moneyWeightedReturn)(valuations, flows, this.solverOptions(options)), 'percent');
     };
     /**
      * CAPM calculates expected return of an asset.
@@ -339,11 +734,14 @@ var Finance = /** @class */ (function () {
      * @param beta Beta of the asset
      * @param emr Expected market return
      * @param err Equity risk premium
-     * @returns Expected return of an asset using the Capital Asset Pricing Model (CAPM).
-     * @example CAPM(10, 10, 10, 10) // 10
+     * @returns Expected return of an asset using the Capital Asset Pricing Model (CAPM), as a decimal unless a rate unit is set.
+     * @example CAPM(10, 10, 10, 10) // 0.2
      */
     Finance.prototype.CAPM = function (rf, beta, emr, err) {
-        return rf / 100 + beta * (emr / 100 - rf / 100) + err / 100;
+        var riskFree = this.toFraction('rf', rf, 'percent');
+        var market = this.toFraction('emr', emr, 'percent');
+        var premium = this.toFraction('err', err, 'percent');
+        return this.roundRate((0, valuation_1.capm)(riskFree, beta, market, premium), 'decimal', UNROUNDED);
     };
     /**
      * Returns the Value of stock with dividend growing at a constant growth rate to perpetuity.
@@ -351,42 +749,557 @@ var Finance = /** @class */ (function () {
      * @param ke - cost of equity
      * @param D0 - dividend
      * @returns {number} - value of stock
-     * @example stockPV(10, 10, 10) // 10
+     * @example stockPV(5, 10, 2) // 42
      */
     Finance.prototype.stockPV = function (g, ke, D0) {
-        var valueOfStock = (D0 * (1 + g / 100)) / ((ke / 100) - (g / 100));
-        return Math.round(valueOfStock);
-    };
-    Finance.prototype.durYear = function (date1, date2) {
-        var day = 24 * 60 * 60 * 1000;
-        var diffDays = Math.round(Math.abs((date2.getTime() - date1.getTime()) / day));
-        return diffDays / 365;
-    };
-    Finance.prototype.sumEq = function (cfs, durs, guess) {
-        var sum_fx = 0;
-        var sum_fdx = 0;
-        for (var i = 0; i < cfs.length; i++) {
-            sum_fx = sum_fx + (cfs[i] / Math.pow(1 + guess, durs[i]));
+        var growth = this.toFraction('g', g, 'percent');
+        var costOfEquity = this.toFraction('ke', ke, 'percent');
+        (0, validation_1.assertFinite)('D0', D0);
+        if (growth >= costOfEquity) {
+            throw new errors_1.ValidationError('g must be lower than ke for a constant growth valuation', 'g');
         }
-        for (i = 0; i < cfs.length; i++) {
-            sum_fdx = sum_fdx + (-cfs[i] * durs[i] * Math.pow(1 + guess, -1 - durs[i]));
+        return this.round((0, valuation_1.gordonGrowth)(D0, growth, costOfEquity), { decimals: 0 });
+    };
+    /**
+     * Two-stage dividend discount model - value of a stock whose dividend grows at a high rate for some years, then
+     * at a stable rate in perpetuity
+     * @param options - dividend just paid, high growth rate and years, stable growth rate, and cost of equity or
+     * its CAPM inputs
+     * @returns {number} - value of stock
+     * @example twoStageDDM({ dividend: 1, highGrowth: 20, highGrowthYears: 3, stableGrowth: 5, costOfEquity: 10 }) // 30.84
+     */
+    Finance.prototype.twoStageDDM = function (options) {
+        return this.round((0, valuation_1.twoStageDDM)(this.dividendDiscount(options)));
+    };
+    /**
+     * Three-stage dividend discount model - value of a stock whose dividend grows at a high rate for some years,
+     * then at a rate declining linearly over a transition, then at a stable rate in perpetuity
+     * @param options - dividend just paid, high growth rate and years, transition years, stable growth rate, and
+     * cost of equity or its CAPM inputs
+     * @returns {number} - value of stock
+     */
+    Finance.prototype.threeStageDDM = function (options) {
+        return this.round((0, valuation_1.threeStageDDM)(this.dividendDiscount(options)));
+    };
+    /**
+     * H-model - value of a stock whose dividend growth declines linearly from an initial to a stable rate
+     * @param options - dividend just paid, initial and stable growth rates, half-life of the decline, and cost of
+     * equity or its CAPM inputs
+     * @returns {number} - value of stock
+     * @example hModel({ dividend: 1, initialGrowth: 20, stableGrowth: 5, halfLife: 5, costOfEquity: 10 }) // 36
+     */
+    Finance.prototype.hModel = function (options) {
+        return this.round((0, valuation_1.hModel)(__assign(__assign({}, options), { initialGrowth: this.toFraction('initialGrowth', options.initialGrowth, 'percent'), stableGrowth: this.toFraction('stableGrowth', options.stableGrowth, 'percent'), costOfEquity: this.discountRate('costOfEquity', options.costOfEquity) })));
+    };
+    /**
+     * Discounted cash flow (DCF) - value of forecast free cash flows to the firm (FCFF) or to equity (FCFE) plus a
+     * terminal value from perpetual growth or an exit multiple, bridged from enterprise to equity value
+     * @param options - cash flow basis, forecast cash flows, discount rate or its WACC or CAPM inputs, terminal
+     * value method, debt, cash, minority interest, preferred equity and shares outstanding
+     * @returns {DcfResult} - present values, terminal value, enterprise to equity value bridge and value per share
+     * @example DCF({ basis: 'fcff', cashFlows: [100, 110], discountRate: 10, terminalValue: { method: 'exit-multiple', multiple: 8, metric: 150 } })
+     */
+    Finance.prototype.DCF = function (options) {
+        var terminal = options.terminalValue;
+        var result = (0, valuation_1.discountedCashFlow)(__assign(__assign({}, options), { discountRate: this.discountRate('discountRate', options.discountRate), terminalValue: terminal && terminal.method === 'perpetual-growth'
+                ? __assign(__assign({}, terminal), { growth: this.toFraction('terminalValue.growth', terminal.growth, 'percent') }) : terminal }));
+        var bridge = result.bridge;
+        return __assign({ discountRate: this.roundRate(result.discountRate, 'percent', UNROUNDED), presentValueOfCashFlows: this.round(result.presentValueOfCashFlows), terminalValue: this.round(result.terminalValue), presentValueOfTerminalValue: this.round(result.presentValueOfTerminalValue), bridge: {
+                enterpriseValue: this.round(bridge.enterpriseValue),
+                debt: bridge.debt,
+                cash: bridge.cash,
+                minorityInterest: bridge.minorityInterest,
+                preferredEquity: bridge.preferredEquity,
+                equityValue: this.round(bridge.equityValue),
+            } }, (result.valuePerShare === undefined ? {} : { valuePerShare: this.round(result.valuePerShare) }));
+    };
+    /**
+     * Rate per period (RATE) - the spreadsheet RATE function, solved iteratively from the guess
+     * @param numOfPeriods - number of periods
+     * @param payment - payment made each period, negative when paid out
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @param guess - starting rate, defaults to 0.1
+     * @returns {number} - rate per period, as a decimal unless a rate unit is set
+     * @example RATE(48, -200, 8000) // 0.0077
+     */
+    Finance.prototype.RATE = function (numOfPeriods, payment, presentValue, futureValue, type, guess) {
+        if (futureValue === void 0) { futureValue = 0; }
+        if (type === void 0) { type = 0; }
+        var start = guess === undefined ? 0.1 : this.toFraction('guess', guess, 'decimal');
+        var ratePerPeriod = tvm.rate(numOfPeriods, payment, presentValue, futureValue, type, start);
+        return this.roundRate(ratePerPeriod, 'decimal', UNROUNDED);
+    };
+    /**
+     * Number of periods (NPER) - the spreadsheet NPER function
+     * @param ratePerPeriod - interest rate per period
+     * @param payment - payment made each period, negative when paid out
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - number of periods
+     * @example NPER(0.01, -100, -1000, 10000, 1) // 59.67
+     */
+    Finance.prototype.NPER = function (ratePerPeriod, payment, presentValue, futureValue, type) {
+        if (futureValue === void 0) { futureValue = 0; }
+        if (type === void 0) { type = 0; }
+        var r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.nper(r, payment, presentValue, futureValue, type), UNROUNDED);
+    };
+    /**
+     * Interest payment (IPMT) - the spreadsheet IPMT function, the interest part of one payment
+     * @param ratePerPeriod - interest rate per period
+     * @param per - period, from 1 to numOfPeriods
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - interest paid in the period
+     * @example IPMT(0.1 / 12, 1, 36, 8000) // -66.67
+     */
+    Finance.prototype.IPMT = function (ratePerPeriod, per, numOfPeriods, presentValue, futureValue, type) {
+        if (futureValue === void 0) { futureValue = 0; }
+        if (type === void 0) { type = 0; }
+        var r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.ipmt(r, per, numOfPeriods, presentValue, futureValue, type), UNROUNDED);
+    };
+    /**
+     * Principal payment (PPMT) - the spreadsheet PPMT function, the principal part of one payment
+     * @param ratePerPeriod - interest rate per period
+     * @param per - period, from 1 to numOfPeriods
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - principal repaid in the period
+     * @example PPMT(0.1 / 12, 1, 24, 2000) // -75.62
+     */
+    Finance.prototype.PPMT = function (ratePerPeriod, per, numOfPeriods, presentValue, futureValue, type) {
+        if (futureValue === void 0) { futureValue = 0; }
+        if (type === void 0) { type = 0; }
+        var r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.ppmt(r, per, numOfPeriods, presentValue, futureValue, type), UNROUNDED);
+    };
+    /**
+     * Cumulative interest (CUMIPMT) - the spreadsheet CUMIPMT function, interest paid between two periods
+     * @param ratePerPeriod - interest rate per period
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param startPeriod - first period, from 1
+     * @param endPeriod - last period, up to numOfPeriods
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - interest paid
+     * @example CUMIPMT(0.09 / 12, 360, 125000, 13, 24, 0) // -11135.23
+     */
+    Finance.prototype.CUMIPMT = function (ratePerPeriod, numOfPeriods, presentValue, startPeriod, endPeriod, type) {
+        var r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.cumipmt(r, numOfPeriods, presentValue, startPeriod, endPeriod, type), UNROUNDED);
+    };
+    /**
+     * Cumulative principal (CUMPRINC) - the spreadsheet CUMPRINC function, principal repaid between two periods
+     * @param ratePerPeriod - interest rate per period
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param startPeriod - first period, from 1
+     * @param endPeriod - last period, up to numOfPeriods
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - principal repaid
+     * @example CUMPRINC(0.09 / 12, 360, 125000, 13, 24, 0) // -934.11
+     */
+    Finance.prototype.CUMPRINC = function (ratePerPeriod, numOfPeriods, presentValue, startPeriod, endPeriod, type) {
+        var r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.cumprinc(r, numOfPeriods, presentValue, startPeriod, endPeriod, type), UNROUNDED);
+    };
+    /**
+     * Effective annual rate (EFFECT) - the spreadsheet EFFECT function
+     * @param nominalRate - nominal annual rate
+     * @param npery - compounding periods per year
+     * @returns {number} - effective annual rate, as a decimal unless a rate unit is set
+     * @example EFFECT(0.0525, 4) // 0.053542667
+     */
+    Finance.prototype.EFFECT = function (nominalRate, npery) {
+        var r = this.toFraction('nominalRate', nominalRate, 'decimal');
+        return this.roundRate(tvm.effect(r, npery), 'decimal', UNROUNDED);
+    };
+    /**
+     * Nominal annual rate (NOMINAL) - the spreadsheet NOMINAL function
+     * @param effectRate - effective annual rate
+     * @param npery - compounding periods per year
+     * @returns {number} - nominal annual rate, as a decimal unless a rate unit is set
+     * @example NOMINAL(0.053543, 4) // 0.05250032
+     */
+    Finance.prototype.NOMINAL = function (effectRate, npery) {
+        var r = this.toFraction('effectRate', effectRate, 'decimal');
+        return this.roundRate(tvm.nominal(r, npery), 'decimal', UNROUNDED);
+    };
+    /**
+     * Straight-line depreciation (SLN) - the spreadsheet SLN function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @returns {number} - depreciation per period
+     * @example SLN(30000, 7500, 10) // 2250
+     */
+    Finance.prototype.SLN = function (cost, salvage, life) {
+        return this.round((0, depreciation_1.sln)(cost, salvage, life), UNROUNDED);
+    };
+    /**
+     * Sum-of-years' digits depreciation (SYD) - the spreadsheet SYD function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param period - period, from 1 to life
+     * @returns {number} - depreciation in the period
+     * @example SYD(30000, 7500, 10, 10) // 409.09
+     */
+    Finance.prototype.SYD = function (cost, salvage, life, period) {
+        return this.round((0, depreciation_1.syd)(cost, salvage, life, period), UNROUNDED);
+    };
+    /**
+     * Fixed-declining balance depreciation (DB) - the spreadsheet DB function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in years
+     * @param period - period, from 1 to life, or life + 1 with a partial first year
+     * @param month - months in the first year, defaults to 12
+     * @returns {number} - depreciation in the period
+     * @example DB(1000000, 100000, 6, 2, 7) // 259639.42
+     */
+    Finance.prototype.DB = function (cost, salvage, life, period, month) {
+        if (month === void 0) { month = 12; }
+        return this.round((0, depreciation_1.db)(cost, salvage, life, period, month), UNROUNDED);
+    };
+    /**
+     * Double-declining balance depreciation (DDB) - the spreadsheet DDB function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param period - period, from 1 to life
+     * @param factor - declining balance rate, defaults to 2
+     * @returns {number} - depreciation in the period
+     * @example DDB(2400, 300, 10, 10) // 22.12
+     */
+    Finance.prototype.DDB = function (cost, salvage, life, period, factor) {
+        if (factor === void 0) { factor = 2; }
+        return this.round((0, depreciation_1.ddb)(cost, salvage, life, period, factor), UNROUNDED);
+    };
+    /**
+     * Variable declining balance depreciation (VDB) - the spreadsheet VDB function, declining balance switching
+     * to straight-line
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param startPeriod - start of the interval
+     * @param endPeriod - end of the interval
+     * @param factor - declining balance rate, defaults to 2
+     * @param noSwitch - true - never switch to straight-line
+     * @returns {number} - depreciation over the interval
+     * @example VDB(2400, 300, 120, 6, 18) // 396.31
+     */
+    Finance.prototype.VDB = function (cost, salvage, life, startPeriod, endPeriod, factor, noSwitch) {
+        if (factor === void 0) { factor = 2; }
+        if (noSwitch === void 0) { noSwitch = false; }
+        return this.round((0, depreciation_1.vdb)(cost, salvage, life, startPeriod, endPeriod, factor, noSwitch), UNROUNDED);
+    };
+    /**
+     * MACRS depreciation - US modified accelerated cost recovery system, half-year convention
+     * @param cost - depreciable basis of the asset
+     * @param recoveryPeriod - property class, 3, 5, 7, 10, 15 or 20 years
+     * @param year - recovery year, from 1 to recoveryPeriod + 1
+     * @returns {number} - depreciation in the year
+     * @example MACRS(10000, 5, 2) // 3200
+     */
+    Finance.prototype.MACRS = function (cost, recoveryPeriod, year) {
+        return this.round((0, depreciation_1.macrs)(cost, recoveryPeriod, year));
+    };
+    /**
+     * Depreciation schedule - depreciation and book value for every year of an asset's life
+     * @param options - cost, salvage, life, method, declining balance factor, first year months and rounding
+     * @returns {DepreciationRow[]} - one row per year
+     * @example depreciationSchedule({ cost: 10000, salvage: 1000, life: 5, method: 'straight-line' })[0].depreciation // 1800
+     */
+    Finance.prototype.depreciationSchedule = function (options) {
+        return (0, depreciation_1.depreciationSchedule)(__assign({ rounding: this.options.rounding }, options));
+    };
+    /**
+     * Bond analytics - clean and dirty price, accrued interest, Macaulay and modified duration, convexity and DV01
+     * at a yield
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param yieldRate - annual yield
+     * @returns {BondAnalytics} - prices and risk measures per face value
+     * @example bondAnalytics({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 5.75 }, 6.5).cleanPrice // 94.63
+     */
+    Finance.prototype.bondAnalytics = function (bond, yieldRate) {
+        var analytics = (0, bond_1.bondAnalytics)(this.bond(bond), this.toFraction('yieldRate', yieldRate, 'percent'));
+        return {
+            cleanPrice: this.round(analytics.cleanPrice, UNROUNDED),
+            dirtyPrice: this.round(analytics.dirtyPrice, UNROUNDED),
+            accruedInterest: this.round(analytics.accruedInterest, UNROUNDED),
+            macaulayDuration: this.round(analytics.macaulayDuration, UNROUNDED),
+            modifiedDuration: this.round(analytics.modifiedDuration, UNROUNDED),
+            convexity: this.round(analytics.convexity, UNROUNDED),
+            dv01: this.round(analytics.dv01, UNROUNDED),
+        };
+    };
+    /**
+     * Yield to maturity (YTM) - the yield at which a bond's cash flows are worth its clean price
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param price - clean price per face value
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual yield
+     * @example YTM({ settlement: new Date('2008-02-15'), maturity: new Date('2016-11-15'), couponRate: 5.75 }, 95.04287) // 6.5
+     */
+    Finance.prototype.YTM = function (bond, price, options) {
+        if (options === void 0) { options = {}; }
+        return this.roundRate((0, bond_1.yieldToMaturity)(this.bond(bond), price, this.solverOptions(options)), 'percent', UNROUNDED);
+    };
+    /**
+     * Yield to call (YTC) - the yield of a bond redeemed at the call price on the call date
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param price - clean price per face value
+     * @param call - call date and call price
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual yield
+     */
+    Finance.prototype.YTC = function (bond, price, call, options) {
+        if (options === void 0) { options = {}; }
+        return this.roundRate((0, bond_1.yieldToCall)(this.bond(bond), price, call, this.solverOptions(options)), 'percent', UNROUNDED);
+    };
+    /**
+     * Black-Scholes-Merton - price and Greeks of a European option on an underlying paying a continuous dividend
+     * yield. Sensitivities to rates and volatility are per unit of the configured rate unit, e.g. vega per
+     * volatility point in percent.
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+     * @returns {OptionValuation} - price and first and second order Greeks
+     * @example blackScholes({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 5, volatility: 20 }).price // 10.45
+     */
+    Finance.prototype.blackScholes = function (contract) {
+        var _a = (0, options_1.blackScholes)(this.optionContract(contract)), price = _a.price, greeks = _a.greeks;
+        var unit = this.fromFraction(1, 'percent');
+        return {
+            price: this.round(price, UNROUNDED),
+            greeks: {
+                delta: this.round(greeks.delta, UNROUNDED),
+                vega: this.round(greeks.vega / unit, UNROUNDED),
+                theta: this.round(greeks.theta, UNROUNDED),
+                rho: this.round(greeks.rho / unit, UNROUNDED),
+                epsilon: this.round(greeks.epsilon / unit, UNROUNDED),
+                gamma: this.round(greeks.gamma, UNROUNDED),
+                vanna: this.round(greeks.vanna / unit, UNROUNDED),
+                charm: this.round(greeks.charm, UNROUNDED),
+                vomma: this.round(greeks.vomma / (unit * unit), UNROUNDED),
+                veta: this.round(greeks.veta / unit, UNROUNDED),
+                vera: this.round(greeks.vera / (unit * unit), UNROUNDED),
+            },
+        };
+    };
+    /**
+     * Implied volatility - the volatility at which Black-Scholes-Merton prices a European option at a given price
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate and dividend yield
+     * @param price - option price
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual volatility
+     * @example impliedVolatility({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 5 }, 10.45) // 20
+     */
+    Finance.prototype.impliedVolatility = function (contract, price, options) {
+        if (options === void 0) { options = {}; }
+        var _a = this.optionContract(__assign(__assign({}, contract), { volatility: this.fromFraction(1, 'percent') })), volatility = _a.volatility, quote = __rest(_a, ["volatility"]);
+        return this.roundRate((0, options_1.impliedVolatility)(quote, price, this.solverOptions(options)), 'percent', UNROUNDED);
+    };
+    /**
+     * Cox-Ross-Rubinstein binomial tree - price of an American or European option
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+     * @param options - number of steps, defaults to 200, and exercise style, defaults to american
+     * @returns {number} - option price
+     * @example binomialPrice({ type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 5, volatility: 20 }) // 6.09
+     */
+    Finance.prototype.binomialPrice = function (contract, options) {
+        if (options === void 0) { options = {}; }
+        return this.round((0, options_1.binomialPrice)(this.optionContract(contract), options), UNROUNDED);
+    };
+    /**
+     * Monte Carlo simulation - NPV, IRR and PI of a cash flow model over trials of randomly drawn inputs
+     * @param options - input distributions, cash flow model, discount rate, trials, seed, correlations and percentiles
+     * @returns {SimulationResult} - summary of each metric and the probability of a negative NPV, the IRR in the configured unit
+     * @example simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } },
+     *     model: ({ sales }) => [-1000, sales, sales, sales], rate: 10 }).probabilityNegativeNpv // 0.16
+     */
+    Finance.prototype.simulate = function (options) {
+        var _this = this;
+        var result = (0, simulation_1.simulate)(__assign(__assign({}, options), { rate: this.toFraction('rate', options.rate, 'percent') }));
+        if (!result.irr) {
+            return result;
         }
-        return sum_fx / sum_fdx;
+        var _a = result.irr, mean = _a.mean, standardDeviation = _a.standardDeviation, min = _a.min, max = _a.max, percentiles = _a.percentiles;
+        var rate = function (fraction) { return _this.roundRate(fraction, 'percent', UNROUNDED); };
+        var irrPercentiles = {};
+        Object.keys(percentiles).forEach(function (level) { return irrPercentiles[+level] = rate(percentiles[+level]); });
+        return __assign(__assign({}, result), { irr: { mean: rate(mean), standardDeviation: rate(standardDeviation), min: rate(min), max: rate(max), percentiles: irrPercentiles } });
     };
     /**
-     * Seek zero of a function
-     * @param fn - function to find zero
-     * @returns {number} - zero
+     * Tornado sensitivity - the metric with one input at a time moved to its low and high value
+     * @param options - base value and range of each input, cash flow model, discount rate and metric
+     * @returns {TornadoResult} - base metric and one bar per input, widest swing first, an IRR in the configured unit
      */
-    Finance.prototype.seekZero = function (fn) {
-        var x = 1;
-        while (fn(x) > 0) {
-            x += 1;
+    Finance.prototype.tornado = function (options) {
+        var result = (0, simulation_1.tornado)(__assign(__assign({}, options), { rate: this.toFraction('rate', options.rate, 'percent') }));
+        var metric = this.metric(options.metric);
+        return { base: metric(result.base), bars: result.bars.map(function (_a) {
+                var input = _a.input, low = _a.low, high = _a.high, swing = _a.swing;
+                return ({
+                    input: input,
+                    low: metric(low), high: metric(high), swing: metric(swing),
+                });
+            }) };
+    };
+    /**
+     * Two-way data table - the metric for every combination of two inputs, the others held at their base
+     * @param options - base inputs, cash flow model, discount rate, row and column inputs with their values, and metric
+     * @returns {DataTable} - one row per row value and one column per column value, an IRR in the configured unit
+     */
+    Finance.prototype.dataTable = function (options) {
+        var table = (0, simulation_1.dataTable)(__assign(__assign({}, options), { rate: this.toFraction('rate', options.rate, 'percent') }));
+        var metric = this.metric(options.metric);
+        return __assign(__assign({}, table), { results: table.results.map(function (row) { return row.map(metric); }) });
+    };
+    /**
+     * Expresses a simulated metric, an IRR in the configured unit
+     */
+    Finance.prototype.metric = function (metric) {
+        var _this = this;
+        if (metric === void 0) { metric = 'npv'; }
+        return metric === 'irr' ? function (value) { return _this.roundRate(value, 'percent', UNROUNDED); } : function (value) { return _this.round(value, UNROUNDED); };
+    };
+    /**
+     * Reads the rates and volatility of an option contract in the configured unit
+     */
+    Finance.prototype.optionContract = function (contract) {
+        var riskFree = contract.riskFree, volatility = contract.volatility, dividendYield = contract.dividendYield;
+        return __assign(__assign({}, contract), { riskFree: this.toFraction('riskFree', riskFree, 'percent'), volatility: this.toFraction('volatility', volatility, 'percent'), dividendYield: dividendYield === undefined ? undefined : this.toFraction('dividendYield', dividendYield, 'percent') });
+    };
+    /**
+     * Reads the growth rates and cost of equity of a dividend discount model in the configured unit
+     */
+    Finance.prototype.dividendDiscount = function (options) {
+        return __assign(__assign({}, options), { highGrowth: this.toFraction('highGrowth', options.highGrowth, 'percent'), stableGrowth: this.toFraction('stableGrowth', options.stableGrowth, 'percent'), costOfEquity: this.discountRate('costOfEquity', options.costOfEquity) });
+    };
+    /**
+     * Reads a discount rate, or the rates among its CAPM or WACC inputs, in the configured unit
+     */
+    Finance.prototype.discountRate = function (name, rate) {
+        if (typeof rate === 'number') {
+            return this.toFraction(name, rate, 'percent');
+        }
+        if (rate.costOfEquity !== undefined) {
+            var inputs = rate;
+            return __assign(__assign({}, inputs), { costOfEquity: this.discountRate("".concat(name, ".costOfEquity"), inputs.costOfEquity), costOfDebt: this.toFraction("".concat(name, ".costOfDebt"), inputs.costOfDebt, 'percent'), taxRate: this.toFraction("".concat(name, ".taxRate"), inputs.taxRate, 'percent') });
         }
-        while (fn(x) < 0) {
-            x -= 0.01;
+        var capmInputs = rate;
+        var riskFree = capmInputs.riskFree, marketReturn = capmInputs.marketReturn, premium = capmInputs.premium;
+        return __assign(__assign({}, capmInputs), { riskFree: this.toFraction("".concat(name, ".riskFree"), riskFree, 'percent'), marketReturn: this.toFraction("".concat(name, ".marketReturn"), marketReturn, 'percent'), premium: premium === undefined ? undefined : this.toFraction("".concat(name, ".premium"), premium, 'percent') });
+    };
+    /**
+     * Reads a bond's coupon rate in the configured unit
+     */
+    Finance.prototype.bond = function (bond) {
+        return __assign(__assign({}, bond), { couponRate: this.toFraction('couponRate', bond.couponRate, 'percent') });
+    };
+    /**
+     * Rounds the cumulative cash flows of a payback result, leaving the periods unrounded like PP
+     */
+    Finance.prototype.paybackResult = function (result) {
+        var _this = this;
+        return __assign(__assign({}, result), { cumulative: result.cumulative.map(function (amount) { return _this.round(amount); }) });
+    };
+    /**
+     * Rounds the value of a ratio, a margin or return in percent like the other rates, otherwise to 2 decimals
+     */
+    Finance.prototype.ratio = function (ratio, rate) {
+        if (rate === void 0) { rate = false; }
+        if (ratio.value === undefined) {
+            return ratio;
+        }
+        return __assign(__assign({}, ratio), { value: rate ? this.roundRate(ratio.value, 'percent') : this.round(ratio.value) });
+    };
+    Finance.prototype.ratios = function (group, rate) {
+        var _this = this;
+        if (rate === void 0) { rate = false; }
+        var ratios = group;
+        var result = {};
+        Object.keys(ratios).forEach(function (name) { return result[name] = _this.ratio(ratios[name], rate); });
+        return result;
+    };
+    /**
+     * Rounds a result with the configured policy, or with the method's historical rounding when none is set
+     */
+    Finance.prototype.round = function (value, historical) {
+        if (historical === void 0) { historical = { decimals: 2 }; }
+        return (0, rounding_1.round)(value, this.options.rounding || historical);
+    };
+    Object.defineProperty(Finance.prototype, "backend", {
+        /**
+         * Number backend and rounding for the calculations that run on the backend, rounding to cents by default
+         */
+        get: function () {
+            return { arithmetic: this.options.arithmetic, rounding: this.options.rounding || { decimals: 2 } };
+        },
+        enumerable: false,
+        configurable: true
+    });
+    /**
+     * Reads a rate argument in the configured unit, or in the method's historical unit, as a validated fraction
+     */
+    Finance.prototype.toFraction = function (name, rate, historical) {
+        (0, validation_1.assertFinite)(name, rate);
+        var fraction = (0, rates_1.toDecimal)(rate, this.options.rateUnit || historical);
+        (0, validation_1.assertRate)(name, fraction);
+        return fraction;
+    };
+    /**
+     * Rounds a rate or return in the configured unit. A configured policy applies as is; the historical rounding
+     * counts decimal places in the historical unit, so 12.34% rounds to 0.1234 as a decimal and 1234 in basis points.
+     */
+    Finance.prototype.roundRate = function (fraction, historical, policy) {
+        if (policy === void 0) { policy = { decimals: 2 }; }
+        var value = this.fromFraction(fraction, historical);
+        if (this.options.rounding) {
+            return (0, rounding_1.round)(value, this.options.rounding);
+        }
+        var _a = policy.decimals, decimals = _a === void 0 ? 2 : _a, mode = policy.mode;
+        var shift = Math.round(Math.log((0, rates_1.fromDecimal)(1, historical) / (0, rates_1.fromDecimal)(1, this.options.rateUnit || historical)) / Math.LN10);
+        return (0, rounding_1.round)(value, { decimals: decimals + shift, mode: mode });
+    };
+    /**
+     * Expresses a fraction in the configured unit, or in the method's historical unit
+     */
+    Finance.prototype.fromFraction = function (fraction, historical) {
+        return (0, rates_1.fromDecimal)(fraction, this.options.rateUnit || historical);
+    };
+    /**
+     * Reads a rate argument like toFraction, dropping the binary noise of the unit conversion (7.3% is 0.073, not
+     * 0.07299999999999999) so that the decimal backend reads the rate exactly
+     */
+    Finance.prototype.exactFraction = function (name, rate, historical) {
+        return Number(this.toFraction(name, rate, historical).toPrecision(15));
+    };
+    /**
+     * Reads a rate argument as a validated percentage, the unit of R72 and of the schedule and loan modules
+     */
+    Finance.prototype.toPercent = function (name, rate) {
+        var fraction = this.toFraction(name, rate, 'percent');
+        return this.options.rateUnit ? (0, rates_1.fromDecimal)(fraction, 'percent') : rate;
+    };
+    /**
+     * Reads the guess and bracket of solver options in the configured unit
+     */
+    Finance.prototype.solverOptions = function (options) {
+        var unit = this.options.rateUnit;
+        if (!unit) {
+            return options;
         }
-        return x + 0.01;
+        var bracket = options.bracket, guess = options.guess;
+        return __assign(__assign({}, options), { bracket: bracket && [(0, rates_1.toDecimal)(bracket[0], unit), (0, rates_1.toDecimal)(bracket[1], unit)], guess: guess === undefined ? undefined : (0, rates_1.toDecimal)(guess, unit) });
     };
     return Finance;
 }());
@@ -0,0 +1,47 @@
+import { Arithmetic } from './arithmetic';
+import { RoundingPolicy } from './rounding';
+import { Frequency } from './schedule';
+export interface CompoundInterestOptions {
+    /** nominal rate per period */
+    rate: number;
+    principal: number;
+    /** number of periods */
+    periods: number;
+    /** compoundings per period, defaults to 1 */
+    compoundings?: number;
+}
+export interface LoanPaymentOptions {
+    principal: number;
+    /** annual nominal rate, compounded at the payment frequency */
+    rate: number;
+    numOfPayments: number;
+    /** defaults to monthly */
+    frequency?: Frequency;
+    /** true - pay at the beginning of each period, defaults to false */
+    payAtBeginning?: boolean;
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+    /** rounding of the result, defaults to none */
+    rounding?: RoundingPolicy;
+}
+/**
+ * Compound interest (CI) - the principal with interest compounded on the principal and the accumulated interest
+ * @param options - nominal rate, principal, number of periods and compoundings per period
+ * @returns {number} - principal and interest at the end of the last period
+ * @example compoundInterest({ rate: 0.1, principal: 100, periods: 1, compoundings: 12 }) // 110.47
+ */
+export declare function compoundInterest(options: CompoundInterestOptions): number;
+/**
+ * Rule of 72 - the approximate number of periods an investment takes to double at a rate
+ * @param rate - rate per period as a fraction
+ * @returns {number} - periods to double
+ * @example ruleOf72(0.08) // 9
+ */
+export declare function ruleOf72(rate: number): number;
+/**
+ * Loan payment - the level payment that repays a loan with interest over its payments
+ * @param options - principal, annual rate, number of payments, frequency, payment timing, number backend and rounding
+ * @returns {number} - payment each period
+ * @example loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60 }) // 400.76
+ */
+export declare function loanPayment(options: LoanPaymentOptions): number;
@@ -0,0 +1,48 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.loanPayment = exports.ruleOf72 = exports.compoundInterest = void 0;
+var arithmetic_1 = require("./arithmetic");
+var schedule_1 = require("./schedule");
+var validation_1 = require("./validation");
+/**
+ * Compound interest (CI) - the principal with interest compounded on the principal and the accumulated interest
+ * @param options - nominal rate, principal, number of periods and compoundings per period
+ * @returns {number} - principal and interest at the end of the last period
+ * @example compoundInterest({ rate: 0.1, principal: 100, periods: 1, compoundings: 12 }) // 110.47
+ */
+function compoundInterest(options) {
+    var rate = options.rate, principal = options.principal, periods = options.periods, _a = options.compoundings, compoundings = _a === void 0 ? 1 : _a;
+    (0, validation_1.assertRate)('rate', rate);
+    (0, validation_1.assertFinite)('principal', principal);
+    (0, validation_1.assertNonNegative)('periods', periods);
+    (0, validation_1.assertPositive)('compoundings', compoundings);
+    return principal * Math.pow(1 + rate / compoundings, compoundings * periods);
+}
+exports.compoundInterest = compoundInterest;
+/**
+ * Rule of 72 - the approximate number of periods an investment takes to double at a rate
+ * @param rate - rate per period as a fraction
+ * @returns {number} - periods to double
+ * @example ruleOf72(0.08) // 9
+ */
+function ruleOf72(rate) {
+    (0, validation_1.assertPositive)('rate', rate);
+    return 72 / (rate * 100);
+}
+exports.ruleOf72 = ruleOf72;
+/**
+ * Loan payment - the level payment that repays a loan with interest over its payments
+ * @param options - principal, annual rate, number of payments, frequency, payment timing, number backend and rounding
+ * @returns {number} - payment each period
+ * @example loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60 }) // 400.76
+ */
+function loanPayment(options) {
+    var principal = options.principal, rate = options.rate, numOfPayments = options.numOfPayments, _a = options.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = options.payAtBeginning, payAtBeginning = _b === void 0 ? false : _b, _c = options.rounding, rounding = _c === void 0 ? { mode: 'none' } : _c;
+    (0, validation_1.assertFinite)('principal', principal);
+    (0, validation_1.assertRate)('rate', rate);
+    (0, validation_1.assertPositive)('numOfPayments', numOfPayments);
+    var m = options.arithmetic || arithmetic_1.floatArithmetic;
+    var ratePerPeriod = m.divide(m.from(rate), m.from((0, schedule_1.periodsPerYear)(frequency)));
+    return m.toNumber(m.round((0, schedule_1.levelPayment)(m, m.from(principal), ratePerPeriod, numOfPayments, payAtBeginning), rounding));
+}
+exports.loanPayment = loanPayment;
@@ -0,0 +1,161 @@
+import { Frequency } from './schedule';
+import { SolverOptions } from './solver';
+/**
+ * Consumer lending - APR with fees, compounding conversions, loan offer comparison, refinancing and affordability.
+ * Rates are annual fractions and results are unrounded.
+ */
+/** compoundings per year, or continuous compounding */
+export type Compounding = number | 'continuous';
+export interface LoanTerms {
+    principal: number;
+    /** annual nominal rate, compounded at the payment frequency */
+    rate: number;
+    numOfPayments: number;
+    /** defaults to monthly */
+    frequency?: Frequency;
+    /** finance charges paid upfront, e.g. origination fees and points, defaults to 0 */
+    fees?: number;
+}
+export interface AprOptions extends LoanTerms, SolverOptions {
+}
+export interface AprResult {
+    /** annual percentage rate, the rate per period at which the payments repay the amount financed times the periods per year */
+    apr: number;
+    /** level payment on the principal at the note rate */
+    payment: number;
+    /** principal less the fees */
+    amountFinanced: number;
+    /** interest and fees */
+    financeCharge: number;
+    totalOfPayments: number;
+}
+export interface CompoundingOptions {
+    /** annual nominal rate */
+    rate: number;
+    /** compounding of the rate */
+    from: Compounding;
+    /** compounding of the result */
+    to: Compounding;
+}
+export interface ApyOptions {
+    /** annual nominal rate */
+    rate: number;
+    /** compoundings per year, or continuous */
+    compoundings: Compounding;
+}
+export interface LoanOffer extends LoanTerms {
+    /** name of the offer */
+    label?: string;
+}
+export interface LoanComparisonOptions {
+    /** offers to compare, at least two */
+    offers: LoanOffer[];
+    /** annual rate the payments are discounted at, compounded at each offer's payment frequency */
+    discountRate: number;
+}
+export interface LoanCost {
+    label?: string;
+    payment: number;
+    totalOfPayments: number;
+    totalInterest: number;
+    fees: number;
+    /** interest and fees */
+    totalCost: number;
+    /** fees and present value of the payments less the principal, the cost in today's money */
+    npv: number;
+    apr: number;
+}
+export interface LoanComparison {
+    /** cost of each offer, in the order given */
+    offers: LoanCost[];
+    /** index of the offer with the lowest total cost */
+    lowestTotalCost: number;
+    /** index of the offer with the lowest present value of cost */
+    lowestNpv: number;
+}
+export interface RefinanceOptions {
+    /** outstanding balance of the current loan */
+    balance: number;
+    /** annual rate of the current loan */
+    currentRate: number;
+    /** monthly payments left on the current loan */
+    remainingPayments: number;
+    /** annual rate of the new loan */
+    newRate: number;
+    /** monthly payments of the new loan, defaults to remainingPayments */
+    newNumOfPayments?: number;
+    /** closing costs paid upfront */
+    closingCosts: number;
+}
+export interface RefinanceResult {
+    currentPayment: number;
+    newPayment: number;
+    /** current payment less the new payment */
+    monthlySavings: number;
+    /** first month whose cumulative savings cover the closing costs, undefined when they never do */
+    breakEvenMonth?: number;
+    /** payments saved over the life of both loans less the closing costs */
+    netSavings: number;
+}
+export interface AffordabilityOptions {
+    /** gross monthly income */
+    monthlyIncome: number;
+    /** highest debt-to-income ratio allowed, e.g. 0.36 */
+    targetDti: number;
+    /** monthly payments on other debts, defaults to 0 */
+    otherDebtPayments?: number;
+    /** annual rate of the new loan */
+    rate: number;
+    /** monthly payments of the new loan */
+    numOfPayments: number;
+}
+export interface Affordability {
+    /** highest monthly payment on the new loan within the target debt-to-income ratio */
+    maxPayment: number;
+    /** principal that payment repays */
+    maxPrincipal: number;
+}
+/**
+ * Annual percentage rate (APR) - the yearly cost of a loan with its upfront fees, the actuarial method of US
+ * Regulation Z. The level payment at the note rate is discounted back to the amount financed, solving for the
+ * rate per period like XIRR.
+ * @param options - principal, annual note rate, number of payments, frequency, fees and solver options
+ * @returns {AprResult} - APR, payment, amount financed, finance charge and total of payments
+ * @example apr({ principal: 200000, rate: 0.06, numOfPayments: 360, fees: 4000 }).apr // 0.061895
+ */
+export declare function apr(options: AprOptions): AprResult;
+/**
+ * Converts a nominal rate between compoundings, keeping the growth over a year the same
+ * @param options - annual nominal rate, its compounding and the compounding of the result
+ * @returns {number} - annual nominal rate at the target compounding
+ * @example convertCompounding({ rate: 0.05, from: 12, to: 'continuous' }) // 0.049896
+ */
+export declare function convertCompounding(options: CompoundingOptions): number;
+/**
+ * Annual percentage yield (APY) - the effective annual rate of a nominal rate with its compounding
+ * @param options - annual nominal rate and compoundings per year, or continuous
+ * @returns {number} - annual percentage yield
+ * @example apy({ rate: 0.05, compoundings: 12 }) // 0.051162
+ */
+export declare function apy(options: ApyOptions): number;
+/**
+ * Loan comparison - the total cost and the present value of cost of loan offers, and which is cheapest by each
+ * @param options - loan offers and the annual discount rate
+ * @returns {LoanComparison} - cost of each offer and the indexes of the cheapest
+ * @example compareLoans({ offers: [{ principal: 10000, rate: 0.06, numOfPayments: 36 }, { principal: 10000, rate: 0.05, numOfPayments: 36, fees: 300 }], discountRate: 0.04 })
+ */
+export declare function compareLoans(options: LoanComparisonOptions): LoanComparison;
+/**
+ * Refinance break-even - the month the payments saved by refinancing a loan first cover the closing costs
+ * @param options - balance, rate and remaining payments of the current loan, rate and payments of the new loan, and closing costs
+ * @returns {RefinanceResult} - both payments, the monthly savings, the break-even month and the net savings
+ * @example refinanceBreakEven({ balance: 200000, currentRate: 0.07, remainingPayments: 300, newRate: 0.055, closingCosts: 4000 }).breakEvenMonth // 22
+ */
+export declare function refinanceBreakEven(options: RefinanceOptions): RefinanceResult;
+/**
+ * Affordability - the largest loan whose monthly payment keeps debt payments within a target share of income
+ * @param options - gross monthly income, target debt-to-income ratio, other debt payments, and the rate and payments of the loan
+ * @returns {Affordability} - highest monthly payment and the principal it repays, 0 when other debts already use the target
+ * @example affordability({ monthlyIncome: 8000, targetDti: 0.36, otherDebtPayments: 500, rate: 0.06, numOfPayments: 360 }).maxPrincipal // 396964.04
+ */
+export declare function affordability(options: AffordabilityOptions): Affordability;
@@ -0,0 +1,185 @@
+"use strict";
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.affordability = exports.refinanceBreakEven = exports.compareLoans = exports.apy = exports.convertCompounding = exports.apr = void 0;
+var errors_1 = require("./errors");
+var interest_1 = require("./interest");
+var schedule_1 = require("./schedule");
+var solver_1 = require("./solver");
+var validation_1 = require("./validation");
+// rates per period from -99% to 1000%, searched by apr
+var APR_BRACKET = [-0.99, 10];
+/**
+ * Annual percentage rate (APR) - the yearly cost of a loan with its upfront fees, the actuarial method of US
+ * Regulation Z. The level payment at the note rate is discounted back to the amount financed, solving for the
+ * rate per period like XIRR.
+ * @param options - principal, annual note rate, number of payments, frequency, fees and solver options
+ * @returns {AprResult} - APR, payment, amount financed, finance charge and total of payments
+ * @example apr({ principal: 200000, rate: 0.06, numOfPayments: 360, fees: 4000 }).apr // 0.061895
+ */
+function apr(options) {
+    var principal = options.principal, rate = options.rate, numOfPayments = options.numOfPayments, _a = options.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = options.fees, fees = _b === void 0 ? 0 : _b, solverOptions = __rest(options, ["principal", "rate", "numOfPayments", "frequency", "fees"]);
+    var payment = validateLoan(options);
+    var amountFinanced = principal - fees;
+    if (amountFinanced <= 0) {
+        throw new errors_1.ValidationError("fees must be less than the principal, got ".concat(fees), 'fees');
+    }
+    // summed payment by payment, the closed form annuity factor loses precision near a 0% rate
+    var value = function (r) {
+        var sum = -amountFinanced;
+        for (var k = 1; k <= numOfPayments; k++) {
+            sum += payment * Math.pow(1 + r, -k);
+        }
+        return sum;
+    };
+    var derivative = function (r) {
+        var sum = 0;
+        for (var k = 1; k <= numOfPayments; k++) {
+            sum -= k * payment * Math.pow(1 + r, -k - 1);
+        }
+        return sum;
+    };
+    var ratePerPeriod = (0, solver_1.findRoot)(value, __assign({ bracket: APR_BRACKET, guess: rate / (0, schedule_1.periodsPerYear)(frequency) }, solverOptions), derivative);
+    var totalOfPayments = payment * numOfPayments;
+    return {
+        apr: ratePerPeriod * (0, schedule_1.periodsPerYear)(frequency),
+        payment: payment,
+        amountFinanced: amountFinanced,
+        financeCharge: totalOfPayments - amountFinanced,
+        totalOfPayments: totalOfPayments,
+    };
+}
+exports.apr = apr;
+/**
+ * Converts a nominal rate between compoundings, keeping the growth over a year the same
+ * @param options - annual nominal rate, its compounding and the compounding of the result
+ * @returns {number} - annual nominal rate at the target compounding
+ * @example convertCompounding({ rate: 0.05, from: 12, to: 'continuous' }) // 0.049896
+ */
+function convertCompounding(options) {
+    var rate = options.rate, from = options.from, to = options.to;
+    (0, validation_1.assertFinite)('rate', rate);
+    var growth = from === 'continuous' ? Math.exp(rate) : periodGrowth(rate, from, 'from');
+    if (to === 'continuous') {
+        return Math.log(growth);
+    }
+    (0, validation_1.assertPositive)('to', to);
+    return to * (Math.pow(growth, 1 / to) - 1);
+}
+exports.convertCompounding = convertCompounding;
+/**
+ * Annual percentage yield (APY) - the effective annual rate of a nominal rate with its compounding
+ * @param options - annual nominal rate and compoundings per year, or continuous
+ * @returns {number} - annual percentage yield
+ * @example apy({ rate: 0.05, compoundings: 12 }) // 0.051162
+ */
+function apy(options) {
+    return convertCompounding({ rate: options.rate, from: options.compoundings, to: 1 });
+}
+exports.apy = apy;
+/**
+ * Loan comparison - the total cost and the present value of cost of loan offers, and which is cheapest by each
+ * @param options - loan offers and the annual discount rate
+ * @returns {LoanComparison} - cost of each offer and the indexes of the cheapest
+ * @example compareLoans({ offers: [{ principal: 10000, rate: 0.06, numOfPayments: 36 }, { principal: 10000, rate: 0.05, numOfPayments: 36, fees: 300 }], discountRate: 0.04 })
+ */
+function compareLoans(options) {
+    var offers = options.offers, discountRate = options.discountRate;
+    if (!Array.isArray(offers) || offers.length < 2) {
+        throw new errors_1.ValidationError('offers must contain at least 2 loan offers', 'offers');
+    }
+    (0, validation_1.assertRate)('discountRate', discountRate);
+    var costs = offers.map(function (offer) {
+        var principal = offer.principal, rate = offer.rate, numOfPayments = offer.numOfPayments, _a = offer.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = offer.fees, fees = _b === void 0 ? 0 : _b;
+        var terms = apr({ principal: principal, rate: rate, numOfPayments: numOfPayments, frequency: frequency, fees: fees });
+        var totalInterest = terms.totalOfPayments - principal;
+        return __assign(__assign({}, (offer.label === undefined ? {} : { label: offer.label })), { payment: terms.payment, totalOfPayments: terms.totalOfPayments, totalInterest: totalInterest, fees: fees, totalCost: totalInterest + fees, npv: fees + terms.payment * annuityFactor(discountRate / (0, schedule_1.periodsPerYear)(frequency), numOfPayments) - principal, apr: terms.apr });
+    });
+    var lowest = function (cost) { return costs.reduce(function (best, offer, i) { return cost(offer) < cost(costs[best]) ? i : best; }, 0); };
+    return { offers: costs, lowestTotalCost: lowest(function (offer) { return offer.totalCost; }), lowestNpv: lowest(function (offer) { return offer.npv; }) };
+}
+exports.compareLoans = compareLoans;
+/**
+ * Refinance break-even - the month the payments saved by refinancing a loan first cover the closing costs
+ * @param options - balance, rate and remaining payments of the current loan, rate and payments of the new loan, and closing costs
+ * @returns {RefinanceResult} - both payments, the monthly savings, the break-even month and the net savings
+ * @example refinanceBreakEven({ balance: 200000, currentRate: 0.07, remainingPayments: 300, newRate: 0.055, closingCosts: 4000 }).breakEvenMonth // 22
+ */
+function refinanceBreakEven(options) {
+    var balance = options.balance, currentRate = options.currentRate, remainingPayments = options.remainingPayments, newRate = options.newRate, _a = options.newNumOfPayments, newNumOfPayments = _a === void 0 ? remainingPayments : _a, closingCosts = options.closingCosts;
+    (0, validation_1.assertPositive)('balance', balance);
+    (0, validation_1.assertInteger)('remainingPayments', remainingPayments);
+    (0, validation_1.assertInteger)('newNumOfPayments', newNumOfPayments);
+    (0, validation_1.assertNonNegative)('closingCosts', closingCosts);
+    var currentPayment = (0, interest_1.loanPayment)({ principal: balance, rate: currentRate, numOfPayments: remainingPayments });
+    var newPayment = (0, interest_1.loanPayment)({ principal: balance, rate: newRate, numOfPayments: newNumOfPayments });
+    var savings = 0;
+    var breakEvenMonth;
+    for (var month = 1; month <= Math.max(remainingPayments, newNumOfPayments); month++) {
+        savings += (month <= remainingPayments ? currentPayment : 0) - (month <= newNumOfPayments ? newPayment : 0);
+        if (breakEvenMonth === undefined && savings >= closingCosts) {
+            breakEvenMonth = month;
+        }
+    }
+    return __assign(__assign({ currentPayment: currentPayment, newPayment: newPayment, monthlySavings: currentPayment - newPayment }, (breakEvenMonth === undefined ? {} : { breakEvenMonth: breakEvenMonth })), { netSavings: savings - closingCosts });
+}
+exports.refinanceBreakEven = refinanceBreakEven;
+/**
+ * Affordability - the largest loan whose monthly payment keeps debt payments within a target share of income
+ * @param options - gross monthly income, target debt-to-income ratio, other debt payments, and the rate and payments of the loan
+ * @returns {Affordability} - highest monthly payment and the principal it repays, 0 when other debts already use the target
+ * @example affordability({ monthlyIncome: 8000, targetDti: 0.36, otherDebtPayments: 500, rate: 0.06, numOfPayments: 360 }).maxPrincipal // 396964.04
+ */
+function affordability(options) {
+    var monthlyIncome = options.monthlyIncome, targetDti = options.targetDti, _a = options.otherDebtPayments, otherDebtPayments = _a === void 0 ? 0 : _a, rate = options.rate, numOfPayments = options.numOfPayments;
+    (0, validation_1.assertNonNegative)('monthlyIncome', monthlyIncome);
+    (0, validation_1.assertNonNegative)('targetDti', targetDti);
+    (0, validation_1.assertNonNegative)('otherDebtPayments', otherDebtPayments);
+    (0, validation_1.assertRate)('rate', rate);
+    (0, validation_1.assertInteger)('numOfPayments', numOfPayments);
+    var maxPayment = Math.max(monthlyIncome * targetDti - otherDebtPayments, 0);
+    return { maxPayment: maxPayment, maxPrincipal: maxPayment * annuityFactor(rate / 12, numOfPayments) };
+}
+exports.affordability = affordability;
+// present value of 1 paid at the end of each of the periods
+function annuityFactor(ratePerPeriod, periods) {
+    return ratePerPeriod === 0 ? periods : (1 - Math.pow(1 + ratePerPeriod, -periods)) / ratePerPeriod;
+}
+// growth over a year of a nominal rate compounded a number of times a year
+function periodGrowth(rate, compoundings, name) {
+    (0, validation_1.assertPositive)(name, compoundings);
+    if (1 + rate / compoundings <= 0) {
+        throw new errors_1.ValidationError("rate must be above -".concat(compoundings * 100, "% compounded ").concat(compoundings, " times a year, got ").concat(rate * 100, "%"), 'rate');
+    }
+    return Math.pow(1 + rate / compoundings, compoundings);
+}
+// checks the terms of a loan and returns its level payment
+function validateLoan(terms) {
+    var principal = terms.principal, rate = terms.rate, numOfPayments = terms.numOfPayments, _a = terms.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = terms.fees, fees = _b === void 0 ? 0 : _b;
+    (0, validation_1.assertPositive)('principal', principal);
+    (0, validation_1.assertRate)('rate', rate);
+    (0, validation_1.assertInteger)('numOfPayments', numOfPayments);
+    (0, validation_1.assertNonNegative)('fees', fees);
+    return (0, interest_1.loanPayment)({ principal: principal, rate: rate, numOfPayments: numOfPayments, frequency: frequency });
+}
@@ -0,0 +1,78 @@
+import { RoundingPolicy } from './rounding';
+import { Frequency, ScheduleRow } from './schedule';
+export interface Prepayment {
+    type: 'prepayment';
+    date: Date;
+    amount: number;
+}
+export interface RecurringPrepayment {
+    type: 'recurringPrepayment';
+    startDate: Date;
+    /** last date a prepayment is made, defaults to the end of the loan */
+    endDate?: Date;
+    /** amount paid on top of every regular payment */
+    amount: number;
+}
+export interface RateChange {
+    type: 'rateChange';
+    date: Date;
+    /** new annual nominal interest rate, e.g. 5.25 for 5.25% */
+    rate: number;
+}
+export interface InterestOnly {
+    type: 'interestOnly';
+    startDate: Date;
+    endDate: Date;
+}
+export interface PaymentHoliday {
+    type: 'paymentHoliday';
+    startDate: Date;
+    endDate: Date;
+}
+export interface Balloon {
+    type: 'balloon';
+    /** residual balance repaid with the final payment */
+    amount: number;
+}
+export type LoanEvent = Prepayment | RecurringPrepayment | RateChange | InterestOnly | PaymentHoliday | Balloon;
+export interface LoanOptions {
+    principal: number;
+    /** annual nominal interest rate at origination, e.g. 7.5 for 7.5% */
+    rate: number;
+    numOfPayments: number;
+    frequency?: Frequency;
+    /** origination date, defaults to today */
+    startDate?: Date;
+    events?: LoanEvent[];
+    /** rounding of every amount, defaults to cents */
+    rounding?: RoundingPolicy;
+}
+export interface LoanRow extends ScheduleRow {
+    /** annual nominal interest rate applied in the period */
+    rate: number;
+    /** extra principal paid on top of the regular payment */
+    prepayment: number;
+}
+export interface LoanResult {
+    schedule: LoanRow[];
+    totalInterest: number;
+    /** interest of the same loan without any events */
+    baselineInterest: number;
+    interestSaved: number;
+    payoffDate: Date;
+    baselinePayoffDate: Date;
+}
+/**
+ * Loan model - the schedule of a loan with prepayments, rate resets, interest-only periods, payment holidays
+ * and balloon payments.
+ *
+ * Events take effect on the first payment date on or after their date, and a rate change on or before the start
+ * date sets the opening rate. The level payment is recalculated over the remaining term whenever the rate changes
+ * or an interest-only period or payment holiday ends, while prepayments keep the payment and shorten the loan.
+ * Interest during a payment holiday is capitalised. The final payment repays the whole balance, even during an
+ * interest-only period or payment holiday.
+ * @param options - principal, annual rate, number of payments, frequency, start date and events
+ * @returns {LoanResult} - schedule, total interest, interest saved and payoff date against the plain loan
+ * @example modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, events: [{ type: 'prepayment', date, amount: 1000 }] })
+ */
+export declare function modelLoan(options: LoanOptions): LoanResult;
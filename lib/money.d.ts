@@ -0,0 +1,58 @@
+import { Decimal } from './decimal';
+import { RoundingMode } from './rounding';
+/**
+ * Amount of money in a currency, held as an exact decimal rounded to the currency's minor unit
+ */
+export declare class Money {
+    /**
+     * Creates an amount of money
+     * @param amount - amount in major units, e.g. 12.34 for $12.34
+     * @param currency - ISO 4217 currency code
+     * @param scale - minor unit decimal places, defaults to the ISO 4217 scale of the currency
+     * @returns {Money} - amount rounded half-up to the minor unit
+     * @example Money.of('12.345', 'USD').toString() // '12.35 USD'
+     */
+    static of(amount: number | string | Decimal, currency: string, scale?: number): Money;
+    /**
+     * Adds up amounts that must all be in the same currency
+     * @param amounts - amounts of money
+     * @returns {Money} - total
+     */
+    static sum(amounts: Money[]): Money;
+    readonly amount: Decimal;
+    readonly currency: string;
+    readonly scale: number;
+    private constructor();
+    plus(other: Money): Money;
+    minus(other: Money): Money;
+    /**
+     * Multiplies by a factor, rounding to the minor unit
+     * @param factor - multiplier
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Money} - product
+     */
+    times(factor: number | string | Decimal, mode?: RoundingMode): Money;
+    /**
+     * Divides by a divisor, rounding to the minor unit
+     * @param divisor - divisor
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Money} - quotient
+     */
+    dividedBy(divisor: number | string | Decimal, mode?: RoundingMode): Money;
+    negated(): Money;
+    compare(other: Money): number;
+    equals(other: Money): boolean;
+    isZero(): boolean;
+    isNegative(): boolean;
+    toNumber(): number;
+    toString(): string;
+    private assertSameCurrency;
+}
+/**
+ * Net Present Value (NPV) of money amounts, discounted exactly and rounded once to the minor unit
+ * @param rate - interest rate
+ * @param cashFlows - cash flows in one currency, the first one undiscounted
+ * @returns {Money} - net present value
+ * @example moneyNPV(10, [Money.of(-500000, 'USD'), Money.of(200000, 'USD'), Money.of(300000, 'USD')]) // -70247.93 USD
+ */
+export declare function moneyNPV(rate: number, cashFlows: Money[]): Money;
@@ -0,0 +1,115 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.moneyNPV = exports.Money = void 0;
+var decimal_1 = require("./decimal");
+var errors_1 = require("./errors");
+// ISO 4217 minor units that differ from 2
+var MINOR_UNITS = {
+    BHD: 3, BIF: 0, CLP: 0, DJF: 0, GNF: 0, IQD: 3, ISK: 0, JOD: 3, JPY: 0, KMF: 0, KRW: 0, KWD: 3,
+    LYD: 3, OMR: 3, PYG: 0, RWF: 0, TND: 3, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+};
+/**
+ * Amount of money in a currency, held as an exact decimal rounded to the currency's minor unit
+ */
+var Money = /** @class */ (function () {
+    function Money(amount, currency, scale) {
+        this.amount = amount;
+        this.currency = currency;
+        this.scale = scale;
+    }
+    /**
+     * Creates an amount of money
+     * @param amount - amount in major units, e.g. 12.34 for $12.34
+     * @param currency - ISO 4217 currency code
+     * @param scale - minor unit decimal places, defaults to the ISO 4217 scale of the currency
+     * @returns {Money} - amount rounded half-up to the minor unit
+     * @example Money.of('12.345', 'USD').toString() // '12.35 USD'
+     */
+    Money.of = function (amount, currency, scale) {
+        var code = currency.toUpperCase();
+        var minorUnits = scale !== undefined ? scale : MINOR_UNITS[code] !== undefined ? MINOR_UNITS[code] : 2;
+        return new Money(decimal_1.Decimal.from(amount).round(minorUnits), code, minorUnits);
+    };
+    /**
+     * Adds up amounts that must all be in the same currency
+     * @param amounts - amounts of money
+     * @returns {Money} - total
+     */
+    Money.sum = function (amounts) {
+        if (amounts.length === 0) {
+            throw new errors_1.ValidationError('Money.sum requires at least one amount', 'amounts');
+        }
+        return amounts.reduce(function (total, amount) { return total.plus(amount); });
+    };
+    Money.prototype.plus = function (other) {
+        this.assertSameCurrency(other);
+        return new Money(this.amount.plus(other.amount), this.currency, Math.max(this.scale, other.scale));
+    };
+    Money.prototype.minus = function (other) {
+        this.assertSameCurrency(other);
+        return new Money(this.amount.minus(other.amount), this.currency, Math.max(this.scale, other.scale));
+    };
+    /**
+     * Multiplies by a factor, rounding to the minor unit
+     * @param factor - multiplier
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Money} - product
+     */
+    Money.prototype.times = function (factor, mode) {
+        if (mode === void 0) { mode = 'half-up'; }
+        return new Money(this.amount.times(factor).round(this.scale, mode), this.currency, this.scale);
+    };
+    /**
+     * Divides by a divisor, rounding to the minor unit
+     * @param divisor - divisor
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Money} - quotient
+     */
+    Money.prototype.dividedBy = function (divisor, mode) {
+        if (mode === void 0) { mode = 'half-up'; }
+        return new Money(this.amount.dividedBy(divisor).round(this.scale, mode), this.currency, this.scale);
+    };
+    Money.prototype.negated = function () {
+        return new Money(this.amount.negated(), this.currency, this.scale);
+    };
+    Money.prototype.compare = function (other) {
+        this.assertSameCurrency(other);
+        return this.amount.compare(other.amount);
+    };
+    Money.prototype.equals = function (other) {
+        return this.currency === other.currency && this.amount.equals(other.amount);
+    };
+    Money.prototype.isZero = function () {
+        return this.amount.isZero();
+    };
+    Money.prototype.isNegative = function () {
+        return this.amount.isNegative();
+    };
+    Money.prototype.toNumber = function () {
+        return this.amount.toNumber();
+    };
+    Money.prototype.toString = function () {
+        return "".concat(this.amount.toFixed(this.scale), " ").concat(this.currency);
+    };
+    Money.prototype.assertSameCurrency = function (other) {
+        if (other.currency !== this.currency) {
+            throw new errors_1.CurrencyMismatchError(this.currency, other.currency);
+        }
+    };
+    return Money;
+}());
+exports.Money = Money;
+/**
+ * Net Present Value (NPV) of money amounts, discounted exactly and rounded once to the minor unit
+ * @param rate - interest rate
+ * @param cashFlows - cash flows in one currency, the first one undiscounted
+ * @returns {Money} - net present value
+ * @example moneyNPV(10, [Money.of(-500000, 'USD'), Money.of(200000, 'USD'), Money.of(300000, 'USD')]) // -70247.93 USD
+ */
+function moneyNPV(rate, cashFlows) {
+    var total = Money.sum(cashFlows);
+    var onePlusRate = decimal_1.Decimal.from(1).plus(decimal_1.Decimal.from(rate).dividedBy(100));
+    var npv = cashFlows.reduce(function (sum, cf, i) { return sum.plus(cf.amount.dividedBy(onePlusRate.pow(i))); }, decimal_1.Decimal.from(0));
+    return Money.of(npv, total.currency, total.scale);
+}
+exports.moneyNPV = moneyNPV;
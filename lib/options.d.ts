@@ -0,0 +1,81 @@
+import { SolverOptions } from './solver';
+export type OptionType = 'call' | 'put';
+/** european - exercise at expiry only, american - exercise at any time up to expiry */
+export type ExerciseStyle = 'european' | 'american';
+export interface OptionContract {
+    type: OptionType;
+    /** price of the underlying today */
+    spot: number;
+    strike: number;
+    /** time to expiry in years */
+    expiry: number;
+    /** continuously compounded risk-free rate as a fraction */
+    riskFree: number;
+    /** annual volatility of the underlying as a fraction */
+    volatility: number;
+    /** continuously compounded dividend yield as a fraction, defaults to 0 */
+    dividendYield?: number;
+}
+/**
+ * Sensitivities of the option price. Rates and volatility move by 1.00 (100%), not by a point, and time
+ * sensitivities are per year as time passes.
+ */
+export interface Greeks {
+    /** change in price for a change in spot */
+    delta: number;
+    /** change in price for a change in volatility */
+    vega: number;
+    /** change in price as time passes */
+    theta: number;
+    /** change in price for a change in the risk-free rate */
+    rho: number;
+    /** change in price for a change in the dividend yield */
+    epsilon: number;
+    /** change in delta for a change in spot */
+    gamma: number;
+    /** change in delta for a change in volatility, or in vega for a change in spot */
+    vanna: number;
+    /** change in delta as time passes */
+    charm: number;
+    /** change in vega for a change in volatility */
+    vomma: number;
+    /** change in vega as time passes */
+    veta: number;
+    /** change in rho for a change in volatility */
+    vera: number;
+}
+export interface OptionValuation {
+    price: number;
+    greeks: Greeks;
+}
+export interface BinomialOptions {
+    /** steps of the tree, defaults to 200 */
+    steps?: number;
+    /** defaults to american */
+    exercise?: ExerciseStyle;
+}
+/**
+ * Black-Scholes-Merton - price and Greeks of a European option on an underlying paying a continuous dividend yield
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+ * @returns {OptionValuation} - price and first and second order Greeks
+ * @example blackScholes({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 }).price // 10.45
+ */
+export declare function blackScholes(contract: OptionContract): OptionValuation;
+/**
+ * Implied volatility - the volatility at which Black-Scholes-Merton prices a European option at a given price
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate and dividend yield
+ * @param price - option price
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual volatility as a fraction
+ * @example impliedVolatility({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 0.05 }, 10.45) // 0.2
+ */
+export declare function impliedVolatility(contract: Omit<OptionContract, 'volatility'>, price: number, options?: SolverOptions): number;
+/**
+ * Cox-Ross-Rubinstein binomial tree - price of an American or European option, the underlying moving up or
+ * down by the volatility at each step
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+ * @param options - number of steps and exercise style
+ * @returns {number} - option price
+ * @example binomialPrice({ type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 }) // 6.09
+ */
+export declare function binomialPrice(contract: OptionContract, options?: BinomialOptions): number;
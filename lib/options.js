@@ -0,0 +1,135 @@
+"use strict";
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.binomialPrice = exports.impliedVolatility = exports.blackScholes = void 0;
+var errors_1 = require("./errors");
+var solver_1 = require("./solver");
+var statistics_1 = require("./statistics");
+var validation_1 = require("./validation");
+// implied volatilities from 0.01% to 1000% a year
+var VOLATILITY_BRACKET = [1e-4, 10];
+/**
+ * Black-Scholes-Merton - price and Greeks of a European option on an underlying paying a continuous dividend yield
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+ * @returns {OptionValuation} - price and first and second order Greeks
+ * @example blackScholes({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 }).price // 10.45
+ */
+function blackScholes(contract) {
+    var _a = validate(contract), spot = _a.spot, strike = _a.strike, expiry = _a.expiry, riskFree = _a.riskFree, volatility = _a.volatility, _b = _a.dividendYield, dividendYield = _b === void 0 ? 0 : _b;
+    var sign = contract.type === 'call' ? 1 : -1;
+    var sqrtT = Math.sqrt(expiry);
+    var d1 = (Math.log(spot / strike) + (riskFree - dividendYield + volatility * volatility / 2) * expiry) / (volatility * sqrtT);
+    var d2 = d1 - volatility * sqrtT;
+    var dividendDiscount = Math.exp(-dividendYield * expiry);
+    var discount = Math.exp(-riskFree * expiry);
+    var nd1 = (0, statistics_1.normalCdf)(sign * d1);
+    var nd2 = (0, statistics_1.normalCdf)(sign * d2);
+    var pdf = (0, statistics_1.normalPdf)(d1);
+    var vega = spot * dividendDiscount * pdf * sqrtT;
+    // time decay of delta and vega, without the dividend terms
+    var drift = (2 * (riskFree - dividendYield) * expiry - d2 * volatility * sqrtT) / (2 * expiry * volatility * sqrtT);
+    return {
+        price: sign * (spot * dividendDiscount * nd1 - strike * discount * nd2),
+        greeks: {
+            delta: sign * dividendDiscount * nd1,
+            vega: vega,
+            theta: -spot * dividendDiscount * pdf * volatility / (2 * sqrtT)
+                - sign * riskFree * strike * discount * nd2 + sign * dividendYield * spot * dividendDiscount * nd1,
+            rho: sign * strike * expiry * discount * nd2,
+            epsilon: -sign * spot * expiry * dividendDiscount * nd1,
+            gamma: dividendDiscount * pdf / (spot * volatility * sqrtT),
+            vanna: -dividendDiscount * pdf * d2 / volatility,
+            charm: sign * dividendYield * dividendDiscount * nd1 - dividendDiscount * pdf * drift,
+            vomma: vega * d1 * d2 / volatility,
+            veta: vega * (dividendYield + (riskFree - dividendYield) * d1 / (volatility * sqrtT) - (1 + d1 * d2) / (2 * expiry)),
+            vera: -strike * expiry * discount * (0, statistics_1.normalPdf)(d2) * d1 / volatility,
+        },
+    };
+}
+exports.blackScholes = blackScholes;
+/**
+ * Implied volatility - the volatility at which Black-Scholes-Merton prices a European option at a given price
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate and dividend yield
+ * @param price - option price
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual volatility as a fraction
+ * @example impliedVolatility({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 0.05 }, 10.45) // 0.2
+ */
+function impliedVolatility(contract, price, options) {
+    if (options === void 0) { options = {}; }
+    (0, validation_1.assertFinite)('price', price);
+    var _a = validate(__assign(__assign({}, contract), { volatility: 1 })), spot = _a.spot, strike = _a.strike, expiry = _a.expiry, riskFree = _a.riskFree, _b = _a.dividendYield, dividendYield = _b === void 0 ? 0 : _b;
+    var forwardSpot = spot * Math.exp(-dividendYield * expiry);
+    var forwardStrike = strike * Math.exp(-riskFree * expiry);
+    var _c = contract.type === 'call'
+        ? [Math.max(forwardSpot - forwardStrike, 0), forwardSpot]
+        : [Math.max(forwardStrike - forwardSpot, 0), forwardStrike], lower = _c[0], upper = _c[1];
+    if (price <= lower || price >= upper) {
+        throw new errors_1.ValidationError("price must be between ".concat(lower, " and ").concat(upper, ", the no-arbitrage bounds of the option"), 'price');
+    }
+    var priced = function (volatility) { return blackScholes(__assign(__assign({}, contract), { volatility: volatility })); };
+    return (0, solver_1.findRoot)(function (volatility) { return priced(volatility).price - price; }, __assign({ bracket: VOLATILITY_BRACKET, guess: 0.2 }, options), function (volatility) { return priced(volatility).greeks.vega; });
+}
+exports.impliedVolatility = impliedVolatility;
+/**
+ * Cox-Ross-Rubinstein binomial tree - price of an American or European option, the underlying moving up or
+ * down by the volatility at each step
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+ * @param options - number of steps and exercise style
+ * @returns {number} - option price
+ * @example binomialPrice({ type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 }) // 6.09
+ */
+function binomialPrice(contract, options) {
+    if (options === void 0) { options = {}; }
+    var _a = validate(contract), spot = _a.spot, strike = _a.strike, expiry = _a.expiry, riskFree = _a.riskFree, volatility = _a.volatility, _b = _a.dividendYield, dividendYield = _b === void 0 ? 0 : _b;
+    var _c = options.steps, steps = _c === void 0 ? 200 : _c, _d = options.exercise, exercise = _d === void 0 ? 'american' : _d;
+    (0, validation_1.assertInteger)('steps', steps);
+    if (exercise !== 'american' && exercise !== 'european') {
+        throw new errors_1.ValidationError("Unknown exercise style ".concat(exercise), 'exercise');
+    }
+    var dt = expiry / steps;
+    var up = Math.exp(volatility * Math.sqrt(dt));
+    var down = 1 / up;
+    var probability = (Math.exp((riskFree - dividendYield) * dt) - down) / (up - down);
+    if (probability <= 0 || probability >= 1) {
+        throw new errors_1.ValidationError('steps are too few for the rates and volatility, the tree has no risk-neutral probability', 'steps');
+    }
+    var discount = Math.exp(-riskFree * dt);
+    var sign = contract.type === 'call' ? 1 : -1;
+    var payoff = function (price) { return Math.max(sign * (price - strike), 0); };
+    var values = [];
+    for (var i = 0; i <= steps; i++) {
+        values.push(payoff(spot * Math.pow(up, steps - 2 * i)));
+    }
+    for (var step = steps - 1; step >= 0; step--) {
+        for (var i = 0; i <= step; i++) {
+            var held = discount * (probability * values[i] + (1 - probability) * values[i + 1]);
+            values[i] = exercise === 'american' ? Math.max(held, payoff(spot * Math.pow(up, step - 2 * i))) : held;
+        }
+    }
+    return values[0];
+}
+exports.binomialPrice = binomialPrice;
+function validate(contract) {
+    var type = contract.type, spot = contract.spot, strike = contract.strike, expiry = contract.expiry, riskFree = contract.riskFree, volatility = contract.volatility, _a = contract.dividendYield, dividendYield = _a === void 0 ? 0 : _a;
+    if (type !== 'call' && type !== 'put') {
+        throw new errors_1.ValidationError("Unknown option type ".concat(type), 'type');
+    }
+    (0, validation_1.assertPositive)('spot', spot);
+    (0, validation_1.assertPositive)('strike', strike);
+    (0, validation_1.assertPositive)('expiry', expiry);
+    (0, validation_1.assertFinite)('riskFree', riskFree);
+    (0, validation_1.assertPositive)('volatility', volatility);
+    (0, validation_1.assertNonNegative)('dividendYield', dividendYield);
+    return contract;
+}
@@ -0,0 +1,179 @@
+import { DayCount } from './daycount';
+import { XIRROptions } from './tvm';
+export interface Valuation {
+    date: Date;
+    /** market value at the end of the day, after the day's external flows */
+    value: number;
+}
+export interface ExternalFlow {
+    date: Date;
+    /** money added to the portfolio, negative when withdrawn */
+    amount: number;
+}
+export interface PerformanceResult {
+    /** years from the first to the last valuation */
+    years: number;
+    /** Modified Dietz return over the whole period */
+    modifiedDietz: number;
+    /** returns between consecutive valuations */
+    periodReturns: number[];
+    /** period returns linked geometrically */
+    timeWeightedReturn: number;
+    annualizedTimeWeightedReturn: number;
+    /** annual internal rate of return of the valuations and flows */
+    moneyWeightedReturn: number;
+}
+export interface Drawdown {
+    /** largest fall from a peak, as a positive fraction of the peak */
+    depth: number;
+    /** index of the peak in the value series, 0 being the value before the first return */
+    peak: number;
+    /** index of the trough in the value series */
+    trough: number;
+    /** index at which the value regained the peak, undefined when it hasn't */
+    recovery?: number;
+}
+/**
+ * Modified Dietz return - gain over the period divided by the average capital invested, each external flow
+ * weighted by the part of the period it was invested for
+ * @param valuations - valuations in date order, the first and last bound the period
+ * @param flows - external flows after the first valuation and up to the last
+ * @param dayCount - day count convention for the weights, defaults to ACT/365F
+ * @returns {number} - return over the period as a fraction
+ * @example modifiedDietz([{ date: jan1, value: 1000 }, { date: dec31, value: 1200 }], [{ date: jul1, amount: 100 }]) // 0.0952
+ */
+export declare function modifiedDietz(valuations: Valuation[], flows?: ExternalFlow[], dayCount?: DayCount): number;
+/**
+ * Period returns - Modified Dietz return between each pair of consecutive valuations. With a valuation on
+ * every day with an external flow, these are the exact daily returns.
+ * @param valuations - valuations in date order
+ * @param flows - external flows after the first valuation and up to the last
+ * @param dayCount - day count convention for the weights, defaults to ACT/365F
+ * @returns {number[]} - one return per pair of valuations, as fractions
+ */
+export declare function periodReturns(valuations: Valuation[], flows?: ExternalFlow[], dayCount?: DayCount): number[];
+/**
+ * Time-weighted return (TWR) - period returns linked geometrically, so that the timing and size of external
+ * flows don't affect the return. Valuing the portfolio on each flow date gives the true daily-linked return.
+ * @param valuations - valuations in date order
+ * @param flows - external flows after the first valuation and up to the last
+ * @param dayCount - day count convention for the weights, defaults to ACT/365F
+ * @returns {number} - return over the whole period as a fraction
+ * @example timeWeightedReturn([{ date: jan1, value: 1000 }, { date: jun30, value: 1100 }, { date: dec31, value: 1320 }]) // 0.32
+ */
+export declare function timeWeightedReturn(valuations: Valuation[], flows?: ExternalFlow[], dayCount?: DayCount): number;
+/**
+ * Money-weighted return (MWR) - the XIRR of the first valuation and the flows invested, against the last
+ * valuation, so that returns on more capital weigh more
+ * @param valuations - valuations in date order, the first and last bound the period
+ * @param flows - external flows after the first valuation and up to the last
+ * @param options - solver tolerance, iteration cap, bracket and guess, and day count convention
+ * @returns {number} - annual return as a fraction
+ */
+export declare function moneyWeightedReturn(valuations: Valuation[], flows?: ExternalFlow[], options?: XIRROptions): number;
+/**
+ * Annualized return - the annual rate compounding to a return over a number of years
+ * @param cumulativeReturn - return over the whole period as a fraction
+ * @param years - length of the period in years
+ * @returns {number} - annual return as a fraction
+ * @example annualizeReturn(0.21, 2) // 0.1
+ */
+export declare function annualizeReturn(cumulativeReturn: number, years: number): number;
+export interface CagrOptions {
+    beginningValue: number;
+    endingValue: number;
+    /** number of periods between the values */
+    periods: number;
+}
+export interface RoiOptions {
+    /** amount invested, the sign is ignored */
+    investment: number;
+    /** amount returned by the investment */
+    earnings: number;
+}
+export interface RealReturnOptions {
+    /** return before inflation as a fraction */
+    nominalReturn: number;
+    /** inflation over the same period as a fraction */
+    inflation: number;
+}
+/**
+ * Compound annual growth rate (CAGR) - the rate per period compounding the beginning value to the ending value
+ * @param options - beginning value, ending value and number of periods
+ * @returns {number} - growth rate per period as a fraction
+ * @example cagr({ beginningValue: 10000, endingValue: 19500, periods: 3 }) // 0.2493
+ */
+export declare function cagr(options: CagrOptions): number;
+/**
+ * Return on investment (ROI) - the gain on an investment over the amount invested
+ * @param options - amount invested and earnings
+ * @returns {number} - return as a fraction
+ * @example roi({ investment: -55000, earnings: 60000 }) // 0.0909
+ */
+export declare function roi(options: RoiOptions): number;
+/**
+ * Inflation-adjusted return (IAR) - the real return of an investment, the Fisher equation
+ * @param options - nominal return and inflation
+ * @returns {number} - real return as a fraction
+ * @example realReturn({ nominalReturn: 0.08, inflation: 0.03 }) // 0.0485
+ */
+export declare function realReturn(options: RealReturnOptions): number;
+/**
+ * Performance of a portfolio - Modified Dietz, time-weighted and money-weighted returns from its valuations and
+ * external flows
+ * @param valuations - valuations in date order
+ * @param flows - external flows after the first valuation and up to the last
+ * @param options - day count convention, and solver options of the money-weighted return
+ * @returns {PerformanceResult} - returns over the period, period returns and annualized returns
+ */
+export declare function measurePerformance(valuations: Valuation[], flows?: ExternalFlow[], options?: XIRROptions): PerformanceResult;
+/**
+ * Volatility - sample standard deviation of periodic returns
+ * @param returns - periodic returns as fractions
+ * @param periodsPerYear - periods per year to annualize with the square root of time, defaults to 1
+ * @returns {number} - volatility as a fraction
+ * @example volatility([0.01, -0.02, 0.03], 12) // 0.0872
+ */
+export declare function volatility(returns: number[], periodsPerYear?: number): number;
+/**
+ * Sharpe ratio - average return in excess of the risk-free rate per unit of volatility
+ * @param returns - periodic returns as fractions
+ * @param riskFree - risk-free return per period, defaults to 0
+ * @param periodsPerYear - periods per year to annualize, defaults to 1
+ * @returns {number} - Sharpe ratio
+ */
+export declare function sharpeRatio(returns: number[], riskFree?: number, periodsPerYear?: number): number;
+/**
+ * Sortino ratio - average return in excess of a target per unit of downside deviation, the volatility of the
+ * returns below the target
+ * @param returns - periodic returns as fractions
+ * @param target - minimum acceptable return per period, defaults to 0
+ * @param periodsPerYear - periods per year to annualize, defaults to 1
+ * @returns {number} - Sortino ratio
+ */
+export declare function sortinoRatio(returns: number[], target?: number, periodsPerYear?: number): number;
+/**
+ * Maximum drawdown - the largest fall from a peak of the value compounded from the returns
+ * @param returns - periodic returns as fractions
+ * @returns {Drawdown} - depth of the fall, and where the peak, the trough and the recovery are
+ * @example maxDrawdown([0.1, -0.2, 0.05, 0.3]).depth // 0.2
+ */
+export declare function maxDrawdown(returns: number[]): Drawdown;
+/**
+ * Beta - sensitivity of the returns to the benchmark's, their covariance over the benchmark's variance. The
+ * result is the beta CAPM takes.
+ * @param returns - periodic returns as fractions
+ * @param benchmarkReturns - benchmark returns over the same periods
+ * @returns {number} - beta
+ * @example beta([0.02, -0.01, 0.03], [0.01, -0.01, 0.02]) // 1.3571
+ */
+export declare function beta(returns: number[], benchmarkReturns: number[]): number;
+/**
+ * Jensen's alpha - average return above what CAPM expects from the beta to the benchmark
+ * @param returns - periodic returns as fractions
+ * @param benchmarkReturns - benchmark returns over the same periods
+ * @param riskFree - risk-free return per period, defaults to 0
+ * @param periodsPerYear - periods per year to annualize, defaults to 1
+ * @returns {number} - alpha as a fraction
+ */
+export declare function alpha(returns: number[], benchmarkReturns: number[], riskFree?: number, periodsPerYear?: number): number;
@@ -0,0 +1,344 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.alpha = exports.beta = exports.maxDrawdown = exports.sortinoRatio = exports.sharpeRatio = exports.volatility = exports.measurePerformance = exports.realReturn = exports.roi = exports.cagr = exports.annualizeReturn = exports.moneyWeightedReturn = exports.timeWeightedReturn = exports.periodReturns = exports.modifiedDietz = void 0;
+var daycount_1 = require("./daycount");
+var errors_1 = require("./errors");
+var tvm_1 = require("./tvm");
+var validation_1 = require("./validation");
+/**
+ * Modified Dietz return - gain over the period divided by the average capital invested, each external flow
+ * weighted by the part of the period it was invested for
+ * @param valuations - valuations in date order, the first and last bound the period
+ * @param flows - external flows after the first valuation and up to the last
+ * @param dayCount - day count convention for the weights, defaults to ACT/365F
+ * @returns {number} - return over the period as a fraction
+ * @example modifiedDietz([{ date: jan1, value: 1000 }, { date: dec31, value: 1200 }], [{ date: jul1, amount: 100 }]) // 0.0952
+ */
+function modifiedDietz(valuations, flows, dayCount) {
+    if (flows === void 0) { flows = []; }
+    validate(valuations, flows);
+    return dietz(valuations[0], valuations[valuations.length - 1], flows, dayCount);
+}
+exports.modifiedDietz = modifiedDietz;
+/**
+ * Period returns - Modified Dietz return between each pair of consecutive valuations. With a valuation on
+ * every day with an external flow, these are the exact daily returns.
+ * @param valuations - valuations in date order
+ * @param flows - external flows after the first valuation and up to the last
+ * @param dayCount - day count convention for the weights, defaults to ACT/365F
+ * @returns {number[]} - one return per pair of valuations, as fractions
+ */
+function periodReturns(valuations, flows, dayCount) {
+    if (flows === void 0) { flows = []; }
+    validate(valuations, flows);
+    return valuations.slice(1).map(function (end, i) {
+        var start = valuations[i];
+        return dietz(start, end, flows.filter(function (flow) { return flow.date > start.date && flow.date <= end.date; }), dayCount);
+    });
+}
+exports.periodReturns = periodReturns;
+/**
+ * Time-weighted return (TWR) - period returns linked geometrically, so that the timing and size of external
+ * flows don't affect the return. Valuing the portfolio on each flow date gives the true daily-linked return.
+ * @param valuations - valuations in date order
+ * @param flows - external flows after the first valuation and up to the last
+ * @param dayCount - day count convention for the weights, defaults to ACT/365F
+ * @returns {number} - return over the whole period as a fraction
+ * @example timeWeightedReturn([{ date: jan1, value: 1000 }, { date: jun30, value: 1100 }, { date: dec31, value: 1320 }]) // 0.32
+ */
+function timeWeightedReturn(valuations, flows, dayCount) {
+    if (flows === void 0) { flows = []; }
+    return link(periodReturns(valuations, flows, dayCount));
+}
+exports.timeWeightedReturn = timeWeightedReturn;
+/**
+ * Money-weighted return (MWR) - the XIRR of the first valuation and the flows invested, against the last
+ * valuation, so that returns on more capital weigh more
+ * @param valuations - valuations in date order, the first and last bound the period
+ * @param flows - external flows after the first valuation and up to the last
+ * @param options - solver tolerance, iteration cap, bracket and guess, and day count convention
+ * @returns {number} - annual return as a fraction
+ */
+function moneyWeightedReturn(valuations, flows, options) {
+    if (flows === void 0) { flows = []; }
+    if (options === void 0) { options = {}; }
+    validate(valuations, flows);
+    var first = valuations[0];
+    var last = valuations[valuations.length - 1];
+    var values = [-first.value].concat(flows.map(function (flow) { return -flow.amount; }), [last.value]);
+    var dates = [first.date].concat(flows.map(function (flow) { return flow.date; }), [last.date]);
+    return (0, tvm_1.xirr)(values, dates, options.guess, options);
+}
+exports.moneyWeightedReturn = moneyWeightedReturn;
+/**
+ * Annualized return - the annual rate compounding to a return over a number of years
+ * @param cumulativeReturn - return over the whole period as a fraction
+ * @param years - length of the period in years
+ * @returns {number} - annual return as a fraction
+ * @example annualizeReturn(0.21, 2) // 0.1
+ */
+function annualizeReturn(cumulativeReturn, years) {
+    (0, validation_1.assertFinite)('cumulativeReturn', cumulativeReturn);
+    (0, validation_1.assertPositive)('years', years);
+    if (cumulativeReturn < -1) {
+        throw new errors_1.ValidationError('cumulativeReturn must not be below -100%', 'cumulativeReturn');
+    }
+    return Math.pow(1 + cumulativeReturn, 1 / years) - 1;
+}
+exports.annualizeReturn = annualizeReturn;
+/**
+ * Compound annual growth rate (CAGR) - the rate per period compounding the beginning value to the ending value
+ * @param options - beginning value, ending value and number of periods
+ * @returns {number} - growth rate per period as a fraction
+ * @example cagr({ beginningValue: 10000, endingValue: 19500, periods: 3 }) // 0.2493
+ */
+function cagr(options) {
+    var beginningValue = options.beginningValue, endingValue = options.endingValue, periods = options.periods;
+    (0, validation_1.assertPositive)('beginningValue', beginningValue);
+    (0, validation_1.assertNonNegative)('endingValue', endingValue);
+    (0, validation_1.assertPositive)('periods', periods);
+    return Math.pow(endingValue / beginningValue, 1 / periods) - 1;
+}
+exports.cagr = cagr;
+/**
+ * Return on investment (ROI) - the gain on an investment over the amount invested
+ * @param options - amount invested and earnings
+ * @returns {number} - return as a fraction
+ * @example roi({ investment: -55000, earnings: 60000 }) // 0.0909
+ */
+function roi(options) {
+    var investment = options.investment, earnings = options.earnings;
+    (0, validation_1.assertFinite)('investment', investment);
+    (0, validation_1.assertFinite)('earnings', earnings);
+    if (investment === 0) {
+        throw new errors_1.ValidationError('investment must not be 0', 'investment');
+    }
+    return (earnings - Math.abs(investment)) / Math.abs(investment);
+}
+exports.roi = roi;
+/**
+ * Inflation-adjusted return (IAR) - the real return of an investment, the Fisher equation
+ * @param options - nominal return and inflation
+ * @returns {number} - real return as a fraction
+ * @example realReturn({ nominalReturn: 0.08, inflation: 0.03 }) // 0.0485
+ */
+function realReturn(options) {
+    var nominalReturn = options.nominalReturn, inflation = options.inflation;
+    (0, validation_1.assertRate)('nominalReturn', nominalReturn);
+    (0, validation_1.assertRate)('inflation', inflation);
+    return (1 + nominalReturn) / (1 + inflation) - 1;
+}
+exports.realReturn = realReturn;
+/**
+ * Performance of a portfolio - Modified Dietz, time-weighted and money-weighted returns from its valuations and
+ * external flows
+ * @param valuations - valuations in date order
+ * @param flows - external flows after the first valuation and up to the last
+ * @param options - day count convention, and solver options of the money-weighted return
+ * @returns {PerformanceResult} - returns over the period, period returns and annualized returns
+ */
+function measurePerformance(valuations, flows, options) {
+    if (flows === void 0) { flows = []; }
+    if (options === void 0) { options = {}; }
+    var dayCount = options.dayCount;
+    var returns = periodReturns(valuations, flows, dayCount);
+    var years = (0, daycount_1.yearFraction)(valuations[0].date, valuations[valuations.length - 1].date, dayCount);
+    var timeWeighted = link(returns);
+    return {
+        years: years,
+        modifiedDietz: modifiedDietz(valuations, flows, dayCount),
+        periodReturns: returns,
+        timeWeightedReturn: timeWeighted,
+        annualizedTimeWeightedReturn: annualizeReturn(timeWeighted, years),
+        moneyWeightedReturn: moneyWeightedReturn(valuations, flows, options),
+    };
+}
+exports.measurePerformance = measurePerformance;
+/**
+ * Volatility - sample standard deviation of periodic returns
+ * @param returns - periodic returns as fractions
+ * @param periodsPerYear - periods per year to annualize with the square root of time, defaults to 1
+ * @returns {number} - volatility as a fraction
+ * @example volatility([0.01, -0.02, 0.03], 12) // 0.0872
+ */
+function volatility(returns, periodsPerYear) {
+    if (periodsPerYear === void 0) { periodsPerYear = 1; }
+    assertReturns('returns', returns);
+    return standardDeviation(returns) * Math.sqrt(periodsOf(periodsPerYear));
+}
+exports.volatility = volatility;
+/**
+ * Sharpe ratio - average return in excess of the risk-free rate per unit of volatility
+ * @param returns - periodic returns as fractions
+ * @param riskFree - risk-free return per period, defaults to 0
+ * @param periodsPerYear - periods per year to annualize, defaults to 1
+ * @returns {number} - Sharpe ratio
+ */
+function sharpeRatio(returns, riskFree, periodsPerYear) {
+    if (riskFree === void 0) { riskFree = 0; }
+    if (periodsPerYear === void 0) { periodsPerYear = 1; }
+    assertReturns('returns', returns);
+    (0, validation_1.assertFinite)('riskFree', riskFree);
+    var excess = returns.map(function (r) { return r - riskFree; });
+    var deviation = standardDeviation(excess);
+    if (deviation === 0) {
+        throw new errors_1.ValidationError('returns must vary for a Sharpe ratio', 'returns');
+    }
+    return mean(excess) / deviation * Math.sqrt(periodsOf(periodsPerYear));
+}
+exports.sharpeRatio = sharpeRatio;
+/**
+ * Sortino ratio - average return in excess of a target per unit of downside deviation, the volatility of the
+ * returns below the target
+ * @param returns - periodic returns as fractions
+ * @param target - minimum acceptable return per period, defaults to 0
+ * @param periodsPerYear - periods per year to annualize, defaults to 1
+ * @returns {number} - Sortino ratio
+ */
+function sortinoRatio(returns, target, periodsPerYear) {
+    if (target === void 0) { target = 0; }
+    if (periodsPerYear === void 0) { periodsPerYear = 1; }
+    assertReturns('returns', returns);
+    (0, validation_1.assertFinite)('target', target);
+    var excess = returns.map(function (r) { return r - target; });
+    var downside = Math.sqrt(excess.reduce(function (sum, e) { return sum + Math.pow(Math.min(e, 0), 2); }, 0) / excess.length);
+    if (downside === 0) {
+        throw new errors_1.ValidationError('returns must fall below the target for a Sortino ratio', 'returns');
+    }
+    return mean(excess) / downside * Math.sqrt(periodsOf(periodsPerYear));
+}
+exports.sortinoRatio = sortinoRatio;
+/**
+ * Maximum drawdown - the largest fall from a peak of the value compounded from the returns
+ * @param returns - periodic returns as fractions
+ * @returns {Drawdown} - depth of the fall, and where the peak, the trough and the recovery are
+ * @example maxDrawdown([0.1, -0.2, 0.05, 0.3]).depth // 0.2
+ */
+function maxDrawdown(returns) {
+    assertReturns('returns', returns, 1);
+    var values = [1];
+    returns.forEach(function (r) { return values.push(values[values.length - 1] * (1 + r)); });
+    var peak = 0;
+    var worst = { depth: 0, peak: 0, trough: 0 };
+    values.forEach(function (value, i) {
+        if (value > values[peak]) {
+            peak = i;
+        }
+        var depth = 1 - value / values[peak];
+        if (depth > worst.depth) {
+            worst = { depth: depth, peak: peak, trough: i };
+        }
+    });
+    for (var i = worst.trough + 1; i < values.length && worst.depth > 0; i++) {
+        if (values[i] >= values[worst.peak]) {
+            worst.recovery = i;
+            break;
+        }
+    }
+    return worst;
+}
+exports.maxDrawdown = maxDrawdown;
+/**
+ * Beta - sensitivity of the returns to the benchmark's, their covariance over the benchmark's variance. The
+ * result is the beta CAPM takes.
+ * @param returns - periodic returns as fractions
+ * @param benchmarkReturns - benchmark returns over the same periods
+ * @returns {number} - beta
+ * @example beta([0.02, -0.01, 0.03], [0.01, -0.01, 0.02]) // 1.3571
+ */
+function beta(returns, benchmarkReturns) {
+    assertPaired(returns, benchmarkReturns);
+    var benchmarkMean = mean(benchmarkReturns);
+    var returnsMean = mean(returns);
+    var covariance = 0;
+    var variance = 0;
+    benchmarkReturns.forEach(function (b, i) {
+        covariance += (returns[i] - returnsMean) * (b - benchmarkMean);
+        variance += Math.pow(b - benchmarkMean, 2);
+    });
+    if (variance === 0) {
+        throw new errors_1.ValidationError('benchmarkReturns must vary for a beta', 'benchmarkReturns');
+    }
+    return covariance / variance;
+}
+exports.beta = beta;
+/**
+ * Jensen's alpha - average return above what CAPM expects from the beta to the benchmark
+ * @param returns - periodic returns as fractions
+ * @param benchmarkReturns - benchmark returns over the same periods
+ * @param riskFree - risk-free return per period, defaults to 0
+ * @param periodsPerYear - periods per year to annualize, defaults to 1
+ * @returns {number} - alpha as a fraction
+ */
+function alpha(returns, benchmarkReturns, riskFree, periodsPerYear) {
+    if (riskFree === void 0) { riskFree = 0; }
+    if (periodsPerYear === void 0) { periodsPerYear = 1; }
+    (0, validation_1.assertFinite)('riskFree', riskFree);
+    var sensitivity = beta(returns, benchmarkReturns);
+    var expected = riskFree + sensitivity * (mean(benchmarkReturns) - riskFree);
+    return (mean(returns) - expected) * periodsOf(periodsPerYear);
+}
+exports.alpha = alpha;
+function dietz(start, end, flows, dayCount) {
+    var length = (0, daycount_1.yearFraction)(start.date, end.date, dayCount);
+    var netFlow = 0;
+    var weightedFlow = 0;
+    flows.forEach(function (flow) {
+        netFlow += flow.amount;
+        weightedFlow += flow.amount * (0, daycount_1.yearFraction)(flow.date, end.date, dayCount) / length;
+    });
+    var capital = start.value + weightedFlow;
+    if (capital <= 0) {
+        throw new errors_1.ValidationError('average capital invested must be positive for a return', 'valuations');
+    }
+    return (end.value - start.value - netFlow) / capital;
+}
+function link(returns) {
+    return returns.reduce(function (growth, r) { return growth * (1 + r); }, 1) - 1;
+}
+function validate(valuations, flows) {
+    if (!Array.isArray(valuations) || valuations.length < 2) {
+        throw new errors_1.ValidationError('valuations must contain at least 2 valuations', 'valuations');
+    }
+    valuations.forEach(function (valuation, i) {
+        (0, validation_1.assertDate)("valuations[".concat(i, "].date"), valuation.date);
+        (0, validation_1.assertNonNegative)("valuations[".concat(i, "].value"), valuation.value);
+        if (i > 0 && valuation.date <= valuations[i - 1].date) {
+            throw new errors_1.ValidationError('valuations must be in increasing order of date', 'valuations');
+        }
+    });
+    var first = valuations[0].date;
+    var last = valuations[valuations.length - 1].date;
+    flows.forEach(function (flow, i) {
+        (0, validation_1.assertDate)("flows[".concat(i, "].date"), flow.date);
+        (0, validation_1.assertFinite)("flows[".concat(i, "].amount"), flow.amount);
+        if (flow.date <= first || flow.date > last) {
+            throw new errors_1.ValidationError('flows must fall after the first valuation and not after the last', "flows[".concat(i, "].date"));
+        }
+    });
+}
+function assertReturns(name, returns, minLength) {
+    if (minLength === void 0) { minLength = 2; }
+    if (!Array.isArray(returns) || returns.length < minLength) {
+        throw new errors_1.ValidationError("".concat(name, " must contain at least ").concat(minLength, " return").concat(minLength === 1 ? '' : 's'), name);
+    }
+    returns.forEach(function (r, i) { return (0, validation_1.assertFinite)("".concat(name, "[").concat(i, "]"), r); });
+}
+function assertPaired(returns, benchmarkReturns) {
+    assertReturns('returns', returns);
+    assertReturns('benchmarkReturns', benchmarkReturns);
+    if (returns.length !== benchmarkReturns.length) {
+        throw new errors_1.ValidationError('returns and benchmarkReturns must cover the same periods', 'benchmarkReturns');
+    }
+}
+function periodsOf(periodsPerYear) {
+    (0, validation_1.assertPositive)('periodsPerYear', periodsPerYear);
+    return periodsPerYear;
+}
+function mean(values) {
+    return values.reduce(function (sum, value) { return sum + value; }, 0) / values.length;
+}
+function standardDeviation(values) {
+    var average = mean(values);
+    return Math.sqrt(values.reduce(function (sum, value) { return sum + Math.pow(value - average, 2); }, 0) / (values.length - 1));
+}
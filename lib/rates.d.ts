@@ -0,0 +1,29 @@
+/**
+ * Unit of an interest rate or return: percent (5 for 5%), decimal (0.05 for 5%) or basis points (500 for 5%)
+ */
+export type RateUnit = 'percent' | 'decimal' | 'bps';
+/**
+ * Converts a rate to a decimal fraction
+ * @param rate - rate in the given unit
+ * @param unit - unit of the rate
+ * @returns {number} - rate as a fraction
+ * @example toDecimal(250, 'bps') // 0.025
+ */
+export declare function toDecimal(rate: number, unit: RateUnit): number;
+/**
+ * Converts a decimal fraction to a rate in the given unit
+ * @param rate - rate as a fraction
+ * @param unit - unit of the result
+ * @returns {number} - rate in the given unit
+ * @example fromDecimal(0.025, 'percent') // 2.5
+ */
+export declare function fromDecimal(rate: number, unit: RateUnit): number;
+/**
+ * Converts a rate between units
+ * @param rate - rate in the source unit
+ * @param from - source unit
+ * @param to - target unit
+ * @returns {number} - rate in the target unit
+ * @example convertRate(5, 'percent', 'bps') // 500
+ */
+export declare function convertRate(rate: number, from: RateUnit, to: RateUnit): number;
@@ -0,0 +1,49 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.convertRate = exports.fromDecimal = exports.toDecimal = void 0;
+var errors_1 = require("./errors");
+var PER_UNIT = {
+    percent: 100,
+    decimal: 1,
+    bps: 10000,
+};
+/**
+ * Converts a rate to a decimal fraction
+ * @param rate - rate in the given unit
+ * @param unit - unit of the rate
+ * @returns {number} - rate as a fraction
+ * @example toDecimal(250, 'bps') // 0.025
+ */
+function toDecimal(rate, unit) {
+    return rate / perUnit(unit);
+}
+exports.toDecimal = toDecimal;
+/**
+ * Converts a decimal fraction to a rate in the given unit
+ * @param rate - rate as a fraction
+ * @param unit - unit of the result
+ * @returns {number} - rate in the given unit
+ * @example fromDecimal(0.025, 'percent') // 2.5
+ */
+function fromDecimal(rate, unit) {
+    return rate * perUnit(unit);
+}
+exports.fromDecimal = fromDecimal;
+/**
+ * Converts a rate between units
+ * @param rate - rate in the source unit
+ * @param from - source unit
+ * @param to - target unit
+ * @returns {number} - rate in the target unit
+ * @example convertRate(5, 'percent', 'bps') // 500
+ */
+function convertRate(rate, from, to) {
+    return from === to ? rate : fromDecimal(toDecimal(rate, from), to);
+}
+exports.convertRate = convertRate;
+function perUnit(unit) {
+    if (!PER_UNIT[unit]) {
+        throw new errors_1.ValidationError("Unknown rate unit ".concat(unit), 'rateUnit');
+    }
+    return PER_UNIT[unit];
+}
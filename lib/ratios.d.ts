@@ -0,0 +1,187 @@
+/**
+ * Financial ratios - liquidity, leverage, coverage, efficiency and profitability ratios of financial statements,
+ * the DuPont decomposition of return on equity and growth between periods. A ratio that can't be calculated
+ * has no value and a flag naming the missing or zero statement fields, instead of Infinity or NaN.
+ */
+export interface DebtToIncomeInputs {
+    /** monthly payments on all debts */
+    monthlyDebtPayments: number;
+    /** gross monthly income */
+    monthlyIncome: number;
+}
+export interface LeverageInputs {
+    totalLiabilities: number;
+    totalDebts: number;
+    totalIncome: number;
+}
+export interface IncomeStatement {
+    revenue?: number;
+    costOfGoodsSold?: number;
+    /** earnings before interest and taxes (EBIT) */
+    operatingIncome?: number;
+    depreciationAndAmortization?: number;
+    interestExpense?: number;
+    /** earnings before taxes */
+    pretaxIncome?: number;
+    netIncome?: number;
+}
+export interface BalanceSheet {
+    cash?: number;
+    shortTermInvestments?: number;
+    receivables?: number;
+    inventory?: number;
+    currentAssets?: number;
+    totalAssets?: number;
+    currentLiabilities?: number;
+    totalLiabilities?: number;
+    /** short and long term borrowings */
+    totalDebt?: number;
+    shareholdersEquity?: number;
+}
+export interface CashFlowStatement {
+    operatingCashFlow?: number;
+    /** capital expenditures, as a positive amount */
+    capitalExpenditures?: number;
+}
+export interface FinancialStatements {
+    income: IncomeStatement;
+    /** balance sheet at the end of the period */
+    balance: BalanceSheet;
+    cashFlow?: CashFlowStatement;
+    /** balance sheet at the start of the period; turnover and return ratios average it with the closing one when given */
+    openingBalance?: BalanceSheet;
+}
+export interface RatioOptions {
+    /** days in the period, for days sales and days inventory outstanding, defaults to 365 */
+    daysInPeriod?: number;
+}
+/**
+ * Why a ratio has no value: missing - a statement field it needs wasn't given, zero-denominator - it would divide
+ * by 0, non-positive - growth can't compound from a value that isn't positive or to a negative value
+ */
+export type RatioFlag = 'missing' | 'zero-denominator' | 'non-positive';
+export interface Ratio {
+    /** undefined when the ratio can't be calculated */
+    value?: number;
+    /** why the value is undefined */
+    flag?: RatioFlag;
+    /** statement fields behind the flag, e.g. balance.currentLiabilities */
+    fields?: string[];
+}
+export interface LiquidityRatios {
+    /** current assets over current liabilities */
+    currentRatio: Ratio;
+    /** current assets less inventory over current liabilities */
+    quickRatio: Ratio;
+    /** cash and short term investments over current liabilities */
+    cashRatio: Ratio;
+    /** operating cash flow over current liabilities */
+    operatingCashFlowRatio: Ratio;
+}
+export interface LeverageRatios {
+    /** total debt over shareholders' equity */
+    debtToEquity: Ratio;
+    /** total debt over total assets */
+    debtToAssets: Ratio;
+    /** total liabilities over total assets */
+    liabilitiesToAssets: Ratio;
+    /** total assets over shareholders' equity */
+    equityMultiplier: Ratio;
+}
+export interface CoverageRatios {
+    /** operating income over interest expense */
+    interestCoverage: Ratio;
+    /** operating income with depreciation and amortization added back, over interest expense */
+    ebitdaCoverage: Ratio;
+    /** operating cash flow over total debt */
+    cashFlowToDebt: Ratio;
+}
+export interface EfficiencyRatios {
+    /** revenue over average total assets */
+    assetTurnover: Ratio;
+    /** revenue over average receivables */
+    receivablesTurnover: Ratio;
+    /** cost of goods sold over average inventory */
+    inventoryTurnover: Ratio;
+    /** days of revenue held as receivables */
+    daysSalesOutstanding: Ratio;
+    /** days of cost of goods sold held as inventory */
+    daysInventoryOutstanding: Ratio;
+}
+export interface ProfitabilityRatios {
+    /** revenue less cost of goods sold over revenue */
+    grossMargin: Ratio;
+    operatingMargin: Ratio;
+    netMargin: Ratio;
+    /** operating cash flow less capital expenditures over revenue */
+    freeCashFlowMargin: Ratio;
+    /** net income over average total assets */
+    returnOnAssets: Ratio;
+    /** net income over average shareholders' equity */
+    returnOnEquity: Ratio;
+}
+/**
+ * DuPont decomposition - return on equity as net margin x asset turnover x equity multiplier, and net margin as
+ * tax burden x interest burden x operating margin. Turnover and the multiplier use average balances.
+ */
+export interface DuPont {
+    /** net income over pretax income */
+    taxBurden: Ratio;
+    /** pretax income over operating income */
+    interestBurden: Ratio;
+    operatingMargin: Ratio;
+    netMargin: Ratio;
+    assetTurnover: Ratio;
+    /** average total assets over average shareholders' equity */
+    equityMultiplier: Ratio;
+    /** product of net margin, asset turnover and equity multiplier */
+    returnOnEquity: Ratio;
+}
+export interface RatioAnalysis {
+    liquidity: LiquidityRatios;
+    leverage: LeverageRatios;
+    coverage: CoverageRatios;
+    efficiency: EfficiencyRatios;
+    profitability: ProfitabilityRatios;
+    dupont: DuPont;
+}
+export type GrowthMetric = 'revenue' | 'operatingIncome' | 'netIncome' | 'totalAssets' | 'shareholdersEquity' | 'operatingCashFlow';
+export interface Growth {
+    /** growth from each period to the next */
+    periodOverPeriod: Ratio[];
+    /** compound growth per period from the first period to the last */
+    cagr: Ratio;
+}
+/**
+ * Leverage ratio (LR) - total liabilities and total debts over total income. Debts are usually part of the
+ * liabilities, so this isn't a standard leverage ratio; see analyzeRatios for debt-to-equity, debt-to-assets and
+ * the equity multiplier.
+ * @param inputs - total liabilities, total debts and total income
+ * @returns {number} - leverage ratio
+ * @example leverageRatio({ totalLiabilities: 25, totalDebts: 10, totalIncome: 20 }) // 1.75
+ */
+export declare function leverageRatio(inputs: LeverageInputs): number;
+/**
+ * Debt-to-income ratio (DTI) - monthly debt payments over gross monthly income
+ * @param inputs - monthly debt payments and gross monthly income
+ * @returns {number} - debt-to-income ratio as a fraction
+ * @example debtToIncome({ monthlyDebtPayments: 2000, monthlyIncome: 8000 }) // 0.25
+ */
+export declare function debtToIncome(inputs: DebtToIncomeInputs): number;
+/**
+ * Ratio analysis - liquidity, leverage, coverage, efficiency and profitability ratios of a period's statements,
+ * with the DuPont decomposition of return on equity
+ * @param statements - income statement, closing balance sheet, cash flow statement and opening balance sheet
+ * @param options - days in the period
+ * @returns {RatioAnalysis} - ratios as fractions or multiples, flagged when a field is missing or a denominator is 0
+ * @example analyzeRatios({ income: { revenue: 1000, netIncome: 100 }, balance: { shareholdersEquity: 500 } }).profitability.returnOnEquity // { value: 0.2 }
+ */
+export declare function analyzeRatios(statements: FinancialStatements, options?: RatioOptions): RatioAnalysis;
+/**
+ * Statement growth - growth of revenue, income, assets, equity and operating cash flow from each period to the
+ * next, and compounded from the first period to the last, with CAGR
+ * @param statements - statements of consecutive periods, oldest first
+ * @returns {Record<GrowthMetric, Growth>} - period-over-period growth and CAGR of each metric as fractions
+ * @example statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]).revenue.cagr // { value: 0.21 }
+ */
+export declare function statementGrowth(statements: FinancialStatements[]): Record<GrowthMetric, Growth>;
@@ -0,0 +1,220 @@
+"use strict";
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+var __spreadArray = (this && this.__spreadArray) || function (to, from, pack) {
+    if (pack || arguments.length === 2) for (var i = 0, l = from.length, ar; i < l; i++) {
+        if (ar || !(i in from)) {
+            if (!ar) ar = Array.prototype.slice.call(from, 0, i);
+            ar[i] = from[i];
+        }
+    }
+    return to.concat(ar || Array.prototype.slice.call(from));
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.statementGrowth = exports.analyzeRatios = exports.debtToIncome = exports.leverageRatio = void 0;
+var errors_1 = require("./errors");
+var performance_1 = require("./performance");
+var validation_1 = require("./validation");
+var GROWTH_FIELDS = {
+    revenue: ['income', 'revenue'],
+    operatingIncome: ['income', 'operatingIncome'],
+    netIncome: ['income', 'netIncome'],
+    totalAssets: ['balance', 'totalAssets'],
+    shareholdersEquity: ['balance', 'shareholdersEquity'],
+    operatingCashFlow: ['cashFlow', 'operatingCashFlow'],
+};
+/**
+ * Leverage ratio (LR) - total liabilities and total debts over total income. Debts are usually part of the
+ * liabilities, so this isn't a standard leverage ratio; see analyzeRatios for debt-to-equity, debt-to-assets and
+ * the equity multiplier.
+ * @param inputs - total liabilities, total debts and total income
+ * @returns {number} - leverage ratio
+ * @example leverageRatio({ totalLiabilities: 25, totalDebts: 10, totalIncome: 20 }) // 1.75
+ */
+function leverageRatio(inputs) {
+    var totalLiabilities = inputs.totalLiabilities, totalDebts = inputs.totalDebts, totalIncome = inputs.totalIncome;
+    (0, validation_1.assertFinite)('totalLiabilities', totalLiabilities);
+    (0, validation_1.assertFinite)('totalDebts', totalDebts);
+    (0, validation_1.assertFinite)('totalIncome', totalIncome);
+    if (totalIncome === 0) {
+        throw new errors_1.ValidationError('totalIncome must not be 0', 'totalIncome');
+    }
+    return (totalLiabilities + totalDebts) / totalIncome;
+}
+exports.leverageRatio = leverageRatio;
+/**
+ * Debt-to-income ratio (DTI) - monthly debt payments over gross monthly income
+ * @param inputs - monthly debt payments and gross monthly income
+ * @returns {number} - debt-to-income ratio as a fraction
+ * @example debtToIncome({ monthlyDebtPayments: 2000, monthlyIncome: 8000 }) // 0.25
+ */
+function debtToIncome(inputs) {
+    var monthlyDebtPayments = inputs.monthlyDebtPayments, monthlyIncome = inputs.monthlyIncome;
+    (0, validation_1.assertFinite)('monthlyDebtPayments', monthlyDebtPayments);
+    (0, validation_1.assertFinite)('monthlyIncome', monthlyIncome);
+    if (monthlyIncome <= 0) {
+        throw new errors_1.ValidationError("monthlyIncome must be greater than 0, got ".concat(monthlyIncome), 'monthlyIncome');
+    }
+    return monthlyDebtPayments / monthlyIncome;
+}
+exports.debtToIncome = debtToIncome;
+/**
+ * Ratio analysis - liquidity, leverage, coverage, efficiency and profitability ratios of a period's statements,
+ * with the DuPont decomposition of return on equity
+ * @param statements - income statement, closing balance sheet, cash flow statement and opening balance sheet
+ * @param options - days in the period
+ * @returns {RatioAnalysis} - ratios as fractions or multiples, flagged when a field is missing or a denominator is 0
+ * @example analyzeRatios({ income: { revenue: 1000, netIncome: 100 }, balance: { shareholdersEquity: 500 } }).profitability.returnOnEquity // { value: 0.2 }
+ */
+function analyzeRatios(statements, options) {
+    if (options === void 0) { options = {}; }
+    var _a = options.daysInPeriod, daysInPeriod = _a === void 0 ? 365 : _a;
+    (0, validation_1.assertPositive)('daysInPeriod', daysInPeriod);
+    if (!statements || !statements.income || !statements.balance) {
+        throw new errors_1.ValidationError('statements must have an income statement and a balance sheet', 'statements');
+    }
+    var income = function (field) { return term("income.".concat(field), statements.income[field]); };
+    var balance = function (field) { return term("balance.".concat(field), statements.balance[field]); };
+    var cashFlow = function (field) { return term("cashFlow.".concat(field), statements.cashFlow && statements.cashFlow[field]); };
+    var average = function (field) { return statements.openingBalance
+        ? scale(add(balance(field), term("openingBalance.".concat(field), statements.openingBalance[field])), 0.5)
+        : balance(field); };
+    var revenue = income('revenue');
+    var operatingIncome = income('operatingIncome');
+    var netIncome = income('netIncome');
+    var currentLiabilities = balance('currentLiabilities');
+    var operatingCashFlow = cashFlow('operatingCashFlow');
+    var netMargin = ratio(netIncome, revenue);
+    var operatingMargin = ratio(operatingIncome, revenue);
+    var assetTurnover = ratio(revenue, average('totalAssets'));
+    var averageMultiplier = ratio(average('totalAssets'), average('shareholdersEquity'));
+    var receivablesTurnover = ratio(revenue, average('receivables'));
+    var inventoryTurnover = ratio(income('costOfGoodsSold'), average('inventory'));
+    return {
+        liquidity: {
+            currentRatio: ratio(balance('currentAssets'), currentLiabilities),
+            quickRatio: ratio(add(balance('currentAssets'), scale(balance('inventory'), -1)), currentLiabilities),
+            cashRatio: ratio(add(balance('cash'), balance('shortTermInvestments')), currentLiabilities),
+            operatingCashFlowRatio: ratio(operatingCashFlow, currentLiabilities),
+        },
+        leverage: {
+            debtToEquity: ratio(balance('totalDebt'), balance('shareholdersEquity')),
+            debtToAssets: ratio(balance('totalDebt'), balance('totalAssets')),
+            liabilitiesToAssets: ratio(balance('totalLiabilities'), balance('totalAssets')),
+            equityMultiplier: ratio(balance('totalAssets'), balance('shareholdersEquity')),
+        },
+        coverage: {
+            interestCoverage: ratio(operatingIncome, income('interestExpense')),
+            ebitdaCoverage: ratio(add(operatingIncome, income('depreciationAndAmortization')), income('interestExpense')),
+            cashFlowToDebt: ratio(operatingCashFlow, balance('totalDebt')),
+        },
+        efficiency: {
+            assetTurnover: assetTurnover,
+            receivablesTurnover: receivablesTurnover,
+            inventoryTurnover: inventoryTurnover,
+            daysSalesOutstanding: ratio(scale(average('receivables'), daysInPeriod), revenue),
+            daysInventoryOutstanding: ratio(scale(average('inventory'), daysInPeriod), income('costOfGoodsSold')),
+        },
+        profitability: {
+            grossMargin: ratio(add(revenue, scale(income('costOfGoodsSold'), -1)), revenue),
+            operatingMargin: operatingMargin,
+            netMargin: netMargin,
+            freeCashFlowMargin: ratio(add(operatingCashFlow, scale(cashFlow('capitalExpenditures'), -1)), revenue),
+            returnOnAssets: ratio(netIncome, average('totalAssets')),
+            returnOnEquity: ratio(netIncome, average('shareholdersEquity')),
+        },
+        dupont: {
+            taxBurden: ratio(netIncome, income('pretaxIncome')),
+            interestBurden: ratio(income('pretaxIncome'), operatingIncome),
+            operatingMargin: operatingMargin,
+            netMargin: netMargin,
+            assetTurnover: assetTurnover,
+            equityMultiplier: averageMultiplier,
+            returnOnEquity: product([netMargin, assetTurnover, averageMultiplier]),
+        },
+    };
+}
+exports.analyzeRatios = analyzeRatios;
+/**
+ * Statement growth - growth of revenue, income, assets, equity and operating cash flow from each period to the
+ * next, and compounded from the first period to the last, with CAGR
+ * @param statements - statements of consecutive periods, oldest first
+ * @returns {Record<GrowthMetric, Growth>} - period-over-period growth and CAGR of each metric as fractions
+ * @example statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]).revenue.cagr // { value: 0.21 }
+ */
+function statementGrowth(statements) {
+    if (!Array.isArray(statements) || statements.length < 2) {
+        throw new errors_1.ValidationError('statements must contain at least 2 periods', 'statements');
+    }
+    var result = {};
+    Object.keys(GROWTH_FIELDS).forEach(function (metric) {
+        var _a = GROWTH_FIELDS[metric], statement = _a[0], field = _a[1];
+        var values = statements.map(function (period, i) {
+            var source = period[statement];
+            return term("[".concat(i, "].").concat(statement, ".").concat(field), source && source[field]);
+        });
+        result[metric] = {
+            periodOverPeriod: values.slice(1).map(function (value, i) { return growth(values[i], value, 1); }),
+            cagr: growth(values[0], values[values.length - 1], values.length - 1),
+        };
+    });
+    return result;
+}
+exports.statementGrowth = statementGrowth;
+function term(name, value) {
+    if (value === undefined || value === null) {
+        return { value: NaN, name: name, missing: [name] };
+    }
+    (0, validation_1.assertFinite)(name, value);
+    return { value: value, name: name, missing: [] };
+}
+function add(a, b) {
+    return { value: a.value + b.value, name: "".concat(a.name, " + ").concat(b.name), missing: __spreadArray(__spreadArray([], a.missing, true), b.missing, true) };
+}
+function scale(a, factor) {
+    return __assign(__assign({}, a), { value: a.value * factor });
+}
+function ratio(numerator, denominator) {
+    var missing = __spreadArray(__spreadArray([], numerator.missing, true), denominator.missing, true);
+    if (missing.length > 0) {
+        return { flag: 'missing', fields: unique(missing) };
+    }
+    if (denominator.value === 0) {
+        return { flag: 'zero-denominator', fields: unique(denominator.name.split(' + ')) };
+    }
+    return { value: numerator.value / denominator.value };
+}
+// product of ratios, flagged with every field behind the flagged ratios
+function product(ratios) {
+    var flagged = ratios.filter(function (r) { return r.flag !== undefined; });
+    if (flagged.length > 0) {
+        var fields = flagged.reduce(function (all, r) { return all.concat(r.fields || []); }, []);
+        return { flag: flagged.some(function (r) { return r.flag === 'missing'; }) ? 'missing' : flagged[0].flag, fields: unique(fields) };
+    }
+    return { value: ratios.reduce(function (total, r) { return total * r.value; }, 1) };
+}
+function growth(from, to, periods) {
+    var missing = __spreadArray(__spreadArray([], from.missing, true), to.missing, true);
+    if (missing.length > 0) {
+        return { flag: 'missing', fields: missing };
+    }
+    if (from.value === 0) {
+        return { flag: 'zero-denominator', fields: [from.name] };
+    }
+    if (from.value < 0 || to.value < 0) {
+        return { flag: 'non-positive', fields: [from.name, to.name].filter(function (name, i) { return [from, to][i].value < 0; }) };
+    }
+    return { value: (0, performance_1.cagr)({ beginningValue: from.value, endingValue: to.value, periods: periods }) };
+}
+function unique(fields) {
+    return fields.filter(function (field, i) { return fields.indexOf(field) === i; });
+}
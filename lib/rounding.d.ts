@@ -0,0 +1,15 @@
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil' | 'none';
+export interface RoundingPolicy {
+    /** decimal places kept, defaults to 2 */
+    decimals?: number;
+    /** half-up rounds ties away from zero, half-even rounds ties to the even digit (banker's rounding), defaults to half-up */
+    mode?: RoundingMode;
+}
+/**
+ * Rounds a value according to a rounding policy
+ * @param value - value to round
+ * @param policy - decimal places and rounding mode
+ * @returns {number} - rounded value
+ * @example round(2.345, { decimals: 2, mode: 'half-even' }) // 2.34
+ */
+export declare function round(value: number, policy?: RoundingPolicy): number;
@@ -0,0 +1,45 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.round = void 0;
+/**
+ * Rounds a value according to a rounding policy
+ * @param value - value to round
+ * @param policy - decimal places and rounding mode
+ * @returns {number} - rounded value
+ * @example round(2.345, { decimals: 2, mode: 'half-even' }) // 2.34
+ */
+function round(value, policy) {
+    if (policy === void 0) { policy = {}; }
+    var _a = policy.decimals, decimals = _a === void 0 ? 2 : _a, _b = policy.mode, mode = _b === void 0 ? 'half-up' : _b;
+    if (mode === 'none' || !isFinite(value)) {
+        return value;
+    }
+    var factor = Math.pow(10, decimals);
+    var scaled = value * factor;
+    // undo representation error that moves a tie or a whole number, e.g. 1.005 * 100 = 100.49999999999999
+    var half = Math.round(scaled * 2) / 2;
+    if (Math.abs(scaled - half) <= 1e-12 * Math.max(1, Math.abs(scaled))) {
+        scaled = half;
+    }
+    var rounded;
+    switch (mode) {
+        case 'floor':
+            rounded = Math.floor(scaled);
+            break;
+        case 'ceil':
+            rounded = Math.ceil(scaled);
+            break;
+        case 'half-even': {
+            var whole = Math.floor(scaled);
+            var fraction = scaled - whole;
+            rounded = fraction > 0.5 || (fraction === 0.5 && whole % 2 !== 0) ? whole + 1 : whole;
+            break;
+        }
+        default:
+            rounded = Math.sign(scaled) * Math.floor(Math.abs(scaled) + 0.5);
+    }
+    var result = rounded / factor;
+    // avoid returning -0
+    return result === 0 ? 0 : result;
+}
+exports.round = round;
@@ -0,0 +1,62 @@
+import { Arithmetic } from './arithmetic';
+import { RoundingPolicy } from './rounding';
+export type Frequency = 'monthly' | 'biweekly' | 'quarterly' | 'annual';
+export interface ScheduleOptions {
+    principal: number;
+    /** annual nominal interest rate, e.g. 7.5 for 7.5% */
+    rate: number;
+    numOfPayments: number;
+    frequency?: Frequency;
+    /** start of the first period, defaults to today */
+    startDate?: Date;
+    payAtBeginning?: boolean;
+    /** rounding of every amount, defaults to cents */
+    rounding?: RoundingPolicy;
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+}
+export interface ScheduleRow {
+    period: number;
+    date: Date;
+    openingBalance: number;
+    payment: number;
+    interest: number;
+    principal: number;
+    closingBalance: number;
+    cumulativeInterest: number;
+}
+/**
+ * Number of payment periods in a year for a frequency
+ * @param frequency - payment frequency
+ * @returns {number} - periods per year
+ * @example periodsPerYear('quarterly') // 4
+ */
+export declare function periodsPerYear(frequency: Frequency): number;
+/**
+ * Moves a date forward by a number of periods, in UTC. Month based frequencies keep the day of month,
+ * clamped to the end of shorter months.
+ * @param date - start date
+ * @param frequency - payment frequency
+ * @param count - number of periods
+ * @returns {Date} - shifted date
+ * @example addPeriods(new Date(Date.UTC(2023, 0, 31)), 'monthly', 1) // 2023-02-28
+ */
+export declare function addPeriods(date: Date, frequency: Frequency, count: number): Date;
+/**
+ * Level payment of an annuity, the same formula AM and PMT are built on
+ * @param arithmetic - number backend
+ * @param principal - principal amount
+ * @param ratePerPeriod - interest rate per period as a fraction
+ * @param numOfPayments - number of payments
+ * @param payAtBeginning - true - pay at the beginning of each period
+ * @returns {T} - unrounded payment
+ */
+export declare function levelPayment<T>(arithmetic: Arithmetic<T>, principal: T, ratePerPeriod: T, numOfPayments: number, payAtBeginning?: boolean): T;
+/**
+ * Amortization schedule - every period of a level payment loan, with the final payment adjusted so the loan
+ * closes at exactly zero
+ * @param options - loan principal, annual rate, number of payments, frequency, start date and payment timing
+ * @returns {ScheduleRow[]} - one row per payment
+ * @example amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60 })[0].payment // 400.76
+ */
+export declare function amortizationSchedule(options: ScheduleOptions): ScheduleRow[];
@@ -0,0 +1,109 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.amortizationSchedule = exports.levelPayment = exports.addPeriods = exports.periodsPerYear = void 0;
+var arithmetic_1 = require("./arithmetic");
+var errors_1 = require("./errors");
+var validation_1 = require("./validation");
+var PERIODS_PER_YEAR = {
+    monthly: 12,
+    biweekly: 26,
+    quarterly: 4,
+    annual: 1,
+};
+/**
+ * Number of payment periods in a year for a frequency
+ * @param frequency - payment frequency
+ * @returns {number} - periods per year
+ * @example periodsPerYear('quarterly') // 4
+ */
+function periodsPerYear(frequency) {
+    if (!PERIODS_PER_YEAR[frequency]) {
+        throw new errors_1.ValidationError("Unknown payment frequency ".concat(frequency), 'frequency');
+    }
+    return PERIODS_PER_YEAR[frequency];
+}
+exports.periodsPerYear = periodsPerYear;
+/**
+ * Moves a date forward by a number of periods, in UTC. Month based frequencies keep the day of month,
+ * clamped to the end of shorter months.
+ * @param date - start date
+ * @param frequency - payment frequency
+ * @param count - number of periods
+ * @returns {Date} - shifted date
+ * @example addPeriods(new Date(Date.UTC(2023, 0, 31)), 'monthly', 1) // 2023-02-28
+ */
+function addPeriods(date, frequency, count) {
+    if (frequency === 'biweekly') {
+        return new Date(date.getTime() + count * 14 * 24 * 60 * 60 * 1000);
+    }
+    var months = count * (12 / periodsPerYear(frequency));
+    var year = date.getUTCFullYear();
+    var month = date.getUTCMonth() + months;
+    var lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    var day = Math.min(date.getUTCDate(), lastDay);
+    return new Date(Date.UTC(year, month, day, date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()));
+}
+exports.addPeriods = addPeriods;
+/**
+ * Level payment of an annuity, the same formula AM and PMT are built on
+ * @param arithmetic - number backend
+ * @param principal - principal amount
+ * @param ratePerPeriod - interest rate per period as a fraction
+ * @param numOfPayments - number of payments
+ * @param payAtBeginning - true - pay at the beginning of each period
+ * @returns {T} - unrounded payment
+ */
+function levelPayment(arithmetic, principal, ratePerPeriod, numOfPayments, payAtBeginning) {
+    var m = arithmetic;
+    if (m.compare(ratePerPeriod, m.from(0)) === 0) {
+        return m.divide(principal, m.from(numOfPayments));
+    }
+    var onePlusRate = m.add(m.from(1), ratePerPeriod);
+    var pmt = m.divide(m.multiply(principal, ratePerPeriod), m.subtract(m.from(1), m.pow(onePlusRate, -numOfPayments)));
+    return payAtBeginning ? m.divide(pmt, onePlusRate) : pmt;
+}
+exports.levelPayment = levelPayment;
+/**
+ * Amortization schedule - every period of a level payment loan, with the final payment adjusted so the loan
+ * closes at exactly zero
+ * @param options - loan principal, annual rate, number of payments, frequency, start date and payment timing
+ * @returns {ScheduleRow[]} - one row per payment
+ * @example amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60 })[0].payment // 400.76
+ */
+function amortizationSchedule(options) {
+    var rate = options.rate, numOfPayments = options.numOfPayments, _a = options.frequency, frequency = _a === void 0 ? 'monthly' : _a, _b = options.payAtBeginning, payAtBeginning = _b === void 0 ? false : _b, rounding = options.rounding;
+    (0, validation_1.assertPositive)('principal', options.principal);
+    (0, validation_1.assertRate)('rate', rate / 100);
+    (0, validation_1.assertInteger)('numOfPayments', numOfPayments);
+    var m = options.arithmetic || arithmetic_1.floatArithmetic;
+    var roundAmount = function (value) { return m.round(value, rounding); };
+    var startDate = options.startDate || new Date();
+    var zero = m.from(0);
+    var ratePerPeriod = m.divide(m.divide(m.from(rate), m.from(100)), m.from(periodsPerYear(frequency)));
+    var payment = roundAmount(levelPayment(m, m.from(options.principal), ratePerPeriod, numOfPayments, payAtBeginning));
+    var rows = [];
+    var balance = m.from(options.principal);
+    var cumulativeInterest = zero;
+    for (var period = 1; period <= numOfPayments && m.compare(balance, zero) > 0; period++) {
+        // with payments in advance the first payment is made before any interest accrues
+        var interest = payAtBeginning && period === 1 ? zero : roundAmount(m.multiply(balance, ratePerPeriod));
+        var due = m.add(balance, interest);
+        var amount = period === numOfPayments || m.compare(due, payment) < 0 ? roundAmount(due) : payment;
+        var principal = roundAmount(m.subtract(amount, interest));
+        var closingBalance = roundAmount(m.subtract(balance, principal));
+        cumulativeInterest = roundAmount(m.add(cumulativeInterest, interest));
+        rows.push({
+            period: period,
+            date: addPeriods(startDate, frequency, payAtBeginning ? period - 1 : period),
+            openingBalance: m.toNumber(balance),
+            payment: m.toNumber(amount),
+            interest: m.toNumber(interest),
+            principal: m.toNumber(principal),
+            closingBalance: m.toNumber(closingBalance),
+            cumulativeInterest: m.toNumber(cumulativeInterest),
+        });
+        balance = closingBalance;
+    }
+    return rows;
+}
+exports.amortizationSchedule = amortizationSchedule;
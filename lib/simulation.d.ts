@@ -0,0 +1,156 @@
+export interface NormalDistribution {
+    type: 'normal';
+    mean: number;
+    standardDeviation: number;
+}
+/** distribution of a positive variable whose logarithm is normal, given by the mean and deviation of the variable */
+export interface LognormalDistribution {
+    type: 'lognormal';
+    mean: number;
+    standardDeviation: number;
+}
+export interface TriangularDistribution {
+    type: 'triangular';
+    min: number;
+    /** most likely value */
+    mode: number;
+    max: number;
+}
+export interface UniformDistribution {
+    type: 'uniform';
+    min: number;
+    max: number;
+}
+export type Distribution = NormalDistribution | LognormalDistribution | TriangularDistribution | UniformDistribution;
+/** sampled or fixed value of every input, by name */
+export interface ModelInputs {
+    [name: string]: number;
+}
+/** builds the cash flows of a project from its inputs, the first one at time 0 */
+export type CashFlowModel = (inputs: ModelInputs) => number[];
+/** npv - net present value, irr - internal rate of return, pi - profitability index */
+export type Metric = 'npv' | 'irr' | 'pi';
+export interface Correlation {
+    inputs: [string, string];
+    /** correlation coefficient from -1 to 1 */
+    coefficient: number;
+}
+export interface SimulationOptions {
+    /** distributions of the inputs, by name */
+    inputs: {
+        [name: string]: Distribution;
+    };
+    model: CashFlowModel;
+    /** discount rate per period as a fraction */
+    rate: number;
+    /** number of trials, defaults to 10000 */
+    trials?: number;
+    /** seed of the random numbers, the same seed gives the same results, defaults to 1 */
+    seed?: number;
+    /** correlations between pairs of inputs, uncorrelated by default */
+    correlations?: Correlation[];
+    /** percentiles reported, from 0 to 100, defaults to 5, 25, 50, 75 and 95 */
+    percentiles?: number[];
+}
+export interface MetricSummary {
+    mean: number;
+    standardDeviation: number;
+    min: number;
+    max: number;
+    /** value at each reported percentile */
+    percentiles: {
+        [level: number]: number;
+    };
+}
+export interface SimulationResult {
+    trials: number;
+    npv: MetricSummary;
+    /** summary of the trials with an IRR, undefined when none has one */
+    irr?: MetricSummary;
+    pi: MetricSummary;
+    /** share of the trials with a negative NPV */
+    probabilityNegativeNpv: number;
+    /** trials whose cash flows have no IRR */
+    irrFailures: number;
+}
+export interface SensitivityRange {
+    base: number;
+    low: number;
+    high: number;
+}
+export interface TornadoOptions {
+    /** base value and range of every input, by name */
+    inputs: {
+        [name: string]: SensitivityRange;
+    };
+    model: CashFlowModel;
+    /** discount rate per period as a fraction */
+    rate: number;
+    /** defaults to npv */
+    metric?: Metric;
+}
+export interface TornadoBar {
+    input: string;
+    /** metric with the input at its low value and the others at their base */
+    low: number;
+    /** metric with the input at its high value and the others at their base */
+    high: number;
+    /** distance between the low and high metric */
+    swing: number;
+}
+export interface TornadoResult {
+    /** metric with every input at its base value */
+    base: number;
+    /** one bar per input, widest swing first */
+    bars: TornadoBar[];
+}
+export interface TableAxis {
+    input: string;
+    values: number[];
+}
+export interface DataTableOptions {
+    /** value of every input outside the table, by name */
+    base: ModelInputs;
+    model: CashFlowModel;
+    /** discount rate per period as a fraction */
+    rate: number;
+    row: TableAxis;
+    column: TableAxis;
+    /** defaults to npv */
+    metric?: Metric;
+}
+export interface DataTable {
+    rowValues: number[];
+    columnValues: number[];
+    /** metric for each row value and column value, NaN when the IRR doesn't exist */
+    results: number[][];
+}
+/**
+ * Seeded pseudo-random number generator (mulberry32), to make simulations reproducible
+ * @param seed - any integer, the same seed gives the same sequence
+ * @returns {function} - generator of numbers from 0 (included) to 1 (excluded)
+ * @example seededRandom(42)() // 0.6011
+ */
+export declare function seededRandom(seed: number): () => number;
+/**
+ * Monte Carlo simulation - samples the inputs, correlated through a Gaussian copula, builds the cash flows of
+ * each trial and summarizes their NPV, IRR and profitability index
+ * @param options - input distributions, cash flow model, discount rate, trials, seed, correlations and percentiles
+ * @returns {SimulationResult} - summary of each metric and the probability of a negative NPV
+ * @example simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } }, model: ({ sales }) => [-1000, sales, sales, sales], rate: 0.1 })
+ */
+export declare function simulate(options: SimulationOptions): SimulationResult;
+/**
+ * Tornado sensitivity - the metric with one input at a time moved to its low and high value, the others held
+ * at their base
+ * @param options - base value and range of each input, cash flow model, discount rate and metric
+ * @returns {TornadoResult} - base metric and one bar per input, widest swing first
+ */
+export declare function tornado(options: TornadoOptions): TornadoResult;
+/**
+ * Two-way data table - the metric for every combination of two inputs, the others held at their base, like a
+ * spreadsheet data table
+ * @param options - base inputs, cash flow model, discount rate, row and column inputs with their values, and metric
+ * @returns {DataTable} - one row per row value and one column per column value
+ */
+export declare function dataTable(options: DataTableOptions): DataTable;
@@ -0,0 +1,284 @@
+"use strict";
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.dataTable = exports.tornado = exports.simulate = exports.seededRandom = void 0;
+var budgeting_1 = require("./budgeting");
+var errors_1 = require("./errors");
+var statistics_1 = require("./statistics");
+var validation_1 = require("./validation");
+var DEFAULT_PERCENTILES = [5, 25, 50, 75, 95];
+/* tslint:disable:no-bitwise */
+/**
+ * Seeded pseudo-random number generator (mulberry32), to make simulations reproducible
+ * @param seed - any integer, the same seed gives the same sequence
+ * @returns {function} - generator of numbers from 0 (included) to 1 (excluded)
+ * @example seededRandom(42)() // 0.6011
+ */
+function seededRandom(seed) {
+    (0, validation_1.assertFinite)('seed', seed);
+    var state = seed >>> 0;
+    return function () {
+        state = (state + 0x6d2b79f5) | 0;
+        var t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+exports.seededRandom = seededRandom;
+/* tslint:enable:no-bitwise */
+/**
+ * Monte Carlo simulation - samples the inputs, correlated through a Gaussian copula, builds the cash flows of
+ * each trial and summarizes their NPV, IRR and profitability index
+ * @param options - input distributions, cash flow model, discount rate, trials, seed, correlations and percentiles
+ * @returns {SimulationResult} - summary of each metric and the probability of a negative NPV
+ * @example simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } }, model: ({ sales }) => [-1000, sales, sales, sales], rate: 0.1 })
+ */
+function simulate(options) {
+    var model = options.model, rate = options.rate, _a = options.trials, trials = _a === void 0 ? 10000 : _a, _b = options.seed, seed = _b === void 0 ? 1 : _b, _c = options.correlations, correlations = _c === void 0 ? [] : _c, _d = options.percentiles, percentiles = _d === void 0 ? DEFAULT_PERCENTILES : _d;
+    (0, validation_1.assertRate)('rate', rate);
+    (0, validation_1.assertInteger)('trials', trials);
+    var names = Object.keys(options.inputs || {});
+    names.forEach(function (name) { return validateDistribution(name, options.inputs[name]); });
+    var factor = cholesky(correlationMatrix(names, correlations));
+    var normal = normalSource(seededRandom(seed));
+    var npvs = [];
+    var irrs = [];
+    var pis = [];
+    var _loop_1 = function (trial) {
+        var independent = names.map(function () { return normal(); });
+        var inputs = {};
+        names.forEach(function (name, i) {
+            var z = 0;
+            for (var j = 0; j <= i; j++) {
+                z += factor[i][j] * independent[j];
+            }
+            inputs[name] = quantile(options.inputs[name], z);
+        });
+        var cashFlows = run(model, inputs);
+        npvs.push(evaluate('npv', cashFlows, rate));
+        pis.push(evaluate('pi', cashFlows, rate));
+        var trialIrr = evaluate('irr', cashFlows, rate);
+        if (!isNaN(trialIrr)) {
+            irrs.push(trialIrr);
+        }
+    };
+    for (var trial = 0; trial < trials; trial++) {
+        _loop_1(trial);
+    }
+    return {
+        trials: trials,
+        npv: summarize(npvs, percentiles),
+        irr: irrs.length > 0 ? summarize(irrs, percentiles) : undefined,
+        pi: summarize(pis, percentiles),
+        probabilityNegativeNpv: npvs.filter(function (value) { return value < 0; }).length / trials,
+        irrFailures: trials - irrs.length,
+    };
+}
+exports.simulate = simulate;
+/**
+ * Tornado sensitivity - the metric with one input at a time moved to its low and high value, the others held
+ * at their base
+ * @param options - base value and range of each input, cash flow model, discount rate and metric
+ * @returns {TornadoResult} - base metric and one bar per input, widest swing first
+ */
+function tornado(options) {
+    var model = options.model, rate = options.rate, _a = options.metric, metric = _a === void 0 ? 'npv' : _a;
+    (0, validation_1.assertRate)('rate', rate);
+    var names = Object.keys(options.inputs || {});
+    var base = {};
+    names.forEach(function (name) {
+        var _a = options.inputs[name], low = _a.low, high = _a.high;
+        base[name] = options.inputs[name].base;
+        (0, validation_1.assertFinite)("inputs.".concat(name, ".base"), base[name]);
+        (0, validation_1.assertFinite)("inputs.".concat(name, ".low"), low);
+        (0, validation_1.assertFinite)("inputs.".concat(name, ".high"), high);
+    });
+    var value = function (inputs) { return evaluate(metric, run(model, inputs), rate); };
+    var bars = names.map(function (name) {
+        var _a, _b;
+        var low = value(__assign(__assign({}, base), (_a = {}, _a[name] = options.inputs[name].low, _a)));
+        var high = value(__assign(__assign({}, base), (_b = {}, _b[name] = options.inputs[name].high, _b)));
+        return { input: name, low: low, high: high, swing: Math.abs(high - low) };
+    });
+    bars.sort(function (a, b) { return b.swing - a.swing; });
+    return { base: value(base), bars: bars };
+}
+exports.tornado = tornado;
+/**
+ * Two-way data table - the metric for every combination of two inputs, the others held at their base, like a
+ * spreadsheet data table
+ * @param options - base inputs, cash flow model, discount rate, row and column inputs with their values, and metric
+ * @returns {DataTable} - one row per row value and one column per column value
+ */
+function dataTable(options) {
+    var base = options.base, model = options.model, rate = options.rate, row = options.row, column = options.column, _a = options.metric, metric = _a === void 0 ? 'npv' : _a;
+    (0, validation_1.assertRate)('rate', rate);
+    [row, column].forEach(function (axis, i) {
+        var name = i === 0 ? 'row' : 'column';
+        if (!axis || typeof axis.input !== 'string') {
+            throw new errors_1.ValidationError("".concat(name, ".input must name an input"), "".concat(name, ".input"));
+        }
+        (0, validation_1.assertCashFlows)("".concat(name, ".values"), axis.values);
+    });
+    var results = row.values.map(function (rowValue) { return column.values.map(function (columnValue) {
+        var _a;
+        var inputs = __assign(__assign({}, base), (_a = {}, _a[row.input] = rowValue, _a[column.input] = columnValue, _a));
+        return evaluate(metric, run(model, inputs), rate);
+    }); });
+    return { rowValues: row.values.slice(), columnValues: column.values.slice(), results: results };
+}
+exports.dataTable = dataTable;
+// NPV and PI discount from the first cash flow at time 0; IRR is NaN when the cash flows have none
+function evaluate(metric, cashFlows, rate) {
+    if (metric === 'irr') {
+        try {
+            return (0, budgeting_1.irr)({ cashFlows: cashFlows });
+        }
+        catch (error) {
+            if (error instanceof errors_1.FinanceError) {
+                return NaN;
+            }
+            throw error;
+        }
+    }
+    if (metric === 'npv') {
+        return (0, budgeting_1.npv)({ rate: rate, cashFlows: cashFlows });
+    }
+    if (metric === 'pi') {
+        return (0, budgeting_1.profitabilityIndex)({ rate: rate, cashFlows: cashFlows });
+    }
+    throw new errors_1.ValidationError("Unknown metric ".concat(metric), 'metric');
+}
+function run(model, inputs) {
+    var cashFlows = model(inputs);
+    (0, validation_1.assertCashFlows)('model', cashFlows);
+    return cashFlows;
+}
+function summarize(values, levels) {
+    var sorted = values.slice().sort(function (a, b) { return a - b; });
+    var count = sorted.length;
+    var mean = sorted.reduce(function (sum, value) { return sum + value; }, 0) / count;
+    // the sample variance needs two values; a single one has no spread
+    var variance = count > 1 ? sorted.reduce(function (sum, value) { return sum + Math.pow(value - mean, 2); }, 0) / (count - 1) : 0;
+    var percentiles = {};
+    levels.forEach(function (level) { return percentiles[level] = (0, statistics_1.percentile)(sorted, level); });
+    return { mean: mean, standardDeviation: Math.sqrt(variance), min: sorted[0], max: sorted[count - 1], percentiles: percentiles };
+}
+// standard normal draws by the Box-Muller transform
+function normalSource(random) {
+    var spare;
+    return function () {
+        if (spare !== undefined) {
+            var value = spare;
+            spare = undefined;
+            return value;
+        }
+        var radius = Math.sqrt(-2 * Math.log(1 - random()));
+        var angle = 2 * Math.PI * random();
+        spare = radius * Math.sin(angle);
+        return radius * Math.cos(angle);
+    };
+}
+// value of the distribution at the quantile of a standard normal draw
+function quantile(distribution, z) {
+    switch (distribution.type) {
+        case 'normal':
+            return distribution.mean + distribution.standardDeviation * z;
+        case 'lognormal': {
+            var mean = distribution.mean, standardDeviation = distribution.standardDeviation;
+            var variance = Math.log(1 + Math.pow(standardDeviation / mean, 2));
+            return Math.exp(Math.log(mean) - variance / 2 + Math.sqrt(variance) * z);
+        }
+        case 'uniform':
+            return distribution.min + (distribution.max - distribution.min) * (0, statistics_1.normalCdf)(z);
+        case 'triangular': {
+            var min = distribution.min, mode = distribution.mode, max = distribution.max;
+            var u = (0, statistics_1.normalCdf)(z);
+            return u < (mode - min) / (max - min)
+                ? min + Math.sqrt(u * (max - min) * (mode - min))
+                : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+        }
+    }
+}
+function validateDistribution(name, distribution) {
+    var argument = "inputs.".concat(name);
+    if (!distribution) {
+        throw new errors_1.ValidationError("".concat(argument, " must be a distribution"), argument);
+    }
+    switch (distribution.type) {
+        case 'normal':
+            (0, validation_1.assertFinite)("".concat(argument, ".mean"), distribution.mean);
+            (0, validation_1.assertNonNegative)("".concat(argument, ".standardDeviation"), distribution.standardDeviation);
+            return;
+        case 'lognormal':
+            (0, validation_1.assertPositive)("".concat(argument, ".mean"), distribution.mean);
+            (0, validation_1.assertNonNegative)("".concat(argument, ".standardDeviation"), distribution.standardDeviation);
+            return;
+        case 'uniform':
+        case 'triangular': {
+            var min = distribution.min, max = distribution.max;
+            var mode = distribution.type === 'triangular' ? distribution.mode : min;
+            (0, validation_1.assertFinite)("".concat(argument, ".min"), min);
+            (0, validation_1.assertFinite)("".concat(argument, ".mode"), mode);
+            (0, validation_1.assertFinite)("".concat(argument, ".max"), max);
+            if (!(min < max) || mode < min || mode > max) {
+                throw new errors_1.ValidationError("".concat(argument, " must have min below max, and its mode between them"), argument);
+            }
+            return;
+        }
+        default:
+            throw new errors_1.ValidationError("Unknown distribution ".concat(distribution.type), "".concat(argument, ".type"));
+    }
+}
+function correlationMatrix(names, correlations) {
+    var matrix = names.map(function (_, i) { return names.map(function (__, j) { return i === j ? 1 : 0; }); });
+    correlations.forEach(function (correlation, k) {
+        var _a = correlation.inputs, first = _a[0], second = _a[1];
+        var i = names.indexOf(first);
+        var j = names.indexOf(second);
+        if (i < 0 || j < 0 || i === j) {
+            throw new errors_1.ValidationError('correlations must be between two different inputs', "correlations[".concat(k, "].inputs"));
+        }
+        var coefficient = correlation.coefficient;
+        if (!(coefficient >= -1 && coefficient <= 1)) {
+            throw new errors_1.ValidationError("correlation coefficients must be between -1 and 1, got ".concat(coefficient), "correlations[".concat(k, "].coefficient"));
+        }
+        matrix[i][j] = coefficient;
+        matrix[j][i] = coefficient;
+    });
+    return matrix;
+}
+// lower triangular factor L of the correlation matrix, L * L' = matrix
+function cholesky(matrix) {
+    var n = matrix.length;
+    var factor = matrix.map(function () { return new Array(n).fill(0); });
+    for (var i = 0; i < n; i++) {
+        for (var j = 0; j <= i; j++) {
+            var sum = matrix[i][j];
+            for (var k = 0; k < j; k++) {
+                sum -= factor[i][k] * factor[j][k];
+            }
+            if (i === j) {
+                // a perfect correlation leaves a zero pivot up to rounding
+                if (sum < -1e-12) {
+                    throw new errors_1.ValidationError('correlations must form a positive semi-definite matrix', 'correlations');
+                }
+                factor[i][i] = Math.sqrt(Math.max(sum, 0));
+            }
+            else {
+                factor[i][j] = factor[j][j] === 0 ? 0 : sum / factor[j][j];
+            }
+        }
+    }
+    return factor;
+}
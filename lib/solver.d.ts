@@ -0,0 +1,42 @@
+export interface SolverOptions {
+    /** absolute tolerance on the root, defaults to 1e-10 */
+    tolerance?: number;
+    /** maximum number of iterations, defaults to 100 */
+    maxIterations?: number;
+    /** interval expected to contain the root; Brent's method is used when the function changes sign over it */
+    bracket?: [number, number];
+    /** starting point for Newton's method, defaults to the middle of the bracket or 0 */
+    guess?: number;
+}
+/** rates from -99% to 1,000,000% as fractions, searched by IRR and XIRR unless a bracket is given */
+export declare const RATE_BRACKET: [number, number];
+/**
+ * Finds a root of a function, with Brent's method when the bracket contains a sign change and Newton's method
+ * otherwise
+ * @param fn - function to find the zero of
+ * @param options - tolerance, iteration cap, bracket and guess
+ * @param derivative - derivative of fn, approximated numerically when omitted
+ * @returns {number} - root of fn
+ * @example findRoot((x) => x * x - 2, { bracket: [0, 2] }) // 1.4142135623...
+ */
+export declare function findRoot(fn: (x: number) => number, options?: SolverOptions, derivative?: (x: number) => number): number;
+/**
+ * Brent's method - bracketing root finder combining bisection, secant and inverse quadratic interpolation
+ * @param fn - function to find the zero of
+ * @param lower - lower end of the bracket
+ * @param upper - upper end of the bracket
+ * @param options - tolerance and iteration cap
+ * @returns {number} - root of fn within the bracket
+ * @example brent(Math.cos, 0, 3) // 1.5707963267...
+ */
+export declare function brent(fn: (x: number) => number, lower: number, upper: number, options?: SolverOptions): number;
+/**
+ * Newton's method - open root finder following the tangent from a starting guess
+ * @param fn - function to find the zero of
+ * @param guess - starting point
+ * @param options - tolerance and iteration cap
+ * @param derivative - derivative of fn, approximated with central differences when omitted
+ * @returns {number} - root of fn
+ * @example newton((x) => x * x - 2, 1) // 1.4142135623...
+ */
+export declare function newton(fn: (x: number) => number, guess: number, options?: SolverOptions, derivative?: (x: number) => number): number;
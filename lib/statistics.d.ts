@@ -0,0 +1,22 @@
+/**
+ * Standard normal density
+ * @param x - value
+ * @returns {number} - density at x
+ * @example normalPdf(0) // 0.3989
+ */
+export declare function normalPdf(x: number): number;
+/**
+ * Cumulative standard normal distribution, accurate to double precision (Hart 1968, as given by Graeme West)
+ * @param x - value
+ * @returns {number} - probability of a standard normal variable below x
+ * @example normalCdf(1.96) // 0.975
+ */
+export declare function normalCdf(x: number): number;
+/**
+ * Percentile of a sample, interpolating linearly between the closest ranks like the spreadsheet PERCENTILE.INC
+ * @param sorted - sample in ascending order
+ * @param level - percentile from 0 to 100
+ * @returns {number} - value below which the percentile of the sample falls
+ * @example percentile([1, 2, 3, 4], 50) // 2.5
+ */
+export declare function percentile(sorted: number[], level: number): number;
@@ -0,0 +1,73 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.percentile = exports.normalCdf = exports.normalPdf = void 0;
+var errors_1 = require("./errors");
+/**
+ * Standard normal density
+ * @param x - value
+ * @returns {number} - density at x
+ * @example normalPdf(0) // 0.3989
+ */
+function normalPdf(x) {
+    return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+exports.normalPdf = normalPdf;
+/**
+ * Cumulative standard normal distribution, accurate to double precision (Hart 1968, as given by Graeme West)
+ * @param x - value
+ * @returns {number} - probability of a standard normal variable below x
+ * @example normalCdf(1.96) // 0.975
+ */
+function normalCdf(x) {
+    var z = Math.abs(x);
+    var tail = 0;
+    if (z < 37) {
+        var e = Math.exp(-z * z / 2);
+        if (z < 7.07106781186547) {
+            var n = 3.52624965998911e-2 * z + 0.700383064443688;
+            n = n * z + 6.37396220353165;
+            n = n * z + 33.912866078383;
+            n = n * z + 112.079291497871;
+            n = n * z + 221.213596169931;
+            n = n * z + 220.206867912376;
+            var d = 8.83883476483184e-2 * z + 1.75566716318264;
+            d = d * z + 16.064177579207;
+            d = d * z + 86.7807322029461;
+            d = d * z + 296.564248779674;
+            d = d * z + 637.333633378831;
+            d = d * z + 793.826512519948;
+            d = d * z + 440.413735824752;
+            tail = e * n / d;
+        }
+        else {
+            var f = z + 0.65;
+            f = z + 4 / f;
+            f = z + 3 / f;
+            f = z + 2 / f;
+            f = z + 1 / f;
+            tail = e / f / 2.506628274631;
+        }
+    }
+    return x > 0 ? 1 - tail : tail;
+}
+exports.normalCdf = normalCdf;
+/**
+ * Percentile of a sample, interpolating linearly between the closest ranks like the spreadsheet PERCENTILE.INC
+ * @param sorted - sample in ascending order
+ * @param level - percentile from 0 to 100
+ * @returns {number} - value below which the percentile of the sample falls
+ * @example percentile([1, 2, 3, 4], 50) // 2.5
+ */
+function percentile(sorted, level) {
+    if (!(level >= 0 && level <= 100)) {
+        throw new errors_1.ValidationError("percentile must be between 0 and 100, got ".concat(level), 'level');
+    }
+    if (sorted.length === 0) {
+        return NaN;
+    }
+    var rank = level / 100 * (sorted.length - 1);
+    var lower = Math.floor(rank);
+    var upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (rank - lower) * (sorted[upper] - sorted[lower]);
+}
+exports.percentile = percentile;
@@ -0,0 +1,146 @@
+import { DayCount } from './daycount';
+import { SolverOptions } from './solver';
+/**
+ * Spreadsheet time value of money functions. Signatures, defaults and sign conventions follow Excel and
+ * LibreOffice: rates are decimal fractions per period, money paid out is negative and money received is
+ * positive, and results are unrounded.
+ */
+/** 0 - payments at the end of each period, 1 - payments at the beginning */
+export type PaymentTiming = 0 | 1;
+export interface XIRROptions extends SolverOptions {
+    /** day count convention for the year fractions, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+/**
+ * Present value of a loan or an investment with level payments, like the spreadsheet PV function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - present value
+ * @example pv(0.08 / 12, 240, 500) // -59777.15
+ */
+export declare function pv(ratePerPeriod: number, numOfPeriods: number, payment: number, futureValue?: number, type?: PaymentTiming): number;
+/**
+ * Future value of a loan or an investment with level payments, like the spreadsheet FV function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param presentValue - present value, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - future value
+ * @example fv(0.06 / 12, 10, -200, -500, 1) // 2581.40
+ */
+export declare function fv(ratePerPeriod: number, numOfPeriods: number, payment: number, presentValue?: number, type?: PaymentTiming): number;
+/**
+ * Level payment of a loan or an investment, like the spreadsheet PMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value, e.g. the loan principal
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - payment per period
+ * @example pmt(0.08 / 12, 10, 10000) // -1037.03
+ */
+export declare function pmt(ratePerPeriod: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+/**
+ * Number of periods of a loan or an investment, like the spreadsheet NPER function
+ * @param ratePerPeriod - interest rate per period
+ * @param payment - payment made each period
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - number of periods, fractional when the last payment is partial
+ * @example nper(0.12 / 12, -100, -1000, 10000, 1) // 59.67
+ */
+export declare function nper(ratePerPeriod: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+/**
+ * Interest rate per period of a loan or an investment, like the spreadsheet RATE function. Solved with
+ * Newton's method from the guess, as spreadsheets do.
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @param guess - starting rate, defaults to 0.1
+ * @param options - solver tolerance and iteration cap
+ * @returns {number} - rate per period
+ * @example rate(48, -200, 8000) // 0.0077
+ */
+export declare function rate(numOfPeriods: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming, guess?: number, options?: SolverOptions): number;
+/**
+ * Interest part of a given payment, like the spreadsheet IPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param per - period, from 1 to numOfPeriods
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - interest paid in the period
+ * @example ipmt(0.1 / 12, 1, 36, 8000) // -66.67
+ */
+export declare function ipmt(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+/**
+ * Principal part of a given payment, like the spreadsheet PPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param per - period, from 1 to numOfPeriods
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - principal repaid in the period
+ * @example ppmt(0.1 / 12, 1, 24, 2000) // -75.62
+ */
+export declare function ppmt(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number;
+/**
+ * Cumulative interest paid between two periods, like the spreadsheet CUMIPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param startPeriod - first period, from 1
+ * @param endPeriod - last period, up to numOfPeriods
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - interest paid, negative for a loan
+ * @example cumipmt(0.09 / 12, 360, 125000, 13, 24, 0) // -11135.23
+ */
+export declare function cumipmt(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number;
+/**
+ * Cumulative principal repaid between two periods, like the spreadsheet CUMPRINC function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param startPeriod - first period, from 1
+ * @param endPeriod - last period, up to numOfPeriods
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - principal repaid, negative for a loan
+ * @example cumprinc(0.09 / 12, 360, 125000, 13, 24, 0) // -934.11
+ */
+export declare function cumprinc(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number;
+/**
+ * Effective annual rate of a nominal rate, like the spreadsheet EFFECT function
+ * @param nominalRate - nominal annual rate
+ * @param npery - compounding periods per year, truncated to an integer
+ * @returns {number} - effective annual rate
+ * @example effect(0.0525, 4) // 0.053542667
+ */
+export declare function effect(nominalRate: number, npery: number): number;
+/**
+ * Nominal annual rate of an effective rate, like the spreadsheet NOMINAL function
+ * @param effectRate - effective annual rate
+ * @param npery - compounding periods per year, truncated to an integer
+ * @returns {number} - nominal annual rate
+ * @example nominal(0.053543, 4) // 0.05250032
+ */
+export declare function nominal(effectRate: number, npery: number): number;
+/**
+ * Annual internal rate of return of cash flows on irregular dates, like the spreadsheet XIRR function. Cash
+ * flows are discounted back to the first date over year fractions of the day count convention.
+ * @param values - cash flows, with at least one sign change
+ * @param dates - dates of the cash flows
+ * @param guess - starting rate when the rate can't be bracketed, defaults to 0
+ * @param options - solver tolerance, iteration cap and bracket, and day count convention
+ * @returns {number} - annual rate
+ * @example xirr([-10000, 2750, 4250, 3250, 2750], dates) // 0.3734
+ */
+export declare function xirr(values: number[], dates: Date[], guess?: number, options?: XIRROptions): number;
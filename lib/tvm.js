@@ -0,0 +1,305 @@
+"use strict";
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.xirr = exports.nominal = exports.effect = exports.cumprinc = exports.cumipmt = exports.ppmt = exports.ipmt = exports.rate = exports.nper = exports.pmt = exports.fv = exports.pv = void 0;
+var daycount_1 = require("./daycount");
+var errors_1 = require("./errors");
+var solver_1 = require("./solver");
+var validation_1 = require("./validation");
+/**
+ * Present value of a loan or an investment with level payments, like the spreadsheet PV function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - present value
+ * @example pv(0.08 / 12, 240, 500) // -59777.15
+ */
+function pv(ratePerPeriod, numOfPeriods, payment, futureValue, type) {
+    if (futureValue === void 0) { futureValue = 0; }
+    if (type === void 0) { type = 0; }
+    validate(ratePerPeriod, type, { numOfPeriods: numOfPeriods, payment: payment, futureValue: futureValue });
+    if (ratePerPeriod === 0) {
+        return -(futureValue + payment * numOfPeriods);
+    }
+    var growth = Math.pow(1 + ratePerPeriod, numOfPeriods);
+    return -(futureValue + payment * (1 + ratePerPeriod * type) * (growth - 1) / ratePerPeriod) / growth;
+}
+exports.pv = pv;
+/**
+ * Future value of a loan or an investment with level payments, like the spreadsheet FV function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param presentValue - present value, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - future value
+ * @example fv(0.06 / 12, 10, -200, -500, 1) // 2581.40
+ */
+function fv(ratePerPeriod, numOfPeriods, payment, presentValue, type) {
+    if (presentValue === void 0) { presentValue = 0; }
+    if (type === void 0) { type = 0; }
+    validate(ratePerPeriod, type, { numOfPeriods: numOfPeriods, payment: payment, presentValue: presentValue });
+    if (ratePerPeriod === 0) {
+        return -(presentValue + payment * numOfPeriods);
+    }
+    var growth = Math.pow(1 + ratePerPeriod, numOfPeriods);
+    return -(presentValue * growth + payment * (1 + ratePerPeriod * type) * (growth - 1) / ratePerPeriod);
+}
+exports.fv = fv;
+/**
+ * Level payment of a loan or an investment, like the spreadsheet PMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value, e.g. the loan principal
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - payment per period
+ * @example pmt(0.08 / 12, 10, 10000) // -1037.03
+ */
+function pmt(ratePerPeriod, numOfPeriods, presentValue, futureValue, type) {
+    if (futureValue === void 0) { futureValue = 0; }
+    if (type === void 0) { type = 0; }
+    validate(ratePerPeriod, type, { numOfPeriods: numOfPeriods, presentValue: presentValue, futureValue: futureValue });
+    assertNonZero('numOfPeriods', numOfPeriods);
+    if (ratePerPeriod === 0) {
+        return -(presentValue + futureValue) / numOfPeriods;
+    }
+    var growth = Math.pow(1 + ratePerPeriod, numOfPeriods);
+    return -(futureValue + presentValue * growth) * ratePerPeriod / ((1 + ratePerPeriod * type) * (growth - 1));
+}
+exports.pmt = pmt;
+/**
+ * Number of periods of a loan or an investment, like the spreadsheet NPER function
+ * @param ratePerPeriod - interest rate per period
+ * @param payment - payment made each period
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - number of periods, fractional when the last payment is partial
+ * @example nper(0.12 / 12, -100, -1000, 10000, 1) // 59.67
+ */
+function nper(ratePerPeriod, payment, presentValue, futureValue, type) {
+    if (futureValue === void 0) { futureValue = 0; }
+    if (type === void 0) { type = 0; }
+    validate(ratePerPeriod, type, { payment: payment, presentValue: presentValue, futureValue: futureValue });
+    if (ratePerPeriod === 0) {
+        assertNonZero('payment', payment);
+        return -(presentValue + futureValue) / payment;
+    }
+    var annuity = payment * (1 + ratePerPeriod * type);
+    var ratio = (annuity - futureValue * ratePerPeriod) / (annuity + presentValue * ratePerPeriod);
+    if (!(ratio > 0)) {
+        throw new errors_1.ValidationError('The payment can never reach the future value', 'payment');
+    }
+    return Math.log(ratio) / Math.log(1 + ratePerPeriod);
+}
+exports.nper = nper;
+/**
+ * Interest rate per period of a loan or an investment, like the spreadsheet RATE function. Solved with
+ * Newton's method from the guess, as spreadsheets do.
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @param guess - starting rate, defaults to 0.1
+ * @param options - solver tolerance and iteration cap
+ * @returns {number} - rate per period
+ * @example rate(48, -200, 8000) // 0.0077
+ */
+function rate(numOfPeriods, payment, presentValue, futureValue, type, guess, options) {
+    if (futureValue === void 0) { futureValue = 0; }
+    if (type === void 0) { type = 0; }
+    if (guess === void 0) { guess = 0.1; }
+    if (options === void 0) { options = {}; }
+    validate(guess, type, { numOfPeriods: numOfPeriods, payment: payment, presentValue: presentValue, futureValue: futureValue });
+    assertNonZero('numOfPeriods', numOfPeriods);
+    // balance left after the last period, zero at the rate. expm1 and log1p keep (growth - 1) / r accurate
+    // near a zero rate, where Newton's method would otherwise stall on rounding noise.
+    var residual = function (r) {
+        if (r === 0) {
+            return presentValue + payment * numOfPeriods + futureValue;
+        }
+        var growthMinusOne = Math.expm1(numOfPeriods * Math.log1p(r));
+        return presentValue * (1 + growthMinusOne) + payment * (1 + r * type) * growthMinusOne / r + futureValue;
+    };
+    return (0, solver_1.findRoot)(residual, __assign(__assign({}, options), { guess: guess }));
+}
+exports.rate = rate;
+/**
+ * Interest part of a given payment, like the spreadsheet IPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param per - period, from 1 to numOfPeriods
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - interest paid in the period
+ * @example ipmt(0.1 / 12, 1, 36, 8000) // -66.67
+ */
+function ipmt(ratePerPeriod, per, numOfPeriods, presentValue, futureValue, type) {
+    if (futureValue === void 0) { futureValue = 0; }
+    if (type === void 0) { type = 0; }
+    assertPeriod('per', per, numOfPeriods);
+    var payment = pmt(ratePerPeriod, numOfPeriods, presentValue, futureValue, type);
+    if (per === 1) {
+        return type === 1 ? 0 : -presentValue * ratePerPeriod;
+    }
+    // interest accrues on the balance after the previous payment
+    var balance = type === 1
+        ? fv(ratePerPeriod, per - 2, payment, presentValue, 1) - payment
+        : fv(ratePerPeriod, per - 1, payment, presentValue, 0);
+    return balance * ratePerPeriod;
+}
+exports.ipmt = ipmt;
+/**
+ * Principal part of a given payment, like the spreadsheet PPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param per - period, from 1 to numOfPeriods
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - principal repaid in the period
+ * @example ppmt(0.1 / 12, 1, 24, 2000) // -75.62
+ */
+function ppmt(ratePerPeriod, per, numOfPeriods, presentValue, futureValue, type) {
+    if (futureValue === void 0) { futureValue = 0; }
+    if (type === void 0) { type = 0; }
+    return pmt(ratePerPeriod, numOfPeriods, presentValue, futureValue, type) - ipmt(ratePerPeriod, per, numOfPeriods, presentValue, futureValue, type);
+}
+exports.ppmt = ppmt;
+/**
+ * Cumulative interest paid between two periods, like the spreadsheet CUMIPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param startPeriod - first period, from 1
+ * @param endPeriod - last period, up to numOfPeriods
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - interest paid, negative for a loan
+ * @example cumipmt(0.09 / 12, 360, 125000, 13, 24, 0) // -11135.23
+ */
+function cumipmt(ratePerPeriod, numOfPeriods, presentValue, startPeriod, endPeriod, type) {
+    assertRange(startPeriod, endPeriod, numOfPeriods);
+    var total = 0;
+    for (var per = startPeriod; per <= endPeriod; per++) {
+        total += ipmt(ratePerPeriod, per, numOfPeriods, presentValue, 0, type);
+    }
+    return total;
+}
+exports.cumipmt = cumipmt;
+/**
+ * Cumulative principal repaid between two periods, like the spreadsheet CUMPRINC function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param startPeriod - first period, from 1
+ * @param endPeriod - last period, up to numOfPeriods
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - principal repaid, negative for a loan
+ * @example cumprinc(0.09 / 12, 360, 125000, 13, 24, 0) // -934.11
+ */
+function cumprinc(ratePerPeriod, numOfPeriods, presentValue, startPeriod, endPeriod, type) {
+    assertRange(startPeriod, endPeriod, numOfPeriods);
+    var total = 0;
+    for (var per = startPeriod; per <= endPeriod; per++) {
+        total += ppmt(ratePerPeriod, per, numOfPeriods, presentValue, 0, type);
+    }
+    return total;
+}
+exports.cumprinc = cumprinc;
+/**
+ * Effective annual rate of a nominal rate, like the spreadsheet EFFECT function
+ * @param nominalRate - nominal annual rate
+ * @param npery - compounding periods per year, truncated to an integer
+ * @returns {number} - effective annual rate
+ * @example effect(0.0525, 4) // 0.053542667
+ */
+function effect(nominalRate, npery) {
+    (0, validation_1.assertPositive)('nominalRate', nominalRate);
+    var periods = compoundings(npery);
+    return Math.pow(1 + nominalRate / periods, periods) - 1;
+}
+exports.effect = effect;
+/**
+ * Nominal annual rate of an effective rate, like the spreadsheet NOMINAL function
+ * @param effectRate - effective annual rate
+ * @param npery - compounding periods per year, truncated to an integer
+ * @returns {number} - nominal annual rate
+ * @example nominal(0.053543, 4) // 0.05250032
+ */
+function nominal(effectRate, npery) {
+    (0, validation_1.assertPositive)('effectRate', effectRate);
+    var periods = compoundings(npery);
+    return periods * (Math.pow(1 + effectRate, 1 / periods) - 1);
+}
+exports.nominal = nominal;
+/**
+ * Annual internal rate of return of cash flows on irregular dates, like the spreadsheet XIRR function. Cash
+ * flows are discounted back to the first date over year fractions of the day count convention.
+ * @param values - cash flows, with at least one sign change
+ * @param dates - dates of the cash flows
+ * @param guess - starting rate when the rate can't be bracketed, defaults to 0
+ * @param options - solver tolerance, iteration cap and bracket, and day count convention
+ * @returns {number} - annual rate
+ * @example xirr([-10000, 2750, 4250, 3250, 2750], dates) // 0.3734
+ */
+function xirr(values, dates, guess, options) {
+    if (guess === void 0) { guess = 0; }
+    if (options === void 0) { options = {}; }
+    (0, validation_1.assertCashFlows)('values', values, 2);
+    (0, validation_1.assertDates)('dates', dates, values.length);
+    (0, validation_1.assertSignChange)('values', values, 'XIRR');
+    var years = dates.map(function (date) { return (0, daycount_1.yearFraction)(dates[0], date, options.dayCount); });
+    var xnpv = function (r) { return values.reduce(function (sum, value, i) { return sum + value / Math.pow(1 + r, years[i]); }, 0); };
+    var dxnpv = function (r) { return values.reduce(function (sum, value, i) { return sum - value * years[i] * Math.pow(1 + r, -1 - years[i]); }, 0); };
+    return (0, solver_1.findRoot)(xnpv, __assign({ bracket: solver_1.RATE_BRACKET, guess: guess }, options), dxnpv);
+}
+exports.xirr = xirr;
+// checks the rate (or RATE's guess), the payment timing and the other arguments by name
+function validate(ratePerPeriod, type, values) {
+    (0, validation_1.assertRate)('ratePerPeriod', ratePerPeriod);
+    Object.keys(values).forEach(function (name) { return (0, validation_1.assertFinite)(name, values[name]); });
+    if (type !== 0 && type !== 1) {
+        throw new errors_1.ValidationError("type must be 0 (end of period) or 1 (beginning of period), got ".concat(type), 'type');
+    }
+}
+function assertNonZero(name, value) {
+    if (value === 0) {
+        throw new errors_1.ValidationError("".concat(name, " must not be 0"), name);
+    }
+}
+function assertPeriod(name, per, numOfPeriods) {
+    (0, validation_1.assertFinite)(name, per);
+    if (per < 1 || per > numOfPeriods) {
+        throw new errors_1.ValidationError("".concat(name, " must be between 1 and numOfPeriods, got ").concat(per), name);
+    }
+}
+function assertRange(startPeriod, endPeriod, numOfPeriods) {
+    (0, validation_1.assertInteger)('startPeriod', startPeriod);
+    (0, validation_1.assertInteger)('endPeriod', endPeriod);
+    if (startPeriod > endPeriod || endPeriod > numOfPeriods) {
+        throw new errors_1.ValidationError('startPeriod must not be after endPeriod, and endPeriod must not be after numOfPeriods', 'endPeriod');
+    }
+}
+function compoundings(npery) {
+    (0, validation_1.assertFinite)('npery', npery);
+    var periods = Math.floor(npery);
+    if (periods < 1) {
+        throw new errors_1.ValidationError("npery must be at least 1, got ".concat(npery), 'npery');
+    }
+    return periods;
+}
@@ -0,0 +1,58 @@
+/**
+ * Checks that a value is a finite number
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export declare function assertFinite(name: string, value: number): void;
+/**
+ * Checks that a value is a finite number greater than zero
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export declare function assertPositive(name: string, value: number): void;
+/**
+ * Checks that a value is a finite number not below zero
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export declare function assertNonNegative(name: string, value: number): void;
+/**
+ * Checks that a value is a whole number of at least the given minimum
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ * @param min - smallest allowed value, defaults to 1
+ */
+export declare function assertInteger(name: string, value: number, min?: number): void;
+/**
+ * Checks that a rate as a fraction is finite and above -100%
+ * @param name - argument name reported in the error
+ * @param rate - rate as a fraction
+ */
+export declare function assertRate(name: string, rate: number): void;
+/**
+ * Checks that cash flows are a non-empty list of finite numbers
+ * @param name - argument name reported in the error
+ * @param cashFlows - cash flows to check
+ * @param minLength - smallest allowed number of cash flows, defaults to 1
+ */
+export declare function assertCashFlows(name: string, cashFlows: number[], minLength?: number): void;
+/**
+ * Checks that cash flows contain at least one positive and one negative value, as rates of return require
+ * @param name - argument name reported in the error
+ * @param cashFlows - cash flows to check
+ * @param method - method name used in the message
+ */
+export declare function assertSignChange(name: string, cashFlows: number[], method: string): void;
+/**
+ * Checks that dates are valid and match the cash flows one to one
+ * @param name - argument name reported in the error
+ * @param dates - dates to check
+ * @param count - expected number of dates
+ */
+export declare function assertDates(name: string, dates: Date[], count: number): void;
+/**
+ * Checks that a value is a valid date
+ * @param name - argument name reported in the error
+ * @param date - value to check
+ */
+export declare function assertDate(name: string, date: Date): void;
@@ -0,0 +1,171 @@
+/** inputs of the capital asset pricing model, rates as fractions */
+export interface CapmInputs {
+    riskFree: number;
+    beta: number;
+    /** expected market return */
+    marketReturn: number;
+    /** additional premium, e.g. for size or country risk, defaults to 0 */
+    premium?: number;
+}
+/** inputs of the weighted average cost of capital, rates as fractions */
+export interface WaccInputs {
+    /** market value of equity */
+    equity: number;
+    /** market value of debt */
+    debt: number;
+    /** cost of equity, or the CAPM inputs it is estimated from */
+    costOfEquity: number | CapmInputs;
+    /** pre-tax cost of debt */
+    costOfDebt: number;
+    taxRate: number;
+}
+/** a rate as a fraction, or the CAPM or WACC inputs it is estimated from */
+export type DiscountRate = number | CapmInputs | WaccInputs;
+export interface DividendDiscountOptions {
+    /** dividend just paid (D0) */
+    dividend: number;
+    /** growth rate of the high-growth stage */
+    highGrowth: number;
+    /** years of high growth */
+    highGrowthYears: number;
+    /** growth rate in perpetuity once growth is stable, must be below the cost of equity */
+    stableGrowth: number;
+    costOfEquity: number | CapmInputs;
+}
+export interface ThreeStageOptions extends DividendDiscountOptions {
+    /** years over which growth declines linearly from the high to the stable rate */
+    transitionYears: number;
+}
+export interface HModelOptions {
+    /** dividend just paid (D0) */
+    dividend: number;
+    /** growth rate today, declining linearly to the stable rate */
+    initialGrowth: number;
+    /** growth rate in perpetuity, must be below the cost of equity */
+    stableGrowth: number;
+    /** half of the years over which growth declines to the stable rate (H) */
+    halfLife: number;
+    costOfEquity: number | CapmInputs;
+}
+/** free cash flow to the firm, discounted at the WACC, or free cash flow to equity, discounted at the cost of equity */
+export type CashFlowBasis = 'fcff' | 'fcfe';
+export interface PerpetualGrowth {
+    method: 'perpetual-growth';
+    /** growth rate of the cash flows after the last forecast year, must be below the discount rate */
+    growth: number;
+}
+export interface ExitMultiple {
+    method: 'exit-multiple';
+    /** enterprise value multiple for FCFF, e.g. EV/EBITDA, or equity value multiple for FCFE, e.g. P/E */
+    multiple: number;
+    /** the metric the multiple applies to, in the last forecast year */
+    metric: number;
+}
+export type TerminalValueMethod = PerpetualGrowth | ExitMultiple;
+export interface DcfOptions {
+    basis: CashFlowBasis;
+    /** forecast free cash flows, one per year starting next year */
+    cashFlows: number[];
+    /** WACC for FCFF or cost of equity for FCFE, or the inputs they are estimated from */
+    discountRate: DiscountRate;
+    terminalValue: TerminalValueMethod;
+    /** debt, defaults to 0 */
+    debt?: number;
+    /** cash and equivalents, defaults to 0 */
+    cash?: number;
+    /** minority interest, defaults to 0 */
+    minorityInterest?: number;
+    /** preferred equity, defaults to 0 */
+    preferredEquity?: number;
+    /** shares outstanding, to value a share */
+    sharesOutstanding?: number;
+}
+/** enterprise value less debt, minority interest and preferred equity plus cash is the equity value */
+export interface ValueBridge {
+    enterpriseValue: number;
+    debt: number;
+    cash: number;
+    minorityInterest: number;
+    preferredEquity: number;
+    equityValue: number;
+}
+export interface DcfResult {
+    /** discount rate applied, as a fraction */
+    discountRate: number;
+    presentValueOfCashFlows: number;
+    /** value at the end of the last forecast year */
+    terminalValue: number;
+    presentValueOfTerminalValue: number;
+    bridge: ValueBridge;
+    /** equity value per share, when the shares outstanding are given */
+    valuePerShare?: number;
+}
+/**
+ * Capital asset pricing model (CAPM) - expected return of an asset from its systematic risk
+ * @param riskFree - risk-free rate
+ * @param beta - beta of the asset
+ * @param marketReturn - expected market return
+ * @param premium - additional premium, defaults to 0
+ * @returns {number} - expected return as a fraction
+ * @example capm(0.02, 1.2, 0.1) // 0.116
+ */
+export declare function capm(riskFree: number, beta: number, marketReturn: number, premium?: number): number;
+/**
+ * Weighted average cost of capital (WACC) - cost of equity and after-tax cost of debt weighted by market value
+ * @param marketValueOfEquity - market value of equity
+ * @param marketValueOfDebt - market value of debt
+ * @param costOfEquity - cost of equity
+ * @param costOfDebt - pre-tax cost of debt
+ * @param taxRate - tax rate
+ * @returns {number} - weighted average cost of capital as a fraction
+ * @example wacc(600000, 400000, 0.06, 0.05, 0.35) // 0.049
+ */
+export declare function wacc(marketValueOfEquity: number, marketValueOfDebt: number, costOfEquity: number, costOfDebt: number, taxRate: number): number;
+/**
+ * Discount rate - a rate given directly, or estimated with CAPM or WACC from its inputs
+ * @param rate - rate as a fraction, CAPM inputs or WACC inputs
+ * @returns {number} - discount rate as a fraction
+ * @example discountRate({ riskFree: 0.02, beta: 1.2, marketReturn: 0.1 }) // 0.116
+ */
+export declare function discountRate(rate: DiscountRate): number;
+/**
+ * Gordon growth model - value of a dividend growing at a constant rate in perpetuity
+ * @param dividend - dividend just paid (D0)
+ * @param growth - growth rate, below the cost of equity
+ * @param costOfEquity - cost of equity, or the CAPM inputs it is estimated from
+ * @returns {number} - value per share
+ * @example gordonGrowth(2, 0.05, 0.1) // 42
+ */
+export declare function gordonGrowth(dividend: number, growth: number, costOfEquity: number | CapmInputs): number;
+/**
+ * Two-stage dividend discount model - dividends grow at a high rate for some years, then at a stable rate in
+ * perpetuity
+ * @param options - dividend just paid, high growth rate and years, stable growth rate and cost of equity
+ * @returns {number} - value per share
+ * @example twoStageDDM({ dividend: 1, highGrowth: 0.2, highGrowthYears: 3, stableGrowth: 0.05, costOfEquity: 0.1 }) // 30.84
+ */
+export declare function twoStageDDM(options: DividendDiscountOptions): number;
+/**
+ * Three-stage dividend discount model - dividends grow at a high rate for some years, then at a rate declining
+ * linearly to the stable rate over a transition, then at the stable rate in perpetuity
+ * @param options - dividend just paid, high growth rate and years, transition years, stable growth rate and cost
+ * of equity
+ * @returns {number} - value per share
+ */
+export declare function threeStageDDM(options: ThreeStageOptions): number;
+/**
+ * H-model - approximate value of a dividend whose growth declines linearly from an initial to a stable rate
+ * @param options - dividend just paid, initial and stable growth rates, half-life of the decline and cost of equity
+ * @returns {number} - value per share
+ * @example hModel({ dividend: 1, initialGrowth: 0.2, stableGrowth: 0.05, halfLife: 5, costOfEquity: 0.1 }) // 36
+ */
+export declare function hModel(options: HModelOptions): number;
+/**
+ * Discounted cash flow (DCF) - value of forecast free cash flows to the firm or to equity plus a terminal value,
+ * bridged from enterprise to equity value
+ * @param options - cash flow basis, forecast cash flows, discount rate, terminal value method, balance sheet
+ * items of the bridge and shares outstanding
+ * @returns {DcfResult} - present values, terminal value, value bridge and value per share
+ * @example discountedCashFlow({ basis: 'fcff', cashFlows: [100, 110], discountRate: 0.1, terminalValue: { method: 'perpetual-growth', growth: 0.02 } })
+ */
+export declare function discountedCashFlow(options: DcfOptions): DcfResult;
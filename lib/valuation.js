@@ -0,0 +1,224 @@
+"use strict";
+var __assign = (this && this.__assign) || function () {
+    __assign = Object.assign || function(t) {
+        for (var s, i = 1, n = arguments.length; i < n; i++) {
+            s = arguments[i];
+            for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+                t[p] = s[p];
+        }
+        return t;
+    };
+    return __assign.apply(this, arguments);
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.discountedCashFlow = exports.hModel = exports.threeStageDDM = exports.twoStageDDM = exports.gordonGrowth = exports.discountRate = exports.wacc = exports.capm = void 0;
+var errors_1 = require("./errors");
+var validation_1 = require("./validation");
+/**
+ * Capital asset pricing model (CAPM) - expected return of an asset from its systematic risk
+ * @param riskFree - risk-free rate
+ * @param beta - beta of the asset
+ * @param marketReturn - expected market return
+ * @param premium - additional premium, defaults to 0
+ * @returns {number} - expected return as a fraction
+ * @example capm(0.02, 1.2, 0.1) // 0.116
+ */
+function capm(riskFree, beta, marketReturn, premium) {
+    if (premium === void 0) { premium = 0; }
+    (0, validation_1.assertRate)('riskFree', riskFree);
+    (0, validation_1.assertFinite)('beta', beta);
+    (0, validation_1.assertRate)('marketReturn', marketReturn);
+    (0, validation_1.assertFinite)('premium', premium);
+    return riskFree + beta * (marketReturn - riskFree) + premium;
+}
+exports.capm = capm;
+/**
+ * Weighted average cost of capital (WACC) - cost of equity and after-tax cost of debt weighted by market value
+ * @param marketValueOfEquity - market value of equity
+ * @param marketValueOfDebt - market value of debt
+ * @param costOfEquity - cost of equity
+ * @param costOfDebt - pre-tax cost of debt
+ * @param taxRate - tax rate
+ * @returns {number} - weighted average cost of capital as a fraction
+ * @example wacc(600000, 400000, 0.06, 0.05, 0.35) // 0.049
+ */
+function wacc(marketValueOfEquity, marketValueOfDebt, costOfEquity, costOfDebt, taxRate) {
+    (0, validation_1.assertNonNegative)('marketValueOfEquity', marketValueOfEquity);
+    (0, validation_1.assertNonNegative)('marketValueOfDebt', marketValueOfDebt);
+    var value = marketValueOfEquity + marketValueOfDebt;
+    (0, validation_1.assertPositive)('marketValueOfEquity + marketValueOfDebt', value);
+    (0, validation_1.assertRate)('costOfEquity', costOfEquity);
+    (0, validation_1.assertRate)('costOfDebt', costOfDebt);
+    (0, validation_1.assertFinite)('taxRate', taxRate);
+    return (marketValueOfEquity / value) * costOfEquity + (marketValueOfDebt / value) * costOfDebt * (1 - taxRate);
+}
+exports.wacc = wacc;
+/**
+ * Discount rate - a rate given directly, or estimated with CAPM or WACC from its inputs
+ * @param rate - rate as a fraction, CAPM inputs or WACC inputs
+ * @returns {number} - discount rate as a fraction
+ * @example discountRate({ riskFree: 0.02, beta: 1.2, marketReturn: 0.1 }) // 0.116
+ */
+function discountRate(rate) {
+    return rateOf('discountRate', rate);
+}
+exports.discountRate = discountRate;
+/**
+ * Gordon growth model - value of a dividend growing at a constant rate in perpetuity
+ * @param dividend - dividend just paid (D0)
+ * @param growth - growth rate, below the cost of equity
+ * @param costOfEquity - cost of equity, or the CAPM inputs it is estimated from
+ * @returns {number} - value per share
+ * @example gordonGrowth(2, 0.05, 0.1) // 42
+ */
+function gordonGrowth(dividend, growth, costOfEquity) {
+    (0, validation_1.assertFinite)('dividend', dividend);
+    (0, validation_1.assertRate)('growth', growth);
+    return terminalValue(dividend * (1 + growth), growth, costOfEquityOf('costOfEquity', costOfEquity));
+}
+exports.gordonGrowth = gordonGrowth;
+/**
+ * Two-stage dividend discount model - dividends grow at a high rate for some years, then at a stable rate in
+ * perpetuity
+ * @param options - dividend just paid, high growth rate and years, stable growth rate and cost of equity
+ * @returns {number} - value per share
+ * @example twoStageDDM({ dividend: 1, highGrowth: 0.2, highGrowthYears: 3, stableGrowth: 0.05, costOfEquity: 0.1 }) // 30.84
+ */
+function twoStageDDM(options) {
+    return threeStageDDM(__assign(__assign({}, options), { transitionYears: 0 }));
+}
+exports.twoStageDDM = twoStageDDM;
+/**
+ * Three-stage dividend discount model - dividends grow at a high rate for some years, then at a rate declining
+ * linearly to the stable rate over a transition, then at the stable rate in perpetuity
+ * @param options - dividend just paid, high growth rate and years, transition years, stable growth rate and cost
+ * of equity
+ * @returns {number} - value per share
+ */
+function threeStageDDM(options) {
+    var dividend = options.dividend, highGrowth = options.highGrowth, highGrowthYears = options.highGrowthYears, transitionYears = options.transitionYears, stableGrowth = options.stableGrowth;
+    (0, validation_1.assertFinite)('dividend', dividend);
+    (0, validation_1.assertRate)('highGrowth', highGrowth);
+    (0, validation_1.assertInteger)('highGrowthYears', highGrowthYears, 0);
+    (0, validation_1.assertInteger)('transitionYears', transitionYears, 0);
+    (0, validation_1.assertRate)('stableGrowth', stableGrowth);
+    var costOfEquity = costOfEquityOf('costOfEquity', options.costOfEquity);
+    var years = highGrowthYears + transitionYears;
+    var value = 0;
+    var current = dividend;
+    for (var year = 1; year <= years; year++) {
+        var growth = year <= highGrowthYears
+            ? highGrowth
+            : highGrowth - (highGrowth - stableGrowth) * (year - highGrowthYears) / transitionYears;
+        current *= 1 + growth;
+        value += current / Math.pow(1 + costOfEquity, year);
+    }
+    return value + terminalValue(current * (1 + stableGrowth), stableGrowth, costOfEquity) / Math.pow(1 + costOfEquity, years);
+}
+exports.threeStageDDM = threeStageDDM;
+/**
+ * H-model - approximate value of a dividend whose growth declines linearly from an initial to a stable rate
+ * @param options - dividend just paid, initial and stable growth rates, half-life of the decline and cost of equity
+ * @returns {number} - value per share
+ * @example hModel({ dividend: 1, initialGrowth: 0.2, stableGrowth: 0.05, halfLife: 5, costOfEquity: 0.1 }) // 36
+ */
+function hModel(options) {
+    var dividend = options.dividend, initialGrowth = options.initialGrowth, stableGrowth = options.stableGrowth, halfLife = options.halfLife;
+    (0, validation_1.assertFinite)('dividend', dividend);
+    (0, validation_1.assertRate)('initialGrowth', initialGrowth);
+    (0, validation_1.assertRate)('stableGrowth', stableGrowth);
+    (0, validation_1.assertNonNegative)('halfLife', halfLife);
+    var costOfEquity = costOfEquityOf('costOfEquity', options.costOfEquity);
+    var premium = dividend * halfLife * (initialGrowth - stableGrowth);
+    return terminalValue(dividend * (1 + stableGrowth) + premium, stableGrowth, costOfEquity);
+}
+exports.hModel = hModel;
+/**
+ * Discounted cash flow (DCF) - value of forecast free cash flows to the firm or to equity plus a terminal value,
+ * bridged from enterprise to equity value
+ * @param options - cash flow basis, forecast cash flows, discount rate, terminal value method, balance sheet
+ * items of the bridge and shares outstanding
+ * @returns {DcfResult} - present values, terminal value, value bridge and value per share
+ * @example discountedCashFlow({ basis: 'fcff', cashFlows: [100, 110], discountRate: 0.1, terminalValue: { method: 'perpetual-growth', growth: 0.02 } })
+ */
+function discountedCashFlow(options) {
+    var basis = options.basis, cashFlows = options.cashFlows, _a = options.debt, debt = _a === void 0 ? 0 : _a, _b = options.cash, cash = _b === void 0 ? 0 : _b, _c = options.minorityInterest, minorityInterest = _c === void 0 ? 0 : _c, _d = options.preferredEquity, preferredEquity = _d === void 0 ? 0 : _d, sharesOutstanding = options.sharesOutstanding;
+    if (basis !== 'fcff' && basis !== 'fcfe') {
+        throw new errors_1.ValidationError("Unknown cash flow basis ".concat(basis), 'basis');
+    }
+    (0, validation_1.assertCashFlows)('cashFlows', cashFlows);
+    (0, validation_1.assertNonNegative)('debt', debt);
+    (0, validation_1.assertNonNegative)('cash', cash);
+    (0, validation_1.assertNonNegative)('minorityInterest', minorityInterest);
+    (0, validation_1.assertNonNegative)('preferredEquity', preferredEquity);
+    var rate = basis === 'fcff'
+        ? firmDiscountRate(options.discountRate)
+        : costOfEquityOf('discountRate', options.discountRate);
+    var years = cashFlows.length;
+    var presentValueOfCashFlows = cashFlows.reduce(function (sum, cf, i) { return sum + cf / Math.pow(1 + rate, i + 1); }, 0);
+    var terminal = options.terminalValue;
+    var value;
+    if (terminal.method === 'perpetual-growth') {
+        (0, validation_1.assertRate)('terminalValue.growth', terminal.growth);
+        value = terminalValue(cashFlows[years - 1] * (1 + terminal.growth), terminal.growth, rate);
+    }
+    else if (terminal.method === 'exit-multiple') {
+        (0, validation_1.assertNonNegative)('terminalValue.multiple', terminal.multiple);
+        (0, validation_1.assertFinite)('terminalValue.metric', terminal.metric);
+        value = terminal.multiple * terminal.metric;
+    }
+    else {
+        throw new errors_1.ValidationError("Unknown terminal value method ".concat(terminal.method), 'terminalValue.method');
+    }
+    var presentValueOfTerminalValue = value / Math.pow(1 + rate, years);
+    var claims = debt - cash + minorityInterest + preferredEquity;
+    var present = presentValueOfCashFlows + presentValueOfTerminalValue;
+    var enterpriseValue = basis === 'fcff' ? present : present + claims;
+    var equityValue = basis === 'fcff' ? present - claims : present;
+    var result = {
+        discountRate: rate,
+        presentValueOfCashFlows: presentValueOfCashFlows,
+        terminalValue: value,
+        presentValueOfTerminalValue: presentValueOfTerminalValue,
+        bridge: { enterpriseValue: enterpriseValue, debt: debt, cash: cash, minorityInterest: minorityInterest, preferredEquity: preferredEquity, equityValue: equityValue },
+    };
+    if (sharesOutstanding !== undefined) {
+        (0, validation_1.assertPositive)('sharesOutstanding', sharesOutstanding);
+        result.valuePerShare = equityValue / sharesOutstanding;
+    }
+    return result;
+}
+exports.discountedCashFlow = discountedCashFlow;
+// value one period before the first cash flow of a growing perpetuity
+function terminalValue(nextCashFlow, growth, rate) {
+    if (growth >= rate) {
+        throw new errors_1.ValidationError('growth must be lower than the discount rate for a perpetual growth value', 'growth');
+    }
+    return nextCashFlow / (rate - growth);
+}
+function rateOf(name, rate) {
+    if (typeof rate === 'number') {
+        (0, validation_1.assertRate)(name, rate);
+        return rate;
+    }
+    if (isWacc(rate)) {
+        var equity = rate.equity, debt = rate.debt, costOfDebt = rate.costOfDebt, taxRate = rate.taxRate;
+        return wacc(equity, debt, rateOf("".concat(name, ".costOfEquity"), rate.costOfEquity), costOfDebt, taxRate);
+    }
+    return capm(rate.riskFree, rate.beta, rate.marketReturn, rate.premium);
+}
+function costOfEquityOf(name, rate) {
+    if (typeof rate !== 'number' && isWacc(rate)) {
+        throw new errors_1.ValidationError('equity cash flows are discounted at the cost of equity, not the WACC', name);
+    }
+    return rateOf(name, rate);
+}
+function firmDiscountRate(rate) {
+    if (typeof rate !== 'number' && !isWacc(rate)) {
+        throw new errors_1.ValidationError('cash flows to the firm are discounted at the WACC, not the cost of equity', 'discountRate');
+    }
+    return rateOf('discountRate', rate);
+}
+function isWacc(rate) {
+    return rate.costOfEquity !== undefined;
+}
@@ -0,0 +1,75 @@
+import {
+    accruedInterest, Bond, bondAnalytics, cleanPrice, CouponFrequency, convexity, dirtyPrice, dv01, macaulayDuration, modifiedDuration, yieldToCall,
+    yieldToMaturity,
+} from '../bond';
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+describe('Bonds', () => {
+    // spreadsheet PRICE(2008-02-15, 2017-11-15, 5.75%, 6.5%, 100, 2, 0)
+    const bond: Bond = { settlement: utc(2008, 2, 15), maturity: utc(2017, 11, 15), couponRate: 0.0575 };
+
+    it('should compute accrued interest between coupon dates', () => {
+        expect(accruedInterest(bond)).toBeCloseTo(1.4375, 10);
+        expect(accruedInterest({ ...bond, settlement: utc(2007, 11, 15) })).toEqual(0);
+        expect(accruedInterest({ ...bond, dayCount: 'ACT/365F' })).toBeCloseTo(2.875 * 92 / 182, 10);
+    });
+
+    it('should compute clean and dirty prices', () => {
+        expect(cleanPrice(bond, 0.065)).toBeCloseTo(94.63436, 5);
+        expect(dirtyPrice(bond, 0.065) - cleanPrice(bond, 0.065)).toBeCloseTo(1.4375, 10);
+        expect(cleanPrice({ ...bond, settlement: utc(2007, 11, 15) }, 0.0575)).toBeCloseTo(100, 8);
+    });
+
+    it('should solve yield to maturity', () => {
+        const priced = { settlement: utc(2008, 2, 15), maturity: utc(2016, 11, 15), couponRate: 0.0575 };
+        expect(yieldToMaturity(priced, 95.04287)).toBeCloseTo(0.065, 6);
+        expect(yieldToMaturity(bond, cleanPrice(bond, 0.08))).toBeCloseTo(0.08, 10);
+    });
+
+    it('should solve yield to call', () => {
+        const callable = { settlement: utc(2020, 1, 1), maturity: utc(2030, 1, 1), couponRate: 0.06, frequency: 2 as const };
+        const call = { date: utc(2025, 1, 1), price: 102 };
+        const price = cleanPrice({ ...callable, maturity: call.date, redemption: 102 }, 0.05);
+        expect(yieldToCall(callable, price, call)).toBeCloseTo(0.05, 10);
+        expect(() => yieldToCall(callable, 100, { date: utc(2031, 1, 1), price: 100 })).toThrow(ValidationError);
+    });
+
+    it('should compute Macaulay and modified duration', () => {
+        // spreadsheet DURATION(2018-07-01, 2048-01-01, 8%, 9%, 2, 1) and MDURATION(2008-01-01, 2016-01-01, 8%, 9%, 2, 1)
+        const long = { settlement: utc(2018, 7, 1), maturity: utc(2048, 1, 1), couponRate: 0.08, dayCount: 'ACT/ACT ISDA' as const };
+        expect(macaulayDuration(long, 0.09)).toBeCloseTo(10.9191453, 6);
+        const medium = { settlement: utc(2008, 1, 1), maturity: utc(2016, 1, 1), couponRate: 0.08, dayCount: 'ACT/ACT ISDA' as const };
+        expect(modifiedDuration(medium, 0.09)).toBeCloseTo(5.73567, 5);
+    });
+
+    it('should price zero-coupon bonds at every frequency', () => {
+        const zero = { settlement: utc(2020, 1, 1), maturity: utc(2025, 1, 1), couponRate: 0 };
+        expect(cleanPrice({ ...zero, frequency: 1 }, 0.05)).toBeCloseTo(100 / Math.pow(1.05, 5), 10);
+        expect(cleanPrice({ ...zero, frequency: 2 }, 0.05)).toBeCloseTo(100 / Math.pow(1.025, 10), 10);
+        expect(cleanPrice({ ...zero, frequency: 4 }, 0.05)).toBeCloseTo(100 / Math.pow(1.0125, 20), 10);
+        expect(cleanPrice({ ...zero, frequency: 12 }, 0.05)).toBeCloseTo(100 / Math.pow(1 + 0.05 / 12, 60), 10);
+        expect(macaulayDuration({ ...zero, frequency: 1 }, 0.05)).toBeCloseTo(5, 10);
+        expect(() => cleanPrice({ ...zero, frequency: 3 as unknown as CouponFrequency }, 0.05)).toThrow(ValidationError);
+    });
+
+    it('should approximate price changes with duration, convexity and DV01', () => {
+        const price = dirtyPrice(bond, 0.065);
+        const shift = 0.01;
+        const estimate = price * (1 - modifiedDuration(bond, 0.065) * shift + convexity(bond, 0.065) * shift * shift / 2);
+        expect(estimate).toBeCloseTo(dirtyPrice(bond, 0.065 + shift), 1);
+        expect(dv01(bond, 0.065)).toBeCloseTo(dirtyPrice(bond, 0.0649) - price, 4);
+        expect(bondAnalytics(bond, 0.065).dv01).toEqual(dv01(bond, 0.065));
+    });
+
+    it('should expose bond analytics on Finance in percent', () => {
+        const cal = new Finance();
+        const quoted = { ...bond, couponRate: 5.75 };
+        expect(cal.bondAnalytics(quoted, 6.5).cleanPrice).toBeCloseTo(94.63436, 5);
+        expect(cal.YTM(quoted, 94.63436)).toBeCloseTo(6.5, 4);
+        expect(new Finance({ rateUnit: 'decimal' }).YTM(bond, 94.63436)).toBeCloseTo(0.065, 6);
+        expect(() => cal.bondAnalytics({ ...quoted, settlement: utc(2018, 1, 1) }, 6.5)).toThrow('settlement must be before maturity');
+    });
+});
@@ -0,0 +1,108 @@
+import {
+    allIrr, breakEven, countSignChanges, discountedPayback, discountFactors, futureValue, irr, mirr, npv, payback, paybackPeriod, presentValue,
+    profitabilityIndex, xmirr, xnpv,
+} from '../budgeting';
+import { YieldCurve } from '../curve';
+import { decimalArithmetic } from '../decimal';
+import { CashFlowError, ValidationError } from '../errors';
+import Finance from '../finance';
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+describe('Capital budgeting', () => {
+    const cashFlows = [-500000, 200000, 300000, 200000];
+
+    it('should discount single amounts', () => {
+        expect(presentValue({ rate: 0.05, amount: 100, periods: 5 })).toBeCloseTo(78.3526, 4);
+        expect(presentValue({ rate: 0.1, amount: 100 })).toBeCloseTo(90.9091, 4);
+        expect(futureValue({ rate: 0.005, amount: 1000, periods: 12 })).toBeCloseTo(1061.6778, 4);
+        expect(() => presentValue({ rate: -1, amount: 100 })).toThrow(ValidationError);
+        expect(() => futureValue({ rate: 0.1, amount: 100, periods: -1 })).toThrow(ValidationError);
+    });
+
+    it('should compute NPV at a rate or on a curve, on any number backend', () => {
+        expect(npv({ rate: 0.1, cashFlows })).toBeCloseTo(80015.0263, 4);
+        expect(npv({ rate: 0.1, cashFlows, rounding: { decimals: 2 } })).toEqual(80015.03);
+        expect(npv({ rate: 0, cashFlows: [0.1, 0.2], arithmetic: decimalArithmetic })).toEqual(0.3);
+        const curve = YieldCurve.fromDiscountFactors([1, 2, 3].map((time) => ({ time, value: Math.pow(1.1, -time) })));
+        expect(npv({ rate: curve, cashFlows })).toBeCloseTo(npv({ rate: 0.1, cashFlows }), 6);
+        expect(() => npv({ rate: 0.1, cashFlows: [] })).toThrow(ValidationError);
+    });
+
+    it('should solve IRR and MIRR', () => {
+        expect(irr({ cashFlows: [-1000, 300, 400, 500] })).toBeCloseTo(0.088963, 6);
+        expect(irr({ cashFlows: [-6, 297, 307] })).toBeCloseTo(49.5129, 4);
+        expect(() => irr({ cashFlows: [100, 200] })).toThrow(CashFlowError);
+        expect(mirr({ cashFlows: [-120000, 39000, 30000, 21000, 37000, 46000], financeRate: 0.1, reinvestRate: 0.12 }))
+            .toBeCloseTo(0.126094, 6);
+        const scan = allIrr({ cashFlows: [-100, 230, -132] });
+        expect(scan.rates[0]).toBeCloseTo(0.1, 10);
+        expect(scan.rates[1]).toBeCloseTo(0.2, 10);
+        expect(scan.multipleRoots).toEqual(true);
+        expect(countSignChanges([-100, 230, 0, -132])).toEqual(2);
+        expect(() => allIrr({ cashFlows: [-100, 230, -132], range: [0.5, 0.1] })).toThrow(ValidationError);
+    });
+
+    it('should handle cash flows on irregular dates', () => {
+        const dates = [utc(2008, 1, 1), utc(2008, 3, 1), utc(2008, 10, 30), utc(2009, 2, 15), utc(2009, 4, 1)];
+        const flows = [-10000, 2750, 4250, 3250, 2750];
+        expect(xnpv({ rate: 0.09, cashFlows: flows, dates })).toBeCloseTo(2086.65, 2);
+        expect(xmirr({ cashFlows: flows, dates, financeRate: 0.1, reinvestRate: 0.12 })).toBeGreaterThan(0.12);
+        expect(() => xmirr({ cashFlows: [-1, 1], dates: [dates[0], dates[0]], financeRate: 0.1, reinvestRate: 0.1 })).toThrow(ValidationError);
+    });
+
+    it('should compute the profitability index, discount factors and payback', () => {
+        const flows = [-40000, 18000, 12000, 10000, 9000, 6000];
+        expect(profitabilityIndex({ rate: 0.1, cashFlows: flows, rounding: { decimals: 2 } })).toEqual(1.09);
+        expect(profitabilityIndex({ rate: 0.1, cashFlows: flows, arithmetic: decimalArithmetic, rounding: { decimals: 2 } })).toEqual(1.09);
+        expect(() => profitabilityIndex({ rate: 0.1, cashFlows: [0, 1] })).toThrow(ValidationError);
+        const factors = discountFactors({ rate: 0.1, periods: 3 });
+        expect(factors[0]).toEqual(1);
+        expect(factors[2]).toBeCloseTo(1 / 1.21, 12);
+        expect(discountFactors({ rate: 0.1, periods: 0 })).toEqual([]);
+        expect(paybackPeriod({ cashFlows: [-105, 25], even: true })).toBeCloseTo(4.2, 10);
+        expect(paybackPeriod({ cashFlows: [-100, 10, 10] })).toBeUndefined();
+        expect(paybackPeriod({ cashFlows: [-50, 10, 13, 16, 19, 22] })).toBeCloseTo(3 + 11 / 19, 12);
+    });
+
+    it('should analyse payback, discounted payback and break-even', () => {
+        expect(payback({ cashFlows: [-50, 10, 13, 16, 19, 22] })).toEqual({
+            recovered: true, period: 4, fractionalPeriod: 3 + 11 / 19, cumulative: [-50, -40, -27, -11, 8, 30],
+        });
+        expect(payback({ cashFlows: [-100, 50, 50] }).fractionalPeriod).toEqual(2);
+        expect(payback({ cashFlows: [-100, 10, 10] })).toEqual({ recovered: false, cumulative: [-100, -90, -80] });
+        const even = payback({ cashFlows: [-105, 25], even: true });
+        expect(even.fractionalPeriod).toEqual(4.2);
+        expect(even.period).toEqual(5);
+        expect(even.cumulative).toEqual([-105, -80, -55, -30, -5, 20]);
+        const long = payback({ cashFlows: [-1e9, 1], even: true });
+        expect(long.period).toEqual(1e9);
+        expect(long.cumulative).toHaveLength(1001);
+        expect(() => payback({ cashFlows: [100, 10] })).toThrow(ValidationError);
+
+        const discounted = discountedPayback({ rate: 0.1, cashFlows: [-100, 50, 50, 50] });
+        expect(discounted.period).toEqual(3);
+        expect(discounted.fractionalPeriod).toBeCloseTo(2 + (100 - 50 / 1.1 - 50 / 1.21) / (50 / 1.331), 12);
+        expect(discountedPayback({ rate: 0.1, cashFlows: [-100, 50, 55] }).recovered).toEqual(false);
+        const curve = YieldCurve.fromDiscountFactors([1, 2, 3].map((time) => ({ time, value: Math.pow(1.1, -time) })));
+        expect(discountedPayback({ rate: curve, cashFlows: [-100, 50, 50, 50] }).fractionalPeriod).toBeCloseTo(discounted.fractionalPeriod!, 6);
+
+        expect(breakEven({ fixedCost: 10000, variableCost: 30, price: 50 }))
+            .toEqual({ units: 500, revenue: 25000, contributionMargin: 20, contributionMarginRatio: 0.4 });
+        expect(() => breakEven({ fixedCost: 10000, variableCost: 50, price: 50 })).toThrow(ValidationError);
+    });
+
+    it('should back the Finance methods', () => {
+        const cal = new Finance();
+        expect(cal.NPV(10, ...cashFlows)).toEqual(npv({ rate: 0.1, cashFlows, rounding: { decimals: 2 } }));
+        expect(cal.IRR({ depth: 100, cashFlow: [-1000, 300, 400, 500] })).toEqual(8.9);
+        expect(cal.MIRR([-120000, 39000, 30000, 21000, 37000, 46000], 10, 12)).toEqual(12.61);
+        expect(cal.PP(5, -50, 10, 13, 16, 19, 22)).toEqual(paybackPeriod({ cashFlows: [-50, 10, 13, 16, 19, 22] }));
+        expect(cal.DF(10, 4)).toEqual([1, 0.91, 0.827]);
+        expect(cal.payback([-50, 10, 13, 16, 19, 22]).fractionalPeriod).toEqual(cal.PP(5, -50, 10, 13, 16, 19, 22));
+        expect(cal.discountedPayback(10, [-100, 50, 50, 50]).cumulative).toEqual([-100, -54.55, -13.22, 24.34]);
+        expect(cal.breakEven(10000, 30, 50)).toEqual({ units: 500, revenue: 25000, contributionMargin: 20, contributionMarginRatio: 40 });
+        expect(() => cal.PP(2, 50, 10)).toThrow(ValidationError);
+        expect(new Finance({ arithmetic: decimalArithmetic }).NPV(7.3, -1000, 600, 600)).toEqual(80.32);
+    });
+});
@@ -0,0 +1,103 @@
+import { parseCashFlows, render, run } from '../cli';
+
+describe('Command line', () => {
+    it('should run a command with cash flows from the arguments', () => {
+        expect(run(['NPV', '10', '-500000', '200000', '300000', '200000'])).toEqual({ code: 0, stdout: '80015.03\n', stderr: '' });
+        expect(run(['npv', '0.1', '-500000', '200000', '300000', '200000', '--rate-unit', 'decimal', '--decimals=4']).stdout)
+            .toEqual('80015.0263\n');
+        expect(run(['DF', '10', '4']).stdout).toEqual('    1\n 0.91\n0.827\n');
+    });
+
+    it('should read cash flows from CSV or JSON on stdin', () => {
+        expect(run(['IRR'], 'amount\n-1000\n300\n400\n500\n').stdout).toEqual('8.9\n');
+        expect(run(['IRR'], '[-1000, 300, 400, 500]').stdout).toEqual('8.9\n');
+        const flows = [['2008-01-01', -10000], ['2008-03-01', 2750], ['2008-10-30', 4250], ['2009-02-15', 3250], ['2009-04-01', 2750]];
+        const json = JSON.stringify(flows.map(([date, amount]) => ({ date, amount })));
+        expect(run(['XIRR'], json).stdout).toEqual('37.34\n');
+        expect(run(['XIRR'], flows.map((flow) => flow.join(',')).join('\n')).stdout).toEqual('37.34\n');
+        expect(run(['XIRR', ...flows.map((flow) => flow.join(':'))]).stdout).toEqual('37.34\n');
+        expect(parseCashFlows('{ "cashFlows": [-100, 110], "dates": ["2023-01-01", "2024-01-01"] }').dates)
+            .toEqual([new Date('2023-01-01'), new Date('2024-01-01')]);
+    });
+
+    it('should only read stdin without input in the arguments, or with - or --input -', () => {
+        const unread = () => {
+            throw new Error('stdin read');
+        };
+        expect(run(['NPV', '10', '-100', '60', '60'], unread).stdout).toEqual('4.13\n');
+        expect(run(['amortizationSchedule', '--principal', '1000', '--rate', '12', '--num-of-payments', '3'], unread).code).toEqual(0);
+        let reads = 0;
+        const stdin = () => {
+            reads++;
+            return '-100\n60\n60\n';
+        };
+        expect(run(['NPV', '10'], stdin).stdout).toEqual('4.13\n');
+        expect(run(['NPV', '10', '-'], stdin).stdout).toEqual('4.13\n');
+        expect(run(['PI', '10', '--input', '-'], stdin).stdout).toEqual('1.04\n');
+        expect(reads).toEqual(3);
+        const events = JSON.stringify({ events: [{ type: 'prepayment', date: '2024-03-31', amount: 500 }] });
+        const loan = ['modelLoan', '--principal', '1000', '--rate', '12', '--num-of-payments', '3', '--start-date', '2024-01-31', '--format', 'json'];
+        expect(JSON.parse(run(loan, events).stdout).schedule).toHaveLength(3);
+        expect(JSON.parse(run([...loan, '--input', '-'], events).stdout).schedule).toHaveLength(2);
+    });
+
+    it('should split dated arguments on the last colon', () => {
+        const dated = run(['XNPV', '10', '2023-01-01T12:00:00Z:-100', '2024-01-01T12:00:00+00:00:110']);
+        expect(dated).toEqual({ code: 0, stdout: '0\n', stderr: '' });
+        expect(run(['XNPV', '10', '2023-01-01:-100', '2024-01-01:110']).stdout).toEqual('0\n');
+        expect(run(['XNPV', '10', '2023-01-01', '2024-01-01:110']).code).toEqual(2);
+        expect(run(['XNPV', '10', '2023-01-01:-100', '2024-13-01:110']).stderr).toContain('must be a date');
+    });
+
+    it('should not take a value for boolean flags', () => {
+        const even = JSON.parse(run(['payback', '--even', '-100', '30', '--format', 'json']).stdout);
+        expect(even.period).toEqual(4);
+        expect(even.fractionalPeriod).toBeCloseTo(10 / 3, 10);
+        const args = ['amortizationSchedule', '--pay-at-beginning', '--principal', '1000', '--rate', '12', '--num-of-payments', '3', '--format', 'json'];
+        expect(JSON.parse(run(args).stdout)[0].interest).toEqual(0);
+        expect(JSON.parse(run(['payback', '--even=false', '-100', '30', '--format', 'json']).stdout).recovered).toEqual(false);
+    });
+
+    it('should write schedules as a table, CSV or JSON', () => {
+        const args = ['amortizationSchedule', '--principal', '1000', '--rate', '12', '--num-of-payments', '3', '--start-date', '2024-01-31'];
+        const csv = run([...args, '--format', 'csv']).stdout.split('\n');
+        expect(csv[0]).toEqual('period,date,openingBalance,payment,interest,principal,closingBalance,cumulativeInterest');
+        expect(csv[1]).toEqual('1,2024-02-29,1000,340.02,10,330.02,669.98,10');
+        expect(csv).toHaveLength(5);
+        expect(JSON.parse(run([...args, '--format=json']).stdout)[2].closingBalance).toEqual(0);
+        const table = run(args).stdout.split('\n');
+        expect(table[0]).toMatch(/^period {2}date {8}openingBalance/);
+        expect(table[1]).toMatch(/^ {5}1 {2}2024-02-29 {12}1000/);
+        expect(render({ price: 1, greeks: { delta: 0.5 }, rows: [{ a: 1 }, { a: 2 }] }))
+            .toEqual('price           1\ngreeks.delta  0.5\n\na\n1\n2\n');
+    });
+
+    it('should read financial statements as JSON', () => {
+        const statements = { income: { revenue: 1000, netIncome: 100 }, balance: { currentAssets: 300, currentLiabilities: 0, shareholdersEquity: 500 } };
+        const table = run(['analyzeRatios'], JSON.stringify(statements)).stdout;
+        expect(table).toMatch(/^liquidity\.currentRatio\.flag +zero-denominator$/m);
+        expect(table).toMatch(/^profitability\.returnOnEquity\.value +20$/m);
+    });
+
+    it('should fail with a message and a non-zero exit code', () => {
+        const unknown = run(['FOO']);
+        expect(unknown.code).toEqual(2);
+        expect(unknown.stderr).toContain('unknown command FOO');
+        expect(run(['PV', 'abc', '100']).code).toEqual(2);
+        expect(run(['PV']).stderr).toContain('expected <rate> <cf1> [numOfPeriod]');
+        expect(run(['IRR']).stderr).toContain('no cash flows');
+        expect(run(['IRR'], '[-1000, 300').code).toEqual(2);
+        expect(run(['NPV', '10', '-100', '60', '--format', 'xml']).code).toEqual(2);
+        const invalid = run(['PV', '-200', '100']);
+        expect(invalid.code).toEqual(1);
+        expect(invalid.stderr).toEqual('financejs: rate must be above -100%, got -200%\n');
+        expect(run(['IRR', '100', '200']).code).toEqual(1);
+        expect(run(['XIRR', '2023-01-01:-100', '2024-01-01:110', '--day-count', 'ACT/999']).stderr).toContain('unknown --day-count ACT/999');
+        expect(run(['NPV', '10', '-100', '60', '--rate-unit', 'permille']).code).toEqual(2);
+        const unrecovered = run(['PP', '2', '-100', '10', '20']);
+        expect(unrecovered.code).toEqual(1);
+        expect(unrecovered.stderr).toContain('not recovered');
+        expect(run([]).code).toEqual(2);
+        expect(run(['--help']).stdout).toContain('amortizationSchedule');
+    });
+});
@@ -0,0 +1,97 @@
+import { Interpolation, YieldCurve } from '../curve';
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+
+describe('Yield curve', () => {
+    it('should interpolate zero rates linearly', () => {
+        const curve = YieldCurve.fromZeroRates([{ time: 1, value: 0.02 }, { time: 5, value: 0.03 }]);
+        expect(curve.spotRate(3)).toBeCloseTo(0.025, 12);
+        expect(curve.discountFactor(3)).toBeCloseTo(Math.pow(1.025, -3), 12);
+        expect(curve.spotRate(0.5)).toEqual(0.02);
+        expect(curve.spotRate(10)).toEqual(0.03);
+        expect(curve.discountFactor(0)).toEqual(1);
+    });
+
+    it('should interpolate log discount factors', () => {
+        const curve = YieldCurve.fromDiscountFactors([{ time: 1, value: 0.98 }, { time: 2, value: 0.95 }], { interpolation: 'log-linear' });
+        expect(curve.discountFactor(2)).toBeCloseTo(0.95, 12);
+        expect(curve.discountFactor(1.5)).toBeCloseTo(Math.sqrt(0.98 * 0.95), 12);
+        expect(curve.discountFactor(0.5)).toBeCloseTo(Math.sqrt(0.98), 12);
+        // constant forward rates between pillars
+        expect(curve.forwardRate(1, 1.5)).toBeCloseTo(curve.forwardRate(1.5, 2), 12);
+        expect(curve.forwardRate(1, 2)).toBeCloseTo(0.98 / 0.95 - 1, 12);
+        expect(curve.forwardRate(2, 3)).toBeCloseTo(0.98 / 0.95 - 1, 12);
+    });
+
+    it('should interpolate zero rates with a natural cubic spline', () => {
+        const straight = YieldCurve.fromZeroRates(
+            [{ time: 1, value: 0.01 }, { time: 2, value: 0.02 }, { time: 3, value: 0.03 }], { interpolation: 'cubic-spline' },
+        );
+        expect(straight.spotRate(2.5)).toBeCloseTo(0.025, 12);
+        const points = [{ time: 1, value: 0.01 }, { time: 2, value: 0.03 }, { time: 3, value: 0.035 }, { time: 5, value: 0.036 }];
+        const spline = YieldCurve.fromZeroRates(points, { interpolation: 'cubic-spline' });
+        const linear = YieldCurve.fromZeroRates(points);
+        points.forEach((point) => expect(spline.spotRate(point.time)).toBeCloseTo(point.value, 12));
+        expect(spline.spotRate(1.5)).not.toBeCloseTo(linear.spotRate(1.5), 4);
+        // the spline is smooth across a pillar
+        const slope = (t: number, h: number) => (spline.spotRate(t + h) - spline.spotRate(t)) / h;
+        expect(slope(2, 1e-6)).toBeCloseTo(slope(2 - 1e-6, 1e-6), 4);
+    });
+
+    it('should bootstrap par yields', () => {
+        const curve = YieldCurve.fromParYields([{ time: 1, value: 0.02 }, { time: 2, value: 0.025 }]);
+        const df1 = 1 / 1.02;
+        expect(curve.discountFactor(1)).toBeCloseTo(df1, 12);
+        expect(curve.discountFactor(2)).toBeCloseTo((1 - 0.025 * df1) / 1.025, 12);
+        expect(curve.spotRate(2)).toBeCloseTo(0.0250630, 6);
+    });
+
+    it('should reprice semiannual par bonds with coupons between pillars', () => {
+        const points = [{ time: 0.5, value: 0.03 }, { time: 1, value: 0.032 }, { time: 2, value: 0.035 }, { time: 5, value: 0.04 }];
+        const interpolations: Interpolation[] = ['linear', 'log-linear'];
+        interpolations.forEach((interpolation) => {
+            const curve = YieldCurve.fromParYields(points, { frequency: 2, interpolation });
+            points.forEach((point) => {
+                let price = curve.discountFactor(point.time);
+                for (let t = 0.5; t <= point.time; t += 0.5) {
+                    price += point.value / 2 * curve.discountFactor(t);
+                }
+                expect(price).toBeCloseTo(1, 10);
+            });
+        });
+    });
+
+    it('should reprice every par bond for each interpolation', () => {
+        const points = [1, 2, 3, 5, 7].map((time, i) => ({ time, value: [0.01, 0.03, 0.02, 0.05, 0.02][i] }));
+        const interpolations: Interpolation[] = ['linear', 'log-linear', 'cubic-spline'];
+        interpolations.forEach((interpolation) => {
+            const curve = YieldCurve.fromParYields(points, { frequency: 2, interpolation });
+            points.forEach((point) => {
+                let price = curve.discountFactor(point.time);
+                for (let t = 0.5; t <= point.time; t += 0.5) {
+                    price += point.value / 2 * curve.discountFactor(t);
+                }
+                expect(price).toBeCloseTo(1, 10);
+            });
+        });
+    });
+
+    it('should validate the points', () => {
+        expect(() => YieldCurve.fromZeroRates([])).toThrow(ValidationError);
+        expect(() => YieldCurve.fromZeroRates([{ time: 2, value: 0.02 }, { time: 1, value: 0.02 }])).toThrow(ValidationError);
+        expect(() => YieldCurve.fromDiscountFactors([{ time: 1, value: -0.5 }])).toThrow(ValidationError);
+        expect(() => YieldCurve.fromZeroRates([{ time: 1, value: 0.02 }], { interpolation: 'quadratic' as unknown as Interpolation })).toThrow(ValidationError);
+    });
+
+    it('should discount NPV, PI and DF on a curve', () => {
+        const cal = new Finance();
+        const flat = YieldCurve.fromZeroRates([{ time: 1, value: 0.1 }]);
+        expect(cal.NPV(flat, -500000, 200000, 300000, 200000)).toEqual(cal.NPV(10, -500000, 200000, 300000, 200000));
+        expect(cal.PI(flat, [-40000, 18000, 12000, 10000, 9000, 6000])).toEqual(cal.PI(10, [-40000, 18000, 12000, 10000, 9000, 6000]));
+        expect(cal.DF(flat, 6)).toEqual(cal.DF(10, 6));
+
+        const curve = YieldCurve.fromZeroRates([{ time: 1, value: 0.02 }, { time: 2, value: 0.03 }]);
+        expect(cal.NPV(curve, -100, 50, 60)).toBeCloseTo(-100 + 50 / 1.02 + 60 / Math.pow(1.03, 2), 2);
+        expect(cal.DF(curve, 3)).toEqual([1, 0.981]);
+    });
+});
@@ -0,0 +1,49 @@
+import Finance from '../finance';
+import { daysBetween, yearFraction } from '../daycount';
+
+const cal = new Finance();
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+describe('Day count conventions', () => {
+    it('should count calendar days in UTC whatever the time of day', () => {
+        expect(daysBetween(utc(2023, 1, 1), utc(2023, 3, 1))).toEqual(59);
+        expect(daysBetween(new Date('2023-03-25T23:30:00Z'), new Date('2023-03-27T00:30:00Z'))).toEqual(2);
+        expect(daysBetween(utc(2023, 3, 1), utc(2023, 1, 1))).toEqual(-59);
+    });
+
+    it('should compute ACT/365F and ACT/360', () => {
+        expect(yearFraction(utc(2023, 1, 1), utc(2023, 7, 1))).toBeCloseTo(181 / 365, 12);
+        expect(yearFraction(utc(2023, 1, 1), utc(2023, 7, 1), 'ACT/360')).toBeCloseTo(181 / 360, 12);
+    });
+
+    it('should compute ACT/ACT ISDA across a leap year', () => {
+        expect(yearFraction(utc(2023, 7, 1), utc(2024, 7, 1), 'ACT/ACT ISDA')).toBeCloseTo(184 / 365 + 182 / 366, 12);
+        expect(yearFraction(utc(2020, 1, 1), utc(2023, 1, 1), 'ACT/ACT ISDA')).toBeCloseTo(3, 12);
+    });
+
+    it('should compute 30/360 US with its end of month rules', () => {
+        expect(yearFraction(utc(2023, 1, 1), utc(2023, 7, 1), '30/360 US')).toEqual(0.5);
+        expect(yearFraction(utc(2023, 1, 31), utc(2023, 3, 31), '30/360 US')).toBeCloseTo(60 / 360, 12);
+        expect(yearFraction(utc(2023, 2, 28), utc(2023, 3, 31), '30/360 US')).toBeCloseTo(30 / 360, 12);
+        expect(yearFraction(utc(2023, 3, 15), utc(2023, 3, 31), '30/360 US')).toBeCloseTo(16 / 360, 12);
+    });
+
+    it('should compute 30E/360', () => {
+        expect(yearFraction(utc(2023, 2, 28), utc(2023, 3, 31), '30E/360')).toBeCloseTo(32 / 360, 12);
+        expect(yearFraction(utc(2023, 3, 15), utc(2023, 3, 31), '30E/360')).toBeCloseTo(15 / 360, 12);
+    });
+
+    it('should compute XNPV', () => {
+        const cfs = [-10000, 2750, 4250, 3250, 2750];
+        const dts = [utc(2008, 1, 1), utc(2008, 3, 1), utc(2008, 10, 30), utc(2009, 2, 15), utc(2009, 4, 1)];
+        expect(cal.XNPV(9, cfs, dts)).toEqual(2086.65);
+        expect(cal.XNPV(9, cfs, dts, 'ACT/360')).toBeLessThan(2086.65);
+    });
+
+    it('should use the day count convention in XIRR', () => {
+        const cfs = [-1000, 1100];
+        const dts = [utc(2023, 1, 1), utc(2024, 1, 1)];
+        expect(cal.XIRR(cfs, dts)).toEqual(10);
+        expect(cal.XIRR(cfs, dts, 0, { dayCount: 'ACT/360' })).toEqual(9.86);
+    });
+});
@@ -0,0 +1,80 @@
+import Finance from '../finance';
+import { Decimal, decimalArithmetic } from '../decimal';
+
+const D = Decimal.from;
+
+describe('Decimal', () => {
+    it('should parse and print numbers and numeric strings', () => {
+        expect(D('-12.3450').toString()).toEqual('-12.345');
+        expect(D(1e-7).toString()).toEqual('0.0000001');
+        expect(D(1e21).toString()).toEqual('1000000000000000000000');
+        expect(D('2.5').toFixed(2)).toEqual('2.50');
+        expect(D('-0.004').toFixed(2)).toEqual('0.00');
+        expect(() => D('abc')).toThrow();
+    });
+
+    it('should add, subtract and multiply exactly', () => {
+        expect(D('0.1').plus('0.2').toString()).toEqual('0.3');
+        expect(D('0.3').minus('0.1').toString()).toEqual('0.2');
+        expect(D('-5').plus('3.25').toString()).toEqual('-1.75');
+        expect(D('123456789.123').times('987654321.987').toString()).toEqual('121932631355968601.347401');
+        expect(D('99999999999999999999').plus(1).toString()).toEqual('100000000000000000000');
+    });
+
+    it('should divide and raise to powers to 40 decimal places', () => {
+        expect(D(1).dividedBy(3).toString()).toEqual('0.' + '3'.repeat(40));
+        expect(D(2).dividedBy(3).toString()).toEqual('0.' + '6'.repeat(39) + '7');
+        expect(D(100).dividedBy(7, 5).toString()).toEqual('14.28571');
+        expect(D('1.1').pow(3).toString()).toEqual('1.331');
+        expect(D(2).pow(-2).toString()).toEqual('0.25');
+        expect(() => D(1).dividedBy(0)).toThrow('Division by zero');
+    });
+
+    it('should round with every mode', () => {
+        expect(D('2.345').round(2).toString()).toEqual('2.35');
+        expect(D('-2.345').round(2).toString()).toEqual('-2.35');
+        expect(D('2.345').round(2, 'half-even').toString()).toEqual('2.34');
+        expect(D('-2.341').round(2, 'floor').toString()).toEqual('-2.35');
+        expect(D('2.341').round(2, 'ceil').toString()).toEqual('2.35');
+    });
+
+    it('should compare values', () => {
+        expect(D('1.10').equals('1.1')).toEqual(true);
+        expect(D('-1').compare('0.5')).toEqual(-1);
+        expect(D('0').isNegative()).toEqual(false);
+    });
+
+    it('should run NPV, PI and amortization on the decimal backend', () => {
+        const exact = new Finance({ arithmetic: decimalArithmetic, rounding: { mode: 'none' } });
+        const float = new Finance({ rounding: { mode: 'none' } });
+        expect(float.NPV(0, 0.1, 0.2)).not.toEqual(0.3);
+        expect(exact.NPV(0, 0.1, 0.2)).toEqual(0.3);
+
+        const cal = new Finance({ arithmetic: decimalArithmetic });
+        expect(cal.NPV(10, -500000, 200000, 300000, 200000)).toEqual(80015.03);
+        expect(cal.PI(10, [-40000, 18000, 12000, 10000, 9000, 6000])).toEqual(1.09);
+        expect(cal.AM(20000, 7.5, 60, 1)).toEqual(400.76);
+        expect(cal.AM(20000, 7.5, 5, 0, true)).toEqual(398.27);
+        expect(cal.PMT(2, 36, -1000000)).toEqual(28642.58);
+
+        const rows = cal.amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate: new Date(Date.UTC(2023, 0, 1)) });
+        const float60 = new Finance().amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate: new Date(Date.UTC(2023, 0, 1)) });
+        expect(rows[59].closingBalance).toEqual(0);
+        expect(rows.map((row) => row.payment)).toEqual(float60.map((row) => row.payment));
+    });
+
+    it('should model loans with events on the decimal backend', () => {
+        const multiply = jest.spyOn(decimalArithmetic, 'multiply');
+        const loan = {
+            principal: 20000, rate: 7.5, numOfPayments: 60, startDate: new Date(Date.UTC(2023, 0, 1)),
+            events: [{ type: 'prepayment' as const, date: new Date(Date.UTC(2023, 5, 1)), amount: 1000 }, { type: 'balloon' as const, amount: 5000 }],
+        };
+        const exact = new Finance({ arithmetic: decimalArithmetic }).modelLoan(loan);
+        expect(multiply).toHaveBeenCalled();
+        multiply.mockRestore();
+        const float = new Finance().modelLoan(loan);
+        expect(exact.schedule).toEqual(float.schedule);
+        expect(exact.interestSaved).toEqual(float.interestSaved);
+        expect(exact.schedule[exact.schedule.length - 1].closingBalance).toEqual(0);
+    });
+});
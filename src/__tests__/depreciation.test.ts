@@ -0,0 +1,85 @@
+import { db, ddb, depreciationSchedule, macrs, MacrsClass, sln, syd, vdb } from '../depreciation';
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+
+// expected values are the outputs of the same formulas in Excel and LibreOffice Calc
+describe('Depreciation', () => {
+    it('should compute SLN and SYD', () => {
+        expect(sln({ cost: 30000, salvage: 7500, life: 10 })).toEqual(2250);
+        expect(syd({ cost: 30000, salvage: 7500, life: 10, period: 1 })).toBeCloseTo(4090.91, 2);
+        expect(syd({ cost: 30000, salvage: 7500, life: 10, period: 10 })).toBeCloseTo(409.09, 2);
+    });
+
+    it('should compute DB with a partial first year', () => {
+        const expected = [186083.33, 259639.42, 176814.44, 120410.64, 81999.64, 55841.76, 15845.10];
+        expected.forEach((value, i) => expect(db({ cost: 1000000, salvage: 100000, life: 6, period: i + 1, month: 7 })).toBeCloseTo(value, 2));
+        expect(() => db({ cost: 1000000, salvage: 100000, life: 6, period: 7 })).toThrow(ValidationError);
+    });
+
+    it('should compute DDB', () => {
+        expect(ddb({ cost: 2400, salvage: 300, life: 10 * 365, period: 1 })).toBeCloseTo(1.32, 2);
+        expect(ddb({ cost: 2400, salvage: 300, life: 10 * 12, period: 1 })).toBeCloseTo(40, 10);
+        expect(ddb({ cost: 2400, salvage: 300, life: 10, period: 1 })).toBeCloseTo(480, 10);
+        expect(ddb({ cost: 2400, salvage: 300, life: 10, period: 2, factor: 1.5 })).toBeCloseTo(306, 10);
+        expect(ddb({ cost: 2400, salvage: 300, life: 10, period: 10 })).toBeCloseTo(22.12, 2);
+    });
+
+    it('should compute VDB', () => {
+        expect(vdb({ cost: 2400, salvage: 300, life: 10 * 365, startPeriod: 0, endPeriod: 1 })).toBeCloseTo(1.32, 2);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10 * 12, startPeriod: 0, endPeriod: 1 })).toBeCloseTo(40, 10);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10, startPeriod: 0, endPeriod: 1 })).toBeCloseTo(480, 10);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10 * 12, startPeriod: 6, endPeriod: 18 })).toBeCloseTo(396.31, 2);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10 * 12, startPeriod: 6, endPeriod: 18, factor: 1.5 })).toBeCloseTo(311.81, 2);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10, startPeriod: 0, endPeriod: 0.875, factor: 1.5 })).toBeCloseTo(315, 10);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10, startPeriod: 0, endPeriod: 10 })).toBeCloseTo(2100, 8);
+        expect(vdb({ cost: 2400, salvage: 300, life: 10, startPeriod: 9, endPeriod: 10, factor: 2, noSwitch: true })).toBeCloseTo(22.12, 2);
+    });
+
+    it('should compute MACRS from the half-year tables', () => {
+        expect(macrs({ cost: 10000, recoveryPeriod: 5, year: 1 })).toEqual(2000);
+        expect(macrs({ cost: 10000, recoveryPeriod: 7, year: 8 })).toBeCloseTo(446, 10);
+        expect(() => macrs({ cost: 10000, recoveryPeriod: 6 as unknown as MacrsClass, year: 1 })).toThrow(ValidationError);
+        expect(() => macrs({ cost: 10000, recoveryPeriod: 3, year: 5 })).toThrow(ValidationError);
+    });
+
+    it('should build a double-declining schedule that switches to straight-line', () => {
+        const switching = depreciationSchedule({ cost: 10000, salvage: 0, life: 5, method: 'double-declining' });
+        expect(switching.map((row) => row.depreciation)).toEqual([4000, 2400, 1440, 1080, 1080]);
+        const declining = depreciationSchedule({ cost: 10000, salvage: 0, life: 5, method: 'double-declining', noSwitch: true });
+        expect(declining.map((row) => row.depreciation)).toEqual([4000, 2400, 1440, 864, 1296]);
+        const schedule = depreciationSchedule({ cost: 2400, salvage: 300, life: 10, method: 'double-declining' });
+        expect(schedule.map((row) => row.depreciation)).toEqual(
+            [480, 384, 307.2, 245.76, 196.61, 157.29, 125.83, 100.66, 80.53, 22.12],
+        );
+        expect(schedule[0]).toEqual({
+            period: 1, openingBookValue: 2400, depreciation: 480, accumulatedDepreciation: 480, closingBookValue: 1920,
+        });
+        expect(schedule[9].closingBookValue).toEqual(300);
+        expect(schedule[9].accumulatedDepreciation).toEqual(2100);
+    });
+
+    it('should spread a partial first year over an extra year', () => {
+        const schedule = depreciationSchedule({ cost: 10000, salvage: 1000, life: 5, method: 'straight-line', firstYearMonths: 6 });
+        expect(schedule.map((row) => row.depreciation)).toEqual([900, 1800, 1800, 1800, 1800, 900]);
+        const syd3 = depreciationSchedule({ cost: 6000, salvage: 0, life: 3, method: 'sum-of-years-digits', firstYearMonths: 3 });
+        expect(syd3.map((row) => row.depreciation)).toEqual([750, 2750, 1750, 750]);
+        const declining = depreciationSchedule({ cost: 1000000, salvage: 100000, life: 6, method: 'declining-balance', firstYearMonths: 7 });
+        expect(declining).toHaveLength(7);
+        expect(declining[1].depreciation).toEqual(259639.42);
+        expect(declining[6].closingBookValue).toEqual(100000);
+    });
+
+    it('should build a MACRS schedule ignoring the salvage value', () => {
+        const schedule = depreciationSchedule({ cost: 10000, salvage: 500, life: 5, method: 'macrs' });
+        expect(schedule.map((row) => row.depreciation)).toEqual([2000, 3200, 1920, 1152, 1152, 576]);
+        expect(schedule[5].closingBookValue).toEqual(0);
+    });
+
+    it('should expose depreciation on Finance', () => {
+        const cal = new Finance();
+        expect(cal.SYD(30000, 7500, 10, 1)).toBeCloseTo(4090.91, 2);
+        expect(cal.MACRS(12345, 3, 1)).toEqual(4114.59);
+        expect(cal.withRounding({ decimals: 0 }).depreciationSchedule({ cost: 2400, salvage: 300, life: 10, method: 'double-declining' })[2].depreciation)
+            .toEqual(307);
+    });
+});
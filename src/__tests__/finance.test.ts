@@ -32,6 +32,30 @@ describe('FinanceJS', () => {
         expect(irr).toBeLessThan(4952);
     });
 
+    it('should find every IRR of non-conventional cash flows', () => {
+        const result = cal.allIRR([-100, 230, -132]);
+        expect(result.rates).toEqual([10, 20]);
+        expect(result.signChanges).toEqual(2);
+        expect(result.multipleRoots).toEqual(true);
+    });
+
+    it('should find a single IRR of conventional cash flows', () => {
+        const result = cal.allIRR([-1000, 300, 400, 500]);
+        expect(result.rates).toEqual([8.9]);
+        expect(result.multipleRoots).toEqual(false);
+    });
+
+    it('should compute MIRR', () => {
+        // cash flows, finance rate, reinvestment rate
+        expect(cal.MIRR([-120000, 39000, 30000, 21000, 37000, 46000], 10, 12)).toEqual(12.61);
+    });
+
+    it('should compute XMIRR', () => {
+        const day = 24 * 60 * 60 * 1000;
+        const dts = [0, 1, 2, 3, 4, 5].map((year) => new Date(Date.UTC(2021, 0, 1) + year * 365 * day));
+        expect(cal.XMIRR([-120000, 39000, 30000, 21000, 37000, 46000], dts, 10, 12)).toEqual(12.61);
+    });
+
     it('should compute PP for even cash flows', () => {
         expect(cal.PP(0, -105, 25)).toBeCloseTo(4.2, 2);
     });
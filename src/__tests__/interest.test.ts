@@ -0,0 +1,36 @@
+import { decimalArithmetic } from '../decimal';
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { compoundInterest, loanPayment, ruleOf72 } from '../interest';
+
+describe('Interest', () => {
+    it('should compound interest', () => {
+        expect(compoundInterest({ rate: 0.043, principal: 1500, periods: 6, compoundings: 4 })).toBeCloseTo(1938.8368, 4);
+        expect(compoundInterest({ rate: 0.1, principal: 100, periods: 2 })).toBeCloseTo(121, 10);
+        expect(() => compoundInterest({ rate: 0.1, principal: 100, periods: 1, compoundings: 0 })).toThrow(ValidationError);
+    });
+
+    it('should apply the rule of 72', () => {
+        expect(ruleOf72(0.08)).toEqual(9);
+        expect(() => ruleOf72(0)).toThrow(ValidationError);
+    });
+
+    it('should compute level loan payments', () => {
+        expect(loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60 })).toBeCloseTo(400.758972, 6);
+        expect(loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60, arithmetic: decimalArithmetic, rounding: { decimals: 2 } }))
+            .toEqual(400.76);
+        expect(loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60, payAtBeginning: true, rounding: { decimals: 2 } }))
+            .toEqual(398.27);
+        expect(loanPayment({ principal: 10000, rate: 0.08, numOfPayments: 4, frequency: 'annual' })).toBeCloseTo(3019.2080, 4);
+        expect(loanPayment({ principal: 12000, rate: 0, numOfPayments: 12 })).toEqual(1000);
+        expect(() => loanPayment({ principal: 100, rate: 0.05, numOfPayments: 0 })).toThrow(ValidationError);
+    });
+
+    it('should back AM, PMT, CI and R72', () => {
+        const cal = new Finance();
+        expect(cal.AM(20000, 7.5, 5, 0)).toEqual(loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60, rounding: { decimals: 2 } }));
+        expect(cal.PMT(7.5, 60, 20000)).toEqual(-400.76);
+        expect(cal.CI(4.3, 4, 1500, 6)).toEqual(1938.83);
+        expect(cal.R72(8)).toEqual(9);
+    });
+});
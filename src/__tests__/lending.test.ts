@@ -0,0 +1,80 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { affordability, apr, apy, compareLoans, convertCompounding, LoanOffer, refinanceBreakEven } from '../lending';
+
+describe('Lending', () => {
+    it('should solve the APR of a loan with fees', () => {
+        const result = apr({ principal: 200000, rate: 0.06, numOfPayments: 360, fees: 4000 });
+        expect(result.apr).toBeCloseTo(0.061895, 6);
+        expect(result.payment).toBeCloseTo(1199.101050, 6);
+        expect(result.amountFinanced).toEqual(196000);
+        expect(result.financeCharge).toBeCloseTo(result.totalOfPayments - 196000, 8);
+        expect(apr({ principal: 10000, rate: 0.08, numOfPayments: 4, frequency: 'annual' }).apr).toBeCloseTo(0.08, 10);
+        expect(apr({ principal: 1200, rate: 0, numOfPayments: 12, fees: 0 }).apr).toBeCloseTo(0, 10);
+        expect(() => apr({ principal: 1000, rate: 0.05, numOfPayments: 12, fees: 1000 })).toThrow(ValidationError);
+    });
+
+    it('should convert between nominal rates, APY and continuous compounding', () => {
+        expect(apy({ rate: 0.05, compoundings: 12 })).toBeCloseTo(0.0511619, 7);
+        expect(apy({ rate: 0.05, compoundings: 'continuous' })).toBeCloseTo(Math.exp(0.05) - 1, 12);
+        expect(convertCompounding({ rate: 0.05, from: 12, to: 'continuous' })).toBeCloseTo(12 * Math.log(1 + 0.05 / 12), 12);
+        expect(convertCompounding({ rate: 0.0511619, from: 1, to: 12 })).toBeCloseTo(0.05, 6);
+        expect(convertCompounding({ rate: 0.05, from: 'continuous', to: 'continuous' })).toBeCloseTo(0.05, 12);
+        expect(() => convertCompounding({ rate: -13, from: 12, to: 1 })).toThrow(ValidationError);
+        expect(() => apy({ rate: 0.05, compoundings: 0 })).toThrow(ValidationError);
+    });
+
+    it('should compare loan offers by total cost and present value', () => {
+        const comparison = compareLoans({
+            offers: [
+                { label: 'no fees', principal: 10000, rate: 0.06, numOfPayments: 36 },
+                { label: 'points', principal: 10000, rate: 0.05, numOfPayments: 36, fees: 300 },
+                { principal: 10000, rate: 0.045, numOfPayments: 60 },
+            ],
+            discountRate: 0.04,
+        });
+        expect(comparison.offers[0].label).toEqual('no fees');
+        expect(comparison.offers[1].totalCost).toBeCloseTo(comparison.offers[1].totalInterest + 300, 8);
+        expect(comparison.offers[1].apr).toBeGreaterThan(0.05);
+        expect(comparison.lowestTotalCost).toEqual(0);
+        expect(comparison.lowestNpv).toEqual(2);
+        expect(() => compareLoans({ offers: [comparison.offers[0] as unknown as LoanOffer], discountRate: 0.04 })).toThrow(ValidationError);
+    });
+
+    it('should find the refinance break-even month', () => {
+        const refinance = refinanceBreakEven({ balance: 200000, currentRate: 0.07, remainingPayments: 300, newRate: 0.055, closingCosts: 4000 });
+        expect(refinance.monthlySavings).toBeCloseTo(185.383410, 6);
+        expect(refinance.breakEvenMonth).toEqual(Math.ceil(4000 / refinance.monthlySavings));
+        expect(refinance.netSavings).toBeCloseTo(300 * refinance.monthlySavings - 4000, 6);
+        const longer = refinanceBreakEven({
+            balance: 100000, currentRate: 0.05, remainingPayments: 60, newRate: 0.049, newNumOfPayments: 360, closingCosts: 3000,
+        });
+        expect(longer.breakEvenMonth).toEqual(3);
+        expect(longer.netSavings).toBeLessThan(0);
+        expect(refinanceBreakEven({ balance: 1000, currentRate: 0.05, remainingPayments: 12, newRate: 0.06, closingCosts: 0 }).breakEvenMonth)
+            .toBeUndefined();
+    });
+
+    it('should turn income and a target debt-to-income ratio into a maximum principal', () => {
+        const result = affordability({ monthlyIncome: 8000, targetDti: 0.36, otherDebtPayments: 500, rate: 0.06, numOfPayments: 360 });
+        expect(result.maxPayment).toBeCloseTo(2380, 10);
+        expect(result.maxPrincipal).toBeCloseTo(396964.04, 2);
+        expect(affordability({ monthlyIncome: 1000, targetDti: 0.3, otherDebtPayments: 500, rate: 0.06, numOfPayments: 360 }))
+            .toEqual({ maxPayment: 0, maxPrincipal: 0 });
+    });
+
+    it('should back the Finance lending methods', () => {
+        const cal = new Finance();
+        expect(cal.APR(200000, 6, 360, 4000)).toEqual(6.19);
+        expect(cal.APY(5, 12)).toEqual(5.12);
+        expect(cal.convertCompounding(5, 12, 'continuous')).toBeCloseTo(4.98961, 5);
+        const offers = cal.compareLoans([{ principal: 10000, rate: 6, numOfPayments: 36 }, { principal: 10000, rate: 5, numOfPayments: 36, fees: 300 }], 4);
+        expect(offers.offers[0].payment).toEqual(304.22);
+        expect(offers.lowestNpv).toEqual(0);
+        expect(cal.refinanceBreakEven({ balance: 200000, currentRate: 7, remainingPayments: 300, newRate: 5.5, closingCosts: 4000 }).breakEvenMonth)
+            .toEqual(22);
+        expect(cal.affordability({ monthlyIncome: 8000, targetDti: 36, otherDebtPayments: 500, rate: 6, numOfPayments: 360 }).maxPrincipal)
+            .toEqual(396964.04);
+        expect(cal.DTI(2000, 8000)).toEqual(25);
+    });
+});
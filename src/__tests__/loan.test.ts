@@ -0,0 +1,159 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { modelLoan } from '../loan';
+
+const cal = new Finance();
+const start = new Date(Date.UTC(2023, 0, 15));
+const month = (n: number) => new Date(Date.UTC(2023, n, 15));
+
+describe('Loan model', () => {
+    it('should reproduce the plain amortization schedule without events', () => {
+        const result = cal.modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start });
+        const plain = cal.amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start });
+        expect(result.schedule.length).toEqual(60);
+        expect(result.schedule[0].payment).toEqual(400.76);
+        expect(result.totalInterest).toEqual(plain[59].cumulativeInterest);
+        expect(result.interestSaved).toEqual(0);
+        expect(result.payoffDate).toEqual(result.baselinePayoffDate);
+    });
+
+    it('should shorten the loan and save interest with a one-off prepayment', () => {
+        const result = modelLoan({
+            principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start,
+            events: [{ type: 'prepayment', date: month(6), amount: 5000 }],
+        });
+        expect(result.schedule[5].prepayment).toEqual(5000);
+        expect(result.schedule[6].payment).toEqual(400.76);
+        expect(result.schedule.length).toBeLessThan(60);
+        expect(result.interestSaved).toBeGreaterThan(0);
+        expect(result.payoffDate.getTime()).toBeLessThan(result.baselinePayoffDate.getTime());
+        expect(result.schedule[result.schedule.length - 1].closingBalance).toEqual(0);
+    });
+
+    it('should apply recurring prepayments every period', () => {
+        const result = modelLoan({
+            principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start,
+            events: [{ type: 'recurringPrepayment', startDate: start, amount: 100 }],
+        });
+        expect(result.schedule[0].prepayment).toEqual(100);
+        expect(result.schedule.length).toEqual(47);
+        expect(result.schedule[result.schedule.length - 1].closingBalance).toEqual(0);
+    });
+
+    it('should recalculate the payment when the rate resets', () => {
+        const result = modelLoan({
+            principal: 100000, rate: 5, numOfPayments: 120, startDate: start,
+            events: [{ type: 'rateChange', date: month(12), rate: 7 }],
+        });
+        // the reset date falls on the 12th payment date
+        expect(result.schedule[10].rate).toEqual(5);
+        expect(result.schedule[11].rate).toEqual(7);
+        expect(result.schedule[11].payment).toBeGreaterThan(result.schedule[10].payment);
+        expect(result.schedule.length).toEqual(120);
+        expect(result.interestSaved).toBeLessThan(0);
+        expect(result.schedule[119].closingBalance).toEqual(0);
+    });
+
+    it('should pay only interest during an interest-only period', () => {
+        const result = modelLoan({
+            principal: 12000, rate: 6, numOfPayments: 24, startDate: start,
+            events: [{ type: 'interestOnly', startDate: start, endDate: month(6) }],
+        });
+        expect(result.schedule[0].payment).toEqual(60);
+        expect(result.schedule[5].closingBalance).toEqual(12000);
+        expect(result.schedule[6].payment).toBeGreaterThan(result.schedule[5].payment);
+        expect(result.schedule[23].closingBalance).toEqual(0);
+    });
+
+    it('should capitalise interest during a payment holiday', () => {
+        const result = modelLoan({
+            principal: 12000, rate: 6, numOfPayments: 24, startDate: start,
+            events: [{ type: 'paymentHoliday', startDate: month(3), endDate: month(4) }],
+        });
+        const holiday = result.schedule[2];
+        expect(holiday.payment).toEqual(0);
+        expect(holiday.closingBalance).toBeCloseTo(holiday.openingBalance + holiday.interest, 2);
+        expect(result.schedule[23].closingBalance).toEqual(0);
+    });
+
+    it('should leave a balloon payment at maturity', () => {
+        const result = modelLoan({
+            principal: 30000, rate: 6, numOfPayments: 36, startDate: start,
+            events: [{ type: 'balloon', amount: 10000 }],
+        });
+        const last = result.schedule[35];
+        expect(last.payment).toBeGreaterThan(10000);
+        expect(last.payment - result.schedule[34].payment).toBeCloseTo(10000, 0);
+        expect(last.closingBalance).toEqual(0);
+        expect(result.schedule[0].payment).toBeLessThan(cal.AM(30000, 6, 36, 1));
+    });
+
+    it('should keep payments positive when prepayments take the balance below the balloon', () => {
+        const utc = (year: number, monthIndex: number, day: number) => new Date(Date.UTC(year, monthIndex, day));
+        const result = modelLoan({
+            principal: 10000, rate: 12, numOfPayments: 12, startDate: utc(2024, 0, 31),
+            events: [
+                { type: 'balloon', amount: 9000 },
+                { type: 'prepayment', date: utc(2024, 1, 29), amount: 5000 },
+                { type: 'rateChange', date: utc(2024, 3, 15), rate: 6 },
+            ],
+        });
+        result.schedule.forEach((row) => {
+            expect(row.payment).toBeGreaterThanOrEqual(0);
+            expect(row.closingBalance).toBeLessThanOrEqual(row.openingBalance);
+        });
+        expect(result.schedule[11].closingBalance).toEqual(0);
+    });
+
+    it('should make prepayments dated inside a payment holiday with the first payment after it', () => {
+        const utc = (monthIndex: number, day: number) => new Date(Date.UTC(2024, monthIndex, day));
+        const result = modelLoan({
+            principal: 10000, rate: 12, numOfPayments: 12, startDate: utc(0, 31),
+            events: [
+                { type: 'paymentHoliday', startDate: utc(1, 1), endDate: utc(3, 30) },
+                { type: 'prepayment', date: utc(2, 31), amount: 1000 },
+                { type: 'recurringPrepayment', startDate: utc(1, 1), amount: 50 },
+            ],
+        });
+        expect(result.schedule.slice(0, 3).map((row) => row.prepayment)).toEqual([0, 0, 0]);
+        expect(result.schedule[3].date).toEqual(utc(4, 31));
+        expect(result.schedule[3].prepayment).toEqual(1050);
+        expect(result.schedule[4].prepayment).toEqual(50);
+    });
+
+    it('should repay the whole balance when a holiday or interest-only period covers the final payment', () => {
+        const utc = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex, 1));
+        const holiday = modelLoan({
+            principal: 1200, rate: 12, numOfPayments: 12, startDate: utc(2024, 0),
+            events: [{ type: 'paymentHoliday', startDate: utc(2024, 11), endDate: utc(2025, 0) }],
+        });
+        const last = holiday.schedule[11];
+        expect(holiday.schedule).toHaveLength(12);
+        expect(last.payment).toEqual(last.openingBalance + last.interest);
+        expect(last.closingBalance).toEqual(0);
+        expect(holiday.payoffDate).toEqual(utc(2025, 0));
+        const interestOnly = modelLoan({
+            principal: 1200, rate: 12, numOfPayments: 12, startDate: utc(2024, 0),
+            events: [{ type: 'interestOnly', startDate: utc(2024, 10), endDate: utc(2025, 0) }],
+        });
+        expect(interestOnly.schedule[11].closingBalance).toEqual(0);
+    });
+
+    it('should open at a rate change dated on or before the start date', () => {
+        const result = modelLoan({
+            principal: 100000, rate: 5, numOfPayments: 120, startDate: start,
+            events: [{ type: 'rateChange', date: new Date(Date.UTC(2022, 11, 1)), rate: 6 }, { type: 'rateChange', date: start, rate: 7 }],
+        });
+        expect(result.schedule[0].rate).toEqual(7);
+        expect(result.schedule[0].payment).toEqual(cal.AM(100000, 7, 120, 1));
+    });
+
+    it('should reject negative prepayments and balloons, and balloons above the principal', () => {
+        const loan = { principal: 1200, rate: 12, numOfPayments: 12, startDate: start };
+        expect(() => modelLoan({ ...loan, events: [{ type: 'balloon', amount: -500 }] })).toThrow(ValidationError);
+        expect(() => modelLoan({ ...loan, events: [{ type: 'balloon', amount: 5000 }] })).toThrow(ValidationError);
+        expect(() => modelLoan({ ...loan, events: [{ type: 'prepayment', date: month(3), amount: -100 }] })).toThrow(ValidationError);
+        expect(() => modelLoan({ ...loan, events: [{ type: 'recurringPrepayment', startDate: start, amount: -10 }] })).toThrow(ValidationError);
+        expect(() => modelLoan({ ...loan, events: [{ type: 'rateChange', date: month(3), rate: -150 }] })).toThrow(ValidationError);
+    });
+});
@@ -0,0 +1,33 @@
+import { CurrencyMismatchError } from '../errors';
+import { Money, moneyNPV } from '../money';
+
+describe('Money', () => {
+    it('should round to the minor unit of the currency', () => {
+        expect(Money.of('12.345', 'usd').toString()).toEqual('12.35 USD');
+        expect(Money.of(1234.5, 'JPY').toString()).toEqual('1235 JPY');
+        expect(Money.of('1.2345', 'KWD').toString()).toEqual('1.235 KWD');
+        expect(Money.of(1, 'USD', 4).toString()).toEqual('1.0000 USD');
+    });
+
+    it('should add amounts in the same currency exactly', () => {
+        const total = Money.sum([Money.of(0.1, 'USD'), Money.of(0.2, 'USD'), Money.of(-0.3, 'USD')]);
+        expect(total.isZero()).toEqual(true);
+        expect(Money.of(10, 'EUR').minus(Money.of(2.5, 'EUR')).toNumber()).toEqual(7.5);
+        expect(Money.of(10, 'EUR').times(0.333).toString()).toEqual('3.33 EUR');
+        expect(Money.of(10, 'EUR').dividedBy(3).toString()).toEqual('3.33 EUR');
+    });
+
+    it('should reject mismatched currencies', () => {
+        expect(() => Money.of(1, 'USD').plus(Money.of(1, 'EUR'))).toThrow(CurrencyMismatchError);
+        expect(() => Money.sum([Money.of(1, 'USD'), Money.of(1, 'GBP')])).toThrow('Currency mismatch: expected USD, got GBP');
+        expect(Money.of(1, 'USD').equals(Money.of(1, 'EUR'))).toEqual(false);
+    });
+
+    it('should compute NPV of money amounts', () => {
+        const flows = [-500000, 200000, 300000, 200000].map((amount) => Money.of(amount, 'USD'));
+        expect(moneyNPV(10, flows).toString()).toEqual('80015.03 USD');
+        expect(() => moneyNPV(10, [Money.of(-1, 'USD'), Money.of(2, 'CHF')])).toThrow(CurrencyMismatchError);
+        expect(() => moneyNPV(-100, flows)).toThrow('rate must be above -100%, got -100%');
+        expect(() => moneyNPV(NaN, flows)).toThrow('rate');
+    });
+});
@@ -0,0 +1,102 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { binomialPrice, blackScholes, Greeks, impliedVolatility, OptionContract, OptionType } from '../options';
+
+describe('Options', () => {
+    const call: OptionContract = { type: 'call', spot: 100, strike: 95, expiry: 0.75, riskFree: 0.05, volatility: 0.25, dividendYield: 0.02 };
+    const put: OptionContract = { ...call, type: 'put' };
+
+    it('should price European options with Black-Scholes-Merton', () => {
+        expect(blackScholes({ ...call, strike: 100, expiry: 1, volatility: 0.2, dividendYield: 0 }).price).toBeCloseTo(10.450584, 6);
+        expect(blackScholes({ ...put, strike: 100, expiry: 1, volatility: 0.2, dividendYield: 0 }).price).toBeCloseTo(5.573526, 6);
+        // Hull, Options, Futures and Other Derivatives: index option with a dividend yield
+        expect(blackScholes({ type: 'call', spot: 930, strike: 900, expiry: 2 / 12, riskFree: 0.08, volatility: 0.2, dividendYield: 0.03 }).price)
+            .toBeCloseTo(51.83, 2);
+    });
+
+    it('should satisfy put-call parity', () => {
+        [call, { ...call, strike: 130 }, { ...call, dividendYield: 0 }, { ...call, expiry: 5, volatility: 0.6 }].forEach((contract) => {
+            const { spot, strike, expiry, riskFree, dividendYield = 0 } = contract;
+            const parity = spot * Math.exp(-dividendYield * expiry) - strike * Math.exp(-riskFree * expiry);
+            const callValue = blackScholes(contract);
+            const putValue = blackScholes({ ...contract, type: 'put' });
+            expect(callValue.price - putValue.price).toBeCloseTo(parity, 10);
+            expect(callValue.greeks.delta - putValue.greeks.delta).toBeCloseTo(Math.exp(-dividendYield * expiry), 12);
+            expect(callValue.greeks.gamma).toBeCloseTo(putValue.greeks.gamma, 12);
+            expect(callValue.greeks.vega).toBeCloseTo(putValue.greeks.vega, 12);
+        });
+    });
+
+    it('should match the Greeks to finite differences', () => {
+        const h = 1e-4;
+        const bump = (contract: OptionContract, key: keyof OptionContract, by: number) =>
+            blackScholes({ ...contract, [key]: (contract[key] as number) + by });
+        const central = (contract: OptionContract, key: keyof OptionContract, read: (greeks: Greeks & { price: number }) => number) => {
+            const flatten = (v: ReturnType<typeof blackScholes>) => ({ ...v.greeks, price: v.price });
+            return (read(flatten(bump(contract, key, h))) - read(flatten(bump(contract, key, -h)))) / (2 * h);
+        };
+        [call, put].forEach((contract) => {
+            const { greeks } = blackScholes(contract);
+            expect(greeks.delta).toBeCloseTo(central(contract, 'spot', (g) => g.price), 6);
+            expect(greeks.vega).toBeCloseTo(central(contract, 'volatility', (g) => g.price), 5);
+            expect(greeks.theta).toBeCloseTo(-central(contract, 'expiry', (g) => g.price), 5);
+            expect(greeks.rho).toBeCloseTo(central(contract, 'riskFree', (g) => g.price), 5);
+            expect(greeks.epsilon).toBeCloseTo(central(contract, 'dividendYield', (g) => g.price), 5);
+            expect(greeks.gamma).toBeCloseTo(central(contract, 'spot', (g) => g.delta), 6);
+            expect(greeks.vanna).toBeCloseTo(central(contract, 'volatility', (g) => g.delta), 5);
+            expect(greeks.vanna).toBeCloseTo(central(contract, 'spot', (g) => g.vega), 5);
+            expect(greeks.charm).toBeCloseTo(-central(contract, 'expiry', (g) => g.delta), 5);
+            expect(greeks.vomma).toBeCloseTo(central(contract, 'volatility', (g) => g.vega), 4);
+            expect(greeks.veta).toBeCloseTo(-central(contract, 'expiry', (g) => g.vega), 4);
+            expect(greeks.vera).toBeCloseTo(central(contract, 'volatility', (g) => g.rho), 4);
+        });
+    });
+
+    it('should solve implied volatility', () => {
+        const { volatility, ...quote } = call;
+        expect(impliedVolatility(quote, blackScholes(call).price)).toBeCloseTo(0.25, 10);
+        expect(impliedVolatility({ ...quote, type: 'put' }, blackScholes({ ...put, volatility: 1.5 }).price)).toBeCloseTo(1.5, 10);
+        expect(impliedVolatility({ ...quote, strike: 105 }, blackScholes({ ...call, strike: 105, volatility: 0.05 }).price, { guess: 1 }))
+            .toBeCloseTo(0.05, 8);
+        expect(() => impliedVolatility(quote, 1)).toThrow(ValidationError);
+        expect(() => impliedVolatility(quote, 100)).toThrow(ValidationError);
+    });
+
+    it('should price American and European options on a binomial tree', () => {
+        const atm: OptionContract = { type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 };
+        const european = binomialPrice(atm, { exercise: 'european', steps: 1000 });
+        expect(european).toBeCloseTo(blackScholes(atm).price, 2);
+        // early exercise is worth something for a put, and never for a call without dividends
+        expect(binomialPrice(atm, { steps: 1000 })).toBeCloseTo(6.0896, 3);
+        expect(binomialPrice({ ...atm, type: 'call' }, { steps: 500 }))
+            .toBeCloseTo(binomialPrice({ ...atm, type: 'call' }, { steps: 500, exercise: 'european' }), 10);
+        expect(binomialPrice({ ...atm, type: 'call', dividendYield: 0.08 }, { steps: 500 }))
+            .toBeGreaterThan(binomialPrice({ ...atm, type: 'call', dividendYield: 0.08 }, { steps: 500, exercise: 'european' }));
+        // Hull: five-month American put, spot 50, strike 50, 10% rate, 40% volatility, five steps
+        expect(binomialPrice({ type: 'put', spot: 50, strike: 50, expiry: 5 / 12, riskFree: 0.1, volatility: 0.4 }, { steps: 5 }))
+            .toBeCloseTo(4.49, 2);
+        expect(() => binomialPrice(atm, { steps: 0 })).toThrow(ValidationError);
+        expect(() => binomialPrice({ ...atm, volatility: 0.01, riskFree: 0.5 }, { steps: 1 })).toThrow(ValidationError);
+    });
+
+    it('should validate the contract', () => {
+        expect(() => blackScholes({ ...call, type: 'straddle' as unknown as OptionType })).toThrow(ValidationError);
+        expect(() => blackScholes({ ...call, expiry: 0 })).toThrow(ValidationError);
+        expect(() => blackScholes({ ...call, volatility: -0.1 })).toThrow(ValidationError);
+    });
+
+    it('should expose options on Finance with rates and volatility in percent', () => {
+        const cal = new Finance();
+        const contract = { ...call, riskFree: 5, volatility: 25, dividendYield: 2 };
+        const { price, greeks } = blackScholes(call);
+        const percent = cal.blackScholes(contract);
+        expect(percent.price).toEqual(price);
+        expect(percent.greeks.delta).toEqual(greeks.delta);
+        expect(percent.greeks.vega).toBeCloseTo(greeks.vega / 100, 12);
+        expect(percent.greeks.vomma).toBeCloseTo(greeks.vomma / 10000, 12);
+        const { volatility, ...quote } = contract;
+        expect(cal.impliedVolatility(quote, price)).toBeCloseTo(25, 8);
+        expect(cal.binomialPrice(contract, { steps: 50 })).toEqual(binomialPrice(call, { steps: 50 }));
+        expect(new Finance({ rateUnit: 'decimal' }).blackScholes(call)).toEqual(blackScholes(call));
+    });
+});
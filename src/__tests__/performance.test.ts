@@ -0,0 +1,105 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import {
+    alpha, annualizeReturn, beta, cagr, maxDrawdown, measurePerformance, modifiedDietz, moneyWeightedReturn, periodReturns, realReturn, roi,
+    sharpeRatio, sortinoRatio, timeWeightedReturn, volatility,
+} from '../performance';
+import { capm } from '../valuation';
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+describe('Performance', () => {
+    // 100 added on 1 July, valued after the flow
+    const valuations = [
+        { date: utc(2023, 1, 1), value: 1000 }, { date: utc(2023, 7, 1), value: 1150 }, { date: utc(2023, 12, 31), value: 1265 },
+    ];
+    const flows = [{ date: utc(2023, 7, 1), amount: 100 }];
+
+    it('should link period returns into a time-weighted return', () => {
+        const returns = periodReturns({ valuations, flows });
+        expect(returns[0]).toBeCloseTo(0.05, 12);
+        expect(returns[1]).toBeCloseTo(0.1, 12);
+        expect(timeWeightedReturn({ valuations, flows })).toBeCloseTo(0.155, 12);
+        expect(timeWeightedReturn({ valuations: [valuations[0], { date: utc(2023, 12, 31), value: 1100 }] })).toBeCloseTo(0.1, 12);
+    });
+
+    it('should weight flows by time invested in the Modified Dietz return', () => {
+        expect(modifiedDietz({ valuations, flows })).toBeCloseTo(165 / (1000 + 100 * 183 / 364), 12);
+        expect(modifiedDietz({ valuations, flows: [{ date: utc(2023, 12, 31), amount: 100 }] })).toBeCloseTo(0.165, 12);
+    });
+
+    it('should solve the money-weighted return with XIRR', () => {
+        const mwr = moneyWeightedReturn({ valuations, flows });
+        const years = (date: Date) => (date.getTime() - valuations[0].date.getTime()) / (365 * 86400000);
+        const npv = -1000 - 100 / Math.pow(1 + mwr, years(flows[0].date)) + 1265 / Math.pow(1 + mwr, years(valuations[2].date));
+        expect(npv).toBeCloseTo(0, 8);
+        expect(mwr).toBeGreaterThan(modifiedDietz({ valuations, flows }));
+    });
+
+    it('should annualize returns', () => {
+        expect(annualizeReturn({ cumulativeReturn: 0.21, years: 2 })).toBeCloseTo(0.1, 12);
+        expect(() => annualizeReturn({ cumulativeReturn: 0.21, years: 0 })).toThrow(ValidationError);
+        const twoYears = [{ date: utc(2021, 1, 1), value: 100 }, { date: utc(2022, 1, 1), value: 110 }, { date: utc(2023, 1, 1), value: 121 }];
+        const result = measurePerformance({ valuations: twoYears });
+        expect(result.years).toBeCloseTo(730 / 365, 12);
+        expect(result.timeWeightedReturn).toBeCloseTo(0.21, 12);
+        expect(result.annualizedTimeWeightedReturn).toBeCloseTo(Math.pow(1.21, 365 / 730) - 1, 12);
+        expect(result.moneyWeightedReturn).toBeCloseTo(result.annualizedTimeWeightedReturn, 8);
+        expect(result.modifiedDietz).toBeCloseTo(0.21, 12);
+    });
+
+    it('should compute growth, return on investment and real returns', () => {
+        expect(cagr({ beginningValue: 10000, endingValue: 19500, periods: 3 })).toBeCloseTo(0.249333, 6);
+        expect(roi({ investment: -55000, earnings: 60000 })).toBeCloseTo(0.090909, 6);
+        expect(realReturn({ nominalReturn: 0.08, inflation: 0.03 })).toBeCloseTo(0.048544, 6);
+        expect(() => cagr({ beginningValue: 0, endingValue: 100, periods: 3 })).toThrow(ValidationError);
+        expect(() => roi({ investment: 0, earnings: 10 })).toThrow(ValidationError);
+        expect(new Finance().CAGR(10000, 19500, 3)).toEqual(24.93);
+    });
+
+    it('should validate valuations and flows', () => {
+        expect(() => timeWeightedReturn({ valuations: [valuations[0]] })).toThrow(ValidationError);
+        expect(() => timeWeightedReturn({ valuations: [valuations[1], valuations[0]] })).toThrow('valuations must be in increasing order of date');
+        expect(() => timeWeightedReturn({ valuations, flows: [{ date: utc(2023, 1, 1), amount: 100 }] })).toThrow(ValidationError);
+        expect(() => modifiedDietz({ valuations: [{ date: utc(2023, 1, 1), value: 0 }, valuations[2]] })).toThrow('average capital invested must be positive');
+    });
+
+    it('should compute volatility, Sharpe and Sortino ratios', () => {
+        const returns = [0.01, -0.02, 0.03];
+        expect(volatility({ returns })).toBeCloseTo(0.0251661, 7);
+        expect(volatility({ returns, periodsPerYear: 12 })).toBeCloseTo(0.0871780, 7);
+        expect(sharpeRatio({ returns })).toBeCloseTo(0.01 / 3 * 2 / 0.0251661, 5);
+        expect(sharpeRatio({ returns, riskFree: 0.01, periodsPerYear: 12 })).toBeCloseTo(-0.0033333 / 0.0251661 * Math.sqrt(12), 5);
+        expect(sortinoRatio({ returns })).toBeCloseTo(0.0066667 / Math.sqrt(0.0004 / 3), 5);
+        expect(() => sortinoRatio({ returns: [0.01, 0.02] })).toThrow(ValidationError);
+        expect(() => volatility({ returns: [0.01] })).toThrow(ValidationError);
+    });
+
+    it('should find the maximum drawdown', () => {
+        expect(maxDrawdown([0.1, -0.2, 0.05, 0.3])).toEqual({ depth: expect.closeTo(0.2, 12), peak: 1, trough: 2, recovery: 4 });
+        expect(maxDrawdown([0.1, -0.1, -0.1, 0.05])).toEqual({ depth: expect.closeTo(0.19, 12), peak: 1, trough: 3 });
+        expect(maxDrawdown([0.1, 0.2]).depth).toEqual(0);
+    });
+
+    it('should compute beta and alpha against a benchmark, with a beta CAPM takes', () => {
+        const benchmark = [0.01, -0.02, 0.03, 0.015, -0.005];
+        const riskFree = 0.002;
+        const returns = benchmark.map((b) => 0.001 + riskFree + 1.5 * (b - riskFree));
+        expect(beta({ returns, benchmarkReturns: benchmark })).toBeCloseTo(1.5, 12);
+        expect(alpha({ returns, benchmarkReturns: benchmark, riskFree })).toBeCloseTo(0.001, 12);
+        expect(alpha({ returns, benchmarkReturns: benchmark, riskFree, periodsPerYear: 12 })).toBeCloseTo(0.012, 12);
+        expect(() => beta({ returns, benchmarkReturns: benchmark.slice(1) })).toThrow(ValidationError);
+        expect(() => beta({ returns, benchmarkReturns: [0.01, 0.01, 0.01, 0.01, 0.01] })).toThrow(ValidationError);
+
+        const cal = new Finance();
+        expect(cal.CAPM(2, beta({ returns, benchmarkReturns: benchmark }), 10, 0)).toBeCloseTo(0.14, 12);
+        expect(capm({ riskFree: 0.02, beta: beta({ returns, benchmarkReturns: benchmark }), marketReturn: 0.1 })).toBeCloseTo(0.14, 12);
+    });
+
+    it('should expose TWR and MWR on Finance in percent', () => {
+        const cal = new Finance();
+        expect(cal.TWR(valuations, flows)).toEqual(15.5);
+        expect(cal.MWR(valuations, flows)).toEqual(Math.round(moneyWeightedReturn({ valuations, flows }) * 10000) / 100);
+        expect(new Finance({ rateUnit: 'decimal' }).TWR(valuations, flows)).toEqual(0.155);
+    });
+});
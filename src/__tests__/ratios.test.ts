@@ -0,0 +1,106 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { analyzeRatios, debtToIncome, FinancialStatements, leverageRatio, statementGrowth } from '../ratios';
+
+describe('Ratios', () => {
+    const statements: FinancialStatements = {
+        income: {
+            revenue: 1000, costOfGoodsSold: 600, operatingIncome: 200, depreciationAndAmortization: 50, interestExpense: 40, pretaxIncome: 160,
+            netIncome: 120,
+        },
+        balance: {
+            cash: 100, shortTermInvestments: 50, receivables: 150, inventory: 200, currentAssets: 500, totalAssets: 2000, currentLiabilities: 250,
+            totalLiabilities: 1200, totalDebt: 800, shareholdersEquity: 800,
+        },
+        cashFlow: { operatingCashFlow: 180, capitalExpenditures: 80 },
+        openingBalance: { receivables: 130, inventory: 180, totalAssets: 1800, shareholdersEquity: 700 },
+    };
+
+    it('should compute the leverage ratio', () => {
+        expect(leverageRatio({ totalLiabilities: 25, totalDebts: 10, totalIncome: 20 })).toEqual(1.75);
+        expect(new Finance().LR(25, 10, 20)).toEqual(1.75);
+        expect(() => leverageRatio({ totalLiabilities: 25, totalDebts: 10, totalIncome: 0 })).toThrow(ValidationError);
+    });
+
+    it('should compute the debt-to-income ratio', () => {
+        expect(debtToIncome({ monthlyDebtPayments: 2000, monthlyIncome: 8000 })).toEqual(0.25);
+        expect(() => debtToIncome({ monthlyDebtPayments: 2000, monthlyIncome: 0 })).toThrow(ValidationError);
+    });
+
+    it('should analyze liquidity, leverage, coverage, efficiency and profitability', () => {
+        const { liquidity, leverage, coverage, efficiency, profitability } = analyzeRatios(statements);
+        expect(liquidity.currentRatio).toEqual({ value: 2 });
+        expect(liquidity.quickRatio.value).toBeCloseTo(1.2, 12);
+        expect(liquidity.cashRatio.value).toBeCloseTo(0.6, 12);
+        expect(liquidity.operatingCashFlowRatio.value).toBeCloseTo(0.72, 12);
+        expect(leverage).toEqual({
+            debtToEquity: { value: 1 }, debtToAssets: { value: 0.4 }, liabilitiesToAssets: { value: 0.6 }, equityMultiplier: { value: 2.5 },
+        });
+        expect(coverage).toEqual({ interestCoverage: { value: 5 }, ebitdaCoverage: { value: 6.25 }, cashFlowToDebt: { value: 0.225 } });
+        expect(efficiency.assetTurnover.value).toBeCloseTo(1000 / 1900, 12);
+        expect(efficiency.receivablesTurnover.value).toBeCloseTo(1000 / 140, 12);
+        expect(efficiency.inventoryTurnover.value).toBeCloseTo(600 / 190, 12);
+        expect(efficiency.daysSalesOutstanding.value).toBeCloseTo(51.1, 12);
+        expect(efficiency.daysInventoryOutstanding.value).toBeCloseTo(190 * 365 / 600, 12);
+        expect(analyzeRatios(statements, { daysInPeriod: 360 }).efficiency.daysSalesOutstanding.value).toBeCloseTo(50.4, 12);
+        expect(profitability.grossMargin.value).toBeCloseTo(0.4, 12);
+        expect(profitability.freeCashFlowMargin.value).toBeCloseTo(0.1, 12);
+        expect(profitability.returnOnAssets.value).toBeCloseTo(120 / 1900, 12);
+        expect(profitability.returnOnEquity.value).toBeCloseTo(0.16, 12);
+    });
+
+    it('should decompose return on equity with DuPont', () => {
+        const { dupont, profitability } = analyzeRatios(statements);
+        expect(dupont.taxBurden.value).toBeCloseTo(0.75, 12);
+        expect(dupont.interestBurden.value).toBeCloseTo(0.8, 12);
+        expect(dupont.taxBurden.value! * dupont.interestBurden.value! * dupont.operatingMargin.value!).toBeCloseTo(dupont.netMargin.value!, 12);
+        expect(dupont.equityMultiplier.value).toBeCloseTo(1900 / 750, 12);
+        expect(dupont.returnOnEquity.value).toBeCloseTo(profitability.returnOnEquity.value!, 12);
+        const closingOnly = analyzeRatios({ ...statements, openingBalance: undefined });
+        expect(closingOnly.dupont.returnOnEquity.value).toBeCloseTo(0.15, 12);
+    });
+
+    it('should flag missing fields and zero denominators instead of returning Infinity', () => {
+        const ratios = analyzeRatios({ income: { revenue: 0, netIncome: 10 }, balance: { currentAssets: 100, currentLiabilities: 0 } });
+        expect(ratios.liquidity.currentRatio).toEqual({ flag: 'zero-denominator', fields: ['balance.currentLiabilities'] });
+        expect(ratios.profitability.netMargin).toEqual({ flag: 'zero-denominator', fields: ['income.revenue'] });
+        expect(ratios.liquidity.quickRatio).toEqual({ flag: 'missing', fields: ['balance.inventory'] });
+        expect(ratios.liquidity.operatingCashFlowRatio).toEqual({ flag: 'missing', fields: ['cashFlow.operatingCashFlow'] });
+        expect(ratios.dupont.returnOnEquity).toEqual({
+            flag: 'missing', fields: ['income.revenue', 'balance.totalAssets', 'balance.shareholdersEquity'],
+        });
+        const average = analyzeRatios({ ...statements, openingBalance: { totalAssets: -2000 } });
+        expect(average.efficiency.assetTurnover).toEqual({ flag: 'zero-denominator', fields: ['balance.totalAssets', 'openingBalance.totalAssets'] });
+        expect(average.efficiency.receivablesTurnover).toEqual({ flag: 'missing', fields: ['openingBalance.receivables'] });
+        expect(() => analyzeRatios({ income: { revenue: NaN }, balance: {} })).toThrow(ValidationError);
+    });
+
+    it('should measure growth between periods with CAGR', () => {
+        const periods: FinancialStatements[] = [
+            { income: { revenue: 100, netIncome: 10 }, balance: { totalAssets: 0 } },
+            { income: { revenue: 110, netIncome: -5 }, balance: { totalAssets: 50 } },
+            { income: { revenue: 121, netIncome: 12 }, balance: { totalAssets: 60 } },
+        ];
+        const growth = statementGrowth(periods);
+        growth.revenue.periodOverPeriod.forEach((g) => expect(g.value).toBeCloseTo(0.1, 12));
+        expect(growth.revenue.cagr.value).toBeCloseTo(0.1, 12);
+        expect(growth.netIncome.periodOverPeriod[0]).toEqual({ flag: 'non-positive', fields: ['[1].income.netIncome'] });
+        expect(growth.netIncome.cagr.value).toBeCloseTo(Math.sqrt(1.2) - 1, 12);
+        expect(growth.totalAssets.periodOverPeriod[0]).toEqual({ flag: 'zero-denominator', fields: ['[0].balance.totalAssets'] });
+        expect(growth.operatingCashFlow.cagr).toEqual({ flag: 'missing', fields: ['[0].cashFlow.operatingCashFlow', '[2].cashFlow.operatingCashFlow'] });
+        expect(() => statementGrowth([periods[0]])).toThrow(ValidationError);
+    });
+
+    it('should back the Finance ratio methods', () => {
+        const cal = new Finance();
+        const ratios = cal.analyzeRatios(statements);
+        expect(ratios.profitability.returnOnEquity).toEqual({ value: 16 });
+        expect(ratios.efficiency.assetTurnover).toEqual({ value: 0.53 });
+        expect(ratios.dupont.netMargin).toEqual({ value: 12 });
+        expect(ratios.dupont.equityMultiplier).toEqual({ value: 2.53 });
+        expect(ratios.liquidity.operatingCashFlowRatio).toEqual({ value: 0.72 });
+        expect(cal.analyzeRatios({ income: {}, balance: {} }).leverage.debtToEquity.flag).toEqual('missing');
+        const growth = cal.statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]);
+        expect(growth.revenue.cagr).toEqual({ value: 21 });
+    });
+});
@@ -0,0 +1,62 @@
+import Finance from '../finance';
+import { round } from '../rounding';
+
+describe('Rounding policy', () => {
+    it('should round half-up away from zero', () => {
+        expect(round(2.345)).toEqual(2.35);
+        expect(round(-2.345)).toEqual(-2.35);
+        expect(round(1.005)).toEqual(1.01);
+        expect(round(-0.001)).toEqual(0);
+    });
+
+    it('should round half-even', () => {
+        expect(round(2.345, { mode: 'half-even' })).toEqual(2.34);
+        expect(round(2.355, { mode: 'half-even' })).toEqual(2.36);
+        expect(round(-2.345, { mode: 'half-even' })).toEqual(-2.34);
+        expect(round(2.3451, { mode: 'half-even' })).toEqual(2.35);
+    });
+
+    it('should round with floor, ceil and none', () => {
+        expect(round(2.349, { mode: 'floor' })).toEqual(2.34);
+        expect(round(-2.341, { mode: 'floor' })).toEqual(-2.35);
+        expect(round(2.341, { mode: 'ceil' })).toEqual(2.35);
+        expect(round(2.341, { mode: 'ceil', decimals: 0 })).toEqual(3);
+        expect(round(2.3456789, { mode: 'none' })).toEqual(2.3456789);
+    });
+
+    it('should keep the historical rounding of each method without a policy', () => {
+        const cal = new Finance();
+        expect(cal.PV(10, 100)).toEqual(90.91);
+        expect(cal.DF(10, 3)).toEqual([1, 0.91]);
+        expect(cal.WACC(600000, 400000, 6, 5, 35)).toEqual(4.9);
+        expect(cal.stockPV(5, 10, 2)).toEqual(42);
+    });
+
+    it('should apply the constructor policy to every method', () => {
+        const cal = new Finance({ rounding: { mode: 'none' } });
+        expect(cal.PV(10, 100)).toBeCloseTo(90.9090909, 6);
+        expect(cal.DF(10, 3)[1]).toBeCloseTo(0.9090909, 6);
+        expect(cal.CI(4.3, 4, 1500, 6)).toBeCloseTo(1938.8368, 3);
+        expect(cal.stockPV(5, 10, 2)).toEqual(42);
+
+        const banker = new Finance({ rounding: { decimals: 1, mode: 'half-even' } });
+        expect(banker.WACC(600000, 400000, 6, 5, 35)).toEqual(4.9);
+        expect(banker.R72(7)).toEqual(10.3);
+        expect(banker.PV(0, 0.25)).toEqual(0.2);
+    });
+
+    it('should override the policy per call', () => {
+        const cal = new Finance({ rounding: { decimals: 4 } });
+        expect(cal.PV(10, 100)).toEqual(90.9091);
+        expect(cal.withRounding({ decimals: 0 }).PV(10, 100)).toEqual(91);
+        expect(cal.NPV(10, -100, 50, 60)).toEqual(-4.9587);
+    });
+
+    it('should round schedules with the policy', () => {
+        const rows = new Finance({ rounding: { mode: 'none' } }).amortizationSchedule({
+            principal: 1000, rate: 10, numOfPayments: 3, frequency: 'annual', startDate: new Date(Date.UTC(2023, 0, 1)),
+        });
+        expect(rows[0].payment).toBeCloseTo(402.1148, 4);
+        expect(rows[2].closingBalance).toBeCloseTo(0, 10);
+    });
+});
@@ -0,0 +1,58 @@
+import Finance from '../finance';
+import { addPeriods, amortizationSchedule } from '../schedule';
+
+const cal = new Finance();
+const start = new Date(Date.UTC(2023, 0, 31));
+
+describe('Amortization schedule', () => {
+    it('should match AM for monthly payments at the end of the period', () => {
+        const rows = cal.amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start });
+        expect(rows.length).toEqual(60);
+        expect(rows[0].payment).toEqual(cal.AM(20000, 7.5, 60, 1));
+        expect(rows[0].interest).toEqual(125);
+        expect(rows[0].principal).toEqual(275.76);
+        expect(rows[0].closingBalance).toEqual(19724.24);
+        expect(rows[1].openingBalance).toEqual(rows[0].closingBalance);
+    });
+
+    it('should adjust the final payment so the schedule ends at zero', () => {
+        const rows = amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start });
+        const last = rows[rows.length - 1];
+        expect(last.closingBalance).toEqual(0);
+        expect(last.principal).toEqual(last.openingBalance);
+        const totalPrincipal = rows.reduce((sum, row) => sum + row.principal, 0);
+        expect(totalPrincipal).toBeCloseTo(20000, 2);
+        const totalInterest = rows.reduce((sum, row) => sum + row.interest, 0);
+        expect(last.cumulativeInterest).toBeCloseTo(totalInterest, 2);
+    });
+
+    it('should match AM when payments are at the beginning of the period', () => {
+        const rows = amortizationSchedule({
+            principal: 20000, rate: 7.5, numOfPayments: 60, startDate: start, payAtBeginning: true,
+        });
+        expect(rows[0].payment).toEqual(cal.AM(20000, 7.5, 60, 1, true));
+        expect(rows[0].interest).toEqual(0);
+        expect(rows[0].date).toEqual(start);
+        expect(rows[rows.length - 1].closingBalance).toEqual(0);
+    });
+
+    it('should support quarterly, annual and biweekly frequencies', () => {
+        const quarterly = amortizationSchedule({ principal: 10000, rate: 8, numOfPayments: 8, frequency: 'quarterly', startDate: start });
+        expect(quarterly[0].interest).toEqual(200);
+        expect(quarterly[0].date).toEqual(new Date(Date.UTC(2023, 3, 30)));
+
+        const annual = amortizationSchedule({ principal: 1000, rate: 10, numOfPayments: 3, frequency: 'annual', startDate: start });
+        expect(annual[0].payment).toEqual(402.11);
+        expect(annual[2].date).toEqual(new Date(Date.UTC(2026, 0, 31)));
+
+        const biweekly = amortizationSchedule({ principal: 5200, rate: 0, numOfPayments: 26, frequency: 'biweekly', startDate: start });
+        expect(biweekly[0].payment).toEqual(200);
+        expect(biweekly[0].date).toEqual(new Date(Date.UTC(2023, 1, 14)));
+        expect(biweekly[25].closingBalance).toEqual(0);
+    });
+
+    it('should clamp month based dates to the end of shorter months', () => {
+        expect(addPeriods(start, 'monthly', 1)).toEqual(new Date(Date.UTC(2023, 1, 28)));
+        expect(addPeriods(start, 'monthly', 13)).toEqual(new Date(Date.UTC(2024, 1, 29)));
+    });
+});
@@ -0,0 +1,153 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { dataTable, Distribution, ModelInputs, seededRandom, simulate, tornado } from '../simulation';
+
+describe('Simulation', () => {
+    // three years of sales less costs after an investment of 1000
+    const project = ({ sales, costs = 0 }: ModelInputs) => [-1000, sales - costs, sales - costs, sales - costs];
+    // annuity factor of three years at 10%
+    const annuity = 1 / 1.1 + 1 / 1.21 + 1 / 1.331;
+
+    it('should generate reproducible random numbers from a seed', () => {
+        const first = seededRandom(42);
+        const second = seededRandom(42);
+        const draws = [first(), first(), first()];
+        expect(draws).toEqual([second(), second(), second()]);
+        expect(draws[0]).toBeCloseTo(0.6011037519, 10);
+        expect(seededRandom(43)()).not.toEqual(draws[0]);
+        draws.forEach((draw) => expect(draw >= 0 && draw < 1).toBe(true));
+    });
+
+    it('should summarize NPV, IRR and PI over the trials', () => {
+        const options = {
+            inputs: { sales: { type: 'normal' as const, mean: 500, standardDeviation: 100 } }, model: project, rate: 0.1, trials: 20000,
+        };
+        const result = simulate(options);
+        expect(result.trials).toEqual(20000);
+        expect(result.npv.mean).toBeCloseTo(-1000 + 500 * annuity, -1);
+        expect(result.npv.standardDeviation).toBeCloseTo(100 * annuity, -1);
+        expect(result.npv.percentiles[50]).toBeCloseTo(-1000 + 500 * annuity, -1);
+        expect(result.npv.percentiles[5]).toBeLessThan(result.npv.percentiles[95]);
+        expect(result.probabilityNegativeNpv).toBeCloseTo(0.1638, 2);
+        expect(result.pi.mean).toBeCloseTo(500 * annuity / 1000, 2);
+        expect(result.irr!.percentiles[50]).toBeCloseTo(0.2338, 2);
+        expect(result.irrFailures).toEqual(0);
+        expect(simulate(options)).toEqual(result);
+        expect(simulate({ ...options, seed: 7 }).npv.mean).not.toEqual(result.npv.mean);
+    });
+
+    it('should match the point estimates when the inputs don\'t vary', () => {
+        const cal = new Finance({ rounding: { mode: 'none' } });
+        const result = simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 0 } }, model: project, rate: 0.1, trials: 10 });
+        expect(result.npv.min).toBeCloseTo(cal.NPV(10, -1000, 500, 500, 500), 10);
+        expect(result.npv.max).toBeCloseTo(result.npv.min, 10);
+        expect(result.pi.mean).toBeCloseTo(cal.PI(10, [-1000, 500, 500, 500]), 10);
+        expect(result.irr!.mean * 100).toBeCloseTo(cal.IRR({ depth: 100, cashFlow: [-1000, 500, 500, 500] }), 8);
+        expect(result.probabilityNegativeNpv).toEqual(0);
+    });
+
+    it('should sample lognormal, triangular and uniform inputs', () => {
+        const value = ({ x }: ModelInputs) => [-1, x];
+        const sample = (distribution: Distribution) => simulate({ inputs: { x: distribution }, model: value, rate: 0, trials: 20000 }).npv;
+        const lognormal = sample({ type: 'lognormal', mean: 100, standardDeviation: 20 });
+        expect(lognormal.mean + 1).toBeCloseTo(100, 0);
+        expect(lognormal.standardDeviation).toBeCloseTo(20, 0);
+        expect(lognormal.min).toBeGreaterThan(-1);
+        const triangular = sample({ type: 'triangular', min: 0, mode: 3, max: 9 });
+        expect(triangular.mean + 1).toBeCloseTo(4, 1);
+        expect(triangular.min).toBeGreaterThanOrEqual(-1);
+        expect(triangular.max).toBeLessThanOrEqual(8);
+        const uniform = sample({ type: 'uniform', min: 10, max: 20 });
+        expect(uniform.mean + 1).toBeCloseTo(15, 1);
+        expect(uniform.percentiles[25] + 1).toBeCloseTo(12.5, 1);
+        expect(() => sample({ type: 'triangular', min: 0, mode: 10, max: 9 })).toThrow(ValidationError);
+        expect(() => sample({ type: 'beta', alpha: 1 } as unknown as Distribution)).toThrow(ValidationError);
+    });
+
+    it('should correlate inputs through a Cholesky factor', () => {
+        const inputs = {
+            a: { type: 'normal' as const, mean: 0, standardDeviation: 1 }, b: { type: 'normal' as const, mean: 0, standardDeviation: 1 },
+        };
+        const sum = ({ a, b }: ModelInputs) => [-1, a + b];
+        const spread = (coefficient: number) =>
+            simulate({ inputs, model: sum, rate: 0, trials: 20000, correlations: [{ inputs: ['a', 'b'], coefficient }] }).npv.standardDeviation;
+        expect(spread(0)).toBeCloseTo(Math.sqrt(2), 1);
+        expect(spread(0.8)).toBeCloseTo(Math.sqrt(3.6), 1);
+        expect(spread(-1)).toBeCloseTo(0, 6);
+        const three = { ...inputs, c: inputs.a };
+        const correlations = [
+            { inputs: ['a', 'b'] as [string, string], coefficient: 0.9 }, { inputs: ['b', 'c'] as [string, string], coefficient: 0.9 },
+            { inputs: ['a', 'c'] as [string, string], coefficient: -0.9 },
+        ];
+        expect(() => simulate({ inputs: three, model: sum, rate: 0, trials: 10, correlations })).toThrow(ValidationError);
+        expect(() => simulate({ inputs, model: sum, rate: 0, correlations: [{ inputs: ['a', 'z'], coefficient: 0.5 }] })).toThrow(ValidationError);
+    });
+
+    it('should count the trials without an IRR', () => {
+        const result = simulate({
+            inputs: { sales: { type: 'uniform', min: 100, max: 200 } }, model: ({ sales }) => [1000, sales], rate: 0.1, trials: 50,
+        });
+        expect(result.irrFailures).toEqual(50);
+        expect(result.irr).toBeUndefined();
+        expect(result.probabilityNegativeNpv).toEqual(0);
+        const cal = new Finance();
+        expect(cal.simulate({ inputs: { sales: { type: 'uniform', min: 100, max: 200 } }, model: ({ sales }) => [1000, sales], rate: 10, trials: 5 }).irr)
+            .toBeUndefined();
+    });
+
+    it('should report no spread for a single trial', () => {
+        const result = simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } }, model: project, rate: 0.1, trials: 1 });
+        expect(result.npv.standardDeviation).toEqual(0);
+        expect(result.npv.min).toEqual(result.npv.mean);
+        expect(result.irr!.standardDeviation).toEqual(0);
+        expect(result.pi.percentiles[95]).toEqual(result.pi.mean);
+    });
+
+    it('should rank inputs by swing in a tornado', () => {
+        const result = tornado({
+            inputs: { sales: { base: 500, low: 400, high: 650 }, costs: { base: 100, low: 80, high: 120 } }, model: project, rate: 0.1,
+        });
+        expect(result.base).toBeCloseTo(-1000 + 400 * annuity, 8);
+        expect(result.bars.map((bar) => bar.input)).toEqual(['sales', 'costs']);
+        expect(result.bars[0].low).toBeCloseTo(-1000 + 300 * annuity, 8);
+        expect(result.bars[0].high).toBeCloseTo(-1000 + 550 * annuity, 8);
+        expect(result.bars[0].swing).toBeCloseTo(250 * annuity, 8);
+        expect(result.bars[1].swing).toBeCloseTo(40 * annuity, 8);
+        const irrTornado = tornado({ inputs: { sales: { base: 500, low: 400, high: 650 } }, model: project, rate: 0.1, metric: 'irr' });
+        expect(irrTornado.bars[0].high).toBeGreaterThan(irrTornado.base);
+    });
+
+    it('should build a two-way data table', () => {
+        const table = dataTable({
+            base: { sales: 500, costs: 100 }, model: project, rate: 0.1,
+            row: { input: 'sales', values: [400, 500, 600] }, column: { input: 'costs', values: [50, 150] },
+        });
+        expect(table.rowValues).toEqual([400, 500, 600]);
+        expect(table.columnValues).toEqual([50, 150]);
+        expect(table.results).toHaveLength(3);
+        expect(table.results[1][0]).toBeCloseTo(-1000 + 450 * annuity, 8);
+        expect(table.results[2][1]).toBeCloseTo(-1000 + 450 * annuity, 8);
+        const pi = dataTable({
+            base: {}, model: project, rate: 0.1, metric: 'pi', row: { input: 'sales', values: [500] }, column: { input: 'costs', values: [0] },
+        });
+        expect(pi.results[0][0]).toBeCloseTo(500 * annuity / 1000, 10);
+        expect(() => dataTable({ base: {}, model: project, rate: 0.1, row: { input: 'sales', values: [] }, column: { input: 'costs', values: [0] } }))
+            .toThrow(ValidationError);
+    });
+
+    it('should expose the simulation on Finance with rates in percent', () => {
+        const cal = new Finance();
+        const inputs = { sales: { type: 'uniform' as const, min: 400, max: 600 } };
+        const fraction = simulate({ inputs, model: project, rate: 0.1, trials: 200 });
+        const percent = cal.simulate({ inputs, model: project, rate: 10, trials: 200 });
+        expect(percent.npv).toEqual(fraction.npv);
+        expect(percent.irr!.mean).toBeCloseTo(fraction.irr!.mean * 100, 10);
+        expect(percent.irr!.percentiles[95]).toBeCloseTo(fraction.irr!.percentiles[95] * 100, 10);
+        const ranges = { sales: { base: 500, low: 400, high: 600 } };
+        expect(cal.tornado({ inputs: ranges, model: project, rate: 10 })).toEqual(tornado({ inputs: ranges, model: project, rate: 0.1 }));
+        expect(cal.tornado({ inputs: ranges, model: project, rate: 10, metric: 'irr' }).base).toBeCloseTo(23.3752, 4);
+        const axes = { row: { input: 'sales', values: [500] }, column: { input: 'costs', values: [0] } };
+        expect(cal.dataTable({ base: {}, model: project, rate: 10, metric: 'irr', ...axes }).results[0][0]).toBeCloseTo(23.3752, 4);
+        expect(() => cal.simulate({ inputs, model: project, rate: -150 })).toThrow(ValidationError);
+    });
+});
@@ -0,0 +1,61 @@
+import { ConvergenceError, FinanceError } from '../errors';
+import Finance from '../finance';
+import { brent, findRoot, newton } from '../solver';
+
+const cal = new Finance();
+
+describe('Root finder', () => {
+    it('should find a bracketed root with Brent\'s method', () => {
+        expect(brent(Math.cos, 0, 3)).toBeCloseTo(Math.PI / 2, 10);
+        expect(findRoot((x) => x * x - 2, { bracket: [0, 2] })).toBeCloseTo(Math.SQRT2, 10);
+    });
+
+    it('should fall back to Newton\'s method without a sign change', () => {
+        expect(findRoot((x) => x * x - 2, { bracket: [3, 4], guess: 1 })).toBeCloseTo(Math.SQRT2, 10);
+        expect(newton((x) => x * x * x - 8, 1, {}, (x) => 3 * x * x)).toBeCloseTo(2, 10);
+    });
+
+    it('should honour the tolerance', () => {
+        const root = brent((x) => x - 1 / 3, 0, 1, { tolerance: 1e-3 });
+        expect(Math.abs(root - 1 / 3)).toBeLessThan(1e-3);
+    });
+
+    it('should report iterations and residual when it does not converge', () => {
+        expect.assertions(5);
+        try {
+            newton((x) => x * x + 1, 0.5, { maxIterations: 5 });
+        } catch (error) {
+            expect(error).toBeInstanceOf(ConvergenceError);
+            expect(error).toBeInstanceOf(FinanceError);
+            expect((error as ConvergenceError).code).toEqual('NO_CONVERGENCE');
+            expect((error as ConvergenceError).iterations).toEqual(5);
+            expect((error as ConvergenceError).residual).toBeGreaterThan(1);
+        }
+    });
+
+    it('should throw when the root is not bracketed', () => {
+        expect(() => brent((x) => x * x + 1, -1, 1)).toThrow(ConvergenceError);
+    });
+
+    it('should compute a negative IRR', () => {
+        expect(cal.IRR({ depth: 100, cashFlow: [-100, 30, 30, 30] })).toEqual(-5.09);
+    });
+
+    it('should compute IRR to the requested tolerance', () => {
+        const irr = cal.IRR({ depth: 100, cashFlow: [-1000, 300, 400, 500] }, { tolerance: 1e-12 });
+        expect(irr).toEqual(8.9);
+    });
+
+    it('should use depth as the iteration cap of IRR', () => {
+        expect(() => cal.IRR({ depth: 2, cashFlow: [-1000, 300, 400, 500] })).toThrow(ConvergenceError);
+    });
+
+    it('should compute XIRR', () => {
+        const cfs = [-10000, 2750, 4250, 3250, 2750];
+        const dts = [
+            new Date(2008, 0, 1), new Date(2008, 2, 1), new Date(2008, 9, 30), new Date(2009, 1, 15), new Date(2009, 3, 1),
+        ];
+        expect(cal.XIRR(cfs, dts)).toEqual(37.34);
+        expect(cal.XIRR(cfs, dts, 0.1, { bracket: [5, 10] })).toEqual(37.34);
+    });
+});
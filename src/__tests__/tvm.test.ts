@@ -0,0 +1,90 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { cumipmt, cumprinc, effect, fv, ipmt, nominal, nper, PaymentTiming, pmt, ppmt, pv, rate, xirr } from '../tvm';
+
+// expected values are the outputs of the same formulas in Excel and LibreOffice Calc
+describe('Spreadsheet TVM functions', () => {
+    it('should compute PV', () => {
+        expect(pv(0.08 / 12, 12 * 20, 500, 0, 0)).toBeCloseTo(-59777.15, 2);
+        expect(pv(0.1, 5, -100, -1000, 1)).toBeCloseTo(1037.91, 2);
+        expect(pv(0, 10, -100)).toEqual(1000);
+    });
+
+    it('should compute FV', () => {
+        expect(fv(0.06 / 12, 10, -200, -500, 1)).toBeCloseTo(2581.40, 2);
+        expect(fv(0.12 / 12, 12, -1000)).toBeCloseTo(12682.50, 2);
+        expect(fv(0.11 / 12, 35, -2000, 0, 1)).toBeCloseTo(82846.25, 2);
+        expect(fv(0, 12, -100, -1000)).toEqual(2200);
+    });
+
+    it('should compute PMT', () => {
+        expect(pmt(0.08 / 12, 10, 10000)).toBeCloseTo(-1037.03, 2);
+        expect(pmt(0.08 / 12, 10, 10000, 0, 1)).toBeCloseTo(-1030.16, 2);
+        expect(pmt(0.06 / 12, 18 * 12, 0, 50000)).toBeCloseTo(-129.08, 2);
+        expect(pmt(0, 12, 1200)).toEqual(-100);
+    });
+
+    it('should compute NPER', () => {
+        expect(nper(0.12 / 12, -100, -1000, 10000, 1)).toBeCloseTo(59.6738657, 6);
+        expect(nper(0.12 / 12, -100, -1000, 10000)).toBeCloseTo(60.0821229, 6);
+        expect(nper(0.12 / 12, -100, -1000)).toBeCloseTo(-9.57859404, 6);
+        expect(() => nper(0.1, -50, 1000)).toThrow(ValidationError);
+    });
+
+    it('should solve RATE', () => {
+        expect(rate(4 * 12, -200, 8000)).toBeCloseTo(0.00770147, 8);
+        expect(rate(4 * 12, -200, 8000) * 12).toBeCloseTo(0.09241767, 7);
+        expect(rate(10, -1000, 0, 15000, 1)).toBeCloseTo(0.0725674, 7);
+        expect(rate(12, -100, 1200)).toBeCloseTo(0, 10);
+        expect(() => rate(4 * 12, -200, 8000, 0, 0, -2)).toThrow('guess must be above -100%, got -200%');
+        expect(() => rate(4 * 12, -200, NaN)).toThrow('presentValue');
+    });
+
+    it('should compute IPMT and PPMT', () => {
+        expect(ipmt(0.1 / 12, 1, 3 * 12, 8000)).toBeCloseTo(-66.67, 2);
+        expect(ipmt(0.1, 3, 3, 8000)).toBeCloseTo(-292.45, 2);
+        expect(ipmt(0.1, 1, 3, 8000, 0, 1)).toEqual(0);
+        expect(ipmt(0.1, 2, 3, 8000, 0, 1)).toBeCloseTo(-507.55, 2);
+        expect(ppmt(0.1 / 12, 1, 2 * 12, 2000)).toBeCloseTo(-75.62, 2);
+        expect(ppmt(0.08, 10, 10, 200000)).toBeCloseTo(-27598.05, 2);
+        expect(ipmt(0.05, 4, 10, 1000) + ppmt(0.05, 4, 10, 1000)).toBeCloseTo(pmt(0.05, 10, 1000), 10);
+    });
+
+    it('should compute CUMIPMT and CUMPRINC', () => {
+        expect(cumipmt(0.09 / 12, 30 * 12, 125000, 13, 24, 0)).toBeCloseTo(-11135.23, 2);
+        expect(cumipmt(0.09 / 12, 30 * 12, 125000, 1, 1, 0)).toBeCloseTo(-937.50, 2);
+        expect(cumprinc(0.09 / 12, 30 * 12, 125000, 13, 24, 0)).toBeCloseTo(-934.1071234, 6);
+        expect(cumprinc(0.09 / 12, 30 * 12, 125000, 1, 1, 0)).toBeCloseTo(-68.27827118, 6);
+        expect(cumprinc(0.05, 10, 1000, 1, 10, 0)).toBeCloseTo(-1000, 8);
+        expect(() => cumipmt(0.1, 10, 1000, 5, 4, 0)).toThrow(ValidationError);
+    });
+
+    it('should convert between EFFECT and NOMINAL', () => {
+        expect(effect(0.0525, 4)).toBeCloseTo(0.0535427, 7);
+        expect(nominal(0.053543, 4)).toBeCloseTo(0.0525003, 7);
+        expect(effect(0.1, 12.9)).toEqual(effect(0.1, 12));
+        expect(() => effect(0.1, 0.5)).toThrow(ValidationError);
+    });
+
+    it('should solve XIRR', () => {
+        const values = [-10000, 2750, 4250, 3250, 2750];
+        const dates = [new Date(2008, 0, 1), new Date(2008, 2, 1), new Date(2008, 9, 30), new Date(2009, 1, 15), new Date(2009, 3, 1)];
+        expect(xirr(values, dates)).toBeCloseTo(0.373363, 6);
+        expect(xirr(values, dates, 0.1, { dayCount: 'ACT/360' })).toBeLessThan(0.373363);
+        expect(() => xirr([1, 2], [new Date(2008, 0, 1), new Date(2009, 0, 1)])).toThrow('XIRR requires at least one positive value and one negative value');
+    });
+
+    it('should reject a payment timing other than 0 or 1', () => {
+        expect(() => pmt(0.1, 10, 1000, 0, 2 as unknown as PaymentTiming)).toThrow('type must be 0 (end of period) or 1 (beginning of period), got 2');
+    });
+
+    it('should expose the functions on Finance in the configured rate unit', () => {
+        const cal = new Finance();
+        expect(cal.RATE(48, -200, 8000)).toBeCloseTo(0.00770147, 8);
+        expect(cal.CUMIPMT(0.09 / 12, 360, 125000, 13, 24, 0)).toBeCloseTo(-11135.23, 2);
+        const percent = new Finance({ rateUnit: 'percent' });
+        expect(percent.EFFECT(5.25, 4)).toBeCloseTo(5.35427, 5);
+        expect(percent.NPER(1, -100, -1000, 10000, 1)).toBeCloseTo(59.6738657, 6);
+        expect(percent.withRounding({ decimals: 2 }).RATE(48, -200, 8000)).toEqual(0.77);
+    });
+});
@@ -0,0 +1,92 @@
+import { DayCount } from '../daycount';
+import { CashFlowError, FinanceError, ValidationError } from '../errors';
+import Finance from '../finance';
+import { convertRate, fromDecimal, RateUnit, toDecimal } from '../rates';
+
+function caught(fn: () => unknown): FinanceError {
+    try {
+        fn();
+    } catch (error) {
+        return error as FinanceError;
+    }
+    throw new Error('expected an error');
+}
+
+describe('Rate units', () => {
+    it('should convert between percent, decimal and basis points', () => {
+        expect(toDecimal(250, 'bps')).toEqual(0.025);
+        expect(toDecimal(5, 'percent')).toEqual(0.05);
+        expect(fromDecimal(0.025, 'percent')).toEqual(2.5);
+        expect(convertRate(5, 'percent', 'bps')).toEqual(500);
+        expect(convertRate(0.05, 'decimal', 'decimal')).toEqual(0.05);
+        expect(() => toDecimal(1, 'permille' as unknown as RateUnit)).toThrow(ValidationError);
+    });
+
+    it('should read and return rates in the configured unit', () => {
+        const percent = new Finance();
+        const decimal = new Finance({ rateUnit: 'decimal' });
+        const bps = new Finance({ rateUnit: 'bps' });
+        expect(decimal.NPV(0.1, -500000, 200000, 300000, 200000)).toEqual(percent.NPV(10, -500000, 200000, 300000, 200000));
+        expect(bps.PMT(200, 36, -1000000)).toEqual(percent.PMT(2, 36, -1000000));
+        expect(decimal.IRR({ depth: 100, cashFlow: [-6, 297, 307] })).toBeCloseTo(49.51, 2);
+        expect(bps.CAGR(10000, 19500, 3)).toEqual(2493);
+        expect(decimal.CAGR(10000, 19500, 3)).toEqual(0.2493);
+        expect(decimal.CAPM(0.02, 1.2, 0.1, 0)).toBeCloseTo(0.116, 10);
+        expect(percent.CAPM(2, 1.2, 10, 0)).toBeCloseTo(0.116, 10);
+        expect(decimal.IAR(0.08, 0.03)).toBeCloseTo(0.0485, 4);
+    });
+
+    it('should convert schedule and loan rates to the configured unit', () => {
+        const startDate = new Date(Date.UTC(2023, 0, 1));
+        const percent = new Finance().amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60, startDate });
+        const decimal = new Finance({ rateUnit: 'decimal' }).amortizationSchedule({ principal: 20000, rate: 0.075, numOfPayments: 60, startDate });
+        expect(decimal).toEqual(percent);
+        const loan = new Finance({ rateUnit: 'bps' }).modelLoan({
+            principal: 20000, rate: 750, numOfPayments: 60, startDate,
+            events: [{ type: 'rateChange', date: new Date(Date.UTC(2024, 0, 1)), rate: 500 }],
+        });
+        expect(loan.schedule[11].rate).toEqual(5);
+    });
+});
+
+describe('Validation', () => {
+    const cal = new Finance();
+
+    it('should reject cash flows without a sign change with a CashFlowError', () => {
+        const error = caught(() => cal.IRR({ depth: 10, cashFlow: [100, 200] }));
+        expect(error).toBeInstanceOf(CashFlowError);
+        expect(error).toBeInstanceOf(FinanceError);
+        expect(error.code).toEqual('INVALID_CASH_FLOWS');
+        expect(error.message).toEqual('IRR requires at least one positive value and one negative value');
+        expect(() => cal.XIRR([-1, -2], [new Date(), new Date()])).toThrow(CashFlowError);
+        expect(() => cal.MIRR([1, 2, 3], 10, 12)).toThrow(CashFlowError);
+    });
+
+    it('should report the offending argument', () => {
+        const error = caught(() => cal.PV(-100, 100)) as ValidationError;
+        expect(error.code).toEqual('INVALID_ARGUMENT');
+        expect(error.argument).toEqual('rate');
+        expect(caught(() => cal.NPV(10, -100, NaN)).message).toEqual('cf[1] must be a finite number, got NaN');
+        expect((caught(() => cal.XNPV(10, [-100, 50], [new Date()])) as ValidationError).argument).toEqual('dts');
+    });
+
+    it('should reject an unknown yearOrMonth instead of returning 0', () => {
+        expect(() => cal.AM(20000, 7.5, 5, 2)).toThrow(ValidationError);
+        expect(cal.AM(20000, 7.5, 60, 1)).toEqual(cal.AM(20000, 7.5, 5, 0));
+    });
+
+    it('should handle a zero rate', () => {
+        expect(cal.AM(12000, 0, 1, 0)).toEqual(1000);
+        expect(cal.PMT(0, 12, -12000)).toEqual(1000);
+    });
+
+    it('should reject inputs that make a formula meaningless', () => {
+        expect(() => cal.stockPV(10, 5, 1)).toThrow('g must be lower than ke for a constant growth valuation');
+        expect(() => cal.LR(25, 10, 0)).toThrow(ValidationError);
+        expect(() => cal.CAGR(0, 100, 3)).toThrow(ValidationError);
+        expect(() => cal.WACC(0, 0, 10, 5, 30)).toThrow(ValidationError);
+        expect(() => cal.DF(10, 2.5)).toThrow(ValidationError);
+        expect(() => cal.amortizationSchedule({ principal: -1, rate: 5, numOfPayments: 12 })).toThrow(ValidationError);
+        expect(() => cal.XNPV(10, [-1, 1], [new Date(), new Date()], 'ACT/999' as unknown as DayCount)).toThrow(ValidationError);
+    });
+});
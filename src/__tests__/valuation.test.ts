@@ -0,0 +1,90 @@
+import { ValidationError } from '../errors';
+import Finance from '../finance';
+import { capm, CashFlowBasis, discountedCashFlow, discountRate, gordonGrowth, hModel, threeStageDDM, twoStageDDM, wacc } from '../valuation';
+
+describe('Valuation', () => {
+    const growth = { dividend: 1, highGrowth: 0.2, highGrowthYears: 3, stableGrowth: 0.05, costOfEquity: 0.1 };
+
+    it('should estimate discount rates with CAPM and WACC', () => {
+        expect(capm({ riskFree: 0.02, beta: 1.2, marketReturn: 0.1 })).toBeCloseTo(0.116, 12);
+        expect(wacc({ equity: 600000, debt: 400000, costOfEquity: 0.06, costOfDebt: 0.05, taxRate: 0.35 })).toBeCloseTo(0.049, 12);
+        expect(discountRate(0.08)).toEqual(0.08);
+        expect(discountRate({ riskFree: 0.02, beta: 1.2, marketReturn: 0.1, premium: 0.01 })).toBeCloseTo(0.126, 12);
+        const capmInputs = { riskFree: 0.02, beta: 1.2, marketReturn: 0.1 };
+        expect(discountRate({ equity: 600, debt: 400, costOfEquity: capmInputs, costOfDebt: 0.05, taxRate: 0.35 }))
+            .toBeCloseTo(0.6 * 0.116 + 0.4 * 0.05 * 0.65, 12);
+    });
+
+    it('should value constant, two-stage and three-stage dividend growth', () => {
+        expect(gordonGrowth({ dividend: 2, growth: 0.05, costOfEquity: 0.1 })).toBeCloseTo(42, 10);
+        expect(twoStageDDM(growth)).toBeCloseTo(30.842975, 6);
+        expect(threeStageDDM({ ...growth, transitionYears: 0 })).toEqual(twoStageDDM(growth));
+        // growth of 20%, 20%, 12.5% and 5% before the stable stage
+        expect(threeStageDDM({ ...growth, highGrowthYears: 2, transitionYears: 2 })).toBeCloseTo(29.057851, 6);
+        expect(twoStageDDM({ ...growth, highGrowthYears: 0, highGrowth: 0 })).toBeCloseTo(gordonGrowth({ dividend: 1, growth: 0.05, costOfEquity: 0.1 }), 10);
+    });
+
+    it('should value declining growth with the H-model', () => {
+        expect(hModel({ dividend: 1, initialGrowth: 0.2, stableGrowth: 0.05, halfLife: 5, costOfEquity: 0.1 })).toBeCloseTo(36, 10);
+        expect(hModel({ dividend: 2, initialGrowth: 0.05, stableGrowth: 0.05, halfLife: 5, costOfEquity: 0.1 })).toBeCloseTo(42, 10);
+    });
+
+    it('should reject growth at or above the cost of equity', () => {
+        expect(() => gordonGrowth({ dividend: 2, growth: 0.1, costOfEquity: 0.1 })).toThrow(ValidationError);
+        expect(() => twoStageDDM({ ...growth, stableGrowth: 0.12 })).toThrow('growth must be lower than the discount rate');
+        expect(() => twoStageDDM({ ...growth, highGrowthYears: 1.5 })).toThrow(ValidationError);
+    });
+
+    it('should value free cash flow to the firm with a perpetual growth terminal value', () => {
+        const result = discountedCashFlow({
+            basis: 'fcff', cashFlows: [100, 110, 121], discountRate: 0.1, terminalValue: { method: 'perpetual-growth', growth: 0.02 },
+            debt: 300, cash: 50, sharesOutstanding: 100,
+        });
+        expect(result.presentValueOfCashFlows).toBeCloseTo(272.727273, 6);
+        expect(result.terminalValue).toBeCloseTo(1542.75, 10);
+        expect(result.presentValueOfTerminalValue).toBeCloseTo(1159.090909, 6);
+        expect(result.bridge.enterpriseValue).toBeCloseTo(1431.818182, 6);
+        expect(result.bridge.equityValue).toBeCloseTo(1181.818182, 6);
+        expect(result.valuePerShare).toBeCloseTo(11.818182, 6);
+    });
+
+    it('should value free cash flow to equity with an exit multiple and a CAPM cost of equity', () => {
+        const result = discountedCashFlow({
+            basis: 'fcfe', cashFlows: [100, 110, 121], discountRate: { riskFree: 0.02, beta: 1.2, marketReturn: 0.1 },
+            terminalValue: { method: 'exit-multiple', multiple: 12, metric: 130 }, debt: 300, cash: 50, minorityInterest: 20,
+        });
+        expect(result.discountRate).toBeCloseTo(0.116, 12);
+        expect(result.terminalValue).toEqual(1560);
+        expect(result.bridge.equityValue).toBeCloseTo(1387.341184, 6);
+        expect(result.bridge.enterpriseValue).toBeCloseTo(1387.341184 + 270, 6);
+        expect(result.valuePerShare).toBeUndefined();
+    });
+
+    it('should match the discount rate to the cash flow basis', () => {
+        const options = { cashFlows: [100], terminalValue: { method: 'perpetual-growth' as const, growth: 0.02 } };
+        const waccInputs = { equity: 600, debt: 400, costOfEquity: 0.1, costOfDebt: 0.05, taxRate: 0.3 };
+        expect(discountedCashFlow({ ...options, basis: 'fcff', discountRate: waccInputs }).discountRate).toBeCloseTo(0.074, 12);
+        expect(() => discountedCashFlow({ ...options, basis: 'fcfe', discountRate: waccInputs })).toThrow(ValidationError);
+        expect(() => discountedCashFlow({ ...options, basis: 'fcff', discountRate: { riskFree: 0.02, beta: 1, marketReturn: 0.1 } }))
+            .toThrow(ValidationError);
+        expect(() => discountedCashFlow({ ...options, basis: 'fcff', discountRate: 0.02 })).toThrow(ValidationError);
+        expect(() => discountedCashFlow({ ...options, basis: 'ebitda' as unknown as CashFlowBasis, discountRate: 0.1 })).toThrow(ValidationError);
+    });
+
+    it('should expose valuation on Finance in percent', () => {
+        const cal = new Finance();
+        expect(cal.twoStageDDM({ ...growth, highGrowth: 20, stableGrowth: 5, costOfEquity: 10 })).toEqual(30.84);
+        expect(cal.threeStageDDM({ ...growth, highGrowth: 20, highGrowthYears: 2, transitionYears: 2, stableGrowth: 5, costOfEquity: 10 }))
+            .toEqual(29.06);
+        expect(cal.hModel({ dividend: 1, initialGrowth: 20, stableGrowth: 5, halfLife: 5, costOfEquity: { riskFree: 2, beta: 1.5, marketReturn: 10 } }))
+            .toEqual(20);
+        const result = cal.DCF({
+            basis: 'fcff', cashFlows: [100, 110, 121], discountRate: { equity: 1, debt: 0, costOfEquity: 10, costOfDebt: 5, taxRate: 30 },
+            terminalValue: { method: 'perpetual-growth', growth: 2 }, debt: 300, cash: 50, sharesOutstanding: 100,
+        });
+        expect(result.discountRate).toBeCloseTo(10, 10);
+        expect(result.bridge).toEqual({ enterpriseValue: 1431.82, debt: 300, cash: 50, minorityInterest: 0, preferredEquity: 0, equityValue: 1181.82 });
+        expect(result.valuePerShare).toEqual(11.82);
+        expect(new Finance({ rateUnit: 'decimal' }).twoStageDDM(growth)).toEqual(30.84);
+    });
+});
@@ -0,0 +1,32 @@
+import { round, RoundingPolicy } from './rounding';
+
+/**
+ * Number backend the calculations run on. Implement it to plug in a third party decimal library.
+ */
+export interface Arithmetic<T> {
+    from(value: number | string): T;
+    add(a: T, b: T): T;
+    subtract(a: T, b: T): T;
+    multiply(a: T, b: T): T;
+    divide(a: T, b: T): T;
+    /** raises to an integer power */
+    pow(base: T, exponent: number): T;
+    compare(a: T, b: T): number;
+    round(value: T, policy?: RoundingPolicy): T;
+    toNumber(value: T): number;
+}
+
+/**
+ * IEEE double backend, the default
+ */
+export const floatArithmetic: Arithmetic<number> = {
+    from: (value) => Number(value),
+    add: (a, b) => a + b,
+    subtract: (a, b) => a - b,
+    multiply: (a, b) => a * b,
+    divide: (a, b) => a / b,
+    pow: (base, exponent) => Math.pow(base, exponent),
+    compare: (a, b) => a < b ? -1 : a > b ? 1 : 0,
+    round: (value, policy) => round(value, policy),
+    toNumber: (value) => value,
+};
@@ -0,0 +1,258 @@
+import { DayCount, yearFraction } from './daycount';
+import { ValidationError } from './errors';
+import { addPeriods } from './schedule';
+import { findRoot, SolverOptions } from './solver';
+import { assertDate, assertFinite, assertNonNegative, assertPositive } from './validation';
+
+/** coupon payments per year */
+export type CouponFrequency = 1 | 2 | 4 | 12;
+
+export interface Bond {
+    settlement: Date;
+    maturity: Date;
+    /** annual coupon rate as a fraction, 0 for a zero-coupon bond */
+    couponRate: number;
+    /** face value prices are quoted on, defaults to 100 */
+    faceValue?: number;
+    /** amount repaid at maturity, defaults to the face value */
+    redemption?: number;
+    /** coupons per year, defaults to 2 */
+    frequency?: CouponFrequency;
+    /** day count used to accrue coupons, defaults to 30/360 US */
+    dayCount?: DayCount;
+}
+
+export interface CallSchedule {
+    date: Date;
+    /** price paid when the bond is called, quoted on the face value like prices */
+    price: number;
+}
+
+export interface BondAnalytics {
+    cleanPrice: number;
+    dirtyPrice: number;
+    accruedInterest: number;
+    /** weighted average time to the cash flows, in years */
+    macaulayDuration: number;
+    /** relative price change for a change in yield, in years */
+    modifiedDuration: number;
+    convexity: number;
+    /** price change for a one basis point drop in yield */
+    dv01: number;
+}
+
+interface BondCashFlow {
+    /** years from settlement */
+    time: number;
+    presentValue: number;
+}
+
+interface CouponPeriod {
+    previous: Date;
+    next: Date;
+    /** coupons left, the next one included */
+    remaining: number;
+    /** part of the current coupon period already accrued */
+    accrued: number;
+}
+
+const FREQUENCIES = [1, 2, 4, 12];
+
+// the yield per period must stay above -100%, the upper end covers distressed prices
+const YIELD_BRACKET: [number, number] = [-0.99, 100];
+
+/**
+ * Accrued interest - coupon interest earned since the last coupon date, which the buyer pays on top of the
+ * clean price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @returns {number} - accrued interest per face value
+ * @example accruedInterest({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 0.0575 }) // 1.4375
+ */
+export function accruedInterest(bond: Bond): number {
+    return coupon(bond) * couponPeriod(bond).accrued;
+}
+
+/**
+ * Dirty price - present value of the remaining coupons and redemption at a yield, compounded at the coupon
+ * frequency, accrued interest included
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price per face value
+ */
+export function dirtyPrice(bond: Bond, yieldRate: number): number {
+    return cashFlows(bond, yieldRate).reduce((sum, flow) => sum + flow.presentValue, 0);
+}
+
+/**
+ * Clean price - the quoted price, dirty price less accrued interest
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price per face value
+ * @example cleanPrice({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 0.0575 }, 0.065) // 94.63
+ */
+export function cleanPrice(bond: Bond, yieldRate: number): number {
+    return dirtyPrice(bond, yieldRate) - accruedInterest(bond);
+}
+
+/**
+ * Yield to maturity (YTM) - the yield at which the bond's cash flows are worth its clean price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param price - clean price per face value
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual yield as a fraction
+ * @example yieldToMaturity({ settlement: new Date('2008-02-15'), maturity: new Date('2016-11-15'), couponRate: 0.0575 }, 95.04287) // 0.065
+ */
+export function yieldToMaturity(bond: Bond, price: number, options: SolverOptions = {}): number {
+    assertPositive('price', price);
+    const accrued = accruedInterest(bond);
+    return findRoot((rate) => dirtyPrice(bond, rate) - accrued - price, { bracket: yieldBracket(bond), ...options });
+}
+
+/**
+ * Yield to call (YTC) - the yield to maturity of the bond redeemed at the call price on the call date
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param price - clean price per face value
+ * @param call - call date and call price
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual yield as a fraction
+ */
+export function yieldToCall(bond: Bond, price: number, call: CallSchedule, options: SolverOptions = {}): number {
+    assertDate('call.date', call.date);
+    assertPositive('call.price', call.price);
+    if (call.date > bond.maturity) {
+        throw new ValidationError('call.date must not be after maturity', 'call.date');
+    }
+    return yieldToMaturity({ ...bond, maturity: call.date, redemption: call.price }, price, options);
+}
+
+/**
+ * Macaulay duration - the present value weighted average time to the bond's cash flows
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - duration in years
+ */
+export function macaulayDuration(bond: Bond, yieldRate: number): number {
+    const flows = cashFlows(bond, yieldRate);
+    const price = flows.reduce((sum, flow) => sum + flow.presentValue, 0);
+    return flows.reduce((sum, flow) => sum + flow.time * flow.presentValue, 0) / price;
+}
+
+/**
+ * Modified duration - Macaulay duration divided by one plus the yield per period, the relative price change for
+ * a unit change in yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - duration in years
+ */
+export function modifiedDuration(bond: Bond, yieldRate: number): number {
+    return macaulayDuration(bond, yieldRate) / (1 + yieldRate / frequencyOf(bond));
+}
+
+/**
+ * Convexity - second derivative of the price with respect to the yield, relative to the price
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - convexity in years squared
+ */
+export function convexity(bond: Bond, yieldRate: number): number {
+    const frequency = frequencyOf(bond);
+    const flows = cashFlows(bond, yieldRate);
+    const price = flows.reduce((sum, flow) => sum + flow.presentValue, 0);
+    const weighted = flows.reduce((sum, flow) => sum + flow.presentValue * flow.time * (flow.time + 1 / frequency), 0);
+    return weighted / (price * Math.pow(1 + yieldRate / frequency, 2));
+}
+
+/**
+ * Dollar value of a basis point (DV01) - the dirty price change for a one basis point drop in the yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {number} - price change per face value
+ */
+export function dv01(bond: Bond, yieldRate: number): number {
+    return modifiedDuration(bond, yieldRate) * dirtyPrice(bond, yieldRate) / 10000;
+}
+
+/**
+ * Bond analytics - prices, accrued interest and risk measures at a yield
+ * @param bond - settlement, maturity, coupon, frequency and day count
+ * @param yieldRate - annual yield as a fraction
+ * @returns {BondAnalytics} - clean and dirty price, accrued interest, durations, convexity and DV01
+ */
+export function bondAnalytics(bond: Bond, yieldRate: number): BondAnalytics {
+    const dirty = dirtyPrice(bond, yieldRate);
+    const accrued = accruedInterest(bond);
+    const modified = modifiedDuration(bond, yieldRate);
+    return {
+        cleanPrice: dirty - accrued,
+        dirtyPrice: dirty,
+        accruedInterest: accrued,
+        macaulayDuration: macaulayDuration(bond, yieldRate),
+        modifiedDuration: modified,
+        convexity: convexity(bond, yieldRate),
+        dv01: modified * dirty / 10000,
+    };
+}
+
+function cashFlows(bond: Bond, yieldRate: number): BondCashFlow[] {
+    assertFinite('yieldRate', yieldRate);
+    const frequency = frequencyOf(bond);
+    if (yieldRate / frequency <= -1) {
+        throw new ValidationError(`yieldRate must be above -${frequency * 100}% at ${frequency} coupons a year`, 'yieldRate');
+    }
+    const { remaining, accrued } = couponPeriod(bond);
+    const payment = coupon(bond);
+    const redemption = bond.redemption === undefined ? faceValueOf(bond) : bond.redemption;
+    assertNonNegative('redemption', redemption);
+    const flows: BondCashFlow[] = [];
+    for (let k = 1; k <= remaining; k++) {
+        // periods from settlement, the first one partial when settlement falls between coupon dates
+        const periods = k - accrued;
+        const amount = k === remaining ? payment + redemption : payment;
+        flows.push({ time: periods / frequency, presentValue: amount / Math.pow(1 + yieldRate / frequency, periods) });
+    }
+    return flows;
+}
+
+// coupon dates are counted back from maturity so that they keep its day of month
+function couponPeriod(bond: Bond): CouponPeriod {
+    const { settlement, maturity, dayCount = '30/360 US' } = bond;
+    assertDate('settlement', settlement);
+    assertDate('maturity', maturity);
+    if (settlement >= maturity) {
+        throw new ValidationError('settlement must be before maturity', 'settlement');
+    }
+    const months = 12 / frequencyOf(bond);
+    let remaining = 1;
+    let previous = addPeriods(maturity, 'monthly', -months);
+    while (previous > settlement) {
+        remaining++;
+        previous = addPeriods(maturity, 'monthly', -months * remaining);
+    }
+    const next = addPeriods(maturity, 'monthly', -months * (remaining - 1));
+    const accrued = yearFraction(previous, settlement, dayCount) / yearFraction(previous, next, dayCount);
+    return { previous, next, remaining, accrued };
+}
+
+function coupon(bond: Bond): number {
+    assertNonNegative('couponRate', bond.couponRate);
+    return faceValueOf(bond) * bond.couponRate / frequencyOf(bond);
+}
+
+function faceValueOf(bond: Bond): number {
+    const faceValue = bond.faceValue === undefined ? 100 : bond.faceValue;
+    assertPositive('faceValue', faceValue);
+    return faceValue;
+}
+
+function frequencyOf(bond: Bond): number {
+    const { frequency = 2 } = bond;
+    if (FREQUENCIES.indexOf(frequency) < 0) {
+        throw new ValidationError(`frequency must be 1, 2, 4 or 12, got ${frequency}`, 'frequency');
+    }
+    return frequency;
+}
+
+function yieldBracket(bond: Bond): [number, number] {
+    const frequency = frequencyOf(bond);
+    return [YIELD_BRACKET[0] * frequency, YIELD_BRACKET[1]];
+}
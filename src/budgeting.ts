@@ -0,0 +1,479 @@
+import { Arithmetic, floatArithmetic } from './arithmetic';
+import { YieldCurve } from './curve';
+import { DayCount, yearFraction } from './daycount';
+import { ValidationError } from './errors';
+import { RoundingPolicy } from './rounding';
+import { brent, findRoot, RATE_BRACKET, SolverOptions } from './solver';
+import { assertCashFlows, assertDates, assertFinite, assertInteger, assertNonNegative, assertPositive, assertRate, assertSignChange } from './validation';
+
+/**
+ * Capital budgeting - present values, rates of return, payback and break-even of a series of cash flows. Rates are
+ * fractions, the first cash flow is at time 0 and results are unrounded unless a rounding policy is given.
+ */
+
+export interface NpvOptions {
+    /** discount rate per period, or a yield curve discounting period i at time i years */
+    rate: number | YieldCurve;
+    cashFlows: number[];
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+    /** rounding of the result, defaults to none */
+    rounding?: RoundingPolicy;
+}
+
+export interface IrrOptions extends SolverOptions {
+    /** cash flows with at least one sign change */
+    cashFlows: number[];
+}
+
+export interface IRRScanOptions {
+    /** lowest and highest rate searched, as fractions unless a rate unit is set, defaults to -99% and 1000% */
+    range?: [number, number];
+    /** number of grid points scanned for sign changes, defaults to 1000 */
+    steps?: number;
+    tolerance?: number;
+}
+
+export interface AllIrrOptions extends IRRScanOptions {
+    cashFlows: number[];
+}
+
+export interface MultipleIRR {
+    /** every IRR found in the range */
+    rates: number[];
+    /** sign changes in the cash flows, the upper bound on the number of IRRs (Descartes' rule of signs) */
+    signChanges: number;
+    /** true when the cash flows are non-conventional and may have more than one IRR */
+    multipleRoots: boolean;
+}
+
+export interface MirrOptions {
+    /** cash flows with at least one sign change */
+    cashFlows: number[];
+    /** rate paid on the money used in the cash flows */
+    financeRate: number;
+    /** rate received on the cash flows as they are reinvested */
+    reinvestRate: number;
+}
+
+export interface XnpvOptions {
+    /** annual discount rate */
+    rate: number;
+    cashFlows: number[];
+    /** dates of the cash flows, discounted back to the first date */
+    dates: Date[];
+    /** day count convention for the year fractions, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+
+export interface XmirrOptions extends MirrOptions {
+    dates: Date[];
+    /** day count convention for the year fractions, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+
+export interface DiscountFactorOptions {
+    /** discount rate per period, or a yield curve discounting period i at time i years */
+    rate: number | YieldCurve;
+    /** number of factors, for periods 0 to periods - 1 */
+    periods: number;
+}
+
+export interface PaybackOptions {
+    /** investment at time 0, negative, then the cash flows recovering it */
+    cashFlows: number[];
+    /** true when cashFlows[1] is received every period, defaults to false */
+    even?: boolean;
+}
+
+export interface DiscountedPaybackOptions {
+    /** discount rate per period, or a yield curve discounting period i at time i years */
+    rate: number | YieldCurve;
+    /** investment at time 0, negative, then the cash flows recovering it */
+    cashFlows: number[];
+}
+
+export interface PaybackResult {
+    /** true when the cumulative cash flow reaches 0 */
+    recovered: boolean;
+    /** first period whose cumulative cash flow is at least 0, undefined when never recovered */
+    period?: number;
+    /** whole periods before the recovery period plus the part of its cash flow needed to recover, undefined when never recovered */
+    fractionalPeriod?: number;
+    /** cumulative cash flow at the end of each period from time 0, discounted for discounted payback; at most 1000 periods for even cash flows */
+    cumulative: number[];
+}
+
+export interface BreakEvenOptions {
+    /** fixed costs of the period */
+    fixedCost: number;
+    /** variable cost per unit */
+    variableCost: number;
+    /** price per unit */
+    price: number;
+}
+
+export interface BreakEven {
+    /** units sold to cover the fixed costs */
+    units: number;
+    /** revenue from the break-even units */
+    revenue: number;
+    /** price less variable cost per unit */
+    contributionMargin: number;
+    /** contribution margin as a fraction of the price */
+    contributionMarginRatio: number;
+}
+
+export interface PresentValueOptions {
+    /** discount rate per period */
+    rate: number;
+    /** amount at the end of the last period */
+    amount: number;
+    /** number of periods, defaults to 1 */
+    periods?: number;
+}
+
+export interface FutureValueOptions {
+    /** growth rate per period */
+    rate: number;
+    /** amount today */
+    amount: number;
+    /** number of periods, defaults to 1 */
+    periods?: number;
+}
+
+// the cumulative cash flows of even payback stop after this many periods, the payback period itself is exact
+const EVEN_CUMULATIVE_PERIODS = 1000;
+
+/**
+ * Present value (PV) - the value today of an amount paid at the end of a number of periods
+ * @param options - discount rate, amount and number of periods
+ * @returns {number} - present value
+ * @example presentValue({ rate: 0.1, amount: 100 }) // 90.91
+ */
+export function presentValue(options: PresentValueOptions): number {
+    const { rate, amount, periods = 1 } = options;
+    validateSingleAmount(rate, amount, periods);
+    return amount / Math.pow(1 + rate, periods);
+}
+
+/**
+ * Future value (FV) - the value at the end of a number of periods of an amount invested today
+ * @param options - growth rate, amount and number of periods
+ * @returns {number} - future value
+ * @example futureValue({ rate: 0.1, amount: 100 }) // 110
+ */
+export function futureValue(options: FutureValueOptions): number {
+    const { rate, amount, periods = 1 } = options;
+    validateSingleAmount(rate, amount, periods);
+    return amount * Math.pow(1 + rate, periods);
+}
+
+/**
+ * Net present value (NPV) - the sum of the present values of cash flows at regular periods
+ * @param options - discount rate or yield curve, cash flows, number backend and rounding
+ * @returns {number} - net present value
+ * @example npv({ rate: 0.1, cashFlows: [-500000, 200000, 300000, 200000] }) // 80015.03
+ */
+export function npv(options: NpvOptions): number {
+    const { cashFlows, rounding = { mode: 'none' } } = options;
+    const m = options.arithmetic || floatArithmetic;
+    const discount = discounter(m, options.rate);
+    assertCashFlows('cashFlows', cashFlows);
+    let value = m.from(cashFlows[0]);
+    for (let i = 1; i < cashFlows.length; i++) {
+        value = m.add(value, discount(m.from(cashFlows[i]), i));
+    }
+    return m.toNumber(m.round(value, rounding));
+}
+
+/**
+ * Internal rate of return (IRR) - the discount rate at which the net present value of cash flows at regular
+ * periods is zero
+ * @param options - cash flows, and solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - rate per period
+ * @example irr({ cashFlows: [-1000, 300, 400, 500] }) // 0.0889
+ */
+export function irr(options: IrrOptions): number {
+    const { cashFlows, ...solverOptions } = options;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    assertSignChange('cashFlows', cashFlows, 'IRR');
+    const value = (rate: number) => cashFlows.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, i), 0);
+    const derivative = (rate: number) => cashFlows.reduce((sum, cf, i) => sum - i * cf * Math.pow(1 + rate, -1 - i), 0);
+    return findRoot(value, { bracket: RATE_BRACKET, guess: 0.1, ...solverOptions }, derivative);
+}
+
+/**
+ * All IRRs - every rate in a range at which the net present value is zero, for non-conventional cash flows
+ * whose sign changes more than once
+ * @param options - cash flows, range of rates, scan steps and solver tolerance
+ * @returns {MultipleIRR} - IRRs, the sign change count and a multiple roots warning
+ * @example allIrr({ cashFlows: [-100, 230, -132] }) // { rates: [0.1, 0.2], signChanges: 2, multipleRoots: true }
+ */
+export function allIrr(options: AllIrrOptions): MultipleIRR {
+    const { cashFlows, range = [-0.99, 10], steps = 1000, tolerance } = options;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    assertInteger('steps', steps);
+    assertRate('range', range[0]);
+    assertFinite('range', range[1]);
+    if (range[0] >= range[1]) {
+        throw new ValidationError('range must be an increasing pair of rates', 'range');
+    }
+    const value = (rate: number) => cashFlows.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, i), 0);
+
+    // scan evenly in log(1 + rate) so the grid is finest around the usual rates
+    const lower = Math.log(1 + range[0]);
+    const step = (Math.log(1 + range[1]) - lower) / steps;
+    const rates: number[] = [];
+    let previous = range[0];
+    let previousValue = value(previous);
+    for (let i = 1; i <= steps; i++) {
+        const rate = Math.exp(lower + i * step) - 1;
+        const current = value(rate);
+        if (previousValue === 0) {
+            rates.push(previous);
+        } else if ((previousValue > 0) !== (current > 0) && current !== 0) {
+            rates.push(brent(value, previous, rate, { tolerance }));
+        }
+        previous = rate;
+        previousValue = current;
+    }
+    if (previousValue === 0) {
+        rates.push(previous);
+    }
+
+    const signChanges = countSignChanges(cashFlows);
+    return { rates, signChanges, multipleRoots: signChanges > 1 };
+}
+
+/**
+ * Modified internal rate of return (MIRR) - the return when negative cash flows are financed at the finance
+ * rate and positive cash flows are reinvested at the reinvestment rate
+ * @param options - cash flows, one per period, finance rate and reinvestment rate
+ * @returns {number} - rate per period
+ * @example mirr({ cashFlows: [-120000, 39000, 30000, 21000, 37000, 46000], financeRate: 0.1, reinvestRate: 0.12 }) // 0.1261
+ */
+export function mirr(options: MirrOptions): number {
+    const { cashFlows } = options;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    return modifiedReturn(options, cashFlows.map((cf, i) => i), 'MIRR');
+}
+
+/**
+ * XNPV - net present value of cash flows on irregular dates
+ * @param options - annual discount rate, cash flows, their dates and the day count convention
+ * @returns {number} - net present value at the first date
+ * @example xnpv({ rate: 0.09, cashFlows: [-10000, 2750, 4250, 3250, 2750], dates }) // 2086.65
+ */
+export function xnpv(options: XnpvOptions): number {
+    const { rate, cashFlows, dates, dayCount } = options;
+    assertRate('rate', rate);
+    assertCashFlows('cashFlows', cashFlows);
+    assertDates('dates', dates, cashFlows.length);
+    return cashFlows.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, yearFraction(dates[0], dates[i], dayCount)), 0);
+}
+
+/**
+ * XMIRR - modified internal rate of return of cash flows on irregular dates
+ * @param options - cash flows, their dates, finance rate, reinvestment rate and the day count convention
+ * @returns {number} - annual rate
+ */
+export function xmirr(options: XmirrOptions): number {
+    const { cashFlows, dates, dayCount } = options;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    assertDates('dates', dates, cashFlows.length);
+    return modifiedReturn(options, dates.map((date) => yearFraction(dates[0], date, dayCount)), 'XMIRR');
+}
+
+/**
+ * Profitability index (PI) - the present value of the cash flows after the first over the initial investment
+ * @param options - discount rate or yield curve, cash flows, number backend and rounding
+ * @returns {number} - profitability index
+ * @example profitabilityIndex({ rate: 0.1, cashFlows: [-40000, 18000, 12000, 10000, 9000, 6000] }) // 1.09
+ */
+export function profitabilityIndex(options: NpvOptions): number {
+    const { cashFlows, rounding = { mode: 'none' } } = options;
+    const m = options.arithmetic || floatArithmetic;
+    const discount = discounter(m, options.rate);
+    assertCashFlows('cashFlows', cashFlows, 2);
+    if (cashFlows[0] === 0) {
+        throw new ValidationError('cashFlows[0], the initial investment, must not be 0', 'cashFlows[0]');
+    }
+    let presentValues = m.from(0);
+    for (let i = 1; i < cashFlows.length; i++) {
+        presentValues = m.add(presentValues, discount(m.from(cashFlows[i]), i));
+    }
+    return m.toNumber(m.round(m.divide(presentValues, m.from(Math.abs(cashFlows[0]))), rounding));
+}
+
+/**
+ * Discount factors (DF) - the present value of 1 paid in each period, from period 0
+ * @param options - discount rate or yield curve, and number of factors
+ * @returns {number[]} - one factor per period
+ * @example discountFactors({ rate: 0.1, periods: 3 }) // [1, 0.9091, 0.8264]
+ */
+export function discountFactors(options: DiscountFactorOptions): number[] {
+    const { rate, periods } = options;
+    if (!(rate instanceof YieldCurve)) {
+        assertRate('rate', rate);
+    }
+    assertInteger('periods', periods, 0);
+    const factors: number[] = [];
+    for (let i = 0; i < periods; i++) {
+        factors.push(rate instanceof YieldCurve ? rate.discountFactor(i) : 1 / Math.pow(1 + rate, i));
+    }
+    return factors;
+}
+
+/**
+ * Payback period (PP) - the number of periods the cash flows take to recover the initial investment
+ * @param options - investment and cash flows, and whether the cash flow after the investment repeats every period
+ * @returns {number | undefined} - payback period, undefined when the investment is never recovered; see payback for the details
+ * @example paybackPeriod({ cashFlows: [-105, 25], even: true }) // 4.2
+ */
+export function paybackPeriod(options: PaybackOptions): number | undefined {
+    const { cashFlows, even = false } = options;
+    assertCashFlows('cashFlows', cashFlows, 2);
+    if (even) {
+        assertPositive('cashFlows[1]', cashFlows[1]);
+        return Math.abs(cashFlows[0]) / cashFlows[1];
+    }
+    return payback({ cashFlows }).fractionalPeriod;
+}
+
+/**
+ * Payback - when the cumulative cash flows recover the initial investment, with the cumulative cash flow of every period.
+ * The recovery period is the first whose cumulative cash flow is at least 0, so a later net outflow is not taken into account.
+ * @param options - investment and cash flows, and whether the cash flow after the investment repeats every period
+ * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative cash flows
+ * @example payback({ cashFlows: [-50, 10, 13, 16, 19, 22] }).fractionalPeriod // 3.58
+ */
+export function payback(options: PaybackOptions): PaybackResult {
+    const { cashFlows, even = false } = options;
+    validateInvestment(cashFlows);
+    if (!even) {
+        return recovery(cashFlows);
+    }
+    assertPositive('cashFlows[1]', cashFlows[1]);
+    const fractionalPeriod = -cashFlows[0] / cashFlows[1];
+    const period = Math.ceil(fractionalPeriod);
+    const cumulative = [cashFlows[0]];
+    for (let i = 1; i <= Math.min(period, EVEN_CUMULATIVE_PERIODS); i++) {
+        cumulative.push(cumulative[i - 1] + cashFlows[1]);
+    }
+    return { recovered: true, period, fractionalPeriod, cumulative };
+}
+
+/**
+ * Discounted payback - payback of the present values of the cash flows, so the time value of money delays recovery
+ * @param options - discount rate or yield curve, investment and cash flows
+ * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative present values
+ * @example discountedPayback({ rate: 0.1, cashFlows: [-100, 50, 50, 50] }).fractionalPeriod // 2.35
+ */
+export function discountedPayback(options: DiscountedPaybackOptions): PaybackResult {
+    const { rate, cashFlows } = options;
+    validateInvestment(cashFlows);
+    const factors = discountFactors({ rate, periods: cashFlows.length });
+    return recovery(cashFlows.map((cf, i) => cf * factors[i]));
+}
+
+/**
+ * Break-even - the units and revenue at which the contribution margin covers the fixed costs
+ * @param options - fixed costs, variable cost per unit and price per unit
+ * @returns {BreakEven} - break-even units and revenue, and the contribution margin per unit and as a fraction of the price
+ * @example breakEven({ fixedCost: 10000, variableCost: 30, price: 50 }).units // 500
+ */
+export function breakEven(options: BreakEvenOptions): BreakEven {
+    const { fixedCost, variableCost, price } = options;
+    assertNonNegative('fixedCost', fixedCost);
+    assertNonNegative('variableCost', variableCost);
+    assertPositive('price', price);
+    const contributionMargin = price - variableCost;
+    if (contributionMargin <= 0) {
+        throw new ValidationError(`price must be above variableCost to break even, got ${price} and ${variableCost}`, 'price');
+    }
+    const units = fixedCost / contributionMargin;
+    return { units, revenue: units * price, contributionMargin, contributionMarginRatio: contributionMargin / price };
+}
+
+/**
+ * Sign changes of a series of cash flows, ignoring zeros
+ * @param cashFlows - cash flows
+ * @returns {number} - number of sign changes
+ * @example countSignChanges([-100, 230, 0, -132]) // 2
+ */
+export function countSignChanges(cashFlows: number[]): number {
+    let changes = 0;
+    let sign = 0;
+    cashFlows.forEach((cf) => {
+        if (cf !== 0) {
+            const current = cf > 0 ? 1 : -1;
+            if (sign !== 0 && current !== sign) {
+                changes++;
+            }
+            sign = current;
+        }
+    });
+    return changes;
+}
+
+// present value of an amount paid in a period, at a flat rate or on a yield curve
+function discounter(m: Arithmetic<unknown>, rate: number | YieldCurve): (amount: unknown, period: number) => unknown {
+    if (rate instanceof YieldCurve) {
+        return (amount, period) => m.multiply(amount, m.from(rate.discountFactor(period)));
+    }
+    assertRate('rate', rate);
+    const onePlusRate = m.add(m.from(1), m.from(rate));
+    return (amount, period) => m.divide(amount, m.pow(onePlusRate, period));
+}
+
+// MIRR over the times of the cash flows in periods or years
+function modifiedReturn(options: MirrOptions, times: number[], method: string): number {
+    const { cashFlows, financeRate, reinvestRate } = options;
+    assertRate('financeRate', financeRate);
+    assertRate('reinvestRate', reinvestRate);
+    assertSignChange('cashFlows', cashFlows, method);
+    const horizon = Math.max(...times);
+    if (horizon <= 0) {
+        throw new ValidationError('dates must span more than one day', 'dates');
+    }
+    let pvNegative = 0;
+    let fvPositive = 0;
+    cashFlows.forEach((cf, i) => {
+        if (cf < 0) {
+            pvNegative += cf / Math.pow(1 + financeRate, times[i]);
+        } else {
+            fvPositive += cf * Math.pow(1 + reinvestRate, horizon - times[i]);
+        }
+    });
+    return Math.pow(fvPositive / -pvNegative, 1 / horizon) - 1;
+}
+
+// cumulative cash flows and the period they first reach 0, interpolating within that period
+function recovery(cashFlows: number[]): PaybackResult {
+    const cumulative: number[] = [];
+    let period: number | undefined;
+    let fractionalPeriod: number | undefined;
+    cashFlows.forEach((cf, i) => {
+        const previous = i === 0 ? 0 : cumulative[i - 1];
+        cumulative.push(previous + cf);
+        if (period === undefined && i > 0 && cumulative[i] >= 0) {
+            period = i;
+            fractionalPeriod = i - 1 - previous / cf;
+        }
+    });
+    return period === undefined ? { recovered: false, cumulative } : { recovered: true, period, fractionalPeriod, cumulative };
+}
+
+function validateInvestment(cashFlows: number[]): void {
+    assertCashFlows('cashFlows', cashFlows, 2);
+    if (cashFlows[0] >= 0) {
+        throw new ValidationError(`cashFlows[0], the initial investment, must be negative, got ${cashFlows[0]}`, 'cashFlows[0]');
+    }
+}
+
+function validateSingleAmount(rate: number, amount: number, periods: number): void {
+    assertRate('rate', rate);
+    assertFinite('amount', amount);
+    assertNonNegative('periods', periods);
+}
@@ -0,0 +1,816 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { Bond } from './bond';
+import { DayCount } from './daycount';
+import { CashFlowError, FinanceError } from './errors';
+import Finance from './finance';
+import { Compounding } from './lending';
+import { BinomialOptions, OptionContract } from './options';
+import { ExternalFlow, Valuation } from './performance';
+import { RateUnit } from './rates';
+import { FinancialStatements } from './ratios';
+import { PaymentTiming } from './tvm';
+
+/**
+ * Command line interface - runs a Finance method per subcommand, e.g. `financejs NPV 10 -500000 200000 300000`.
+ * Cash flows come from the arguments or from CSV or JSON on stdin, and results are written as a table, CSV or JSON.
+ * Stdin is only read when a command has no input in its arguments, or when it is asked for with - or --input -.
+ */
+
+export type OutputFormat = 'table' | 'csv' | 'json';
+
+export interface CliResult {
+    /** 0 - success, 1 - the calculation failed, 2 - the command line is invalid */
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+interface Invocation {
+    /** arguments after the command that aren't flags */
+    args: string[];
+    /** flags by camel case name, e.g. --day-count becomes dayCount */
+    flags: { [name: string]: string };
+    /** standard input, read on the first call */
+    stdin(): string;
+}
+
+interface Command {
+    usage: string;
+    description: string;
+    run(finance: Finance, invocation: Invocation): unknown;
+}
+
+interface Row {
+    [key: string]: unknown;
+}
+
+interface DatedFlows {
+    cashFlows: number[];
+    dates: Date[];
+}
+
+/**
+ * Thrown for an unknown command, a missing argument or input that can't be parsed
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'UsageError';
+    }
+}
+
+// flags read by run itself rather than by the commands
+const GLOBAL_FLAGS = ['format', 'rateUnit', 'decimals', 'help', 'input'];
+
+// flags that never take the next argument as their value, so --even -100 30 keeps -100 as a cash flow
+const BOOLEAN_FLAGS = ['even', 'payAtBeginning', 'help'];
+
+const RATE_UNITS: RateUnit[] = ['percent', 'decimal', 'bps'];
+const DAY_COUNTS: DayCount[] = ['ACT/365F', 'ACT/360', 'ACT/ACT ISDA', '30/360 US', '30E/360'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const COMMANDS: { [name: string]: Command } = {
+    PV: numeric('<rate> <cf1> [numOfPeriod]', 'present value of a cash flow', (f, [rate, cf1, n]) => f.PV(rate, cf1, n)),
+    FV: numeric('<rate> <cf0> [numOfPeriod]', 'future value of a cash flow', (f, [rate, cf0, n]) => f.FV(rate, cf0, n)),
+    NPV: {
+        usage: '<rate> [cashFlows...]',
+        description: 'net present value of cash flows at regular periods',
+        run: (f, input) => f.NPV(numberArg(input, 0, 'rate'), ...cashFlows(input, 1)),
+    },
+    IRR: {
+        usage: '[cashFlows...] [--depth 100]',
+        description: 'internal rate of return',
+        run: (f, input) => f.IRR({ depth: numberFlag(input, 'depth', 100), cashFlow: cashFlows(input, 0) }),
+    },
+    allIRR: {
+        usage: '[cashFlows...]',
+        description: 'every internal rate of return of non-conventional cash flows',
+        run: (f, input) => f.allIRR(cashFlows(input, 0)),
+    },
+    MIRR: {
+        usage: '<financeRate> <reinvestRate> [cashFlows...]',
+        description: 'modified internal rate of return',
+        run: (f, input) => f.MIRR(cashFlows(input, 2), numberArg(input, 0, 'financeRate'), numberArg(input, 1, 'reinvestRate')),
+    },
+    PP: {
+        usage: '<numOfPeriods> [cashFlows...]',
+        description: 'payback period, numOfPeriods 0 for even cash flows',
+        run: (f, input) => {
+            const period = f.PP(numberArg(input, 0, 'numOfPeriods'), ...cashFlows(input, 1));
+            if (period === undefined) {
+                throw new CashFlowError('not recovered, the cash flows never pay back the initial investment');
+            }
+            return period;
+        },
+    },
+    payback: {
+        usage: '[cashFlows...] [--even]',
+        description: 'payback period with the cumulative cash flows, --even when cashFlows[1] repeats every period',
+        run: (f, input) => f.payback(cashFlows(input, 0), input.flags.even !== undefined && input.flags.even !== 'false'),
+    },
+    discountedPayback: {
+        usage: '<rate> [cashFlows...]',
+        description: 'payback period of the present values of cash flows',
+        run: (f, input) => f.discountedPayback(numberArg(input, 0, 'rate'), cashFlows(input, 1)),
+    },
+    breakEven: numeric(
+        '<fixedCost> <variableCost> <price>', 'break-even units and revenue',
+        (f, [fixedCost, variableCost, price]) => f.breakEven(fixedCost, variableCost, price),
+    ),
+    ROI: numeric('<cf0> <earnings>', 'return on investment', (f, [cf0, earnings]) => f.ROI(cf0, earnings)),
+    AM: numeric(
+        '<principal> <rate> <period> [yearOrMonth] [payAtBeginning]', 'monthly payment of a loan',
+        (f, [principal, rate, period, yearOrMonth, payAtBeginning]) => f.AM(principal, rate, period, yearOrMonth, flag(payAtBeginning)),
+    ),
+    amortizationSchedule: {
+        usage: '--principal <n> --rate <r> --num-of-payments <n> [--frequency monthly] [--start-date <date>] [--pay-at-beginning]',
+        description: 'every payment of a level payment loan',
+        run: (f, input) => f.amortizationSchedule(options(input)),
+    },
+    modelLoan: {
+        usage: '--principal <n> --rate <r> --num-of-payments <n> [--input -], events as JSON on stdin',
+        description: 'loan schedule with prepayments, rate changes, holidays and balloons',
+        run: (f, input) => f.modelLoan(options(input)),
+    },
+    PI: {
+        usage: '<rate> [cashFlows...]',
+        description: 'profitability index',
+        run: (f, input) => f.PI(numberArg(input, 0, 'rate'), cashFlows(input, 1)),
+    },
+    DF: numeric('<rate> <numOfPeriods>', 'discount factors', (f, [rate, n]) => f.DF(rate, n)),
+    CI: numeric(
+        '<rate> <numOfCompoundings> <principal> <numOfPeriods>', 'principal with compound interest',
+        (f, [rate, compoundings, principal, n]) => f.CI(rate, compoundings, principal, n),
+    ),
+    CAGR: numeric('<beginningValue> <endingValue> <numOfPeriods>', 'compound annual growth rate', (f, [b, e, n]) => f.CAGR(b, e, n)),
+    LR: numeric('<totalLiabilities> <totalDebts> <totalIncome>', 'leverage ratio', (f, [l, d, i]) => f.LR(l, d, i)),
+    R72: numeric('<rate>', 'rule of 72', (f, [rate]) => f.R72(rate)),
+    WACC: numeric(
+        '<marketValueOfEquity> <marketValueOfDebt> <costOfEquity> <costOfDebt> <taxRate>', 'weighted average cost of capital',
+        (f, [e, d, re, rd, t]) => f.WACC(e, d, re, rd, t),
+    ),
+    PMT: numeric('<rate> <numOfPayments> <principal>', 'monthly loan payment', (f, [rate, n, principal]) => f.PMT(rate, n, principal)),
+    IAR: numeric('<investmentReturn> <inflationRate>', 'inflation-adjusted return', (f, [r, i]) => f.IAR(r, i)),
+    APR: numeric(
+        '<principal> <rate> <numOfPayments> [fees]', 'annual percentage rate of a loan with fees',
+        (f, [principal, rate, n, fees]) => f.APR(principal, rate, n, fees),
+    ),
+    APY: {
+        usage: '<rate> <compoundings|continuous>',
+        description: 'annual percentage yield of a nominal rate',
+        run: (f, input) => f.APY(numberArg(input, 0, 'rate'), compounding(input, 1, 'compoundings')),
+    },
+    convertCompounding: {
+        usage: '<rate> <from> <to>, compoundings per year or continuous',
+        description: 'nominal rate at another compounding',
+        run: (f, input) => f.convertCompounding(numberArg(input, 0, 'rate'), compounding(input, 1, 'from'), compounding(input, 2, 'to')),
+    },
+    compareLoans: {
+        usage: '--discount-rate <r>, offers as a JSON array on stdin',
+        description: 'total cost and present value of cost of loan offers',
+        run: (f, input) => {
+            const offers = input.stdin().trim() ? parseJson(input.stdin().trim()) : undefined;
+            if (!Array.isArray(offers)) {
+                throw new UsageError('loan offers must be a JSON array on stdin');
+            }
+            return f.compareLoans(offers, toNumber(requireOption(input.flags.discountRate, 'discountRate'), '--discount-rate'));
+        },
+    },
+    refinanceBreakEven: {
+        usage: '--balance <n> --current-rate <r> --remaining-payments <n> --new-rate <r> [--new-num-of-payments <n>] --closing-costs <n>',
+        description: 'month the savings of a refinance cover its closing costs',
+        run: (f, input) => f.refinanceBreakEven(options(input)),
+    },
+    affordability: {
+        usage: '--monthly-income <n> --target-dti <r> [--other-debt-payments <n>] --rate <r> --num-of-payments <n>',
+        description: 'largest loan within a debt-to-income ratio',
+        run: (f, input) => f.affordability(options(input)),
+    },
+    DTI: numeric('<monthlyDebtPayments> <monthlyIncome>', 'debt-to-income ratio', (f, [debts, income]) => f.DTI(debts, income)),
+    analyzeRatios: {
+        usage: '[--days-in-period 365] [--input -], { income, balance, cashFlow, openingBalance } as JSON on stdin',
+        description: 'liquidity, leverage, coverage, efficiency and profitability ratios with DuPont',
+        run: (f, input) => {
+            const { daysInPeriod, ...statements } = options<FinancialStatements & { daysInPeriod?: number }>(input);
+            return f.analyzeRatios(statements, { daysInPeriod });
+        },
+    },
+    statementGrowth: {
+        usage: 'financial statements of consecutive periods as a JSON array on stdin',
+        description: 'period-over-period growth and CAGR of statement metrics',
+        run: (f, input) => {
+            const statements = input.stdin().trim() ? parseJson(input.stdin().trim()) : undefined;
+            if (!Array.isArray(statements)) {
+                throw new UsageError('financial statements must be a JSON array on stdin');
+            }
+            return f.statementGrowth(statements);
+        },
+    },
+    XNPV: {
+        usage: '<rate> [date:amount...] [--day-count ACT/365F]',
+        description: 'net present value of cash flows on irregular dates',
+        run: (f, input) => {
+            const { cashFlows: values, dates } = datedFlows(input, 1);
+            return f.XNPV(numberArg(input, 0, 'rate'), values, dates, dayCount(input));
+        },
+    },
+    XIRR: {
+        usage: '[date:amount...] [--guess 0] [--day-count ACT/365F]',
+        description: 'internal rate of return of cash flows on irregular dates',
+        run: (f, input) => {
+            const { cashFlows: values, dates } = datedFlows(input, 0);
+            return f.XIRR(values, dates, numberFlag(input, 'guess', 0), { dayCount: dayCount(input) });
+        },
+    },
+    XMIRR: {
+        usage: '<financeRate> <reinvestRate> [date:amount...] [--day-count ACT/365F]',
+        description: 'modified internal rate of return of cash flows on irregular dates',
+        run: (f, input) => {
+            const { cashFlows: values, dates } = datedFlows(input, 2);
+            return f.XMIRR(values, dates, numberArg(input, 0, 'financeRate'), numberArg(input, 1, 'reinvestRate'), dayCount(input));
+        },
+    },
+    TWR: {
+        usage: '{ valuations, flows } as JSON on stdin, or date,value CSV [--day-count ACT/365F]',
+        description: 'time-weighted return',
+        run: (f, input) => {
+            const { valuations, flows } = portfolio(input);
+            return f.TWR(valuations, flows, dayCount(input));
+        },
+    },
+    MWR: {
+        usage: '{ valuations, flows } as JSON on stdin, or date,value CSV [--day-count ACT/365F]',
+        description: 'money-weighted return',
+        run: (f, input) => {
+            const { valuations, flows } = portfolio(input);
+            return f.MWR(valuations, flows, { dayCount: dayCount(input) });
+        },
+    },
+    CAPM: numeric('<rf> <beta> <emr> <err>', 'expected return of an asset', (f, [rf, beta, emr, err]) => f.CAPM(rf, beta, emr, err)),
+    stockPV: numeric('<g> <ke> <D0>', 'value of a stock with constant dividend growth', (f, [g, ke, d0]) => f.stockPV(g, ke, d0)),
+    twoStageDDM: {
+        usage: '--dividend <d> --high-growth <g> --high-growth-years <n> --stable-growth <g> --cost-of-equity <r>',
+        description: 'two-stage dividend discount model',
+        run: (f, input) => f.twoStageDDM(options(input)),
+    },
+    threeStageDDM: {
+        usage: '--dividend <d> --high-growth <g> --high-growth-years <n> --transition-years <n> --stable-growth <g> --cost-of-equity <r>',
+        description: 'three-stage dividend discount model',
+        run: (f, input) => f.threeStageDDM(options(input)),
+    },
+    hModel: {
+        usage: '--dividend <d> --initial-growth <g> --stable-growth <g> --half-life <n> --cost-of-equity <r>',
+        description: 'H-model dividend discount',
+        run: (f, input) => f.hModel(options(input)),
+    },
+    DCF: {
+        usage: 'DCF options as JSON on stdin',
+        description: 'discounted cash flow valuation',
+        run: (f, input) => f.DCF(options(input)),
+    },
+    RATE: numeric(
+        '<numOfPeriods> <payment> <presentValue> [futureValue] [type] [guess]', 'rate per period of an annuity',
+        (f, [n, payment, pv, fv, type, guess]) => f.RATE(n, payment, pv, fv, timing(type), guess),
+    ),
+    NPER: numeric(
+        '<ratePerPeriod> <payment> <presentValue> [futureValue] [type]', 'number of periods of an annuity',
+        (f, [rate, payment, pv, fv, type]) => f.NPER(rate, payment, pv, fv, timing(type)),
+    ),
+    IPMT: numeric(
+        '<ratePerPeriod> <per> <numOfPeriods> <presentValue> [futureValue] [type]', 'interest part of a payment',
+        (f, [rate, per, n, pv, fv, type]) => f.IPMT(rate, per, n, pv, fv, timing(type)),
+    ),
+    PPMT: numeric(
+        '<ratePerPeriod> <per> <numOfPeriods> <presentValue> [futureValue] [type]', 'principal part of a payment',
+        (f, [rate, per, n, pv, fv, type]) => f.PPMT(rate, per, n, pv, fv, timing(type)),
+    ),
+    CUMIPMT: numeric(
+        '<ratePerPeriod> <numOfPeriods> <presentValue> <startPeriod> <endPeriod> <type>', 'interest paid between two periods',
+        (f, [rate, n, pv, start, end, type]) => f.CUMIPMT(rate, n, pv, start, end, type as PaymentTiming),
+    ),
+    CUMPRINC: numeric(
+        '<ratePerPeriod> <numOfPeriods> <presentValue> <startPeriod> <endPeriod> <type>', 'principal repaid between two periods',
+        (f, [rate, n, pv, start, end, type]) => f.CUMPRINC(rate, n, pv, start, end, type as PaymentTiming),
+    ),
+    EFFECT: numeric('<nominalRate> <npery>', 'effective annual rate', (f, [rate, npery]) => f.EFFECT(rate, npery)),
+    NOMINAL: numeric('<effectRate> <npery>', 'nominal annual rate', (f, [rate, npery]) => f.NOMINAL(rate, npery)),
+    SLN: numeric('<cost> <salvage> <life>', 'straight-line depreciation', (f, [cost, salvage, life]) => f.SLN(cost, salvage, life)),
+    SYD: numeric(
+        '<cost> <salvage> <life> <period>', "sum-of-years' digits depreciation",
+        (f, [cost, salvage, life, period]) => f.SYD(cost, salvage, life, period),
+    ),
+    DB: numeric(
+        '<cost> <salvage> <life> <period> [month]', 'fixed-declining balance depreciation',
+        (f, [cost, salvage, life, period, month]) => f.DB(cost, salvage, life, period, month),
+    ),
+    DDB: numeric(
+        '<cost> <salvage> <life> <period> [factor]', 'double-declining balance depreciation',
+        (f, [cost, salvage, life, period, factor]) => f.DDB(cost, salvage, life, period, factor),
+    ),
+    VDB: numeric(
+        '<cost> <salvage> <life> <startPeriod> <endPeriod> [factor] [noSwitch]', 'variable declining balance depreciation',
+        (f, [cost, salvage, life, start, end, factor, noSwitch]) => f.VDB(cost, salvage, life, start, end, factor, flag(noSwitch)),
+    ),
+    MACRS: numeric(
+        '<cost> <recoveryPeriod> <year>', 'MACRS depreciation',
+        (f, [cost, recoveryPeriod, year]) => f.MACRS(cost, recoveryPeriod as 3 | 5 | 7 | 10 | 15 | 20, year),
+    ),
+    depreciationSchedule: {
+        usage: '--method <method> --cost <n> --salvage <n> --life <n>',
+        description: 'depreciation of every period of an asset',
+        run: (f, input) => f.depreciationSchedule(options(input)),
+    },
+    bondAnalytics: {
+        usage: '--settlement <date> --maturity <date> --coupon-rate <r> --yield-rate <y>',
+        description: 'bond prices, accrued interest, duration, convexity and DV01',
+        run: (f, input) => {
+            const { yieldRate, ...bond } = options<Bond & { yieldRate?: number }>(input);
+            return f.bondAnalytics(bond, requireOption(yieldRate, 'yieldRate'));
+        },
+    },
+    YTM: {
+        usage: '--settlement <date> --maturity <date> --coupon-rate <r> --price <p>',
+        description: 'yield to maturity of a bond',
+        run: (f, input) => {
+            const { price, ...bond } = options<Bond & { price?: number }>(input);
+            return f.YTM(bond, requireOption(price, 'price'));
+        },
+    },
+    YTC: {
+        usage: '--settlement <date> --maturity <date> --coupon-rate <r> --price <p> --call-date <date> --call-price <p>',
+        description: 'yield to call of a bond',
+        run: (f, input) => {
+            const { price, callDate, callPrice, ...bond } = options<Bond & { price?: number, callDate?: Date, callPrice?: number }>(input);
+            return f.YTC(bond, requireOption(price, 'price'), { date: requireOption(callDate, 'callDate'), price: requireOption(callPrice, 'callPrice') });
+        },
+    },
+    blackScholes: {
+        usage: '--type call --spot <s> --strike <k> --expiry <years> --risk-free <r> --volatility <v> [--dividend-yield <q>]',
+        description: 'Black-Scholes-Merton price and Greeks',
+        run: (f, input) => f.blackScholes(options(input)),
+    },
+    impliedVolatility: {
+        usage: '--type call --spot <s> --strike <k> --expiry <years> --risk-free <r> --price <p>',
+        description: 'implied volatility of an option price',
+        run: (f, input) => {
+            const { price, ...contract } = options<OptionContract & { price?: number }>(input);
+            return f.impliedVolatility(contract, requireOption(price, 'price'));
+        },
+    },
+    binomialPrice: {
+        usage: '--type put --spot <s> --strike <k> --expiry <years> --risk-free <r> --volatility <v> [--steps 200] [--exercise american]',
+        description: 'binomial tree price of an American or European option',
+        run: (f, input) => {
+            const { steps, exercise, ...contract } = options<OptionContract & BinomialOptions>(input);
+            return f.binomialPrice(contract, { steps, exercise });
+        },
+    },
+};
+
+/**
+ * Runs a command line, without touching the process, so it can be embedded and tested
+ * @param argv - arguments after the program name, e.g. ['NPV', '10', '-100', '60', '60']
+ * @param stdin - standard input, or a function reading it, called only when a command needs it
+ * @returns {CliResult} - exit code and the text for stdout and stderr
+ * @example run(['NPV', '10', '-100', '60', '60']).stdout // '4.13\n'
+ */
+export function run(argv: string[], stdin: string | (() => string) = ''): CliResult {
+    try {
+        const [name, ...rest] = argv;
+        const invocation = parse(rest, stdin);
+        if (name === undefined || name === '--help' || name === 'help') {
+            return { code: name === undefined ? 2 : 0, stdout: name === undefined ? '' : help(), stderr: name === undefined ? help() : '' };
+        }
+        const command = findCommand(name);
+        if (invocation.flags.help !== undefined) {
+            return { code: 0, stdout: `Usage: financejs ${commandName(name)} ${command.usage}\n`, stderr: '' };
+        }
+        const format = outputFormat(invocation.flags.format);
+        const finance = new Finance({
+            rateUnit: choice(invocation.flags.rateUnit, RATE_UNITS, 'rate-unit'),
+            rounding: invocation.flags.decimals === undefined ? undefined : { decimals: numberFlag(invocation, 'decimals', 2) },
+        });
+        return { code: 0, stdout: render(command.run(finance, invocation), format), stderr: '' };
+    } catch (error) {
+        if (error instanceof UsageError) {
+            return { code: 2, stdout: '', stderr: `financejs: ${error.message}\nRun financejs --help for the commands.\n` };
+        }
+        if (error instanceof FinanceError) {
+            return { code: 1, stdout: '', stderr: `financejs: ${error.message}\n` };
+        }
+        return { code: 1, stdout: '', stderr: `financejs: ${error instanceof Error ? error.message : String(error)}\n` };
+    }
+}
+
+/**
+ * Writes a result as an aligned table, CSV or JSON. Objects are flattened to dotted keys and lists of rows
+ * become tables with a column per field.
+ * @param value - result of a command
+ * @param format - table, csv or json
+ * @returns {string} - text ending with a newline
+ */
+export function render(value: unknown, format: OutputFormat = 'table'): string {
+    if (format === 'json') {
+        return `${JSON.stringify(value === undefined ? null : value, null, 2)}\n`;
+    }
+    const sections: string[][][] = [];
+    if (isRowList(value)) {
+        sections.push(rowsToCells(value));
+    } else if (Array.isArray(value)) {
+        sections.push(value.map((item) => [cell(item)]));
+    } else if (isObject(value)) {
+        const pairs: string[][] = [];
+        flatten(value, '', pairs, sections);
+        sections.unshift(pairs);
+    } else {
+        sections.push([[cell(value)]]);
+    }
+    const write = format === 'csv' ? toCsv : toTable;
+    return sections.filter((section) => section.length > 0).map(write).join('\n');
+}
+
+/**
+ * Parses cash flows from CSV or JSON: a JSON array of numbers or of { date, amount }, a JSON object with
+ * cashFlows and optional dates, or CSV with an amount per line, or a date and an amount. A header line is skipped.
+ * @param text - CSV or JSON
+ * @returns {{ cashFlows: number[], dates?: Date[] }} - cash flows, and their dates when given
+ * @example parseCashFlows('date,amount\n2023-01-01,-100\n2024-01-01,110').cashFlows // [-100, 110]
+ */
+export function parseCashFlows(text: string): { cashFlows: number[], dates?: Date[] } {
+    const trimmed = text.trim();
+    if (trimmed.charAt(0) === '[' || trimmed.charAt(0) === '{') {
+        const json = parseJson(trimmed);
+        const items: unknown[] = Array.isArray(json) ? json : [];
+        if (!Array.isArray(json)) {
+            const { cashFlows: values, dates } = json as { cashFlows?: unknown, dates?: unknown };
+            if (!Array.isArray(values)) {
+                throw new UsageError('JSON input must be an array of cash flows or an object with a cashFlows array');
+            }
+            return {
+                cashFlows: values.map((v, i) => toNumber(v, `cashFlows[${i}]`)),
+                dates: Array.isArray(dates) ? dates.map((d, i) => toDate(d, `dates[${i}]`)) : undefined,
+            };
+        }
+        if (items.every((item) => typeof item === 'number' || typeof item === 'string')) {
+            return { cashFlows: items.map((v, i) => toNumber(v, `cashFlows[${i}]`)) };
+        }
+        return {
+            cashFlows: items.map((item, i) => toNumber(isObject(item) ? item.amount : undefined, `[${i}].amount`)),
+            dates: items.map((item, i) => toDate(isObject(item) ? item.date : undefined, `[${i}].date`)),
+        };
+    }
+    const rows = parseCsv(trimmed);
+    if (rows.some((row) => row.length !== rows[0].length) || rows[0].length > 2) {
+        throw new UsageError('CSV input must have one column of amounts, or two columns of dates and amounts');
+    }
+    const amounts = rows.map((row, i) => toNumber(row[row.length - 1], `line ${i + 1}`));
+    return rows[0].length === 2 ? { cashFlows: amounts, dates: rows.map((row, i) => toDate(row[0], `line ${i + 1}`)) } : { cashFlows: amounts };
+}
+
+function numeric(usage: string, description: string, call: (finance: Finance, values: number[]) => unknown): Command {
+    const names = usage.split(' ');
+    const minimum = names.filter((name) => name.charAt(0) === '<').length;
+    return {
+        usage,
+        description,
+        run: (finance, input) => {
+            if (input.args.length < minimum || input.args.length > names.length) {
+                throw new UsageError(`expected ${usage}, got ${input.args.length} argument${input.args.length === 1 ? '' : 's'}`);
+            }
+            return call(finance, input.args.map((arg, i) => toNumber(arg, names[i].replace(/[<>\[\]]/g, ''))));
+        },
+    };
+}
+
+function parse(argv: string[], stdin: string | (() => string)): Invocation {
+    const args: string[] = [];
+    const flags: { [name: string]: string } = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg.slice(0, 2) !== '--') {
+            args.push(arg);
+            continue;
+        }
+        const equals = arg.indexOf('=');
+        const name = camelCase(arg.slice(2, equals < 0 ? undefined : equals));
+        if (equals >= 0) {
+            flags[name] = arg.slice(equals + 1);
+        } else if (i + 1 < argv.length && argv[i + 1].slice(0, 2) !== '--' && BOOLEAN_FLAGS.indexOf(name) < 0) {
+            flags[name] = argv[++i];
+        } else {
+            flags[name] = 'true';
+        }
+    }
+    let text: string | undefined;
+    const read = () => {
+        if (text === undefined) {
+            text = typeof stdin === 'string' ? stdin : stdin();
+        }
+        return text;
+    };
+    return { args, flags, stdin: read };
+}
+
+function findCommand(name: string): Command {
+    const key = commandName(name);
+    if (!COMMANDS[key]) {
+        throw new UsageError(`unknown command ${name}`);
+    }
+    return COMMANDS[key];
+}
+
+// commands are matched case-insensitively, npv runs NPV
+function commandName(name: string): string {
+    const names = Object.keys(COMMANDS);
+    return names.filter((key) => key === name)[0] || names.filter((key) => key.toLowerCase() === name.toLowerCase())[0] || name;
+}
+
+function help(): string {
+    const names = Object.keys(COMMANDS);
+    const width = Math.max(...names.map((name) => name.length));
+    return [
+        'Usage: financejs <command> [arguments] [--format table|csv|json] [--rate-unit percent|decimal|bps] [--decimals <n>]',
+        '',
+        'Cash flows are read from the arguments, or from CSV or JSON on stdin when there are none or - is given.',
+        'Run financejs <command> --help for its arguments.',
+        '',
+        'Commands:',
+        ...names.map((name) => `  ${pad(name, width)}  ${COMMANDS[name].description}`),
+        '',
+    ].join('\n');
+}
+
+function outputFormat(format: string = 'table'): OutputFormat {
+    if (format !== 'table' && format !== 'csv' && format !== 'json') {
+        throw new UsageError(`unknown format ${format}, expected table, csv or json`);
+    }
+    return format;
+}
+
+// value of a flag limited to a list, undefined when the flag isn't given
+function choice<T extends string>(value: string | undefined, allowed: T[], name: string): T | undefined {
+    if (value !== undefined && allowed.indexOf(value as T) < 0) {
+        throw new UsageError(`unknown --${name} ${value}, expected ${allowed.join(', ')}`);
+    }
+    return value as T | undefined;
+}
+
+function numberArg(input: Invocation, index: number, name: string): number {
+    if (index >= input.args.length) {
+        throw new UsageError(`missing ${name}`);
+    }
+    return toNumber(input.args[index], name);
+}
+
+function numberFlag(input: Invocation, name: string, fallback: number): number {
+    return input.flags[name] === undefined ? fallback : toNumber(input.flags[name], `--${name}`);
+}
+
+function compounding(input: Invocation, index: number, name: string): Compounding {
+    return input.args[index] === 'continuous' ? 'continuous' : numberArg(input, index, name);
+}
+
+function dayCount(input: Invocation): DayCount | undefined {
+    return choice(input.flags.dayCount, DAY_COUNTS, 'day-count');
+}
+
+// true when the input after an index comes from stdin: there are no arguments there, or - or --input - asks for it
+function fromStdin(input: Invocation, from: number): boolean {
+    const rest = input.args.slice(from);
+    return rest.length === 0 || (rest.length === 1 && rest[0] === '-') || input.flags.input === '-';
+}
+
+// cash flows from the arguments from an index, or from stdin when there are none
+function cashFlows(input: Invocation, from: number): number[] {
+    if (!fromStdin(input, from)) {
+        return input.args.slice(from).map((arg, i) => toNumber(arg, `cash flow ${i + 1}`));
+    }
+    return stdinFlows(input).cashFlows;
+}
+
+// date:amount arguments from an index, or dated cash flows from stdin
+function datedFlows(input: Invocation, from: number): DatedFlows {
+    if (!fromStdin(input, from)) {
+        const pairs = input.args.slice(from).map((arg) => {
+            // the amount follows the last colon, the date before it may hold a time
+            const separator = arg.lastIndexOf(':');
+            if (separator < 0) {
+                throw new UsageError(`expected date:amount, got ${arg}`);
+            }
+            return { date: toDate(arg.slice(0, separator), arg), amount: toNumber(arg.slice(separator + 1), arg) };
+        });
+        return { cashFlows: pairs.map((pair) => pair.amount), dates: pairs.map((pair) => pair.date) };
+    }
+    const { cashFlows: values, dates } = stdinFlows(input);
+    if (!dates) {
+        throw new UsageError('dated cash flows need a date for every amount, e.g. date,amount CSV');
+    }
+    return { cashFlows: values, dates };
+}
+
+function stdinFlows(input: Invocation): { cashFlows: number[], dates?: Date[] } {
+    if (!input.stdin().trim()) {
+        throw new UsageError('no cash flows, pass them as arguments or pipe CSV or JSON to stdin');
+    }
+    return parseCashFlows(input.stdin());
+}
+
+// valuations and flows of a portfolio, from JSON, or valuations alone from date,value CSV
+function portfolio(input: Invocation): { valuations: Valuation[], flows: ExternalFlow[] } {
+    const text = input.stdin().trim();
+    if (text.charAt(0) === '{') {
+        const { valuations, flows = [] } = revive(parseJson(text)) as { valuations?: unknown, flows?: unknown };
+        if (!Array.isArray(valuations) || !Array.isArray(flows)) {
+            throw new UsageError('JSON input must have a valuations array and an optional flows array');
+        }
+        return { valuations: valuations as Valuation[], flows: flows as ExternalFlow[] };
+    }
+    const { cashFlows: values, dates } = stdinFlows(input);
+    if (!dates) {
+        throw new UsageError('valuations need a date for every value, e.g. date,value CSV');
+    }
+    return { valuations: values.map((value, i) => ({ date: dates[i], value })), flows: [] };
+}
+
+// options object from JSON on stdin, overridden by flags; stdin is read when no option is given as a flag, or
+// with --input -. The Finance methods validate the fields.
+function options<T>(input: Invocation): T {
+    const names = Object.keys(input.flags).filter((name) => GLOBAL_FLAGS.indexOf(name) < 0);
+    const text = names.length === 0 || input.args.indexOf('-') >= 0 || input.flags.input === '-' ? input.stdin().trim() : '';
+    const base = text ? revive(parseJson(text)) : {};
+    if (!isObject(base)) {
+        throw new UsageError('JSON input must be an object of options');
+    }
+    const result: { [name: string]: unknown } = { ...base };
+    names.forEach((name) => result[name] = parseValue(input.flags[name]));
+    return result as T;
+}
+
+function requireOption<T>(value: T | undefined, name: string): T {
+    if (value === undefined) {
+        throw new UsageError(`missing --${kebabCase(name)}`);
+    }
+    return value;
+}
+
+function flag(value: number | undefined): boolean | undefined {
+    return value === undefined ? undefined : value !== 0;
+}
+
+function timing(value: number | undefined): PaymentTiming | undefined {
+    return value as PaymentTiming | undefined;
+}
+
+function parseValue(text: string): unknown {
+    if (text === 'true' || text === 'false') {
+        return text === 'true';
+    }
+    if (text.trim() !== '' && !isNaN(Number(text))) {
+        return Number(text);
+    }
+    if (ISO_DATE.test(text)) {
+        return new Date(text);
+    }
+    if (text.charAt(0) === '[' || text.charAt(0) === '{') {
+        return revive(parseJson(text));
+    }
+    return text;
+}
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new UsageError(`invalid JSON input: ${(error as Error).message}`);
+    }
+}
+
+// turns ISO date strings anywhere in parsed JSON into dates
+function revive(value: unknown): unknown {
+    if (typeof value === 'string' && ISO_DATE.test(value)) {
+        return new Date(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(revive);
+    }
+    if (isObject(value)) {
+        const result: { [key: string]: unknown } = {};
+        Object.keys(value).forEach((key) => result[key] = revive(value[key]));
+        return result;
+    }
+    return value;
+}
+
+function parseCsv(text: string): string[][] {
+    const rows = text.split(/\r?\n/).filter((line) => line.trim() !== '').map((line) => line.split(',').map((field) => field.trim()));
+    // a header names the columns instead of holding an amount
+    if (rows.length > 0 && isNaN(Number(rows[0][rows[0].length - 1]))) {
+        rows.shift();
+    }
+    if (rows.length === 0) {
+        throw new UsageError('CSV input has no rows');
+    }
+    return rows;
+}
+
+function toNumber(value: unknown, name: string): number {
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (!isFinite(parsed)) {
+        throw new UsageError(`${name} must be a number, got ${value === undefined ? 'nothing' : String(value)}`);
+    }
+    return parsed;
+}
+
+function toDate(value: unknown, name: string): Date {
+    const date = value instanceof Date ? value : typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+        throw new UsageError(`${name} must be a date like 2023-01-31, got ${value === undefined ? 'nothing' : String(value)}`);
+    }
+    return date;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isRowList(value: unknown): value is Row[] {
+    return Array.isArray(value) && value.length > 0 && value.every(isObject);
+}
+
+// scalar fields become key/value pairs under dotted keys; lists of rows become sections of their own
+function flatten(value: { [key: string]: unknown }, prefix: string, pairs: string[][], sections: string[][][]): void {
+    Object.keys(value).forEach((key) => {
+        const field = value[key];
+        const name = prefix + key;
+        if (isRowList(field)) {
+            sections.push(rowsToCells(field));
+        } else if (isObject(field)) {
+            flatten(field, `${name}.`, pairs, sections);
+        } else {
+            pairs.push([name, Array.isArray(field) ? field.map(cell).join(' ') : cell(field)]);
+        }
+    });
+}
+
+function rowsToCells(rows: Row[]): string[][] {
+    const columns: string[] = [];
+    rows.forEach((row) => Object.keys(row).forEach((key) => {
+        if (columns.indexOf(key) < 0) {
+            columns.push(key);
+        }
+    }));
+    return [columns, ...rows.map((row) => columns.map((column) => cell(row[column])))];
+}
+
+function cell(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return value.toISOString().slice(0, 10);
+    }
+    return isObject(value) || Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+function toCsv(rows: string[][]): string {
+    const quote = (field: string) => /[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+    return rows.map((row) => row.map(quote).join(',')).join('\n') + '\n';
+}
+
+function toTable(rows: string[][]): string {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => (row[column] || '').length)));
+    const isNumber = (field: string) => field !== '' && !isNaN(Number(field));
+    return rows.map((row) => row.map((field, column) => isNumber(field) ? padStart(field, widths[column]) : pad(field, widths[column]))
+        .join('  ').replace(/\s+$/, '')).join('\n') + '\n';
+}
+
+function pad(text: string, width: number): string {
+    return text + new Array(Math.max(width - text.length, 0) + 1).join(' ');
+}
+
+function padStart(text: string, width: number): string {
+    return new Array(Math.max(width - text.length, 0) + 1).join(' ') + text;
+}
+
+function camelCase(name: string): string {
+    return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function kebabCase(name: string): string {
+    return name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+// reads stdin to its end, only called when a command needs it so piped but unused input doesn't block
+function readStdin(): string {
+    return process.stdin.isTTY ? '' : fs.readFileSync(0, 'utf8');
+}
+
+if (typeof require !== 'undefined' && require.main === module) {
+    const result = run(process.argv.slice(2), readStdin);
+    process.stdout.write(result.stdout);
+    process.stderr.write(result.stderr);
+    process.exitCode = result.code;
+}
@@ -0,0 +1,270 @@
+import { ConvergenceError, ValidationError } from './errors';
+import { findRoot } from './solver';
+import { assertFinite, assertNonNegative, assertPositive, assertRate } from './validation';
+
+/**
+ * linear - linear on zero rates, log-linear - linear on the log of discount factors (constant forward rates
+ * between pillars), cubic-spline - natural cubic spline on zero rates
+ */
+export type Interpolation = 'linear' | 'log-linear' | 'cubic-spline';
+
+export interface CurvePoint {
+    /** time from today in years */
+    time: number;
+    /** zero rate or par yield as a fraction, or discount factor, depending on how the curve is built */
+    value: number;
+}
+
+export interface CurveOptions {
+    /** defaults to linear */
+    interpolation?: Interpolation;
+    /** coupons per year of the par instruments, defaults to 1 */
+    frequency?: number;
+}
+
+// zero rates are bootstrapped within this range, like the rates of IRR
+const ZERO_BRACKET: [number, number] = [-0.99, 10];
+// sweeps of the spline bootstrap before giving up, and the largest zero rate change of a converged sweep
+const SPLINE_SWEEPS = 100;
+const SPLINE_TOLERANCE = 1e-12;
+
+/**
+ * Term structure of interest rates. Zero rates are annually compounded fractions, so the discount factor at time
+ * t is (1 + z(t))^-t. Beyond the last pillar the curve keeps the last zero rate, or for log-linear interpolation
+ * the last forward rate; before the first pillar it keeps the first zero rate.
+ */
+export class YieldCurve {
+    /**
+     * Builds a curve from zero rates
+     * @param points - times in years and annually compounded zero rates as fractions
+     * @param options - interpolation
+     * @returns {YieldCurve} - curve through the zero rates
+     * @example YieldCurve.fromZeroRates([{ time: 1, value: 0.02 }, { time: 5, value: 0.03 }]).spotRate(3) // 0.025
+     */
+    public static fromZeroRates(points: CurvePoint[], options: CurveOptions = {}): YieldCurve {
+        validatePoints(points);
+        points.forEach((point, i) => assertRate(`points[${i}].value`, point.value));
+        return new YieldCurve(points.map((point) => point.time), points.map((point) => point.value), options.interpolation);
+    }
+
+    /**
+     * Builds a curve from discount factors
+     * @param points - times in years and discount factors
+     * @param options - interpolation
+     * @returns {YieldCurve} - curve through the discount factors
+     * @example YieldCurve.fromDiscountFactors([{ time: 1, value: 0.98 }, { time: 2, value: 0.95 }]).discountFactor(2) // 0.95
+     */
+    public static fromDiscountFactors(points: CurvePoint[], options: CurveOptions = {}): YieldCurve {
+        validatePoints(points);
+        points.forEach((point, i) => assertPositive(`points[${i}].value`, point.value));
+        const zeros = points.map((point) => Math.pow(point.value, -1 / point.time) - 1);
+        return new YieldCurve(points.map((point) => point.time), zeros, options.interpolation);
+    }
+
+    /**
+     * Bootstraps a curve from par yields, the coupon rates at which bonds maturing at each pillar price at par.
+     * Each pillar's zero rate is solved so that its bond reprices at par, with coupons between pillars discounted
+     * on the interpolated curve.
+     * @param points - maturities in years and par yields as fractions
+     * @param options - interpolation and coupons per year
+     * @returns {YieldCurve} - bootstrapped curve
+     * @example YieldCurve.fromParYields([{ time: 1, value: 0.02 }, { time: 2, value: 0.025 }]).spotRate(2) // 0.02506
+     */
+    public static fromParYields(points: CurvePoint[], options: CurveOptions = {}): YieldCurve {
+        validatePoints(points);
+        const { frequency = 1 } = options;
+        assertPositive('frequency', frequency);
+        const times: number[] = [];
+        const zeros: number[] = [];
+        points.forEach((point, i) => {
+            assertRate(`points[${i}].value`, point.value);
+            const parPrice = (candidate: number) => {
+                const curve = new YieldCurve(times.concat([point.time]), zeros.concat([candidate]), options.interpolation);
+                return curve.parBondPrice(point.time, point.value, frequency) - 1;
+            };
+            const zero = findRoot(parPrice, { bracket: ZERO_BRACKET, guess: point.value });
+            times.push(point.time);
+            zeros.push(zero);
+        });
+        if (options.interpolation === 'cubic-spline') {
+            YieldCurve.refineSpline(points, times, zeros, frequency);
+        }
+        return new YieldCurve(times, zeros, options.interpolation);
+    }
+
+    // a spline pillar moves the curve on both sides of it, so the sequential bootstrap leaves the earlier bonds off par;
+    // each sweep re-solves every pillar on the whole spline until the zero rates settle
+    private static refineSpline(points: CurvePoint[], times: number[], zeros: number[], frequency: number): void {
+        let change = 0;
+        for (let sweep = 1; sweep <= SPLINE_SWEEPS; sweep++) {
+            change = 0;
+            points.forEach((point, i) => {
+                const parPrice = (candidate: number) => {
+                    const trial = zeros.slice();
+                    trial[i] = candidate;
+                    return new YieldCurve(times, trial, 'cubic-spline').parBondPrice(point.time, point.value, frequency) - 1;
+                };
+                const zero = findRoot(parPrice, { bracket: ZERO_BRACKET, guess: zeros[i] });
+                change = Math.max(change, Math.abs(zero - zeros[i]));
+                zeros[i] = zero;
+            });
+            if (change < SPLINE_TOLERANCE) {
+                return;
+            }
+        }
+        throw new ConvergenceError('Cubic spline bootstrap did not converge', SPLINE_SWEEPS, change);
+    }
+
+    public readonly interpolation: Interpolation;
+    private readonly times: number[];
+    private readonly zeros: number[];
+    // second derivatives of the natural cubic spline at the pillars
+    private readonly curvature: number[];
+
+    private constructor(times: number[], zeros: number[], interpolation: Interpolation = 'linear') {
+        if (['linear', 'log-linear', 'cubic-spline'].indexOf(interpolation) < 0) {
+            throw new ValidationError(`Unknown interpolation ${interpolation}`, 'interpolation');
+        }
+        this.interpolation = interpolation;
+        this.times = times;
+        this.zeros = zeros;
+        this.curvature = interpolation === 'cubic-spline' ? naturalSpline(times, zeros) : [];
+    }
+
+    /**
+     * Discount factor - present value of 1 paid at a time
+     * @param time - time in years
+     * @returns {number} - discount factor
+     */
+    public discountFactor(time: number): number {
+        assertNonNegative('time', time);
+        if (time === 0) {
+            return 1;
+        }
+        if (this.interpolation === 'log-linear') {
+            return Math.exp(this.logDiscountFactor(time));
+        }
+        return Math.pow(1 + this.zeroRate(time), -time);
+    }
+
+    /**
+     * Spot rate - annually compounded zero rate to a time
+     * @param time - time in years
+     * @returns {number} - zero rate as a fraction
+     */
+    public spotRate(time: number): number {
+        assertNonNegative('time', time);
+        if (time === 0) {
+            return this.zeros[0];
+        }
+        return this.interpolation === 'log-linear' ? Math.pow(this.discountFactor(time), -1 / time) - 1 : this.zeroRate(time);
+    }
+
+    /**
+     * Forward rate - annually compounded rate agreed today for borrowing between two future times
+     * @param start - start time in years
+     * @param end - end time in years
+     * @returns {number} - forward rate as a fraction
+     * @example curve.forwardRate(1, 2) // rate from year 1 to year 2
+     */
+    public forwardRate(start: number, end: number): number {
+        assertNonNegative('start', start);
+        assertFinite('end', end);
+        if (end <= start) {
+            throw new ValidationError('end must be after start', 'end');
+        }
+        return Math.pow(this.discountFactor(start) / this.discountFactor(end), 1 / (end - start)) - 1;
+    }
+
+    // price of a bond paying coupon / frequency on its coupon dates, with a short first period if needed
+    private parBondPrice(maturity: number, coupon: number, frequency: number): number {
+        let price = this.discountFactor(maturity);
+        for (let time = maturity; time > 1e-9; time -= 1 / frequency) {
+            const accrual = Math.min(1 / frequency, time);
+            price += coupon * accrual * this.discountFactor(time);
+        }
+        return price;
+    }
+
+    private zeroRate(time: number): number {
+        const { times, zeros } = this;
+        const last = times.length - 1;
+        if (time <= times[0]) {
+            return zeros[0];
+        }
+        if (time >= times[last]) {
+            return zeros[last];
+        }
+        const i = segment(times, time);
+        const h = times[i + 1] - times[i];
+        const a = (times[i + 1] - time) / h;
+        const b = (time - times[i]) / h;
+        const linear = a * zeros[i] + b * zeros[i + 1];
+        if (this.interpolation !== 'cubic-spline') {
+            return linear;
+        }
+        const m = this.curvature;
+        return linear + ((a * a * a - a) * m[i] + (b * b * b - b) * m[i + 1]) * h * h / 6;
+    }
+
+    private logDiscountFactor(time: number): number {
+        // pillars in log discount factor space, anchored at 1 today
+        const times = [0].concat(this.times);
+        const logs = [0].concat(this.times.map((t, k) => -t * Math.log(1 + this.zeros[k])));
+        const last = times.length - 1;
+        const i = time >= times[last] ? last - 1 : segment(times, time);
+        const slope = (logs[i + 1] - logs[i]) / (times[i + 1] - times[i]);
+        return logs[i] + slope * (time - times[i]);
+    }
+}
+
+// index of the pillar interval containing the time
+function segment(times: number[], time: number): number {
+    let i = 0;
+    while (i < times.length - 2 && time > times[i + 1]) {
+        i++;
+    }
+    return i;
+}
+
+function naturalSpline(times: number[], values: number[]): number[] {
+    const n = times.length;
+    const curvature = new Array(n).fill(0);
+    if (n < 3) {
+        return curvature;
+    }
+    // tridiagonal system for the inner second derivatives, solved by forward elimination and back substitution
+    const diagonal: number[] = [];
+    const rhs: number[] = [];
+    for (let i = 1; i < n - 1; i++) {
+        const h0 = times[i] - times[i - 1];
+        const h1 = times[i + 1] - times[i];
+        let d = 2 * (h0 + h1);
+        let r = 6 * ((values[i + 1] - values[i]) / h1 - (values[i] - values[i - 1]) / h0);
+        if (i > 1) {
+            const factor = h0 / diagonal[i - 2];
+            d -= factor * h0;
+            r -= factor * rhs[i - 2];
+        }
+        diagonal.push(d);
+        rhs.push(r);
+    }
+    for (let i = n - 2; i >= 1; i--) {
+        const h1 = times[i + 1] - times[i];
+        curvature[i] = (rhs[i - 1] - h1 * curvature[i + 1]) / diagonal[i - 1];
+    }
+    return curvature;
+}
+
+function validatePoints(points: CurvePoint[]): void {
+    if (!Array.isArray(points) || points.length === 0) {
+        throw new ValidationError('points must contain at least one point', 'points');
+    }
+    points.forEach((point, i) => {
+        assertPositive(`points[${i}].time`, point.time);
+        assertFinite(`points[${i}].value`, point.value);
+        if (i > 0 && point.time <= points[i - 1].time) {
+            throw new ValidationError('points must be in increasing order of time', 'points');
+        }
+    });
+}
@@ -0,0 +1,91 @@
+import { ValidationError } from './errors';
+
+export type DayCount = 'ACT/365F' | 'ACT/360' | 'ACT/ACT ISDA' | '30/360 US' | '30E/360';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar days between two dates. Dates are read as their UTC calendar day, so the result doesn't depend on
+ * the timezone of the server or on daylight saving shifts.
+ * @param start - start date
+ * @param end - end date
+ * @returns {number} - whole days, negative when end is before start
+ * @example daysBetween(new Date('2023-01-01'), new Date('2023-03-01')) // 59
+ */
+export function daysBetween(start: Date, end: Date): number {
+    return Math.round((utcDay(end) - utcDay(start)) / DAY);
+}
+
+/**
+ * Year fraction between two dates under a day count convention
+ * @param start - start date
+ * @param end - end date
+ * @param convention - ACT/365F (default), ACT/360, ACT/ACT ISDA, 30/360 US or 30E/360
+ * @returns {number} - fraction of a year, negative when end is before start
+ * @example yearFraction(new Date('2023-01-01'), new Date('2023-07-01'), '30/360 US') // 0.5
+ */
+export function yearFraction(start: Date, end: Date, convention: DayCount = 'ACT/365F'): number {
+    if (end < start) {
+        return -yearFraction(end, start, convention);
+    }
+    switch (convention) {
+        case 'ACT/365F':
+            return daysBetween(start, end) / 365;
+        case 'ACT/360':
+            return daysBetween(start, end) / 360;
+        case 'ACT/ACT ISDA':
+            return actualActual(start, end);
+        case '30/360 US':
+            return thirty360(start, end, true);
+        case '30E/360':
+            return thirty360(start, end, false);
+        default:
+            throw new ValidationError(`Unknown day count convention ${convention}`, 'dayCount');
+    }
+}
+
+function utcDay(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function isLeapYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function actualActual(start: Date, end: Date): number {
+    const startYear = start.getUTCFullYear();
+    const endYear = end.getUTCFullYear();
+    if (startYear === endYear) {
+        return daysBetween(start, end) / (isLeapYear(startYear) ? 366 : 365);
+    }
+    const startYearEnd = new Date(Date.UTC(startYear + 1, 0, 1));
+    const endYearStart = new Date(Date.UTC(endYear, 0, 1));
+    return daysBetween(start, startYearEnd) / (isLeapYear(startYear) ? 366 : 365)
+        + (endYear - startYear - 1)
+        + daysBetween(endYearStart, end) / (isLeapYear(endYear) ? 366 : 365);
+}
+
+function thirty360(start: Date, end: Date, us: boolean): number {
+    let d1 = start.getUTCDate();
+    let d2 = end.getUTCDate();
+    if (us) {
+        const lastOfFebruary = (date: Date) => date.getUTCMonth() === 1 && new Date(date.getTime() + DAY).getUTCDate() === 1;
+        if (lastOfFebruary(start) && lastOfFebruary(end)) {
+            d2 = 30;
+        }
+        if (lastOfFebruary(start)) {
+            d1 = 30;
+        }
+        if (d2 === 31 && d1 >= 30) {
+            d2 = 30;
+        }
+        if (d1 === 31) {
+            d1 = 30;
+        }
+    } else {
+        d1 = Math.min(d1, 30);
+        d2 = Math.min(d2, 30);
+    }
+    const days = 360 * (end.getUTCFullYear() - start.getUTCFullYear()) + 30 * (end.getUTCMonth() - start.getUTCMonth()) + d2 - d1;
+    return days / 360;
+}
@@ -0,0 +1,343 @@
+import { Arithmetic } from './arithmetic';
+import { ValidationError } from './errors';
+import { RoundingMode, RoundingPolicy } from './rounding';
+
+// magnitudes are little-endian arrays of base 10^7 limbs, the empty array is zero
+type Natural = number[];
+
+const BASE = 1e7;
+const LOG_BASE = 7;
+
+/** decimal places kept by division, powers and products */
+export const DECIMAL_PLACES = 40;
+
+/**
+ * Arbitrary-precision decimal number. The integer part is unbounded; products and quotients keep
+ * DECIMAL_PLACES fractional digits, rounded half-even. Instances are immutable.
+ */
+export class Decimal {
+    /**
+     * Creates a decimal from a number, a numeric string such as '-12.345' or '1e-7', or another decimal
+     * @param value - value to convert
+     * @returns {Decimal} - decimal value
+     * @example Decimal.from('0.1').plus(Decimal.from('0.2')).toString() // '0.3'
+     */
+    public static from(value: number | string | Decimal): Decimal {
+        if (value instanceof Decimal) {
+            return value;
+        }
+        const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+        if (!match || (!match[2] && !match[3])) {
+            throw new ValidationError(`Invalid decimal value ${value}`, 'value');
+        }
+        const fraction = match[3] || '';
+        const exponent = match[4] ? parseInt(match[4], 10) : 0;
+        let digits = (match[2] || '') + fraction;
+        let scale = fraction.length - exponent;
+        if (scale < 0) {
+            digits += repeat('0', -scale);
+            scale = 0;
+        }
+        return new Decimal(match[1] === '-', fromDigits(digits), scale);
+    }
+
+    private readonly negative: boolean;
+    private readonly magnitude: Natural;
+    private readonly scale: number;
+
+    private constructor(negative: boolean, magnitude: Natural, scale: number) {
+        // strip trailing fractional zeros so every value has a single representation
+        while (scale > 0 && magnitude.length > 0 && magnitude[0] % 10 === 0) {
+            magnitude = divideSmall(magnitude, 10).quotient;
+            scale--;
+        }
+        this.negative = negative && magnitude.length > 0;
+        this.magnitude = magnitude;
+        this.scale = magnitude.length > 0 ? scale : 0;
+    }
+
+    public plus(other: Decimal | number | string): Decimal {
+        const b = Decimal.from(other);
+        const scale = Math.max(this.scale, b.scale);
+        const x = shift(this.magnitude, scale - this.scale);
+        const y = shift(b.magnitude, scale - b.scale);
+        if (this.negative === b.negative) {
+            return new Decimal(this.negative, add(x, y), scale);
+        }
+        return compare(x, y) >= 0
+            ? new Decimal(this.negative, subtract(x, y), scale)
+            : new Decimal(b.negative, subtract(y, x), scale);
+    }
+
+    public minus(other: Decimal | number | string): Decimal {
+        return this.plus(Decimal.from(other).negated());
+    }
+
+    public times(other: Decimal | number | string): Decimal {
+        const b = Decimal.from(other);
+        return new Decimal(this.negative !== b.negative, multiply(this.magnitude, b.magnitude), this.scale + b.scale)
+            .round(DECIMAL_PLACES, 'half-even');
+    }
+
+    public dividedBy(other: Decimal | number | string, places: number = DECIMAL_PLACES): Decimal {
+        const b = Decimal.from(other);
+        if (b.isZero()) {
+            throw new ValidationError('Division by zero', 'divisor');
+        }
+        // (m1 / 10^s1) / (m2 / 10^s2) = m1 * 10^(s2 + places) / (m2 * 10^s1) / 10^places
+        const numerator = shift(this.magnitude, b.scale + places);
+        const denominator = shift(b.magnitude, this.scale);
+        const { quotient, remainder } = divide(numerator, denominator);
+        // round half-even on the exact remainder
+        const half = compare(add(remainder, remainder), denominator);
+        const up = half > 0 || (half === 0 && (quotient[0] || 0) % 2 === 1);
+        return new Decimal(this.negative !== b.negative, up ? add(quotient, [1]) : quotient, places);
+    }
+
+    /**
+     * Raises the decimal to an integer power by repeated squaring
+     * @param exponent - integer exponent, may be negative
+     * @returns {Decimal} - power
+     */
+    public pow(exponent: number): Decimal {
+        if (exponent !== Math.floor(exponent)) {
+            throw new ValidationError(`Decimal exponent must be an integer, got ${exponent}`, 'exponent');
+        }
+        let result = Decimal.from(1);
+        let base: Decimal = this;
+        let n = Math.abs(exponent);
+        while (n > 0) {
+            if (n % 2 === 1) {
+                result = result.times(base);
+            }
+            n = Math.floor(n / 2);
+            if (n > 0) {
+                base = base.times(base);
+            }
+        }
+        return exponent < 0 ? Decimal.from(1).dividedBy(result) : result;
+    }
+
+    public negated(): Decimal {
+        return new Decimal(!this.negative, this.magnitude, this.scale);
+    }
+
+    public abs(): Decimal {
+        return new Decimal(false, this.magnitude, this.scale);
+    }
+
+    public compare(other: Decimal | number | string): number {
+        const difference = this.minus(other);
+        return difference.isZero() ? 0 : difference.negative ? -1 : 1;
+    }
+
+    public equals(other: Decimal | number | string): boolean {
+        return this.compare(other) === 0;
+    }
+
+    public isZero(): boolean {
+        return this.magnitude.length === 0;
+    }
+
+    public isNegative(): boolean {
+        return this.negative;
+    }
+
+    /**
+     * Rounds to a number of decimal places
+     * @param places - decimal places kept
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Decimal} - rounded decimal
+     */
+    public round(places: number = 0, mode: RoundingMode = 'half-up'): Decimal {
+        if (mode === 'none' || this.scale <= places) {
+            return this;
+        }
+        const divisor = pow10(this.scale - places);
+        const { quotient, remainder } = divide(this.magnitude, divisor);
+        const half = compare(add(remainder, remainder), divisor);
+        let up: boolean;
+        switch (mode) {
+            case 'floor':
+                up = this.negative && remainder.length > 0;
+                break;
+            case 'ceil':
+                up = !this.negative && remainder.length > 0;
+                break;
+            case 'half-even':
+                up = half > 0 || (half === 0 && (quotient[0] || 0) % 2 === 1);
+                break;
+            default:
+                up = half >= 0;
+        }
+        return new Decimal(this.negative, up ? add(quotient, [1]) : quotient, places);
+    }
+
+    public toNumber(): number {
+        return parseFloat(this.toString());
+    }
+
+    public toString(): string {
+        return this.toFixed(this.scale);
+    }
+
+    /**
+     * Formats with a fixed number of decimal places, rounding half-up
+     * @param places - decimal places
+     * @returns {string} - formatted value
+     * @example Decimal.from('2.5').toFixed(2) // '2.50'
+     */
+    public toFixed(places: number = 0): string {
+        const rounded = this.round(places);
+        let digits = toDigits(rounded.magnitude);
+        if (digits.length <= rounded.scale) {
+            digits = repeat('0', rounded.scale - digits.length + 1) + digits;
+        }
+        const integer = digits.slice(0, digits.length - rounded.scale);
+        const fraction = digits.slice(digits.length - rounded.scale) + repeat('0', places - rounded.scale);
+        return (rounded.negative ? '-' : '') + integer + (places > 0 ? '.' + fraction : '');
+    }
+}
+
+/**
+ * Arbitrary-precision decimal backend
+ */
+export const decimalArithmetic: Arithmetic<Decimal> = {
+    from: (value) => Decimal.from(value),
+    add: (a, b) => a.plus(b),
+    subtract: (a, b) => a.minus(b),
+    multiply: (a, b) => a.times(b),
+    divide: (a, b) => a.dividedBy(b),
+    pow: (base, exponent) => base.pow(exponent),
+    compare: (a, b) => a.compare(b),
+    round: (value, policy: RoundingPolicy = {}) => value.round(policy.decimals === undefined ? 2 : policy.decimals, policy.mode),
+    toNumber: (value) => value.toNumber(),
+};
+
+function repeat(text: string, count: number): string {
+    return count > 0 ? new Array(count + 1).join(text) : '';
+}
+
+function trim(a: Natural): Natural {
+    while (a.length > 0 && a[a.length - 1] === 0) {
+        a.pop();
+    }
+    return a;
+}
+
+function fromDigits(digits: string): Natural {
+    const limbs: Natural = [];
+    for (let end = digits.length; end > 0; end -= LOG_BASE) {
+        limbs.push(parseInt(digits.slice(Math.max(0, end - LOG_BASE), end), 10));
+    }
+    return trim(limbs);
+}
+
+function toDigits(a: Natural): string {
+    if (a.length === 0) {
+        return '0';
+    }
+    let digits = String(a[a.length - 1]);
+    for (let i = a.length - 2; i >= 0; i--) {
+        const limb = String(a[i]);
+        digits += repeat('0', LOG_BASE - limb.length) + limb;
+    }
+    return digits;
+}
+
+function pow10(n: number): Natural {
+    return fromDigits('1' + repeat('0', n));
+}
+
+function shift(a: Natural, places: number): Natural {
+    return places > 0 ? multiply(a, pow10(places)) : a;
+}
+
+function compare(a: Natural, b: Natural): number {
+    if (a.length !== b.length) {
+        return a.length < b.length ? -1 : 1;
+    }
+    for (let i = a.length - 1; i >= 0; i--) {
+        if (a[i] !== b[i]) {
+            return a[i] < b[i] ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+function add(a: Natural, b: Natural): Natural {
+    const result: Natural = [];
+    let carry = 0;
+    for (let i = 0; i < Math.max(a.length, b.length) || carry > 0; i++) {
+        const sum = (a[i] || 0) + (b[i] || 0) + carry;
+        result.push(sum % BASE);
+        carry = sum >= BASE ? 1 : 0;
+    }
+    return trim(result);
+}
+
+// a must not be smaller than b
+function subtract(a: Natural, b: Natural): Natural {
+    const result: Natural = [];
+    let borrow = 0;
+    for (let i = 0; i < a.length; i++) {
+        let difference = a[i] - (b[i] || 0) - borrow;
+        borrow = difference < 0 ? 1 : 0;
+        if (borrow) {
+            difference += BASE;
+        }
+        result.push(difference);
+    }
+    return trim(result);
+}
+
+function multiply(a: Natural, b: Natural): Natural {
+    if (a.length === 0 || b.length === 0) {
+        return [];
+    }
+    const result: Natural = [];
+    for (let k = 0; k < a.length + b.length; k++) {
+        result.push(0);
+    }
+    for (let i = 0; i < a.length; i++) {
+        let carry = 0;
+        for (let j = 0; j < b.length || carry > 0; j++) {
+            const product = result[i + j] + a[i] * (b[j] || 0) + carry;
+            result[i + j] = product % BASE;
+            carry = Math.floor(product / BASE);
+        }
+    }
+    return trim(result);
+}
+
+function divideSmall(a: Natural, divisor: number): { quotient: Natural, remainder: number } {
+    const quotient: Natural = [];
+    let remainder = 0;
+    for (let i = a.length - 1; i >= 0; i--) {
+        const current = remainder * BASE + a[i];
+        quotient[i] = Math.floor(current / divisor);
+        remainder = current % divisor;
+    }
+    return { quotient: trim(quotient), remainder };
+}
+
+// schoolbook long division, one decimal digit of the quotient at a time
+function divide(a: Natural, b: Natural): { quotient: Natural, remainder: Natural } {
+    if (b.length === 1) {
+        const small = divideSmall(a, b[0]);
+        return { quotient: small.quotient, remainder: trim([small.remainder]) };
+    }
+    let remainder: Natural = [];
+    let quotient = '';
+    const digits = toDigits(a);
+    for (let i = 0; i < digits.length; i++) {
+        remainder = add(multiply(remainder, [10]), trim([parseInt(digits.charAt(i), 10)]));
+        let digit = 0;
+        while (compare(remainder, b) >= 0) {
+            remainder = subtract(remainder, b);
+            digit++;
+        }
+        quotient += digit;
+    }
+    return { quotient: fromDigits(quotient), remainder };
+}
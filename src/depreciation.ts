@@ -0,0 +1,376 @@
+import { ValidationError } from './errors';
+import { round, RoundingPolicy } from './rounding';
+import { assertFinite, assertInteger, assertNonNegative, assertPositive } from './validation';
+
+export type DepreciationMethod = 'straight-line' | 'declining-balance' | 'double-declining' | 'sum-of-years-digits' | 'macrs';
+
+/** MACRS general depreciation system property classes, in years */
+export type MacrsClass = 3 | 5 | 7 | 10 | 15 | 20;
+
+export interface DepreciationOptions {
+    cost: number;
+    /** value at the end of the useful life, ignored by MACRS */
+    salvage: number;
+    /** useful life in years, or the property class for MACRS */
+    life: number;
+    method: DepreciationMethod;
+    /** declining balance rate of double-declining, defaults to 2 */
+    factor?: number;
+    /** true - keep the declining balance of double-declining instead of switching to straight-line */
+    noSwitch?: boolean;
+    /**
+     * months the asset is in service in the first year, defaults to 12. The remaining part of the last asset year
+     * falls in an extra year. Not used by MACRS, whose tables already apply the half-year convention.
+     */
+    firstYearMonths?: number;
+    /** rounding of every amount, defaults to 2 decimal places half-up */
+    rounding?: RoundingPolicy;
+}
+
+export interface SlnOptions {
+    /** initial cost of the asset */
+    cost: number;
+    /** value at the end of the useful life */
+    salvage: number;
+    /** useful life in periods */
+    life: number;
+}
+
+export interface SydOptions extends SlnOptions {
+    /** period, from 1 to life */
+    period: number;
+}
+
+export interface DbOptions extends SydOptions {
+    /** months in the first year, defaults to 12 */
+    month?: number;
+}
+
+export interface DdbOptions extends SydOptions {
+    /** declining balance rate, defaults to 2 */
+    factor?: number;
+}
+
+export interface VdbOptions extends SlnOptions {
+    /** start of the interval, may be fractional */
+    startPeriod: number;
+    /** end of the interval, may be fractional */
+    endPeriod: number;
+    /** declining balance rate, defaults to 2 */
+    factor?: number;
+    /** true - never switch to straight-line */
+    noSwitch?: boolean;
+}
+
+export interface MacrsOptions {
+    /** depreciable basis of the asset */
+    cost: number;
+    /** property class in years */
+    recoveryPeriod: MacrsClass;
+    /** recovery year, from 1 to recoveryPeriod + 1 */
+    year: number;
+}
+
+export interface DepreciationRow {
+    period: number;
+    openingBookValue: number;
+    depreciation: number;
+    accumulatedDepreciation: number;
+    closingBookValue: number;
+}
+
+// IRS Publication 946, table A-1: general depreciation system, 200% or 150% declining balance switching to
+// straight-line, half-year convention. Percentages of the cost per recovery year.
+const MACRS_HALF_YEAR: { [recoveryPeriod: number]: number[] } = {
+    3: [33.33, 44.45, 14.81, 7.41],
+    5: [20.00, 32.00, 19.20, 11.52, 11.52, 5.76],
+    7: [14.29, 24.49, 17.49, 12.49, 8.93, 8.92, 8.93, 4.46],
+    10: [10.00, 18.00, 14.40, 11.52, 9.22, 7.37, 6.55, 6.55, 6.56, 6.55, 3.28],
+    15: [5.00, 9.50, 8.55, 7.70, 6.93, 6.23, 5.90, 5.90, 5.91, 5.90, 5.91, 5.90, 5.91, 5.90, 5.91, 2.95],
+    20: [
+        3.750, 7.219, 6.677, 6.177, 5.713, 5.285, 4.888, 4.522, 4.462, 4.461, 4.462,
+        4.461, 4.462, 4.461, 4.462, 4.461, 4.462, 4.461, 4.462, 4.461, 2.231,
+    ],
+};
+
+/**
+ * Straight-line depreciation (SLN) for one period, like the spreadsheet SLN function
+ * @param options - cost, salvage value and useful life in periods
+ * @returns {number} - depreciation per period
+ * @example sln({ cost: 30000, salvage: 7500, life: 10 }) // 2250
+ */
+export function sln(options: SlnOptions): number {
+    const { cost, salvage, life } = options;
+    validate(cost, salvage, life);
+    return (cost - salvage) / life;
+}
+
+/**
+ * Sum-of-years' digits depreciation (SYD) for a period, like the spreadsheet SYD function
+ * @param options - cost, salvage value, useful life in periods and period from 1 to life
+ * @returns {number} - depreciation in the period
+ * @example syd({ cost: 30000, salvage: 7500, life: 10, period: 1 }) // 4090.91
+ */
+export function syd(options: SydOptions): number {
+    const { cost, salvage, life, period } = options;
+    validate(cost, salvage, life);
+    assertPeriod(period, life);
+    return (cost - salvage) * (life - period + 1) * 2 / (life * (life + 1));
+}
+
+/**
+ * Fixed-declining balance depreciation (DB) for a period, like the spreadsheet DB function. The rate is rounded
+ * to three decimal places and a partial first year moves the rest of the last year into period life + 1.
+ * @param options - cost, salvage value, useful life in years, period from 1 to life, or life + 1 with a partial first
+ * year, and months in the first year
+ * @returns {number} - depreciation in the period
+ * @example db({ cost: 1000000, salvage: 100000, life: 6, period: 1, month: 7 }) // 186083.33
+ */
+export function db(options: DbOptions): number {
+    const { cost, salvage, life, period, month = 12 } = options;
+    validate(cost, salvage, life);
+    assertMonths(month);
+    assertPeriod(period, month < 12 ? life + 1 : life);
+    if (cost === 0) {
+        return 0;
+    }
+    const rate = Math.round((1 - Math.pow(salvage / cost, 1 / life)) * 1000) / 1000;
+    let total = cost * rate * month / 12;
+    if (period === 1) {
+        return total;
+    }
+    for (let p = 2; p < period; p++) {
+        total += (cost - total) * rate;
+    }
+    return period === life + 1 ? (cost - total) * rate * (12 - month) / 12 : (cost - total) * rate;
+}
+
+/**
+ * Double-declining balance depreciation (DDB) for a period, like the spreadsheet DDB function. Depreciation stops
+ * at the salvage value and never switches to straight-line; use vdb for the switch.
+ * @param options - cost, salvage value, useful life in periods, period from 1 to life and declining balance rate
+ * @returns {number} - depreciation in the period
+ * @example ddb({ cost: 2400, salvage: 300, life: 10, period: 1 }) // 480
+ */
+export function ddb(options: DdbOptions): number {
+    const { cost, salvage, life, period, factor = 2 } = options;
+    validate(cost, salvage, life);
+    assertPeriod(period, life);
+    assertPositive('factor', factor);
+    return decliningBalance(cost, salvage, life, period, factor);
+}
+
+/**
+ * Variable declining balance depreciation (VDB) between two points in the life, like the spreadsheet VDB function.
+ * Switches to straight-line once that gives more depreciation, unless noSwitch is set.
+ * @param options - cost, salvage value, useful life in periods, start and end of the interval, declining balance
+ * rate and whether to never switch
+ * @returns {number} - depreciation over the interval
+ * @example vdb({ cost: 2400, salvage: 300, life: 120, startPeriod: 6, endPeriod: 18 }) // 396.31
+ */
+export function vdb(options: VdbOptions): number {
+    const { cost, salvage, life, startPeriod, endPeriod, factor = 2, noSwitch = false } = options;
+    validate(cost, salvage, life);
+    assertNonNegative('startPeriod', startPeriod);
+    assertFinite('endPeriod', endPeriod);
+    assertPositive('factor', factor);
+    if (startPeriod > endPeriod || endPeriod > life) {
+        throw new ValidationError('startPeriod must not be after endPeriod, and endPeriod must not be after life', 'endPeriod');
+    }
+    if (noSwitch) {
+        const loopStart = Math.floor(startPeriod);
+        const loopEnd = Math.ceil(endPeriod);
+        let total = 0;
+        for (let period = loopStart + 1; period <= loopEnd; period++) {
+            let term = decliningBalance(cost, salvage, life, period, factor);
+            // only the covered part of the first and last periods counts
+            if (period === loopStart + 1) {
+                term *= Math.min(endPeriod, loopStart + 1) - startPeriod;
+            } else if (period === loopEnd) {
+                term *= endPeriod + 1 - loopEnd;
+            }
+            total += term;
+        }
+        return total;
+    }
+    let start = startPeriod;
+    let end = endPeriod;
+    let remainingLife = life;
+    // a fractional start in the second half of the life shifts the interval, as spreadsheets do
+    if (start !== Math.floor(start) && factor > 1 && start >= life / 2) {
+        const part = start - life / 2;
+        start = life / 2;
+        end -= part;
+        remainingLife += 1;
+    }
+    const depreciated = switchingBalance(cost, salvage, remainingLife, remainingLife, start, factor);
+    return switchingBalance(cost - depreciated, salvage, remainingLife, remainingLife - start, end - start, factor);
+}
+
+/**
+ * US MACRS depreciation for a recovery year, from the general depreciation system tables with the half-year
+ * convention (IRS Publication 946, table A-1)
+ * @param options - depreciable basis, property class in years and recovery year from 1 to recoveryPeriod + 1
+ * @returns {number} - depreciation in the year
+ * @example macrs({ cost: 10000, recoveryPeriod: 5, year: 2 }) // 3200
+ */
+export function macrs(options: MacrsOptions): number {
+    const { cost, recoveryPeriod, year } = options;
+    assertNonNegative('cost', cost);
+    const table = macrsTable(recoveryPeriod);
+    assertPeriod(year, table.length, 'year');
+    return cost * table[year - 1] / 100;
+}
+
+/**
+ * Depreciation schedule - depreciation, accumulated depreciation and book value for every year of the life. The
+ * last year is adjusted so the book value closes at exactly the salvage value.
+ * @param options - cost, salvage, life, method, declining balance factor, first year months and rounding
+ * @returns {DepreciationRow[]} - one row per year
+ * @example depreciationSchedule({ cost: 2400, salvage: 300, life: 10, method: 'double-declining' })[0].depreciation // 480
+ */
+export function depreciationSchedule(options: DepreciationOptions): DepreciationRow[] {
+    const { cost, life, method, factor = 2, noSwitch = false, firstYearMonths = 12, rounding } = options;
+    const salvage = method === 'macrs' ? 0 : options.salvage;
+    validate(cost, salvage, life);
+    assertMonths(firstYearMonths);
+    const roundAmount = (value: number) => round(value, rounding);
+
+    let amounts: number[];
+    if (method === 'macrs') {
+        amounts = macrsTable(life as MacrsClass).map((percent) => cost * percent / 100);
+    } else if (method === 'declining-balance') {
+        const periods = firstYearMonths < 12 ? life + 1 : life;
+        amounts = range(periods).map((period) => db({ cost, salvage, life, period, month: firstYearMonths }));
+    } else {
+        assertInteger('life', life);
+        amounts = prorate(range(life).map((period) => yearly(options, salvage, period, factor, noSwitch)), firstYearMonths);
+    }
+
+    const rows: DepreciationRow[] = [];
+    let bookValue = roundAmount(cost);
+    let accumulated = 0;
+    amounts.forEach((amount, i) => {
+        // the last year takes whatever is left above the salvage value
+        const depreciation = i === amounts.length - 1
+            ? roundAmount(bookValue - salvage)
+            : roundAmount(Math.min(amount, bookValue - salvage));
+        const closingBookValue = roundAmount(bookValue - depreciation);
+        accumulated = roundAmount(accumulated + depreciation);
+        rows.push({
+            period: i + 1,
+            openingBookValue: bookValue,
+            depreciation,
+            accumulatedDepreciation: accumulated,
+            closingBookValue,
+        });
+        bookValue = closingBookValue;
+    });
+    return rows;
+}
+
+function yearly(options: DepreciationOptions, salvage: number, period: number, factor: number, noSwitch: boolean): number {
+    const { cost, life, method } = options;
+    switch (method) {
+        case 'straight-line':
+            return sln({ cost, salvage, life });
+        case 'sum-of-years-digits':
+            return syd({ cost, salvage, life, period });
+        case 'double-declining':
+            return vdb({ cost, salvage, life, startPeriod: period - 1, endPeriod: period, factor, noSwitch });
+        default:
+            throw new ValidationError(`Unknown depreciation method ${method}`, 'method');
+    }
+}
+
+// spreads asset years over fiscal years when the asset is placed in service part way through the first year
+function prorate(assetYears: number[], firstYearMonths: number): number[] {
+    if (firstYearMonths === 12) {
+        return assetYears;
+    }
+    const first = firstYearMonths / 12;
+    return assetYears.concat([0]).map((amount, i) => first * amount + (i > 0 ? (1 - first) * assetYears[i - 1] : 0));
+}
+
+function decliningBalance(cost: number, salvage: number, life: number, period: number, factor: number): number {
+    let rate = factor / life;
+    let oldValue: number;
+    if (rate >= 1) {
+        rate = 1;
+        oldValue = period === 1 ? cost : 0;
+    } else {
+        oldValue = cost * Math.pow(1 - rate, period - 1);
+    }
+    const newValue = cost * Math.pow(1 - rate, period);
+    const depreciation = newValue < salvage ? oldValue - salvage : oldValue - newValue;
+    return Math.max(depreciation, 0);
+}
+
+// declining balance that switches to straight-line over the remaining life once that is larger
+function switchingBalance(cost: number, salvage: number, life: number, remainingLife: number, periods: number, factor: number): number {
+    const loopEnd = Math.ceil(periods);
+    let remaining = cost - salvage;
+    let straightLine = 0;
+    let switched = false;
+    let total = 0;
+    for (let period = 1; period <= loopEnd; period++) {
+        let term: number;
+        if (switched) {
+            term = straightLine;
+        } else {
+            const declining = decliningBalance(cost, salvage, life, period, factor);
+            straightLine = remaining / (remainingLife - (period - 1));
+            if (straightLine > declining) {
+                term = straightLine;
+                switched = true;
+            } else {
+                term = declining;
+                remaining -= declining;
+            }
+        }
+        if (period === loopEnd) {
+            term *= periods + 1 - loopEnd;
+        }
+        total += term;
+    }
+    return total;
+}
+
+function macrsTable(recoveryPeriod: MacrsClass): number[] {
+    const table = MACRS_HALF_YEAR[recoveryPeriod];
+    if (!table) {
+        throw new ValidationError(`MACRS recovery period must be 3, 5, 7, 10, 15 or 20 years, got ${recoveryPeriod}`, 'recoveryPeriod');
+    }
+    return table;
+}
+
+function range(count: number): number[] {
+    const periods: number[] = [];
+    for (let period = 1; period <= count; period++) {
+        periods.push(period);
+    }
+    return periods;
+}
+
+function validate(cost: number, salvage: number, life: number): void {
+    assertNonNegative('cost', cost);
+    assertNonNegative('salvage', salvage);
+    assertPositive('life', life);
+    if (salvage > cost) {
+        throw new ValidationError('salvage must not be more than cost', 'salvage');
+    }
+}
+
+function assertPeriod(period: number, last: number, name: string = 'period'): void {
+    assertFinite(name, period);
+    if (period < 1 || period > last || period !== Math.floor(period)) {
+        throw new ValidationError(`${name} must be a whole number from 1 to ${last}, got ${period}`, name);
+    }
+}
+
+function assertMonths(month: number): void {
+    assertInteger('month', month);
+    if (month > 12) {
+        throw new ValidationError(`month must be from 1 to 12, got ${month}`, 'month');
+    }
+}
@@ -0,0 +1,71 @@
+export type FinanceErrorCode =
+    | 'INVALID_ARGUMENT'
+    | 'INVALID_CASH_FLOWS'
+    | 'NO_CONVERGENCE'
+    | 'CURRENCY_MISMATCH';
+
+/**
+ * Base class of every error thrown by the library
+ */
+export class FinanceError extends Error {
+    /** machine readable error code */
+    public code: FinanceErrorCode;
+
+    constructor(message: string, code: FinanceErrorCode) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'FinanceError';
+        this.code = code;
+    }
+}
+
+/**
+ * Thrown when an argument is missing, not finite or out of range
+ */
+export class ValidationError extends FinanceError {
+    /** name of the offending argument */
+    public argument: string;
+
+    constructor(message: string, argument: string, code: FinanceErrorCode = 'INVALID_ARGUMENT') {
+        super(message, code);
+        this.name = 'ValidationError';
+        this.argument = argument;
+    }
+}
+
+/**
+ * Thrown when cash flows can't have a rate of return, e.g. when they are all positive
+ */
+export class CashFlowError extends ValidationError {
+    constructor(message: string, argument: string = 'cashFlows') {
+        super(message, argument, 'INVALID_CASH_FLOWS');
+        this.name = 'CashFlowError';
+    }
+}
+
+/**
+ * Thrown when a root finder runs out of iterations or cannot make progress
+ */
+export class ConvergenceError extends FinanceError {
+    /** number of iterations used */
+    public iterations: number;
+    /** function value at the last point tried */
+    public residual: number;
+
+    constructor(message: string, iterations: number, residual: number) {
+        super(message, 'NO_CONVERGENCE');
+        this.name = 'ConvergenceError';
+        this.iterations = iterations;
+        this.residual = residual;
+    }
+}
+
+/**
+ * Thrown when amounts in different currencies are combined
+ */
+export class CurrencyMismatchError extends FinanceError {
+    constructor(expected: string, actual: string) {
+        super(`Currency mismatch: expected ${expected}, got ${actual}`, 'CURRENCY_MISMATCH');
+        this.name = 'CurrencyMismatchError';
+    }
+}
@@ -1,17 +1,122 @@
 // convert https://raw.githubusercontent.com/ebradyjobory/finance.js/master/finance.js to typescript
 
+import { Arithmetic } from './arithmetic';
+import { Bond, BondAnalytics, bondAnalytics, CallSchedule, yieldToCall, yieldToMaturity } from './bond';
+import * as budgeting from './budgeting';
+import { BreakEven, IRRScanOptions, MultipleIRR, PaybackResult } from './budgeting';
+import { YieldCurve } from './curve';
+import { DayCount, yearFraction } from './daycount';
+import { db, ddb, DepreciationOptions, DepreciationRow, depreciationSchedule, MacrsClass, macrs, sln, syd, vdb } from './depreciation';
+import { ValidationError } from './errors';
+import { compoundInterest, loanPayment, ruleOf72 } from './interest';
+import {
+    Affordability, affordability, AffordabilityOptions, apr, apy, compareLoans, Compounding, convertCompounding, LoanComparison, LoanOffer,
+    refinanceBreakEven, RefinanceOptions, RefinanceResult,
+} from './lending';
+import { LoanEvent, LoanOptions, LoanResult, modelLoan } from './loan';
+import { fromDecimal, RateUnit, toDecimal } from './rates';
+import { BinomialOptions, binomialPrice, blackScholes, impliedVolatility, OptionContract, OptionValuation } from './options';
+import { cagr, ExternalFlow, moneyWeightedReturn, realReturn, roi, timeWeightedReturn, Valuation } from './performance';
+import {
+    analyzeRatios, debtToIncome, FinancialStatements, Growth, GrowthMetric, leverageRatio, Ratio, RatioAnalysis, RatioOptions, statementGrowth,
+} from './ratios';
+import { round, RoundingPolicy } from './rounding';
+import { amortizationSchedule, ScheduleOptions, ScheduleRow } from './schedule';
+import {
+    DataTable, dataTable, DataTableOptions, Metric, simulate, SimulationOptions, SimulationResult, tornado, TornadoOptions, TornadoResult,
+} from './simulation';
+import { RATE_BRACKET, SolverOptions } from './solver';
+import * as tvm from './tvm';
+import { PaymentTiming, XIRROptions } from './tvm';
+import {
+    CapmInputs, capm, DcfOptions, DcfResult, discountedCashFlow, DiscountRate, DividendDiscountOptions, gordonGrowth, hModel, HModelOptions,
+    threeStageDDM, ThreeStageOptions, twoStageDDM, wacc, WaccInputs,
+} from './valuation';
+import {
+    assertCashFlows, assertDates, assertFinite, assertInteger, assertNonNegative, assertPositive, assertRate, assertSignChange,
+} from './validation';
+
+export { Arithmetic, floatArithmetic } from './arithmetic';
+export {
+    AllIrrOptions, allIrr, BreakEven, breakEven, BreakEvenOptions, countSignChanges, discountedPayback, DiscountedPaybackOptions,
+    discountFactors, DiscountFactorOptions, futureValue, FutureValueOptions, IrrOptions, IRRScanOptions, irr, mirr, MirrOptions, MultipleIRR,
+    npv, NpvOptions, payback, PaybackOptions, paybackPeriod, PaybackResult, presentValue, PresentValueOptions, profitabilityIndex,
+    XmirrOptions, xmirr, xnpv, XnpvOptions,
+} from './budgeting';
+export {
+    accruedInterest, Bond, BondAnalytics, bondAnalytics, CallSchedule, cleanPrice, convexity, CouponFrequency, dirtyPrice, dv01,
+    macaulayDuration, modifiedDuration, yieldToCall, yieldToMaturity,
+} from './bond';
+export { CurveOptions, CurvePoint, Interpolation, YieldCurve } from './curve';
+export { DayCount } from './daycount';
+export {
+    db, DbOptions, ddb, DdbOptions, DepreciationMethod, DepreciationOptions, DepreciationRow, depreciationSchedule, MacrsClass, macrs,
+    MacrsOptions, sln, SlnOptions, syd, SydOptions, vdb, VdbOptions,
+} from './depreciation';
+export { Decimal, decimalArithmetic, DECIMAL_PLACES } from './decimal';
+export {
+    CashFlowError, ConvergenceError, CurrencyMismatchError, FinanceError, FinanceErrorCode, ValidationError,
+} from './errors';
+export { compoundInterest, CompoundInterestOptions, loanPayment, LoanPaymentOptions, ruleOf72 } from './interest';
+export {
+    Affordability, affordability, AffordabilityOptions, apr, AprOptions, AprResult, apy, ApyOptions, compareLoans, Compounding,
+    CompoundingOptions, convertCompounding, LoanComparison, LoanComparisonOptions, LoanCost, LoanOffer, LoanTerms, refinanceBreakEven,
+    RefinanceOptions, RefinanceResult,
+} from './lending';
+export { Money, moneyNPV } from './money';
+export {
+    BinomialOptions, binomialPrice, blackScholes, ExerciseStyle, Greeks, impliedVolatility, OptionContract, OptionType, OptionValuation,
+} from './options';
+export {
+    alpha, AlphaOptions, AnnualizeOptions, annualizeReturn, beta, BetaOptions, cagr, CagrOptions, Drawdown, ExternalFlow, maxDrawdown,
+    measurePerformance, modifiedDietz, MoneyWeightedOptions, moneyWeightedReturn, PerformanceResult, PortfolioOptions, periodReturns,
+    RealReturnOptions, realReturn, roi, RoiOptions, SharpeOptions, sharpeRatio, SortinoOptions, sortinoRatio, timeWeightedReturn, Valuation,
+    volatility, VolatilityOptions,
+} from './performance';
+export {
+    analyzeRatios, BalanceSheet, CashFlowStatement, CoverageRatios, DebtToIncomeInputs, debtToIncome, DuPont, EfficiencyRatios, FinancialStatements,
+    Growth, GrowthMetric, IncomeStatement, LeverageInputs, leverageRatio, LeverageRatios, LiquidityRatios, ProfitabilityRatios, Ratio,
+    RatioAnalysis, RatioFlag, RatioOptions, statementGrowth,
+} from './ratios';
+export { convertRate, fromDecimal, RateUnit, toDecimal } from './rates';
+export { RoundingMode, RoundingPolicy } from './rounding';
+export { Frequency, ScheduleOptions, ScheduleRow } from './schedule';
+export {
+    CashFlowModel, Correlation, DataTable, dataTable, DataTableOptions, Distribution, LognormalDistribution, Metric, MetricSummary,
+    ModelInputs, NormalDistribution, seededRandom, SensitivityRange, simulate, SimulationOptions, SimulationResult, TableAxis, tornado,
+    TornadoBar, TornadoOptions, TornadoResult, TriangularDistribution, UniformDistribution,
+} from './simulation';
+export { SolverOptions } from './solver';
+export { normalCdf, normalPdf, percentile } from './statistics';
+export { cumipmt, cumprinc, effect, fv, ipmt, nominal, nper, PaymentTiming, pmt, ppmt, pv, rate, xirr, XIRROptions } from './tvm';
+export {
+    CapmInputs, capm, CashFlowBasis, DcfOptions, DcfResult, discountedCashFlow, DiscountRate, discountRate, DividendDiscountOptions,
+    ExitMultiple, gordonGrowth, GordonGrowthOptions, hModel, HModelOptions, PerpetualGrowth, TerminalValueMethod, threeStageDDM, ThreeStageOptions,
+    twoStageDDM, ValueBridge, wacc, WaccInputs,
+} from './valuation';
+export {
+    Balloon, InterestOnly, LoanEvent, LoanOptions, LoanResult, LoanRow, PaymentHoliday, Prepayment, RateChange, RecurringPrepayment,
+} from './loan';
 
 
 export interface IFinance {
+    withRounding(rounding: RoundingPolicy): IFinance,
     PV(rate: number, cf1: number, numOfPeriod: number): number,
     FV(rate: number, cf0: number, numOfPeriod: number): number,
-    NPV(rate: number, ...cf: number[]): number,
-    IRR(cfs: CashFlow): number,
+    NPV(rate: number | YieldCurve, ...cf: number[]): number,
+    IRR(cfs: CashFlow, options?: SolverOptions): number,
+    allIRR(cashFlow: number[], options?: IRRScanOptions): MultipleIRR,
+    MIRR(cashFlow: number[], financeRate: number, reinvestRate: number): number,
     PP(numOfPeriods: number, ...cfs: number[]): number | undefined,
+    payback(cashFlows: number[], even?: boolean): PaybackResult,
+    discountedPayback(rate: number | YieldCurve, cashFlows: number[]): PaybackResult,
+    breakEven(fixedCost: number, variableCost: number, price: number): BreakEven,
     ROI(cf0: number, earnings: number): number,
     AM(principal: number, rate: number, period: number, yearOrMonth?: number, payAtBeginning?: boolean): number,
-    PI(rate: number, cfs: number[]): number,
-    DF(rate: number, numOfPeriods: number): number[],
+    amortizationSchedule(options: ScheduleOptions): ScheduleRow[],
+    modelLoan(options: LoanOptions): LoanResult,
+    PI(rate: number | YieldCurve, cfs: number[]): number,
+    DF(rate: number | YieldCurve, numOfPeriods: number): number[],
     CI(rate: number, numOfCompoundings: number, principal: number, numOfPeriods: number): number,
     CAGR(beginningValue: number, endingValue: number, numOfPeriods: number): number,
     LR(totalLiabilities: number, totalDebts: number, totalIncome: number): number,
@@ -19,9 +124,69 @@ export interface IFinance {
     WACC(marketValueOfEquity: number, marketValueOfDebt: number, costOfEquity: number, costOfDebt: number, taxRate: number): number,
     PMT(rate: number, numOfPayments: number, principal: number): number,
     IAR(investmentReturn: number, inflationRate: number): number,
-    XIRR(cfs: number[], dts: Date[], guess: number): number,
+    APR(principal: number, rate: number, numOfPayments: number, fees?: number): number,
+    APY(rate: number, compoundings: Compounding): number,
+    convertCompounding(rate: number, from: Compounding, to: Compounding): number,
+    compareLoans(offers: LoanOffer[], discountRate: number): LoanComparison,
+    refinanceBreakEven(options: RefinanceOptions): RefinanceResult,
+    affordability(options: AffordabilityOptions): Affordability,
+    DTI(monthlyDebtPayments: number, monthlyIncome: number): number,
+    analyzeRatios(statements: FinancialStatements, options?: RatioOptions): RatioAnalysis,
+    statementGrowth(statements: FinancialStatements[]): Record<GrowthMetric, Growth>,
+    XNPV(rate: number, cfs: number[], dts: Date[], dayCount?: DayCount): number,
+    XIRR(cfs: number[], dts: Date[], guess?: number, options?: XIRROptions): number,
+    XMIRR(cfs: number[], dts: Date[], financeRate: number, reinvestRate: number, dayCount?: DayCount): number,
+    TWR(valuations: Valuation[], flows?: ExternalFlow[], dayCount?: DayCount): number,
+    MWR(valuations: Valuation[], flows?: ExternalFlow[], options?: XIRROptions): number,
     CAPM(rf: number, beta: number, emr: number, err: number): number,
-    stockPV(g: number, ke: number, D0: number): number
+    stockPV(g: number, ke: number, D0: number): number,
+    twoStageDDM(options: DividendDiscountOptions): number,
+    threeStageDDM(options: ThreeStageOptions): number,
+    hModel(options: HModelOptions): number,
+    DCF(options: DcfOptions): DcfResult,
+    RATE(numOfPeriods: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming, guess?: number): number,
+    NPER(ratePerPeriod: number, payment: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number,
+    IPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number,
+    PPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue?: number, type?: PaymentTiming): number,
+    CUMIPMT(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number,
+    CUMPRINC(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number,
+    EFFECT(nominalRate: number, npery: number): number,
+    NOMINAL(effectRate: number, npery: number): number,
+    SLN(cost: number, salvage: number, life: number): number,
+    SYD(cost: number, salvage: number, life: number, period: number): number,
+    DB(cost: number, salvage: number, life: number, period: number, month?: number): number,
+    DDB(cost: number, salvage: number, life: number, period: number, factor?: number): number,
+    VDB(cost: number, salvage: number, life: number, startPeriod: number, endPeriod: number, factor?: number, noSwitch?: boolean): number,
+    MACRS(cost: number, recoveryPeriod: MacrsClass, year: number): number,
+    depreciationSchedule(options: DepreciationOptions): DepreciationRow[],
+    bondAnalytics(bond: Bond, yieldRate: number): BondAnalytics,
+    YTM(bond: Bond, price: number, options?: SolverOptions): number,
+    YTC(bond: Bond, price: number, call: CallSchedule, options?: SolverOptions): number,
+    blackScholes(contract: OptionContract): OptionValuation,
+    impliedVolatility(contract: Omit<OptionContract, 'volatility'>, price: number, options?: SolverOptions): number,
+    binomialPrice(contract: OptionContract, options?: BinomialOptions): number,
+    simulate(options: SimulationOptions): SimulationResult,
+    tornado(options: TornadoOptions): TornadoResult,
+    dataTable(options: DataTableOptions): DataTable
+}
+
+export interface FinanceOptions {
+    /**
+     * rounding applied to the result of every method. Without a policy each method keeps its historical
+     * rounding, mostly 2 decimal places.
+     */
+    rounding?: RoundingPolicy;
+    /**
+     * number backend NPV, PI, AM, PMT and amortization schedules run on, e.g. decimalArithmetic for exact decimal
+     * arithmetic. Defaults to IEEE doubles.
+     */
+    arithmetic?: Arithmetic<unknown>;
+    /**
+     * unit of every rate and return taken or returned, including solver guesses and brackets. Without a unit each
+     * method keeps its historical units: percent for most rates, decimals for IAR's inputs, XIRR's guess and solver
+     * options, the spreadsheet functions (RATE to NOMINAL) and a decimal result from CAPM.
+     */
+    rateUnit?: RateUnit;
 }
 
 export interface CashFlow {
@@ -29,8 +194,24 @@ export interface CashFlow {
     cashFlow: number[];
 }
 
+const UNROUNDED: RoundingPolicy = { mode: 'none' };
 
 export default class Finance implements IFinance {
+    private readonly options: FinanceOptions;
+
+    constructor(options: FinanceOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Returns a copy of the calculator that rounds with the given policy, to override the rounding for a call
+     * @param rounding - decimal places and rounding mode
+     * @returns {Finance} - calculator using the policy
+     * @example withRounding({ mode: 'none' }).PV(10, 100) // 90.9090909090909
+     */
+    withRounding(rounding: RoundingPolicy): Finance {
+        return new Finance({ ...this.options, rounding });
+    }
 
     /**
      * Present Value (PV) - the value of a cash flow at the beginning of the period ( Calculates the present value of a cash flow)
@@ -41,8 +222,10 @@ export default class Finance implements IFinance {
      * @example PV(10, 100, 1) // 90.91
      */
     PV(rate: number, cf1: number, numOfPeriod = 1): number {
-        const pv = cf1 / Math.pow((1 + rate / 100), numOfPeriod);
-        return Math.round(pv * 100) / 100;
+        const r = this.toFraction('rate', rate, 'percent');
+        assertFinite('cf1', cf1);
+        assertNonNegative('numOfPeriod', numOfPeriod);
+        return this.round(budgeting.presentValue({ rate: r, amount: cf1, periods: numOfPeriod }));
     }
 
     /**
@@ -54,87 +237,133 @@ export default class Finance implements IFinance {
      * @example FV(10, 100, 1) // 109.09
      */
     FV(rate: number, cf0: number, numOfPeriod = 1): number {
-        const fv = cf0 * Math.pow((1 + rate / 100), numOfPeriod);
-        return Math.round(fv * 100) / 100;
+        const r = this.toFraction('rate', rate, 'percent');
+        assertFinite('cf0', cf0);
+        assertNonNegative('numOfPeriod', numOfPeriod);
+        return this.round(budgeting.futureValue({ rate: r, amount: cf0, periods: numOfPeriod }));
     }
 
 
     /**
      *  Net Present Value (NPV) - the sum of the present values of a series of cash flows
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param cf - cash flows
      * @returns {number} - net present value
      * @example NPV(10, 100, 100, 100) // 259.37
      */
-    NPV(rate: number, ...cf: number[]): number {
-        let npv = cf[0];
-        rate /= 100;
-        for (let i = 1; i < cf.length; i++) {
-            npv += cf[i] / Math.pow((1 + rate), i);
-        }
-        return Math.round(npv * 100) / 100;
+    NPV(rate: number | YieldCurve, ...cf: number[]): number {
+        const r = rate instanceof YieldCurve ? rate : this.exactFraction('rate', rate, 'percent');
+        assertCashFlows('cf', cf);
+        return budgeting.npv({ rate: r, cashFlows: cf, ...this.backend });
     }
 
     /**
      * Internal Rate of Return (IRR) - the discount rate that makes the net present value of a series of cash flows equal to zero
      * Calculates the internal rate of return of a cash flow
-     * @param cfs - cash flows
+     * @param cfs - cash flows, depth caps the number of solver iterations
+     * @param options - solver tolerance, iteration cap, bracket and guess (rates as fractions unless a rate unit is set)
      * @returns {number} - internal rate of return
      * @example IRR(100, -100, 100) // 50
      */
-    IRR(cfs: CashFlow): number {
+    IRR(cfs: CashFlow, options: SolverOptions = {}): number {
         const { depth, cashFlow } = cfs;
-        let numberOfTries = 1;
-        // Cash flow values must contain at least one positive value and one negative value
-        let positive = false;
-        let negative = false;
-        cashFlow.forEach((value) => {
-            if (value > 0) positive = true;
-            if (value < 0) negative = true;
-        });
-        if (!positive || !negative) {
-            throw new Error('IRR requires at least one positive value and one negative value');
-        }
-        function npv(rate: number): number {
-            numberOfTries++;
-            if (numberOfTries > depth) {
-                throw new Error("IRR can't find a result");
-            }
-            const rrate = 1 + rate / 100;
-            let npv = cashFlow[0];
-            for (let i = 1; i < cashFlow.length; i++) {
-                npv += cashFlow[i] / Math.pow(rrate, i);
-            }
-            return npv;
-        }
-        return Math.round(this.seekZero(npv) * 100) / 100;
+        assertInteger('depth', depth);
+        assertCashFlows('cashFlow', cashFlow, 2);
+        return this.roundRate(budgeting.irr({ cashFlows: cashFlow, maxIterations: depth, ...this.solverOptions(options) }), 'percent');
+    }
+
+    /**
+     * All IRRs - every rate in a range that makes the net present value zero, for non-conventional cash flows
+     * whose sign changes more than once
+     * @param cashFlow - cash flows
+     * @param options - range of rates (fractions), scan steps and solver tolerance
+     * @returns {MultipleIRR} - IRRs (percent unless a rate unit is set), the sign change count and a multiple roots warning
+     * @example allIRR([-100, 230, -132]) // { rates: [10, 20], signChanges: 2, multipleRoots: true }
+     */
+    allIRR(cashFlow: number[], options: IRRScanOptions = {}): MultipleIRR {
+        const range: [number, number] | undefined = options.range
+            && [this.toFraction('range', options.range[0], 'decimal'), this.toFraction('range', options.range[1], 'decimal')];
+        assertCashFlows('cashFlow', cashFlow, 2);
+        const result = budgeting.allIrr({ ...options, cashFlows: cashFlow, range });
+        return { ...result, rates: result.rates.map((rate) => this.roundRate(rate, 'percent')) };
+    }
+
+    /**
+     * Modified Internal Rate of Return (MIRR) - the return when negative cash flows are financed at the finance rate
+     * and positive cash flows are reinvested at the reinvestment rate
+     * @param cashFlow - cash flows, one per period
+     * @param financeRate - interest rate paid on the money used in the cash flows
+     * @param reinvestRate - interest rate received on the cash flows as they are reinvested
+     * @returns {number} - modified internal rate of return
+     * @example MIRR([-120000, 39000, 30000, 21000, 37000, 46000], 10, 12) // 12.61
+     */
+    MIRR(cashFlow: number[], financeRate: number, reinvestRate: number): number {
+        const finance = this.toFraction('financeRate', financeRate, 'percent');
+        const reinvest = this.toFraction('reinvestRate', reinvestRate, 'percent');
+        assertCashFlows('cashFlow', cashFlow, 2);
+        assertSignChange('cashFlow', cashFlow, 'MIRR');
+        return this.roundRate(budgeting.mirr({ cashFlows: cashFlow, financeRate: finance, reinvestRate: reinvest }), 'percent');
     }
 
     /**
      * Payback Period (PP) - the number of years required to recover the initial investment
-     * @param numOfPeriods - number of periods
+     * @param numOfPeriods - number of periods, 0 when cfs[1] is received every period
      * @param cfs - cash flows
-     * @returns {number} - payback period
+     * @returns {number | undefined} - payback period, undefined when the investment is never recovered; see payback for the details
+     * @example PP(5, -50, 10, 13, 16, 19, 22) // 3.58
      */
     PP(numOfPeriods: number, ...cfs: number[]): number | undefined {
-        // for even cash flows
+        assertInteger('numOfPeriods', numOfPeriods, 0);
+        assertCashFlows('cfs', cfs, 2);
+        // numOfPeriods 0 marks even cash flows
         if (numOfPeriods === 0) {
-            return Math.abs(cfs[0]) / cfs[1];
+            assertPositive('cfs[1]', cfs[1]);
+        } else if (cfs[0] >= 0) {
+            throw new ValidationError(`cfs[0], the initial investment, must be negative, got ${cfs[0]}`, 'cfs[0]');
         }
+        const payback = budgeting.paybackPeriod({ cashFlows: cfs, even: numOfPeriods === 0 });
+        return payback === undefined ? undefined : this.round(payback, UNROUNDED);
+    }
 
-        // for uneven cash flows
-        let cumulativeCashFlow = cfs[0];
-        let yearsCounter = 1;
-
-        for (let i = 1; i < cfs.length; i++) {
-            cumulativeCashFlow += cfs[i];
-            if (cumulativeCashFlow > 0) {
-                yearsCounter += (cumulativeCashFlow - cfs[i]) / cfs[i];
-                return yearsCounter;
-            } else {
-                yearsCounter++;
-            }
-        }
+    /**
+     * Payback - when the cumulative cash flows recover the initial investment, with the cumulative cash flow of every period
+     * @param cashFlows - initial investment, negative, then the cash flows recovering it
+     * @param even - true when cashFlows[1] is received every period, defaults to false
+     * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative cash flows
+     * @example payback([-50, 10, 13, 16, 19, 22]).fractionalPeriod // 3.58
+     */
+    payback(cashFlows: number[], even: boolean = false): PaybackResult {
+        return this.paybackResult(budgeting.payback({ cashFlows, even }));
+    }
+
+    /**
+     * Discounted payback - when the cumulative present values of the cash flows recover the initial investment
+     * @param rate - discount rate, or a yield curve discounting period i at time i years
+     * @param cashFlows - initial investment, negative, then the cash flows recovering it
+     * @returns {PaybackResult} - whether the investment is recovered, the recovery period, the fractional payback period and the cumulative present values
+     * @example discountedPayback(10, [-100, 50, 50, 50]).fractionalPeriod // 2.35
+     */
+    discountedPayback(rate: number | YieldCurve, cashFlows: number[]): PaybackResult {
+        const r = rate instanceof YieldCurve ? rate : this.toFraction('rate', rate, 'percent');
+        return this.paybackResult(budgeting.discountedPayback({ rate: r, cashFlows }));
+    }
+
+    /**
+     * Break-even - the units and revenue at which the contribution margin covers the fixed costs
+     * @param fixedCost - fixed costs of the period
+     * @param variableCost - variable cost per unit
+     * @param price - price per unit
+     * @returns {BreakEven} - break-even units and revenue, and the contribution margin per unit and as a percentage of the price
+     * @example breakEven(10000, 30, 50) // { units: 500, revenue: 25000, contributionMargin: 20, contributionMarginRatio: 40 }
+     */
+    breakEven(fixedCost: number, variableCost: number, price: number): BreakEven {
+        const result = budgeting.breakEven({ fixedCost, variableCost, price });
+        return {
+            units: this.round(result.units),
+            revenue: this.round(result.revenue),
+            contributionMargin: this.round(result.contributionMargin),
+            contributionMarginRatio: this.roundRate(result.contributionMarginRatio, 'percent'),
+        };
     }
 
     /**
@@ -145,81 +374,95 @@ export default class Finance implements IFinance {
      * @example ROI(100, 100) // 0
      */
     ROI(cf0: number, earnings: number): number {
-        const roi = (earnings - Math.abs(cf0)) / Math.abs(cf0) * 100;
-        return Math.round(roi * 100) / 100;
+        assertFinite('cf0', cf0);
+        if (cf0 === 0) {
+            throw new ValidationError('cf0 must not be 0', 'cf0');
+        }
+        return this.roundRate(roi({ investment: cf0, earnings }), 'percent');
     }
 
     /**
      * Amortization - the process of paying off a debt (loan) over a period of time through regular payments
      * @param principal - principal amount
-     * @param rate - interest rate
-     * @param period - number of periods
-     * @param yearOrMonth - 1 - year, 0 - month
+     * @param rate - annual interest rate, compounded monthly
+     * @param period - loan term
+     * @param yearOrMonth - 0 - term in years, 1 - term in months. Payments are monthly either way
      * @param payAtBeginning - true - pay at the beginning of the period, false - pay at the end of the period
-     * @returns {number} - amortization
+     * @returns {number} - monthly payment
      * @example AM(100, 10, 1, 1, true) // 8.33 (yearly, pay at the beginning of the period)
      */
     AM(principal: number, rate: number, period: number, yearOrMonth?: number, payAtBeginning?: boolean): number {
-        const ratePerPeriod = rate / 12 / 100;
-        let numerator: number, denominator: number;
-
-        if (!yearOrMonth) {
-            numerator = buildNumerator(period * 12);
-            denominator = Math.pow(1 + ratePerPeriod, period * 12) - 1;
-        } else if (yearOrMonth === 1) {
-            numerator = buildNumerator(period);
-            denominator = Math.pow(1 + ratePerPeriod, period) - 1;
-        } else {
-            console.log("not defined");
-            return 0;
+        const r = this.exactFraction('rate', rate, 'percent');
+        assertPositive('period', period);
+        if (yearOrMonth !== undefined && yearOrMonth !== 0 && yearOrMonth !== 1) {
+            throw new ValidationError(`yearOrMonth must be 0 (years) or 1 (months), got ${yearOrMonth}`, 'yearOrMonth');
         }
+        const numOfPayments = yearOrMonth === 1 ? period : period * 12;
+        assertInteger('numOfPayments', numOfPayments);
+        return loanPayment({ principal, rate: r, numOfPayments, payAtBeginning, ...this.backend });
+    };
 
-        const am = principal * (numerator / denominator);
-        return Math.round(am * 100) / 100;
+    /**
+     * Amortization Schedule - every payment of a loan split into interest and principal, with the final payment
+     * adjusted so the schedule ends at exactly zero
+     * @param options - principal, annual rate, number of payments, frequency, start date, payAtBeginning
+     * @returns {ScheduleRow[]} - date, opening balance, payment, interest, principal, closing balance and cumulative interest of each period
+     * @example amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60 })[0].payment // 400.76
+     */
+    amortizationSchedule(options: ScheduleOptions): ScheduleRow[] {
+        return amortizationSchedule({
+            rounding: this.options.rounding,
+            arithmetic: this.options.arithmetic,
+            ...options,
+            rate: this.toPercent('rate', options.rate),
+        });
+    }
 
-        function buildNumerator(numInterestAccruals: number): number {
-            if (payAtBeginning) {
-                numInterestAccruals -= 1;
-            }
-            return ratePerPeriod * Math.pow(1 + ratePerPeriod, numInterestAccruals);
-        }
-    };
+    /**
+     * Loan Model - the schedule of a loan with one-off and recurring prepayments, rate changes, interest-only periods,
+     * payment holidays and balloon payments
+     * @param options - principal, annual rate, number of payments, frequency, start date and events
+     * @returns {LoanResult} - updated schedule, total interest, interest saved and the new payoff date
+     * @example modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, events: [{ type: 'recurringPrepayment', startDate, amount: 100 }] })
+     */
+    modelLoan(options: LoanOptions): LoanResult {
+        const events = (options.events || []).map((event): LoanEvent =>
+            event.type === 'rateChange' ? { ...event, rate: this.toPercent('events.rate', event.rate) } : event);
+        return modelLoan({
+            rounding: this.options.rounding,
+            arithmetic: this.options.arithmetic,
+            ...options,
+            rate: this.toPercent('rate', options.rate),
+            events,
+        });
+    }
 
     /**
      * Profitability Index (PI) - the ratio of the present value of cash inflows to the present value of cash outflows
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param cfs - cash flows
      * @returns {number} - profitability index
      * @example PI(10, 100, -100, 100) // 1.5 (yearly)
      */
-    PI(rate: number, cfs: number[]): number {
-        let totalOfPVs = 0;
-
-        for (let i = 1; i < cfs.length; i++) {
-            const discountFactor = 1 / Math.pow(1 + rate / 100, i);
-            totalOfPVs += cfs[i] * discountFactor;
+    PI(rate: number | YieldCurve, cfs: number[]): number {
+        const r = rate instanceof YieldCurve ? rate : this.exactFraction('rate', rate, 'percent');
+        assertCashFlows('cfs', cfs, 2);
+        if (cfs[0] === 0) {
+            throw new ValidationError('cfs[0], the initial investment, must not be 0', 'cfs[0]');
         }
-
-        const PI = totalOfPVs / Math.abs(cfs[0]);
-        return Math.round(PI * 100) / 100;
+        return budgeting.profitabilityIndex({ rate: r, cashFlows: cfs, ...this.backend });
     };
 
     /**
      * Discount Factor (DF) - the present value of a future cash flow 
-     * @param rate - interest rate
+     * @param rate - interest rate, or a yield curve discounting period i at time i years
      * @param numOfPeriods - number of periods
      * @returns {number[]} - discount factors
      */
-    DF(rate: number, numOfPeriods: number): number[] {
-        const dfs = new Array(numOfPeriods - 1);
-        const onePlusRate = 1 + rate / 100;
-
-        for (let i = 1; i < numOfPeriods; i++) {
-            const discountFactor = 1 / Math.pow(onePlusRate, i - 1);
-            const roundedDiscountFactor = Math.ceil(discountFactor * 1000) / 1000;
-            dfs[i - 1] = roundedDiscountFactor;
-        }
-        return dfs;
+    DF(rate: number | YieldCurve, numOfPeriods: number): number[] {
+        const r = rate instanceof YieldCurve ? rate : this.toFraction('rate', rate, 'percent');
+        assertInteger('numOfPeriods', numOfPeriods);
+        return budgeting.discountFactors({ rate: r, periods: numOfPeriods - 1 }).map((factor) => this.round(factor, { decimals: 3, mode: 'ceil' }));
     };
 
     /**
@@ -232,11 +475,11 @@ export default class Finance implements IFinance {
      * @example CI(10, 1, 100, 1) // 110 (yearly)
      */
     CI(rate: number, numOfCompoundings: number, principal: number, numOfPeriods: number): number {
-        const ratePerCompounding = (rate / 100) / numOfCompoundings;
-        const onePlusRatePerCompounding = 1 + ratePerCompounding;
-        const compoundings = numOfCompoundings * numOfPeriods;
-        const CI = principal * Math.pow(onePlusRatePerCompounding, compoundings);
-        return ((CI * 100) | 0) / 100;
+        const r = this.toFraction('rate', rate, 'percent');
+        assertPositive('numOfCompoundings', numOfCompoundings);
+        assertNonNegative('numOfPeriods', numOfPeriods);
+        const CI = compoundInterest({ rate: r, principal, periods: numOfPeriods, compoundings: numOfCompoundings });
+        return this.round(CI, { decimals: 2, mode: 'floor' });
     };
 
     /**
@@ -248,13 +491,13 @@ export default class Finance implements IFinance {
      * @example CAGR(100, 200, 1) // 100 (yearly)
      */
     CAGR(beginningValue: number, endingValue: number, numOfPeriods: number): number {
-        const power = 1 / numOfPeriods;
-        const CAGR = Math.pow(endingValue / beginningValue, power) - 1;
-        return Math.round(CAGR * 10000) / 100;
+        assertPositive('numOfPeriods', numOfPeriods);
+        return this.roundRate(cagr({ beginningValue, endingValue, periods: numOfPeriods }), 'percent');
     };
 
     /**
-     * Leverage Ratio (LR) - the ratio of total liabilities and total debts to total income
+     * Leverage Ratio (LR) - the ratio of total liabilities and total debts to total income. Not a standard leverage
+     * ratio; analyzeRatios has debt-to-equity, debt-to-assets and the equity multiplier.
      * @param totalLiabilities - total liabilities
      * @param totalDebts - total debts
      * @param totalIncome - total income
@@ -262,7 +505,7 @@ export default class Finance implements IFinance {
      * @example LR(100, 100, 100) // 2
      */
     LR(totalLiabilities: number, totalDebts: number, totalIncome: number): number {
-        return (totalLiabilities + totalDebts) / totalIncome;
+        return this.round(leverageRatio({ totalLiabilities, totalDebts, totalIncome }), UNROUNDED);
     };
 
     /**
@@ -271,7 +514,8 @@ export default class Finance implements IFinance {
      * @returns {number} - rule of 72
      */
     R72(rate: number): number {
-        return 72 / rate;
+        const r = this.toFraction('rate', rate, 'percent');
+        return this.round(ruleOf72(r), UNROUNDED);
     }
 
     /**
@@ -285,90 +529,278 @@ export default class Finance implements IFinance {
      * @example WACC(100, 100, 10, 10, 10) // 10 
      */
     WACC(marketValueOfEquity: number, marketValueOfDebt: number, costOfEquity: number, costOfDebt: number, taxRate: number): number {
-        const E = marketValueOfEquity;
-        const D = marketValueOfDebt;
-        const V = marketValueOfEquity + marketValueOfDebt;
-        const Re = costOfEquity;
-        const Rd = costOfDebt;
-        const T = taxRate;
-
-        const WACC = (E / V) * (Re / 100) + (D / V) * (Rd / 100) * (1 - T / 100);
-        return Math.round(WACC * 1000) / 10;
+        const Re = this.toFraction('costOfEquity', costOfEquity, 'percent');
+        const Rd = this.toFraction('costOfDebt', costOfDebt, 'percent');
+        const T = this.toFraction('taxRate', taxRate, 'percent');
+        const inputs = { equity: marketValueOfEquity, debt: marketValueOfDebt, costOfEquity: Re, costOfDebt: Rd, taxRate: T };
+        return this.roundRate(wacc(inputs), 'percent', { decimals: 1 });
     }
 
     /**
      * Loan Payment calculation - calculates the monthly payment for a loan
-     * @param rate - interest rate
+     * @param rate - annual interest rate, compounded monthly
      * @param numOfPayments - number of payments
      * @param principal - principal amount
      * @returns {number} - loan payment
      * @example PMT(10, 12, 100) // 10
      */
     PMT(rate: number, numOfPayments: number, principal: number): number {
-        const monthlyRate = rate / 1200;
-        const pmt = -(principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -numOfPayments));
-        return Math.round(pmt * 100) / 100;
+        const r = this.exactFraction('rate', rate, 'percent');
+        assertPositive('numOfPayments', numOfPayments);
+        assertFinite('principal', principal);
+        return loanPayment({ principal: -principal, rate: r, numOfPayments, ...this.backend });
     };
 
     /**
      * IAR calculates the Inflation-adjusted return - the return on an investment after adjusting for inflation
-     * @param investmentReturn - investment return
-     * @param inflationRate - inflation rate
-     * @returns {number} - inflation-adjusted return
-     * @example IAR(10, 10) // 0
+     * @param investmentReturn - investment return, as a decimal unless a rate unit is set
+     * @param inflationRate - inflation rate, as a decimal unless a rate unit is set
+     * @returns {number} - inflation-adjusted return in percent
+     * @example IAR(0.1, 0.1) // 0
      */
     IAR(investmentReturn: number, inflationRate: number): number {
-        return 100 * (((1 + investmentReturn) / (1 + inflationRate)) - 1);
+        const nominal = this.toFraction('investmentReturn', investmentReturn, 'decimal');
+        const inflation = this.toFraction('inflationRate', inflationRate, 'decimal');
+        return this.roundRate(realReturn({ nominalReturn: nominal, inflation }), 'percent', UNROUNDED);
     };
 
     /**
-     * XIRR - IRR for irregular intervals
-     * @param cfs - cash flows
-     * @param dts - dates
-     * @param guess - guess for XIRR
-     * @returns {number} - The internal rate of return (IRR) for a series of cash flows that occur at irregular intervals.
+     * Annual Percentage Rate (APR) - the yearly cost of a loan with monthly payments, including its upfront fees
+     * @param principal - principal amount
+     * @param rate - annual interest rate, compounded monthly
+     * @param numOfPayments - number of monthly payments
+     * @param fees - finance charges paid upfront, e.g. origination fees and points
+     * @returns {number} - annual percentage rate
+     * @example APR(200000, 6, 360, 4000) // 6.19
      */
-    XIRR(cfs: number[], dts: Date[], guess: number = 0): number {
-        if (cfs.length !== dts.length) {
-            throw new Error('Number of cash flows and dates should match');
-        }
+    APR(principal: number, rate: number, numOfPayments: number, fees: number = 0): number {
+        const r = this.toFraction('rate', rate, 'percent');
+        return this.roundRate(apr({ principal, rate: r, numOfPayments, fees }).apr, 'percent');
+    }
 
-        let positive = false, negative = false;
-        for (let value of cfs) {
-            if (value > 0) {
-                positive = true;
-            }
-            if (value < 0) {
-                negative = true;
-            }
-        }
+    /**
+     * Annual Percentage Yield (APY) - the effective annual rate of a nominal rate with its compounding
+     * @param rate - annual nominal rate
+     * @param compoundings - compoundings per year, or 'continuous'
+     * @returns {number} - annual percentage yield
+     * @example APY(5, 12) // 5.12
+     */
+    APY(rate: number, compoundings: Compounding): number {
+        const r = this.toFraction('rate', rate, 'percent');
+        return this.roundRate(apy({ rate: r, compoundings }), 'percent');
+    }
 
-        if (!positive || !negative) {
-            throw new Error('XIRR requires at least one positive value and one negative value');
-        }
+    /**
+     * Converts a nominal rate between compoundings, keeping the growth over a year the same
+     * @param rate - annual nominal rate
+     * @param from - compoundings per year of the rate, or 'continuous'
+     * @param to - compoundings per year of the result, or 'continuous'
+     * @returns {number} - annual nominal rate at the target compounding
+     * @example convertCompounding(5, 12, 'continuous') // 4.98961...
+     */
+    convertCompounding(rate: number, from: Compounding, to: Compounding): number {
+        const r = this.toFraction('rate', rate, 'percent');
+        return this.roundRate(convertCompounding({ rate: r, from, to }), 'percent', UNROUNDED);
+    }
 
-        let limit = 100; // loop limit
-        let guessLast: number;
-        const durs: number[] = [0];
+    /**
+     * Loan comparison - the total cost and the present value of cost of loan offers, and which is cheapest by each
+     * @param offers - principal, annual rate, number of payments, frequency and fees of each offer
+     * @param discountRate - annual rate the payments are discounted at
+     * @returns {LoanComparison} - cost of each offer and the indexes of the cheapest
+     * @example compareLoans([{ principal: 10000, rate: 6, numOfPayments: 36 }, { principal: 10000, rate: 5, numOfPayments: 36, fees: 300 }], 4).lowestNpv // 0
+     */
+    compareLoans(offers: LoanOffer[], discountRate: number): LoanComparison {
+        const result = compareLoans({
+            offers: (offers || []).map((offer, i) => ({ ...offer, rate: this.toFraction(`offers[${i}].rate`, offer.rate, 'percent') })),
+            discountRate: this.toFraction('discountRate', discountRate, 'percent'),
+        });
+        return {
+            ...result,
+            offers: result.offers.map((offer) => ({
+                ...offer,
+                payment: this.round(offer.payment),
+                totalOfPayments: this.round(offer.totalOfPayments),
+                totalInterest: this.round(offer.totalInterest),
+                totalCost: this.round(offer.totalCost),
+                npv: this.round(offer.npv),
+                apr: this.roundRate(offer.apr, 'percent'),
+            })),
+        };
+    }
 
-        // Create Array of durations from First date
-        for (let i = 1; i < dts.length; i++) {
-            durs.push(this.durYear(dts[0], dts[i]));
-        }
+    /**
+     * Refinance break-even - the month the payments saved by refinancing a loan first cover the closing costs
+     * @param options - balance, annual rate and remaining monthly payments of the current loan, annual rate and payments of the
+     * new loan, and closing costs
+     * @returns {RefinanceResult} - both payments, the monthly savings, the break-even month and the net savings
+     * @example refinanceBreakEven({ balance: 200000, currentRate: 7, remainingPayments: 300, newRate: 5.5, closingCosts: 4000 }).breakEvenMonth // 22
+     */
+    refinanceBreakEven(options: RefinanceOptions): RefinanceResult {
+        const result = refinanceBreakEven({
+            ...options,
+            currentRate: this.toFraction('currentRate', options.currentRate, 'percent'),
+            newRate: this.toFraction('newRate', options.newRate, 'percent'),
+        });
+        return {
+            ...result,
+            currentPayment: this.round(result.currentPayment),
+            newPayment: this.round(result.newPayment),
+            monthlySavings: this.round(result.monthlySavings),
+            netSavings: this.round(result.netSavings),
+        };
+    }
+
+    /**
+     * Affordability - the largest loan whose monthly payment keeps debt payments within a target share of income
+     * @param options - gross monthly income, target debt-to-income ratio, other monthly debt payments, and the annual rate and
+     * monthly payments of the loan
+     * @returns {Affordability} - highest monthly payment and the principal it repays
+     * @example affordability({ monthlyIncome: 8000, targetDti: 36, otherDebtPayments: 500, rate: 6, numOfPayments: 360 }).maxPrincipal // 396964.04
+     */
+    affordability(options: AffordabilityOptions): Affordability {
+        const result = affordability({
+            ...options,
+            targetDti: this.toFraction('targetDti', options.targetDti, 'percent'),
+            rate: this.toFraction('rate', options.rate, 'percent'),
+        });
+        return { maxPayment: this.round(result.maxPayment), maxPrincipal: this.round(result.maxPrincipal) };
+    }
+
+    /**
+     * Debt-to-Income ratio (DTI) - monthly debt payments as a percentage of gross monthly income
+     * @param monthlyDebtPayments - monthly payments on all debts
+     * @param monthlyIncome - gross monthly income
+     * @returns {number} - debt-to-income ratio
+     * @example DTI(2000, 8000) // 25
+     */
+    DTI(monthlyDebtPayments: number, monthlyIncome: number): number {
+        return this.roundRate(debtToIncome({ monthlyDebtPayments, monthlyIncome }), 'percent');
+    }
 
-        do {
-            guessLast = guess;
-            guess = guessLast - this.sumEq(cfs, durs, guessLast);
-            limit--;
+    /**
+     * Ratio analysis - liquidity, leverage, coverage, efficiency and profitability ratios of a period's financial
+     * statements, with the DuPont decomposition of return on equity
+     * @param statements - income statement, closing balance sheet, cash flow statement and opening balance sheet
+     * @param options - days in the period
+     * @returns {RatioAnalysis} - margins and returns in percent, other ratios as multiples or days, flagged when a
+     * statement field is missing or a denominator is 0
+     * @example analyzeRatios({ income: { revenue: 1000, netIncome: 100 }, balance: { shareholdersEquity: 500 } }).profitability.returnOnEquity // { value: 20 }
+     */
+    analyzeRatios(statements: FinancialStatements, options?: RatioOptions): RatioAnalysis {
+        const analysis = analyzeRatios(statements, options);
+        const { dupont } = analysis;
+        return {
+            liquidity: this.ratios(analysis.liquidity),
+            leverage: this.ratios(analysis.leverage),
+            coverage: this.ratios(analysis.coverage),
+            efficiency: this.ratios(analysis.efficiency),
+            profitability: this.ratios(analysis.profitability, true),
+            dupont: {
+                ...this.ratios(dupont),
+                operatingMargin: this.ratio(dupont.operatingMargin, true),
+                netMargin: this.ratio(dupont.netMargin, true),
+                returnOnEquity: this.ratio(dupont.returnOnEquity, true),
+            },
+        };
+    }
 
-        } while (guessLast.toFixed(5) !== guess.toFixed(5) && limit > 0);
+    /**
+     * Statement growth - growth of revenue, income, assets, equity and operating cash flow from each period to the
+     * next, and compounded from the first period to the last
+     * @param statements - financial statements of consecutive periods, oldest first
+     * @returns {Record<GrowthMetric, Growth>} - period-over-period growth and CAGR of each metric in percent
+     * @example statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]).revenue.cagr // { value: 21 }
+     */
+    statementGrowth(statements: FinancialStatements[]): Record<GrowthMetric, Growth> {
+        const growth = statementGrowth(statements);
+        Object.keys(growth).forEach((metric) => {
+            const { periodOverPeriod, cagr: compound } = growth[metric as GrowthMetric];
+            growth[metric as GrowthMetric] = {
+                periodOverPeriod: periodOverPeriod.map((ratio) => this.ratio(ratio, true)),
+                cagr: this.ratio(compound, true),
+            };
+        });
+        return growth;
+    }
 
-        const xirr = guessLast.toFixed(5) !== guess.toFixed(5) ? null : guess * 100;
+    /**
+     * XNPV - NPV for irregular intervals
+     * @param rate - interest rate
+     * @param cfs - cash flows
+     * @param dts - dates, discounted back to the first date
+     * @param dayCount - day count convention for the year fractions, defaults to ACT/365F
+     * @returns {number} - net present value of cash flows that occur at irregular intervals
+     * @example XNPV(9, [-10000, 2750, 4250, 3250, 2750], dates) // 2086.65
+     */
+    XNPV(rate: number, cfs: number[], dts: Date[], dayCount?: DayCount): number {
+        const r = this.toFraction('rate', rate, 'percent');
+        assertCashFlows('cfs', cfs);
+        assertDates('dts', dts, cfs.length);
+        return this.round(budgeting.xnpv({ rate: r, cashFlows: cfs, dates: dts, dayCount }));
+    }
+
+    /**
+     * XIRR - IRR for irregular intervals
+     * @param cfs - cash flows
+     * @param dts - dates
+     * @param guess - guess for XIRR, used as the starting point when the rate can't be bracketed
+     * @param options - solver tolerance, iteration cap and bracket, and day count convention. The guess and bracket
+     * are fractions unless a rate unit is set
+     * @returns {number} - The internal rate of return (IRR) for a series of cash flows that occur at irregular intervals.
+     */
+    XIRR(cfs: number[], dts: Date[], guess: number = 0, options: XIRROptions = {}): number {
+        assertCashFlows('cfs', cfs, 2);
+        assertDates('dts', dts, cfs.length);
+        assertSignChange('cfs', cfs, 'XIRR');
+        const solverOptions = this.solverOptions({ bracket: RATE_BRACKET, guess, ...options });
+        return this.roundRate(tvm.xirr(cfs, dts, solverOptions.guess, solverOptions), 'percent');
+    }
 
-        if (xirr === null) {
-            throw new Error('XIRR did not converge');
+    /**
+     * XMIRR - MIRR for irregular intervals
+     * @param cfs - cash flows
+     * @param dts - dates
+     * @param financeRate - interest rate paid on the money used in the cash flows
+     * @param reinvestRate - interest rate received on the cash flows as they are reinvested
+     * @param dayCount - day count convention for the year fractions, defaults to ACT/365F
+     * @returns {number} - The modified internal rate of return for cash flows that occur at irregular intervals.
+     */
+    XMIRR(cfs: number[], dts: Date[], financeRate: number, reinvestRate: number, dayCount?: DayCount): number {
+        const finance = this.toFraction('financeRate', financeRate, 'percent');
+        const reinvest = this.toFraction('reinvestRate', reinvestRate, 'percent');
+        assertCashFlows('cfs', cfs, 2);
+        assertDates('dts', dts, cfs.length);
+        assertSignChange('cfs', cfs, 'XMIRR');
+        if (Math.max(...dts.map((date) => yearFraction(dts[0], date, dayCount))) <= 0) {
+            throw new ValidationError('dts must span more than one day', 'dts');
         }
-        return Math.round(xirr * 100) / 100;
+        return this.roundRate(budgeting.xmirr({ cashFlows: cfs, dates: dts, financeRate: finance, reinvestRate: reinvest, dayCount }), 'percent');
+    }
+
+    /**
+     * Time-weighted return (TWR) - returns between valuations linked geometrically, unaffected by the timing of
+     * external flows. Valuing the portfolio on each flow date gives the true daily-linked return.
+     * @param valuations - dates and values at the end of the day, in date order
+     * @param flows - money added to or withdrawn from the portfolio after the first valuation
+     * @param dayCount - day count convention weighting flows between valuations, defaults to ACT/365F
+     * @returns {number} - return over the whole period
+     * @example TWR([{ date: jan1, value: 1000 }, { date: jun30, value: 1100 }, { date: dec31, value: 1320 }]) // 32
+     */
+    TWR(valuations: Valuation[], flows: ExternalFlow[] = [], dayCount?: DayCount): number {
+        return this.roundRate(timeWeightedReturn({ valuations, flows, dayCount }), 'percent');
+    }
+
+    /**
+     * Money-weighted return (MWR) - XIRR of the first valuation and the flows against the last valuation
+     * @param valuations - dates and values at the end of the day, in date order
+     * @param flows - money added to or withdrawn from the portfolio after the first valuation
+     * @param options - solver tolerance, iteration cap, bracket and guess, and day count convention. The guess and
+     * bracket are fractions unless a rate unit is set
+     * @returns {number} - annual return
+     */
+    MWR(valuations: Valuation[], flows: ExternalFlow[] = [], options: XIRROptions = {}): number {
+        return this.roundRate(moneyWeightedReturn({ ...this.solverOptions(options), valuations, flows }), 'percent');
     }
 
     /**
@@ -377,11 +809,14 @@ export default class Finance implements IFinance {
      * @param beta Beta of the asset
      * @param emr Expected market return
      * @param err Equity risk premium
-     * @returns Expected return of an asset using the Capital Asset Pricing Model (CAPM).
-     * @example CAPM(10, 10, 10, 10) // 10
+     * @returns Expected return of an asset using the Capital Asset Pricing Model (CAPM), as a decimal unless a rate unit is set.
+     * @example CAPM(10, 10, 10, 10) // 0.2
      */
     CAPM(rf: number, beta: number, emr: number, err: number): number {
-        return rf / 100 + beta * (emr / 100 - rf / 100) + err / 100;
+        const riskFree = this.toFraction('rf', rf, 'percent');
+        const market = this.toFraction('emr', emr, 'percent');
+        const premium = this.toFraction('err', err, 'percent');
+        return this.roundRate(capm({ riskFree, beta, marketReturn: market, premium }), 'decimal', UNROUNDED);
     }
 
     /**
@@ -390,45 +825,611 @@ export default class Finance implements IFinance {
      * @param ke - cost of equity
      * @param D0 - dividend
      * @returns {number} - value of stock
-     * @example stockPV(10, 10, 10) // 10
+     * @example stockPV(5, 10, 2) // 42
      */
     stockPV(g: number, ke: number, D0: number): number {
-        const valueOfStock = (D0 * (1 + g / 100)) / ((ke / 100) - (g / 100));
-        return Math.round(valueOfStock);
+        const growth = this.toFraction('g', g, 'percent');
+        const costOfEquity = this.toFraction('ke', ke, 'percent');
+        assertFinite('D0', D0);
+        if (growth >= costOfEquity) {
+            throw new ValidationError('g must be lower than ke for a constant growth valuation', 'g');
+        }
+        return this.round(gordonGrowth({ dividend: D0, growth, costOfEquity }), { decimals: 0 });
+    }
+
+    /**
+     * Two-stage dividend discount model - value of a stock whose dividend grows at a high rate for some years, then
+     * at a stable rate in perpetuity
+     * @param options - dividend just paid, high growth rate and years, stable growth rate, and cost of equity or
+     * its CAPM inputs
+     * @returns {number} - value of stock
+     * @example twoStageDDM({ dividend: 1, highGrowth: 20, highGrowthYears: 3, stableGrowth: 5, costOfEquity: 10 }) // 30.84
+     */
+    twoStageDDM(options: DividendDiscountOptions): number {
+        return this.round(twoStageDDM(this.dividendDiscount(options)));
     }
 
-    private durYear(date1: Date, date2: Date): number {
-        const day = 24 * 60 * 60 * 1000;
-        const diffDays = Math.round(Math.abs((date2.getTime() - date1.getTime()) / day));
-        return diffDays / 365;
+    /**
+     * Three-stage dividend discount model - value of a stock whose dividend grows at a high rate for some years,
+     * then at a rate declining linearly over a transition, then at a stable rate in perpetuity
+     * @param options - dividend just paid, high growth rate and years, transition years, stable growth rate, and
+     * cost of equity or its CAPM inputs
+     * @returns {number} - value of stock
+     */
+    threeStageDDM(options: ThreeStageOptions): number {
+        return this.round(threeStageDDM(this.dividendDiscount(options)));
     }
 
+    /**
+     * H-model - value of a stock whose dividend growth declines linearly from an initial to a stable rate
+     * @param options - dividend just paid, initial and stable growth rates, half-life of the decline, and cost of
+     * equity or its CAPM inputs
+     * @returns {number} - value of stock
+     * @example hModel({ dividend: 1, initialGrowth: 20, stableGrowth: 5, halfLife: 5, costOfEquity: 10 }) // 36
+     */
+    hModel(options: HModelOptions): number {
+        return this.round(hModel({
+            ...options,
+            initialGrowth: this.toFraction('initialGrowth', options.initialGrowth, 'percent'),
+            stableGrowth: this.toFraction('stableGrowth', options.stableGrowth, 'percent'),
+            costOfEquity: this.discountRate('costOfEquity', options.costOfEquity),
+        }));
+    }
 
-    private sumEq(cfs: number[], durs: number[], guess: number) {
-        var sum_fx = 0;
-        var sum_fdx = 0;
-        for (var i = 0; i < cfs.length; i++) {
-            sum_fx = sum_fx + (cfs[i] / Math.pow(1 + guess, durs[i]));
+    /**
+     * Discounted cash flow (DCF) - value of forecast free cash flows to the firm (FCFF) or to equity (FCFE) plus a
+     * terminal value from perpetual growth or an exit multiple, bridged from enterprise to equity value
+     * @param options - cash flow basis, forecast cash flows, discount rate or its WACC or CAPM inputs, terminal
+     * value method, debt, cash, minority interest, preferred equity and shares outstanding
+     * @returns {DcfResult} - present values, terminal value, enterprise to equity value bridge and value per share
+     * @example DCF({ basis: 'fcff', cashFlows: [100, 110], discountRate: 10, terminalValue: { method: 'exit-multiple', multiple: 8, metric: 150 } })
+     */
+    DCF(options: DcfOptions): DcfResult {
+        const terminal = options.terminalValue;
+        const result = discountedCashFlow({
+            ...options,
+            discountRate: this.discountRate('discountRate', options.discountRate),
+            terminalValue: terminal && terminal.method === 'perpetual-growth'
+                ? { ...terminal, growth: this.toFraction('terminalValue.growth', terminal.growth, 'percent') }
+                : terminal,
+        });
+        const { bridge } = result;
+        return {
+            discountRate: this.roundRate(result.discountRate, 'percent', UNROUNDED),
+            presentValueOfCashFlows: this.round(result.presentValueOfCashFlows),
+            terminalValue: this.round(result.terminalValue),
+            presentValueOfTerminalValue: this.round(result.presentValueOfTerminalValue),
+            bridge: {
+                enterpriseValue: this.round(bridge.enterpriseValue),
+                debt: bridge.debt,
+                cash: bridge.cash,
+                minorityInterest: bridge.minorityInterest,
+                preferredEquity: bridge.preferredEquity,
+                equityValue: this.round(bridge.equityValue),
+            },
+            ...(result.valuePerShare === undefined ? {} : { valuePerShare: this.round(result.valuePerShare) }),
+        };
+    }
+
+    /**
+     * Rate per period (RATE) - the spreadsheet RATE function, solved iteratively from the guess
+     * @param numOfPeriods - number of periods
+     * @param payment - payment made each period, negative when paid out
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @param guess - starting rate, defaults to 0.1
+     * @returns {number} - rate per period, as a decimal unless a rate unit is set
+     * @example RATE(48, -200, 8000) // 0.0077
+     */
+    RATE(numOfPeriods: number, payment: number, presentValue: number, futureValue = 0, type: PaymentTiming = 0, guess?: number): number {
+        const start = guess === undefined ? 0.1 : this.toFraction('guess', guess, 'decimal');
+        const ratePerPeriod = tvm.rate(numOfPeriods, payment, presentValue, futureValue, type, start);
+        return this.roundRate(ratePerPeriod, 'decimal', UNROUNDED);
+    }
+
+    /**
+     * Number of periods (NPER) - the spreadsheet NPER function
+     * @param ratePerPeriod - interest rate per period
+     * @param payment - payment made each period, negative when paid out
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - number of periods
+     * @example NPER(0.01, -100, -1000, 10000, 1) // 59.67
+     */
+    NPER(ratePerPeriod: number, payment: number, presentValue: number, futureValue = 0, type: PaymentTiming = 0): number {
+        const r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.nper(r, payment, presentValue, futureValue, type), UNROUNDED);
+    }
+
+    /**
+     * Interest payment (IPMT) - the spreadsheet IPMT function, the interest part of one payment
+     * @param ratePerPeriod - interest rate per period
+     * @param per - period, from 1 to numOfPeriods
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - interest paid in the period
+     * @example IPMT(0.1 / 12, 1, 36, 8000) // -66.67
+     */
+    IPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue = 0, type: PaymentTiming = 0): number {
+        const r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.ipmt(r, per, numOfPeriods, presentValue, futureValue, type), UNROUNDED);
+    }
+
+    /**
+     * Principal payment (PPMT) - the spreadsheet PPMT function, the principal part of one payment
+     * @param ratePerPeriod - interest rate per period
+     * @param per - period, from 1 to numOfPeriods
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param futureValue - future value after the last payment, defaults to 0
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - principal repaid in the period
+     * @example PPMT(0.1 / 12, 1, 24, 2000) // -75.62
+     */
+    PPMT(ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue = 0, type: PaymentTiming = 0): number {
+        const r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.ppmt(r, per, numOfPeriods, presentValue, futureValue, type), UNROUNDED);
+    }
+
+    /**
+     * Cumulative interest (CUMIPMT) - the spreadsheet CUMIPMT function, interest paid between two periods
+     * @param ratePerPeriod - interest rate per period
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param startPeriod - first period, from 1
+     * @param endPeriod - last period, up to numOfPeriods
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - interest paid
+     * @example CUMIPMT(0.09 / 12, 360, 125000, 13, 24, 0) // -11135.23
+     */
+    CUMIPMT(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number {
+        const r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.cumipmt(r, numOfPeriods, presentValue, startPeriod, endPeriod, type), UNROUNDED);
+    }
+
+    /**
+     * Cumulative principal (CUMPRINC) - the spreadsheet CUMPRINC function, principal repaid between two periods
+     * @param ratePerPeriod - interest rate per period
+     * @param numOfPeriods - number of periods
+     * @param presentValue - present value
+     * @param startPeriod - first period, from 1
+     * @param endPeriod - last period, up to numOfPeriods
+     * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+     * @returns {number} - principal repaid
+     * @example CUMPRINC(0.09 / 12, 360, 125000, 13, 24, 0) // -934.11
+     */
+    CUMPRINC(ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming): number {
+        const r = this.toFraction('ratePerPeriod', ratePerPeriod, 'decimal');
+        return this.round(tvm.cumprinc(r, numOfPeriods, presentValue, startPeriod, endPeriod, type), UNROUNDED);
+    }
+
+    /**
+     * Effective annual rate (EFFECT) - the spreadsheet EFFECT function
+     * @param nominalRate - nominal annual rate
+     * @param npery - compounding periods per year
+     * @returns {number} - effective annual rate, as a decimal unless a rate unit is set
+     * @example EFFECT(0.0525, 4) // 0.053542667
+     */
+    EFFECT(nominalRate: number, npery: number): number {
+        const r = this.toFraction('nominalRate', nominalRate, 'decimal');
+        return this.roundRate(tvm.effect(r, npery), 'decimal', UNROUNDED);
+    }
+
+    /**
+     * Nominal annual rate (NOMINAL) - the spreadsheet NOMINAL function
+     * @param effectRate - effective annual rate
+     * @param npery - compounding periods per year
+     * @returns {number} - nominal annual rate, as a decimal unless a rate unit is set
+     * @example NOMINAL(0.053543, 4) // 0.05250032
+     */
+    NOMINAL(effectRate: number, npery: number): number {
+        const r = this.toFraction('effectRate', effectRate, 'decimal');
+        return this.roundRate(tvm.nominal(r, npery), 'decimal', UNROUNDED);
+    }
+
+    /**
+     * Straight-line depreciation (SLN) - the spreadsheet SLN function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @returns {number} - depreciation per period
+     * @example SLN(30000, 7500, 10) // 2250
+     */
+    SLN(cost: number, salvage: number, life: number): number {
+        return this.round(sln({ cost, salvage, life }), UNROUNDED);
+    }
+
+    /**
+     * Sum-of-years' digits depreciation (SYD) - the spreadsheet SYD function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param period - period, from 1 to life
+     * @returns {number} - depreciation in the period
+     * @example SYD(30000, 7500, 10, 10) // 409.09
+     */
+    SYD(cost: number, salvage: number, life: number, period: number): number {
+        return this.round(syd({ cost, salvage, life, period }), UNROUNDED);
+    }
+
+    /**
+     * Fixed-declining balance depreciation (DB) - the spreadsheet DB function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in years
+     * @param period - period, from 1 to life, or life + 1 with a partial first year
+     * @param month - months in the first year, defaults to 12
+     * @returns {number} - depreciation in the period
+     * @example DB(1000000, 100000, 6, 2, 7) // 259639.42
+     */
+    DB(cost: number, salvage: number, life: number, period: number, month = 12): number {
+        return this.round(db({ cost, salvage, life, period, month }), UNROUNDED);
+    }
+
+    /**
+     * Double-declining balance depreciation (DDB) - the spreadsheet DDB function
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param period - period, from 1 to life
+     * @param factor - declining balance rate, defaults to 2
+     * @returns {number} - depreciation in the period
+     * @example DDB(2400, 300, 10, 10) // 22.12
+     */
+    DDB(cost: number, salvage: number, life: number, period: number, factor = 2): number {
+        return this.round(ddb({ cost, salvage, life, period, factor }), UNROUNDED);
+    }
+
+    /**
+     * Variable declining balance depreciation (VDB) - the spreadsheet VDB function, declining balance switching
+     * to straight-line
+     * @param cost - initial cost of the asset
+     * @param salvage - value at the end of the useful life
+     * @param life - useful life in periods
+     * @param startPeriod - start of the interval
+     * @param endPeriod - end of the interval
+     * @param factor - declining balance rate, defaults to 2
+     * @param noSwitch - true - never switch to straight-line
+     * @returns {number} - depreciation over the interval
+     * @example VDB(2400, 300, 120, 6, 18) // 396.31
+     */
+    VDB(cost: number, salvage: number, life: number, startPeriod: number, endPeriod: number, factor = 2, noSwitch = false): number {
+        return this.round(vdb({ cost, salvage, life, startPeriod, endPeriod, factor, noSwitch }), UNROUNDED);
+    }
+
+    /**
+     * MACRS depreciation - US modified accelerated cost recovery system, half-year convention
+     * @param cost - depreciable basis of the asset
+     * @param recoveryPeriod - property class, 3, 5, 7, 10, 15 or 20 years
+     * @param year - recovery year, from 1 to recoveryPeriod + 1
+     * @returns {number} - depreciation in the year
+     * @example MACRS(10000, 5, 2) // 3200
+     */
+    MACRS(cost: number, recoveryPeriod: MacrsClass, year: number): number {
+        return this.round(macrs({ cost, recoveryPeriod, year }));
+    }
+
+    /**
+     * Depreciation schedule - depreciation and book value for every year of an asset's life
+     * @param options - cost, salvage, life, method, declining balance factor, first year months and rounding
+     * @returns {DepreciationRow[]} - one row per year
+     * @example depreciationSchedule({ cost: 10000, salvage: 1000, life: 5, method: 'straight-line' })[0].depreciation // 1800
+     */
+    depreciationSchedule(options: DepreciationOptions): DepreciationRow[] {
+        return depreciationSchedule({ rounding: this.options.rounding, ...options });
+    }
+
+    /**
+     * Bond analytics - clean and dirty price, accrued interest, Macaulay and modified duration, convexity and DV01
+     * at a yield
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param yieldRate - annual yield
+     * @returns {BondAnalytics} - prices and risk measures per face value
+     * @example bondAnalytics({ settlement: new Date('2008-02-15'), maturity: new Date('2017-11-15'), couponRate: 5.75 }, 6.5).cleanPrice // 94.63
+     */
+    bondAnalytics(bond: Bond, yieldRate: number): BondAnalytics {
+        const analytics = bondAnalytics(this.bond(bond), this.toFraction('yieldRate', yieldRate, 'percent'));
+        return {
+            cleanPrice: this.round(analytics.cleanPrice, UNROUNDED),
+            dirtyPrice: this.round(analytics.dirtyPrice, UNROUNDED),
+            accruedInterest: this.round(analytics.accruedInterest, UNROUNDED),
+            macaulayDuration: this.round(analytics.macaulayDuration, UNROUNDED),
+            modifiedDuration: this.round(analytics.modifiedDuration, UNROUNDED),
+            convexity: this.round(analytics.convexity, UNROUNDED),
+            dv01: this.round(analytics.dv01, UNROUNDED),
+        };
+    }
+
+    /**
+     * Yield to maturity (YTM) - the yield at which a bond's cash flows are worth its clean price
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param price - clean price per face value
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual yield
+     * @example YTM({ settlement: new Date('2008-02-15'), maturity: new Date('2016-11-15'), couponRate: 5.75 }, 95.04287) // 6.5
+     */
+    YTM(bond: Bond, price: number, options: SolverOptions = {}): number {
+        return this.roundRate(yieldToMaturity(this.bond(bond), price, this.solverOptions(options)), 'percent', UNROUNDED);
+    }
+
+    /**
+     * Yield to call (YTC) - the yield of a bond redeemed at the call price on the call date
+     * @param bond - settlement, maturity, coupon rate, face value, redemption, coupon frequency and day count
+     * @param price - clean price per face value
+     * @param call - call date and call price
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual yield
+     */
+    YTC(bond: Bond, price: number, call: CallSchedule, options: SolverOptions = {}): number {
+        return this.roundRate(yieldToCall(this.bond(bond), price, call, this.solverOptions(options)), 'percent', UNROUNDED);
+    }
+
+    /**
+     * Black-Scholes-Merton - price and Greeks of a European option on an underlying paying a continuous dividend
+     * yield. Sensitivities to rates and volatility are per unit of the configured rate unit, e.g. vega per
+     * volatility point in percent.
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+     * @returns {OptionValuation} - price and first and second order Greeks
+     * @example blackScholes({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 5, volatility: 20 }).price // 10.45
+     */
+    blackScholes(contract: OptionContract): OptionValuation {
+        const { price, greeks } = blackScholes(this.optionContract(contract));
+        const unit = this.fromFraction(1, 'percent');
+        return {
+            price: this.round(price, UNROUNDED),
+            greeks: {
+                delta: this.round(greeks.delta, UNROUNDED),
+                vega: this.round(greeks.vega / unit, UNROUNDED),
+                theta: this.round(greeks.theta, UNROUNDED),
+                rho: this.round(greeks.rho / unit, UNROUNDED),
+                epsilon: this.round(greeks.epsilon / unit, UNROUNDED),
+                gamma: this.round(greeks.gamma, UNROUNDED),
+                vanna: this.round(greeks.vanna / unit, UNROUNDED),
+                charm: this.round(greeks.charm, UNROUNDED),
+                vomma: this.round(greeks.vomma / (unit * unit), UNROUNDED),
+                veta: this.round(greeks.veta / unit, UNROUNDED),
+                vera: this.round(greeks.vera / (unit * unit), UNROUNDED),
+            },
+        };
+    }
+
+    /**
+     * Implied volatility - the volatility at which Black-Scholes-Merton prices a European option at a given price
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate and dividend yield
+     * @param price - option price
+     * @param options - solver tolerance, iteration cap, bracket and guess
+     * @returns {number} - annual volatility
+     * @example impliedVolatility({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 5 }, 10.45) // 20
+     */
+    impliedVolatility(contract: Omit<OptionContract, 'volatility'>, price: number, options: SolverOptions = {}): number {
+        const { volatility, ...quote } = this.optionContract({ ...contract, volatility: this.fromFraction(1, 'percent') });
+        return this.roundRate(impliedVolatility(quote, price, this.solverOptions(options)), 'percent', UNROUNDED);
+    }
+
+    /**
+     * Cox-Ross-Rubinstein binomial tree - price of an American or European option
+     * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+     * @param options - number of steps, defaults to 200, and exercise style, defaults to american
+     * @returns {number} - option price
+     * @example binomialPrice({ type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 5, volatility: 20 }) // 6.09
+     */
+    binomialPrice(contract: OptionContract, options: BinomialOptions = {}): number {
+        return this.round(binomialPrice(this.optionContract(contract), options), UNROUNDED);
+    }
+
+    /**
+     * Monte Carlo simulation - NPV, IRR and PI of a cash flow model over trials of randomly drawn inputs
+     * @param options - input distributions, cash flow model, discount rate, trials, seed, correlations and percentiles
+     * @returns {SimulationResult} - summary of each metric and the probability of a negative NPV, the IRR in the configured unit
+     * @example simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } },
+     *     model: ({ sales }) => [-1000, sales, sales, sales], rate: 10 }).probabilityNegativeNpv // 0.16
+     */
+    simulate(options: SimulationOptions): SimulationResult {
+        const result = simulate({ ...options, rate: this.toFraction('rate', options.rate, 'percent') });
+        if (!result.irr) {
+            return result;
+        }
+        const { mean, standardDeviation, min, max, percentiles } = result.irr;
+        const rate = (fraction: number) => this.roundRate(fraction, 'percent', UNROUNDED);
+        const irrPercentiles: { [level: number]: number } = {};
+        Object.keys(percentiles).forEach((level) => irrPercentiles[+level] = rate(percentiles[+level]));
+        return {
+            ...result,
+            irr: { mean: rate(mean), standardDeviation: rate(standardDeviation), min: rate(min), max: rate(max), percentiles: irrPercentiles },
+        };
+    }
+
+    /**
+     * Tornado sensitivity - the metric with one input at a time moved to its low and high value
+     * @param options - base value and range of each input, cash flow model, discount rate and metric
+     * @returns {TornadoResult} - base metric and one bar per input, widest swing first, an IRR in the configured unit
+     */
+    tornado(options: TornadoOptions): TornadoResult {
+        const result = tornado({ ...options, rate: this.toFraction('rate', options.rate, 'percent') });
+        const metric = this.metric(options.metric);
+        return { base: metric(result.base), bars: result.bars.map(({ input, low, high, swing }) => ({
+            input, low: metric(low), high: metric(high), swing: metric(swing),
+        })) };
+    }
+
+    /**
+     * Two-way data table - the metric for every combination of two inputs, the others held at their base
+     * @param options - base inputs, cash flow model, discount rate, row and column inputs with their values, and metric
+     * @returns {DataTable} - one row per row value and one column per column value, an IRR in the configured unit
+     */
+    dataTable(options: DataTableOptions): DataTable {
+        const table = dataTable({ ...options, rate: this.toFraction('rate', options.rate, 'percent') });
+        const metric = this.metric(options.metric);
+        return { ...table, results: table.results.map((row) => row.map(metric)) };
+    }
+
+    /**
+     * Expresses a simulated metric, an IRR in the configured unit
+     */
+    private metric(metric: Metric = 'npv'): (value: number) => number {
+        return metric === 'irr' ? (value) => this.roundRate(value, 'percent', UNROUNDED) : (value) => this.round(value, UNROUNDED);
+    }
+
+    /**
+     * Reads the rates and volatility of an option contract in the configured unit
+     */
+    private optionContract(contract: OptionContract): OptionContract {
+        const { riskFree, volatility, dividendYield } = contract;
+        return {
+            ...contract,
+            riskFree: this.toFraction('riskFree', riskFree, 'percent'),
+            volatility: this.toFraction('volatility', volatility, 'percent'),
+            dividendYield: dividendYield === undefined ? undefined : this.toFraction('dividendYield', dividendYield, 'percent'),
+        };
+    }
+
+    /**
+     * Reads the growth rates and cost of equity of a dividend discount model in the configured unit
+     */
+    private dividendDiscount<T extends DividendDiscountOptions>(options: T): T {
+        return {
+            ...options,
+            highGrowth: this.toFraction('highGrowth', options.highGrowth, 'percent'),
+            stableGrowth: this.toFraction('stableGrowth', options.stableGrowth, 'percent'),
+            costOfEquity: this.discountRate('costOfEquity', options.costOfEquity),
+        };
+    }
+
+    /**
+     * Reads a discount rate, or the rates among its CAPM or WACC inputs, in the configured unit
+     */
+    private discountRate<T extends DiscountRate>(name: string, rate: T): T {
+        if (typeof rate === 'number') {
+            return this.toFraction(name, rate, 'percent') as T;
+        }
+        if ((rate as WaccInputs).costOfEquity !== undefined) {
+            const inputs = rate as WaccInputs;
+            return {
+                ...inputs,
+                costOfEquity: this.discountRate(`${name}.costOfEquity`, inputs.costOfEquity),
+                costOfDebt: this.toFraction(`${name}.costOfDebt`, inputs.costOfDebt, 'percent'),
+                taxRate: this.toFraction(`${name}.taxRate`, inputs.taxRate, 'percent'),
+            } as T;
         }
-        for (i = 0; i < cfs.length; i++) {
-            sum_fdx = sum_fdx + (-cfs[i] * durs[i] * Math.pow(1 + guess, -1 - durs[i]));
+        const capmInputs = rate as CapmInputs;
+        const { riskFree, marketReturn, premium } = capmInputs;
+        return {
+            ...capmInputs,
+            riskFree: this.toFraction(`${name}.riskFree`, riskFree, 'percent'),
+            marketReturn: this.toFraction(`${name}.marketReturn`, marketReturn, 'percent'),
+            premium: premium === undefined ? undefined : this.toFraction(`${name}.premium`, premium, 'percent'),
+        } as T;
+    }
+
+    /**
+     * Reads a bond's coupon rate in the configured unit
+     */
+    private bond(bond: Bond): Bond {
+        return { ...bond, couponRate: this.toFraction('couponRate', bond.couponRate, 'percent') };
+    }
+
+    /**
+     * Rounds the cumulative cash flows of a payback result, leaving the periods unrounded like PP
+     */
+    private paybackResult(result: PaybackResult): PaybackResult {
+        return { ...result, cumulative: result.cumulative.map((amount) => this.round(amount)) };
+    }
+
+    /**
+     * Rounds the value of a ratio, a margin or return in percent like the other rates, otherwise to 2 decimals
+     */
+    private ratio(ratio: Ratio, rate: boolean = false): Ratio {
+        if (ratio.value === undefined) {
+            return ratio;
         }
-        return sum_fx / sum_fdx;
+        return { ...ratio, value: rate ? this.roundRate(ratio.value, 'percent') : this.round(ratio.value) };
+    }
+
+    private ratios<T>(group: T, rate: boolean = false): T {
+        const ratios = group as unknown as { [name: string]: Ratio };
+        const result: { [name: string]: Ratio } = {};
+        Object.keys(ratios).forEach((name) => result[name] = this.ratio(ratios[name], rate));
+        return result as unknown as T;
+    }
+
+    /**
+     * Rounds a result with the configured policy, or with the method's historical rounding when none is set
+     */
+    private round(value: number, historical: RoundingPolicy = { decimals: 2 }): number {
+        return round(value, this.options.rounding || historical);
+    }
+
+    /**
+     * Number backend and rounding for the calculations that run on the backend, rounding to cents by default
+     */
+    private get backend(): { arithmetic?: Arithmetic<unknown>, rounding: RoundingPolicy } {
+        return { arithmetic: this.options.arithmetic, rounding: this.options.rounding || { decimals: 2 } };
+    }
+
+    /**
+     * Reads a rate argument in the configured unit, or in the method's historical unit, as a validated fraction
+     */
+    private toFraction(name: string, rate: number, historical: RateUnit): number {
+        assertFinite(name, rate);
+        const fraction = toDecimal(rate, this.options.rateUnit || historical);
+        assertRate(name, fraction);
+        return fraction;
     }
 
     /**
-     * Seek zero of a function
-     * @param fn - function to find zero
-     * @returns {number} - zero
+     * Rounds a rate or return in the configured unit. A configured policy applies as is; the historical rounding
+     * counts decimal places in the historical unit, so 12.34% rounds to 0.1234 as a decimal and 1234 in basis points.
      */
-    private seekZero(fn: (arg0: number) => number) {
-        var x = 1;
-        while (fn(x) > 0) {
-            x += 1;
+    private roundRate(fraction: number, historical: RateUnit, policy: RoundingPolicy = { decimals: 2 }): number {
+        const value = this.fromFraction(fraction, historical);
+        if (this.options.rounding) {
+            return round(value, this.options.rounding);
         }
-        while (fn(x) < 0) {
-            x -= 0.01
+        const { decimals = 2, mode } = policy;
+        const shift = Math.round(Math.log(fromDecimal(1, historical) / fromDecimal(1, this.options.rateUnit || historical)) / Math.LN10);
+        return round(value, { decimals: decimals + shift, mode });
+    }
+
+    /**
+     * Expresses a fraction in the configured unit, or in the method's historical unit
+     */
+    private fromFraction(fraction: number, historical: RateUnit): number {
+        return fromDecimal(fraction, this.options.rateUnit || historical);
+    }
+
+    /**
+     * Reads a rate argument like toFraction, dropping the binary noise of the unit conversion (7.3% is 0.073, not
+     * 0.07299999999999999) so that the decimal backend reads the rate exactly
+     */
+    private exactFraction(name: string, rate: number, historical: RateUnit): number {
+        return Number(this.toFraction(name, rate, historical).toPrecision(15));
+    }
+
+    /**
+     * Reads a rate argument as a validated percentage, the unit of R72 and of the schedule and loan modules
+     */
+    private toPercent(name: string, rate: number): number {
+        const fraction = this.toFraction(name, rate, 'percent');
+        return this.options.rateUnit ? fromDecimal(fraction, 'percent') : rate;
+    }
+
+    /**
+     * Reads the guess and bracket of solver options in the configured unit
+     */
+    private solverOptions<T extends SolverOptions>(options: T): T {
+        const unit = this.options.rateUnit;
+        if (!unit) {
+            return options;
         }
-        return x + 0.01;
+        const { bracket, guess } = options;
+        return {
+            ...options,
+            bracket: bracket && [toDecimal(bracket[0], unit), toDecimal(bracket[1], unit)],
+            guess: guess === undefined ? undefined : toDecimal(guess, unit),
+        };
     }
 }
@@ -0,0 +1,71 @@
+import { Arithmetic, floatArithmetic } from './arithmetic';
+import { RoundingPolicy } from './rounding';
+import { Frequency, levelPayment, periodsPerYear } from './schedule';
+import { assertFinite, assertNonNegative, assertPositive, assertRate } from './validation';
+
+export interface CompoundInterestOptions {
+    /** nominal rate per period */
+    rate: number;
+    principal: number;
+    /** number of periods */
+    periods: number;
+    /** compoundings per period, defaults to 1 */
+    compoundings?: number;
+}
+
+export interface LoanPaymentOptions {
+    principal: number;
+    /** annual nominal rate, compounded at the payment frequency */
+    rate: number;
+    numOfPayments: number;
+    /** defaults to monthly */
+    frequency?: Frequency;
+    /** true - pay at the beginning of each period, defaults to false */
+    payAtBeginning?: boolean;
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+    /** rounding of the result, defaults to none */
+    rounding?: RoundingPolicy;
+}
+
+/**
+ * Compound interest (CI) - the principal with interest compounded on the principal and the accumulated interest
+ * @param options - nominal rate, principal, number of periods and compoundings per period
+ * @returns {number} - principal and interest at the end of the last period
+ * @example compoundInterest({ rate: 0.1, principal: 100, periods: 1, compoundings: 12 }) // 110.47
+ */
+export function compoundInterest(options: CompoundInterestOptions): number {
+    const { rate, principal, periods, compoundings = 1 } = options;
+    assertRate('rate', rate);
+    assertFinite('principal', principal);
+    assertNonNegative('periods', periods);
+    assertPositive('compoundings', compoundings);
+    return principal * Math.pow(1 + rate / compoundings, compoundings * periods);
+}
+
+/**
+ * Rule of 72 - the approximate number of periods an investment takes to double at a rate
+ * @param rate - rate per period as a fraction
+ * @returns {number} - periods to double
+ * @example ruleOf72(0.08) // 9
+ */
+export function ruleOf72(rate: number): number {
+    assertPositive('rate', rate);
+    return 72 / (rate * 100);
+}
+
+/**
+ * Loan payment - the level payment that repays a loan with interest over its payments
+ * @param options - principal, annual rate, number of payments, frequency, payment timing, number backend and rounding
+ * @returns {number} - payment each period
+ * @example loanPayment({ principal: 20000, rate: 0.075, numOfPayments: 60 }) // 400.76
+ */
+export function loanPayment(options: LoanPaymentOptions): number {
+    const { principal, rate, numOfPayments, frequency = 'monthly', payAtBeginning = false, rounding = { mode: 'none' } } = options;
+    assertFinite('principal', principal);
+    assertRate('rate', rate);
+    assertPositive('numOfPayments', numOfPayments);
+    const m = options.arithmetic || floatArithmetic;
+    const ratePerPeriod = m.divide(m.from(rate), m.from(periodsPerYear(frequency)));
+    return m.toNumber(m.round(levelPayment(m, m.from(principal), ratePerPeriod, numOfPayments, payAtBeginning), rounding));
+}
@@ -0,0 +1,309 @@
+import { ValidationError } from './errors';
+import { loanPayment } from './interest';
+import { Frequency, periodsPerYear } from './schedule';
+import { findRoot, SolverOptions } from './solver';
+import { assertFinite, assertInteger, assertNonNegative, assertPositive, assertRate } from './validation';
+
+/**
+ * Consumer lending - APR with fees, compounding conversions, loan offer comparison, refinancing and affordability.
+ * Rates are annual fractions and results are unrounded.
+ */
+
+/** compoundings per year, or continuous compounding */
+export type Compounding = number | 'continuous';
+
+export interface LoanTerms {
+    principal: number;
+    /** annual nominal rate, compounded at the payment frequency */
+    rate: number;
+    numOfPayments: number;
+    /** defaults to monthly */
+    frequency?: Frequency;
+    /** finance charges paid upfront, e.g. origination fees and points, defaults to 0 */
+    fees?: number;
+}
+
+export interface AprOptions extends LoanTerms, SolverOptions {
+}
+
+export interface AprResult {
+    /** annual percentage rate, the rate per period at which the payments repay the amount financed times the periods per year */
+    apr: number;
+    /** level payment on the principal at the note rate */
+    payment: number;
+    /** principal less the fees */
+    amountFinanced: number;
+    /** interest and fees */
+    financeCharge: number;
+    totalOfPayments: number;
+}
+
+export interface CompoundingOptions {
+    /** annual nominal rate */
+    rate: number;
+    /** compounding of the rate */
+    from: Compounding;
+    /** compounding of the result */
+    to: Compounding;
+}
+
+export interface ApyOptions {
+    /** annual nominal rate */
+    rate: number;
+    /** compoundings per year, or continuous */
+    compoundings: Compounding;
+}
+
+export interface LoanOffer extends LoanTerms {
+    /** name of the offer */
+    label?: string;
+}
+
+export interface LoanComparisonOptions {
+    /** offers to compare, at least two */
+    offers: LoanOffer[];
+    /** annual rate the payments are discounted at, compounded at each offer's payment frequency */
+    discountRate: number;
+}
+
+export interface LoanCost {
+    label?: string;
+    payment: number;
+    totalOfPayments: number;
+    totalInterest: number;
+    fees: number;
+    /** interest and fees */
+    totalCost: number;
+    /** fees and present value of the payments less the principal, the cost in today's money */
+    npv: number;
+    apr: number;
+}
+
+export interface LoanComparison {
+    /** cost of each offer, in the order given */
+    offers: LoanCost[];
+    /** index of the offer with the lowest total cost */
+    lowestTotalCost: number;
+    /** index of the offer with the lowest present value of cost */
+    lowestNpv: number;
+}
+
+export interface RefinanceOptions {
+    /** outstanding balance of the current loan */
+    balance: number;
+    /** annual rate of the current loan */
+    currentRate: number;
+    /** monthly payments left on the current loan */
+    remainingPayments: number;
+    /** annual rate of the new loan */
+    newRate: number;
+    /** monthly payments of the new loan, defaults to remainingPayments */
+    newNumOfPayments?: number;
+    /** closing costs paid upfront */
+    closingCosts: number;
+}
+
+export interface RefinanceResult {
+    currentPayment: number;
+    newPayment: number;
+    /** current payment less the new payment */
+    monthlySavings: number;
+    /** first month whose cumulative savings cover the closing costs, undefined when they never do */
+    breakEvenMonth?: number;
+    /** payments saved over the life of both loans less the closing costs */
+    netSavings: number;
+}
+
+export interface AffordabilityOptions {
+    /** gross monthly income */
+    monthlyIncome: number;
+    /** highest debt-to-income ratio allowed, e.g. 0.36 */
+    targetDti: number;
+    /** monthly payments on other debts, defaults to 0 */
+    otherDebtPayments?: number;
+    /** annual rate of the new loan */
+    rate: number;
+    /** monthly payments of the new loan */
+    numOfPayments: number;
+}
+
+export interface Affordability {
+    /** highest monthly payment on the new loan within the target debt-to-income ratio */
+    maxPayment: number;
+    /** principal that payment repays */
+    maxPrincipal: number;
+}
+
+// rates per period from -99% to 1000%, searched by apr
+const APR_BRACKET: [number, number] = [-0.99, 10];
+
+/**
+ * Annual percentage rate (APR) - the yearly cost of a loan with its upfront fees, the actuarial method of US
+ * Regulation Z. The level payment at the note rate is discounted back to the amount financed, solving for the
+ * rate per period like XIRR.
+ * @param options - principal, annual note rate, number of payments, frequency, fees and solver options
+ * @returns {AprResult} - APR, payment, amount financed, finance charge and total of payments
+ * @example apr({ principal: 200000, rate: 0.06, numOfPayments: 360, fees: 4000 }).apr // 0.061895
+ */
+export function apr(options: AprOptions): AprResult {
+    const { principal, rate, numOfPayments, frequency = 'monthly', fees = 0, ...solverOptions } = options;
+    const payment = validateLoan(options);
+    const amountFinanced = principal - fees;
+    if (amountFinanced <= 0) {
+        throw new ValidationError(`fees must be less than the principal, got ${fees}`, 'fees');
+    }
+    // summed payment by payment, the closed form annuity factor loses precision near a 0% rate
+    const value = (r: number) => {
+        let sum = -amountFinanced;
+        for (let k = 1; k <= numOfPayments; k++) {
+            sum += payment * Math.pow(1 + r, -k);
+        }
+        return sum;
+    };
+    const derivative = (r: number) => {
+        let sum = 0;
+        for (let k = 1; k <= numOfPayments; k++) {
+            sum -= k * payment * Math.pow(1 + r, -k - 1);
+        }
+        return sum;
+    };
+    const ratePerPeriod = findRoot(value, { bracket: APR_BRACKET, guess: rate / periodsPerYear(frequency), ...solverOptions }, derivative);
+    const totalOfPayments = payment * numOfPayments;
+    return {
+        apr: ratePerPeriod * periodsPerYear(frequency),
+        payment,
+        amountFinanced,
+        financeCharge: totalOfPayments - amountFinanced,
+        totalOfPayments,
+    };
+}
+
+/**
+ * Converts a nominal rate between compoundings, keeping the growth over a year the same
+ * @param options - annual nominal rate, its compounding and the compounding of the result
+ * @returns {number} - annual nominal rate at the target compounding
+ * @example convertCompounding({ rate: 0.05, from: 12, to: 'continuous' }) // 0.049896
+ */
+export function convertCompounding(options: CompoundingOptions): number {
+    const { rate, from, to } = options;
+    assertFinite('rate', rate);
+    const growth = from === 'continuous' ? Math.exp(rate) : periodGrowth(rate, from, 'from');
+    if (to === 'continuous') {
+        return Math.log(growth);
+    }
+    assertPositive('to', to);
+    return to * (Math.pow(growth, 1 / to) - 1);
+}
+
+/**
+ * Annual percentage yield (APY) - the effective annual rate of a nominal rate with its compounding
+ * @param options - annual nominal rate and compoundings per year, or continuous
+ * @returns {number} - annual percentage yield
+ * @example apy({ rate: 0.05, compoundings: 12 }) // 0.051162
+ */
+export function apy(options: ApyOptions): number {
+    return convertCompounding({ rate: options.rate, from: options.compoundings, to: 1 });
+}
+
+/**
+ * Loan comparison - the total cost and the present value of cost of loan offers, and which is cheapest by each
+ * @param options - loan offers and the annual discount rate
+ * @returns {LoanComparison} - cost of each offer and the indexes of the cheapest
+ * @example compareLoans({ offers: [{ principal: 10000, rate: 0.06, numOfPayments: 36 }, { principal: 10000, rate: 0.05, numOfPayments: 36, fees: 300 }], discountRate: 0.04 })
+ */
+export function compareLoans(options: LoanComparisonOptions): LoanComparison {
+    const { offers, discountRate } = options;
+    if (!Array.isArray(offers) || offers.length < 2) {
+        throw new ValidationError('offers must contain at least 2 loan offers', 'offers');
+    }
+    assertRate('discountRate', discountRate);
+    const costs = offers.map((offer): LoanCost => {
+        const { principal, rate, numOfPayments, frequency = 'monthly', fees = 0 } = offer;
+        const terms = apr({ principal, rate, numOfPayments, frequency, fees });
+        const totalInterest = terms.totalOfPayments - principal;
+        return {
+            ...(offer.label === undefined ? {} : { label: offer.label }),
+            payment: terms.payment,
+            totalOfPayments: terms.totalOfPayments,
+            totalInterest,
+            fees,
+            totalCost: totalInterest + fees,
+            npv: fees + terms.payment * annuityFactor(discountRate / periodsPerYear(frequency), numOfPayments) - principal,
+            apr: terms.apr,
+        };
+    });
+    const lowest = (cost: (offer: LoanCost) => number) => costs.reduce((best, offer, i) => cost(offer) < cost(costs[best]) ? i : best, 0);
+    return { offers: costs, lowestTotalCost: lowest((offer) => offer.totalCost), lowestNpv: lowest((offer) => offer.npv) };
+}
+
+/**
+ * Refinance break-even - the month the payments saved by refinancing a loan first cover the closing costs
+ * @param options - balance, rate and remaining payments of the current loan, rate and payments of the new loan, and closing costs
+ * @returns {RefinanceResult} - both payments, the monthly savings, the break-even month and the net savings
+ * @example refinanceBreakEven({ balance: 200000, currentRate: 0.07, remainingPayments: 300, newRate: 0.055, closingCosts: 4000 }).breakEvenMonth // 22
+ */
+export function refinanceBreakEven(options: RefinanceOptions): RefinanceResult {
+    const { balance, currentRate, remainingPayments, newRate, newNumOfPayments = remainingPayments, closingCosts } = options;
+    assertPositive('balance', balance);
+    assertInteger('remainingPayments', remainingPayments);
+    assertInteger('newNumOfPayments', newNumOfPayments);
+    assertNonNegative('closingCosts', closingCosts);
+    const currentPayment = loanPayment({ principal: balance, rate: currentRate, numOfPayments: remainingPayments });
+    const newPayment = loanPayment({ principal: balance, rate: newRate, numOfPayments: newNumOfPayments });
+    let savings = 0;
+    let breakEvenMonth: number | undefined;
+    for (let month = 1; month <= Math.max(remainingPayments, newNumOfPayments); month++) {
+        savings += (month <= remainingPayments ? currentPayment : 0) - (month <= newNumOfPayments ? newPayment : 0);
+        if (breakEvenMonth === undefined && savings >= closingCosts) {
+            breakEvenMonth = month;
+        }
+    }
+    return {
+        currentPayment,
+        newPayment,
+        monthlySavings: currentPayment - newPayment,
+        ...(breakEvenMonth === undefined ? {} : { breakEvenMonth }),
+        netSavings: savings - closingCosts,
+    };
+}
+
+/**
+ * Affordability - the largest loan whose monthly payment keeps debt payments within a target share of income
+ * @param options - gross monthly income, target debt-to-income ratio, other debt payments, and the rate and payments of the loan
+ * @returns {Affordability} - highest monthly payment and the principal it repays, 0 when other debts already use the target
+ * @example affordability({ monthlyIncome: 8000, targetDti: 0.36, otherDebtPayments: 500, rate: 0.06, numOfPayments: 360 }).maxPrincipal // 396964.04
+ */
+export function affordability(options: AffordabilityOptions): Affordability {
+    const { monthlyIncome, targetDti, otherDebtPayments = 0, rate, numOfPayments } = options;
+    assertNonNegative('monthlyIncome', monthlyIncome);
+    assertNonNegative('targetDti', targetDti);
+    assertNonNegative('otherDebtPayments', otherDebtPayments);
+    assertRate('rate', rate);
+    assertInteger('numOfPayments', numOfPayments);
+    const maxPayment = Math.max(monthlyIncome * targetDti - otherDebtPayments, 0);
+    return { maxPayment, maxPrincipal: maxPayment * annuityFactor(rate / 12, numOfPayments) };
+}
+
+// present value of 1 paid at the end of each of the periods
+function annuityFactor(ratePerPeriod: number, periods: number): number {
+    return ratePerPeriod === 0 ? periods : (1 - Math.pow(1 + ratePerPeriod, -periods)) / ratePerPeriod;
+}
+
+// growth over a year of a nominal rate compounded a number of times a year
+function periodGrowth(rate: number, compoundings: number, name: string): number {
+    assertPositive(name, compoundings);
+    if (1 + rate / compoundings <= 0) {
+        throw new ValidationError(`rate must be above -${compoundings * 100}% compounded ${compoundings} times a year, got ${rate * 100}%`, 'rate');
+    }
+    return Math.pow(1 + rate / compoundings, compoundings);
+}
+
+// checks the terms of a loan and returns its level payment
+function validateLoan(terms: LoanTerms): number {
+    const { principal, rate, numOfPayments, frequency = 'monthly', fees = 0 } = terms;
+    assertPositive('principal', principal);
+    assertRate('rate', rate);
+    assertInteger('numOfPayments', numOfPayments);
+    assertNonNegative('fees', fees);
+    return loanPayment({ principal, rate, numOfPayments, frequency });
+}
@@ -0,0 +1,235 @@
+import { Arithmetic, floatArithmetic } from './arithmetic';
+import { ValidationError } from './errors';
+import { RoundingPolicy } from './rounding';
+import { assertInteger, assertNonNegative, assertPositive, assertRate } from './validation';
+import { addPeriods, amortizationSchedule, Frequency, levelPayment, periodsPerYear, ScheduleRow } from './schedule';
+
+export interface Prepayment {
+    type: 'prepayment';
+    date: Date;
+    amount: number;
+}
+
+export interface RecurringPrepayment {
+    type: 'recurringPrepayment';
+    startDate: Date;
+    /** last date a prepayment is made, defaults to the end of the loan */
+    endDate?: Date;
+    /** amount paid on top of every regular payment */
+    amount: number;
+}
+
+export interface RateChange {
+    type: 'rateChange';
+    date: Date;
+    /** new annual nominal interest rate, e.g. 5.25 for 5.25% */
+    rate: number;
+}
+
+export interface InterestOnly {
+    type: 'interestOnly';
+    startDate: Date;
+    endDate: Date;
+}
+
+export interface PaymentHoliday {
+    type: 'paymentHoliday';
+    startDate: Date;
+    endDate: Date;
+}
+
+export interface Balloon {
+    type: 'balloon';
+    /** residual balance repaid with the final payment */
+    amount: number;
+}
+
+export type LoanEvent = Prepayment | RecurringPrepayment | RateChange | InterestOnly | PaymentHoliday | Balloon;
+
+export interface LoanOptions {
+    principal: number;
+    /** annual nominal interest rate at origination, e.g. 7.5 for 7.5% */
+    rate: number;
+    numOfPayments: number;
+    frequency?: Frequency;
+    /** origination date, defaults to today */
+    startDate?: Date;
+    events?: LoanEvent[];
+    /** rounding of every amount, defaults to cents */
+    rounding?: RoundingPolicy;
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+}
+
+export interface LoanRow extends ScheduleRow {
+    /** annual nominal interest rate applied in the period */
+    rate: number;
+    /** extra principal paid on top of the regular payment */
+    prepayment: number;
+}
+
+export interface LoanResult {
+    schedule: LoanRow[];
+    totalInterest: number;
+    /** interest of the same loan without any events */
+    baselineInterest: number;
+    interestSaved: number;
+    payoffDate: Date;
+    baselinePayoffDate: Date;
+}
+
+/**
+ * Loan model - the schedule of a loan with prepayments, rate resets, interest-only periods, payment holidays
+ * and balloon payments.
+ *
+ * Events take effect on the first payment date on or after their date, and a rate change on or before the start
+ * date sets the opening rate. The level payment is recalculated over the remaining term whenever the rate changes
+ * or an interest-only period or payment holiday ends, while prepayments keep the payment and shorten the loan.
+ * Interest during a payment holiday is capitalised, one-off prepayments dated inside it are made with the first
+ * payment after it and recurring prepayments pause. The final payment repays the whole balance, even during an
+ * interest-only period or payment holiday, and a balloon larger than the balance left after prepayments shrinks
+ * to that balance.
+ * @param options - principal, annual rate, number of payments, frequency, start date and events
+ * @returns {LoanResult} - schedule, total interest, interest saved and payoff date against the plain loan
+ * @example modelLoan({ principal: 20000, rate: 7.5, numOfPayments: 60, events: [{ type: 'prepayment', date, amount: 1000 }] })
+ */
+export function modelLoan(options: LoanOptions): LoanResult {
+    const { principal, numOfPayments, frequency = 'monthly', events = [], rounding } = options;
+    assertPositive('principal', principal);
+    assertRate('rate', options.rate / 100);
+    assertInteger('numOfPayments', numOfPayments);
+    const m = options.arithmetic || floatArithmetic;
+    const roundAmount = (value: unknown) => m.round(value, rounding);
+    const min = (a: unknown, b: unknown) => m.compare(a, b) < 0 ? a : b;
+    const startDate = options.startDate || new Date();
+    validateEvents(events, principal);
+    const zero = m.from(0);
+    const balloon = events.reduce((sum, event) => event.type === 'balloon' ? m.add(sum, m.from(event.amount)) : sum, zero);
+
+    const schedule: LoanRow[] = [];
+    const openingRate = rateOn(events, undefined, startDate);
+    let rate = openingRate === undefined ? options.rate : openingRate;
+    let balance = m.from(principal);
+    let payment = zero;
+    let recalculate = true;
+    let cumulativeInterest = zero;
+    let previousDate = startDate;
+    // one-off prepayments dated inside a payment holiday, made with the first payment after it
+    let deferred = zero;
+
+    for (let period = 1; period <= numOfPayments && m.compare(balance, zero) > 0; period++) {
+        const date = addPeriods(startDate, frequency, period);
+        const changedRate = rateOn(events, previousDate, date);
+        if (changedRate !== undefined && changedRate !== rate) {
+            rate = changedRate;
+            recalculate = true;
+        }
+        const ratePerPeriod = m.divide(m.divide(m.from(rate), m.from(100)), m.from(periodsPerYear(frequency)));
+        const interest = roundAmount(m.multiply(balance, ratePerPeriod));
+        const owed = m.add(balance, interest);
+        const holiday = isWithin(events, 'paymentHoliday', date);
+        const interestOnly = isWithin(events, 'interestOnly', date);
+
+        let amount: unknown;
+        if (period === numOfPayments) {
+            amount = roundAmount(owed);
+        } else if (holiday) {
+            amount = zero;
+            recalculate = true;
+        } else if (interestOnly) {
+            amount = interest;
+            recalculate = true;
+        } else {
+            if (recalculate) {
+                const remaining = numOfPayments - period + 1;
+                // prepayments can take the balance below the balloon, which then shrinks to the balance
+                const residual = m.divide(min(balloon, balance), m.pow(m.add(m.from(1), ratePerPeriod), remaining));
+                payment = roundAmount(levelPayment(m, m.subtract(balance, residual), ratePerPeriod, remaining));
+                recalculate = false;
+            }
+            amount = m.compare(owed, payment) < 0 ? roundAmount(owed) : payment;
+        }
+
+        const principalPaid = roundAmount(m.subtract(amount, interest));
+        const due = m.add(m.from(prepaymentOn(events, previousDate, date, !holiday)), deferred);
+        deferred = holiday ? due : zero;
+        const prepayment = holiday ? zero : min(due, roundAmount(m.subtract(balance, principalPaid)));
+        const closingBalance = roundAmount(m.subtract(m.subtract(balance, principalPaid), prepayment));
+        cumulativeInterest = roundAmount(m.add(cumulativeInterest, interest));
+
+        schedule.push({
+            period,
+            date,
+            rate,
+            openingBalance: m.toNumber(balance),
+            payment: m.toNumber(amount),
+            interest: m.toNumber(interest),
+            principal: m.toNumber(principalPaid),
+            prepayment: m.toNumber(prepayment),
+            closingBalance: m.toNumber(closingBalance),
+            cumulativeInterest: m.toNumber(cumulativeInterest),
+        });
+        balance = closingBalance;
+        previousDate = date;
+    }
+
+    const baseline = amortizationSchedule({ principal, rate: options.rate, numOfPayments, frequency, startDate, rounding, arithmetic: m });
+    const baselineInterest = baseline[baseline.length - 1].cumulativeInterest;
+    return {
+        schedule,
+        totalInterest: m.toNumber(cumulativeInterest),
+        baselineInterest,
+        interestSaved: m.toNumber(roundAmount(m.subtract(m.from(baselineInterest), cumulativeInterest))),
+        payoffDate: schedule[schedule.length - 1].date,
+        baselinePayoffDate: baseline[baseline.length - 1].date,
+    };
+}
+
+// rate of the latest change after from, or at any time before when from is undefined, up to and including to
+function rateOn(events: LoanEvent[], from: Date | undefined, to: Date): number | undefined {
+    let rate: number | undefined;
+    let latest = -Infinity;
+    events.forEach((event) => {
+        if (event.type === 'rateChange' && (from === undefined || event.date > from) && event.date <= to && event.date.getTime() >= latest) {
+            rate = event.rate;
+            latest = event.date.getTime();
+        }
+    });
+    return rate;
+}
+
+function validateEvents(events: LoanEvent[], principal: number): void {
+    let balloon = 0;
+    events.forEach((event, i) => {
+        if (event.type === 'rateChange') {
+            assertRate(`events[${i}].rate`, event.rate / 100);
+        } else if (event.type === 'prepayment' || event.type === 'recurringPrepayment' || event.type === 'balloon') {
+            assertNonNegative(`events[${i}].amount`, event.amount);
+        }
+        if (event.type === 'balloon') {
+            balloon += event.amount;
+        }
+    });
+    if (balloon > principal) {
+        throw new ValidationError(`balloon payments must not exceed the principal, got ${balloon}`, 'events');
+    }
+}
+
+// one-off prepayments after from up to and including to, and recurring prepayments due at to when asked for
+function prepaymentOn(events: LoanEvent[], from: Date, to: Date, recurring: boolean): number {
+    let amount = 0;
+    events.forEach((event) => {
+        if (event.type === 'prepayment' && event.date > from && event.date <= to) {
+            amount += event.amount;
+        }
+        if (recurring && event.type === 'recurringPrepayment' && event.startDate <= to && (!event.endDate || event.endDate >= to)) {
+            amount += event.amount;
+        }
+    });
+    return amount;
+}
+
+function isWithin(events: LoanEvent[], type: 'interestOnly' | 'paymentHoliday', date: Date): boolean {
+    return events.some((event) => (event.type === 'interestOnly' || event.type === 'paymentHoliday') && event.type === type
+        && event.startDate <= date && event.endDate >= date);
+}
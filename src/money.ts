@@ -0,0 +1,131 @@
+import { Decimal } from './decimal';
+import { CurrencyMismatchError, ValidationError } from './errors';
+import { RoundingMode } from './rounding';
+import { assertRate } from './validation';
+
+// ISO 4217 minor units that differ from 2
+const MINOR_UNITS: { [currency: string]: number } = {
+    BHD: 3, BIF: 0, CLP: 0, DJF: 0, GNF: 0, IQD: 3, ISK: 0, JOD: 3, JPY: 0, KMF: 0, KRW: 0, KWD: 3,
+    LYD: 3, OMR: 3, PYG: 0, RWF: 0, TND: 3, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+};
+
+/**
+ * Amount of money in a currency, held as an exact decimal rounded to the currency's minor unit
+ */
+export class Money {
+    /**
+     * Creates an amount of money
+     * @param amount - amount in major units, e.g. 12.34 for $12.34
+     * @param currency - ISO 4217 currency code
+     * @param scale - minor unit decimal places, defaults to the ISO 4217 scale of the currency
+     * @returns {Money} - amount rounded half-up to the minor unit
+     * @example Money.of('12.345', 'USD').toString() // '12.35 USD'
+     */
+    public static of(amount: number | string | Decimal, currency: string, scale?: number): Money {
+        const code = currency.toUpperCase();
+        const minorUnits = scale !== undefined ? scale : MINOR_UNITS[code] !== undefined ? MINOR_UNITS[code] : 2;
+        return new Money(Decimal.from(amount).round(minorUnits), code, minorUnits);
+    }
+
+    /**
+     * Adds up amounts that must all be in the same currency
+     * @param amounts - amounts of money
+     * @returns {Money} - total
+     */
+    public static sum(amounts: Money[]): Money {
+        if (amounts.length === 0) {
+            throw new ValidationError('Money.sum requires at least one amount', 'amounts');
+        }
+        return amounts.reduce((total, amount) => total.plus(amount));
+    }
+
+    public readonly amount: Decimal;
+    public readonly currency: string;
+    public readonly scale: number;
+
+    private constructor(amount: Decimal, currency: string, scale: number) {
+        this.amount = amount;
+        this.currency = currency;
+        this.scale = scale;
+    }
+
+    public plus(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.amount.plus(other.amount), this.currency, Math.max(this.scale, other.scale));
+    }
+
+    public minus(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.amount.minus(other.amount), this.currency, Math.max(this.scale, other.scale));
+    }
+
+    /**
+     * Multiplies by a factor, rounding to the minor unit
+     * @param factor - multiplier
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Money} - product
+     */
+    public times(factor: number | string | Decimal, mode: RoundingMode = 'half-up'): Money {
+        return new Money(this.amount.times(factor).round(this.scale, mode), this.currency, this.scale);
+    }
+
+    /**
+     * Divides by a divisor, rounding to the minor unit
+     * @param divisor - divisor
+     * @param mode - rounding mode, defaults to half-up
+     * @returns {Money} - quotient
+     */
+    public dividedBy(divisor: number | string | Decimal, mode: RoundingMode = 'half-up'): Money {
+        return new Money(this.amount.dividedBy(divisor).round(this.scale, mode), this.currency, this.scale);
+    }
+
+    public negated(): Money {
+        return new Money(this.amount.negated(), this.currency, this.scale);
+    }
+
+    public compare(other: Money): number {
+        this.assertSameCurrency(other);
+        return this.amount.compare(other.amount);
+    }
+
+    public equals(other: Money): boolean {
+        return this.currency === other.currency && this.amount.equals(other.amount);
+    }
+
+    public isZero(): boolean {
+        return this.amount.isZero();
+    }
+
+    public isNegative(): boolean {
+        return this.amount.isNegative();
+    }
+
+    public toNumber(): number {
+        return this.amount.toNumber();
+    }
+
+    public toString(): string {
+        return `${this.amount.toFixed(this.scale)} ${this.currency}`;
+    }
+
+    private assertSameCurrency(other: Money): void {
+        if (other.currency !== this.currency) {
+            throw new CurrencyMismatchError(this.currency, other.currency);
+        }
+    }
+}
+
+/**
+ * Net Present Value (NPV) of money amounts, discounted exactly and rounded once to the minor unit
+ * @param rate - interest rate
+ * @param cashFlows - cash flows in one currency, the first one undiscounted
+ * @returns {Money} - net present value
+ * @example moneyNPV(10, [Money.of(-500000, 'USD'), Money.of(200000, 'USD'), Money.of(300000, 'USD')]) // -70247.93 USD
+ */
+export function moneyNPV(rate: number, cashFlows: Money[]): Money {
+    assertRate('rate', rate / 100);
+    const total = Money.sum(cashFlows);
+    const onePlusRate = Decimal.from(1).plus(Decimal.from(rate).dividedBy(100));
+    const npv = cashFlows.reduce((sum, cf, i) => sum.plus(cf.amount.dividedBy(onePlusRate.pow(i))), Decimal.from(0));
+    return Money.of(npv, total.currency, total.scale);
+}
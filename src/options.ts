@@ -0,0 +1,188 @@
+import { ValidationError } from './errors';
+import { findRoot, SolverOptions } from './solver';
+import { normalCdf, normalPdf } from './statistics';
+import { assertFinite, assertInteger, assertNonNegative, assertPositive } from './validation';
+
+export type OptionType = 'call' | 'put';
+
+/** european - exercise at expiry only, american - exercise at any time up to expiry */
+export type ExerciseStyle = 'european' | 'american';
+
+export interface OptionContract {
+    type: OptionType;
+    /** price of the underlying today */
+    spot: number;
+    strike: number;
+    /** time to expiry in years */
+    expiry: number;
+    /** continuously compounded risk-free rate as a fraction */
+    riskFree: number;
+    /** annual volatility of the underlying as a fraction */
+    volatility: number;
+    /** continuously compounded dividend yield as a fraction, defaults to 0 */
+    dividendYield?: number;
+}
+
+/**
+ * Sensitivities of the option price. Rates and volatility move by 1.00 (100%), not by a point, and time
+ * sensitivities are per year as time passes.
+ */
+export interface Greeks {
+    /** change in price for a change in spot */
+    delta: number;
+    /** change in price for a change in volatility */
+    vega: number;
+    /** change in price as time passes */
+    theta: number;
+    /** change in price for a change in the risk-free rate */
+    rho: number;
+    /** change in price for a change in the dividend yield */
+    epsilon: number;
+    /** change in delta for a change in spot */
+    gamma: number;
+    /** change in delta for a change in volatility, or in vega for a change in spot */
+    vanna: number;
+    /** change in delta as time passes */
+    charm: number;
+    /** change in vega for a change in volatility */
+    vomma: number;
+    /** change in vega as time passes */
+    veta: number;
+    /** change in rho for a change in volatility */
+    vera: number;
+}
+
+export interface OptionValuation {
+    price: number;
+    greeks: Greeks;
+}
+
+export interface BinomialOptions {
+    /** steps of the tree, defaults to 200 */
+    steps?: number;
+    /** defaults to american */
+    exercise?: ExerciseStyle;
+}
+
+// implied volatilities from 0.01% to 1000% a year
+const VOLATILITY_BRACKET: [number, number] = [1e-4, 10];
+
+/**
+ * Black-Scholes-Merton - price and Greeks of a European option on an underlying paying a continuous dividend yield
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+ * @returns {OptionValuation} - price and first and second order Greeks
+ * @example blackScholes({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 }).price // 10.45
+ */
+export function blackScholes(contract: OptionContract): OptionValuation {
+    const { spot, strike, expiry, riskFree, volatility, dividendYield = 0 } = validate(contract);
+    const sign = contract.type === 'call' ? 1 : -1;
+    const sqrtT = Math.sqrt(expiry);
+    const d1 = (Math.log(spot / strike) + (riskFree - dividendYield + volatility * volatility / 2) * expiry) / (volatility * sqrtT);
+    const d2 = d1 - volatility * sqrtT;
+    const dividendDiscount = Math.exp(-dividendYield * expiry);
+    const discount = Math.exp(-riskFree * expiry);
+    const nd1 = normalCdf(sign * d1);
+    const nd2 = normalCdf(sign * d2);
+    const pdf = normalPdf(d1);
+
+    const vega = spot * dividendDiscount * pdf * sqrtT;
+    // time decay of delta and vega, without the dividend terms
+    const drift = (2 * (riskFree - dividendYield) * expiry - d2 * volatility * sqrtT) / (2 * expiry * volatility * sqrtT);
+    return {
+        price: sign * (spot * dividendDiscount * nd1 - strike * discount * nd2),
+        greeks: {
+            delta: sign * dividendDiscount * nd1,
+            vega,
+            theta: -spot * dividendDiscount * pdf * volatility / (2 * sqrtT)
+                - sign * riskFree * strike * discount * nd2 + sign * dividendYield * spot * dividendDiscount * nd1,
+            rho: sign * strike * expiry * discount * nd2,
+            epsilon: -sign * spot * expiry * dividendDiscount * nd1,
+            gamma: dividendDiscount * pdf / (spot * volatility * sqrtT),
+            vanna: -dividendDiscount * pdf * d2 / volatility,
+            charm: sign * dividendYield * dividendDiscount * nd1 - dividendDiscount * pdf * drift,
+            vomma: vega * d1 * d2 / volatility,
+            veta: vega * (dividendYield + (riskFree - dividendYield) * d1 / (volatility * sqrtT) - (1 + d1 * d2) / (2 * expiry)),
+            vera: -strike * expiry * discount * normalPdf(d2) * d1 / volatility,
+        },
+    };
+}
+
+/**
+ * Implied volatility - the volatility at which Black-Scholes-Merton prices a European option at a given price
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate and dividend yield
+ * @param price - option price
+ * @param options - solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual volatility as a fraction
+ * @example impliedVolatility({ type: 'call', spot: 100, strike: 100, expiry: 1, riskFree: 0.05 }, 10.45) // 0.2
+ */
+export function impliedVolatility(contract: Omit<OptionContract, 'volatility'>, price: number, options: SolverOptions = {}): number {
+    assertFinite('price', price);
+    const { spot, strike, expiry, riskFree, dividendYield = 0 } = validate({ ...contract, volatility: 1 });
+    const forwardSpot = spot * Math.exp(-dividendYield * expiry);
+    const forwardStrike = strike * Math.exp(-riskFree * expiry);
+    const [lower, upper] = contract.type === 'call'
+        ? [Math.max(forwardSpot - forwardStrike, 0), forwardSpot]
+        : [Math.max(forwardStrike - forwardSpot, 0), forwardStrike];
+    if (price <= lower || price >= upper) {
+        throw new ValidationError(`price must be between ${lower} and ${upper}, the no-arbitrage bounds of the option`, 'price');
+    }
+    const priced = (volatility: number) => blackScholes({ ...contract, volatility });
+    return findRoot(
+        (volatility) => priced(volatility).price - price,
+        { bracket: VOLATILITY_BRACKET, guess: 0.2, ...options },
+        (volatility) => priced(volatility).greeks.vega,
+    );
+}
+
+/**
+ * Cox-Ross-Rubinstein binomial tree - price of an American or European option, the underlying moving up or
+ * down by the volatility at each step
+ * @param contract - call or put, spot, strike, years to expiry, risk-free rate, volatility and dividend yield
+ * @param options - number of steps and exercise style
+ * @returns {number} - option price
+ * @example binomialPrice({ type: 'put', spot: 100, strike: 100, expiry: 1, riskFree: 0.05, volatility: 0.2 }) // 6.09
+ */
+export function binomialPrice(contract: OptionContract, options: BinomialOptions = {}): number {
+    const { spot, strike, expiry, riskFree, volatility, dividendYield = 0 } = validate(contract);
+    const { steps = 200, exercise = 'american' } = options;
+    assertInteger('steps', steps);
+    if (exercise !== 'american' && exercise !== 'european') {
+        throw new ValidationError(`Unknown exercise style ${exercise}`, 'exercise');
+    }
+    const dt = expiry / steps;
+    const up = Math.exp(volatility * Math.sqrt(dt));
+    const down = 1 / up;
+    const probability = (Math.exp((riskFree - dividendYield) * dt) - down) / (up - down);
+    if (probability <= 0 || probability >= 1) {
+        throw new ValidationError('steps are too few for the rates and volatility, the tree has no risk-neutral probability', 'steps');
+    }
+    const discount = Math.exp(-riskFree * dt);
+    const sign = contract.type === 'call' ? 1 : -1;
+    const payoff = (price: number) => Math.max(sign * (price - strike), 0);
+
+    const values: number[] = [];
+    for (let i = 0; i <= steps; i++) {
+        values.push(payoff(spot * Math.pow(up, steps - 2 * i)));
+    }
+    for (let step = steps - 1; step >= 0; step--) {
+        for (let i = 0; i <= step; i++) {
+            const held = discount * (probability * values[i] + (1 - probability) * values[i + 1]);
+            values[i] = exercise === 'american' ? Math.max(held, payoff(spot * Math.pow(up, step - 2 * i))) : held;
+        }
+    }
+    return values[0];
+}
+
+function validate(contract: OptionContract): OptionContract {
+    const { type, spot, strike, expiry, riskFree, volatility, dividendYield = 0 } = contract;
+    if (type !== 'call' && type !== 'put') {
+        throw new ValidationError(`Unknown option type ${type}`, 'type');
+    }
+    assertPositive('spot', spot);
+    assertPositive('strike', strike);
+    assertPositive('expiry', expiry);
+    assertFinite('riskFree', riskFree);
+    assertPositive('volatility', volatility);
+    assertNonNegative('dividendYield', dividendYield);
+    return contract;
+}
@@ -0,0 +1,432 @@
+import { DayCount, yearFraction } from './daycount';
+import { ValidationError } from './errors';
+import { xirr, XIRROptions } from './tvm';
+import { assertDate, assertFinite, assertNonNegative, assertPositive, assertRate } from './validation';
+
+export interface Valuation {
+    date: Date;
+    /** market value at the end of the day, after the day's external flows */
+    value: number;
+}
+
+export interface ExternalFlow {
+    date: Date;
+    /** money added to the portfolio, negative when withdrawn */
+    amount: number;
+}
+
+export interface PerformanceResult {
+    /** years from the first to the last valuation */
+    years: number;
+    /** Modified Dietz return over the whole period */
+    modifiedDietz: number;
+    /** returns between consecutive valuations */
+    periodReturns: number[];
+    /** period returns linked geometrically */
+    timeWeightedReturn: number;
+    annualizedTimeWeightedReturn: number;
+    /** annual internal rate of return of the valuations and flows */
+    moneyWeightedReturn: number;
+}
+
+export interface Drawdown {
+    /** largest fall from a peak, as a positive fraction of the peak */
+    depth: number;
+    /** index of the peak in the value series, 0 being the value before the first return */
+    peak: number;
+    /** index of the trough in the value series */
+    trough: number;
+    /** index at which the value regained the peak, undefined when it hasn't */
+    recovery?: number;
+}
+
+export interface PortfolioOptions {
+    /** valuations in date order, the first and last bound the period */
+    valuations: Valuation[];
+    /** external flows after the first valuation and up to the last, defaults to none */
+    flows?: ExternalFlow[];
+    /** day count convention for the weights, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+
+/** valuations and flows, and the solver options of the money-weighted return */
+export interface MoneyWeightedOptions extends PortfolioOptions, XIRROptions {}
+
+export interface AnnualizeOptions {
+    /** return over the whole period as a fraction */
+    cumulativeReturn: number;
+    /** length of the period in years */
+    years: number;
+}
+
+export interface VolatilityOptions {
+    /** periodic returns as fractions */
+    returns: number[];
+    /** periods per year to annualize with the square root of time, defaults to 1 */
+    periodsPerYear?: number;
+}
+
+export interface SharpeOptions extends VolatilityOptions {
+    /** risk-free return per period, defaults to 0 */
+    riskFree?: number;
+}
+
+export interface SortinoOptions extends VolatilityOptions {
+    /** minimum acceptable return per period, defaults to 0 */
+    target?: number;
+}
+
+export interface BetaOptions {
+    /** periodic returns as fractions */
+    returns: number[];
+    /** benchmark returns over the same periods */
+    benchmarkReturns: number[];
+}
+
+export interface AlphaOptions extends BetaOptions {
+    /** risk-free return per period, defaults to 0 */
+    riskFree?: number;
+    /** periods per year to annualize, defaults to 1 */
+    periodsPerYear?: number;
+}
+
+/**
+ * Modified Dietz return - gain over the period divided by the average capital invested, each external flow
+ * weighted by the part of the period it was invested for
+ * @param options - valuations, external flows and day count convention
+ * @returns {number} - return over the period as a fraction
+ * @example modifiedDietz({ valuations: [{ date: jan1, value: 1000 }, { date: dec31, value: 1200 }], flows: [{ date: jul1, amount: 100 }] }) // 0.0952
+ */
+export function modifiedDietz(options: PortfolioOptions): number {
+    const { valuations, flows = [], dayCount } = options;
+    validate(valuations, flows);
+    return dietz(valuations[0], valuations[valuations.length - 1], flows, dayCount);
+}
+
+/**
+ * Period returns - Modified Dietz return between each pair of consecutive valuations. With a valuation on
+ * every day with an external flow, these are the exact daily returns.
+ * @param options - valuations, external flows and day count convention
+ * @returns {number[]} - one return per pair of valuations, as fractions
+ */
+export function periodReturns(options: PortfolioOptions): number[] {
+    const { valuations, flows = [], dayCount } = options;
+    validate(valuations, flows);
+    return valuations.slice(1).map((end, i) => {
+        const start = valuations[i];
+        return dietz(start, end, flows.filter((flow) => flow.date > start.date && flow.date <= end.date), dayCount);
+    });
+}
+
+/**
+ * Time-weighted return (TWR) - period returns linked geometrically, so that the timing and size of external
+ * flows don't affect the return. Valuing the portfolio on each flow date gives the true daily-linked return.
+ * @param options - valuations, external flows and day count convention
+ * @returns {number} - return over the whole period as a fraction
+ * @example timeWeightedReturn({ valuations: [{ date: jan1, value: 1000 }, { date: jun30, value: 1100 }, { date: dec31, value: 1320 }] }) // 0.32
+ */
+export function timeWeightedReturn(options: PortfolioOptions): number {
+    return link(periodReturns(options));
+}
+
+/**
+ * Money-weighted return (MWR) - the XIRR of the first valuation and the flows invested, against the last
+ * valuation, so that returns on more capital weigh more
+ * @param options - valuations, external flows, day count convention, and solver tolerance, iteration cap, bracket and guess
+ * @returns {number} - annual return as a fraction
+ */
+export function moneyWeightedReturn(options: MoneyWeightedOptions): number {
+    const { valuations, flows = [], ...solverOptions } = options;
+    validate(valuations, flows);
+    const first = valuations[0];
+    const last = valuations[valuations.length - 1];
+    const values = [-first.value].concat(flows.map((flow) => -flow.amount), [last.value]);
+    const dates = [first.date].concat(flows.map((flow) => flow.date), [last.date]);
+    return xirr(values, dates, solverOptions.guess, solverOptions);
+}
+
+/**
+ * Annualized return - the annual rate compounding to a return over a number of years
+ * @param options - return over the whole period and its length in years
+ * @returns {number} - annual return as a fraction
+ * @example annualizeReturn({ cumulativeReturn: 0.21, years: 2 }) // 0.1
+ */
+export function annualizeReturn(options: AnnualizeOptions): number {
+    const { cumulativeReturn, years } = options;
+    assertFinite('cumulativeReturn', cumulativeReturn);
+    assertPositive('years', years);
+    if (cumulativeReturn < -1) {
+        throw new ValidationError('cumulativeReturn must not be below -100%', 'cumulativeReturn');
+    }
+    return Math.pow(1 + cumulativeReturn, 1 / years) - 1;
+}
+
+export interface CagrOptions {
+    beginningValue: number;
+    endingValue: number;
+    /** number of periods between the values */
+    periods: number;
+}
+
+export interface RoiOptions {
+    /** amount invested, the sign is ignored */
+    investment: number;
+    /** amount returned by the investment */
+    earnings: number;
+}
+
+export interface RealReturnOptions {
+    /** return before inflation as a fraction */
+    nominalReturn: number;
+    /** inflation over the same period as a fraction */
+    inflation: number;
+}
+
+/**
+ * Compound annual growth rate (CAGR) - the rate per period compounding the beginning value to the ending value
+ * @param options - beginning value, ending value and number of periods
+ * @returns {number} - growth rate per period as a fraction
+ * @example cagr({ beginningValue: 10000, endingValue: 19500, periods: 3 }) // 0.2493
+ */
+export function cagr(options: CagrOptions): number {
+    const { beginningValue, endingValue, periods } = options;
+    assertPositive('beginningValue', beginningValue);
+    assertNonNegative('endingValue', endingValue);
+    assertPositive('periods', periods);
+    return Math.pow(endingValue / beginningValue, 1 / periods) - 1;
+}
+
+/**
+ * Return on investment (ROI) - the gain on an investment over the amount invested
+ * @param options - amount invested and earnings
+ * @returns {number} - return as a fraction
+ * @example roi({ investment: -55000, earnings: 60000 }) // 0.0909
+ */
+export function roi(options: RoiOptions): number {
+    const { investment, earnings } = options;
+    assertFinite('investment', investment);
+    assertFinite('earnings', earnings);
+    if (investment === 0) {
+        throw new ValidationError('investment must not be 0', 'investment');
+    }
+    return (earnings - Math.abs(investment)) / Math.abs(investment);
+}
+
+/**
+ * Inflation-adjusted return (IAR) - the real return of an investment, the Fisher equation
+ * @param options - nominal return and inflation
+ * @returns {number} - real return as a fraction
+ * @example realReturn({ nominalReturn: 0.08, inflation: 0.03 }) // 0.0485
+ */
+export function realReturn(options: RealReturnOptions): number {
+    const { nominalReturn, inflation } = options;
+    assertRate('nominalReturn', nominalReturn);
+    assertRate('inflation', inflation);
+    return (1 + nominalReturn) / (1 + inflation) - 1;
+}
+
+/**
+ * Performance of a portfolio - Modified Dietz, time-weighted and money-weighted returns from its valuations and
+ * external flows
+ * @param options - valuations, external flows, day count convention, and solver options of the money-weighted return
+ * @returns {PerformanceResult} - returns over the period, period returns and annualized returns
+ */
+export function measurePerformance(options: MoneyWeightedOptions): PerformanceResult {
+    const { valuations, dayCount } = options;
+    const returns = periodReturns(options);
+    const years = yearFraction(valuations[0].date, valuations[valuations.length - 1].date, dayCount);
+    const timeWeighted = link(returns);
+    return {
+        years,
+        modifiedDietz: modifiedDietz(options),
+        periodReturns: returns,
+        timeWeightedReturn: timeWeighted,
+        annualizedTimeWeightedReturn: annualizeReturn({ cumulativeReturn: timeWeighted, years }),
+        moneyWeightedReturn: moneyWeightedReturn(options),
+    };
+}
+
+/**
+ * Volatility - sample standard deviation of periodic returns
+ * @param options - periodic returns and periods per year to annualize with
+ * @returns {number} - volatility as a fraction
+ * @example volatility({ returns: [0.01, -0.02, 0.03], periodsPerYear: 12 }) // 0.0872
+ */
+export function volatility(options: VolatilityOptions): number {
+    const { returns, periodsPerYear = 1 } = options;
+    assertReturns('returns', returns);
+    return standardDeviation(returns) * Math.sqrt(periodsOf(periodsPerYear));
+}
+
+/**
+ * Sharpe ratio - average return in excess of the risk-free rate per unit of volatility
+ * @param options - periodic returns, risk-free return per period and periods per year to annualize with
+ * @returns {number} - Sharpe ratio
+ */
+export function sharpeRatio(options: SharpeOptions): number {
+    const { returns, riskFree = 0, periodsPerYear = 1 } = options;
+    assertReturns('returns', returns);
+    assertFinite('riskFree', riskFree);
+    const excess = returns.map((r) => r - riskFree);
+    const deviation = standardDeviation(excess);
+    if (deviation === 0) {
+        throw new ValidationError('returns must vary for a Sharpe ratio', 'returns');
+    }
+    return mean(excess) / deviation * Math.sqrt(periodsOf(periodsPerYear));
+}
+
+/**
+ * Sortino ratio - average return in excess of a target per unit of downside deviation, the volatility of the
+ * returns below the target
+ * @param options - periodic returns, minimum acceptable return per period and periods per year to annualize with
+ * @returns {number} - Sortino ratio
+ */
+export function sortinoRatio(options: SortinoOptions): number {
+    const { returns, target = 0, periodsPerYear = 1 } = options;
+    assertReturns('returns', returns);
+    assertFinite('target', target);
+    const excess = returns.map((r) => r - target);
+    const downside = Math.sqrt(excess.reduce((sum, e) => sum + Math.pow(Math.min(e, 0), 2), 0) / excess.length);
+    if (downside === 0) {
+        throw new ValidationError('returns must fall below the target for a Sortino ratio', 'returns');
+    }
+    return mean(excess) / downside * Math.sqrt(periodsOf(periodsPerYear));
+}
+
+/**
+ * Maximum drawdown - the largest fall from a peak of the value compounded from the returns
+ * @param returns - periodic returns as fractions
+ * @returns {Drawdown} - depth of the fall, and where the peak, the trough and the recovery are
+ * @example maxDrawdown([0.1, -0.2, 0.05, 0.3]).depth // 0.2
+ */
+export function maxDrawdown(returns: number[]): Drawdown {
+    assertReturns('returns', returns, 1);
+    const values = [1];
+    returns.forEach((r) => values.push(values[values.length - 1] * (1 + r)));
+    let peak = 0;
+    let worst: Drawdown = { depth: 0, peak: 0, trough: 0 };
+    values.forEach((value, i) => {
+        if (value > values[peak]) {
+            peak = i;
+        }
+        const depth = 1 - value / values[peak];
+        if (depth > worst.depth) {
+            worst = { depth, peak, trough: i };
+        }
+    });
+    for (let i = worst.trough + 1; i < values.length && worst.depth > 0; i++) {
+        if (values[i] >= values[worst.peak]) {
+            worst.recovery = i;
+            break;
+        }
+    }
+    return worst;
+}
+
+/**
+ * Beta - sensitivity of the returns to the benchmark's, their covariance over the benchmark's variance. The
+ * result is the beta CAPM takes.
+ * @param options - periodic returns and benchmark returns over the same periods
+ * @returns {number} - beta
+ * @example beta({ returns: [0.02, -0.01, 0.03], benchmarkReturns: [0.01, -0.01, 0.02] }) // 1.3571
+ */
+export function beta(options: BetaOptions): number {
+    const { returns, benchmarkReturns } = options;
+    assertPaired(returns, benchmarkReturns);
+    const benchmarkMean = mean(benchmarkReturns);
+    const returnsMean = mean(returns);
+    let covariance = 0;
+    let variance = 0;
+    benchmarkReturns.forEach((b, i) => {
+        covariance += (returns[i] - returnsMean) * (b - benchmarkMean);
+        variance += Math.pow(b - benchmarkMean, 2);
+    });
+    if (variance === 0) {
+        throw new ValidationError('benchmarkReturns must vary for a beta', 'benchmarkReturns');
+    }
+    return covariance / variance;
+}
+
+/**
+ * Jensen's alpha - average return above what CAPM expects from the beta to the benchmark
+ * @param options - periodic returns, benchmark returns over the same periods, risk-free return per period and
+ * periods per year to annualize with
+ * @returns {number} - alpha as a fraction
+ */
+export function alpha(options: AlphaOptions): number {
+    const { returns, benchmarkReturns, riskFree = 0, periodsPerYear = 1 } = options;
+    assertFinite('riskFree', riskFree);
+    const sensitivity = beta({ returns, benchmarkReturns });
+    const expected = riskFree + sensitivity * (mean(benchmarkReturns) - riskFree);
+    return (mean(returns) - expected) * periodsOf(periodsPerYear);
+}
+
+function dietz(start: Valuation, end: Valuation, flows: ExternalFlow[], dayCount?: DayCount): number {
+    const length = yearFraction(start.date, end.date, dayCount);
+    let netFlow = 0;
+    let weightedFlow = 0;
+    flows.forEach((flow) => {
+        netFlow += flow.amount;
+        weightedFlow += flow.amount * yearFraction(flow.date, end.date, dayCount) / length;
+    });
+    const capital = start.value + weightedFlow;
+    if (capital <= 0) {
+        throw new ValidationError('average capital invested must be positive for a return', 'valuations');
+    }
+    return (end.value - start.value - netFlow) / capital;
+}
+
+function link(returns: number[]): number {
+    return returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+}
+
+function validate(valuations: Valuation[], flows: ExternalFlow[]): void {
+    if (!Array.isArray(valuations) || valuations.length < 2) {
+        throw new ValidationError('valuations must contain at least 2 valuations', 'valuations');
+    }
+    valuations.forEach((valuation, i) => {
+        assertDate(`valuations[${i}].date`, valuation.date);
+        assertNonNegative(`valuations[${i}].value`, valuation.value);
+        if (i > 0 && valuation.date <= valuations[i - 1].date) {
+            throw new ValidationError('valuations must be in increasing order of date', 'valuations');
+        }
+    });
+    const first = valuations[0].date;
+    const last = valuations[valuations.length - 1].date;
+    flows.forEach((flow, i) => {
+        assertDate(`flows[${i}].date`, flow.date);
+        assertFinite(`flows[${i}].amount`, flow.amount);
+        if (flow.date <= first || flow.date > last) {
+            throw new ValidationError('flows must fall after the first valuation and not after the last', `flows[${i}].date`);
+        }
+    });
+}
+
+function assertReturns(name: string, returns: number[], minLength = 2): void {
+    if (!Array.isArray(returns) || returns.length < minLength) {
+        throw new ValidationError(`${name} must contain at least ${minLength} return${minLength === 1 ? '' : 's'}`, name);
+    }
+    returns.forEach((r, i) => assertFinite(`${name}[${i}]`, r));
+}
+
+function assertPaired(returns: number[], benchmarkReturns: number[]): void {
+    assertReturns('returns', returns);
+    assertReturns('benchmarkReturns', benchmarkReturns);
+    if (returns.length !== benchmarkReturns.length) {
+        throw new ValidationError('returns and benchmarkReturns must cover the same periods', 'benchmarkReturns');
+    }
+}
+
+function periodsOf(periodsPerYear: number): number {
+    assertPositive('periodsPerYear', periodsPerYear);
+    return periodsPerYear;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+    const average = mean(values);
+    return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1));
+}
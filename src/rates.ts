@@ -0,0 +1,53 @@
+import { ValidationError } from './errors';
+
+/**
+ * Unit of an interest rate or return: percent (5 for 5%), decimal (0.05 for 5%) or basis points (500 for 5%)
+ */
+export type RateUnit = 'percent' | 'decimal' | 'bps';
+
+const PER_UNIT: { [unit: string]: number } = {
+    percent: 100,
+    decimal: 1,
+    bps: 10000,
+};
+
+/**
+ * Converts a rate to a decimal fraction
+ * @param rate - rate in the given unit
+ * @param unit - unit of the rate
+ * @returns {number} - rate as a fraction
+ * @example toDecimal(250, 'bps') // 0.025
+ */
+export function toDecimal(rate: number, unit: RateUnit): number {
+    return rate / perUnit(unit);
+}
+
+/**
+ * Converts a decimal fraction to a rate in the given unit
+ * @param rate - rate as a fraction
+ * @param unit - unit of the result
+ * @returns {number} - rate in the given unit
+ * @example fromDecimal(0.025, 'percent') // 2.5
+ */
+export function fromDecimal(rate: number, unit: RateUnit): number {
+    return rate * perUnit(unit);
+}
+
+/**
+ * Converts a rate between units
+ * @param rate - rate in the source unit
+ * @param from - source unit
+ * @param to - target unit
+ * @returns {number} - rate in the target unit
+ * @example convertRate(5, 'percent', 'bps') // 500
+ */
+export function convertRate(rate: number, from: RateUnit, to: RateUnit): number {
+    return from === to ? rate : fromDecimal(toDecimal(rate, from), to);
+}
+
+function perUnit(unit: RateUnit): number {
+    if (!PER_UNIT[unit]) {
+        throw new ValidationError(`Unknown rate unit ${unit}`, 'rateUnit');
+    }
+    return PER_UNIT[unit];
+}
@@ -0,0 +1,387 @@
+import { ValidationError } from './errors';
+import { cagr } from './performance';
+import { assertFinite, assertPositive } from './validation';
+
+/**
+ * Financial ratios - liquidity, leverage, coverage, efficiency and profitability ratios of financial statements,
+ * the DuPont decomposition of return on equity and growth between periods. A ratio that can't be calculated
+ * has no value and a flag naming the missing or zero statement fields, instead of Infinity or NaN.
+ */
+
+export interface DebtToIncomeInputs {
+    /** monthly payments on all debts */
+    monthlyDebtPayments: number;
+    /** gross monthly income */
+    monthlyIncome: number;
+}
+
+export interface LeverageInputs {
+    totalLiabilities: number;
+    totalDebts: number;
+    totalIncome: number;
+}
+
+export interface IncomeStatement {
+    revenue?: number;
+    costOfGoodsSold?: number;
+    /** earnings before interest and taxes (EBIT) */
+    operatingIncome?: number;
+    depreciationAndAmortization?: number;
+    interestExpense?: number;
+    /** earnings before taxes */
+    pretaxIncome?: number;
+    netIncome?: number;
+}
+
+export interface BalanceSheet {
+    cash?: number;
+    shortTermInvestments?: number;
+    receivables?: number;
+    inventory?: number;
+    currentAssets?: number;
+    totalAssets?: number;
+    currentLiabilities?: number;
+    totalLiabilities?: number;
+    /** short and long term borrowings */
+    totalDebt?: number;
+    shareholdersEquity?: number;
+}
+
+export interface CashFlowStatement {
+    operatingCashFlow?: number;
+    /** capital expenditures, as a positive amount */
+    capitalExpenditures?: number;
+}
+
+export interface FinancialStatements {
+    income: IncomeStatement;
+    /** balance sheet at the end of the period */
+    balance: BalanceSheet;
+    cashFlow?: CashFlowStatement;
+    /** balance sheet at the start of the period; turnover and return ratios average it with the closing one when given */
+    openingBalance?: BalanceSheet;
+}
+
+export interface RatioOptions {
+    /** days in the period, for days sales and days inventory outstanding, defaults to 365 */
+    daysInPeriod?: number;
+}
+
+/**
+ * Why a ratio has no value: missing - a statement field it needs wasn't given, zero-denominator - it would divide
+ * by 0, non-positive - growth can't compound from a value that isn't positive or to a negative value
+ */
+export type RatioFlag = 'missing' | 'zero-denominator' | 'non-positive';
+
+export interface Ratio {
+    /** undefined when the ratio can't be calculated */
+    value?: number;
+    /** why the value is undefined */
+    flag?: RatioFlag;
+    /** statement fields behind the flag, e.g. balance.currentLiabilities */
+    fields?: string[];
+}
+
+export interface LiquidityRatios {
+    /** current assets over current liabilities */
+    currentRatio: Ratio;
+    /** current assets less inventory over current liabilities */
+    quickRatio: Ratio;
+    /** cash and short term investments over current liabilities */
+    cashRatio: Ratio;
+    /** operating cash flow over current liabilities */
+    operatingCashFlowRatio: Ratio;
+}
+
+export interface LeverageRatios {
+    /** total debt over shareholders' equity */
+    debtToEquity: Ratio;
+    /** total debt over total assets */
+    debtToAssets: Ratio;
+    /** total liabilities over total assets */
+    liabilitiesToAssets: Ratio;
+    /** total assets over shareholders' equity */
+    equityMultiplier: Ratio;
+}
+
+export interface CoverageRatios {
+    /** operating income over interest expense */
+    interestCoverage: Ratio;
+    /** operating income with depreciation and amortization added back, over interest expense */
+    ebitdaCoverage: Ratio;
+    /** operating cash flow over total debt */
+    cashFlowToDebt: Ratio;
+}
+
+export interface EfficiencyRatios {
+    /** revenue over average total assets */
+    assetTurnover: Ratio;
+    /** revenue over average receivables */
+    receivablesTurnover: Ratio;
+    /** cost of goods sold over average inventory */
+    inventoryTurnover: Ratio;
+    /** days of revenue held as receivables */
+    daysSalesOutstanding: Ratio;
+    /** days of cost of goods sold held as inventory */
+    daysInventoryOutstanding: Ratio;
+}
+
+export interface ProfitabilityRatios {
+    /** revenue less cost of goods sold over revenue */
+    grossMargin: Ratio;
+    operatingMargin: Ratio;
+    netMargin: Ratio;
+    /** operating cash flow less capital expenditures over revenue */
+    freeCashFlowMargin: Ratio;
+    /** net income over average total assets */
+    returnOnAssets: Ratio;
+    /** net income over average shareholders' equity */
+    returnOnEquity: Ratio;
+}
+
+/**
+ * DuPont decomposition - return on equity as net margin x asset turnover x equity multiplier, and net margin as
+ * tax burden x interest burden x operating margin. Turnover and the multiplier use average balances.
+ */
+export interface DuPont {
+    /** net income over pretax income */
+    taxBurden: Ratio;
+    /** pretax income over operating income */
+    interestBurden: Ratio;
+    operatingMargin: Ratio;
+    netMargin: Ratio;
+    assetTurnover: Ratio;
+    /** average total assets over average shareholders' equity */
+    equityMultiplier: Ratio;
+    /** product of net margin, asset turnover and equity multiplier */
+    returnOnEquity: Ratio;
+}
+
+export interface RatioAnalysis {
+    liquidity: LiquidityRatios;
+    leverage: LeverageRatios;
+    coverage: CoverageRatios;
+    efficiency: EfficiencyRatios;
+    profitability: ProfitabilityRatios;
+    dupont: DuPont;
+}
+
+export type GrowthMetric = 'revenue' | 'operatingIncome' | 'netIncome' | 'totalAssets' | 'shareholdersEquity' | 'operatingCashFlow';
+
+export interface Growth {
+    /** growth from each period to the next */
+    periodOverPeriod: Ratio[];
+    /** compound growth per period from the first period to the last */
+    cagr: Ratio;
+}
+
+// an amount from the statements, or the fields it is missing
+interface Term {
+    value: number;
+    /** statement fields the amount is made of */
+    name: string;
+    missing: string[];
+}
+
+const GROWTH_FIELDS: { [metric: string]: [keyof FinancialStatements, string] } = {
+    revenue: ['income', 'revenue'],
+    operatingIncome: ['income', 'operatingIncome'],
+    netIncome: ['income', 'netIncome'],
+    totalAssets: ['balance', 'totalAssets'],
+    shareholdersEquity: ['balance', 'shareholdersEquity'],
+    operatingCashFlow: ['cashFlow', 'operatingCashFlow'],
+};
+
+/**
+ * Leverage ratio (LR) - total liabilities and total debts over total income. Debts are usually part of the
+ * liabilities, so this isn't a standard leverage ratio; see analyzeRatios for debt-to-equity, debt-to-assets and
+ * the equity multiplier.
+ * @param inputs - total liabilities, total debts and total income
+ * @returns {number} - leverage ratio
+ * @example leverageRatio({ totalLiabilities: 25, totalDebts: 10, totalIncome: 20 }) // 1.75
+ */
+export function leverageRatio(inputs: LeverageInputs): number {
+    const { totalLiabilities, totalDebts, totalIncome } = inputs;
+    assertFinite('totalLiabilities', totalLiabilities);
+    assertFinite('totalDebts', totalDebts);
+    assertFinite('totalIncome', totalIncome);
+    if (totalIncome === 0) {
+        throw new ValidationError('totalIncome must not be 0', 'totalIncome');
+    }
+    return (totalLiabilities + totalDebts) / totalIncome;
+}
+
+/**
+ * Debt-to-income ratio (DTI) - monthly debt payments over gross monthly income
+ * @param inputs - monthly debt payments and gross monthly income
+ * @returns {number} - debt-to-income ratio as a fraction
+ * @example debtToIncome({ monthlyDebtPayments: 2000, monthlyIncome: 8000 }) // 0.25
+ */
+export function debtToIncome(inputs: DebtToIncomeInputs): number {
+    const { monthlyDebtPayments, monthlyIncome } = inputs;
+    assertFinite('monthlyDebtPayments', monthlyDebtPayments);
+    assertFinite('monthlyIncome', monthlyIncome);
+    if (monthlyIncome <= 0) {
+        throw new ValidationError(`monthlyIncome must be greater than 0, got ${monthlyIncome}`, 'monthlyIncome');
+    }
+    return monthlyDebtPayments / monthlyIncome;
+}
+
+/**
+ * Ratio analysis - liquidity, leverage, coverage, efficiency and profitability ratios of a period's statements,
+ * with the DuPont decomposition of return on equity
+ * @param statements - income statement, closing balance sheet, cash flow statement and opening balance sheet
+ * @param options - days in the period
+ * @returns {RatioAnalysis} - ratios as fractions or multiples, flagged when a field is missing or a denominator is 0
+ * @example analyzeRatios({ income: { revenue: 1000, netIncome: 100 }, balance: { shareholdersEquity: 500 } }).profitability.returnOnEquity // { value: 0.2 }
+ */
+export function analyzeRatios(statements: FinancialStatements, options: RatioOptions = {}): RatioAnalysis {
+    const { daysInPeriod = 365 } = options;
+    assertPositive('daysInPeriod', daysInPeriod);
+    if (!statements || !statements.income || !statements.balance) {
+        throw new ValidationError('statements must have an income statement and a balance sheet', 'statements');
+    }
+    const income = (field: keyof IncomeStatement) => term(`income.${field}`, statements.income[field]);
+    const balance = (field: keyof BalanceSheet) => term(`balance.${field}`, statements.balance[field]);
+    const cashFlow = (field: keyof CashFlowStatement) => term(`cashFlow.${field}`, statements.cashFlow && statements.cashFlow[field]);
+    const average = (field: keyof BalanceSheet) => statements.openingBalance
+        ? scale(add(balance(field), term(`openingBalance.${field}`, statements.openingBalance[field])), 0.5)
+        : balance(field);
+
+    const revenue = income('revenue');
+    const operatingIncome = income('operatingIncome');
+    const netIncome = income('netIncome');
+    const currentLiabilities = balance('currentLiabilities');
+    const operatingCashFlow = cashFlow('operatingCashFlow');
+
+    const netMargin = ratio(netIncome, revenue);
+    const operatingMargin = ratio(operatingIncome, revenue);
+    const assetTurnover = ratio(revenue, average('totalAssets'));
+    const averageMultiplier = ratio(average('totalAssets'), average('shareholdersEquity'));
+    const receivablesTurnover = ratio(revenue, average('receivables'));
+    const inventoryTurnover = ratio(income('costOfGoodsSold'), average('inventory'));
+    return {
+        liquidity: {
+            currentRatio: ratio(balance('currentAssets'), currentLiabilities),
+            quickRatio: ratio(add(balance('currentAssets'), scale(balance('inventory'), -1)), currentLiabilities),
+            cashRatio: ratio(add(balance('cash'), balance('shortTermInvestments')), currentLiabilities),
+            operatingCashFlowRatio: ratio(operatingCashFlow, currentLiabilities),
+        },
+        leverage: {
+            debtToEquity: ratio(balance('totalDebt'), balance('shareholdersEquity')),
+            debtToAssets: ratio(balance('totalDebt'), balance('totalAssets')),
+            liabilitiesToAssets: ratio(balance('totalLiabilities'), balance('totalAssets')),
+            equityMultiplier: ratio(balance('totalAssets'), balance('shareholdersEquity')),
+        },
+        coverage: {
+            interestCoverage: ratio(operatingIncome, income('interestExpense')),
+            ebitdaCoverage: ratio(add(operatingIncome, income('depreciationAndAmortization')), income('interestExpense')),
+            cashFlowToDebt: ratio(operatingCashFlow, balance('totalDebt')),
+        },
+        efficiency: {
+            assetTurnover,
+            receivablesTurnover,
+            inventoryTurnover,
+            daysSalesOutstanding: ratio(scale(average('receivables'), daysInPeriod), revenue),
+            daysInventoryOutstanding: ratio(scale(average('inventory'), daysInPeriod), income('costOfGoodsSold')),
+        },
+        profitability: {
+            grossMargin: ratio(add(revenue, scale(income('costOfGoodsSold'), -1)), revenue),
+            operatingMargin,
+            netMargin,
+            freeCashFlowMargin: ratio(add(operatingCashFlow, scale(cashFlow('capitalExpenditures'), -1)), revenue),
+            returnOnAssets: ratio(netIncome, average('totalAssets')),
+            returnOnEquity: ratio(netIncome, average('shareholdersEquity')),
+        },
+        dupont: {
+            taxBurden: ratio(netIncome, income('pretaxIncome')),
+            interestBurden: ratio(income('pretaxIncome'), operatingIncome),
+            operatingMargin,
+            netMargin,
+            assetTurnover,
+            equityMultiplier: averageMultiplier,
+            returnOnEquity: product([netMargin, assetTurnover, averageMultiplier]),
+        },
+    };
+}
+
+/**
+ * Statement growth - growth of revenue, income, assets, equity and operating cash flow from each period to the
+ * next, and compounded from the first period to the last, with CAGR
+ * @param statements - statements of consecutive periods, oldest first
+ * @returns {Record<GrowthMetric, Growth>} - period-over-period growth and CAGR of each metric as fractions
+ * @example statementGrowth([{ income: { revenue: 100 }, balance: {} }, { income: { revenue: 121 }, balance: {} }]).revenue.cagr // { value: 0.21 }
+ */
+export function statementGrowth(statements: FinancialStatements[]): Record<GrowthMetric, Growth> {
+    if (!Array.isArray(statements) || statements.length < 2) {
+        throw new ValidationError('statements must contain at least 2 periods', 'statements');
+    }
+    const result = {} as Record<GrowthMetric, Growth>;
+    Object.keys(GROWTH_FIELDS).forEach((metric) => {
+        const [statement, field] = GROWTH_FIELDS[metric];
+        const values = statements.map((period, i) => {
+            const source = period[statement] as { [field: string]: number | undefined } | undefined;
+            return term(`[${i}].${statement}.${field}`, source && source[field]);
+        });
+        result[metric as GrowthMetric] = {
+            periodOverPeriod: values.slice(1).map((value, i) => growth(values[i], value, 1)),
+            cagr: growth(values[0], values[values.length - 1], values.length - 1),
+        };
+    });
+    return result;
+}
+
+function term(name: string, value: number | undefined): Term {
+    if (value === undefined || value === null) {
+        return { value: NaN, name, missing: [name] };
+    }
+    assertFinite(name, value);
+    return { value, name, missing: [] };
+}
+
+function add(a: Term, b: Term): Term {
+    return { value: a.value + b.value, name: `${a.name} + ${b.name}`, missing: [...a.missing, ...b.missing] };
+}
+
+function scale(a: Term, factor: number): Term {
+    return { ...a, value: a.value * factor };
+}
+
+function ratio(numerator: Term, denominator: Term): Ratio {
+    const missing = [...numerator.missing, ...denominator.missing];
+    if (missing.length > 0) {
+        return { flag: 'missing', fields: unique(missing) };
+    }
+    if (denominator.value === 0) {
+        return { flag: 'zero-denominator', fields: unique(denominator.name.split(' + ')) };
+    }
+    return { value: numerator.value / denominator.value };
+}
+
+// product of ratios, flagged with every field behind the flagged ratios
+function product(ratios: Ratio[]): Ratio {
+    const flagged = ratios.filter((r) => r.flag !== undefined);
+    if (flagged.length > 0) {
+        const fields = flagged.reduce((all: string[], r) => all.concat(r.fields || []), []);
+        return { flag: flagged.some((r) => r.flag === 'missing') ? 'missing' : flagged[0].flag, fields: unique(fields) };
+    }
+    return { value: ratios.reduce((total, r) => total * (r.value as number), 1) };
+}
+
+function growth(from: Term, to: Term, periods: number): Ratio {
+    const missing = [...from.missing, ...to.missing];
+    if (missing.length > 0) {
+        return { flag: 'missing', fields: missing };
+    }
+    if (from.value === 0) {
+        return { flag: 'zero-denominator', fields: [from.name] };
+    }
+    if (from.value < 0 || to.value < 0) {
+        return { flag: 'non-positive', fields: [from.name, to.name].filter((name, i) => [from, to][i].value < 0) };
+    }
+    return { value: cagr({ beginningValue: from.value, endingValue: to.value, periods }) };
+}
+
+function unique(fields: string[]): string[] {
+    return fields.filter((field, i) => fields.indexOf(field) === i);
+}
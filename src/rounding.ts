@@ -0,0 +1,50 @@
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil' | 'none';
+
+export interface RoundingPolicy {
+    /** decimal places kept, defaults to 2 */
+    decimals?: number;
+    /** half-up rounds ties away from zero, half-even rounds ties to the even digit (banker's rounding), defaults to half-up */
+    mode?: RoundingMode;
+}
+
+/**
+ * Rounds a value according to a rounding policy
+ * @param value - value to round
+ * @param policy - decimal places and rounding mode
+ * @returns {number} - rounded value
+ * @example round(2.345, { decimals: 2, mode: 'half-even' }) // 2.34
+ */
+export function round(value: number, policy: RoundingPolicy = {}): number {
+    const { decimals = 2, mode = 'half-up' } = policy;
+    if (mode === 'none' || !isFinite(value)) {
+        return value;
+    }
+    const factor = Math.pow(10, decimals);
+    let scaled = value * factor;
+    // undo representation error that moves a tie or a whole number, e.g. 1.005 * 100 = 100.49999999999999
+    const half = Math.round(scaled * 2) / 2;
+    if (Math.abs(scaled - half) <= 1e-12 * Math.max(1, Math.abs(scaled))) {
+        scaled = half;
+    }
+
+    let rounded: number;
+    switch (mode) {
+        case 'floor':
+            rounded = Math.floor(scaled);
+            break;
+        case 'ceil':
+            rounded = Math.ceil(scaled);
+            break;
+        case 'half-even': {
+            const whole = Math.floor(scaled);
+            const fraction = scaled - whole;
+            rounded = fraction > 0.5 || (fraction === 0.5 && whole % 2 !== 0) ? whole + 1 : whole;
+            break;
+        }
+        default:
+            rounded = Math.sign(scaled) * Math.floor(Math.abs(scaled) + 0.5);
+    }
+    const result = rounded / factor;
+    // avoid returning -0
+    return result === 0 ? 0 : result;
+}
@@ -0,0 +1,139 @@
+import { Arithmetic, floatArithmetic } from './arithmetic';
+import { ValidationError } from './errors';
+import { RoundingPolicy } from './rounding';
+import { assertInteger, assertPositive, assertRate } from './validation';
+
+export type Frequency = 'monthly' | 'biweekly' | 'quarterly' | 'annual';
+
+export interface ScheduleOptions {
+    principal: number;
+    /** annual nominal interest rate, e.g. 7.5 for 7.5% */
+    rate: number;
+    numOfPayments: number;
+    frequency?: Frequency;
+    /** start of the first period, defaults to today */
+    startDate?: Date;
+    payAtBeginning?: boolean;
+    /** rounding of every amount, defaults to cents */
+    rounding?: RoundingPolicy;
+    /** number backend, defaults to IEEE doubles */
+    arithmetic?: Arithmetic<unknown>;
+}
+
+export interface ScheduleRow {
+    period: number;
+    date: Date;
+    openingBalance: number;
+    payment: number;
+    interest: number;
+    principal: number;
+    closingBalance: number;
+    cumulativeInterest: number;
+}
+
+const PERIODS_PER_YEAR: { [frequency: string]: number } = {
+    monthly: 12,
+    biweekly: 26,
+    quarterly: 4,
+    annual: 1,
+};
+
+/**
+ * Number of payment periods in a year for a frequency
+ * @param frequency - payment frequency
+ * @returns {number} - periods per year
+ * @example periodsPerYear('quarterly') // 4
+ */
+export function periodsPerYear(frequency: Frequency): number {
+    if (!PERIODS_PER_YEAR[frequency]) {
+        throw new ValidationError(`Unknown payment frequency ${frequency}`, 'frequency');
+    }
+    return PERIODS_PER_YEAR[frequency];
+}
+
+/**
+ * Moves a date forward by a number of periods, in UTC. Month based frequencies keep the day of month,
+ * clamped to the end of shorter months.
+ * @param date - start date
+ * @param frequency - payment frequency
+ * @param count - number of periods
+ * @returns {Date} - shifted date
+ * @example addPeriods(new Date(Date.UTC(2023, 0, 31)), 'monthly', 1) // 2023-02-28
+ */
+export function addPeriods(date: Date, frequency: Frequency, count: number): Date {
+    if (frequency === 'biweekly') {
+        return new Date(date.getTime() + count * 14 * 24 * 60 * 60 * 1000);
+    }
+    const months = count * (12 / periodsPerYear(frequency));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const day = Math.min(date.getUTCDate(), lastDay);
+    return new Date(Date.UTC(year, month, day, date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()));
+}
+
+/**
+ * Level payment of an annuity, the same formula AM and PMT are built on
+ * @param arithmetic - number backend
+ * @param principal - principal amount
+ * @param ratePerPeriod - interest rate per period as a fraction
+ * @param numOfPayments - number of payments
+ * @param payAtBeginning - true - pay at the beginning of each period
+ * @returns {T} - unrounded payment
+ */
+export function levelPayment<T>(arithmetic: Arithmetic<T>, principal: T, ratePerPeriod: T, numOfPayments: number, payAtBeginning?: boolean): T {
+    const m = arithmetic;
+    if (m.compare(ratePerPeriod, m.from(0)) === 0) {
+        return m.divide(principal, m.from(numOfPayments));
+    }
+    const onePlusRate = m.add(m.from(1), ratePerPeriod);
+    const pmt = m.divide(m.multiply(principal, ratePerPeriod), m.subtract(m.from(1), m.pow(onePlusRate, -numOfPayments)));
+    return payAtBeginning ? m.divide(pmt, onePlusRate) : pmt;
+}
+
+/**
+ * Amortization schedule - every period of a level payment loan, with the final payment adjusted so the loan
+ * closes at exactly zero
+ * @param options - loan principal, annual rate, number of payments, frequency, start date and payment timing
+ * @returns {ScheduleRow[]} - one row per payment
+ * @example amortizationSchedule({ principal: 20000, rate: 7.5, numOfPayments: 60 })[0].payment // 400.76
+ */
+export function amortizationSchedule(options: ScheduleOptions): ScheduleRow[] {
+    const { rate, numOfPayments, frequency = 'monthly', payAtBeginning = false, rounding } = options;
+    assertPositive('principal', options.principal);
+    assertRate('rate', rate / 100);
+    assertInteger('numOfPayments', numOfPayments);
+    const m = options.arithmetic || floatArithmetic;
+    const roundAmount = (value: unknown) => m.round(value, rounding);
+    const startDate = options.startDate || new Date();
+    const zero = m.from(0);
+    const ratePerPeriod = m.divide(m.divide(m.from(rate), m.from(100)), m.from(periodsPerYear(frequency)));
+    const payment = roundAmount(levelPayment(m, m.from(options.principal), ratePerPeriod, numOfPayments, payAtBeginning));
+
+    const rows: ScheduleRow[] = [];
+    let balance = m.from(options.principal);
+    let cumulativeInterest = zero;
+
+    for (let period = 1; period <= numOfPayments && m.compare(balance, zero) > 0; period++) {
+        // with payments in advance the first payment is made before any interest accrues
+        const interest = payAtBeginning && period === 1 ? zero : roundAmount(m.multiply(balance, ratePerPeriod));
+        const due = m.add(balance, interest);
+        const amount = period === numOfPayments || m.compare(due, payment) < 0 ? roundAmount(due) : payment;
+        const principal = roundAmount(m.subtract(amount, interest));
+        const closingBalance = roundAmount(m.subtract(balance, principal));
+        cumulativeInterest = roundAmount(m.add(cumulativeInterest, interest));
+
+        rows.push({
+            period,
+            date: addPeriods(startDate, frequency, payAtBeginning ? period - 1 : period),
+            openingBalance: m.toNumber(balance),
+            payment: m.toNumber(amount),
+            interest: m.toNumber(interest),
+            principal: m.toNumber(principal),
+            closingBalance: m.toNumber(closingBalance),
+            cumulativeInterest: m.toNumber(cumulativeInterest),
+        });
+        balance = closingBalance;
+    }
+    return rows;
+}
@@ -0,0 +1,411 @@
+import { irr, npv, profitabilityIndex } from './budgeting';
+import { FinanceError, ValidationError } from './errors';
+import { normalCdf, percentile } from './statistics';
+import { assertCashFlows, assertFinite, assertInteger, assertNonNegative, assertPositive, assertRate } from './validation';
+
+export interface NormalDistribution {
+    type: 'normal';
+    mean: number;
+    standardDeviation: number;
+}
+
+/** distribution of a positive variable whose logarithm is normal, given by the mean and deviation of the variable */
+export interface LognormalDistribution {
+    type: 'lognormal';
+    mean: number;
+    standardDeviation: number;
+}
+
+export interface TriangularDistribution {
+    type: 'triangular';
+    min: number;
+    /** most likely value */
+    mode: number;
+    max: number;
+}
+
+export interface UniformDistribution {
+    type: 'uniform';
+    min: number;
+    max: number;
+}
+
+export type Distribution = NormalDistribution | LognormalDistribution | TriangularDistribution | UniformDistribution;
+
+/** sampled or fixed value of every input, by name */
+export interface ModelInputs {
+    [name: string]: number;
+}
+
+/** builds the cash flows of a project from its inputs, the first one at time 0 */
+export type CashFlowModel = (inputs: ModelInputs) => number[];
+
+/** npv - net present value, irr - internal rate of return, pi - profitability index */
+export type Metric = 'npv' | 'irr' | 'pi';
+
+export interface Correlation {
+    inputs: [string, string];
+    /** correlation coefficient from -1 to 1 */
+    coefficient: number;
+}
+
+export interface SimulationOptions {
+    /** distributions of the inputs, by name */
+    inputs: { [name: string]: Distribution };
+    model: CashFlowModel;
+    /** discount rate per period as a fraction */
+    rate: number;
+    /** number of trials, defaults to 10000 */
+    trials?: number;
+    /** seed of the random numbers, the same seed gives the same results, defaults to 1 */
+    seed?: number;
+    /** correlations between pairs of inputs, uncorrelated by default */
+    correlations?: Correlation[];
+    /** percentiles reported, from 0 to 100, defaults to 5, 25, 50, 75 and 95 */
+    percentiles?: number[];
+}
+
+export interface MetricSummary {
+    mean: number;
+    standardDeviation: number;
+    min: number;
+    max: number;
+    /** value at each reported percentile */
+    percentiles: { [level: number]: number };
+}
+
+export interface SimulationResult {
+    trials: number;
+    npv: MetricSummary;
+    /** summary of the trials with an IRR, undefined when none has one */
+    irr?: MetricSummary;
+    pi: MetricSummary;
+    /** share of the trials with a negative NPV */
+    probabilityNegativeNpv: number;
+    /** trials whose cash flows have no IRR */
+    irrFailures: number;
+}
+
+export interface SensitivityRange {
+    base: number;
+    low: number;
+    high: number;
+}
+
+export interface TornadoOptions {
+    /** base value and range of every input, by name */
+    inputs: { [name: string]: SensitivityRange };
+    model: CashFlowModel;
+    /** discount rate per period as a fraction */
+    rate: number;
+    /** defaults to npv */
+    metric?: Metric;
+}
+
+export interface TornadoBar {
+    input: string;
+    /** metric with the input at its low value and the others at their base */
+    low: number;
+    /** metric with the input at its high value and the others at their base */
+    high: number;
+    /** distance between the low and high metric */
+    swing: number;
+}
+
+export interface TornadoResult {
+    /** metric with every input at its base value */
+    base: number;
+    /** one bar per input, widest swing first */
+    bars: TornadoBar[];
+}
+
+export interface TableAxis {
+    input: string;
+    values: number[];
+}
+
+export interface DataTableOptions {
+    /** value of every input outside the table, by name */
+    base: ModelInputs;
+    model: CashFlowModel;
+    /** discount rate per period as a fraction */
+    rate: number;
+    row: TableAxis;
+    column: TableAxis;
+    /** defaults to npv */
+    metric?: Metric;
+}
+
+export interface DataTable {
+    rowValues: number[];
+    columnValues: number[];
+    /** metric for each row value and column value, NaN when the IRR doesn't exist */
+    results: number[][];
+}
+
+const DEFAULT_PERCENTILES = [5, 25, 50, 75, 95];
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), to make simulations reproducible
+ * @param seed - any integer, the same seed gives the same sequence
+ * @returns {function} - generator of numbers from 0 (included) to 1 (excluded)
+ * @example seededRandom(42)() // 0.6011
+ */
+export function seededRandom(seed: number): () => number {
+    assertFinite('seed', seed);
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Monte Carlo simulation - samples the inputs, correlated through a Gaussian copula, builds the cash flows of
+ * each trial and summarizes their NPV, IRR and profitability index
+ * @param options - input distributions, cash flow model, discount rate, trials, seed, correlations and percentiles
+ * @returns {SimulationResult} - summary of each metric and the probability of a negative NPV
+ * @example simulate({ inputs: { sales: { type: 'normal', mean: 500, standardDeviation: 100 } }, model: ({ sales }) => [-1000, sales, sales, sales], rate: 0.1 })
+ */
+export function simulate(options: SimulationOptions): SimulationResult {
+    const { model, rate, trials = 10000, seed = 1, correlations = [], percentiles = DEFAULT_PERCENTILES } = options;
+    assertRate('rate', rate);
+    assertInteger('trials', trials);
+    const names = Object.keys(options.inputs || {});
+    names.forEach((name) => validateDistribution(name, options.inputs[name]));
+    const factor = cholesky(correlationMatrix(names, correlations));
+    const normal = normalSource(seededRandom(seed));
+
+    const npvs: number[] = [];
+    const irrs: number[] = [];
+    const pis: number[] = [];
+    for (let trial = 0; trial < trials; trial++) {
+        const independent = names.map(() => normal());
+        const inputs: ModelInputs = {};
+        names.forEach((name, i) => {
+            let z = 0;
+            for (let j = 0; j <= i; j++) {
+                z += factor[i][j] * independent[j];
+            }
+            inputs[name] = quantile(options.inputs[name], z);
+        });
+        const cashFlows = run(model, inputs);
+        npvs.push(evaluate('npv', cashFlows, rate));
+        pis.push(evaluate('pi', cashFlows, rate));
+        const trialIrr = evaluate('irr', cashFlows, rate);
+        if (!isNaN(trialIrr)) {
+            irrs.push(trialIrr);
+        }
+    }
+    return {
+        trials,
+        npv: summarize(npvs, percentiles),
+        irr: irrs.length > 0 ? summarize(irrs, percentiles) : undefined,
+        pi: summarize(pis, percentiles),
+        probabilityNegativeNpv: npvs.filter((value) => value < 0).length / trials,
+        irrFailures: trials - irrs.length,
+    };
+}
+
+/**
+ * Tornado sensitivity - the metric with one input at a time moved to its low and high value, the others held
+ * at their base
+ * @param options - base value and range of each input, cash flow model, discount rate and metric
+ * @returns {TornadoResult} - base metric and one bar per input, widest swing first
+ */
+export function tornado(options: TornadoOptions): TornadoResult {
+    const { model, rate, metric = 'npv' } = options;
+    assertRate('rate', rate);
+    const names = Object.keys(options.inputs || {});
+    const base: ModelInputs = {};
+    names.forEach((name) => {
+        const { low, high } = options.inputs[name];
+        base[name] = options.inputs[name].base;
+        assertFinite(`inputs.${name}.base`, base[name]);
+        assertFinite(`inputs.${name}.low`, low);
+        assertFinite(`inputs.${name}.high`, high);
+    });
+    const value = (inputs: ModelInputs) => evaluate(metric, run(model, inputs), rate);
+    const bars = names.map((name) => {
+        const low = value({ ...base, [name]: options.inputs[name].low });
+        const high = value({ ...base, [name]: options.inputs[name].high });
+        return { input: name, low, high, swing: Math.abs(high - low) };
+    });
+    bars.sort((a, b) => b.swing - a.swing);
+    return { base: value(base), bars };
+}
+
+/**
+ * Two-way data table - the metric for every combination of two inputs, the others held at their base, like a
+ * spreadsheet data table
+ * @param options - base inputs, cash flow model, discount rate, row and column inputs with their values, and metric
+ * @returns {DataTable} - one row per row value and one column per column value
+ */
+export function dataTable(options: DataTableOptions): DataTable {
+    const { base, model, rate, row, column, metric = 'npv' } = options;
+    assertRate('rate', rate);
+    [row, column].forEach((axis, i) => {
+        const name = i === 0 ? 'row' : 'column';
+        if (!axis || typeof axis.input !== 'string') {
+            throw new ValidationError(`${name}.input must name an input`, `${name}.input`);
+        }
+        assertCashFlows(`${name}.values`, axis.values);
+    });
+    const results = row.values.map((rowValue) => column.values.map((columnValue) => {
+        const inputs = { ...base, [row.input]: rowValue, [column.input]: columnValue };
+        return evaluate(metric, run(model, inputs), rate);
+    }));
+    return { rowValues: row.values.slice(), columnValues: column.values.slice(), results };
+}
+
+// NPV and PI discount from the first cash flow at time 0; IRR is NaN when the cash flows have none
+function evaluate(metric: Metric, cashFlows: number[], rate: number): number {
+    if (metric === 'irr') {
+        try {
+            return irr({ cashFlows });
+        } catch (error) {
+            if (error instanceof FinanceError) {
+                return NaN;
+            }
+            throw error;
+        }
+    }
+    if (metric === 'npv') {
+        return npv({ rate, cashFlows });
+    }
+    if (metric === 'pi') {
+        return profitabilityIndex({ rate, cashFlows });
+    }
+    throw new ValidationError(`Unknown metric ${metric}`, 'metric');
+}
+
+function run(model: CashFlowModel, inputs: ModelInputs): number[] {
+    const cashFlows = model(inputs);
+    assertCashFlows('model', cashFlows);
+    return cashFlows;
+}
+
+function summarize(values: number[], levels: number[]): MetricSummary {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const count = sorted.length;
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / count;
+    // the sample variance needs two values; a single one has no spread
+    const variance = count > 1 ? sorted.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (count - 1) : 0;
+    const percentiles: { [level: number]: number } = {};
+    levels.forEach((level) => percentiles[level] = percentile(sorted, level));
+    return { mean, standardDeviation: Math.sqrt(variance), min: sorted[0], max: sorted[count - 1], percentiles };
+}
+
+// standard normal draws by the Box-Muller transform
+function normalSource(random: () => number): () => number {
+    let spare: number | undefined;
+    return () => {
+        if (spare !== undefined) {
+            const value = spare;
+            spare = undefined;
+            return value;
+        }
+        const radius = Math.sqrt(-2 * Math.log(1 - random()));
+        const angle = 2 * Math.PI * random();
+        spare = radius * Math.sin(angle);
+        return radius * Math.cos(angle);
+    };
+}
+
+// value of the distribution at the quantile of a standard normal draw
+function quantile(distribution: Distribution, z: number): number {
+    switch (distribution.type) {
+        case 'normal':
+            return distribution.mean + distribution.standardDeviation * z;
+        case 'lognormal': {
+            const { mean, standardDeviation } = distribution;
+            const variance = Math.log(1 + Math.pow(standardDeviation / mean, 2));
+            return Math.exp(Math.log(mean) - variance / 2 + Math.sqrt(variance) * z);
+        }
+        case 'uniform':
+            return distribution.min + (distribution.max - distribution.min) * normalCdf(z);
+        case 'triangular': {
+            const { min, mode, max } = distribution;
+            const u = normalCdf(z);
+            return u < (mode - min) / (max - min)
+                ? min + Math.sqrt(u * (max - min) * (mode - min))
+                : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+        }
+    }
+}
+
+function validateDistribution(name: string, distribution: Distribution): void {
+    const argument = `inputs.${name}`;
+    if (!distribution) {
+        throw new ValidationError(`${argument} must be a distribution`, argument);
+    }
+    switch (distribution.type) {
+        case 'normal':
+            assertFinite(`${argument}.mean`, distribution.mean);
+            assertNonNegative(`${argument}.standardDeviation`, distribution.standardDeviation);
+            return;
+        case 'lognormal':
+            assertPositive(`${argument}.mean`, distribution.mean);
+            assertNonNegative(`${argument}.standardDeviation`, distribution.standardDeviation);
+            return;
+        case 'uniform':
+        case 'triangular': {
+            const { min, max } = distribution;
+            const mode = distribution.type === 'triangular' ? distribution.mode : min;
+            assertFinite(`${argument}.min`, min);
+            assertFinite(`${argument}.mode`, mode);
+            assertFinite(`${argument}.max`, max);
+            if (!(min < max) || mode < min || mode > max) {
+                throw new ValidationError(`${argument} must have min below max, and its mode between them`, argument);
+            }
+            return;
+        }
+        default:
+            throw new ValidationError(`Unknown distribution ${(distribution as Distribution).type}`, `${argument}.type`);
+    }
+}
+
+function correlationMatrix(names: string[], correlations: Correlation[]): number[][] {
+    const matrix: number[][] = names.map((_, i) => names.map((__, j) => i === j ? 1 : 0));
+    correlations.forEach((correlation, k) => {
+        const [first, second] = correlation.inputs;
+        const i = names.indexOf(first);
+        const j = names.indexOf(second);
+        if (i < 0 || j < 0 || i === j) {
+            throw new ValidationError('correlations must be between two different inputs', `correlations[${k}].inputs`);
+        }
+        const { coefficient } = correlation;
+        if (!(coefficient >= -1 && coefficient <= 1)) {
+            throw new ValidationError(`correlation coefficients must be between -1 and 1, got ${coefficient}`, `correlations[${k}].coefficient`);
+        }
+        matrix[i][j] = coefficient;
+        matrix[j][i] = coefficient;
+    });
+    return matrix;
+}
+
+// lower triangular factor L of the correlation matrix, L * L' = matrix
+function cholesky(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const factor = matrix.map(() => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) {
+                sum -= factor[i][k] * factor[j][k];
+            }
+            if (i === j) {
+                // a perfect correlation leaves a zero pivot up to rounding
+                if (sum < -1e-12) {
+                    throw new ValidationError('correlations must form a positive semi-definite matrix', 'correlations');
+                }
+                factor[i][i] = Math.sqrt(Math.max(sum, 0));
+            } else {
+                factor[i][j] = factor[j][j] === 0 ? 0 : sum / factor[j][j];
+            }
+        }
+    }
+    return factor;
+}
@@ -0,0 +1,309 @@
+import { DayCount, yearFraction } from './daycount';
+import { ValidationError } from './errors';
+import { findRoot, RATE_BRACKET, SolverOptions } from './solver';
+import { assertCashFlows, assertDates, assertFinite, assertInteger, assertPositive, assertRate, assertSignChange } from './validation';
+
+/**
+ * Spreadsheet time value of money functions. Signatures, defaults and sign conventions follow Excel and
+ * LibreOffice: rates are decimal fractions per period, money paid out is negative and money received is
+ * positive, and results are unrounded.
+ */
+
+/** 0 - payments at the end of each period, 1 - payments at the beginning */
+export type PaymentTiming = 0 | 1;
+
+export interface XIRROptions extends SolverOptions {
+    /** day count convention for the year fractions, defaults to ACT/365F */
+    dayCount?: DayCount;
+}
+
+/**
+ * Present value of a loan or an investment with level payments, like the spreadsheet PV function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - present value
+ * @example pv(0.08 / 12, 240, 500) // -59777.15
+ */
+export function pv(ratePerPeriod: number, numOfPeriods: number, payment: number, futureValue: number = 0, type: PaymentTiming = 0): number {
+    validate(ratePerPeriod, type, { numOfPeriods, payment, futureValue });
+    if (ratePerPeriod === 0) {
+        return -(futureValue + payment * numOfPeriods);
+    }
+    const growth = Math.pow(1 + ratePerPeriod, numOfPeriods);
+    return -(futureValue + payment * (1 + ratePerPeriod * type) * (growth - 1) / ratePerPeriod) / growth;
+}
+
+/**
+ * Future value of a loan or an investment with level payments, like the spreadsheet FV function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param presentValue - present value, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - future value
+ * @example fv(0.06 / 12, 10, -200, -500, 1) // 2581.40
+ */
+export function fv(ratePerPeriod: number, numOfPeriods: number, payment: number, presentValue: number = 0, type: PaymentTiming = 0): number {
+    validate(ratePerPeriod, type, { numOfPeriods, payment, presentValue });
+    if (ratePerPeriod === 0) {
+        return -(presentValue + payment * numOfPeriods);
+    }
+    const growth = Math.pow(1 + ratePerPeriod, numOfPeriods);
+    return -(presentValue * growth + payment * (1 + ratePerPeriod * type) * (growth - 1) / ratePerPeriod);
+}
+
+/**
+ * Level payment of a loan or an investment, like the spreadsheet PMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value, e.g. the loan principal
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - payment per period
+ * @example pmt(0.08 / 12, 10, 10000) // -1037.03
+ */
+export function pmt(ratePerPeriod: number, numOfPeriods: number, presentValue: number, futureValue: number = 0, type: PaymentTiming = 0): number {
+    validate(ratePerPeriod, type, { numOfPeriods, presentValue, futureValue });
+    assertNonZero('numOfPeriods', numOfPeriods);
+    if (ratePerPeriod === 0) {
+        return -(presentValue + futureValue) / numOfPeriods;
+    }
+    const growth = Math.pow(1 + ratePerPeriod, numOfPeriods);
+    return -(futureValue + presentValue * growth) * ratePerPeriod / ((1 + ratePerPeriod * type) * (growth - 1));
+}
+
+/**
+ * Number of periods of a loan or an investment, like the spreadsheet NPER function
+ * @param ratePerPeriod - interest rate per period
+ * @param payment - payment made each period
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - number of periods, fractional when the last payment is partial
+ * @example nper(0.12 / 12, -100, -1000, 10000, 1) // 59.67
+ */
+export function nper(ratePerPeriod: number, payment: number, presentValue: number, futureValue: number = 0, type: PaymentTiming = 0): number {
+    validate(ratePerPeriod, type, { payment, presentValue, futureValue });
+    if (ratePerPeriod === 0) {
+        assertNonZero('payment', payment);
+        return -(presentValue + futureValue) / payment;
+    }
+    const annuity = payment * (1 + ratePerPeriod * type);
+    const ratio = (annuity - futureValue * ratePerPeriod) / (annuity + presentValue * ratePerPeriod);
+    if (!(ratio > 0)) {
+        throw new ValidationError('The payment can never reach the future value', 'payment');
+    }
+    return Math.log(ratio) / Math.log(1 + ratePerPeriod);
+}
+
+/**
+ * Interest rate per period of a loan or an investment, like the spreadsheet RATE function. Solved with
+ * Newton's method from the guess, as spreadsheets do.
+ * @param numOfPeriods - number of periods
+ * @param payment - payment made each period
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @param guess - starting rate, defaults to 0.1
+ * @param options - solver tolerance and iteration cap
+ * @returns {number} - rate per period
+ * @example rate(48, -200, 8000) // 0.0077
+ */
+export function rate(
+    numOfPeriods: number, payment: number, presentValue: number, futureValue: number = 0, type: PaymentTiming = 0,
+    guess: number = 0.1, options: SolverOptions = {},
+): number {
+    assertRate('guess', guess);
+    validateArguments(type, { numOfPeriods, payment, presentValue, futureValue });
+    assertNonZero('numOfPeriods', numOfPeriods);
+    // balance left after the last period, zero at the rate. expm1 and log1p keep (growth - 1) / r accurate
+    // near a zero rate, where Newton's method would otherwise stall on rounding noise.
+    const residual = (r: number) => {
+        if (r === 0) {
+            return presentValue + payment * numOfPeriods + futureValue;
+        }
+        const growthMinusOne = Math.expm1(numOfPeriods * Math.log1p(r));
+        return presentValue * (1 + growthMinusOne) + payment * (1 + r * type) * growthMinusOne / r + futureValue;
+    };
+    return findRoot(residual, { ...options, guess });
+}
+
+/**
+ * Interest part of a given payment, like the spreadsheet IPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param per - period, from 1 to numOfPeriods
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - interest paid in the period
+ * @example ipmt(0.1 / 12, 1, 36, 8000) // -66.67
+ */
+export function ipmt(
+    ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue: number = 0, type: PaymentTiming = 0,
+): number {
+    assertPeriod('per', per, numOfPeriods);
+    const payment = pmt(ratePerPeriod, numOfPeriods, presentValue, futureValue, type);
+    if (per === 1) {
+        return type === 1 ? 0 : -presentValue * ratePerPeriod;
+    }
+    // interest accrues on the balance after the previous payment
+    const balance = type === 1
+        ? fv(ratePerPeriod, per - 2, payment, presentValue, 1) - payment
+        : fv(ratePerPeriod, per - 1, payment, presentValue, 0);
+    return balance * ratePerPeriod;
+}
+
+/**
+ * Principal part of a given payment, like the spreadsheet PPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param per - period, from 1 to numOfPeriods
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param futureValue - future value after the last payment, defaults to 0
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - principal repaid in the period
+ * @example ppmt(0.1 / 12, 1, 24, 2000) // -75.62
+ */
+export function ppmt(
+    ratePerPeriod: number, per: number, numOfPeriods: number, presentValue: number, futureValue: number = 0, type: PaymentTiming = 0,
+): number {
+    return pmt(ratePerPeriod, numOfPeriods, presentValue, futureValue, type) - ipmt(ratePerPeriod, per, numOfPeriods, presentValue, futureValue, type);
+}
+
+/**
+ * Cumulative interest paid between two periods, like the spreadsheet CUMIPMT function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param startPeriod - first period, from 1
+ * @param endPeriod - last period, up to numOfPeriods
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - interest paid, negative for a loan
+ * @example cumipmt(0.09 / 12, 360, 125000, 13, 24, 0) // -11135.23
+ */
+export function cumipmt(
+    ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming,
+): number {
+    assertRange(startPeriod, endPeriod, numOfPeriods);
+    let total = 0;
+    for (let per = startPeriod; per <= endPeriod; per++) {
+        total += ipmt(ratePerPeriod, per, numOfPeriods, presentValue, 0, type);
+    }
+    return total;
+}
+
+/**
+ * Cumulative principal repaid between two periods, like the spreadsheet CUMPRINC function
+ * @param ratePerPeriod - interest rate per period
+ * @param numOfPeriods - number of periods
+ * @param presentValue - present value
+ * @param startPeriod - first period, from 1
+ * @param endPeriod - last period, up to numOfPeriods
+ * @param type - 0 - pay at the end of the period, 1 - pay at the beginning
+ * @returns {number} - principal repaid, negative for a loan
+ * @example cumprinc(0.09 / 12, 360, 125000, 13, 24, 0) // -934.11
+ */
+export function cumprinc(
+    ratePerPeriod: number, numOfPeriods: number, presentValue: number, startPeriod: number, endPeriod: number, type: PaymentTiming,
+): number {
+    assertRange(startPeriod, endPeriod, numOfPeriods);
+    let total = 0;
+    for (let per = startPeriod; per <= endPeriod; per++) {
+        total += ppmt(ratePerPeriod, per, numOfPeriods, presentValue, 0, type);
+    }
+    return total;
+}
+
+/**
+ * Effective annual rate of a nominal rate, like the spreadsheet EFFECT function
+ * @param nominalRate - nominal annual rate
+ * @param npery - compounding periods per year, truncated to an integer
+ * @returns {number} - effective annual rate
+ * @example effect(0.0525, 4) // 0.053542667
+ */
+export function effect(nominalRate: number, npery: number): number {
+    assertPositive('nominalRate', nominalRate);
+    const periods = compoundings(npery);
+    return Math.pow(1 + nominalRate / periods, periods) - 1;
+}
+
+/**
+ * Nominal annual rate of an effective rate, like the spreadsheet NOMINAL function
+ * @param effectRate - effective annual rate
+ * @param npery - compounding periods per year, truncated to an integer
+ * @returns {number} - nominal annual rate
+ * @example nominal(0.053543, 4) // 0.05250032
+ */
+export function nominal(effectRate: number, npery: number): number {
+    assertPositive('effectRate', effectRate);
+    const periods = compoundings(npery);
+    return periods * (Math.pow(1 + effectRate, 1 / periods) - 1);
+}
+
+/**
+ * Annual internal rate of return of cash flows on irregular dates, like the spreadsheet XIRR function. Cash
+ * flows are discounted back to the first date over year fractions of the day count convention.
+ * @param values - cash flows, with at least one sign change
+ * @param dates - dates of the cash flows
+ * @param guess - starting rate when the rate can't be bracketed, defaults to 0
+ * @param options - solver tolerance, iteration cap and bracket, and day count convention
+ * @returns {number} - annual rate
+ * @example xirr([-10000, 2750, 4250, 3250, 2750], dates) // 0.3734
+ */
+export function xirr(values: number[], dates: Date[], guess: number = 0, options: XIRROptions = {}): number {
+    assertCashFlows('values', values, 2);
+    assertDates('dates', dates, values.length);
+    assertSignChange('values', values, 'XIRR');
+    const years = dates.map((date) => yearFraction(dates[0], date, options.dayCount));
+    const xnpv = (r: number) => values.reduce((sum, value, i) => sum + value / Math.pow(1 + r, years[i]), 0);
+    const dxnpv = (r: number) => values.reduce((sum, value, i) => sum - value * years[i] * Math.pow(1 + r, -1 - years[i]), 0);
+    return findRoot(xnpv, { bracket: RATE_BRACKET, guess, ...options }, dxnpv);
+}
+
+// checks the rate, the payment timing and the other arguments by name
+function validate(ratePerPeriod: number, type: PaymentTiming, values: { [name: string]: number }): void {
+    assertRate('ratePerPeriod', ratePerPeriod);
+    validateArguments(type, values);
+}
+
+// checks the payment timing and the other arguments by name
+function validateArguments(type: PaymentTiming, values: { [name: string]: number }): void {
+    Object.keys(values).forEach((name) => assertFinite(name, values[name]));
+    if (type !== 0 && type !== 1) {
+        throw new ValidationError(`type must be 0 (end of period) or 1 (beginning of period), got ${type}`, 'type');
+    }
+}
+
+function assertNonZero(name: string, value: number): void {
+    if (value === 0) {
+        throw new ValidationError(`${name} must not be 0`, name);
+    }
+}
+
+function assertPeriod(name: string, per: number, numOfPeriods: number): void {
+    assertFinite(name, per);
+    if (per < 1 || per > numOfPeriods) {
+        throw new ValidationError(`${name} must be between 1 and numOfPeriods, got ${per}`, name);
+    }
+}
+
+function assertRange(startPeriod: number, endPeriod: number, numOfPeriods: number): void {
+    assertInteger('startPeriod', startPeriod);
+    assertInteger('endPeriod', endPeriod);
+    if (startPeriod > endPeriod || endPeriod > numOfPeriods) {
+        throw new ValidationError('startPeriod must not be after endPeriod, and endPeriod must not be after numOfPeriods', 'endPeriod');
+    }
+}
+
+function compoundings(npery: number): number {
+    assertFinite('npery', npery);
+    const periods = Math.floor(npery);
+    if (periods < 1) {
+        throw new ValidationError(`npery must be at least 1, got ${npery}`, 'npery');
+    }
+    return periods;
+}
@@ -0,0 +1,112 @@
+import { CashFlowError, ValidationError } from './errors';
+
+/**
+ * Checks that a value is a finite number
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export function assertFinite(name: string, value: number): void {
+    if (typeof value !== 'number' || !isFinite(value)) {
+        throw new ValidationError(`${name} must be a finite number, got ${value}`, name);
+    }
+}
+
+/**
+ * Checks that a value is a finite number greater than zero
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export function assertPositive(name: string, value: number): void {
+    assertFinite(name, value);
+    if (value <= 0) {
+        throw new ValidationError(`${name} must be greater than 0, got ${value}`, name);
+    }
+}
+
+/**
+ * Checks that a value is a finite number not below zero
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ */
+export function assertNonNegative(name: string, value: number): void {
+    assertFinite(name, value);
+    if (value < 0) {
+        throw new ValidationError(`${name} must not be negative, got ${value}`, name);
+    }
+}
+
+/**
+ * Checks that a value is a whole number of at least the given minimum
+ * @param name - argument name reported in the error
+ * @param value - value to check
+ * @param min - smallest allowed value, defaults to 1
+ */
+export function assertInteger(name: string, value: number, min: number = 1): void {
+    assertFinite(name, value);
+    if (value !== Math.floor(value) || value < min) {
+        throw new ValidationError(`${name} must be a whole number of at least ${min}, got ${value}`, name);
+    }
+}
+
+/**
+ * Checks that a rate as a fraction is finite and above -100%
+ * @param name - argument name reported in the error
+ * @param rate - rate as a fraction
+ */
+export function assertRate(name: string, rate: number): void {
+    assertFinite(name, rate);
+    if (rate <= -1) {
+        throw new ValidationError(`${name} must be above -100%, got ${rate * 100}%`, name);
+    }
+}
+
+/**
+ * Checks that cash flows are a non-empty list of finite numbers
+ * @param name - argument name reported in the error
+ * @param cashFlows - cash flows to check
+ * @param minLength - smallest allowed number of cash flows, defaults to 1
+ */
+export function assertCashFlows(name: string, cashFlows: number[], minLength: number = 1): void {
+    if (!Array.isArray(cashFlows) || cashFlows.length < minLength) {
+        throw new ValidationError(`${name} must contain at least ${minLength} cash flow${minLength === 1 ? '' : 's'}`, name);
+    }
+    cashFlows.forEach((cf, i) => assertFinite(`${name}[${i}]`, cf));
+}
+
+/**
+ * Checks that cash flows contain at least one positive and one negative value, as rates of return require
+ * @param name - argument name reported in the error
+ * @param cashFlows - cash flows to check
+ * @param method - method name used in the message
+ */
+export function assertSignChange(name: string, cashFlows: number[], method: string): void {
+    const positive = cashFlows.some((cf) => cf > 0);
+    const negative = cashFlows.some((cf) => cf < 0);
+    if (!positive || !negative) {
+        throw new CashFlowError(`${method} requires at least one positive value and one negative value`, name);
+    }
+}
+
+/**
+ * Checks that dates are valid and match the cash flows one to one
+ * @param name - argument name reported in the error
+ * @param dates - dates to check
+ * @param count - expected number of dates
+ */
+export function assertDates(name: string, dates: Date[], count: number): void {
+    if (!Array.isArray(dates) || dates.length !== count) {
+        throw new ValidationError('Number of cash flows and dates should match', name);
+    }
+    dates.forEach((date, i) => assertDate(`${name}[${i}]`, date));
+}
+
+/**
+ * Checks that a value is a valid date
+ * @param name - argument name reported in the error
+ * @param date - value to check
+ */
+export function assertDate(name: string, date: Date): void {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+        throw new ValidationError(`${name} must be a valid date`, name);
+    }
+}
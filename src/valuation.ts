@@ -0,0 +1,330 @@
+import { ValidationError } from './errors';
+import { assertCashFlows, assertFinite, assertInteger, assertNonNegative, assertPositive, assertRate } from './validation';
+
+/** inputs of the capital asset pricing model, rates as fractions */
+export interface CapmInputs {
+    riskFree: number;
+    beta: number;
+    /** expected market return */
+    marketReturn: number;
+    /** additional premium, e.g. for size or country risk, defaults to 0 */
+    premium?: number;
+}
+
+/** inputs of the weighted average cost of capital, rates as fractions */
+export interface WaccInputs {
+    /** market value of equity */
+    equity: number;
+    /** market value of debt */
+    debt: number;
+    /** cost of equity, or the CAPM inputs it is estimated from */
+    costOfEquity: number | CapmInputs;
+    /** pre-tax cost of debt */
+    costOfDebt: number;
+    taxRate: number;
+}
+
+/** a rate as a fraction, or the CAPM or WACC inputs it is estimated from */
+export type DiscountRate = number | CapmInputs | WaccInputs;
+
+export interface GordonGrowthOptions {
+    /** dividend just paid (D0) */
+    dividend: number;
+    /** growth rate in perpetuity, must be below the cost of equity */
+    growth: number;
+    costOfEquity: number | CapmInputs;
+}
+
+export interface DividendDiscountOptions {
+    /** dividend just paid (D0) */
+    dividend: number;
+    /** growth rate of the high-growth stage */
+    highGrowth: number;
+    /** years of high growth */
+    highGrowthYears: number;
+    /** growth rate in perpetuity once growth is stable, must be below the cost of equity */
+    stableGrowth: number;
+    costOfEquity: number | CapmInputs;
+}
+
+export interface ThreeStageOptions extends DividendDiscountOptions {
+    /** years over which growth declines linearly from the high to the stable rate */
+    transitionYears: number;
+}
+
+export interface HModelOptions {
+    /** dividend just paid (D0) */
+    dividend: number;
+    /** growth rate today, declining linearly to the stable rate */
+    initialGrowth: number;
+    /** growth rate in perpetuity, must be below the cost of equity */
+    stableGrowth: number;
+    /** half of the years over which growth declines to the stable rate (H) */
+    halfLife: number;
+    costOfEquity: number | CapmInputs;
+}
+
+/** free cash flow to the firm, discounted at the WACC, or free cash flow to equity, discounted at the cost of equity */
+export type CashFlowBasis = 'fcff' | 'fcfe';
+
+export interface PerpetualGrowth {
+    method: 'perpetual-growth';
+    /** growth rate of the cash flows after the last forecast year, must be below the discount rate */
+    growth: number;
+}
+
+export interface ExitMultiple {
+    method: 'exit-multiple';
+    /** enterprise value multiple for FCFF, e.g. EV/EBITDA, or equity value multiple for FCFE, e.g. P/E */
+    multiple: number;
+    /** the metric the multiple applies to, in the last forecast year */
+    metric: number;
+}
+
+export type TerminalValueMethod = PerpetualGrowth | ExitMultiple;
+
+export interface DcfOptions {
+    basis: CashFlowBasis;
+    /** forecast free cash flows, one per year starting next year */
+    cashFlows: number[];
+    /** WACC for FCFF or cost of equity for FCFE, or the inputs they are estimated from */
+    discountRate: DiscountRate;
+    terminalValue: TerminalValueMethod;
+    /** debt, defaults to 0 */
+    debt?: number;
+    /** cash and equivalents, defaults to 0 */
+    cash?: number;
+    /** minority interest, defaults to 0 */
+    minorityInterest?: number;
+    /** preferred equity, defaults to 0 */
+    preferredEquity?: number;
+    /** shares outstanding, to value a share */
+    sharesOutstanding?: number;
+}
+
+/** enterprise value less debt, minority interest and preferred equity plus cash is the equity value */
+export interface ValueBridge {
+    enterpriseValue: number;
+    debt: number;
+    cash: number;
+    minorityInterest: number;
+    preferredEquity: number;
+    equityValue: number;
+}
+
+export interface DcfResult {
+    /** discount rate applied, as a fraction */
+    discountRate: number;
+    presentValueOfCashFlows: number;
+    /** value at the end of the last forecast year */
+    terminalValue: number;
+    presentValueOfTerminalValue: number;
+    bridge: ValueBridge;
+    /** equity value per share, when the shares outstanding are given */
+    valuePerShare?: number;
+}
+
+/**
+ * Capital asset pricing model (CAPM) - expected return of an asset from its systematic risk
+ * @param inputs - risk-free rate, beta of the asset, expected market return and additional premium
+ * @returns {number} - expected return as a fraction
+ * @example capm({ riskFree: 0.02, beta: 1.2, marketReturn: 0.1 }) // 0.116
+ */
+export function capm(inputs: CapmInputs): number {
+    const { riskFree, beta, marketReturn, premium = 0 } = inputs;
+    assertRate('riskFree', riskFree);
+    assertFinite('beta', beta);
+    assertRate('marketReturn', marketReturn);
+    assertFinite('premium', premium);
+    return riskFree + beta * (marketReturn - riskFree) + premium;
+}
+
+/**
+ * Weighted average cost of capital (WACC) - cost of equity and after-tax cost of debt weighted by market value
+ * @param inputs - market values of equity and debt, cost of equity or its CAPM inputs, pre-tax cost of debt and tax rate
+ * @returns {number} - weighted average cost of capital as a fraction
+ * @example wacc({ equity: 600000, debt: 400000, costOfEquity: 0.06, costOfDebt: 0.05, taxRate: 0.35 }) // 0.049
+ */
+export function wacc(inputs: WaccInputs): number {
+    const { equity, debt, costOfDebt, taxRate } = inputs;
+    assertNonNegative('equity', equity);
+    assertNonNegative('debt', debt);
+    const value = equity + debt;
+    assertPositive('equity + debt', value);
+    const costOfEquity = rateOf('costOfEquity', inputs.costOfEquity);
+    assertRate('costOfDebt', costOfDebt);
+    assertFinite('taxRate', taxRate);
+    return (equity / value) * costOfEquity + (debt / value) * costOfDebt * (1 - taxRate);
+}
+
+/**
+ * Discount rate - a rate given directly, or estimated with CAPM or WACC from its inputs
+ * @param rate - rate as a fraction, CAPM inputs or WACC inputs
+ * @returns {number} - discount rate as a fraction
+ * @example discountRate({ riskFree: 0.02, beta: 1.2, marketReturn: 0.1 }) // 0.116
+ */
+export function discountRate(rate: DiscountRate): number {
+    return rateOf('discountRate', rate);
+}
+
+/**
+ * Gordon growth model - value of a dividend growing at a constant rate in perpetuity
+ * @param options - dividend just paid, growth rate below the cost of equity, and cost of equity or its CAPM inputs
+ * @returns {number} - value per share
+ * @example gordonGrowth({ dividend: 2, growth: 0.05, costOfEquity: 0.1 }) // 42
+ */
+export function gordonGrowth(options: GordonGrowthOptions): number {
+    const { dividend, growth } = options;
+    assertFinite('dividend', dividend);
+    assertRate('growth', growth);
+    return terminalValue(dividend * (1 + growth), growth, costOfEquityOf('costOfEquity', options.costOfEquity));
+}
+
+/**
+ * Two-stage dividend discount model - dividends grow at a high rate for some years, then at a stable rate in
+ * perpetuity
+ * @param options - dividend just paid, high growth rate and years, stable growth rate and cost of equity
+ * @returns {number} - value per share
+ * @example twoStageDDM({ dividend: 1, highGrowth: 0.2, highGrowthYears: 3, stableGrowth: 0.05, costOfEquity: 0.1 }) // 30.84
+ */
+export function twoStageDDM(options: DividendDiscountOptions): number {
+    return threeStageDDM({ ...options, transitionYears: 0 });
+}
+
+/**
+ * Three-stage dividend discount model - dividends grow at a high rate for some years, then at a rate declining
+ * linearly to the stable rate over a transition, then at the stable rate in perpetuity
+ * @param options - dividend just paid, high growth rate and years, transition years, stable growth rate and cost
+ * of equity
+ * @returns {number} - value per share
+ */
+export function threeStageDDM(options: ThreeStageOptions): number {
+    const { dividend, highGrowth, highGrowthYears, transitionYears, stableGrowth } = options;
+    assertFinite('dividend', dividend);
+    assertRate('highGrowth', highGrowth);
+    assertInteger('highGrowthYears', highGrowthYears, 0);
+    assertInteger('transitionYears', transitionYears, 0);
+    assertRate('stableGrowth', stableGrowth);
+    const costOfEquity = costOfEquityOf('costOfEquity', options.costOfEquity);
+    const years = highGrowthYears + transitionYears;
+    let value = 0;
+    let current = dividend;
+    for (let year = 1; year <= years; year++) {
+        const growth = year <= highGrowthYears
+            ? highGrowth
+            : highGrowth - (highGrowth - stableGrowth) * (year - highGrowthYears) / transitionYears;
+        current *= 1 + growth;
+        value += current / Math.pow(1 + costOfEquity, year);
+    }
+    return value + terminalValue(current * (1 + stableGrowth), stableGrowth, costOfEquity) / Math.pow(1 + costOfEquity, years);
+}
+
+/**
+ * H-model - approximate value of a dividend whose growth declines linearly from an initial to a stable rate
+ * @param options - dividend just paid, initial and stable growth rates, half-life of the decline and cost of equity
+ * @returns {number} - value per share
+ * @example hModel({ dividend: 1, initialGrowth: 0.2, stableGrowth: 0.05, halfLife: 5, costOfEquity: 0.1 }) // 36
+ */
+export function hModel(options: HModelOptions): number {
+    const { dividend, initialGrowth, stableGrowth, halfLife } = options;
+    assertFinite('dividend', dividend);
+    assertRate('initialGrowth', initialGrowth);
+    assertRate('stableGrowth', stableGrowth);
+    assertNonNegative('halfLife', halfLife);
+    const costOfEquity = costOfEquityOf('costOfEquity', options.costOfEquity);
+    const premium = dividend * halfLife * (initialGrowth - stableGrowth);
+    return terminalValue(dividend * (1 + stableGrowth) + premium, stableGrowth, costOfEquity);
+}
+
+/**
+ * Discounted cash flow (DCF) - value of forecast free cash flows to the firm or to equity plus a terminal value,
+ * bridged from enterprise to equity value
+ * @param options - cash flow basis, forecast cash flows, discount rate, terminal value method, balance sheet
+ * items of the bridge and shares outstanding
+ * @returns {DcfResult} - present values, terminal value, value bridge and value per share
+ * @example discountedCashFlow({ basis: 'fcff', cashFlows: [100, 110], discountRate: 0.1, terminalValue: { method: 'perpetual-growth', growth: 0.02 } })
+ */
+export function discountedCashFlow(options: DcfOptions): DcfResult {
+    const { basis, cashFlows, debt = 0, cash = 0, minorityInterest = 0, preferredEquity = 0, sharesOutstanding } = options;
+    if (basis !== 'fcff' && basis !== 'fcfe') {
+        throw new ValidationError(`Unknown cash flow basis ${basis}`, 'basis');
+    }
+    assertCashFlows('cashFlows', cashFlows);
+    assertNonNegative('debt', debt);
+    assertNonNegative('cash', cash);
+    assertNonNegative('minorityInterest', minorityInterest);
+    assertNonNegative('preferredEquity', preferredEquity);
+    const rate = basis === 'fcff'
+        ? firmDiscountRate(options.discountRate)
+        : costOfEquityOf('discountRate', options.discountRate);
+
+    const years = cashFlows.length;
+    const presentValueOfCashFlows = cashFlows.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, i + 1), 0);
+    const terminal = options.terminalValue;
+    let value: number;
+    if (terminal.method === 'perpetual-growth') {
+        assertRate('terminalValue.growth', terminal.growth);
+        value = terminalValue(cashFlows[years - 1] * (1 + terminal.growth), terminal.growth, rate);
+    } else if (terminal.method === 'exit-multiple') {
+        assertNonNegative('terminalValue.multiple', terminal.multiple);
+        assertFinite('terminalValue.metric', terminal.metric);
+        value = terminal.multiple * terminal.metric;
+    } else {
+        throw new ValidationError(`Unknown terminal value method ${(terminal as TerminalValueMethod).method}`, 'terminalValue.method');
+    }
+    const presentValueOfTerminalValue = value / Math.pow(1 + rate, years);
+
+    const claims = debt - cash + minorityInterest + preferredEquity;
+    const present = presentValueOfCashFlows + presentValueOfTerminalValue;
+    const enterpriseValue = basis === 'fcff' ? present : present + claims;
+    const equityValue = basis === 'fcff' ? present - claims : present;
+    const result: DcfResult = {
+        discountRate: rate,
+        presentValueOfCashFlows,
+        terminalValue: value,
+        presentValueOfTerminalValue,
+        bridge: { enterpriseValue, debt, cash, minorityInterest, preferredEquity, equityValue },
+    };
+    if (sharesOutstanding !== undefined) {
+        assertPositive('sharesOutstanding', sharesOutstanding);
+        result.valuePerShare = equityValue / sharesOutstanding;
+    }
+    return result;
+}
+
+// value one period before the first cash flow of a growing perpetuity
+function terminalValue(nextCashFlow: number, growth: number, rate: number): number {
+    if (growth >= rate) {
+        throw new ValidationError('growth must be lower than the discount rate for a perpetual growth value', 'growth');
+    }
+    return nextCashFlow / (rate - growth);
+}
+
+function rateOf(name: string, rate: DiscountRate): number {
+    if (typeof rate === 'number') {
+        assertRate(name, rate);
+        return rate;
+    }
+    if (isWacc(rate)) {
+        return wacc({ ...rate, costOfEquity: rateOf(`${name}.costOfEquity`, rate.costOfEquity) });
+    }
+    return capm(rate);
+}
+
+function costOfEquityOf(name: string, rate: DiscountRate): number {
+    if (typeof rate !== 'number' && isWacc(rate)) {
+        throw new ValidationError('equity cash flows are discounted at the cost of equity, not the WACC', name);
+    }
+    return rateOf(name, rate);
+}
+
+function firmDiscountRate(rate: DiscountRate): number {
+    if (typeof rate !== 'number' && !isWacc(rate)) {
+        throw new ValidationError('cash flows to the firm are discounted at the WACC, not the cost of equity', 'discountRate');
+    }
+    return rateOf('discountRate', rate);
+}
+
+function isWacc(rate: CapmInputs | WaccInputs): rate is WaccInputs {
+    return (rate as WaccInputs).costOfEquity !== undefined;
+}